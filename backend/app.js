@@ -51,20 +51,26 @@ app.use(
 app.use(express.json({ limit: '10mb' }));
 app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 
+// Authentication middleware
+const { requireAuth, getBearerToken } = require('./middleware/auth');
+
 // Session configuration
-app.use(
-    session({
-        secret: config.secret,
-        store: sessionStore,
-        resave: false,
-        saveUninitialized: false,
-        cookie: {
-            httpOnly: true,
-            secure: config.sslEnabled,
-            maxAge: 2592000000, // 30 days
-            sameSite: config.sslEnabled ? 'none' : 'lax',
-        },
-    })
+const sessionMiddleware = session({
+    secret: config.secret,
+    store: sessionStore,
+    resave: false,
+    saveUninitialized: false,
+    cookie: {
+        httpOnly: true,
+        secure: config.sslEnabled,
+        maxAge: 2592000000, // 30 days
+        sameSite: config.sslEnabled ? 'none' : 'lax',
+    },
+});
+
+// API token requests are stateless and never load or create a session
+app.use((req, res, next) =>
+    getBearerToken(req) ? next() : sessionMiddleware(req, res, next)
 );
 
 // Static files
@@ -87,9 +93,6 @@ if (config.production) {
 // Serve uploaded files
 app.use('/api/uploads', express.static(path.join(__dirname, 'uploads')));
 
-// Authentication middleware
-const { requireAuth } = require('./middleware/auth');
-
 // Health check (before auth middleware) - ensure it's completely bypassed
 app.get('/api/health', (req, res) => {
     res.status(200).json({
@@ -102,8 +105,13 @@ app.get('/api/health', (req, res) => {
 
 // Routes
 app.use('/api', require('./routes/auth'));
+app.use('/api/calendar/feed', require('./routes/calendar-feed'));
 app.use('/api', requireAuth, require('./routes/tasks'));
 app.use('/api', requireAuth, require('./routes/projects'));
+app.use('/api', requireAuth, require('./routes/project-sections'));
+app.use('/api', requireAuth, require('./routes/project-templates'));
+app.use('/api', requireAuth, require('./routes/task-templates'));
+app.use('/api', requireAuth, require('./routes/task-reminders'));
 app.use('/api', requireAuth, require('./routes/areas'));
 app.use('/api', requireAuth, require('./routes/notes'));
 app.use('/api', requireAuth, require('./routes/tags'));
@@ -113,8 +121,21 @@ app.use('/api', requireAuth, require('./routes/url'));
 app.use('/api', requireAuth, require('./routes/telegram'));
 app.use('/api', requireAuth, require('./routes/quotes'));
 app.use('/api', requireAuth, require('./routes/task-events'));
+app.use('/api', requireAuth, require('./routes/search'));
+app.use('/api', requireAuth, require('./routes/filters'));
+app.use('/api', requireAuth, require('./routes/trash'));
+app.use('/api', requireAuth, require('./routes/undo'));
+app.use('/api', requireAuth, require('./routes/api-tokens'));
+app.use('/api', requireAuth, require('./routes/webhooks'));
+app.use('/api', requireAuth, require('./routes/events'));
+app.use('/api', requireAuth, require('./routes/backup'));
+app.use('/api', requireAuth, require('./routes/importers'));
 app.use('/api/calendar', require('./routes/calendar'));
 
+// CalDAV clients look up the service here before discovering calendars
+app.all('/.well-known/caldav', (req, res) => res.redirect(301, '/caldav/'));
+app.use('/caldav', require('./routes/caldav'));
+
 // SPA fallback
 app.get('*', (req, res) => {
     if (
@@ -70,6 +70,11 @@ const config = {
 
     sslEnabled:
         production && process.env.TUDUDI_INTERNAL_SSL_ENABLED === 'true',
+
+    // Days deleted items stay in the trash; 0 keeps them until emptied
+    trashRetentionDays: process.env.TUDUDI_TRASH_RETENTION_DAYS
+        ? parseInt(process.env.TUDUDI_TRASH_RETENTION_DAYS, 10)
+        : 30,
 };
 
 if (environment !== 'production') {
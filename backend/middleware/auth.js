@@ -1,4 +1,38 @@
 const { User } = require('../models');
+const apiTokenService = require('../services/apiTokenService');
+
+const getBearerToken = (req) => {
+    const header = req.headers && req.headers.authorization;
+    if (!header) return null;
+    const match = header.match(/^Bearer\s+(\S+)$/i);
+    return match ? match[1] : null;
+};
+
+const authenticateApiToken = async (req, res, next, token) => {
+    // requireAuth runs once per mounted router; reuse the first lookup
+    if (!req.apiToken) {
+        const result = await apiTokenService.authenticate(token);
+        if (!result) {
+            return res
+                .status(401)
+                .json({ error: 'Invalid or expired API token' });
+        }
+
+        req.currentUser = result.user;
+        req.apiToken = result.apiToken;
+        // Older routes read the user from the session. Token requests skip
+        // the session middleware (see app.js), so this stand-in lives only
+        // for the current request and is never persisted. Routes that
+        // change the session itself turn token requests away.
+        req.session = { userId: result.user.id };
+    }
+
+    if (!apiTokenService.allowsMethod(req.apiToken, req.method)) {
+        return res.status(403).json({ error: 'This API token is read-only' });
+    }
+
+    next();
+};
 
 const requireAuth = async (req, res, next) => {
     try {
@@ -8,6 +42,11 @@ const requireAuth = async (req, res, next) => {
             return next();
         }
 
+        const bearerToken = getBearerToken(req);
+        if (bearerToken) {
+            return await authenticateApiToken(req, res, next, bearerToken);
+        }
+
         if (!req.session || !req.session.userId) {
             return res.status(401).json({ error: 'Authentication required' });
         }
@@ -28,4 +67,5 @@ const requireAuth = async (req, res, next) => {
 
 module.exports = {
     requireAuth,
+    getBearerToken,
 };
@@ -0,0 +1,29 @@
+'use strict';
+
+module.exports = {
+    async up(queryInterface, Sequelize) {
+        await queryInterface.addColumn('tasks', 'parent_task_id', {
+            type: Sequelize.INTEGER,
+            allowNull: true,
+            references: {
+                model: 'tasks',
+                key: 'id',
+            },
+            onDelete: 'CASCADE',
+        });
+
+        await queryInterface.addColumn('tasks', 'complete_with_subtasks', {
+            type: Sequelize.BOOLEAN,
+            allowNull: false,
+            defaultValue: false,
+        });
+
+        await queryInterface.addIndex('tasks', ['parent_task_id']);
+    },
+
+    async down(queryInterface, Sequelize) {
+        await queryInterface.removeIndex('tasks', ['parent_task_id']);
+        await queryInterface.removeColumn('tasks', 'complete_with_subtasks');
+        await queryInterface.removeColumn('tasks', 'parent_task_id');
+    },
+};
@@ -0,0 +1,59 @@
+'use strict';
+
+module.exports = {
+    async up(queryInterface, Sequelize) {
+        const tables = await queryInterface.showAllTables();
+        if (!tables.includes('task_dependencies')) {
+            await queryInterface.createTable('task_dependencies', {
+                task_id: {
+                    type: Sequelize.INTEGER,
+                    allowNull: false,
+                    references: {
+                        model: 'tasks',
+                        key: 'id',
+                    },
+                    onDelete: 'CASCADE',
+                },
+                depends_on_task_id: {
+                    type: Sequelize.INTEGER,
+                    allowNull: false,
+                    references: {
+                        model: 'tasks',
+                        key: 'id',
+                    },
+                    onDelete: 'CASCADE',
+                },
+                created_at: {
+                    allowNull: false,
+                    type: Sequelize.DATE,
+                    defaultValue: Sequelize.literal('CURRENT_TIMESTAMP'),
+                },
+                updated_at: {
+                    allowNull: false,
+                    type: Sequelize.DATE,
+                    defaultValue: Sequelize.literal('CURRENT_TIMESTAMP'),
+                },
+            });
+
+            await queryInterface.addIndex(
+                'task_dependencies',
+                ['task_id', 'depends_on_task_id'],
+                {
+                    unique: true,
+                    name: 'task_dependencies_unique_idx',
+                }
+            );
+            await queryInterface.addIndex(
+                'task_dependencies',
+                ['depends_on_task_id'],
+                {
+                    name: 'task_dependencies_depends_on_idx',
+                }
+            );
+        }
+    },
+
+    async down(queryInterface, Sequelize) {
+        await queryInterface.dropTable('task_dependencies');
+    },
+};
@@ -0,0 +1,65 @@
+'use strict';
+
+const SEARCH_INDEXES = [
+    {
+        table: 'tasks_fts',
+        source: 'tasks',
+        title: 'name',
+        body: "COALESCE(note, '') || char(10) || COALESCE(description, '')",
+    },
+    {
+        table: 'notes_fts',
+        source: 'notes',
+        title: 'title',
+        body: "COALESCE(content, '')",
+    },
+    {
+        table: 'projects_fts',
+        source: 'projects',
+        title: 'name',
+        body: "COALESCE(description, '')",
+    },
+    {
+        table: 'inbox_items_fts',
+        source: 'inbox_items',
+        title: 'content',
+        body: "''",
+    },
+];
+
+module.exports = {
+    async up(queryInterface, Sequelize) {
+        const tables = await queryInterface.showAllTables();
+
+        for (const index of SEARCH_INDEXES) {
+            if (tables.includes(index.table)) {
+                continue;
+            }
+
+            await queryInterface.sequelize.query(
+                `CREATE VIRTUAL TABLE ${index.table} USING fts5(
+          entity_id UNINDEXED,
+          user_id UNINDEXED,
+          title,
+          body,
+          tokenize = 'unicode61 remove_diacritics 2'
+        )`
+            );
+
+            // Index existing records
+            await queryInterface.sequelize.query(
+                `INSERT INTO ${index.table} (entity_id, user_id, title, body)
+         SELECT id, user_id, COALESCE(${index.title}, ''), ${index.body}
+         FROM ${index.source}`
+            );
+        }
+    },
+
+    async down(queryInterface, Sequelize) {
+        for (const index of SEARCH_INDEXES) {
+            await queryInterface.sequelize.query(
+                `DROP TABLE IF EXISTS ${index.table}`
+            );
+        }
+    },
+};
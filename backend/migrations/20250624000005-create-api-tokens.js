@@ -0,0 +1,63 @@
+'use strict';
+
+module.exports = {
+    async up(queryInterface, Sequelize) {
+        await queryInterface.createTable('api_tokens', {
+            id: {
+                allowNull: false,
+                autoIncrement: true,
+                primaryKey: true,
+                type: Sequelize.INTEGER,
+            },
+            name: {
+                type: Sequelize.STRING,
+                allowNull: false,
+            },
+            token_hash: {
+                type: Sequelize.STRING,
+                allowNull: false,
+                unique: true,
+            },
+            token_prefix: {
+                type: Sequelize.STRING,
+                allowNull: false,
+            },
+            scope: {
+                type: Sequelize.STRING,
+                allowNull: false,
+                defaultValue: 'read',
+            },
+            expires_at: {
+                type: Sequelize.DATE,
+                allowNull: true,
+            },
+            last_used_at: {
+                type: Sequelize.DATE,
+                allowNull: true,
+            },
+            user_id: {
+                type: Sequelize.INTEGER,
+                allowNull: false,
+                references: {
+                    model: 'users',
+                    key: 'id',
+                },
+                onDelete: 'CASCADE',
+            },
+            created_at: {
+                allowNull: false,
+                type: Sequelize.DATE,
+            },
+            updated_at: {
+                allowNull: false,
+                type: Sequelize.DATE,
+            },
+        });
+
+        await queryInterface.addIndex('api_tokens', ['user_id']);
+    },
+
+    async down(queryInterface, Sequelize) {
+        await queryInterface.dropTable('api_tokens');
+    },
+};
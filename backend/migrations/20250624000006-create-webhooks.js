@@ -0,0 +1,130 @@
+'use strict';
+
+module.exports = {
+    async up(queryInterface, Sequelize) {
+        await queryInterface.createTable('webhooks', {
+            id: {
+                allowNull: false,
+                autoIncrement: true,
+                primaryKey: true,
+                type: Sequelize.INTEGER,
+            },
+            name: {
+                type: Sequelize.STRING,
+                allowNull: false,
+            },
+            url: {
+                type: Sequelize.STRING,
+                allowNull: false,
+            },
+            secret: {
+                type: Sequelize.STRING,
+                allowNull: false,
+            },
+            events: {
+                type: Sequelize.JSON,
+                allowNull: false,
+                defaultValue: [],
+            },
+            active: {
+                type: Sequelize.BOOLEAN,
+                allowNull: false,
+                defaultValue: true,
+            },
+            user_id: {
+                type: Sequelize.INTEGER,
+                allowNull: false,
+                references: {
+                    model: 'users',
+                    key: 'id',
+                },
+                onDelete: 'CASCADE',
+            },
+            created_at: {
+                allowNull: false,
+                type: Sequelize.DATE,
+            },
+            updated_at: {
+                allowNull: false,
+                type: Sequelize.DATE,
+            },
+        });
+
+        await queryInterface.addIndex('webhooks', ['user_id']);
+
+        await queryInterface.createTable('webhook_deliveries', {
+            id: {
+                allowNull: false,
+                autoIncrement: true,
+                primaryKey: true,
+                type: Sequelize.INTEGER,
+            },
+            webhook_id: {
+                type: Sequelize.INTEGER,
+                allowNull: false,
+                references: {
+                    model: 'webhooks',
+                    key: 'id',
+                },
+                onDelete: 'CASCADE',
+            },
+            event: {
+                type: Sequelize.STRING,
+                allowNull: false,
+            },
+            payload: {
+                type: Sequelize.JSON,
+                allowNull: false,
+            },
+            status: {
+                type: Sequelize.STRING,
+                allowNull: false,
+                defaultValue: 'pending',
+            },
+            attempts: {
+                type: Sequelize.INTEGER,
+                allowNull: false,
+                defaultValue: 0,
+            },
+            next_attempt_at: {
+                type: Sequelize.DATE,
+                allowNull: true,
+            },
+            last_attempt_at: {
+                type: Sequelize.DATE,
+                allowNull: true,
+            },
+            response_status: {
+                type: Sequelize.INTEGER,
+                allowNull: true,
+            },
+            response_body: {
+                type: Sequelize.TEXT,
+                allowNull: true,
+            },
+            error: {
+                type: Sequelize.TEXT,
+                allowNull: true,
+            },
+            created_at: {
+                allowNull: false,
+                type: Sequelize.DATE,
+            },
+            updated_at: {
+                allowNull: false,
+                type: Sequelize.DATE,
+            },
+        });
+
+        await queryInterface.addIndex('webhook_deliveries', ['webhook_id']);
+        await queryInterface.addIndex('webhook_deliveries', [
+            'status',
+            'next_attempt_at',
+        ]);
+    },
+
+    async down(queryInterface, Sequelize) {
+        await queryInterface.dropTable('webhook_deliveries');
+        await queryInterface.dropTable('webhooks');
+    },
+};
@@ -0,0 +1,19 @@
+'use strict';
+
+module.exports = {
+    async up(queryInterface, Sequelize) {
+        await queryInterface.addColumn('users', 'calendar_feed_token', {
+            type: Sequelize.STRING,
+            allowNull: true,
+        });
+
+        await queryInterface.addIndex('users', ['calendar_feed_token'], {
+            unique: true,
+        });
+    },
+
+    async down(queryInterface, Sequelize) {
+        await queryInterface.removeIndex('users', ['calendar_feed_token']);
+        await queryInterface.removeColumn('users', 'calendar_feed_token');
+    },
+};
@@ -0,0 +1,31 @@
+'use strict';
+
+const TABLES = ['tasks', 'projects', 'notes', 'areas', 'inbox_items'];
+
+module.exports = {
+    async up(queryInterface, Sequelize) {
+        for (const table of TABLES) {
+            await queryInterface.addColumn(table, 'deleted_at', {
+                type: Sequelize.DATE,
+                allowNull: true,
+            });
+            await queryInterface.addIndex(table, ['deleted_at']);
+        }
+
+        // Inbox items used to be hidden with a "deleted" status
+        await queryInterface.sequelize.query(
+            "UPDATE inbox_items SET deleted_at = updated_at WHERE status = 'deleted'"
+        );
+    },
+
+    async down(queryInterface) {
+        await queryInterface.sequelize.query(
+            "UPDATE inbox_items SET status = 'deleted' WHERE deleted_at IS NOT NULL"
+        );
+
+        for (const table of TABLES) {
+            await queryInterface.removeIndex(table, ['deleted_at']);
+            await queryInterface.removeColumn(table, 'deleted_at');
+        }
+    },
+};
@@ -0,0 +1,17 @@
+'use strict';
+
+module.exports = {
+    async up(queryInterface, Sequelize) {
+        await queryInterface.addColumn('task_events', 'undo_token', {
+            type: Sequelize.STRING,
+            allowNull: true,
+        });
+
+        await queryInterface.addIndex('task_events', ['undo_token']);
+    },
+
+    async down(queryInterface) {
+        await queryInterface.removeIndex('task_events', ['undo_token']);
+        await queryInterface.removeColumn('task_events', 'undo_token');
+    },
+};
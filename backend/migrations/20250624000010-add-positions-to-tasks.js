@@ -0,0 +1,20 @@
+'use strict';
+
+module.exports = {
+    async up(queryInterface, Sequelize) {
+        await queryInterface.addColumn('tasks', 'position', {
+            type: Sequelize.FLOAT,
+            allowNull: true,
+        });
+
+        await queryInterface.addColumn('tasks', 'today_position', {
+            type: Sequelize.FLOAT,
+            allowNull: true,
+        });
+    },
+
+    async down(queryInterface) {
+        await queryInterface.removeColumn('tasks', 'today_position');
+        await queryInterface.removeColumn('tasks', 'position');
+    },
+};
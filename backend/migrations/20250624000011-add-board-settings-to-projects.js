@@ -0,0 +1,22 @@
+'use strict';
+
+module.exports = {
+    async up(queryInterface, Sequelize) {
+        await queryInterface.addColumn('projects', 'view_mode', {
+            type: Sequelize.STRING,
+            allowNull: false,
+            defaultValue: 'list',
+        });
+
+        await queryInterface.addColumn('projects', 'wip_limits', {
+            type: Sequelize.JSON,
+            allowNull: false,
+            defaultValue: {},
+        });
+    },
+
+    async down(queryInterface) {
+        await queryInterface.removeColumn('projects', 'wip_limits');
+        await queryInterface.removeColumn('projects', 'view_mode');
+    },
+};
@@ -0,0 +1,71 @@
+'use strict';
+
+module.exports = {
+    async up(queryInterface, Sequelize) {
+        await queryInterface.createTable('project_sections', {
+            id: {
+                allowNull: false,
+                autoIncrement: true,
+                primaryKey: true,
+                type: Sequelize.INTEGER,
+            },
+            name: {
+                type: Sequelize.STRING,
+                allowNull: false,
+            },
+            position: {
+                type: Sequelize.INTEGER,
+                allowNull: false,
+                defaultValue: 0,
+            },
+            target_date: {
+                type: Sequelize.DATE,
+                allowNull: true,
+            },
+            project_id: {
+                type: Sequelize.INTEGER,
+                allowNull: false,
+                references: {
+                    model: 'projects',
+                    key: 'id',
+                },
+                onDelete: 'CASCADE',
+            },
+            user_id: {
+                type: Sequelize.INTEGER,
+                allowNull: false,
+                references: {
+                    model: 'users',
+                    key: 'id',
+                },
+                onDelete: 'CASCADE',
+            },
+            created_at: {
+                allowNull: false,
+                type: Sequelize.DATE,
+            },
+            updated_at: {
+                allowNull: false,
+                type: Sequelize.DATE,
+            },
+        });
+
+        await queryInterface.addIndex('project_sections', ['user_id']);
+        await queryInterface.addIndex('project_sections', ['project_id']);
+
+        await queryInterface.addColumn('tasks', 'section_id', {
+            type: Sequelize.INTEGER,
+            allowNull: true,
+            references: {
+                model: 'project_sections',
+                key: 'id',
+            },
+            onDelete: 'SET NULL',
+        });
+    },
+
+    async down(queryInterface, Sequelize) {
+        await queryInterface.removeColumn('tasks', 'section_id');
+        await queryInterface.dropTable('project_sections');
+    },
+};
@@ -0,0 +1,17 @@
+'use strict';
+
+module.exports = {
+    async up(queryInterface, Sequelize) {
+        await queryInterface.addColumn('tasks', 'defer_until', {
+            type: Sequelize.DATE,
+            allowNull: true,
+        });
+
+        await queryInterface.addIndex('tasks', ['defer_until']);
+    },
+
+    async down(queryInterface) {
+        await queryInterface.removeIndex('tasks', ['defer_until']);
+        await queryInterface.removeColumn('tasks', 'defer_until');
+    },
+};
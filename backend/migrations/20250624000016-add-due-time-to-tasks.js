@@ -0,0 +1,14 @@
+'use strict';
+
+module.exports = {
+    async up(queryInterface, Sequelize) {
+        await queryInterface.addColumn('tasks', 'due_time', {
+            type: Sequelize.STRING(5),
+            allowNull: true,
+        });
+    },
+
+    async down(queryInterface) {
+        await queryInterface.removeColumn('tasks', 'due_time');
+    },
+};
@@ -0,0 +1,63 @@
+'use strict';
+
+module.exports = {
+    async up(queryInterface, Sequelize) {
+        await queryInterface.createTable('task_reminders', {
+            id: {
+                allowNull: false,
+                autoIncrement: true,
+                primaryKey: true,
+                type: Sequelize.INTEGER,
+            },
+            remind_at: {
+                type: Sequelize.DATE,
+                allowNull: true,
+            },
+            minutes_before_due: {
+                type: Sequelize.INTEGER,
+                allowNull: true,
+            },
+            snoozed_until: {
+                type: Sequelize.DATE,
+                allowNull: true,
+            },
+            sent_at: {
+                type: Sequelize.DATE,
+                allowNull: true,
+            },
+            task_id: {
+                type: Sequelize.INTEGER,
+                allowNull: false,
+                references: {
+                    model: 'tasks',
+                    key: 'id',
+                },
+                onDelete: 'CASCADE',
+            },
+            user_id: {
+                type: Sequelize.INTEGER,
+                allowNull: false,
+                references: {
+                    model: 'users',
+                    key: 'id',
+                },
+                onDelete: 'CASCADE',
+            },
+            created_at: {
+                allowNull: false,
+                type: Sequelize.DATE,
+            },
+            updated_at: {
+                allowNull: false,
+                type: Sequelize.DATE,
+            },
+        });
+
+        await queryInterface.addIndex('task_reminders', ['task_id']);
+        await queryInterface.addIndex('task_reminders', ['user_id', 'sent_at']);
+    },
+
+    async down(queryInterface, Sequelize) {
+        await queryInterface.dropTable('task_reminders');
+    },
+};
@@ -0,0 +1,20 @@
+'use strict';
+
+module.exports = {
+    async up(queryInterface, Sequelize) {
+        for (const table of ['projects', 'notes']) {
+            await queryInterface.addColumn(table, 'undo_token', {
+                type: Sequelize.STRING,
+                allowNull: true,
+            });
+            await queryInterface.addIndex(table, ['undo_token']);
+        }
+    },
+
+    async down(queryInterface) {
+        for (const table of ['projects', 'notes']) {
+            await queryInterface.removeIndex(table, ['undo_token']);
+            await queryInterface.removeColumn(table, 'undo_token');
+        }
+    },
+};
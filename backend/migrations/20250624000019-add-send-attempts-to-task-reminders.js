@@ -0,0 +1,20 @@
+'use strict';
+
+module.exports = {
+    async up(queryInterface, Sequelize) {
+        await queryInterface.addColumn('task_reminders', 'attempts', {
+            type: Sequelize.INTEGER,
+            allowNull: false,
+            defaultValue: 0,
+        });
+        await queryInterface.addColumn('task_reminders', 'next_attempt_at', {
+            type: Sequelize.DATE,
+            allowNull: true,
+        });
+    },
+
+    async down(queryInterface) {
+        await queryInterface.removeColumn('task_reminders', 'next_attempt_at');
+        await queryInterface.removeColumn('task_reminders', 'attempts');
+    },
+};
@@ -0,0 +1,66 @@
+const { DataTypes } = require('sequelize');
+
+module.exports = (sequelize) => {
+    const ApiToken = sequelize.define(
+        'ApiToken',
+        {
+            id: {
+                type: DataTypes.INTEGER,
+                primaryKey: true,
+                autoIncrement: true,
+            },
+            name: {
+                type: DataTypes.STRING,
+                allowNull: false,
+            },
+            // Only the SHA-256 hash is stored; the plaintext token is shown once
+            token_hash: {
+                type: DataTypes.STRING,
+                allowNull: false,
+                unique: true,
+            },
+            token_prefix: {
+                type: DataTypes.STRING,
+                allowNull: false,
+            },
+            scope: {
+                type: DataTypes.STRING,
+                allowNull: false,
+                defaultValue: 'read',
+                validate: {
+                    isIn: [['read', 'write']],
+                },
+            },
+            expires_at: {
+                type: DataTypes.DATE,
+                allowNull: true,
+            },
+            last_used_at: {
+                type: DataTypes.DATE,
+                allowNull: true,
+            },
+            user_id: {
+                type: DataTypes.INTEGER,
+                allowNull: false,
+                references: {
+                    model: 'users',
+                    key: 'id',
+                },
+            },
+        },
+        {
+            tableName: 'api_tokens',
+            indexes: [
+                {
+                    fields: ['user_id'],
+                },
+                {
+                    unique: true,
+                    fields: ['token_hash'],
+                },
+            ],
+        }
+    );
+
+    return ApiToken;
+};
@@ -28,10 +28,14 @@ module.exports = (sequelize) => {
         },
         {
             tableName: 'areas',
+            paranoid: true,
             indexes: [
                 {
                     fields: ['user_id'],
                 },
+                {
+                    fields: ['deleted_at'],
+                },
             ],
         }
     );
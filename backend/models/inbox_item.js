@@ -33,10 +33,14 @@ module.exports = (sequelize) => {
         },
         {
             tableName: 'inbox_items',
+            paranoid: true,
             indexes: [
                 {
                     fields: ['user_id'],
                 },
+                {
+                    fields: ['deleted_at'],
+                },
             ],
         }
     );
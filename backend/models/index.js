@@ -14,6 +14,7 @@ dbConfig = {
         underscored: true,
         createdAt: 'created_at',
         updatedAt: 'updated_at',
+        deletedAt: 'deleted_at',
     },
 };
 
@@ -23,11 +24,19 @@ const sequelize = new Sequelize(dbConfig);
 const User = require('./user')(sequelize);
 const Area = require('./area')(sequelize);
 const Project = require('./project')(sequelize);
+const ProjectSection = require('./project_section')(sequelize);
+const ProjectTemplate = require('./project_template')(sequelize);
+const TaskTemplate = require('./task_template')(sequelize);
+const TaskReminder = require('./task_reminder')(sequelize);
 const Task = require('./task')(sequelize);
 const Tag = require('./tag')(sequelize);
 const Note = require('./note')(sequelize);
 const InboxItem = require('./inbox_item')(sequelize);
 const TaskEvent = require('./task_event')(sequelize);
+const SavedFilter = require('./saved_filter')(sequelize);
+const ApiToken = require('./api_token')(sequelize);
+const Webhook = require('./webhook')(sequelize);
+const WebhookDelivery = require('./webhook_delivery')(sequelize);
 
 // Define associations
 User.hasMany(Area, { foreignKey: 'user_id' });
@@ -43,6 +52,30 @@ Task.belongsTo(User, { foreignKey: 'user_id' });
 Task.belongsTo(Project, { foreignKey: 'project_id', allowNull: true });
 Project.hasMany(Task, { foreignKey: 'project_id' });
 
+// Projects split their tasks into ordered sections
+User.hasMany(ProjectSection, { foreignKey: 'user_id' });
+ProjectSection.belongsTo(User, { foreignKey: 'user_id' });
+Project.hasMany(ProjectSection, { foreignKey: 'project_id' });
+ProjectSection.belongsTo(Project, { foreignKey: 'project_id' });
+ProjectSection.hasMany(Task, { foreignKey: 'section_id' });
+Task.belongsTo(ProjectSection, { foreignKey: 'section_id', allowNull: true });
+
+User.hasMany(ProjectTemplate, { foreignKey: 'user_id' });
+ProjectTemplate.belongsTo(User, { foreignKey: 'user_id' });
+
+User.hasMany(TaskTemplate, { foreignKey: 'user_id' });
+TaskTemplate.belongsTo(User, { foreignKey: 'user_id' });
+TaskTemplate.belongsTo(Project, { foreignKey: 'project_id', allowNull: true });
+
+User.hasMany(TaskReminder, { foreignKey: 'user_id' });
+TaskReminder.belongsTo(User, { foreignKey: 'user_id' });
+Task.hasMany(TaskReminder, { foreignKey: 'task_id' });
+TaskReminder.belongsTo(Task, { foreignKey: 'task_id' });
+
+// Subtask hierarchy (one level deep)
+Task.hasMany(Task, { as: 'Subtasks', foreignKey: 'parent_task_id' });
+Task.belongsTo(Task, { as: 'ParentTask', foreignKey: 'parent_task_id' });
+
 User.hasMany(Tag, { foreignKey: 'user_id' });
 Tag.belongsTo(User, { foreignKey: 'user_id' });
 
@@ -54,6 +87,17 @@ Project.hasMany(Note, { foreignKey: 'project_id' });
 User.hasMany(InboxItem, { foreignKey: 'user_id' });
 InboxItem.belongsTo(User, { foreignKey: 'user_id' });
 
+User.hasMany(SavedFilter, { foreignKey: 'user_id' });
+SavedFilter.belongsTo(User, { foreignKey: 'user_id' });
+
+User.hasMany(ApiToken, { foreignKey: 'user_id' });
+ApiToken.belongsTo(User, { foreignKey: 'user_id' });
+
+User.hasMany(Webhook, { foreignKey: 'user_id' });
+Webhook.belongsTo(User, { foreignKey: 'user_id' });
+Webhook.hasMany(WebhookDelivery, { foreignKey: 'webhook_id' });
+WebhookDelivery.belongsTo(Webhook, { foreignKey: 'webhook_id' });
+
 // TaskEvent associations
 User.hasMany(TaskEvent, { foreignKey: 'user_id', as: 'TaskEvents' });
 TaskEvent.belongsTo(User, { foreignKey: 'user_id', as: 'User' });
@@ -83,6 +127,20 @@ Tag.belongsToMany(Note, {
     otherKey: 'note_id',
 });
 
+// Task dependencies: a task is blocked by the tasks it depends on
+Task.belongsToMany(Task, {
+    through: 'task_dependencies',
+    as: 'Blockers',
+    foreignKey: 'task_id',
+    otherKey: 'depends_on_task_id',
+});
+Task.belongsToMany(Task, {
+    through: 'task_dependencies',
+    as: 'Dependents',
+    foreignKey: 'depends_on_task_id',
+    otherKey: 'task_id',
+});
+
 Project.belongsToMany(Tag, {
     through: 'projects_tags',
     foreignKey: 'project_id',
@@ -94,14 +152,31 @@ Tag.belongsToMany(Project, {
     otherKey: 'project_id',
 });
 
+// Full-text search index kept in sync with the models above
+const SearchIndex = require('./search_index')(sequelize, {
+    Task,
+    Note,
+    Project,
+    InboxItem,
+});
+
 module.exports = {
     sequelize,
     User,
     Area,
     Project,
+    ProjectSection,
+    ProjectTemplate,
+    TaskTemplate,
+    TaskReminder,
     Task,
     Tag,
     Note,
     InboxItem,
     TaskEvent,
+    SavedFilter,
+    ApiToken,
+    Webhook,
+    WebhookDelivery,
+    SearchIndex,
 };
@@ -33,12 +33,20 @@ module.exports = (sequelize) => {
                     key: 'id',
                 },
             },
+            // Set while the note is in the trash and its delete can still be
+            // undone
+            undo_token: {
+                type: DataTypes.STRING,
+                allowNull: true,
+            },
         },
         {
             tableName: 'notes',
             timestamps: true,
             createdAt: 'created_at',
             updatedAt: 'updated_at',
+            paranoid: true,
+            deletedAt: 'deleted_at',
             indexes: [
                 {
                     fields: ['user_id'],
@@ -46,6 +54,12 @@ module.exports = (sequelize) => {
                 {
                     fields: ['project_id'],
                 },
+                {
+                    fields: ['deleted_at'],
+                },
+                {
+                    fields: ['undo_token'],
+                },
             ],
         }
     );
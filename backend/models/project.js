@@ -1,5 +1,8 @@
 const { DataTypes } = require('sequelize');
 
+// Task statuses shown as board columns, in order
+const BOARD_STATUSES = ['not_started', 'in_progress', 'waiting', 'done'];
+
 module.exports = (sequelize) => {
     const Project = sequelize.define(
         'Project',
@@ -59,9 +62,55 @@ module.exports = (sequelize) => {
                 type: DataTypes.TEXT,
                 allowNull: true,
             },
+            // Whether the project's tasks show as a list or a board
+            view_mode: {
+                type: DataTypes.STRING,
+                allowNull: false,
+                defaultValue: 'list',
+                validate: {
+                    isIn: [['list', 'board']],
+                },
+            },
+            // Most tasks a board column should hold, keyed by status name;
+            // columns without one are unlimited
+            wip_limits: {
+                type: DataTypes.JSON,
+                allowNull: false,
+                defaultValue: {},
+                validate: {
+                    isValidLimits(value) {
+                        if (
+                            !value ||
+                            typeof value !== 'object' ||
+                            Array.isArray(value)
+                        ) {
+                            throw new Error('WIP limits must be an object.');
+                        }
+                        Object.entries(value).forEach(([status, limit]) => {
+                            if (!BOARD_STATUSES.includes(status)) {
+                                throw new Error(
+                                    `Unknown board column: ${status}.`
+                                );
+                            }
+                            if (!Number.isInteger(limit) || limit < 1) {
+                                throw new Error(
+                                    'WIP limits must be positive whole numbers.'
+                                );
+                            }
+                        });
+                    },
+                },
+            },
+            // Set while the project is in the trash and its delete can
+            // still be undone
+            undo_token: {
+                type: DataTypes.STRING,
+                allowNull: true,
+            },
         },
         {
             tableName: 'projects',
+            paranoid: true,
             indexes: [
                 {
                     fields: ['user_id'],
@@ -69,9 +118,17 @@ module.exports = (sequelize) => {
                 {
                     fields: ['area_id'],
                 },
+                {
+                    fields: ['deleted_at'],
+                },
+                {
+                    fields: ['undo_token'],
+                },
             ],
         }
     );
 
+    Project.BOARD_STATUSES = BOARD_STATUSES;
+
     return Project;
 };
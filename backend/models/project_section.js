@@ -0,0 +1,60 @@
+const { DataTypes } = require('sequelize');
+
+module.exports = (sequelize) => {
+    const ProjectSection = sequelize.define(
+        'ProjectSection',
+        {
+            id: {
+                type: DataTypes.INTEGER,
+                primaryKey: true,
+                autoIncrement: true,
+            },
+            name: {
+                type: DataTypes.STRING,
+                allowNull: false,
+                validate: {
+                    notEmpty: true,
+                },
+            },
+            // Order of the section within its project
+            position: {
+                type: DataTypes.INTEGER,
+                allowNull: false,
+                defaultValue: 0,
+            },
+            target_date: {
+                type: DataTypes.DATE,
+                allowNull: true,
+            },
+            project_id: {
+                type: DataTypes.INTEGER,
+                allowNull: false,
+                references: {
+                    model: 'projects',
+                    key: 'id',
+                },
+            },
+            user_id: {
+                type: DataTypes.INTEGER,
+                allowNull: false,
+                references: {
+                    model: 'users',
+                    key: 'id',
+                },
+            },
+        },
+        {
+            tableName: 'project_sections',
+            indexes: [
+                {
+                    fields: ['user_id'],
+                },
+                {
+                    fields: ['project_id'],
+                },
+            ],
+        }
+    );
+
+    return ProjectSection;
+};
@@ -0,0 +1,46 @@
+const { DataTypes } = require('sequelize');
+
+module.exports = (sequelize) => {
+    const ProjectTemplate = sequelize.define(
+        'ProjectTemplate',
+        {
+            id: {
+                type: DataTypes.INTEGER,
+                primaryKey: true,
+                autoIncrement: true,
+            },
+            name: {
+                type: DataTypes.STRING,
+                allowNull: false,
+                validate: {
+                    notEmpty: true,
+                },
+            },
+            // Project, sections, tasks and notes with their dates stored as
+            // day offsets from the start date
+            content: {
+                type: DataTypes.JSON,
+                allowNull: false,
+                defaultValue: {},
+            },
+            user_id: {
+                type: DataTypes.INTEGER,
+                allowNull: false,
+                references: {
+                    model: 'users',
+                    key: 'id',
+                },
+            },
+        },
+        {
+            tableName: 'project_templates',
+            indexes: [
+                {
+                    fields: ['user_id'],
+                },
+            ],
+        }
+    );
+
+    return ProjectTemplate;
+};
@@ -0,0 +1,40 @@
+const { DataTypes } = require('sequelize');
+
+module.exports = (sequelize) => {
+    const SavedFilter = sequelize.define(
+        'SavedFilter',
+        {
+            id: {
+                type: DataTypes.INTEGER,
+                primaryKey: true,
+                autoIncrement: true,
+            },
+            name: {
+                type: DataTypes.STRING,
+                allowNull: false,
+            },
+            query: {
+                type: DataTypes.TEXT,
+                allowNull: false,
+            },
+            user_id: {
+                type: DataTypes.INTEGER,
+                allowNull: false,
+                references: {
+                    model: 'users',
+                    key: 'id',
+                },
+            },
+        },
+        {
+            tableName: 'saved_filters',
+            indexes: [
+                {
+                    fields: ['user_id'],
+                },
+            ],
+        }
+    );
+
+    return SavedFilter;
+};
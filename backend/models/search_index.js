@@ -0,0 +1,227 @@
+// Full-text search index backed by SQLite FTS5. Every searchable model gets
+// its own virtual table with the same layout (entity_id, user_id, title, body)
+// which is kept in sync through model hooks.
+module.exports = (sequelize, { Task, Note, Project, InboxItem }) => {
+    const SEARCH_INDEXES = {
+        task: {
+            model: Task,
+            table: 'tasks_fts',
+            sourceTable: 'tasks',
+            title: (record) => record.name,
+            body: (record) =>
+                [record.note, record.description].filter(Boolean).join('\n'),
+            titleSql: 'name',
+            bodySql:
+                "COALESCE(note, '') || char(10) || COALESCE(description, '')",
+        },
+        note: {
+            model: Note,
+            table: 'notes_fts',
+            sourceTable: 'notes',
+            title: (record) => record.title,
+            body: (record) => record.content,
+            titleSql: 'title',
+            bodySql: "COALESCE(content, '')",
+        },
+        project: {
+            model: Project,
+            table: 'projects_fts',
+            sourceTable: 'projects',
+            title: (record) => record.name,
+            body: (record) => record.description,
+            titleSql: 'name',
+            bodySql: "COALESCE(description, '')",
+        },
+        inbox: {
+            model: InboxItem,
+            table: 'inbox_items_fts',
+            sourceTable: 'inbox_items',
+            title: (record) => record.content,
+            body: () => '',
+            titleSql: 'content',
+            bodySql: "''",
+        },
+    };
+
+    const query = (sql, replacements, options = {}) =>
+        sequelize.query(sql, {
+            replacements,
+            transaction: options.transaction,
+        });
+
+    async function tableExists(table) {
+        const rows = await sequelize.query(
+            "SELECT name FROM sqlite_master WHERE type = 'table' AND name = ?",
+            { replacements: [table], type: sequelize.QueryTypes.SELECT }
+        );
+        return rows.length > 0;
+    }
+
+    async function rebuildIndex(type) {
+        const index = SEARCH_INDEXES[type];
+        await query(`DELETE FROM ${index.table}`);
+        await query(
+            `INSERT INTO ${index.table} (entity_id, user_id, title, body)
+       SELECT id, user_id, COALESCE(${index.titleSql}, ''), ${index.bodySql}
+       FROM ${index.sourceTable}
+       WHERE deleted_at IS NULL`
+        );
+    }
+
+    async function ensureTables({ force = false } = {}) {
+        for (const type of Object.keys(SEARCH_INDEXES)) {
+            const index = SEARCH_INDEXES[type];
+            if (force) {
+                await query(`DROP TABLE IF EXISTS ${index.table}`);
+            }
+            if (await tableExists(index.table)) {
+                continue;
+            }
+            await query(
+                `CREATE VIRTUAL TABLE ${index.table} USING fts5(
+          entity_id UNINDEXED,
+          user_id UNINDEXED,
+          title,
+          body,
+          tokenize = 'unicode61 remove_diacritics 2'
+        )`
+            );
+            // Index records that existed before search was introduced
+            await rebuildIndex(type);
+        }
+    }
+
+    async function removeRecord(type, id, options = {}) {
+        const index = SEARCH_INDEXES[type];
+        await query(
+            `DELETE FROM ${index.table} WHERE entity_id = ?`,
+            [id],
+            options
+        );
+    }
+
+    async function indexRecord(type, record, options = {}) {
+        const index = SEARCH_INDEXES[type];
+        await removeRecord(type, record.id, options);
+        await query(
+            `INSERT INTO ${index.table} (entity_id, user_id, title, body) VALUES (?, ?, ?, ?)`,
+            [
+                record.id,
+                record.user_id,
+                index.title(record) || '',
+                index.body(record) || '',
+            ],
+            options
+        );
+    }
+
+    // Drop index rows whose source record is gone or in the trash
+    async function pruneIndex(type, options = {}) {
+        const index = SEARCH_INDEXES[type];
+        await query(
+            `DELETE FROM ${index.table} WHERE entity_id NOT IN (SELECT id FROM ${index.sourceTable} WHERE deleted_at IS NULL)`,
+            [],
+            options
+        );
+    }
+
+    // Re-index the records a bulk write touched, dropping those it moved
+    // to the trash
+    async function reindexMatching(type, options = {}) {
+        const records = await SEARCH_INDEXES[type].model.findAll({
+            where: options.where,
+            paranoid: false,
+            transaction: options.transaction,
+        });
+        for (const record of records) {
+            if (record.deleted_at) {
+                await removeRecord(type, record.id, options);
+            } else {
+                await indexRecord(type, record, options);
+            }
+        }
+    }
+
+    // Index maintenance must never break the write it follows
+    const safely =
+        (fn) =>
+        async (...args) => {
+            try {
+                await fn(...args);
+            } catch (error) {
+                console.error('Error updating search index:', error);
+            }
+        };
+
+    Object.entries(SEARCH_INDEXES).forEach(([type, index]) => {
+        index.model.addHook(
+            'afterCreate',
+            safely((record, options) => indexRecord(type, record, options))
+        );
+        index.model.addHook(
+            'afterUpdate',
+            safely((record, options) => indexRecord(type, record, options))
+        );
+        index.model.addHook(
+            'afterDestroy',
+            safely((record, options) => removeRecord(type, record.id, options))
+        );
+        index.model.addHook(
+            'afterRestore',
+            safely((record, options) => indexRecord(type, record, options))
+        );
+        index.model.addHook(
+            'afterBulkDestroy',
+            safely((options) => pruneIndex(type, options))
+        );
+        index.model.addHook(
+            'afterBulkRestore',
+            safely((options) => reindexMatching(type, options))
+        );
+        index.model.addHook(
+            'afterBulkUpdate',
+            safely((options) => reindexMatching(type, options))
+        );
+    });
+
+    sequelize.addHook(
+        'afterBulkSync',
+        safely((options) => ensureTables({ force: !!options.force }))
+    );
+
+    /**
+     * Run a ranked full-text query against one entity type
+     * @param {string} type - task, note, project or inbox
+     * @param {string} matchQuery - FTS5 MATCH expression
+     * @param {number} userId - User ID
+     * @param {number} limit - Maximum number of hits
+     * @returns {Promise<Array>} Hits with entity_id, highlighted title, snippet and rank
+     */
+    async function search(type, matchQuery, userId, limit) {
+        const { table } = SEARCH_INDEXES[type];
+        return await sequelize.query(
+            `SELECT entity_id,
+              highlight(${table}, 2, '<mark>', '</mark>') AS title_highlight,
+              snippet(${table}, 3, '<mark>', '</mark>', '…', 16) AS snippet,
+              bm25(${table}, 0, 0, 10.0, 1.0) AS rank
+       FROM ${table}
+       WHERE ${table} MATCH ? AND user_id = ?
+       ORDER BY rank
+       LIMIT ?`,
+            {
+                replacements: [matchQuery, userId, limit],
+                type: sequelize.QueryTypes.SELECT,
+            }
+        );
+    }
+
+    return {
+        SEARCH_TYPES: Object.keys(SEARCH_INDEXES),
+        ensureTables,
+        rebuildIndex,
+        indexRecord,
+        removeRecord,
+        search,
+        modelFor: (type) => SEARCH_INDEXES[type].model,
+    };
+};
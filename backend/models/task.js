@@ -27,6 +27,18 @@ module.exports = (sequelize) => {
                 type: DataTypes.DATE,
                 allowNull: true,
             },
+            // HH:mm on the due date in the user's timezone; tasks without
+            // one are due all day
+            due_time: {
+                type: DataTypes.STRING(5),
+                allowNull: true,
+                validate: {
+                    is: {
+                        args: /^([01]\d|2[0-3]):[0-5]\d$/,
+                        msg: 'Due time must be a HH:mm time.',
+                    },
+                },
+            },
             today: {
                 type: DataTypes.BOOLEAN,
                 allowNull: false,
@@ -116,6 +128,15 @@ module.exports = (sequelize) => {
                     key: 'id',
                 },
             },
+            // Section of the task's project it is filed under
+            section_id: {
+                type: DataTypes.INTEGER,
+                allowNull: true,
+                references: {
+                    model: 'project_sections',
+                    key: 'id',
+                },
+            },
             recurring_parent_id: {
                 type: DataTypes.INTEGER,
                 allowNull: true,
@@ -128,9 +149,41 @@ module.exports = (sequelize) => {
                 type: DataTypes.DATE,
                 allowNull: true,
             },
+            parent_task_id: {
+                type: DataTypes.INTEGER,
+                allowNull: true,
+                references: {
+                    model: 'tasks',
+                    key: 'id',
+                },
+            },
+            complete_with_subtasks: {
+                type: DataTypes.BOOLEAN,
+                allowNull: false,
+                defaultValue: false,
+            },
+            // Manual order within the task's project, or among tasks without
+            // one; tasks never moved have none and come last
+            position: {
+                type: DataTypes.FLOAT,
+                allowNull: true,
+            },
+            // Manual order within the today plan
+            today_position: {
+                type: DataTypes.FLOAT,
+                allowNull: true,
+            },
+            // Start date: the task stays out of the Today, Next and suggested
+            // lists until then
+            defer_until: {
+                type: DataTypes.DATE,
+                allowNull: true,
+            },
         },
         {
             tableName: 'tasks',
+            // Deleted records stay in the trash until they are purged
+            paranoid: true,
             indexes: [
                 {
                     fields: ['user_id'],
@@ -144,6 +197,15 @@ module.exports = (sequelize) => {
                 {
                     fields: ['last_generated_date'],
                 },
+                {
+                    fields: ['parent_task_id'],
+                },
+                {
+                    fields: ['deleted_at'],
+                },
+                {
+                    fields: ['defer_until'],
+                },
             ],
         }
     );
@@ -35,6 +35,7 @@ module.exports = (sequelize) => {
                             'status_changed',
                             'priority_changed',
                             'due_date_changed',
+                            'due_time_changed',
                             'project_changed',
                             'name_changed',
                             'description_changed',
@@ -49,6 +50,14 @@ module.exports = (sequelize) => {
                             'recurrence_type_changed',
                             'completion_based_changed',
                             'recurrence_end_date_changed',
+                            'subtask_added',
+                            'subtask_completed',
+                            'subtask_removed',
+                            'dependency_added',
+                            'dependency_removed',
+                            'unblocked',
+                            'deferred',
+                            'resurfaced',
                         ],
                     ],
                 },
@@ -90,6 +99,7 @@ module.exports = (sequelize) => {
                             'status',
                             'priority',
                             'due_date',
+                            'due_time',
                             'project_id',
                             'name',
                             'description',
@@ -103,6 +113,9 @@ module.exports = (sequelize) => {
                             'recurrence_month_day',
                             'recurrence_week_of_month',
                             'completion_based',
+                            'subtasks',
+                            'dependencies',
+                            'defer_until',
                         ],
                     ],
                 },
@@ -121,6 +134,11 @@ module.exports = (sequelize) => {
                     );
                 },
             },
+            // Shared by the events of one change while it can still be undone
+            undo_token: {
+                type: DataTypes.STRING,
+                allowNull: true,
+            },
         },
         {
             tableName: 'task_events',
@@ -146,6 +164,9 @@ module.exports = (sequelize) => {
                 {
                     fields: ['task_id', 'created_at'],
                 },
+                {
+                    fields: ['undo_token'],
+                },
             ],
         }
     );
@@ -0,0 +1,89 @@
+const { DataTypes } = require('sequelize');
+
+module.exports = (sequelize) => {
+    const TaskReminder = sequelize.define(
+        'TaskReminder',
+        {
+            id: {
+                type: DataTypes.INTEGER,
+                primaryKey: true,
+                autoIncrement: true,
+            },
+            // A fixed time to remind at, or null for a reminder relative to
+            // the task's due date
+            remind_at: {
+                type: DataTypes.DATE,
+                allowNull: true,
+            },
+            minutes_before_due: {
+                type: DataTypes.INTEGER,
+                allowNull: true,
+                validate: {
+                    min: 0,
+                },
+            },
+            // Set by "Snooze 1h"; takes over from the reminder's own time
+            snoozed_until: {
+                type: DataTypes.DATE,
+                allowNull: true,
+            },
+            sent_at: {
+                type: DataTypes.DATE,
+                allowNull: true,
+            },
+            // Failed sends so far, and when the next try is due
+            attempts: {
+                type: DataTypes.INTEGER,
+                allowNull: false,
+                defaultValue: 0,
+            },
+            next_attempt_at: {
+                type: DataTypes.DATE,
+                allowNull: true,
+            },
+            task_id: {
+                type: DataTypes.INTEGER,
+                allowNull: false,
+                references: {
+                    model: 'tasks',
+                    key: 'id',
+                },
+            },
+            user_id: {
+                type: DataTypes.INTEGER,
+                allowNull: false,
+                references: {
+                    model: 'users',
+                    key: 'id',
+                },
+            },
+        },
+        {
+            tableName: 'task_reminders',
+            indexes: [
+                {
+                    fields: ['task_id'],
+                },
+                {
+                    fields: ['user_id', 'sent_at'],
+                },
+            ],
+            validate: {
+                remindAtOrOffset() {
+                    if (
+                        (this.remind_at === null ||
+                            this.remind_at === undefined) ===
+                        (this.minutes_before_due === null ||
+                            this.minutes_before_due === undefined)
+                    ) {
+                        throw new Error(
+                            'A reminder needs either a time or minutes before the due date.'
+                        );
+                    }
+                },
+            },
+        }
+    );
+
+    return TaskReminder;
+};
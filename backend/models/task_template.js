@@ -0,0 +1,77 @@
+const { DataTypes } = require('sequelize');
+
+module.exports = (sequelize) => {
+    const TaskTemplate = sequelize.define(
+        'TaskTemplate',
+        {
+            id: {
+                type: DataTypes.INTEGER,
+                primaryKey: true,
+                autoIncrement: true,
+            },
+            name: {
+                type: DataTypes.STRING,
+                allowNull: false,
+                validate: {
+                    notEmpty: true,
+                },
+            },
+            task_name: {
+                type: DataTypes.STRING,
+                allowNull: false,
+                validate: {
+                    notEmpty: true,
+                },
+            },
+            note: {
+                type: DataTypes.TEXT,
+                allowNull: true,
+            },
+            priority: {
+                type: DataTypes.INTEGER,
+                allowNull: true,
+                validate: {
+                    min: 0,
+                    max: 2,
+                },
+            },
+            // Names of the tags given to new tasks
+            tags: {
+                type: DataTypes.JSON,
+                allowNull: false,
+                defaultValue: [],
+            },
+            // Days from the day the task is created, or null for no due date
+            due_offset_days: {
+                type: DataTypes.INTEGER,
+                allowNull: true,
+            },
+            project_id: {
+                type: DataTypes.INTEGER,
+                allowNull: true,
+                references: {
+                    model: 'projects',
+                    key: 'id',
+                },
+            },
+            user_id: {
+                type: DataTypes.INTEGER,
+                allowNull: false,
+                references: {
+                    model: 'users',
+                    key: 'id',
+                },
+            },
+        },
+        {
+            tableName: 'task_templates',
+            indexes: [
+                {
+                    fields: ['user_id'],
+                },
+            ],
+        }
+    );
+
+    return TaskTemplate;
+};
@@ -61,6 +61,11 @@ module.exports = (sequelize) => {
                 type: DataTypes.STRING,
                 allowNull: true,
             },
+            calendar_feed_token: {
+                type: DataTypes.STRING,
+                allowNull: true,
+                unique: true,
+            },
             task_summary_enabled: {
                 type: DataTypes.BOOLEAN,
                 allowNull: false,
@@ -0,0 +1,55 @@
+const { DataTypes } = require('sequelize');
+
+module.exports = (sequelize) => {
+    const Webhook = sequelize.define(
+        'Webhook',
+        {
+            id: {
+                type: DataTypes.INTEGER,
+                primaryKey: true,
+                autoIncrement: true,
+            },
+            name: {
+                type: DataTypes.STRING,
+                allowNull: false,
+            },
+            url: {
+                type: DataTypes.STRING,
+                allowNull: false,
+            },
+            // Used to sign payloads so receivers can verify their origin
+            secret: {
+                type: DataTypes.STRING,
+                allowNull: false,
+            },
+            events: {
+                type: DataTypes.JSON,
+                allowNull: false,
+                defaultValue: [],
+            },
+            active: {
+                type: DataTypes.BOOLEAN,
+                allowNull: false,
+                defaultValue: true,
+            },
+            user_id: {
+                type: DataTypes.INTEGER,
+                allowNull: false,
+                references: {
+                    model: 'users',
+                    key: 'id',
+                },
+            },
+        },
+        {
+            tableName: 'webhooks',
+            indexes: [
+                {
+                    fields: ['user_id'],
+                },
+            ],
+        }
+    );
+
+    return Webhook;
+};
@@ -0,0 +1,76 @@
+const { DataTypes } = require('sequelize');
+
+module.exports = (sequelize) => {
+    const WebhookDelivery = sequelize.define(
+        'WebhookDelivery',
+        {
+            id: {
+                type: DataTypes.INTEGER,
+                primaryKey: true,
+                autoIncrement: true,
+            },
+            webhook_id: {
+                type: DataTypes.INTEGER,
+                allowNull: false,
+                references: {
+                    model: 'webhooks',
+                    key: 'id',
+                },
+            },
+            event: {
+                type: DataTypes.STRING,
+                allowNull: false,
+            },
+            payload: {
+                type: DataTypes.JSON,
+                allowNull: false,
+            },
+            status: {
+                type: DataTypes.STRING,
+                allowNull: false,
+                defaultValue: 'pending',
+                validate: {
+                    isIn: [['pending', 'delivered', 'failed']],
+                },
+            },
+            attempts: {
+                type: DataTypes.INTEGER,
+                allowNull: false,
+                defaultValue: 0,
+            },
+            next_attempt_at: {
+                type: DataTypes.DATE,
+                allowNull: true,
+            },
+            last_attempt_at: {
+                type: DataTypes.DATE,
+                allowNull: true,
+            },
+            response_status: {
+                type: DataTypes.INTEGER,
+                allowNull: true,
+            },
+            response_body: {
+                type: DataTypes.TEXT,
+                allowNull: true,
+            },
+            error: {
+                type: DataTypes.TEXT,
+                allowNull: true,
+            },
+        },
+        {
+            tableName: 'webhook_deliveries',
+            indexes: [
+                {
+                    fields: ['webhook_id'],
+                },
+                {
+                    fields: ['status', 'next_attempt_at'],
+                },
+            ],
+        }
+    );
+
+    return WebhookDelivery;
+};
@@ -0,0 +1,101 @@
+const express = require('express');
+const { ApiToken } = require('../models');
+const apiTokenService = require('../services/apiTokenService');
+const router = express.Router();
+
+// Tokens are managed from a signed-in session only, so a leaked token
+// can't be used to mint new ones or hide its tracks
+const requireSession = (req, res, next) => {
+    if (req.apiToken) {
+        return res
+            .status(403)
+            .json({ error: 'API tokens cannot be managed with an API token.' });
+    }
+    next();
+};
+
+router.use('/tokens', requireSession);
+
+// GET /api/tokens
+router.get('/tokens', async (req, res) => {
+    try {
+        const apiTokens = await ApiToken.findAll({
+            where: { user_id: req.currentUser.id },
+            order: [['created_at', 'DESC']],
+        });
+
+        res.json(apiTokens.map(apiTokenService.serialize));
+    } catch (error) {
+        console.error('Error fetching API tokens:', error);
+        res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+// POST /api/tokens
+router.post('/tokens', async (req, res) => {
+    try {
+        const { name, scope = 'read', expires_at } = req.body;
+
+        if (!name || !name.trim()) {
+            return res.status(400).json({ error: 'Token name is required.' });
+        }
+
+        if (!apiTokenService.SCOPES.includes(scope)) {
+            return res
+                .status(400)
+                .json({ error: 'Scope must be "read" or "write".' });
+        }
+
+        let expiresAt = null;
+        if (expires_at) {
+            expiresAt = new Date(expires_at);
+            if (isNaN(expiresAt.getTime())) {
+                return res
+                    .status(400)
+                    .json({ error: 'Invalid expiration date.' });
+            }
+            if (expiresAt <= new Date()) {
+                return res
+                    .status(400)
+                    .json({ error: 'Expiration date must be in the future.' });
+            }
+        }
+
+        const { token, apiToken } = await apiTokenService.createToken(
+            req.currentUser.id,
+            { name: name.trim(), scope, expires_at: expiresAt }
+        );
+
+        // The plaintext token is only ever part of this response
+        res.status(201).json({ ...apiTokenService.serialize(apiToken), token });
+    } catch (error) {
+        console.error('Error creating API token:', error);
+        res.status(400).json({
+            error: 'There was a problem creating the API token.',
+            details: error.errors
+                ? error.errors.map((e) => e.message)
+                : [error.message],
+        });
+    }
+});
+
+// DELETE /api/tokens/:id
+router.delete('/tokens/:id', async (req, res) => {
+    try {
+        const apiToken = await ApiToken.findOne({
+            where: { id: req.params.id, user_id: req.currentUser.id },
+        });
+
+        if (!apiToken) {
+            return res.status(404).json({ error: 'API token not found.' });
+        }
+
+        await apiToken.destroy();
+        res.status(204).send();
+    } catch (error) {
+        console.error('Error revoking API token:', error);
+        res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+module.exports = router;
@@ -1,5 +1,6 @@
 const express = require('express');
 const { Area } = require('../models');
+const trashService = require('../services/trashService');
 const router = express.Router();
 
 // GET /api/areas
@@ -125,7 +126,7 @@ router.delete('/areas/:id', async (req, res) => {
             return res.status(404).json({ error: 'Area not found.' });
         }
 
-        await area.destroy();
+        await trashService.moveToTrash('area', area, req.session.userId);
         res.status(204).send();
     } catch (error) {
         console.error('Error deleting area:', error);
@@ -1,8 +1,20 @@
 const express = require('express');
 const { User } = require('../models');
 const packageJson = require('../package.json');
+const { getBearerToken } = require('../middleware/auth');
 const router = express.Router();
 
+// Token requests carry no session (see app.js), so there is nothing for
+// them to log in or out of
+const requireSessionRequest = (req, res, next) => {
+    if (getBearerToken(req)) {
+        return res.status(403).json({
+            error: 'Logging in and out needs a browser session, not an API token.',
+        });
+    }
+    next();
+};
+
 // Get version
 router.get('/version', (req, res) => {
     res.json({ version: packageJson.version });
@@ -34,7 +46,7 @@ router.get('/current_user', async (req, res) => {
 });
 
 // Login
-router.post('/login', async (req, res) => {
+router.post('/login', requireSessionRequest, async (req, res) => {
     try {
         const { email, password } = req.body;
 
@@ -73,7 +85,7 @@ router.post('/login', async (req, res) => {
 });
 
 // Logout
-router.get('/logout', (req, res) => {
+router.get('/logout', requireSessionRequest, (req, res) => {
     req.session.destroy((err) => {
         if (err) {
             console.error('Logout error:', err);
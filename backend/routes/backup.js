@@ -0,0 +1,155 @@
+const express = require('express');
+const multer = require('multer');
+const backupService = require('../services/backupService');
+const todoTxtService = require('../services/todoTxtService');
+const notesVaultService = require('../services/notesVaultService');
+const router = express.Router();
+
+const uploadNotes = multer({
+    storage: multer.memoryStorage(),
+    limits: {
+        fileSize: 10 * 1024 * 1024, // 10MB limit
+        files: 1000,
+    },
+}).array('files');
+
+// GET /api/export
+router.get('/export', async (req, res) => {
+    try {
+        const archive = await backupService.exportUserData(req.currentUser);
+        const date = archive.exported_at.slice(0, 10);
+
+        res.set(
+            'Content-Disposition',
+            `attachment; filename="tududi-export-${date}.json"`
+        ).json(archive);
+    } catch (error) {
+        console.error('Error exporting user data:', error);
+        res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+// POST /api/import?dry_run=true
+router.post('/import', async (req, res) => {
+    const errors = backupService.validateArchive(req.body);
+    if (errors.length > 0) {
+        return res.status(400).json({ error: 'Invalid archive.', errors });
+    }
+
+    try {
+        const report = await backupService.importUserData(
+            req.currentUser,
+            req.body,
+            { dryRun: req.query.dry_run === 'true' }
+        );
+
+        res.status(report.dry_run ? 200 : 201).json(report);
+    } catch (error) {
+        console.error('Error importing user data:', error);
+        res.status(400).json({
+            error: 'There was a problem importing the archive.',
+            details: error.errors
+                ? error.errors.map((e) => e.message)
+                : [error.message],
+        });
+    }
+});
+
+// GET /api/export/todotxt
+router.get('/export/todotxt', async (req, res) => {
+    try {
+        const text = await todoTxtService.exportTodoTxt(req.currentUser);
+
+        res.set({
+            'Content-Type': 'text/plain; charset=utf-8',
+            'Content-Disposition': 'attachment; filename="todo.txt"',
+        }).send(text);
+    } catch (error) {
+        console.error('Error exporting todo.txt:', error);
+        res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+// POST /api/import/todotxt?dry_run=true with the file as a text/plain body
+router.post(
+    '/import/todotxt',
+    express.text({ type: 'text/*', limit: '10mb' }),
+    async (req, res) => {
+        if (typeof req.body !== 'string' || !req.body.trim()) {
+            return res.status(400).json({
+                error: 'Send the todo.txt contents as a text/plain body.',
+            });
+        }
+
+        try {
+            const report = await todoTxtService.importTodoTxt(
+                req.currentUser,
+                req.body,
+                { dryRun: req.query.dry_run === 'true' }
+            );
+
+            res.status(report.dry_run ? 200 : 201).json(report);
+        } catch (error) {
+            console.error('Error importing todo.txt:', error);
+            res.status(400).json({
+                error: 'There was a problem importing the file.',
+                details: error.errors
+                    ? error.errors.map((e) => e.message)
+                    : [error.message],
+            });
+        }
+    }
+);
+
+// GET /api/export/notes
+router.get('/export/notes', async (req, res) => {
+    try {
+        const zip = await notesVaultService.exportNotesVault(req.currentUser);
+
+        res.set({
+            'Content-Type': 'application/zip',
+            'Content-Disposition': 'attachment; filename="tududi-notes.zip"',
+        }).send(zip);
+    } catch (error) {
+        console.error('Error exporting notes:', error);
+        res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+// POST /api/import/notes?dry_run=true with a vault ZIP or markdown files
+// as "files"
+router.post('/import/notes', (req, res) => {
+    uploadNotes(req, res, async (uploadError) => {
+        if (uploadError) {
+            return res.status(400).json({ error: uploadError.message });
+        }
+        if (!req.files || req.files.length === 0) {
+            return res
+                .status(400)
+                .json({ error: 'A ZIP or markdown file is required.' });
+        }
+
+        try {
+            const report = await notesVaultService.importNotesVault(
+                req.currentUser,
+                req.files.map((file) => ({
+                    name: file.originalname,
+                    content: file.buffer,
+                })),
+                { dryRun: req.query.dry_run === 'true' }
+            );
+
+            res.status(report.dry_run ? 200 : 201).json(report);
+        } catch (error) {
+            console.error('Error importing notes:', error);
+            res.status(400).json({
+                error: 'There was a problem importing the notes.',
+                details: error.errors
+                    ? error.errors.map((e) => e.message)
+                    : [error.message],
+            });
+        }
+    });
+});
+
+module.exports = router;
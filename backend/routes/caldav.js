@@ -0,0 +1,384 @@
+const express = require('express');
+const caldavService = require('../services/caldavService');
+const icalService = require('../services/icalService');
+const router = express.Router();
+
+// Minimal CalDAV server (RFC 4791) exposing tasks as VTODO resources:
+//   /caldav/principals/:userId/                 principal
+//   /caldav/calendars/:userId/                  calendar home
+//   /caldav/calendars/:userId/:calendarId/      "tasks" or "project-<id>"
+//   /caldav/calendars/:userId/:calendarId/<uuid>.ics
+
+const DAV_HEADERS = {
+    DAV: '1, 3, calendar-access',
+    Allow: 'OPTIONS, GET, HEAD, PUT, DELETE, PROPFIND, REPORT',
+};
+
+// Clients send XML and iCalendar bodies with a variety of content types
+router.use(express.text({ type: () => true, limit: '1mb' }));
+
+// OPTIONS is used for discovery before credentials are sent
+router.options('*', (req, res) => {
+    res.set(DAV_HEADERS).status(200).end();
+});
+
+// Calendar clients can't use the session cookie; they send Basic credentials
+router.use(async (req, res, next) => {
+    try {
+        const header = req.headers.authorization || '';
+        const match = header.match(/^Basic\s+(\S+)$/i);
+        let result = null;
+        if (match) {
+            const decoded = Buffer.from(match[1], 'base64').toString('utf8');
+            const separator = decoded.indexOf(':');
+            if (separator !== -1) {
+                result = await caldavService.authenticate(
+                    decoded.slice(0, separator),
+                    decoded.slice(separator + 1)
+                );
+            }
+        }
+
+        if (!result) {
+            return res
+                .status(401)
+                .set(
+                    'WWW-Authenticate',
+                    'Basic realm="tududi", charset="UTF-8"'
+                )
+                .send('Authentication required');
+        }
+
+        req.currentUser = result.user;
+        req.apiToken = result.apiToken;
+        next();
+    } catch (error) {
+        console.error('CalDAV authentication error:', error);
+        res.status(500).send('Authentication error');
+    }
+});
+
+router.param('userId', (req, res, next, userId) => {
+    if (parseInt(userId, 10) !== req.currentUser.id) {
+        return res.status(403).send('Forbidden');
+    }
+    next();
+});
+
+router.param('calendarId', async (req, res, next, calendarId) => {
+    try {
+        req.calendar = await caldavService.findCalendar(
+            req.currentUser,
+            calendarId
+        );
+        if (!req.calendar) {
+            return res.status(404).send('Calendar not found');
+        }
+        next();
+    } catch (error) {
+        next(error);
+    }
+});
+
+const requireWrite = (req, res, next) => {
+    if (!caldavService.canWrite(req.apiToken)) {
+        return res.status(403).send('This API token is read-only');
+    }
+    next();
+};
+
+const sendMultistatus = (res, responses) => {
+    res.status(207)
+        .set('Content-Type', 'application/xml; charset=utf-8')
+        .send(caldavService.buildMultistatus(responses));
+};
+
+// Depth 0 covers the resource itself; "1" and "infinity" add its members
+const includesMembers = (req) => req.headers.depth !== '0';
+
+const getIfMatch = (req) => req.headers['if-match'];
+
+// PROPFIND / and /principals/:userId/
+router.propfind('/', (req, res) => {
+    sendMultistatus(res, [
+        {
+            href: `${caldavService.ROOT_PATH}/`,
+            props: caldavService.props.root(req.currentUser),
+        },
+    ]);
+});
+
+router.propfind('/principals/:userId', (req, res) => {
+    sendMultistatus(res, [
+        {
+            href: caldavService.paths.principal(req.currentUser),
+            props: caldavService.props.principal(req.currentUser),
+        },
+    ]);
+});
+
+// PROPFIND /calendars/:userId/
+router.propfind('/calendars/:userId', async (req, res) => {
+    try {
+        const user = req.currentUser;
+        const responses = [
+            {
+                href: caldavService.paths.home(user),
+                props: caldavService.props.home(user),
+            },
+        ];
+
+        if (includesMembers(req)) {
+            const writable = caldavService.canWrite(req.apiToken);
+            for (const calendar of await caldavService.getCalendars(user)) {
+                const tasks = await caldavService.getCalendarTasks(
+                    user,
+                    calendar
+                );
+                responses.push({
+                    href: caldavService.paths.calendar(user, calendar),
+                    props: caldavService.props.calendar(
+                        user,
+                        calendar,
+                        tasks,
+                        writable
+                    ),
+                });
+            }
+        }
+
+        sendMultistatus(res, responses);
+    } catch (error) {
+        console.error('Error listing CalDAV calendars:', error);
+        res.status(500).send('Internal server error');
+    }
+});
+
+// PROPFIND /calendars/:userId/:calendarId/
+router.propfind('/calendars/:userId/:calendarId', async (req, res) => {
+    try {
+        const user = req.currentUser;
+        const tasks = await caldavService.getCalendarTasks(user, req.calendar);
+        const responses = [
+            {
+                href: caldavService.paths.calendar(user, req.calendar),
+                props: caldavService.props.calendar(
+                    user,
+                    req.calendar,
+                    tasks,
+                    caldavService.canWrite(req.apiToken)
+                ),
+            },
+        ];
+
+        if (includesMembers(req)) {
+            tasks.forEach((task) =>
+                responses.push({
+                    href: caldavService.paths.resource(
+                        user,
+                        req.calendar,
+                        task
+                    ),
+                    props: caldavService.props.resource(task),
+                })
+            );
+        }
+
+        sendMultistatus(res, responses);
+    } catch (error) {
+        console.error('Error listing CalDAV tasks:', error);
+        res.status(500).send('Internal server error');
+    }
+});
+
+// REPORT /calendars/:userId/:calendarId/
+router.report('/calendars/:userId/:calendarId', async (req, res) => {
+    try {
+        const user = req.currentUser;
+        const body = typeof req.body === 'string' ? req.body : '';
+        const withData = body.includes('calendar-data');
+
+        if (body.includes('calendar-multiget')) {
+            const hrefs = [
+                ...body.matchAll(
+                    /<(?:[\w-]+:)?href[^>]*>\s*([^<]+?)\s*<\/(?:[\w-]+:)?href>/g
+                ),
+            ].map((match) => match[1]);
+
+            const responses = [];
+            for (const href of hrefs) {
+                const uuid = caldavService.parseResourceName(
+                    decodeURIComponent(href.split('/').pop())
+                );
+                const task = uuid
+                    ? await caldavService.findTask(user, uuid, req.calendar)
+                    : null;
+                responses.push(
+                    task
+                        ? {
+                              href,
+                              props: caldavService.props.resource(
+                                  task,
+                                  withData,
+                                  user.timezone
+                              ),
+                          }
+                        : { href, status: '404 Not Found' }
+                );
+            }
+            return sendMultistatus(res, responses);
+        }
+
+        if (body.includes('calendar-query')) {
+            // Only component filters are honoured; every task is a VTODO
+            const components = [
+                ...body.matchAll(/comp-filter[^>]*name="([^"]+)"/g),
+            ].map((match) => match[1].toUpperCase());
+            const wantsOtherComponent = components.some(
+                (name) => name !== 'VCALENDAR' && name !== 'VTODO'
+            );
+            const tasks = wantsOtherComponent
+                ? []
+                : await caldavService.getCalendarTasks(user, req.calendar);
+
+            return sendMultistatus(
+                res,
+                tasks.map((task) => ({
+                    href: caldavService.paths.resource(
+                        user,
+                        req.calendar,
+                        task
+                    ),
+                    props: caldavService.props.resource(
+                        task,
+                        withData,
+                        user.timezone
+                    ),
+                }))
+            );
+        }
+
+        res.status(403)
+            .set('Content-Type', 'application/xml; charset=utf-8')
+            .send(
+                '<?xml version="1.0" encoding="utf-8"?>\n<d:error xmlns:d="DAV:"><d:supported-report/></d:error>'
+            );
+    } catch (error) {
+        console.error('Error running CalDAV report:', error);
+        res.status(500).send('Internal server error');
+    }
+});
+
+const RESOURCE_PATH = '/calendars/:userId/:calendarId/:resource';
+
+// GET /calendars/:userId/:calendarId/:resource
+router.get(RESOURCE_PATH, async (req, res) => {
+    try {
+        const uuid = caldavService.parseResourceName(req.params.resource);
+        const task = uuid
+            ? await caldavService.findTask(req.currentUser, uuid, req.calendar)
+            : null;
+        if (!task) {
+            return res.status(404).send('Not found');
+        }
+
+        res.set({
+            'Content-Type': 'text/calendar; charset=utf-8',
+            ETag: caldavService.getETag(task),
+        }).send(caldavService.serializeTask(task, req.currentUser.timezone));
+    } catch (error) {
+        console.error('Error fetching CalDAV task:', error);
+        res.status(500).send('Internal server error');
+    }
+});
+
+// PUT /calendars/:userId/:calendarId/:resource
+router.put(RESOURCE_PATH, requireWrite, async (req, res) => {
+    try {
+        const uuid = caldavService.parseResourceName(req.params.resource);
+        if (!uuid) {
+            return res.status(400).send('Resource names must be <uuid>.ics');
+        }
+
+        const todo = icalService.parseTodo(req.body, req.currentUser.timezone);
+        if (!todo) {
+            return res.status(415).send('Only VTODO resources are supported');
+        }
+        if (!todo.name) {
+            return res.status(400).send('SUMMARY is required');
+        }
+
+        // A task moved between calendars keeps its UUID
+        const existingTask = await caldavService.findTask(
+            req.currentUser,
+            uuid
+        );
+        const ifMatch = getIfMatch(req);
+        if (
+            (req.headers['if-none-match'] === '*' && existingTask) ||
+            (ifMatch &&
+                ifMatch !== '*' &&
+                (!existingTask ||
+                    ifMatch !== caldavService.getETag(existingTask)))
+        ) {
+            return res.status(412).send('Precondition failed');
+        }
+        if (!existingTask && (await caldavService.isUuidTaken(uuid))) {
+            return res
+                .status(409)
+                .send('Another task, possibly in the trash, has this UUID');
+        }
+
+        const task = await caldavService.saveTask(
+            req.currentUser,
+            req.calendar,
+            uuid,
+            todo,
+            existingTask
+        );
+
+        res.set('ETag', caldavService.getETag(task))
+            .status(existingTask ? 204 : 201)
+            .end();
+    } catch (error) {
+        console.error('Error saving CalDAV task:', error);
+        res.status(500).send('Internal server error');
+    }
+});
+
+// DELETE /calendars/:userId/:calendarId/:resource
+router.delete(RESOURCE_PATH, requireWrite, async (req, res) => {
+    try {
+        const uuid = caldavService.parseResourceName(req.params.resource);
+        const task = uuid
+            ? await caldavService.findTask(req.currentUser, uuid, req.calendar)
+            : null;
+        if (!task) {
+            return res.status(404).send('Not found');
+        }
+
+        const ifMatch = getIfMatch(req);
+        if (
+            ifMatch &&
+            ifMatch !== '*' &&
+            ifMatch !== caldavService.getETag(task)
+        ) {
+            return res.status(412).send('Precondition failed');
+        }
+
+        if (!(await caldavService.deleteTask(req.currentUser, task))) {
+            return res
+                .status(409)
+                .send(
+                    'Recurring tasks with generated instances cannot be deleted'
+                );
+        }
+
+        res.status(204).end();
+    } catch (error) {
+        console.error('Error deleting CalDAV task:', error);
+        res.status(500).send('Internal server error');
+    }
+});
+
+module.exports = router;
@@ -0,0 +1,42 @@
+const express = require('express');
+const calendarFeedService = require('../services/calendarFeedService');
+const router = express.Router();
+
+// GET /api/calendar/feed/:token.ics
+// Calendar apps can't sign in, so the secret token in the URL is the only
+// credential. Mounted ahead of the authenticated routes in app.js.
+router.get('/:token.ics', async (req, res) => {
+    try {
+        const user = await calendarFeedService.findUserByToken(
+            req.params.token
+        );
+        if (!user) {
+            return res.status(404).json({ error: 'Calendar feed not found.' });
+        }
+
+        const { type = 'event', project, tag } = req.query;
+        if (!calendarFeedService.COMPONENT_TYPES.includes(type)) {
+            return res
+                .status(400)
+                .json({ error: 'Type must be "event" or "todo".' });
+        }
+
+        const feed = await calendarFeedService.buildFeed(user, {
+            type,
+            projectId: project,
+            tagName: tag,
+        });
+
+        res.set({
+            'Content-Type': 'text/calendar; charset=utf-8',
+            'Content-Disposition': 'inline; filename="tududi.ics"',
+            'Cache-Control': 'no-cache',
+        });
+        res.send(feed);
+    } catch (error) {
+        console.error('Error building calendar feed:', error);
+        res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+module.exports = router;
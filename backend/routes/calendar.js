@@ -3,6 +3,7 @@ const router = express.Router();
 const { google } = require('googleapis');
 const { requireAuth } = require('../middleware/auth');
 const config = require('../config/config');
+const calendarFeedService = require('../services/calendarFeedService');
 
 // Google Calendar configuration
 const SCOPES = ['https://www.googleapis.com/auth/calendar.readonly'];
@@ -180,4 +181,33 @@ router.post('/disconnect', requireAuth, async (req, res) => {
     }
 });
 
+// GET /api/calendar/feed - Get the ICS feed token
+router.get('/feed', requireAuth, (req, res) => {
+    res.json({ token: req.currentUser.calendar_feed_token || null });
+});
+
+// POST /api/calendar/feed - Create or regenerate the ICS feed token
+router.post('/feed', requireAuth, async (req, res) => {
+    try {
+        const token = await calendarFeedService.regenerateToken(
+            req.currentUser
+        );
+        res.json({ token });
+    } catch (error) {
+        console.error('Error regenerating calendar feed token:', error);
+        res.status(500).json({ error: 'Failed to regenerate calendar feed' });
+    }
+});
+
+// DELETE /api/calendar/feed - Turn off the ICS feed
+router.delete('/feed', requireAuth, async (req, res) => {
+    try {
+        await calendarFeedService.disableFeed(req.currentUser);
+        res.json({ token: null });
+    } catch (error) {
+        console.error('Error disabling calendar feed:', error);
+        res.status(500).json({ error: 'Failed to disable calendar feed' });
+    }
+});
+
 module.exports = router;
@@ -0,0 +1,20 @@
+const express = require('express');
+const eventStreamService = require('../services/eventStreamService');
+const router = express.Router();
+
+// GET /api/events/stream
+router.get('/events/stream', (req, res) => {
+    res.set({
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive',
+        // Disable response buffering in nginx
+        'X-Accel-Buffering': 'no',
+    });
+    res.flushHeaders();
+
+    const unsubscribe = eventStreamService.subscribe(req.currentUser.id, res);
+    req.on('close', unsubscribe);
+});
+
+module.exports = router;
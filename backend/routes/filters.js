@@ -0,0 +1,148 @@
+const express = require('express');
+const { SavedFilter } = require('../models');
+const { parseFilterQuery } = require('../services/filterQueryService');
+const router = express.Router();
+
+// Returns a 400 response body when the query can't be parsed, null otherwise
+const validateQuery = (query) => {
+    if (!query || !String(query).trim()) {
+        return { error: 'Filter query is required.' };
+    }
+
+    const { errors } = parseFilterQuery(query);
+    return errors.length > 0
+        ? { error: 'Invalid filter query.', errors }
+        : null;
+};
+
+// GET /api/filters
+router.get('/filters', async (req, res) => {
+    try {
+        const filters = await SavedFilter.findAll({
+            where: { user_id: req.currentUser.id },
+            order: [['name', 'ASC']],
+        });
+
+        res.json(filters);
+    } catch (error) {
+        console.error('Error fetching saved filters:', error);
+        res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+// GET /api/filters/:id
+router.get('/filters/:id', async (req, res) => {
+    try {
+        const filter = await SavedFilter.findOne({
+            where: { id: req.params.id, user_id: req.currentUser.id },
+        });
+
+        if (!filter) {
+            return res.status(404).json({ error: 'Filter not found.' });
+        }
+
+        res.json(filter);
+    } catch (error) {
+        console.error('Error fetching saved filter:', error);
+        res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+// POST /api/filters
+router.post('/filters', async (req, res) => {
+    try {
+        const { name, query } = req.body;
+
+        if (!name || !name.trim()) {
+            return res.status(400).json({ error: 'Filter name is required.' });
+        }
+
+        const invalid = validateQuery(query);
+        if (invalid) {
+            return res.status(400).json(invalid);
+        }
+
+        const filter = await SavedFilter.create({
+            name: name.trim(),
+            query: query.trim(),
+            user_id: req.currentUser.id,
+        });
+
+        res.status(201).json(filter);
+    } catch (error) {
+        console.error('Error creating saved filter:', error);
+        res.status(400).json({
+            error: 'There was a problem creating the filter.',
+            details: error.errors
+                ? error.errors.map((e) => e.message)
+                : [error.message],
+        });
+    }
+});
+
+// PATCH /api/filters/:id
+router.patch('/filters/:id', async (req, res) => {
+    try {
+        const filter = await SavedFilter.findOne({
+            where: { id: req.params.id, user_id: req.currentUser.id },
+        });
+
+        if (!filter) {
+            return res.status(404).json({ error: 'Filter not found.' });
+        }
+
+        const { name, query } = req.body;
+        const updateData = {};
+
+        if (name !== undefined) {
+            if (!name || !name.trim()) {
+                return res
+                    .status(400)
+                    .json({ error: 'Filter name is required.' });
+            }
+            updateData.name = name.trim();
+        }
+
+        if (query !== undefined) {
+            const invalid = validateQuery(query);
+            if (invalid) {
+                return res.status(400).json(invalid);
+            }
+            updateData.query = query.trim();
+        }
+
+        await filter.update(updateData);
+        res.json(filter);
+    } catch (error) {
+        console.error('Error updating saved filter:', error);
+        res.status(400).json({
+            error: 'There was a problem updating the filter.',
+            details: error.errors
+                ? error.errors.map((e) => e.message)
+                : [error.message],
+        });
+    }
+});
+
+// DELETE /api/filters/:id
+router.delete('/filters/:id', async (req, res) => {
+    try {
+        const filter = await SavedFilter.findOne({
+            where: { id: req.params.id, user_id: req.currentUser.id },
+        });
+
+        if (!filter) {
+            return res.status(404).json({ error: 'Filter not found.' });
+        }
+
+        await filter.destroy();
+        res.status(204).send();
+    } catch (error) {
+        console.error('Error deleting saved filter:', error);
+        res.status(400).json({
+            error: 'There was a problem deleting the filter.',
+        });
+    }
+});
+
+module.exports = router;
@@ -0,0 +1,76 @@
+const express = require('express');
+const multer = require('multer');
+const importers = require('../services/importers');
+const backupService = require('../services/backupService');
+const router = express.Router();
+
+const upload = multer({
+    storage: multer.memoryStorage(),
+    limits: {
+        fileSize: 10 * 1024 * 1024, // 10MB limit
+    },
+}).single('file');
+
+// Parse the uploaded export with the adapter named in the URL into
+// req.importPlan
+const parseExport = (req, res, next) => {
+    const importer = importers.getImporter(req.params.source);
+    if (!importer) {
+        return res.status(404).json({ error: 'Unknown import source.' });
+    }
+
+    upload(req, res, (uploadError) => {
+        if (uploadError) {
+            return res.status(400).json({ error: uploadError.message });
+        }
+        if (!req.file) {
+            return res
+                .status(400)
+                .json({ error: 'An export file is required.' });
+        }
+
+        try {
+            req.importPlan = importer.parse(req.file.buffer.toString('utf8'), {
+                filename: req.file.originalname,
+            });
+        } catch (error) {
+            return res.status(400).json({
+                error: `This file is not a ${importer.name} export.`,
+                details: [error.message],
+            });
+        }
+        next();
+    });
+};
+
+// GET /api/importers
+router.get('/importers', (req, res) => {
+    res.json(importers.listImporters());
+});
+
+// POST /api/importers/:source/preview
+router.post('/importers/:source/preview', parseExport, (req, res) => {
+    res.json(req.importPlan.toPreview());
+});
+
+// POST /api/importers/:source/import
+router.post('/importers/:source/import', parseExport, async (req, res) => {
+    try {
+        const report = await backupService.importUserData(
+            req.currentUser,
+            req.importPlan.toArchive()
+        );
+
+        res.status(201).json(report);
+    } catch (error) {
+        console.error('Error importing tasks:', error);
+        res.status(400).json({
+            error: 'There was a problem importing the file.',
+            details: error.errors
+                ? error.errors.map((e) => e.message)
+                : [error.message],
+        });
+    }
+});
+
+module.exports = router;
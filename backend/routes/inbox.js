@@ -1,5 +1,7 @@
 const express = require('express');
 const { InboxItem } = require('../models');
+const changeEvents = require('../services/changeEvents');
+const trashService = require('../services/trashService');
 const router = express.Router();
 
 // GET /api/inbox
@@ -46,6 +48,10 @@ router.post('/inbox', async (req, res) => {
             user_id: req.session.userId,
         });
 
+        await changeEvents.publish(req.session.userId, 'inbox.created', {
+            inbox_item: item.toJSON(),
+        });
+
         res.status(201).json(item);
     } catch (error) {
         console.error('Error creating inbox item:', error);
@@ -102,6 +108,11 @@ router.patch('/inbox/:id', async (req, res) => {
         if (status !== undefined) updateData.status = status;
 
         await item.update(updateData);
+
+        await changeEvents.publish(req.session.userId, 'inbox.updated', {
+            inbox_item: item.toJSON(),
+        });
+
         res.json(item);
     } catch (error) {
         console.error('Error updating inbox item:', error);
@@ -129,8 +140,12 @@ router.delete('/inbox/:id', async (req, res) => {
             return res.status(404).json({ error: 'Inbox item not found.' });
         }
 
-        // Mark as deleted instead of actual deletion
-        await item.update({ status: 'deleted' });
+        await trashService.moveToTrash('inbox_item', item, req.session.userId);
+
+        await changeEvents.publish(req.session.userId, 'inbox.deleted', {
+            inbox_item: { id: item.id },
+        });
+
         res.json({ message: 'Inbox item successfully deleted' });
     } catch (error) {
         console.error('Error deleting inbox item:', error);
@@ -156,6 +171,11 @@ router.patch('/inbox/:id/process', async (req, res) => {
         }
 
         await item.update({ status: 'processed' });
+
+        await changeEvents.publish(req.session.userId, 'inbox.updated', {
+            inbox_item: item.toJSON(),
+        });
+
         res.json(item);
     } catch (error) {
         console.error('Error processing inbox item:', error);
@@ -1,6 +1,8 @@
 const express = require('express');
 const { Note, Tag, Project, sequelize } = require('../models');
 const { Op } = require('sequelize');
+const changeEvents = require('../services/changeEvents');
+const UndoService = require('../services/undoService');
 const router = express.Router();
 
 // Helper function to update note tags
@@ -139,6 +141,10 @@ router.post('/note', async (req, res) => {
             ],
         });
 
+        await changeEvents.publish(req.session.userId, 'note.created', {
+            note: noteWithAssociations.toJSON(),
+        });
+
         res.status(201).json(noteWithAssociations);
     } catch (error) {
         console.error('Error creating note:', error);
@@ -210,6 +216,10 @@ router.patch('/note/:id', async (req, res) => {
             ],
         });
 
+        await changeEvents.publish(req.session.userId, 'note.updated', {
+            note: noteWithAssociations.toJSON(),
+        });
+
         res.json(noteWithAssociations);
     } catch (error) {
         console.error('Error updating note:', error);
@@ -237,8 +247,20 @@ router.delete('/note/:id', async (req, res) => {
             return res.status(404).json({ error: 'Note not found.' });
         }
 
-        await note.destroy();
-        res.json({ message: 'Note deleted successfully.' });
+        const undoToken = await UndoService.trash(
+            'note',
+            note,
+            req.session.userId
+        );
+
+        await changeEvents.publish(req.session.userId, 'note.deleted', {
+            note: { id: note.id, title: note.title },
+        });
+
+        res.json({
+            message: 'Note deleted successfully.',
+            undo_token: undoToken,
+        });
     } catch (error) {
         console.error('Error deleting note:', error);
         res.status(400).json({
@@ -0,0 +1,186 @@
+const express = require('express');
+const { Project, ProjectSection, Task, sequelize } = require('../models');
+const router = express.Router();
+
+const findSection = (id, userId) =>
+    ProjectSection.findOne({ where: { id, user_id: userId } });
+
+const sectionsOf = (projectId, transaction) =>
+    ProjectSection.findAll({
+        where: { project_id: projectId },
+        order: [
+            ['position', 'ASC'],
+            ['id', 'ASC'],
+        ],
+        transaction,
+    });
+
+// GET /api/project/:id/sections
+router.get('/project/:id/sections', async (req, res) => {
+    try {
+        const project = await Project.findOne({
+            where: { id: req.params.id, user_id: req.currentUser.id },
+        });
+
+        if (!project) {
+            return res.status(404).json({ error: 'Project not found.' });
+        }
+
+        res.json(await sectionsOf(project.id));
+    } catch (error) {
+        console.error('Error fetching project sections:', error);
+        res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+// POST /api/project/:id/sections
+router.post('/project/:id/sections', async (req, res) => {
+    try {
+        const project = await Project.findOne({
+            where: { id: req.params.id, user_id: req.currentUser.id },
+        });
+
+        if (!project) {
+            return res.status(404).json({ error: 'Project not found.' });
+        }
+
+        const { name, target_date } = req.body;
+
+        if (!name || !name.trim()) {
+            return res.status(400).json({ error: 'Section name is required.' });
+        }
+
+        // New sections go to the end of the project
+        const lastPosition = await ProjectSection.max('position', {
+            where: { project_id: project.id },
+        });
+
+        const section = await ProjectSection.create({
+            name: name.trim(),
+            target_date: target_date || null,
+            position: lastPosition === null ? 0 : lastPosition + 1,
+            project_id: project.id,
+            user_id: req.currentUser.id,
+        });
+
+        res.status(201).json(section);
+    } catch (error) {
+        console.error('Error creating project section:', error);
+        res.status(400).json({
+            error: 'There was a problem creating the section.',
+            details: error.errors
+                ? error.errors.map((e) => e.message)
+                : [error.message],
+        });
+    }
+});
+
+// PATCH /api/section/:id
+router.patch('/section/:id', async (req, res) => {
+    try {
+        const section = await findSection(req.params.id, req.currentUser.id);
+
+        if (!section) {
+            return res.status(404).json({ error: 'Section not found.' });
+        }
+
+        const { name, target_date, position } = req.body;
+        const updateData = {};
+
+        if (name !== undefined) {
+            if (!name || !name.trim()) {
+                return res
+                    .status(400)
+                    .json({ error: 'Section name is required.' });
+            }
+            updateData.name = name.trim();
+        }
+
+        if (target_date !== undefined) {
+            updateData.target_date = target_date || null;
+        }
+
+        if (
+            position !== undefined &&
+            (!Number.isInteger(position) || position < 0)
+        ) {
+            return res.status(400).json({
+                error: 'Position must be a non-negative integer.',
+            });
+        }
+
+        const transaction = await sequelize.transaction();
+        try {
+            await section.update(updateData, { transaction });
+
+            if (position !== undefined) {
+                // Put the section at its new index and renumber the project
+                const sections = (
+                    await sectionsOf(section.project_id, transaction)
+                ).filter((other) => other.id !== section.id);
+                sections.splice(position, 0, section);
+                for (const [index, other] of sections.entries()) {
+                    if (other.position !== index) {
+                        await other.update(
+                            { position: index },
+                            { transaction }
+                        );
+                    }
+                }
+            }
+            await transaction.commit();
+        } catch (error) {
+            await transaction.rollback();
+            throw error;
+        }
+
+        res.json(section);
+    } catch (error) {
+        console.error('Error updating project section:', error);
+        res.status(400).json({
+            error: 'There was a problem updating the section.',
+            details: error.errors
+                ? error.errors.map((e) => e.message)
+                : [error.message],
+        });
+    }
+});
+
+// DELETE /api/section/:id
+router.delete('/section/:id', async (req, res) => {
+    try {
+        const section = await findSection(req.params.id, req.currentUser.id);
+
+        if (!section) {
+            return res.status(404).json({ error: 'Section not found.' });
+        }
+
+        // Tasks of the section stay in the project without a section,
+        // trashed ones included
+        const transaction = await sequelize.transaction();
+        try {
+            await Task.update(
+                { section_id: null },
+                {
+                    where: { section_id: section.id },
+                    paranoid: false,
+                    transaction,
+                }
+            );
+            await section.destroy({ transaction });
+            await transaction.commit();
+        } catch (error) {
+            await transaction.rollback();
+            throw error;
+        }
+
+        res.status(204).send();
+    } catch (error) {
+        console.error('Error deleting project section:', error);
+        res.status(400).json({
+            error: 'There was a problem deleting the section.',
+        });
+    }
+});
+
+module.exports = router;
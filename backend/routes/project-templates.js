@@ -0,0 +1,169 @@
+const express = require('express');
+const { Project, ProjectTemplate, Tag } = require('../models');
+const projectTemplateService = require('../services/projectTemplateService');
+const changeEvents = require('../services/changeEvents');
+const router = express.Router();
+
+const serializeTemplate = (template) => ({
+    ...template.toJSON(),
+    placeholders: projectTemplateService.placeholdersOf(template.content),
+});
+
+const findTemplate = (id, userId) =>
+    ProjectTemplate.findOne({ where: { id, user_id: userId } });
+
+// GET /api/project-templates
+router.get('/project-templates', async (req, res) => {
+    try {
+        const templates = await ProjectTemplate.findAll({
+            where: { user_id: req.currentUser.id },
+            order: [
+                ['name', 'ASC'],
+                ['id', 'ASC'],
+            ],
+        });
+
+        res.json(templates.map(serializeTemplate));
+    } catch (error) {
+        console.error('Error fetching project templates:', error);
+        res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+// POST /api/project/:id/template
+router.post('/project/:id/template', async (req, res) => {
+    try {
+        const project = await Project.findOne({
+            where: { id: req.params.id, user_id: req.currentUser.id },
+        });
+
+        if (!project) {
+            return res.status(404).json({ error: 'Project not found.' });
+        }
+
+        const { name, start_date, placeholders } = req.body;
+
+        if (!name || !name.trim()) {
+            return res
+                .status(400)
+                .json({ error: 'Template name is required.' });
+        }
+        if (projectTemplateService.parseStartDate(start_date) === null) {
+            return res
+                .status(400)
+                .json({ error: 'Start date must be a YYYY-MM-DD date.' });
+        }
+        if (
+            placeholders !== undefined &&
+            (!placeholders ||
+                typeof placeholders !== 'object' ||
+                Array.isArray(placeholders) ||
+                !Object.entries(placeholders).every(
+                    ([key, value]) =>
+                        /^\w+$/.test(key) && typeof value === 'string'
+                ))
+        ) {
+            return res.status(400).json({
+                error: 'Placeholders must map names to the text they replace.',
+            });
+        }
+
+        const content = await projectTemplateService.buildTemplate(project, {
+            startDate: start_date,
+            placeholders,
+        });
+        const template = await ProjectTemplate.create({
+            name: name.trim(),
+            content,
+            user_id: req.currentUser.id,
+        });
+
+        res.status(201).json(serializeTemplate(template));
+    } catch (error) {
+        console.error('Error creating project template:', error);
+        res.status(400).json({
+            error: 'There was a problem creating the template.',
+            details: error.errors
+                ? error.errors.map((e) => e.message)
+                : [error.message],
+        });
+    }
+});
+
+// POST /api/project-template/:id/instantiate
+router.post('/project-template/:id/instantiate', async (req, res) => {
+    try {
+        const template = await findTemplate(req.params.id, req.currentUser.id);
+
+        if (!template) {
+            return res.status(404).json({ error: 'Template not found.' });
+        }
+
+        const validationError =
+            await projectTemplateService.validateInstantiation(
+                template,
+                req.body,
+                req.currentUser.id
+            );
+        if (validationError) {
+            return res.status(400).json({ error: validationError });
+        }
+
+        const project = await projectTemplateService.instantiateTemplate(
+            template,
+            req.currentUser.id,
+            req.body
+        );
+
+        const projectJson = (
+            await Project.findByPk(project.id, {
+                include: [
+                    {
+                        model: Tag,
+                        attributes: ['id', 'name'],
+                        through: { attributes: [] },
+                    },
+                ],
+            })
+        ).toJSON();
+        const createdProject = {
+            ...projectJson,
+            tags: projectJson.Tags || [],
+        };
+
+        await changeEvents.publish(req.currentUser.id, 'project.created', {
+            project: createdProject,
+        });
+
+        res.status(201).json(createdProject);
+    } catch (error) {
+        console.error('Error creating project from template:', error);
+        res.status(400).json({
+            error: 'There was a problem creating the project.',
+            details: error.errors
+                ? error.errors.map((e) => e.message)
+                : [error.message],
+        });
+    }
+});
+
+// DELETE /api/project-template/:id
+router.delete('/project-template/:id', async (req, res) => {
+    try {
+        const template = await findTemplate(req.params.id, req.currentUser.id);
+
+        if (!template) {
+            return res.status(404).json({ error: 'Template not found.' });
+        }
+
+        await template.destroy();
+        res.status(204).send();
+    } catch (error) {
+        console.error('Error deleting project template:', error);
+        res.status(400).json({
+            error: 'There was a problem deleting the template.',
+        });
+    }
+});
+
+module.exports = router;
@@ -2,8 +2,18 @@ const express = require('express');
 const multer = require('multer');
 const path = require('path');
 const fs = require('fs');
-const { Project, Task, Tag, Area, Note, sequelize } = require('../models');
+const {
+    Project,
+    ProjectSection,
+    Task,
+    Tag,
+    Area,
+    Note,
+    sequelize,
+} = require('../models');
 const { Op } = require('sequelize');
+const changeEvents = require('../services/changeEvents');
+const UndoService = require('../services/undoService');
 const router = express.Router();
 
 // Helper function to safely format dates
@@ -222,6 +232,7 @@ router.get('/project/:id', async (req, res) => {
                 {
                     model: Task,
                     required: false,
+                    where: { parent_task_id: null },
                     include: [
                         {
                             model: Tag,
@@ -242,6 +253,14 @@ router.get('/project/:id', async (req, res) => {
                     attributes: ['id', 'name'],
                     through: { attributes: [] },
                 },
+                { model: ProjectSection, required: false },
+            ],
+            // Tasks in the order they were arranged in
+            order: [
+                [Task, 'position', 'ASC NULLS LAST'],
+                [Task, 'created_at', 'ASC'],
+                [ProjectSection, 'position', 'ASC'],
+                [ProjectSection, 'id', 'ASC'],
             ],
         });
 
@@ -268,6 +287,7 @@ router.get('/project/:id', async (req, res) => {
             tags: projectJson.Tags || [], // Normalize Tags to tags
             Tasks: normalizedTasks, // Keep as Tasks (capital T) to match expected structure
             Notes: projectJson.Notes || [], // Include notes
+            ProjectSections: projectJson.ProjectSections || [],
             due_date_at: formatDate(project.due_date_at),
         };
 
@@ -330,12 +350,17 @@ router.post('/project', async (req, res) => {
         });
 
         const projectJson = projectWithAssociations.toJSON();
-
-        res.status(201).json({
+        const createdProject = {
             ...projectJson,
             tags: projectJson.Tags || [], // Normalize Tags to tags
             due_date_at: formatDate(projectWithAssociations.due_date_at),
+        };
+
+        await changeEvents.publish(req.session.userId, 'project.created', {
+            project: createdProject,
         });
+
+        res.status(201).json(createdProject);
     } catch (error) {
         console.error('Error creating project:', error);
         res.status(400).json({
@@ -371,6 +396,8 @@ router.patch('/project/:id', async (req, res) => {
             priority,
             due_date_at,
             image_url,
+            view_mode,
+            wip_limits,
             tags,
             Tags,
         } = req.body;
@@ -388,6 +415,8 @@ router.patch('/project/:id', async (req, res) => {
         if (priority !== undefined) updateData.priority = priority;
         if (due_date_at !== undefined) updateData.due_date_at = due_date_at;
         if (image_url !== undefined) updateData.image_url = image_url;
+        if (view_mode !== undefined) updateData.view_mode = view_mode;
+        if (wip_limits !== undefined) updateData.wip_limits = wip_limits;
 
         await project.update(updateData);
         await updateProjectTags(project, tagsData, req.session.userId);
@@ -404,12 +433,17 @@ router.patch('/project/:id', async (req, res) => {
         });
 
         const projectJson = projectWithAssociations.toJSON();
-
-        res.json({
+        const updatedProject = {
             ...projectJson,
             tags: projectJson.Tags || [], // Normalize Tags to tags
             due_date_at: formatDate(projectWithAssociations.due_date_at),
+        };
+
+        await changeEvents.publish(req.session.userId, 'project.updated', {
+            project: updatedProject,
         });
+
+        res.json(updatedProject);
     } catch (error) {
         console.error('Error updating project:', error);
         res.status(400).json({
@@ -436,8 +470,20 @@ router.delete('/project/:id', async (req, res) => {
             return res.status(404).json({ error: 'Project not found.' });
         }
 
-        await project.destroy();
-        res.json({ message: 'Project successfully deleted' });
+        const undoToken = await UndoService.trash(
+            'project',
+            project,
+            req.session.userId
+        );
+
+        await changeEvents.publish(req.session.userId, 'project.deleted', {
+            project: { id: project.id, name: project.name },
+        });
+
+        res.json({
+            message: 'Project successfully deleted',
+            undo_token: undoToken,
+        });
     } catch (error) {
         console.error('Error deleting project:', error);
         res.status(400).json({
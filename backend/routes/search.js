@@ -0,0 +1,27 @@
+const express = require('express');
+const searchService = require('../services/searchService');
+const router = express.Router();
+
+// GET /api/search?q=&types=&limit= - Full-text search across the user's data
+router.get('/search', async (req, res) => {
+    try {
+        const { q, types, limit } = req.query;
+
+        if (!q || !String(q).trim()) {
+            return res.status(400).json({ error: 'Search query is required.' });
+        }
+
+        const results = await searchService.search(req.currentUser.id, {
+            q: String(q).trim(),
+            types,
+            limit,
+        });
+
+        res.json(results);
+    } catch (error) {
+        console.error('Error searching:', error);
+        res.status(500).json({ error: 'Failed to search' });
+    }
+});
+
+module.exports = router;
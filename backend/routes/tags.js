@@ -1,5 +1,6 @@
 const express = require('express');
 const { Tag, Task, Note, Project, sequelize } = require('../models');
+const changeEvents = require('../services/changeEvents');
 const router = express.Router();
 
 // GET /api/tags
@@ -63,6 +64,10 @@ router.post('/tag', async (req, res) => {
             user_id: req.currentUser.id,
         });
 
+        await changeEvents.publish(req.currentUser.id, 'tag.created', {
+            tag: { id: tag.id, name: tag.name },
+        });
+
         res.status(201).json({
             id: tag.id,
             name: tag.name,
@@ -107,6 +112,10 @@ router.patch('/tag/:identifier', async (req, res) => {
 
         await tag.update({ name: name.trim() });
 
+        await changeEvents.publish(req.currentUser.id, 'tag.updated', {
+            tag: { id: tag.id, name: tag.name },
+        });
+
         res.json({
             id: tag.id,
             name: tag.name,
@@ -189,6 +198,11 @@ router.delete('/tag/:identifier', async (req, res) => {
         await tag.destroy({ transaction });
 
         await transaction.commit();
+
+        await changeEvents.publish(req.currentUser.id, 'tag.deleted', {
+            tag: { id: tag.id, name: tag.name },
+        });
+
         res.json({ message: 'Tag successfully deleted' });
     } catch (error) {
         await transaction.rollback();
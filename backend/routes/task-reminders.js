@@ -0,0 +1,85 @@
+const express = require('express');
+const { Task, TaskReminder } = require('../models');
+const TaskReminderService = require('../services/taskReminderService');
+const router = express.Router();
+
+const findTask = (id, userId) =>
+    Task.findOne({ where: { id, user_id: userId } });
+
+// GET /api/task/:id/reminders
+router.get('/task/:id/reminders', async (req, res) => {
+    try {
+        const task = await findTask(req.params.id, req.currentUser.id);
+
+        if (!task) {
+            return res.status(404).json({ error: 'Task not found.' });
+        }
+
+        const reminders = await TaskReminder.findAll({
+            where: { task_id: task.id },
+            order: [['id', 'ASC']],
+        });
+
+        res.json(reminders);
+    } catch (error) {
+        console.error('Error fetching task reminders:', error);
+        res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+// POST /api/task/:id/reminders
+router.post('/task/:id/reminders', async (req, res) => {
+    try {
+        const task = await findTask(req.params.id, req.currentUser.id);
+
+        if (!task) {
+            return res.status(404).json({ error: 'Task not found.' });
+        }
+
+        const validationError = TaskReminderService.validateReminder(
+            req.body,
+            task
+        );
+        if (validationError) {
+            return res.status(400).json({ error: validationError });
+        }
+
+        const reminder = await TaskReminderService.createReminder(
+            task,
+            req.body
+        );
+
+        res.status(201).json(reminder);
+    } catch (error) {
+        console.error('Error creating task reminder:', error);
+        res.status(400).json({
+            error: 'There was a problem creating the reminder.',
+            details: error.errors
+                ? error.errors.map((e) => e.message)
+                : [error.message],
+        });
+    }
+});
+
+// DELETE /api/task-reminder/:id
+router.delete('/task-reminder/:id', async (req, res) => {
+    try {
+        const reminder = await TaskReminder.findOne({
+            where: { id: req.params.id, user_id: req.currentUser.id },
+        });
+
+        if (!reminder) {
+            return res.status(404).json({ error: 'Reminder not found.' });
+        }
+
+        await reminder.destroy();
+        res.status(204).send();
+    } catch (error) {
+        console.error('Error deleting task reminder:', error);
+        res.status(400).json({
+            error: 'There was a problem deleting the reminder.',
+        });
+    }
+});
+
+module.exports = router;
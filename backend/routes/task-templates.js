@@ -0,0 +1,151 @@
+const express = require('express');
+const { Project, Task, TaskTemplate } = require('../models');
+const router = express.Router();
+
+// A trashed project is dropped so new tasks do not land in it
+const serializeTemplate = (template) => {
+    const { Project: project, ...templateJson } = template.toJSON();
+    return {
+        ...templateJson,
+        project_id: project ? project.id : null,
+        project_name: project ? project.name : null,
+    };
+};
+
+const findTemplate = (id, userId) =>
+    TaskTemplate.findOne({
+        where: { id, user_id: userId },
+        include: [{ model: Project, attributes: ['id', 'name'] }],
+    });
+
+// Check the fields of a new template, returning an error message or null
+async function validateTemplate(data, userId) {
+    const { name, task_name, priority, tags, due_offset_days, project_id } =
+        data;
+
+    if (!name || typeof name !== 'string' || !name.trim()) {
+        return 'Template name is required.';
+    }
+    if (!task_name || typeof task_name !== 'string' || !task_name.trim()) {
+        return 'Task name is required.';
+    }
+    if (
+        priority !== undefined &&
+        priority !== null &&
+        ![0, 1, 2].includes(priority)
+    ) {
+        return 'Priority must be 0, 1 or 2.';
+    }
+    if (
+        tags !== undefined &&
+        (!Array.isArray(tags) || !tags.every((tag) => typeof tag === 'string'))
+    ) {
+        return 'Tags must be a list of names.';
+    }
+    if (
+        due_offset_days !== undefined &&
+        due_offset_days !== null &&
+        !Number.isInteger(due_offset_days)
+    ) {
+        return 'Due date offset must be a whole number of days.';
+    }
+    if (
+        project_id &&
+        !(await Project.findOne({ where: { id: project_id, user_id: userId } }))
+    ) {
+        return 'Project not found.';
+    }
+    return null;
+}
+
+// GET /api/task-templates
+router.get('/task-templates', async (req, res) => {
+    try {
+        const templates = await TaskTemplate.findAll({
+            where: { user_id: req.currentUser.id },
+            include: [{ model: Project, attributes: ['id', 'name'] }],
+            order: [
+                ['name', 'ASC'],
+                ['id', 'ASC'],
+            ],
+        });
+
+        res.json(templates.map(serializeTemplate));
+    } catch (error) {
+        console.error('Error fetching task templates:', error);
+        res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+// POST /api/task-templates
+router.post('/task-templates', async (req, res) => {
+    try {
+        // Priorities may be given by name, as for tasks
+        const data = {
+            ...req.body,
+            priority:
+                typeof req.body.priority === 'string'
+                    ? Task.getPriorityValue(req.body.priority)
+                    : req.body.priority,
+        };
+        const validationError = await validateTemplate(
+            data,
+            req.currentUser.id
+        );
+        if (validationError) {
+            return res.status(400).json({ error: validationError });
+        }
+
+        const { name, task_name, note, priority, tags, due_offset_days } = data;
+        const template = await TaskTemplate.create({
+            name: name.trim(),
+            task_name: task_name.trim(),
+            note: note || null,
+            priority: priority !== undefined ? priority : null,
+            tags: [
+                ...new Set(
+                    (tags || []).map((tag) => tag.trim()).filter(Boolean)
+                ),
+            ],
+            due_offset_days:
+                due_offset_days !== undefined ? due_offset_days : null,
+            project_id: data.project_id || null,
+            user_id: req.currentUser.id,
+        });
+
+        res.status(201).json(
+            serializeTemplate(
+                await findTemplate(template.id, req.currentUser.id)
+            )
+        );
+    } catch (error) {
+        console.error('Error creating task template:', error);
+        res.status(400).json({
+            error: 'There was a problem creating the template.',
+            details: error.errors
+                ? error.errors.map((e) => e.message)
+                : [error.message],
+        });
+    }
+});
+
+// DELETE /api/task-template/:id
+router.delete('/task-template/:id', async (req, res) => {
+    try {
+        const template = await findTemplate(req.params.id, req.currentUser.id);
+
+        if (!template) {
+            return res.status(404).json({ error: 'Template not found.' });
+        }
+
+        await template.destroy();
+        res.status(204).send();
+    } catch (error) {
+        console.error('Error deleting task template:', error);
+        res.status(400).json({
+            error: 'There was a problem deleting the template.',
+        });
+    }
+});
+
+module.exports = router;
@@ -1,25 +1,90 @@
 const express = require('express');
-const { Task, Tag, Project, TaskEvent, sequelize } = require('../models');
+const {
+    Task,
+    Tag,
+    Project,
+    ProjectSection,
+    SavedFilter,
+    sequelize,
+} = require('../models');
 const { Op } = require('sequelize');
 const RecurringTaskService = require('../services/recurringTaskService');
 const TaskEventService = require('../services/taskEventService');
+const SubtaskService = require('../services/subtaskService');
+const TaskDependencyService = require('../services/taskDependencyService');
+const TaskDeletionService = require('../services/taskDeletionService');
+const TaskBulkService = require('../services/taskBulkService');
+const TaskOrderService = require('../services/taskOrderService');
+const TaskDuplicationService = require('../services/taskDuplicationService');
+const TaskDeferralService = require('../services/taskDeferralService');
+const UndoService = require('../services/undoService');
+const TaskReminderService = require('../services/taskReminderService');
+const changeEvents = require('../services/changeEvents');
+const { compileFilterQuery } = require('../services/filterQueryService');
 const moment = require('moment-timezone');
 const router = express.Router();
 
+// Completing a task is reported separately from other updates
+function getTaskWebhookEvent(oldStatus, newStatus) {
+    return newStatus === Task.STATUS.DONE && oldStatus !== Task.STATUS.DONE
+        ? 'task.completed'
+        : 'task.updated';
+}
+
+// A task can only be filed under a section of its own project
+async function findTaskSection(sectionId, projectId, userId) {
+    const section = await ProjectSection.findOne({
+        where: { id: sectionId, user_id: userId },
+    });
+    return section && projectId && section.project_id === Number(projectId)
+        ? section
+        : null;
+}
+
+// Within a day, all-day tasks come first and timed ones follow in time order
+const DUE_TIME_ORDER = [
+    [sequelize.literal('CASE WHEN due_time IS NULL THEN 0 ELSE 1 END'), 'ASC'],
+    ['due_time', 'ASC'],
+];
+
+// Due dates are calendar days; a due time is a wall-clock time on that day
+// in the user's timezone, and due_at is the moment it falls on
+function serializeDue(task, timezone = 'UTC') {
+    const dueDate = task.due_date
+        ? task.due_date.toISOString().split('T')[0]
+        : null;
+    return {
+        due_date: dueDate,
+        due_at:
+            dueDate && task.due_time
+                ? moment
+                      .tz(
+                          `${dueDate} ${task.due_time}`,
+                          'YYYY-MM-DD HH:mm',
+                          timezone
+                      )
+                      .toISOString()
+                : null,
+    };
+}
+
 // Helper function to serialize task with today move count
-async function serializeTask(task) {
+async function serializeTask(task, timezone) {
     const taskJson = task.toJSON();
     const todayMoveCount = await TaskEventService.getTaskTodayMoveCount(
         task.id
     );
+    const subtaskProgress = await SubtaskService.getSubtaskProgress(task.id);
+    const openBlockers = await TaskDependencyService.getOpenBlockers(task.id);
 
     return {
         ...taskJson,
         tags: taskJson.Tags || [],
-        due_date: task.due_date
-            ? task.due_date.toISOString().split('T')[0]
-            : null,
+        ...serializeDue(task, timezone),
         today_move_count: todayMoveCount,
+        subtask_progress: subtaskProgress,
+        blocked: openBlockers.length > 0,
+        blocked_by: openBlockers.map((blocker) => blocker.toJSON()),
     };
 }
 
@@ -57,16 +122,49 @@ async function updateTaskTags(task, tagsData, userId) {
     await task.setTags(allTags);
 }
 
+// Resolve the filter query from a saved filter id or an inline query
+async function resolveFilterQuery(params, userId) {
+    if (params.filter_id) {
+        const savedFilter = await SavedFilter.findOne({
+            where: { id: params.filter_id, user_id: userId },
+        });
+        if (!savedFilter) {
+            throw new Error('Filter not found.');
+        }
+        return savedFilter.query;
+    }
+
+    return params.filter !== undefined ? String(params.filter) : null;
+}
+
 // Filter tasks by parameters
-async function filterTasksByParams(params, userId) {
-    let whereClause = { user_id: userId };
+async function filterTasksByParams(params, userId, timezone = 'UTC') {
+    // Subtasks are listed under their parent task, not on their own
+    let whereClause = { user_id: userId, parent_task_id: null };
     let includeClause = [
         { model: Tag, attributes: ['id', 'name'], through: { attributes: [] } },
         { model: Project, attributes: ['name'], required: false },
     ];
 
+    const filterQuery = await resolveFilterQuery(params, userId);
+
     // Filter by type
-    switch (params.type) {
+    switch (filterQuery !== null ? 'filter' : params.type) {
+        case 'filter': {
+            // Saved filters and ad-hoc queries replace the type based filtering
+            const { where, errors } = compileFilterQuery(
+                filterQuery,
+                userId,
+                timezone
+            );
+            if (errors.length > 0) {
+                const error = new Error('Invalid filter query.');
+                error.errors = errors;
+                throw error;
+            }
+            Object.assign(whereClause, where);
+            break;
+        }
         case 'today':
             whereClause.status = {
                 [Op.notIn]: [
@@ -76,6 +174,7 @@ async function filterTasksByParams(params, userId) {
                     'archived',
                 ],
             }; // Exclude completed and archived tasks (both integer and string values)
+            whereClause.defer_until = TaskDeferralService.notDeferred();
             break;
         case 'upcoming':
             whereClause.due_date = {
@@ -90,6 +189,18 @@ async function filterTasksByParams(params, userId) {
             whereClause.due_date = null;
             whereClause.project_id = null;
             whereClause.status = { [Op.notIn]: [Task.STATUS.DONE, 'done'] };
+            whereClause.defer_until = TaskDeferralService.notDeferred();
+            break;
+        case 'deferred':
+            whereClause.defer_until = TaskDeferralService.deferred();
+            whereClause.status = {
+                [Op.notIn]: [
+                    Task.STATUS.DONE,
+                    Task.STATUS.ARCHIVED,
+                    'done',
+                    'archived',
+                ],
+            };
             break;
         case 'inbox':
             whereClause[Op.or] = [{ due_date: null }, { project_id: null }];
@@ -116,7 +227,11 @@ async function filterTasksByParams(params, userId) {
         includeClause[0].required = true;
     }
 
-    let orderClause = [['created_at', 'ASC']];
+    // Deferred tasks come in the order they come back
+    let orderClause =
+        params.type === 'deferred'
+            ? [['defer_until', 'ASC']]
+            : [['created_at', 'ASC']];
 
     // Apply ordering
     if (params.order_by) {
@@ -129,13 +244,21 @@ async function filterTasksByParams(params, userId) {
             'priority',
             'status',
             'due_date',
+            'manual',
         ];
 
         if (!allowedColumns.includes(orderColumn)) {
             throw new Error('Invalid order column specified.');
         }
 
-        if (orderColumn === 'due_date') {
+        if (orderColumn === 'manual') {
+            // Positions only compare within a project, so tasks of several
+            // projects are kept together by project
+            orderClause = [
+                ['project_id', 'ASC NULLS FIRST'],
+                ...TaskOrderService.manualOrder('project'),
+            ];
+        } else if (orderColumn === 'due_date') {
             orderClause = [
                 [
                     sequelize.literal(
@@ -144,6 +267,7 @@ async function filterTasksByParams(params, userId) {
                     'ASC',
                 ],
                 ['due_date', orderDirection.toUpperCase()],
+                ...DUE_TIME_ORDER,
             ];
         } else {
             orderClause = [[orderColumn, orderDirection.toUpperCase()]];
@@ -173,10 +297,14 @@ async function computeTaskMetrics(userId, userTimezone = 'UTC') {
         },
     });
 
+    // Deferred tasks stay out of the lists below until their start date,
+    // and subtasks show up under their parent rather than on their own
     const tasksInProgress = await Task.findAll({
         where: {
             user_id: userId,
+            parent_task_id: null,
             status: { [Op.in]: [Task.STATUS.IN_PROGRESS, 'in_progress'] },
+            defer_until: TaskDeferralService.notDeferred(),
         },
         include: [
             {
@@ -199,6 +327,7 @@ async function computeTaskMetrics(userId, userTimezone = 'UTC') {
         where: {
             user_id: userId,
             today: true,
+            defer_until: TaskDeferralService.notDeferred(),
             status: {
                 [Op.notIn]: [
                     Task.STATUS.DONE,
@@ -221,7 +350,9 @@ async function computeTaskMetrics(userId, userTimezone = 'UTC') {
                 required: false,
             },
         ],
+        // Tasks never moved by hand keep the priority order below them
         order: [
+            ['today_position', 'ASC NULLS LAST'],
             ['priority', 'DESC'],
             ['created_at', 'ASC'],
         ],
@@ -233,6 +364,8 @@ async function computeTaskMetrics(userId, userTimezone = 'UTC') {
     const tasksDueToday = await Task.findAll({
         where: {
             user_id: userId,
+            parent_task_id: null,
+            defer_until: TaskDeferralService.notDeferred(),
             status: {
                 [Op.notIn]: [
                     Task.STATUS.DONE,
@@ -263,6 +396,7 @@ async function computeTaskMetrics(userId, userTimezone = 'UTC') {
                 required: false,
             },
         ],
+        order: [['due_date', 'ASC'], ...DUE_TIME_ORDER],
     });
 
     // Get suggested tasks only if user has a meaningful task base
@@ -276,9 +410,14 @@ async function computeTaskMetrics(userId, userTimezone = 'UTC') {
         tasksInProgress.length > 0 ||
         tasksDueToday.length > 0
     ) {
+        // Tasks waiting on an open dependency can't be worked on yet
+        const blockedTaskIds =
+            await TaskDependencyService.getBlockedTaskIds(userId);
+
         const excludedTaskIds = [
             ...tasksInProgress.map((t) => t.id),
             ...tasksDueToday.map((t) => t.id),
+            ...blockedTaskIds,
         ];
 
         // Get task IDs that have "someday" tag
@@ -298,9 +437,11 @@ async function computeTaskMetrics(userId, userTimezone = 'UTC') {
         const nonProjectTasks = await Task.findAll({
             where: {
                 user_id: userId,
+                parent_task_id: null,
                 status: {
                     [Op.in]: [Task.STATUS.NOT_STARTED, Task.STATUS.WAITING],
                 },
+                defer_until: TaskDeferralService.notDeferred(),
                 id: { [Op.notIn]: [...excludedTaskIds, ...somedayTaskIds] },
                 [Op.or]: [{ project_id: null }, { project_id: '' }],
             },
@@ -328,9 +469,11 @@ async function computeTaskMetrics(userId, userTimezone = 'UTC') {
         const projectTasks = await Task.findAll({
             where: {
                 user_id: userId,
+                parent_task_id: null,
                 status: {
                     [Op.in]: [Task.STATUS.NOT_STARTED, Task.STATUS.WAITING],
                 },
+                defer_until: TaskDeferralService.notDeferred(),
                 id: { [Op.notIn]: [...excludedTaskIds, ...somedayTaskIds] },
                 project_id: { [Op.not]: null, [Op.ne]: '' },
             },
@@ -367,9 +510,11 @@ async function computeTaskMetrics(userId, userTimezone = 'UTC') {
             const somedayFallbackTasks = await Task.findAll({
                 where: {
                     user_id: userId,
+                    parent_task_id: null,
                     status: {
                         [Op.in]: [Task.STATUS.NOT_STARTED, Task.STATUS.WAITING],
                     },
+                    defer_until: TaskDeferralService.notDeferred(),
                     id: {
                         [Op.notIn]: usedTaskIds,
                         [Op.in]: somedayTaskIds,
@@ -500,33 +645,52 @@ async function computeTaskMetrics(userId, userTimezone = 'UTC') {
 // GET /api/tasks
 router.get('/tasks', async (req, res) => {
     try {
-        const tasks = await filterTasksByParams(req.query, req.currentUser.id);
+        const tasks = await filterTasksByParams(
+            req.query,
+            req.currentUser.id,
+            req.currentUser.timezone
+        );
         const metrics = await computeTaskMetrics(
             req.currentUser.id,
             req.currentUser.timezone
         );
 
         res.json({
-            tasks: await Promise.all(tasks.map((task) => serializeTask(task))),
+            tasks: await Promise.all(
+                tasks.map((task) =>
+                    serializeTask(task, req.currentUser.timezone)
+                )
+            ),
             metrics: {
                 total_open_tasks: metrics.total_open_tasks,
                 tasks_pending_over_month: metrics.tasks_pending_over_month,
                 tasks_in_progress_count: metrics.tasks_in_progress_count,
                 tasks_in_progress: await Promise.all(
-                    metrics.tasks_in_progress.map((task) => serializeTask(task))
+                    metrics.tasks_in_progress.map((task) =>
+                        serializeTask(task, req.currentUser.timezone)
+                    )
                 ),
                 tasks_due_today: await Promise.all(
-                    metrics.tasks_due_today.map((task) => serializeTask(task))
+                    metrics.tasks_due_today.map((task) =>
+                        serializeTask(task, req.currentUser.timezone)
+                    )
                 ),
                 today_plan_tasks: await Promise.all(
-                    metrics.today_plan_tasks.map((task) => serializeTask(task))
+                    metrics.today_plan_tasks.map((task) =>
+                        serializeTask(task, req.currentUser.timezone)
+                    )
                 ),
                 suggested_tasks: await Promise.all(
-                    metrics.suggested_tasks.map((task) => serializeTask(task))
+                    metrics.suggested_tasks.map((task) =>
+                        serializeTask(task, req.currentUser.timezone)
+                    )
                 ),
                 tasks_completed_today: await Promise.all(
                     metrics.tasks_completed_today.map(async (task) => {
-                        const serialized = await serializeTask(task);
+                        const serialized = await serializeTask(
+                            task,
+                            req.currentUser.timezone
+                        );
                         return {
                             ...serialized,
                             completed_at: task.completed_at
@@ -543,6 +707,14 @@ router.get('/tasks', async (req, res) => {
         if (error.message === 'Invalid order column specified.') {
             return res.status(400).json({ error: error.message });
         }
+        if (error.message === 'Invalid filter query.') {
+            return res
+                .status(400)
+                .json({ error: error.message, errors: error.errors });
+        }
+        if (error.message === 'Filter not found.') {
+            return res.status(404).json({ error: error.message });
+        }
         res.status(500).json({ error: 'Internal server error' });
     }
 });
@@ -566,7 +738,10 @@ router.get('/task/uuid/:uuid', async (req, res) => {
             return res.status(404).json({ error: 'Task not found.' });
         }
 
-        const serializedTask = await serializeTask(task);
+        const serializedTask = await serializeTask(
+            task,
+            req.currentUser.timezone
+        );
 
         res.json(serializedTask);
     } catch (error) {
@@ -594,7 +769,10 @@ router.get('/task/:id', async (req, res) => {
             return res.status(404).json({ error: 'Task not found.' });
         }
 
-        const serializedTask = await serializeTask(task);
+        const serializedTask = await serializeTask(
+            task,
+            req.currentUser.timezone
+        );
 
         res.json(serializedTask);
     } catch (error) {
@@ -610,9 +788,11 @@ router.post('/task', async (req, res) => {
             name,
             priority,
             due_date,
+            due_time,
             status,
             note,
             project_id,
+            section_id,
             tags,
             Tags,
             today,
@@ -623,6 +803,7 @@ router.post('/task', async (req, res) => {
             recurrence_month_day,
             recurrence_week_of_month,
             completion_based,
+            complete_with_subtasks,
         } = req.body;
 
         // Handle both tags and Tags (Sequelize association format)
@@ -642,6 +823,7 @@ router.post('/task', async (req, res) => {
                         : priority
                     : Task.PRIORITY.LOW,
             due_date: due_date || null,
+            due_time: (due_date && due_time) || null,
             status:
                 status !== undefined
                     ? typeof status === 'string'
@@ -665,6 +847,7 @@ router.post('/task', async (req, res) => {
                     ? recurrence_week_of_month
                     : null,
             completion_based: completion_based || false,
+            complete_with_subtasks: complete_with_subtasks || false,
         };
 
         // Handle project assignment
@@ -678,12 +861,26 @@ router.post('/task', async (req, res) => {
             taskAttributes.project_id = project_id;
         }
 
+        // Handle section assignment
+        if (section_id) {
+            const section = await findTaskSection(
+                section_id,
+                taskAttributes.project_id,
+                req.currentUser.id
+            );
+            if (!section) {
+                return res.status(400).json({ error: 'Invalid section.' });
+            }
+            taskAttributes.section_id = section.id;
+        }
+
         const task = await Task.create(taskAttributes);
         await updateTaskTags(task, tagsData, req.currentUser.id);
 
         // Log task creation event
+        let undoToken = null;
         try {
-            await TaskEventService.logTaskCreated(
+            const event = await TaskEventService.logTaskCreated(
                 task.id,
                 req.currentUser.id,
                 {
@@ -691,10 +888,12 @@ router.post('/task', async (req, res) => {
                     status: task.status,
                     priority: task.priority,
                     due_date: task.due_date,
+                    due_time: task.due_time,
                     project_id: task.project_id,
                 },
                 { source: 'web' }
             );
+            undoToken = await UndoService.record([event]);
         } catch (eventError) {
             console.error('Error logging task creation event:', eventError);
             // Don't fail the request if event logging fails
@@ -713,14 +912,17 @@ router.post('/task', async (req, res) => {
         });
 
         const taskJson = taskWithAssociations.toJSON();
-
-        res.status(201).json({
+        const createdTask = {
             ...taskJson,
             tags: taskJson.Tags || [],
-            due_date: taskWithAssociations.due_date
-                ? taskWithAssociations.due_date.toISOString().split('T')[0]
-                : null,
+            ...serializeDue(taskWithAssociations, req.currentUser.timezone),
+        };
+
+        await changeEvents.publish(req.currentUser.id, 'task.created', {
+            task: createdTask,
         });
+
+        res.status(201).json({ ...createdTask, undo_token: undoToken });
     } catch (error) {
         console.error('Error creating task:', error);
         res.status(400).json({
@@ -732,6 +934,78 @@ router.post('/task', async (req, res) => {
     }
 });
 
+// POST /api/task/:id/duplicate
+router.post('/task/:id/duplicate', async (req, res) => {
+    try {
+        const task = await Task.findOne({
+            where: { id: req.params.id, user_id: req.currentUser.id },
+        });
+
+        if (!task) {
+            return res.status(404).json({ error: 'Task not found.' });
+        }
+
+        const created = await TaskDuplicationService.duplicate(
+            task,
+            req.currentUser.id,
+            { includeSubtasks: req.body.include_subtasks === true }
+        );
+
+        let undoToken = null;
+        try {
+            const events = [];
+            for (const copy of created) {
+                events.push(
+                    await TaskEventService.logTaskCreated(
+                        copy.id,
+                        req.currentUser.id,
+                        {
+                            name: copy.name,
+                            status: copy.status,
+                            priority: copy.priority,
+                            due_date: copy.due_date,
+                            project_id: copy.project_id,
+                        },
+                        { source: 'web', duplicated_from: task.id }
+                    )
+                );
+            }
+            undoToken = await UndoService.record(events);
+        } catch (eventError) {
+            console.error('Error logging task duplication events:', eventError);
+            // Don't fail the request if event logging fails
+        }
+
+        const duplicatedTask = await serializeTask(
+            await Task.findByPk(created[0].id, {
+                include: [
+                    {
+                        model: Tag,
+                        attributes: ['name'],
+                        through: { attributes: [] },
+                    },
+                    { model: Project, attributes: ['name'], required: false },
+                ],
+            }),
+            req.currentUser.timezone
+        );
+
+        await changeEvents.publish(req.currentUser.id, 'task.created', {
+            task: duplicatedTask,
+        });
+
+        res.status(201).json({ ...duplicatedTask, undo_token: undoToken });
+    } catch (error) {
+        console.error('Error duplicating task:', error);
+        res.status(400).json({
+            error: 'There was a problem duplicating the task.',
+            details: error.errors
+                ? error.errors.map((e) => e.message)
+                : [error.message],
+        });
+    }
+});
+
 // PATCH /api/task/:id
 router.patch('/task/:id', async (req, res) => {
     try {
@@ -741,7 +1015,9 @@ router.patch('/task/:id', async (req, res) => {
             status,
             note,
             due_date,
+            due_time,
             project_id,
+            section_id,
             tags,
             Tags,
             today,
@@ -752,6 +1028,7 @@ router.patch('/task/:id', async (req, res) => {
             recurrence_month_day,
             recurrence_week_of_month,
             completion_based,
+            complete_with_subtasks,
             update_parent_recurrence,
         } = req.body;
 
@@ -779,6 +1056,7 @@ router.patch('/task/:id', async (req, res) => {
             status: task.status,
             priority: task.priority,
             due_date: task.due_date,
+            due_time: task.due_time,
             project_id: task.project_id,
             note: task.note,
             recurrence_type: task.recurrence_type,
@@ -852,6 +1130,13 @@ router.patch('/task/:id', async (req, res) => {
                     : Task.STATUS.NOT_STARTED,
             note,
             due_date: due_date || null,
+            // A task keeps its time when only the date moves, and loses it
+            // with the date
+            due_time: due_date
+                ? due_time !== undefined
+                    ? due_time || null
+                    : task.due_time
+                : null,
             today: today !== undefined ? today : task.today,
             recurrence_type:
                 recurrence_type !== undefined
@@ -881,6 +1166,10 @@ router.patch('/task/:id', async (req, res) => {
                 completion_based !== undefined
                     ? completion_based
                     : task.completion_based,
+            complete_with_subtasks:
+                complete_with_subtasks !== undefined
+                    ? complete_with_subtasks
+                    : task.complete_with_subtasks,
         };
 
         // Set completed_at when task is marked as done
@@ -922,12 +1211,54 @@ router.patch('/task/:id', async (req, res) => {
             taskAttributes.project_id = null;
         }
 
+        // Handle section assignment; a task moved to another project leaves
+        // its section behind
+        const sectionId =
+            section_id !== undefined ? section_id : task.section_id;
+        const section = sectionId
+            ? await findTaskSection(
+                  sectionId,
+                  taskAttributes.project_id,
+                  req.currentUser.id
+              )
+            : null;
+        taskAttributes.section_id = section ? section.id : null;
+
         await task.update(taskAttributes);
         await updateTaskTags(task, tagsData, req.currentUser.id);
 
+        // Relative reminders follow the due time when it moves
+        const oldDue = TaskReminderService.dueInstant(oldValues);
+        const newDue = TaskReminderService.dueInstant(task);
+        if ((oldDue && oldDue.getTime()) !== (newDue && newDue.getTime())) {
+            await TaskReminderService.resetRelativeReminders(task.id);
+        }
+
+        // Roll subtask completion up onto the parent task. What that changes
+        // is undone together with the update.
+        const cascadedEvents = [];
+        if (task.parent_task_id) {
+            await SubtaskService.handleSubtaskStatusChange(
+                task,
+                oldValues.status,
+                req.currentUser.id,
+                cascadedEvents
+            );
+        }
+
+        // Unblock tasks that were waiting on this one
+        await TaskDependencyService.handleStatusChange(
+            task,
+            oldValues.status,
+            req.currentUser.id,
+            cascadedEvents
+        );
+
         // Log task update events
+        let undoToken = null;
         try {
             const changes = {};
+            const events = [];
 
             // Check for changes in each field
             if (name !== undefined && name !== oldValues.name) {
@@ -959,6 +1290,12 @@ router.patch('/task/:id', async (req, res) => {
                     };
                 }
             }
+            if (taskAttributes.due_time !== oldValues.due_time) {
+                changes.due_time = {
+                    oldValue: oldValues.due_time,
+                    newValue: taskAttributes.due_time,
+                };
+            }
             if (
                 project_id !== undefined &&
                 project_id !== oldValues.project_id
@@ -1039,11 +1376,13 @@ router.patch('/task/:id', async (req, res) => {
 
             // Log all changes
             if (Object.keys(changes).length > 0) {
-                await TaskEventService.logTaskUpdate(
-                    task.id,
-                    req.currentUser.id,
-                    changes,
-                    { source: 'web' }
+                events.push(
+                    ...(await TaskEventService.logTaskUpdate(
+                        task.id,
+                        req.currentUser.id,
+                        changes,
+                        { source: 'web' }
+                    ))
                 );
             }
 
@@ -1061,17 +1400,24 @@ router.patch('/task/:id', async (req, res) => {
                 if (
                     JSON.stringify(oldTagNames) !== JSON.stringify(newTagNames)
                 ) {
-                    await TaskEventService.logEvent({
-                        taskId: task.id,
-                        userId: req.currentUser.id,
-                        eventType: 'tags_changed',
-                        fieldName: 'tags',
-                        oldValue: oldValues.tags,
-                        newValue: newTags,
-                        metadata: { source: 'web', action: 'tags_update' },
-                    });
+                    events.push(
+                        await TaskEventService.logEvent({
+                            taskId: task.id,
+                            userId: req.currentUser.id,
+                            eventType: 'tags_changed',
+                            fieldName: 'tags',
+                            oldValue: oldValues.tags,
+                            newValue: newTags,
+                            metadata: { source: 'web', action: 'tags_update' },
+                        })
+                    );
                 }
             }
+
+            undoToken = await UndoService.record([
+                ...events,
+                ...cascadedEvents,
+            ]);
         } catch (eventError) {
             console.error('Error logging task update events:', eventError);
             // Don't fail the request if event logging fails
@@ -1090,14 +1436,19 @@ router.patch('/task/:id', async (req, res) => {
         });
 
         const taskJson = taskWithAssociations.toJSON();
-
-        res.json({
+        const updatedTask = {
             ...taskJson,
             tags: taskJson.Tags || [], // Normalize Tags to tags
-            due_date: taskWithAssociations.due_date
-                ? taskWithAssociations.due_date.toISOString().split('T')[0]
-                : null,
-        });
+            ...serializeDue(taskWithAssociations, req.currentUser.timezone),
+        };
+
+        await changeEvents.publish(
+            req.currentUser.id,
+            getTaskWebhookEvent(oldValues.status, task.status),
+            { task: updatedTask }
+        );
+
+        res.json({ ...updatedTask, undo_token: undoToken });
     } catch (error) {
         console.error('Error updating task:', error);
         res.status(400).json({
@@ -1120,6 +1471,7 @@ router.patch('/task/:id/toggle_completion', async (req, res) => {
             return res.status(404).json({ error: 'Task not found.' });
         }
 
+        const oldStatus = task.status;
         const newStatus =
             task.status === Task.STATUS.DONE || task.status === 'done'
                 ? task.note
@@ -1143,11 +1495,47 @@ router.patch('/task/:id/toggle_completion', async (req, res) => {
             nextTask = await RecurringTaskService.handleTaskCompletion(task);
         }
 
+        // Log the change so it can be undone, along with the next instance
+        // of a recurring task
+        let undoToken = null;
+        try {
+            const events = [
+                await TaskEventService.logStatusChange(
+                    task.id,
+                    req.currentUser.id,
+                    oldStatus,
+                    newStatus,
+                    { source: 'web' }
+                ),
+            ];
+            if (nextTask) {
+                events.push(
+                    await TaskEventService.logTaskCreated(
+                        nextTask.id,
+                        req.currentUser.id,
+                        {
+                            name: nextTask.name,
+                            status: nextTask.status,
+                            priority: nextTask.priority,
+                            due_date: nextTask.due_date,
+                            project_id: nextTask.project_id,
+                        },
+                        { source: 'web', trigger: 'recurrence' }
+                    )
+                );
+            }
+            undoToken = await UndoService.record(events);
+        } catch (eventError) {
+            console.error('Error logging task completion event:', eventError);
+            // Don't fail the request if event logging fails
+        }
+
         const response = {
             ...task.toJSON(),
             due_date: task.due_date
                 ? task.due_date.toISOString().split('T')[0]
                 : null,
+            undo_token: undoToken,
         };
 
         if (nextTask) {
@@ -1159,6 +1547,42 @@ router.patch('/task/:id/toggle_completion', async (req, res) => {
             };
         }
 
+        // Roll subtask completion up onto the parent task. What that changes
+        // is undone together with the completion.
+        const cascadedEvents = [];
+        if (task.parent_task_id) {
+            const parentTask = await SubtaskService.handleSubtaskStatusChange(
+                task,
+                oldStatus,
+                req.currentUser.id,
+                cascadedEvents
+            );
+            if (parentTask) {
+                response.parent_task = await serializeTask(
+                    parentTask,
+                    req.currentUser.timezone
+                );
+            }
+        }
+
+        // Unblock tasks that were waiting on this one
+        const unblockedTasks = await TaskDependencyService.handleStatusChange(
+            task,
+            oldStatus,
+            req.currentUser.id,
+            cascadedEvents
+        );
+        if (unblockedTasks.length > 0) {
+            response.unblocked_task_ids = unblockedTasks.map((t) => t.id);
+        }
+        await UndoService.attach(undoToken, cascadedEvents);
+
+        await changeEvents.publish(
+            req.currentUser.id,
+            getTaskWebhookEvent(oldStatus, newStatus),
+            { task: { ...task.toJSON(), due_date: response.due_date } }
+        );
+
         res.json(response);
     } catch (error) {
         res.status(422).json({ error: 'Unable to update task' });
@@ -1176,95 +1600,167 @@ router.delete('/task/:id', async (req, res) => {
             return res.status(404).json({ error: 'Task not found.' });
         }
 
-        // Check for child tasks - prevent deletion of parent tasks with children
-        const childTasks = await Task.findAll({
-            where: { recurring_parent_id: req.params.id },
-        });
-
         // If this is a recurring parent task with children, prevent deletion
-        if (childTasks.length > 0) {
+        if (!(await TaskDeletionService.canDelete(task))) {
             return res
                 .status(400)
                 .json({ error: 'There was a problem deleting the task.' });
         }
 
-        const taskEvents = await TaskEvent.findAll({
-            where: { task_id: req.params.id },
+        const events = await TaskDeletionService.trashTask(
+            task,
+            req.currentUser.id
+        );
+        const undoToken = await UndoService.record(events);
+
+        await changeEvents.publish(req.currentUser.id, 'task.deleted', {
+            task: { id: task.id, uuid: task.uuid, name: task.name },
         });
 
-        const tagAssociations = await sequelize.query(
-            'SELECT COUNT(*) as count FROM tasks_tags WHERE task_id = ?',
-            { replacements: [req.params.id], type: sequelize.QueryTypes.SELECT }
-        );
+        res.json({
+            message: 'Task successfully deleted',
+            undo_token: undoToken,
+        });
+    } catch (error) {
+        res.status(400).json({
+            error: 'There was a problem deleting the task.',
+        });
+    }
+});
 
-        // Check SQLite foreign key list for tasks table
-        const foreignKeys = await sequelize.query(
-            'PRAGMA foreign_key_list(tasks)',
-            { type: sequelize.QueryTypes.SELECT }
-        );
+// PATCH /api/tasks/bulk
+router.patch('/tasks/bulk', async (req, res) => {
+    try {
+        const { ids, operations } = req.body;
+
+        if (
+            !Array.isArray(ids) ||
+            ids.length === 0 ||
+            !ids.every((id) => Number.isInteger(id))
+        ) {
+            return res
+                .status(400)
+                .json({ error: 'A list of task ids is required.' });
+        }
 
-        // Find all tables that reference tasks
-        const allTables = await sequelize.query(
-            "SELECT name FROM sqlite_master WHERE type='table'",
-            { type: sequelize.QueryTypes.SELECT }
+        const operationError = await TaskBulkService.validate(
+            operations,
+            req.currentUser.id
         );
+        if (operationError) {
+            return res.status(400).json({ error: operationError });
+        }
 
-        for (const table of allTables) {
-            if (table.name !== 'tasks') {
-                try {
-                    const fks = await sequelize.query(
-                        `PRAGMA foreign_key_list(${table.name})`,
-                        { type: sequelize.QueryTypes.SELECT }
-                    );
-                    const taskRefs = fks.filter((fk) => fk.table === 'tasks');
-                    if (taskRefs.length > 0) {
-                        // Check if this table has any records referencing our task
-                        for (const fk of taskRefs) {
-                            const count = await sequelize.query(
-                                `SELECT COUNT(*) as count FROM ${table.name} WHERE ${fk.from} = ?`,
-                                {
-                                    replacements: [req.params.id],
-                                    type: sequelize.QueryTypes.SELECT,
-                                }
-                            );
-                        }
-                    }
-                } catch (error) {
-                    // Skip tables that might not exist or have issues
+        const taskIds = [...new Set(ids)];
+        const tasks = await Task.findAll({
+            where: { id: taskIds, user_id: req.currentUser.id },
+            include: [
+                {
+                    model: Tag,
+                    attributes: ['id', 'name'],
+                    through: { attributes: [] },
+                },
+            ],
+        });
+
+        if (tasks.length !== taskIds.length) {
+            return res.status(404).json({ error: 'Task not found.' });
+        }
+
+        if (operations.delete) {
+            for (const task of tasks) {
+                if (!(await TaskDeletionService.canDelete(task))) {
+                    return res.status(400).json({
+                        error: 'There was a problem deleting the tasks.',
+                    });
                 }
             }
         }
 
-        // Temporarily disable foreign key constraints for this operation
-        await sequelize.query('PRAGMA foreign_keys = OFF');
+        const oldStatuses = new Map(
+            tasks.map((task) => [task.id, task.status])
+        );
+        const events = await TaskBulkService.apply(
+            tasks,
+            operations,
+            req.currentUser.id
+        );
+        const undoToken = await UndoService.record(events);
 
-        try {
-            // Use force delete to bypass foreign key constraints
-            await TaskEvent.destroy({
-                where: { task_id: req.params.id },
-                force: true,
+        if (operations.delete) {
+            for (const task of tasks) {
+                await changeEvents.publish(req.currentUser.id, 'task.deleted', {
+                    task: { id: task.id, uuid: task.uuid, name: task.name },
+                });
+            }
+            return res.json({
+                tasks: [],
+                deleted_task_ids: tasks.map((task) => task.id),
+                undo_token: undoToken,
             });
+        }
 
-            await sequelize.query('DELETE FROM tasks_tags WHERE task_id = ?', {
-                replacements: [req.params.id],
-            });
+        const updatedTasks = [];
+        const cascadedEvents = [];
+        for (const task of tasks) {
+            const oldStatus = oldStatuses.get(task.id);
+            if (task.status !== oldStatus) {
+                // Roll subtask completion up and unblock dependents, as a
+                // single update would
+                if (task.parent_task_id) {
+                    await SubtaskService.handleSubtaskStatusChange(
+                        task,
+                        oldStatus,
+                        req.currentUser.id,
+                        cascadedEvents
+                    );
+                }
+                await TaskDependencyService.handleStatusChange(
+                    task,
+                    oldStatus,
+                    req.currentUser.id,
+                    cascadedEvents
+                );
+            }
 
-            await Task.update(
-                { recurring_parent_id: null },
-                { where: { recurring_parent_id: req.params.id } }
+            const updatedTask = await serializeTask(
+                await Task.findByPk(task.id, {
+                    include: [
+                        {
+                            model: Tag,
+                            attributes: ['id', 'name'],
+                            through: { attributes: [] },
+                        },
+                        {
+                            model: Project,
+                            attributes: ['name'],
+                            required: false,
+                        },
+                    ],
+                }),
+                req.currentUser.timezone
             );
-
-            // Delete the task itself
-            await task.destroy({ force: true });
-        } finally {
-            // Re-enable foreign key constraints
-            await sequelize.query('PRAGMA foreign_keys = ON');
+            await changeEvents.publish(
+                req.currentUser.id,
+                getTaskWebhookEvent(oldStatus, task.status),
+                { task: updatedTask }
+            );
+            updatedTasks.push(updatedTask);
         }
+        await UndoService.attach(undoToken, cascadedEvents);
 
-        res.json({ message: 'Task successfully deleted' });
+        res.json({
+            tasks: updatedTasks,
+            deleted_task_ids: [],
+            undo_token: undoToken,
+        });
     } catch (error) {
+        console.error('Error updating tasks in bulk:', error);
         res.status(400).json({
-            error: 'There was a problem deleting the task.',
+            error: 'There was a problem updating the tasks.',
+            details: error.errors
+                ? error.errors.map((e) => e.message)
+                : [error.message],
         });
     }
 });
@@ -1315,8 +1811,9 @@ router.patch('/task/:id/toggle-today', async (req, res) => {
         await task.update({ today: newTodayValue });
 
         // Log the change
+        let undoToken = null;
         try {
-            await TaskEventService.logEvent({
+            const event = await TaskEventService.logEvent({
                 taskId: task.id,
                 userId: req.currentUser.id,
                 eventType: 'today_changed',
@@ -1325,18 +1822,643 @@ router.patch('/task/:id/toggle-today', async (req, res) => {
                 newValue: newTodayValue,
                 metadata: { source: 'web', action: 'toggle_today' },
             });
+            undoToken = await UndoService.record([event]);
         } catch (eventError) {
             console.error('Error logging today toggle event:', eventError);
             // Don't fail the request if event logging fails
         }
 
         // Use serializeTask helper to ensure consistent response format including tags
-        const serializedTask = await serializeTask(task);
-        res.json(serializedTask);
+        const serializedTask = await serializeTask(
+            task,
+            req.currentUser.timezone
+        );
+
+        await changeEvents.publish(req.currentUser.id, 'task.updated', {
+            task: serializedTask,
+        });
+
+        res.json({ ...serializedTask, undo_token: undoToken });
     } catch (error) {
         console.error('Error toggling task today flag:', error);
         res.status(500).json({ error: 'Failed to update task today flag' });
     }
 });
 
+// PATCH /api/task/:id/defer
+router.patch('/task/:id/defer', async (req, res) => {
+    try {
+        const task = await Task.findOne({
+            where: { id: req.params.id, user_id: req.currentUser.id },
+            include: [
+                {
+                    model: Tag,
+                    attributes: ['id', 'name'],
+                    through: { attributes: [] },
+                },
+                { model: Project, attributes: ['name'], required: false },
+            ],
+        });
+
+        if (!task) {
+            return res.status(404).json({ error: 'Task not found.' });
+        }
+
+        const deferUntil = TaskDeferralService.parseDeferUntil(
+            req.body.defer_until,
+            req.currentUser.timezone
+        );
+        if (deferUntil === undefined) {
+            return res.status(400).json({
+                error: 'Defer date must be a YYYY-MM-DD date or an ISO timestamp.',
+            });
+        }
+
+        const event = await TaskDeferralService.defer(
+            task,
+            deferUntil,
+            req.currentUser.id,
+            { source: 'web' }
+        );
+        const undoToken = await UndoService.record([event]);
+
+        const serializedTask = await serializeTask(
+            task,
+            req.currentUser.timezone
+        );
+
+        await changeEvents.publish(req.currentUser.id, 'task.updated', {
+            task: serializedTask,
+        });
+
+        res.json({ ...serializedTask, undo_token: undoToken });
+    } catch (error) {
+        console.error('Error deferring task:', error);
+        res.status(500).json({ error: 'Failed to defer task' });
+    }
+});
+
+// PATCH /api/task/:id/position
+router.patch('/task/:id/position', async (req, res) => {
+    try {
+        const { context, after_id, before_id } = req.body;
+
+        if (!TaskOrderService.CONTEXTS.includes(context)) {
+            return res.status(400).json({ error: 'Invalid context.' });
+        }
+
+        const task = await Task.findOne({
+            where: { id: req.params.id, user_id: req.currentUser.id },
+            include: [
+                {
+                    model: Tag,
+                    attributes: ['id', 'name'],
+                    through: { attributes: [] },
+                },
+                { model: Project, attributes: ['name'], required: false },
+            ],
+        });
+
+        if (!task) {
+            return res.status(404).json({ error: 'Task not found.' });
+        }
+
+        if (context === 'today' && !task.today) {
+            return res
+                .status(400)
+                .json({ error: 'Task is not in the today plan.' });
+        }
+
+        // Neighbours have to share the task's list
+        const tasks = await TaskOrderService.getContextTasks(task, context);
+        const neighborIds = [after_id, before_id].filter(
+            (id) => id !== null && id !== undefined
+        );
+        if (
+            neighborIds.some(
+                (id) =>
+                    id === task.id || !tasks.some((other) => other.id === id)
+            )
+        ) {
+            return res.status(400).json({ error: 'Invalid neighbor task.' });
+        }
+
+        await TaskOrderService.move(
+            task,
+            context,
+            tasks,
+            after_id || null,
+            before_id || null
+        );
+
+        const serializedTask = await serializeTask(
+            task,
+            req.currentUser.timezone
+        );
+
+        await changeEvents.publish(req.currentUser.id, 'task.updated', {
+            task: serializedTask,
+        });
+
+        res.json(serializedTask);
+    } catch (error) {
+        console.error('Error moving task:', error);
+        res.status(500).json({ error: 'Failed to move task' });
+    }
+});
+
+// Helper function to reload and serialize a parent task after subtask changes
+async function serializeParentTask(parentTaskId, timezone) {
+    const parentTask = await Task.findByPk(parentTaskId, {
+        include: [
+            {
+                model: Tag,
+                attributes: ['id', 'name'],
+                through: { attributes: [] },
+            },
+            { model: Project, attributes: ['name'], required: false },
+        ],
+    });
+
+    return parentTask ? await serializeTask(parentTask, timezone) : null;
+}
+
+// GET /api/task/:id/subtasks
+router.get('/task/:id/subtasks', async (req, res) => {
+    try {
+        const parentTask = await Task.findOne({
+            where: { id: req.params.id, user_id: req.currentUser.id },
+        });
+
+        if (!parentTask) {
+            return res.status(404).json({ error: 'Task not found.' });
+        }
+
+        const subtasks = await Task.findAll({
+            where: {
+                parent_task_id: parentTask.id,
+                user_id: req.currentUser.id,
+            },
+            include: [
+                {
+                    model: Tag,
+                    attributes: ['id', 'name'],
+                    through: { attributes: [] },
+                },
+            ],
+            order: [
+                ['created_at', 'ASC'],
+                ['id', 'ASC'],
+            ],
+        });
+
+        res.json({
+            subtasks: await Promise.all(
+                subtasks.map((subtask) =>
+                    serializeTask(subtask, req.currentUser.timezone)
+                )
+            ),
+            subtask_progress: await SubtaskService.getSubtaskProgress(
+                parentTask.id
+            ),
+        });
+    } catch (error) {
+        console.error('Error fetching subtasks:', error);
+        res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+// POST /api/task/:id/subtasks
+router.post('/task/:id/subtasks', async (req, res) => {
+    try {
+        const { name, priority, due_date, note } = req.body;
+
+        if (!name || name.trim() === '') {
+            return res.status(400).json({ error: 'Subtask name is required.' });
+        }
+
+        const parentTask = await Task.findOne({
+            where: { id: req.params.id, user_id: req.currentUser.id },
+        });
+
+        if (!parentTask) {
+            return res.status(404).json({ error: 'Task not found.' });
+        }
+
+        if (parentTask.parent_task_id) {
+            return res
+                .status(400)
+                .json({ error: 'Subtasks cannot have their own subtasks.' });
+        }
+
+        const subtask = await Task.create({
+            name: name.trim(),
+            priority:
+                priority !== undefined
+                    ? typeof priority === 'string'
+                        ? Task.getPriorityValue(priority)
+                        : priority
+                    : Task.PRIORITY.LOW,
+            due_date: due_date || null,
+            note: note || null,
+            status: Task.STATUS.NOT_STARTED,
+            user_id: req.currentUser.id,
+            project_id: parentTask.project_id,
+            parent_task_id: parentTask.id,
+        });
+
+        let undoToken = null;
+        try {
+            const event = await TaskEventService.logTaskCreated(
+                subtask.id,
+                req.currentUser.id,
+                {
+                    name: subtask.name,
+                    status: subtask.status,
+                    priority: subtask.priority,
+                    due_date: subtask.due_date,
+                    project_id: subtask.project_id,
+                },
+                { source: 'web' }
+            );
+            undoToken = await UndoService.record([event]);
+        } catch (eventError) {
+            console.error('Error logging subtask creation event:', eventError);
+            // Don't fail the request if event logging fails
+        }
+        await SubtaskService.logSubtaskEvent(
+            'subtask_added',
+            parentTask,
+            subtask,
+            req.currentUser.id
+        );
+
+        const createdSubtask = await serializeTask(
+            subtask,
+            req.currentUser.timezone
+        );
+        await changeEvents.publish(req.currentUser.id, 'task.created', {
+            task: createdSubtask,
+        });
+
+        res.status(201).json({
+            subtask: createdSubtask,
+            parent_task: await serializeParentTask(
+                parentTask.id,
+                req.currentUser.timezone
+            ),
+            undo_token: undoToken,
+        });
+    } catch (error) {
+        console.error('Error creating subtask:', error);
+        res.status(400).json({
+            error: 'There was a problem creating the subtask.',
+            details: error.errors
+                ? error.errors.map((e) => e.message)
+                : [error.message],
+        });
+    }
+});
+
+// PATCH /api/task/:id/subtasks/:subtaskId
+router.patch('/task/:id/subtasks/:subtaskId', async (req, res) => {
+    try {
+        const subtask = await Task.findOne({
+            where: {
+                id: req.params.subtaskId,
+                parent_task_id: req.params.id,
+                user_id: req.currentUser.id,
+            },
+        });
+
+        if (!subtask) {
+            return res.status(404).json({ error: 'Subtask not found.' });
+        }
+
+        const { name, status, priority, due_date, note } = req.body;
+
+        if (name !== undefined && (!name || name.trim() === '')) {
+            return res.status(400).json({ error: 'Subtask name is required.' });
+        }
+
+        const oldValues = {
+            name: subtask.name,
+            status: subtask.status,
+            priority: subtask.priority,
+            note: subtask.note,
+        };
+
+        const updateData = {};
+        if (name !== undefined) updateData.name = name.trim();
+        if (note !== undefined) updateData.note = note;
+        if (due_date !== undefined) updateData.due_date = due_date || null;
+        if (priority !== undefined) {
+            updateData.priority =
+                typeof priority === 'string'
+                    ? Task.getPriorityValue(priority)
+                    : priority;
+        }
+        if (status !== undefined) {
+            updateData.status =
+                typeof status === 'string'
+                    ? Task.getStatusValue(status)
+                    : status;
+
+            if (
+                SubtaskService.isDone(updateData.status) &&
+                !SubtaskService.isDone(oldValues.status)
+            ) {
+                updateData.completed_at = new Date();
+            } else if (
+                !SubtaskService.isDone(updateData.status) &&
+                SubtaskService.isDone(oldValues.status)
+            ) {
+                updateData.completed_at = null;
+            }
+        }
+
+        await subtask.update(updateData);
+
+        let undoToken = null;
+        try {
+            const changes = {};
+            ['name', 'status', 'priority', 'note'].forEach((field) => {
+                if (
+                    updateData[field] !== undefined &&
+                    updateData[field] !== oldValues[field]
+                ) {
+                    changes[field] = {
+                        oldValue: oldValues[field],
+                        newValue: updateData[field],
+                    };
+                }
+            });
+
+            if (Object.keys(changes).length > 0) {
+                undoToken = await UndoService.record(
+                    await TaskEventService.logTaskUpdate(
+                        subtask.id,
+                        req.currentUser.id,
+                        changes,
+                        { source: 'web' }
+                    )
+                );
+            }
+        } catch (eventError) {
+            console.error('Error logging subtask update events:', eventError);
+            // Don't fail the request if event logging fails
+        }
+
+        const cascadedEvents = [];
+        await SubtaskService.handleSubtaskStatusChange(
+            subtask,
+            oldValues.status,
+            req.currentUser.id,
+            cascadedEvents
+        );
+        await TaskDependencyService.handleStatusChange(
+            subtask,
+            oldValues.status,
+            req.currentUser.id,
+            cascadedEvents
+        );
+        await UndoService.attach(undoToken, cascadedEvents);
+
+        const updatedSubtask = await serializeTask(
+            subtask,
+            req.currentUser.timezone
+        );
+        await changeEvents.publish(
+            req.currentUser.id,
+            getTaskWebhookEvent(oldValues.status, subtask.status),
+            { task: updatedSubtask }
+        );
+
+        res.json({
+            subtask: updatedSubtask,
+            parent_task: await serializeParentTask(
+                subtask.parent_task_id,
+                req.currentUser.timezone
+            ),
+            undo_token: undoToken,
+        });
+    } catch (error) {
+        console.error('Error updating subtask:', error);
+        res.status(400).json({
+            error: 'There was a problem updating the subtask.',
+            details: error.errors
+                ? error.errors.map((e) => e.message)
+                : [error.message],
+        });
+    }
+});
+
+// DELETE /api/task/:id/subtasks/:subtaskId
+router.delete('/task/:id/subtasks/:subtaskId', async (req, res) => {
+    try {
+        const subtask = await Task.findOne({
+            where: {
+                id: req.params.subtaskId,
+                parent_task_id: req.params.id,
+                user_id: req.currentUser.id,
+            },
+        });
+
+        if (!subtask) {
+            return res.status(404).json({ error: 'Subtask not found.' });
+        }
+
+        const parentTask = await Task.findByPk(subtask.parent_task_id);
+
+        const undoToken = await UndoService.record(
+            await TaskDeletionService.trashTask(subtask, req.currentUser.id)
+        );
+
+        await SubtaskService.logSubtaskEvent(
+            'subtask_removed',
+            parentTask,
+            subtask,
+            req.currentUser.id
+        );
+
+        await changeEvents.publish(req.currentUser.id, 'task.deleted', {
+            task: { id: subtask.id, uuid: subtask.uuid, name: subtask.name },
+        });
+
+        res.json({
+            message: 'Subtask successfully deleted',
+            parent_task: await serializeParentTask(
+                parentTask.id,
+                req.currentUser.timezone
+            ),
+            undo_token: undoToken,
+        });
+    } catch (error) {
+        console.error('Error deleting subtask:', error);
+        res.status(400).json({
+            error: 'There was a problem deleting the subtask.',
+        });
+    }
+});
+
+// GET /api/task/:id/dependencies
+router.get('/task/:id/dependencies', async (req, res) => {
+    try {
+        const task = await Task.findOne({
+            where: { id: req.params.id, user_id: req.currentUser.id },
+        });
+
+        if (!task) {
+            return res.status(404).json({ error: 'Task not found.' });
+        }
+
+        const dependencies = await TaskDependencyService.getDependencies(
+            task.id
+        );
+        const openBlockers = await TaskDependencyService.getOpenBlockers(
+            task.id
+        );
+
+        res.json({
+            ...dependencies,
+            blocked: openBlockers.length > 0,
+        });
+    } catch (error) {
+        console.error('Error fetching task dependencies:', error);
+        res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+// POST /api/task/:id/dependencies
+router.post('/task/:id/dependencies', async (req, res) => {
+    try {
+        const task = await Task.findOne({
+            where: { id: req.params.id, user_id: req.currentUser.id },
+        });
+
+        if (!task) {
+            return res.status(404).json({ error: 'Task not found.' });
+        }
+
+        const dependsOnTaskId = parseInt(req.body.depends_on_task_id, 10);
+        if (!dependsOnTaskId) {
+            return res
+                .status(400)
+                .json({ error: 'Dependency task is required.' });
+        }
+
+        if (dependsOnTaskId === task.id) {
+            return res
+                .status(400)
+                .json({ error: 'A task cannot depend on itself.' });
+        }
+
+        const blocker = await Task.findOne({
+            where: { id: dependsOnTaskId, user_id: req.currentUser.id },
+        });
+
+        if (!blocker) {
+            return res
+                .status(404)
+                .json({ error: 'Dependency task not found.' });
+        }
+
+        if (await TaskDependencyService.dependencyExists(task.id, blocker.id)) {
+            return res
+                .status(400)
+                .json({ error: 'This dependency already exists.' });
+        }
+
+        if (
+            await TaskDependencyService.wouldCreateCycle(
+                task.id,
+                blocker.id,
+                req.currentUser.id
+            )
+        ) {
+            return res.status(400).json({
+                error: 'This dependency would create a cycle.',
+            });
+        }
+
+        await TaskDependencyService.addDependency(task.id, blocker.id);
+        await TaskDependencyService.logDependencyEvent(
+            'dependency_added',
+            task,
+            blocker,
+            req.currentUser.id
+        );
+
+        const dependencies = await TaskDependencyService.getDependencies(
+            task.id
+        );
+        const openBlockers = await TaskDependencyService.getOpenBlockers(
+            task.id
+        );
+
+        res.status(201).json({
+            ...dependencies,
+            blocked: openBlockers.length > 0,
+        });
+    } catch (error) {
+        console.error('Error adding task dependency:', error);
+        res.status(400).json({
+            error: 'There was a problem adding the dependency.',
+            details: error.errors
+                ? error.errors.map((e) => e.message)
+                : [error.message],
+        });
+    }
+});
+
+// DELETE /api/task/:id/dependencies/:dependsOnTaskId
+router.delete('/task/:id/dependencies/:dependsOnTaskId', async (req, res) => {
+    try {
+        const task = await Task.findOne({
+            where: { id: req.params.id, user_id: req.currentUser.id },
+        });
+
+        if (!task) {
+            return res.status(404).json({ error: 'Task not found.' });
+        }
+
+        const dependsOnTaskId = parseInt(req.params.dependsOnTaskId, 10);
+        if (
+            !(await TaskDependencyService.dependencyExists(
+                task.id,
+                dependsOnTaskId
+            ))
+        ) {
+            return res.status(404).json({ error: 'Dependency not found.' });
+        }
+
+        const blocker = await Task.findByPk(dependsOnTaskId);
+
+        await TaskDependencyService.removeDependency(task.id, dependsOnTaskId);
+        await TaskDependencyService.logDependencyEvent(
+            'dependency_removed',
+            task,
+            blocker,
+            req.currentUser.id
+        );
+
+        const dependencies = await TaskDependencyService.getDependencies(
+            task.id
+        );
+        const openBlockers = await TaskDependencyService.getOpenBlockers(
+            task.id
+        );
+
+        res.json({
+            ...dependencies,
+            blocked: openBlockers.length > 0,
+        });
+    } catch (error) {
+        console.error('Error removing task dependency:', error);
+        res.status(400).json({
+            error: 'There was a problem removing the dependency.',
+        });
+    }
+});
+
 module.exports = router;
@@ -0,0 +1,99 @@
+const express = require('express');
+const trashService = require('../services/trashService');
+const changeEvents = require('../services/changeEvents');
+const router = express.Router();
+
+// Change event prefixes, as used when the records are deleted
+const EVENT_PREFIXES = {
+    task: 'task',
+    project: 'project',
+    note: 'note',
+    area: 'area',
+    inbox_item: 'inbox',
+};
+
+// Load the trashed record named in the URL into req.trashedRecord
+const findTrashed = async (req, res, next) => {
+    if (!trashService.TRASH_TYPES.includes(req.params.type)) {
+        return res.status(404).json({ error: 'Unknown item type.' });
+    }
+
+    try {
+        req.trashedRecord = await trashService.findTrashed(
+            req.currentUser.id,
+            req.params.type,
+            req.params.id
+        );
+    } catch (error) {
+        console.error('Error fetching trashed item:', error);
+        return res.status(500).json({ error: 'Internal server error' });
+    }
+
+    if (!req.trashedRecord) {
+        return res.status(404).json({ error: 'Item not found in trash.' });
+    }
+    next();
+};
+
+// GET /api/trash
+router.get('/trash', async (req, res) => {
+    try {
+        res.json(await trashService.listTrash(req.currentUser.id));
+    } catch (error) {
+        console.error('Error fetching trash:', error);
+        res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+// POST /api/trash/:type/:id/restore
+router.post('/trash/:type/:id/restore', findTrashed, async (req, res) => {
+    const { type } = req.params;
+    try {
+        const record = await trashService.restore(
+            req.currentUser.id,
+            type,
+            req.trashedRecord
+        );
+
+        await changeEvents.publish(
+            req.currentUser.id,
+            `${EVENT_PREFIXES[type]}.restored`,
+            { [type]: record.toJSON() }
+        );
+
+        res.json({ type, item: record });
+    } catch (error) {
+        console.error('Error restoring item:', error);
+        res.status(400).json({
+            error: 'There was a problem restoring the item.',
+        });
+    }
+});
+
+// DELETE /api/trash/:type/:id
+router.delete('/trash/:type/:id', findTrashed, async (req, res) => {
+    try {
+        await trashService.purge(req.params.type, req.trashedRecord);
+        res.json({ message: 'Item permanently deleted' });
+    } catch (error) {
+        console.error('Error purging item:', error);
+        res.status(400).json({
+            error: 'There was a problem deleting the item.',
+        });
+    }
+});
+
+// DELETE /api/trash
+router.delete('/trash', async (req, res) => {
+    try {
+        const purged = await trashService.emptyTrash(req.currentUser.id);
+        res.json({ purged });
+    } catch (error) {
+        console.error('Error emptying trash:', error);
+        res.status(400).json({
+            error: 'There was a problem emptying the trash.',
+        });
+    }
+});
+
+module.exports = router;
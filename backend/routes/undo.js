@@ -0,0 +1,83 @@
+const express = require('express');
+const UndoService = require('../services/undoService');
+const changeEvents = require('../services/changeEvents');
+const router = express.Router();
+
+const formatTask = (task) => ({
+    ...task.toJSON(),
+    tags: task.Tags ? task.Tags.map((tag) => tag.toJSON()) : undefined,
+    due_date: task.due_date ? task.due_date.toISOString().split('T')[0] : null,
+});
+
+// POST /api/undo/:token
+router.post('/undo/:token', async (req, res) => {
+    try {
+        const events = await UndoService.findEvents(
+            req.currentUser.id,
+            req.params.token
+        );
+        const trashed = await UndoService.findTrashed(
+            req.currentUser.id,
+            req.params.token
+        );
+        if (events.length === 0 && trashed.length === 0) {
+            return res.status(404).json({ error: 'Nothing to undo.' });
+        }
+
+        if (await UndoService.hasLaterChanges(events)) {
+            return res.status(409).json({
+                error: 'The task has changed since, so this can no longer be undone.',
+            });
+        }
+
+        const restoredRecords = await UndoService.restoreTrashed(
+            trashed,
+            req.currentUser.id
+        );
+        for (const { type, record } of restoredRecords) {
+            await changeEvents.publish(req.currentUser.id, `${type}.restored`, {
+                [type]: record.toJSON(),
+            });
+        }
+
+        const { updated, restored, deleted } = await UndoService.undo(
+            events,
+            req.currentUser.id
+        );
+
+        const tasks = [...restored, ...updated].map(formatTask);
+        for (const task of tasks) {
+            await changeEvents.publish(
+                req.currentUser.id,
+                restored.some((record) => record.id === task.id)
+                    ? 'task.restored'
+                    : 'task.updated',
+                { task }
+            );
+        }
+        for (const task of deleted) {
+            await changeEvents.publish(req.currentUser.id, 'task.deleted', {
+                task: { id: task.id, uuid: task.uuid, name: task.name },
+            });
+        }
+
+        const recordsOf = (type) =>
+            restoredRecords
+                .filter((restoredRecord) => restoredRecord.type === type)
+                .map(({ record }) => record);
+
+        res.json({
+            tasks,
+            deleted_task_ids: deleted.map((task) => task.id),
+            projects: recordsOf('project'),
+            notes: recordsOf('note'),
+        });
+    } catch (error) {
+        console.error('Error undoing change:', error);
+        res.status(400).json({
+            error: 'There was a problem undoing the change.',
+        });
+    }
+});
+
+module.exports = router;
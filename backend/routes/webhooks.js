@@ -0,0 +1,222 @@
+const express = require('express');
+const { Webhook, WebhookDelivery } = require('../models');
+const webhookService = require('../services/webhookService');
+const router = express.Router();
+
+const DELIVERY_LOG_LIMIT = 50;
+
+const isValidUrl = (value) => {
+    try {
+        const url = new URL(value);
+        return url.protocol === 'http:' || url.protocol === 'https:';
+    } catch {
+        return false;
+    }
+};
+
+// Returns an error message for invalid attributes, null otherwise. Only
+// attributes present in the body are checked so it also serves PATCH.
+const validateWebhook = ({ name, url, events }) => {
+    if (name !== undefined && (!name || !String(name).trim())) {
+        return 'Webhook name is required.';
+    }
+    if (url !== undefined && !isValidUrl(url)) {
+        return 'Webhook URL must be a valid http or https URL.';
+    }
+    if (events !== undefined) {
+        if (!Array.isArray(events) || events.length === 0) {
+            return 'Select at least one event.';
+        }
+        const unknown = events.filter(
+            (event) => !webhookService.WEBHOOK_EVENTS.includes(event)
+        );
+        if (unknown.length > 0) {
+            return `Unknown events: ${unknown.join(', ')}`;
+        }
+    }
+    return null;
+};
+
+const findWebhook = (req) =>
+    Webhook.findOne({
+        where: { id: req.params.id, user_id: req.currentUser.id },
+    });
+
+// GET /api/webhooks
+router.get('/webhooks', async (req, res) => {
+    try {
+        const webhooks = await Webhook.findAll({
+            where: { user_id: req.currentUser.id },
+            order: [['name', 'ASC']],
+        });
+
+        res.json(webhooks.map(webhookService.serialize));
+    } catch (error) {
+        console.error('Error fetching webhooks:', error);
+        res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+// POST /api/webhooks
+router.post('/webhooks', async (req, res) => {
+    try {
+        const { name, url, secret, events, active } = req.body;
+
+        const invalid = validateWebhook({
+            name: name || '',
+            url: url || '',
+            events: events || [],
+        });
+        if (invalid) {
+            return res.status(400).json({ error: invalid });
+        }
+
+        const webhook = await Webhook.create({
+            name: name.trim(),
+            url: url.trim(),
+            secret:
+                secret && secret.trim()
+                    ? secret.trim()
+                    : webhookService.generateSecret(),
+            events,
+            active: active !== undefined ? !!active : true,
+            user_id: req.currentUser.id,
+        });
+
+        // The secret is only ever part of the create and rotate responses
+        res.status(201).json({
+            ...webhookService.serialize(webhook),
+            secret: webhook.secret,
+        });
+    } catch (error) {
+        console.error('Error creating webhook:', error);
+        res.status(400).json({
+            error: 'There was a problem creating the webhook.',
+            details: error.errors
+                ? error.errors.map((e) => e.message)
+                : [error.message],
+        });
+    }
+});
+
+// PATCH /api/webhooks/:id
+router.patch('/webhooks/:id', async (req, res) => {
+    try {
+        const webhook = await findWebhook(req);
+
+        if (!webhook) {
+            return res.status(404).json({ error: 'Webhook not found.' });
+        }
+
+        const { name, url, secret, events, active } = req.body;
+
+        const invalid = validateWebhook({ name, url, events });
+        if (invalid) {
+            return res.status(400).json({ error: invalid });
+        }
+
+        const updateData = {};
+        if (name !== undefined) updateData.name = name.trim();
+        if (url !== undefined) updateData.url = url.trim();
+        if (secret !== undefined && secret && secret.trim()) {
+            updateData.secret = secret.trim();
+        }
+        if (events !== undefined) updateData.events = events;
+        if (active !== undefined) updateData.active = !!active;
+
+        await webhook.update(updateData);
+        res.json(webhookService.serialize(webhook));
+    } catch (error) {
+        console.error('Error updating webhook:', error);
+        res.status(400).json({
+            error: 'There was a problem updating the webhook.',
+            details: error.errors
+                ? error.errors.map((e) => e.message)
+                : [error.message],
+        });
+    }
+});
+
+// POST /api/webhooks/:id/secret
+router.post('/webhooks/:id/secret', async (req, res) => {
+    try {
+        const webhook = await findWebhook(req);
+
+        if (!webhook) {
+            return res.status(404).json({ error: 'Webhook not found.' });
+        }
+
+        await webhook.update({ secret: webhookService.generateSecret() });
+        res.json({
+            ...webhookService.serialize(webhook),
+            secret: webhook.secret,
+        });
+    } catch (error) {
+        console.error('Error rotating webhook secret:', error);
+        res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+// DELETE /api/webhooks/:id
+router.delete('/webhooks/:id', async (req, res) => {
+    try {
+        const webhook = await findWebhook(req);
+
+        if (!webhook) {
+            return res.status(404).json({ error: 'Webhook not found.' });
+        }
+
+        await WebhookDelivery.destroy({ where: { webhook_id: webhook.id } });
+        await webhook.destroy();
+        res.status(204).send();
+    } catch (error) {
+        console.error('Error deleting webhook:', error);
+        res.status(400).json({
+            error: 'There was a problem deleting the webhook.',
+        });
+    }
+});
+
+// GET /api/webhooks/:id/deliveries
+router.get('/webhooks/:id/deliveries', async (req, res) => {
+    try {
+        const webhook = await findWebhook(req);
+
+        if (!webhook) {
+            return res.status(404).json({ error: 'Webhook not found.' });
+        }
+
+        const deliveries = await WebhookDelivery.findAll({
+            where: { webhook_id: webhook.id },
+            order: [
+                ['created_at', 'DESC'],
+                ['id', 'DESC'],
+            ],
+            limit: DELIVERY_LOG_LIMIT,
+        });
+
+        res.json(deliveries);
+    } catch (error) {
+        console.error('Error fetching webhook deliveries:', error);
+        res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+// POST /api/webhooks/:id/test
+router.post('/webhooks/:id/test', async (req, res) => {
+    try {
+        const webhook = await findWebhook(req);
+
+        if (!webhook) {
+            return res.status(404).json({ error: 'Webhook not found.' });
+        }
+
+        const delivery = await webhookService.sendTest(webhook);
+        res.json(delivery);
+    } catch (error) {
+        console.error('Error sending test webhook:', error);
+        res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+module.exports = router;
@@ -0,0 +1,48 @@
+#!/usr/bin/env node
+
+/**
+ * Notes Export Script
+ * Writes a user's notes as a zipped vault of markdown files
+ * Usage: node notes-export.js <email> [file]
+ */
+
+require('dotenv').config();
+const fs = require('fs');
+const path = require('path');
+const { User } = require('../models');
+const notesVaultService = require('../services/notesVaultService');
+
+async function exportNotes() {
+    const [email, file] = process.argv.slice(2);
+
+    if (!email) {
+        console.error('❌ Usage: npm run notes:export <email> [file]');
+        console.error(
+            'Example: npm run notes:export admin@example.com notes.zip'
+        );
+        process.exit(1);
+    }
+
+    try {
+        const user = await User.findOne({ where: { email } });
+        if (!user) {
+            console.error(`❌ User with email ${email} not found`);
+            process.exit(1);
+        }
+
+        const zip = await notesVaultService.exportNotesVault(user);
+        const outputPath = path.resolve(file || `tududi-notes-${user.id}.zip`);
+        fs.writeFileSync(outputPath, zip);
+
+        console.log('✅ Notes exported successfully');
+        console.log(`📧 Email: ${user.email}`);
+        console.log(`📁 File: ${outputPath}`);
+
+        process.exit(0);
+    } catch (error) {
+        console.error('❌ Error exporting notes:', error.message);
+        process.exit(1);
+    }
+}
+
+exportNotes();
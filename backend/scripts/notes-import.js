@@ -0,0 +1,95 @@
+#!/usr/bin/env node
+
+/**
+ * Notes Import Script
+ * Reads a vault folder or ZIP of markdown notes into a user's account
+ * Usage: node notes-import.js <email> <folder|file> [--dry-run]
+ */
+
+require('dotenv').config();
+const fs = require('fs');
+const path = require('path');
+const { User } = require('../models');
+const notesVaultService = require('../services/notesVaultService');
+
+// Every file below the folder, named by its path relative to it
+function readFolder(folder, prefix = '') {
+    return fs
+        .readdirSync(path.join(folder, prefix), { withFileTypes: true })
+        .flatMap((entry) => {
+            const name = prefix ? `${prefix}/${entry.name}` : entry.name;
+            if (entry.isDirectory()) return readFolder(folder, name);
+            const filePath = path.join(folder, name);
+            return [
+                {
+                    name,
+                    content: fs.readFileSync(filePath),
+                    date: fs.statSync(filePath).mtime,
+                },
+            ];
+        });
+}
+
+async function importNotes() {
+    const args = process.argv.slice(2);
+    const dryRun = args.includes('--dry-run');
+    const [email, source] = args.filter((arg) => arg !== '--dry-run');
+
+    if (!email || !source) {
+        console.error(
+            '❌ Usage: npm run notes:import <email> <folder|file> [--dry-run]'
+        );
+        console.error(
+            'Example: npm run notes:import admin@example.com ~/Vault --dry-run'
+        );
+        process.exit(1);
+    }
+
+    let uploads;
+    try {
+        uploads = fs.statSync(source).isDirectory()
+            ? readFolder(source)
+            : [
+                  {
+                      name: path.basename(source),
+                      content: fs.readFileSync(source),
+                      date: fs.statSync(source).mtime,
+                  },
+              ];
+    } catch (error) {
+        console.error(`❌ Could not read ${source}:`, error.message);
+        process.exit(1);
+    }
+
+    try {
+        const user = await User.findOne({ where: { email } });
+        if (!user) {
+            console.error(`❌ User with email ${email} not found`);
+            process.exit(1);
+        }
+
+        const report = await notesVaultService.importNotesVault(user, uploads, {
+            dryRun,
+        });
+
+        console.log(
+            dryRun
+                ? '✅ Dry run complete, nothing was changed'
+                : '✅ Notes imported successfully'
+        );
+        console.log(`📧 Email: ${user.email}`);
+        console.log(`   notes created: ${report.created.notes}`);
+        console.log(`   notes updated: ${report.updated.notes}`);
+        console.log(`   notes skipped: ${report.skipped.notes}`);
+        console.log(`   projects created: ${report.created.projects}`);
+        console.log(`   tags created: ${report.created.tags}`);
+        report.warnings.forEach((warning) => console.log(`⚠️  ${warning}`));
+
+        process.exit(0);
+    } catch (error) {
+        console.error('❌ Error importing notes:', error.message);
+        process.exit(1);
+    }
+}
+
+importNotes();
@@ -0,0 +1,54 @@
+#!/usr/bin/env node
+
+/**
+ * User Export Script
+ * Writes a JSON backup of a user's data
+ * Usage: node user-export.js <email> [file]
+ */
+
+require('dotenv').config();
+const fs = require('fs');
+const path = require('path');
+const { User } = require('../models');
+const backupService = require('../services/backupService');
+
+async function exportUser() {
+    const [email, file] = process.argv.slice(2);
+
+    if (!email) {
+        console.error('❌ Usage: npm run user:export <email> [file]');
+        console.error(
+            'Example: npm run user:export admin@example.com backup.json'
+        );
+        process.exit(1);
+    }
+
+    try {
+        const user = await User.findOne({ where: { email } });
+        if (!user) {
+            console.error(`❌ User with email ${email} not found`);
+            process.exit(1);
+        }
+
+        const archive = await backupService.exportUserData(user);
+        const outputPath = path.resolve(
+            file ||
+                `tududi-export-${user.id}-${archive.exported_at.slice(0, 10)}.json`
+        );
+        fs.writeFileSync(outputPath, JSON.stringify(archive, null, 2));
+
+        console.log('✅ User data exported successfully');
+        console.log(`📧 Email: ${user.email}`);
+        console.log(`📁 File: ${outputPath}`);
+        console.log(
+            `📦 ${archive.projects.length} projects, ${archive.tasks.length} tasks, ${archive.notes.length} notes, ${archive.inbox_items.length} inbox items`
+        );
+
+        process.exit(0);
+    } catch (error) {
+        console.error('❌ Error exporting user data:', error.message);
+        process.exit(1);
+    }
+}
+
+exportUser();
@@ -0,0 +1,72 @@
+#!/usr/bin/env node
+
+/**
+ * User Import Script
+ * Restores a JSON backup into an existing user's account
+ * Usage: node user-import.js <email> <file> [--dry-run]
+ */
+
+require('dotenv').config();
+const fs = require('fs');
+const { User } = require('../models');
+const backupService = require('../services/backupService');
+
+async function importUser() {
+    const args = process.argv.slice(2);
+    const dryRun = args.includes('--dry-run');
+    const [email, file] = args.filter((arg) => arg !== '--dry-run');
+
+    if (!email || !file) {
+        console.error(
+            '❌ Usage: npm run user:import <email> <file> [--dry-run]'
+        );
+        console.error(
+            'Example: npm run user:import admin@example.com backup.json --dry-run'
+        );
+        process.exit(1);
+    }
+
+    let archive;
+    try {
+        archive = JSON.parse(fs.readFileSync(file, 'utf8'));
+    } catch (error) {
+        console.error(`❌ Could not read ${file}:`, error.message);
+        process.exit(1);
+    }
+
+    const errors = backupService.validateArchive(archive);
+    if (errors.length > 0) {
+        errors.forEach((error) => console.error(`❌ ${error}`));
+        process.exit(1);
+    }
+
+    try {
+        const user = await User.findOne({ where: { email } });
+        if (!user) {
+            console.error(`❌ User with email ${email} not found`);
+            process.exit(1);
+        }
+
+        const report = await backupService.importUserData(user, archive, {
+            dryRun,
+        });
+
+        console.log(
+            dryRun
+                ? '✅ Dry run complete, nothing was changed'
+                : '✅ User data imported successfully'
+        );
+        console.log(`📧 Email: ${user.email}`);
+        Object.entries(report.created).forEach(([collection, count]) => {
+            console.log(`   ${collection}: ${count}`);
+        });
+        report.warnings.forEach((warning) => console.log(`⚠️  ${warning}`));
+
+        process.exit(0);
+    } catch (error) {
+        console.error('❌ Error importing user data:', error.message);
+        process.exit(1);
+    }
+}
+
+importUser();
@@ -0,0 +1,98 @@
+const crypto = require('crypto');
+const { ApiToken, User } = require('../models');
+
+const TOKEN_PREFIX = 'tdd_';
+const SCOPES = ['read', 'write'];
+const READ_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+// Avoid a write on every request; last-used only needs minute precision
+const LAST_USED_THROTTLE_MS = 60 * 1000;
+
+function generateToken() {
+    return `${TOKEN_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+}
+
+function hashToken(token) {
+    return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Create a token for a user
+ * @param {number} userId - Owner of the token
+ * @param {Object} attributes - { name, scope, expires_at }
+ * @returns {Promise<Object>} { token, apiToken } where token is the plaintext
+ *   value; it is not stored and cannot be recovered later
+ */
+async function createToken(
+    userId,
+    { name, scope = 'read', expires_at = null }
+) {
+    const token = generateToken();
+    const apiToken = await ApiToken.create({
+        name,
+        scope,
+        expires_at,
+        token_hash: hashToken(token),
+        token_prefix: token.slice(0, TOKEN_PREFIX.length + 6),
+        user_id: userId,
+    });
+
+    return { token, apiToken };
+}
+
+/**
+ * Resolve a plaintext bearer token to its record and owner
+ * @param {string} token - Value from the Authorization header
+ * @returns {Promise<Object|null>} { apiToken, user }, or null when the token
+ *   is unknown, expired or its user no longer exists
+ */
+async function authenticate(token) {
+    const apiToken = await ApiToken.findOne({
+        where: { token_hash: hashToken(token) },
+    });
+    if (!apiToken) return null;
+
+    const now = new Date();
+    if (apiToken.expires_at && apiToken.expires_at <= now) return null;
+
+    const user = await User.findByPk(apiToken.user_id);
+    if (!user) return null;
+
+    if (
+        !apiToken.last_used_at ||
+        now - apiToken.last_used_at >= LAST_USED_THROTTLE_MS
+    ) {
+        await apiToken.update({ last_used_at: now });
+    }
+
+    return { apiToken, user };
+}
+
+function allowsMethod(apiToken, method) {
+    return apiToken.scope === 'write' || READ_METHODS.includes(method);
+}
+
+// Public representation; the hash never leaves the server
+function serialize(apiToken) {
+    return {
+        id: apiToken.id,
+        name: apiToken.name,
+        scope: apiToken.scope,
+        token_prefix: apiToken.token_prefix,
+        expires_at: apiToken.expires_at,
+        last_used_at: apiToken.last_used_at,
+        created_at: apiToken.created_at,
+    };
+}
+
+module.exports = {
+    SCOPES,
+    createToken,
+    authenticate,
+    allowsMethod,
+    serialize,
+    _helpers: {
+        generateToken,
+        hashToken,
+    },
+};
@@ -0,0 +1,557 @@
+const {
+    sequelize,
+    Area,
+    Project,
+    ProjectSection,
+    ProjectTemplate,
+    TaskTemplate,
+    Task,
+    Tag,
+    Note,
+    InboxItem,
+    TaskEvent,
+    TaskReminder,
+    SavedFilter,
+} = require('../models');
+
+const ARCHIVE_FORMAT = 'tududi-backup';
+const ARCHIVE_VERSION = 1;
+
+// Preferences restored onto the importing account. Credentials, tokens and
+// scheduler state stay with the original account.
+const SETTINGS_FIELDS = [
+    'name',
+    'appearance',
+    'language',
+    'timezone',
+    'task_summary_enabled',
+    'task_summary_frequency',
+    'task_intelligence_enabled',
+    'auto_suggest_next_actions_enabled',
+    'pomodoro_enabled',
+    'today_settings',
+];
+
+// Collections in the archive, in the order they are restored
+const COLLECTIONS = [
+    'tags',
+    'areas',
+    'projects',
+    'project_sections',
+    'tasks',
+    'task_reminders',
+    'notes',
+    'inbox_items',
+    'saved_filters',
+    'project_templates',
+    'task_templates',
+];
+
+// References to other records are remapped on import rather than copied
+const REFERENCE_FIELDS = [
+    'area_id',
+    'project_id',
+    'section_id',
+    'parent_task_id',
+    'recurring_parent_id',
+    'task_id',
+];
+
+const tagNames = (record) => (record.Tags || []).map((tag) => tag.name);
+
+// Copy the model's own attributes; user_id is implied by the archive and
+// undo tokens only mean something in the database that issued them
+function pickAttributes(model, record) {
+    const result = {};
+    for (const attribute of Object.keys(model.rawAttributes)) {
+        if (attribute === 'user_id' || attribute === 'undo_token') continue;
+        const value = record.get ? record.get(attribute) : record[attribute];
+        if (value !== undefined) {
+            result[attribute] = value;
+        }
+    }
+    return result;
+}
+
+// Attributes to create a record from, without the archive's own keys
+function buildAttributes(model, data, userId) {
+    const result = {};
+    for (const attribute of Object.keys(model.rawAttributes)) {
+        if (
+            attribute === 'id' ||
+            attribute === 'user_id' ||
+            attribute === 'updated_at' ||
+            attribute === 'undo_token' ||
+            REFERENCE_FIELDS.includes(attribute)
+        ) {
+            continue;
+        }
+        if (data[attribute] !== undefined) {
+            result[attribute] = data[attribute];
+        }
+    }
+    if (model.rawAttributes.user_id) {
+        result.user_id = userId;
+    }
+    return result;
+}
+
+/**
+ * Build a versioned archive of everything a user owns
+ * @param {Object} user - User record
+ * @returns {Promise<Object>} JSON-serializable archive
+ */
+async function exportUserData(user) {
+    const where = { user_id: user.id };
+    const withTags = {
+        model: Tag,
+        attributes: ['name'],
+        through: { attributes: [] },
+    };
+
+    const [tags, areas, projects, tasks, notes, inboxItems, savedFilters] =
+        await Promise.all([
+            Tag.findAll({ where, order: [['id', 'ASC']] }),
+            Area.findAll({ where, order: [['id', 'ASC']] }),
+            Project.findAll({
+                where,
+                include: [withTags],
+                order: [['id', 'ASC']],
+            }),
+            Task.findAll({
+                where,
+                include: [
+                    withTags,
+                    {
+                        model: Task,
+                        as: 'Blockers',
+                        attributes: ['id'],
+                        through: { attributes: [] },
+                    },
+                    { model: TaskEvent, as: 'TaskEvents' },
+                ],
+                order: [
+                    ['id', 'ASC'],
+                    [{ model: TaskEvent, as: 'TaskEvents' }, 'id', 'ASC'],
+                ],
+            }),
+            Note.findAll({
+                where,
+                include: [withTags],
+                order: [['id', 'ASC']],
+            }),
+            InboxItem.findAll({ where, order: [['id', 'ASC']] }),
+            SavedFilter.findAll({ where, order: [['id', 'ASC']] }),
+        ]);
+    const sections = await ProjectSection.findAll({
+        where,
+        order: [['id', 'ASC']],
+    });
+    const projectTemplates = await ProjectTemplate.findAll({
+        where,
+        order: [['id', 'ASC']],
+    });
+    const taskTemplates = await TaskTemplate.findAll({
+        where,
+        order: [['id', 'ASC']],
+    });
+    const reminders = await TaskReminder.findAll({
+        where,
+        order: [['id', 'ASC']],
+    });
+
+    const settings = {};
+    SETTINGS_FIELDS.forEach((field) => {
+        settings[field] = user.get(field);
+    });
+
+    return {
+        format: ARCHIVE_FORMAT,
+        version: ARCHIVE_VERSION,
+        exported_at: new Date().toISOString(),
+        settings,
+        tags: tags.map((tag) => tag.name),
+        areas: areas.map((area) => pickAttributes(Area, area)),
+        projects: projects.map((project) => ({
+            ...pickAttributes(Project, project),
+            tags: tagNames(project),
+        })),
+        project_sections: sections.map((section) =>
+            pickAttributes(ProjectSection, section)
+        ),
+        tasks: tasks.map((task) => ({
+            ...pickAttributes(Task, task),
+            tags: tagNames(task),
+            depends_on: task.Blockers.map((blocker) => blocker.id),
+            events: task.TaskEvents.map((event) => {
+                const data = pickAttributes(TaskEvent, event);
+                delete data.id;
+                delete data.task_id;
+                return data;
+            }),
+        })),
+        task_reminders: reminders.map((reminder) =>
+            pickAttributes(TaskReminder, reminder)
+        ),
+        notes: notes.map((note) => ({
+            ...pickAttributes(Note, note),
+            tags: tagNames(note),
+        })),
+        inbox_items: inboxItems.map((item) => pickAttributes(InboxItem, item)),
+        saved_filters: savedFilters.map((filter) =>
+            pickAttributes(SavedFilter, filter)
+        ),
+        project_templates: projectTemplates.map((template) =>
+            pickAttributes(ProjectTemplate, template)
+        ),
+        task_templates: taskTemplates.map((template) =>
+            pickAttributes(TaskTemplate, template)
+        ),
+    };
+}
+
+/**
+ * Check that an archive can be imported
+ * @param {Object} archive - Parsed archive
+ * @returns {Array<string>} Problems found; empty when the archive is valid
+ */
+function validateArchive(archive) {
+    if (!archive || typeof archive !== 'object' || Array.isArray(archive)) {
+        return ['Archive must be a JSON object.'];
+    }
+    if (archive.format !== ARCHIVE_FORMAT) {
+        return [`Archive format must be "${ARCHIVE_FORMAT}".`];
+    }
+    if (
+        !Number.isInteger(archive.version) ||
+        archive.version < 1 ||
+        archive.version > ARCHIVE_VERSION
+    ) {
+        return [`Unsupported archive version: ${archive.version}.`];
+    }
+
+    const errors = [];
+    COLLECTIONS.forEach((collection) => {
+        if (
+            archive[collection] !== undefined &&
+            !Array.isArray(archive[collection])
+        ) {
+            errors.push(`"${collection}" must be an array.`);
+        }
+    });
+    if (
+        archive.settings !== undefined &&
+        (typeof archive.settings !== 'object' || archive.settings === null)
+    ) {
+        errors.push('"settings" must be an object.');
+    }
+    ['areas', 'projects', 'project_sections', 'tasks', 'notes'].forEach(
+        (collection) => {
+            (archive[collection] || []).forEach((record, index) => {
+                if (!record || typeof record !== 'object') {
+                    errors.push(`${collection}[${index}] must be an object.`);
+                } else if (collection !== 'notes' && record.id === undefined) {
+                    errors.push(`${collection}[${index}] is missing its id.`);
+                }
+            });
+        }
+    );
+    return errors;
+}
+
+async function importTags(user, archive, transaction, report) {
+    const names = new Set(archive.tags || []);
+    ['projects', 'tasks', 'notes'].forEach((collection) =>
+        (archive[collection] || []).forEach((record) =>
+            (record.tags || []).forEach((name) => names.add(name))
+        )
+    );
+
+    const tagsByName = new Map();
+    for (const name of names) {
+        if (typeof name !== 'string' || !name.trim()) continue;
+        const [tag, created] = await Tag.findOrCreate({
+            where: { name: name.trim(), user_id: user.id },
+            transaction,
+        });
+        tagsByName.set(name, tag);
+        if (created) {
+            report.created.tags++;
+        } else {
+            report.existing.tags++;
+        }
+    }
+    return tagsByName;
+}
+
+const findTags = (tagsByName, names) =>
+    (names || []).map((name) => tagsByName.get(name)).filter(Boolean);
+
+async function importTasks(
+    user,
+    archive,
+    tagsByName,
+    ids,
+    transaction,
+    report
+) {
+    const tasks = archive.tasks || [];
+
+    // Tasks are created first and linked to each other once all have new ids
+    for (const data of tasks) {
+        const attributes = buildAttributes(Task, data, user.id);
+        attributes.project_id = ids.projects.get(data.project_id) || null;
+        attributes.section_id = ids.sections.get(data.section_id) || null;
+        if (
+            attributes.uuid &&
+            (await Task.count({
+                where: { uuid: attributes.uuid },
+                transaction,
+            }))
+        ) {
+            delete attributes.uuid;
+            report.warnings.push(
+                `Task "${data.name}" was given a new UUID because it already exists.`
+            );
+        }
+
+        const task = await Task.create(attributes, { transaction });
+        ids.tasks.set(data.id, task.id);
+        report.created.tasks++;
+
+        const tags = findTags(tagsByName, data.tags);
+        if (tags.length > 0) {
+            await task.setTags(tags, { transaction });
+        }
+
+        for (const event of data.events || []) {
+            await TaskEvent.create(
+                {
+                    ...buildAttributes(TaskEvent, event, user.id),
+                    task_id: task.id,
+                },
+                { transaction }
+            );
+            report.created.task_events++;
+        }
+    }
+
+    for (const data of tasks) {
+        const taskId = ids.tasks.get(data.id);
+        const links = {};
+        ['parent_task_id', 'recurring_parent_id'].forEach((field) => {
+            if (data[field] === null || data[field] === undefined) return;
+            if (ids.tasks.has(data[field])) {
+                links[field] = ids.tasks.get(data[field]);
+            } else {
+                report.warnings.push(
+                    `Task "${data.name}" references a missing task in ${field}.`
+                );
+            }
+        });
+        if (Object.keys(links).length > 0) {
+            await Task.update(links, { where: { id: taskId }, transaction });
+        }
+
+        for (const blockerId of data.depends_on || []) {
+            if (!ids.tasks.has(blockerId)) continue;
+            await sequelize.query(
+                'INSERT INTO task_dependencies (task_id, depends_on_task_id, created_at, updated_at) VALUES (?, ?, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)',
+                {
+                    replacements: [taskId, ids.tasks.get(blockerId)],
+                    transaction,
+                }
+            );
+            report.created.task_dependencies++;
+        }
+    }
+}
+
+async function restore(user, archive, transaction, report) {
+    const ids = {
+        areas: new Map(),
+        projects: new Map(),
+        sections: new Map(),
+        tasks: new Map(),
+    };
+
+    if (archive.settings) {
+        const settings = {};
+        SETTINGS_FIELDS.forEach((field) => {
+            if (archive.settings[field] !== undefined) {
+                settings[field] = archive.settings[field];
+            }
+        });
+        await user.update(settings, { transaction });
+        report.settings = Object.keys(settings);
+    }
+
+    const tagsByName = await importTags(user, archive, transaction, report);
+
+    for (const data of archive.areas || []) {
+        const area = await Area.create(buildAttributes(Area, data, user.id), {
+            transaction,
+        });
+        ids.areas.set(data.id, area.id);
+        report.created.areas++;
+    }
+
+    for (const data of archive.projects || []) {
+        const project = await Project.create(
+            {
+                ...buildAttributes(Project, data, user.id),
+                area_id: ids.areas.get(data.area_id) || null,
+            },
+            { transaction }
+        );
+        ids.projects.set(data.id, project.id);
+        report.created.projects++;
+
+        const tags = findTags(tagsByName, data.tags);
+        if (tags.length > 0) {
+            await project.setTags(tags, { transaction });
+        }
+    }
+
+    for (const data of archive.project_sections || []) {
+        // Sections only come along with their project
+        if (!ids.projects.has(data.project_id)) continue;
+        const section = await ProjectSection.create(
+            {
+                ...buildAttributes(ProjectSection, data, user.id),
+                project_id: ids.projects.get(data.project_id),
+            },
+            { transaction }
+        );
+        ids.sections.set(data.id, section.id);
+        report.created.project_sections++;
+    }
+
+    await importTasks(user, archive, tagsByName, ids, transaction, report);
+
+    for (const data of archive.task_reminders || []) {
+        // Reminders only come along with their task
+        if (!ids.tasks.has(data.task_id)) continue;
+        await TaskReminder.create(
+            {
+                ...buildAttributes(TaskReminder, data, user.id),
+                task_id: ids.tasks.get(data.task_id),
+            },
+            { transaction }
+        );
+        report.created.task_reminders++;
+    }
+
+    for (const data of archive.notes || []) {
+        const note = await Note.create(
+            {
+                ...buildAttributes(Note, data, user.id),
+                project_id: ids.projects.get(data.project_id) || null,
+            },
+            { transaction }
+        );
+        report.created.notes++;
+
+        const tags = findTags(tagsByName, data.tags);
+        if (tags.length > 0) {
+            await note.setTags(tags, { transaction });
+        }
+    }
+
+    for (const data of archive.inbox_items || []) {
+        await InboxItem.create(buildAttributes(InboxItem, data, user.id), {
+            transaction,
+        });
+        report.created.inbox_items++;
+    }
+
+    for (const data of archive.saved_filters || []) {
+        await SavedFilter.create(buildAttributes(SavedFilter, data, user.id), {
+            transaction,
+        });
+        report.created.saved_filters++;
+    }
+
+    for (const data of archive.project_templates || []) {
+        await ProjectTemplate.create(
+            buildAttributes(ProjectTemplate, data, user.id),
+            { transaction }
+        );
+        report.created.project_templates++;
+    }
+
+    for (const data of archive.task_templates || []) {
+        await TaskTemplate.create(
+            {
+                ...buildAttributes(TaskTemplate, data, user.id),
+                project_id: ids.projects.get(data.project_id) || null,
+            },
+            { transaction }
+        );
+        report.created.task_templates++;
+    }
+}
+
+/**
+ * Restore an archive into a user's account alongside their existing data.
+ * Records get new ids; references between them are remapped and tags are
+ * merged by name. Everything happens in one transaction, so a failed
+ * import leaves the account untouched.
+ * @param {Object} user - User record receiving the data
+ * @param {Object} archive - Archive from exportUserData, already validated
+ * @param {Object} options - { dryRun: roll back after building the report }
+ * @returns {Promise<Object>} Report of what was (or would be) imported
+ */
+async function importUserData(user, archive, { dryRun = false } = {}) {
+    const report = {
+        dry_run: dryRun,
+        version: archive.version,
+        settings: [],
+        created: {
+            tags: 0,
+            areas: 0,
+            projects: 0,
+            project_sections: 0,
+            tasks: 0,
+            task_events: 0,
+            task_dependencies: 0,
+            task_reminders: 0,
+            notes: 0,
+            inbox_items: 0,
+            saved_filters: 0,
+            project_templates: 0,
+            task_templates: 0,
+        },
+        existing: { tags: 0 },
+        warnings: [],
+    };
+
+    const transaction = await sequelize.transaction();
+    try {
+        await restore(user, archive, transaction, report);
+    } catch (error) {
+        await transaction.rollback();
+        throw error;
+    }
+
+    if (dryRun) {
+        await transaction.rollback();
+        await user.reload();
+    } else {
+        await transaction.commit();
+    }
+
+    return report;
+}
+
+module.exports = {
+    ARCHIVE_FORMAT,
+    ARCHIVE_VERSION,
+    exportUserData,
+    validateArchive,
+    importUserData,
+    _helpers: {
+        pickAttributes,
+        buildAttributes,
+    },
+};
@@ -0,0 +1,421 @@
+const crypto = require('crypto');
+const { Op } = require('sequelize');
+const { User, Task, Project } = require('../models');
+const apiTokenService = require('./apiTokenService');
+const icalService = require('./icalService');
+const TaskEventService = require('./taskEventService');
+const SubtaskService = require('./subtaskService');
+const TaskDependencyService = require('./taskDependencyService');
+const TaskDeletionService = require('./taskDeletionService');
+const changeEvents = require('./changeEvents');
+
+const ROOT_PATH = '/caldav';
+// Tasks without a project live in this calendar
+const DEFAULT_CALENDAR_ID = 'tasks';
+const PROJECT_CALENDAR_PREFIX = 'project-';
+const RESOURCE_PATTERN =
+    /^([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})\.ics$/i;
+
+const NAMESPACES = {
+    d: 'DAV:',
+    c: 'urn:ietf:params:xml:ns:caldav',
+    cs: 'http://calendarserver.org/ns/',
+};
+
+/**
+ * Check HTTP Basic credentials. The password may be the account password
+ * or a personal API token of the same user, which works as an app password.
+ * @param {string} email - User name sent by the client
+ * @param {string} password - Password or API token
+ * @returns {Promise<Object|null>} { user, apiToken } or null
+ */
+async function authenticate(email, password) {
+    const user = await User.findOne({ where: { email } });
+    if (!user || !password) return null;
+
+    const tokenResult = await apiTokenService.authenticate(password);
+    if (tokenResult) {
+        return tokenResult.user.id === user.id
+            ? { user, apiToken: tokenResult.apiToken }
+            : null;
+    }
+
+    const validPassword = await User.checkPassword(
+        password,
+        user.password_digest
+    );
+    return validPassword ? { user, apiToken: null } : null;
+}
+
+// Read-only API tokens can browse but not change tasks
+function canWrite(apiToken) {
+    return !apiToken || apiToken.scope === 'write';
+}
+
+const paths = {
+    principal: (user) => `${ROOT_PATH}/principals/${user.id}/`,
+    home: (user) => `${ROOT_PATH}/calendars/${user.id}/`,
+    calendar: (user, calendar) => `${paths.home(user)}${calendar.id}/`,
+    resource: (user, calendar, task) =>
+        `${paths.calendar(user, calendar)}${task.uuid}.ics`,
+};
+
+/**
+ * List the calendars of a user: one for tasks without a project and one per
+ * project
+ * @param {Object} user - Calendar owner
+ * @returns {Promise<Array>} [{ id, name, projectId }]
+ */
+async function getCalendars(user) {
+    const projects = await Project.findAll({
+        where: { user_id: user.id },
+        attributes: ['id', 'name'],
+        order: [['name', 'ASC']],
+    });
+
+    return [
+        { id: DEFAULT_CALENDAR_ID, name: 'Tasks', projectId: null },
+        ...projects.map((project) => ({
+            id: `${PROJECT_CALENDAR_PREFIX}${project.id}`,
+            name: project.name,
+            projectId: project.id,
+        })),
+    ];
+}
+
+async function findCalendar(user, calendarId) {
+    const calendars = await getCalendars(user);
+    return calendars.find((calendar) => calendar.id === calendarId) || null;
+}
+
+// Archived tasks have left the task lists, so clients don't see them either
+async function getCalendarTasks(user, calendar) {
+    return await Task.findAll({
+        where: {
+            user_id: user.id,
+            project_id: calendar.projectId,
+            status: { [Op.ne]: Task.STATUS.ARCHIVED },
+        },
+        order: [['id', 'ASC']],
+    });
+}
+
+/**
+ * Get the task UUID from a resource name like "<uuid>.ics"
+ * @param {string} resourceName - Last path segment
+ * @returns {string|null} UUID, or null for other names
+ */
+function parseResourceName(resourceName) {
+    const match = RESOURCE_PATTERN.exec(resourceName);
+    return match ? match[1] : null;
+}
+
+async function findTask(user, uuid, calendar = null) {
+    const where = { uuid, user_id: user.id };
+    if (calendar) {
+        where.project_id = calendar.projectId;
+    }
+    return await Task.findOne({ where });
+}
+
+// Tasks in the trash and other users' tasks keep their UUIDs too
+async function isUuidTaken(uuid) {
+    return (await Task.count({ where: { uuid }, paranoid: false })) > 0;
+}
+
+function getETag(task) {
+    return `"${new Date(task.updated_at).getTime()}"`;
+}
+
+// Changes whenever a task in the calendar is added, changed or removed
+function getCTag(tasks) {
+    const hash = crypto.createHash('md5');
+    tasks.forEach((task) => hash.update(`${task.uuid}:${getETag(task)};`));
+    return hash.digest('hex');
+}
+
+function serializeTask(task, timezone = 'UTC') {
+    // Generated recurring instances are listed on their own, so templates
+    // are sent without an RRULE to avoid showing occurrences twice
+    return icalService.buildCalendar(
+        icalService.buildTaskComponent(task, {
+            type: 'todo',
+            recurrence: false,
+            timezone,
+        })
+    );
+}
+
+function serializeTaskForEvent(task) {
+    return {
+        ...task.toJSON(),
+        due_date: task.due_date
+            ? task.due_date.toISOString().split('T')[0]
+            : null,
+    };
+}
+
+// Waiting has no iCalendar counterpart and is sent as NEEDS-ACTION; keep it
+// unless the client actually changed the status
+function resolveStatus(currentStatus, incomingStatus) {
+    const status =
+        incomingStatus === undefined ? Task.STATUS.NOT_STARTED : incomingStatus;
+    if (
+        status === Task.STATUS.NOT_STARTED &&
+        currentStatus === Task.STATUS.WAITING
+    ) {
+        return currentStatus;
+    }
+    return status;
+}
+
+/**
+ * Create or replace a task from a VTODO sent by a client. Fields the client
+ * leaves out are cleared, as a PUT replaces the whole resource.
+ * @param {Object} user - Task owner
+ * @param {Object} calendar - Target calendar
+ * @param {string} uuid - Task UUID from the resource name
+ * @param {Object} todo - Result of icalService.parseTodo
+ * @param {Object|null} existingTask - Task stored under the UUID, if any
+ * @returns {Promise<Object>} The saved task
+ */
+async function saveTask(user, calendar, uuid, todo, existingTask) {
+    const currentStatus = existingTask
+        ? existingTask.status
+        : Task.STATUS.NOT_STARTED;
+    const status = resolveStatus(currentStatus, todo.status);
+    const attributes = {
+        name: todo.name,
+        note: todo.note || null,
+        due_date: todo.due_date || null,
+        due_time: todo.due_time || null,
+        priority:
+            todo.priority !== undefined ? todo.priority : Task.PRIORITY.LOW,
+        status,
+        project_id: calendar.projectId,
+    };
+
+    if (status === Task.STATUS.DONE && currentStatus !== Task.STATUS.DONE) {
+        attributes.completed_at = new Date();
+    } else if (
+        status !== Task.STATUS.DONE &&
+        currentStatus === Task.STATUS.DONE
+    ) {
+        attributes.completed_at = null;
+    }
+
+    if (!existingTask) {
+        const task = await Task.create({
+            ...attributes,
+            uuid,
+            user_id: user.id,
+        });
+
+        try {
+            await TaskEventService.logTaskCreated(
+                task.id,
+                user.id,
+                {
+                    name: task.name,
+                    status: task.status,
+                    priority: task.priority,
+                    due_date: task.due_date,
+                    project_id: task.project_id,
+                },
+                { source: 'caldav' }
+            );
+        } catch (eventError) {
+            console.error('Error logging task creation event:', eventError);
+        }
+
+        await changeEvents.publish(user.id, 'task.created', {
+            task: serializeTaskForEvent(task),
+        });
+        return task;
+    }
+
+    const task = existingTask;
+    const oldValues = {
+        name: task.name,
+        note: task.note,
+        status: task.status,
+        priority: task.priority,
+        project_id: task.project_id,
+        due_date: task.due_date,
+        due_time: task.due_time,
+    };
+
+    await task.update(attributes);
+
+    if (task.parent_task_id) {
+        await SubtaskService.handleSubtaskStatusChange(
+            task,
+            oldValues.status,
+            user.id
+        );
+    }
+    await TaskDependencyService.handleStatusChange(
+        task,
+        oldValues.status,
+        user.id
+    );
+
+    try {
+        const changes = {};
+        [
+            'name',
+            'note',
+            'status',
+            'priority',
+            'project_id',
+            'due_time',
+        ].forEach((field) => {
+            if (task[field] !== oldValues[field]) {
+                changes[field] = {
+                    oldValue: oldValues[field],
+                    newValue: task[field],
+                };
+            }
+        });
+        const formatDay = (date) =>
+            date ? date.toISOString().split('T')[0] : null;
+        if (formatDay(task.due_date) !== formatDay(oldValues.due_date)) {
+            changes.due_date = {
+                oldValue: oldValues.due_date,
+                newValue: task.due_date,
+            };
+        }
+
+        if (Object.keys(changes).length > 0) {
+            await TaskEventService.logTaskUpdate(task.id, user.id, changes, {
+                source: 'caldav',
+            });
+        }
+    } catch (eventError) {
+        console.error('Error logging task update events:', eventError);
+    }
+
+    await changeEvents.publish(
+        user.id,
+        status === Task.STATUS.DONE && oldValues.status !== Task.STATUS.DONE
+            ? 'task.completed'
+            : 'task.updated',
+        { task: serializeTaskForEvent(task) }
+    );
+    return task;
+}
+
+/**
+ * Move a task to the trash on behalf of a client
+ * @param {Object} user - Task owner
+ * @param {Object} task - Task record
+ * @returns {Promise<boolean>} False when the task is a recurring template
+ *   that still has generated instances
+ */
+async function deleteTask(user, task) {
+    if (!(await TaskDeletionService.canDelete(task))) {
+        return false;
+    }
+
+    await TaskDeletionService.trashTask(task, user.id);
+    await changeEvents.publish(user.id, 'task.deleted', {
+        task: { id: task.id, uuid: task.uuid, name: task.name },
+    });
+    return true;
+}
+
+function escapeXml(value) {
+    return String(value)
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+/**
+ * Build a WebDAV multistatus document
+ * @param {Array<Object>} responses - { href, props } with props as XML
+ *   fragments, or { href, status } for missing resources
+ * @returns {string} XML body
+ */
+function buildMultistatus(responses) {
+    const namespaces = Object.entries(NAMESPACES)
+        .map(([prefix, uri]) => `xmlns:${prefix}="${uri}"`)
+        .join(' ');
+    const body = responses
+        .map(({ href, props, status }) => {
+            const content = props
+                ? `<d:propstat><d:prop>${props.join('')}</d:prop><d:status>HTTP/1.1 200 OK</d:status></d:propstat>`
+                : `<d:status>HTTP/1.1 ${status}</d:status>`;
+            return `<d:response><d:href>${escapeXml(href)}</d:href>${content}</d:response>`;
+        })
+        .join('');
+
+    return `<?xml version="1.0" encoding="utf-8"?>\n<d:multistatus ${namespaces}>${body}</d:multistatus>`;
+}
+
+const principalProps = (user) => [
+    `<d:current-user-principal><d:href>${paths.principal(user)}</d:href></d:current-user-principal>`,
+    `<d:principal-URL><d:href>${paths.principal(user)}</d:href></d:principal-URL>`,
+    `<c:calendar-home-set><d:href>${paths.home(user)}</d:href></c:calendar-home-set>`,
+    `<c:calendar-user-address-set><d:href>mailto:${escapeXml(user.email)}</d:href></c:calendar-user-address-set>`,
+    `<d:displayname>${escapeXml(user.name || user.email)}</d:displayname>`,
+];
+
+const props = {
+    root: (user) => [
+        '<d:resourcetype><d:collection/></d:resourcetype>',
+        ...principalProps(user),
+    ],
+    principal: (user) => [
+        '<d:resourcetype><d:principal/></d:resourcetype>',
+        ...principalProps(user),
+    ],
+    home: (user) => [
+        '<d:resourcetype><d:collection/></d:resourcetype>',
+        `<d:current-user-principal><d:href>${paths.principal(user)}</d:href></d:current-user-principal>`,
+    ],
+    calendar: (user, calendar, tasks, writable) => [
+        '<d:resourcetype><d:collection/><c:calendar/></d:resourcetype>',
+        `<d:displayname>${escapeXml(calendar.name)}</d:displayname>`,
+        '<c:supported-calendar-component-set><c:comp name="VTODO"/></c:supported-calendar-component-set>',
+        `<cs:getctag>${getCTag(tasks)}</cs:getctag>`,
+        '<d:supported-report-set>' +
+            '<d:supported-report><d:report><c:calendar-multiget/></d:report></d:supported-report>' +
+            '<d:supported-report><d:report><c:calendar-query/></d:report></d:supported-report>' +
+            '</d:supported-report-set>',
+        `<d:current-user-privilege-set><d:privilege><d:read/></d:privilege>${
+            writable ? '<d:privilege><d:write/></d:privilege>' : ''
+        }</d:current-user-privilege-set>`,
+        `<d:current-user-principal><d:href>${paths.principal(user)}</d:href></d:current-user-principal>`,
+    ],
+    resource: (task, withData = false, timezone = 'UTC') => [
+        `<d:getetag>${escapeXml(getETag(task))}</d:getetag>`,
+        '<d:getcontenttype>text/calendar; charset=utf-8; component=VTODO</d:getcontenttype>',
+        '<d:resourcetype/>',
+        ...(withData
+            ? [
+                  `<c:calendar-data>${escapeXml(serializeTask(task, timezone))}</c:calendar-data>`,
+              ]
+            : []),
+    ],
+};
+
+module.exports = {
+    ROOT_PATH,
+    authenticate,
+    canWrite,
+    paths,
+    props,
+    getCalendars,
+    findCalendar,
+    getCalendarTasks,
+    parseResourceName,
+    findTask,
+    isUuidTaken,
+    getETag,
+    serializeTask,
+    saveTask,
+    deleteTask,
+    buildMultistatus,
+};
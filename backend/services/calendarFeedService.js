@@ -0,0 +1,90 @@
+const crypto = require('crypto');
+const { Op } = require('sequelize');
+const { User, Task, Tag, Project } = require('../models');
+const icalService = require('./icalService');
+
+const COMPONENT_TYPES = ['event', 'todo'];
+
+function generateToken() {
+    return crypto.randomBytes(24).toString('hex');
+}
+
+/**
+ * Give a user a new feed token. Any previously shared feed URL stops working.
+ * @param {Object} user - User record
+ * @returns {Promise<string>} The new token
+ */
+async function regenerateToken(user) {
+    const token = generateToken();
+    await user.update({ calendar_feed_token: token });
+    return token;
+}
+
+async function disableFeed(user) {
+    await user.update({ calendar_feed_token: null });
+}
+
+async function findUserByToken(token) {
+    if (!token) return null;
+    return await User.findOne({ where: { calendar_feed_token: token } });
+}
+
+/**
+ * Build the iCalendar feed of a user's tasks that have a due date.
+ * Recurring templates carry an RRULE; the instances generated from them are
+ * left out so each occurrence appears once.
+ * @param {Object} user - Feed owner
+ * @param {Object} options - { type: 'event'|'todo', projectId, tagName }
+ * @returns {Promise<string>} Calendar body
+ */
+async function buildFeed(user, { type = 'event', projectId, tagName } = {}) {
+    const excludedStatuses = [Task.STATUS.ARCHIVED];
+    // Calendars can't tick off events, so finished tasks only clutter them
+    if (type === 'event') {
+        excludedStatuses.push(Task.STATUS.DONE);
+    }
+
+    const where = {
+        user_id: user.id,
+        due_date: { [Op.ne]: null },
+        recurring_parent_id: null,
+        status: { [Op.notIn]: excludedStatuses },
+    };
+    if (projectId) {
+        where.project_id = projectId;
+    }
+
+    const include = [{ model: Project, attributes: ['name'], required: false }];
+    if (tagName) {
+        include.push({
+            model: Tag,
+            attributes: [],
+            where: { name: tagName, user_id: user.id },
+            through: { attributes: [] },
+        });
+    }
+
+    const tasks = await Task.findAll({
+        where,
+        include,
+        order: [['due_date', 'ASC']],
+    });
+
+    return icalService.buildCalendar(
+        tasks.flatMap((task) =>
+            icalService.buildTaskComponent(task, {
+                type,
+                timezone: user.timezone,
+            })
+        ),
+        ['METHOD:PUBLISH', 'X-WR-CALNAME:tududi']
+    );
+}
+
+module.exports = {
+    COMPONENT_TYPES,
+    regenerateToken,
+    disableFeed,
+    findUserByToken,
+    buildFeed,
+};
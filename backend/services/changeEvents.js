@@ -0,0 +1,25 @@
+const eventStreamService = require('./eventStreamService');
+const webhookService = require('./webhookService');
+
+/**
+ * Announce a change to a user's data. Open tabs are notified over the event
+ * stream and deliveries are queued for webhooks subscribed to the event.
+ * Never throws, so callers can publish after a successful change.
+ * @param {number} userId - Owner of the changed record
+ * @param {string} event - Change type, e.g. 'task.completed'
+ * @param {Object} data - Event data, e.g. { task }
+ */
+async function publish(userId, event, data) {
+    try {
+        eventStreamService.publish(userId, event, data);
+    } catch (error) {
+        console.error(`Error publishing ${event} to event stream:`, error);
+    }
+    if (webhookService.WEBHOOK_EVENTS.includes(event)) {
+        await webhookService.dispatch(userId, event, data);
+    }
+}
+
+module.exports = {
+    publish,
+};
@@ -0,0 +1,92 @@
+// Live change notifications for open browser tabs, sent as Server-Sent
+// Events. Connections are held in memory, so this only reaches clients
+// connected to the current process.
+
+const HEARTBEAT_INTERVAL_MS = 25 * 1000;
+
+// userId -> Set of open responses
+const clients = new Map();
+let heartbeat = null;
+let nextEventId = 1;
+
+const write = (res, chunk) => {
+    res.write(chunk);
+    // Push the chunk through the compression middleware right away
+    if (typeof res.flush === 'function') {
+        res.flush();
+    }
+};
+
+const startHeartbeat = () => {
+    if (heartbeat) return;
+    // Comment lines keep proxies from closing idle connections
+    heartbeat = setInterval(() => {
+        clients.forEach((responses) =>
+            responses.forEach((res) => write(res, ': ping\n\n'))
+        );
+    }, HEARTBEAT_INTERVAL_MS);
+    heartbeat.unref();
+};
+
+const stopHeartbeat = () => {
+    clearInterval(heartbeat);
+    heartbeat = null;
+};
+
+/**
+ * Register an open SSE response for a user
+ * @param {number} userId - Owner of the connection
+ * @param {Object} res - Express response with SSE headers already sent
+ * @returns {Function} Call to remove the connection
+ */
+const subscribe = (userId, res) => {
+    if (!clients.has(userId)) {
+        clients.set(userId, new Set());
+    }
+    clients.get(userId).add(res);
+    startHeartbeat();
+
+    // Ask the browser to wait a little before reconnecting
+    write(res, 'retry: 5000\n\n');
+
+    return () => {
+        const responses = clients.get(userId);
+        if (!responses) return;
+        responses.delete(res);
+        if (responses.size === 0) {
+            clients.delete(userId);
+        }
+        if (clients.size === 0) {
+            stopHeartbeat();
+        }
+    };
+};
+
+/**
+ * Send a change notification to every open connection of a user
+ * @param {number} userId - Owner of the changed record
+ * @param {string} event - Change type, e.g. 'task.updated'
+ * @param {Object} data - Event data, e.g. { task }
+ */
+const publish = (userId, event, data) => {
+    const responses = clients.get(userId);
+    if (!responses) return;
+
+    const chunk = `id: ${nextEventId++}\ndata: ${JSON.stringify({ event, data })}\n\n`;
+    responses.forEach((res) => {
+        try {
+            write(res, chunk);
+        } catch (error) {
+            console.error('Error writing to event stream:', error);
+        }
+    });
+};
+
+const getConnectionCount = (userId) =>
+    clients.has(userId) ? clients.get(userId).size : 0;
+
+module.exports = {
+    subscribe,
+    publish,
+    getConnectionCount,
+};
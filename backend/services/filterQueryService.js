@@ -0,0 +1,335 @@
+const { Task, sequelize } = require('../models');
+const { Op } = require('sequelize');
+const moment = require('moment-timezone');
+
+// Filter query language used by saved filters (smart lists), e.g.
+//   tag:work priority:high due:<7d -project:Home status:in_progress
+//
+// Terms are separated by whitespace and combined with AND. A leading "-"
+// negates a term, values may be quoted ("deep work") and comma separated
+// values match any of them. Words without a field search task names.
+
+const PRIORITIES = ['low', 'medium', 'high'];
+const STATUSES = ['not_started', 'in_progress', 'done', 'archived', 'waiting'];
+const DUE_KEYWORDS = ['today', 'tomorrow', 'overdue', 'none', 'any'];
+const OPERATORS = ['<=', '>=', '<', '>', '='];
+
+const FIELDS = ['tag', 'project', 'priority', 'status', 'due'];
+
+// Open tasks only, unless the query asks for a status explicitly
+const DEFAULT_EXCLUDED_STATUSES = [
+    Task.STATUS.DONE,
+    Task.STATUS.ARCHIVED,
+    'done',
+    'archived',
+];
+
+const parseError = (message, term) => ({
+    message,
+    position: term.position,
+    token: term.raw,
+});
+
+/**
+ * Split a query string into raw terms, honouring double quotes
+ * @param {string} query - Filter query
+ * @returns {Object} { terms, errors } where each term has raw text and position
+ */
+function tokenize(query) {
+    const terms = [];
+    const errors = [];
+    const text = String(query || '');
+    let i = 0;
+
+    while (i < text.length) {
+        if (/\s/.test(text[i])) {
+            i++;
+            continue;
+        }
+
+        const start = i;
+        let value = '';
+        let quoted = false;
+
+        while (i < text.length && !/\s/.test(text[i])) {
+            if (text[i] === '"') {
+                const end = text.indexOf('"', i + 1);
+                if (end === -1) {
+                    errors.push({
+                        message: 'Unterminated quote.',
+                        position: i,
+                        token: text.slice(start),
+                    });
+                    value += text.slice(i + 1);
+                    i = text.length;
+                    break;
+                }
+                value += text.slice(i + 1, end);
+                quoted = true;
+                i = end + 1;
+            } else {
+                value += text[i];
+                i++;
+            }
+        }
+
+        terms.push({
+            text: value,
+            raw: text.slice(start, i),
+            position: start,
+            quoted,
+        });
+    }
+
+    return { terms, errors };
+}
+
+/**
+ * Parse a filter query into a list of typed terms
+ * @param {string} query - Filter query
+ * @returns {Object} { terms, errors }; errors carry message, position and token
+ */
+function parseFilterQuery(query) {
+    const { terms: rawTerms, errors } = tokenize(query);
+    const terms = [];
+
+    for (const rawTerm of rawTerms) {
+        let text = rawTerm.text;
+        const negated = text.startsWith('-') && text.length > 1;
+        if (negated) {
+            text = text.slice(1);
+        }
+
+        const separator = rawTerm.raw.indexOf(':');
+        const isFieldTerm =
+            separator > 0 && !rawTerm.raw.slice(0, separator).includes('"');
+
+        if (!isFieldTerm) {
+            terms.push({ field: 'text', negated, values: [text], ...rawTerm });
+            continue;
+        }
+
+        const colon = text.indexOf(':');
+        const field = text.slice(0, colon).toLowerCase();
+        const rawValue = text.slice(colon + 1);
+
+        if (!FIELDS.includes(field)) {
+            errors.push(
+                parseError(
+                    `Unknown filter field '${field}'. Expected one of ${FIELDS.join(', ')}.`,
+                    rawTerm
+                )
+            );
+            continue;
+        }
+
+        if (!rawValue) {
+            errors.push(parseError(`Missing value for '${field}'.`, rawTerm));
+            continue;
+        }
+
+        const term = { field, negated, ...rawTerm };
+
+        if (field === 'due') {
+            const operator =
+                OPERATORS.find((op) => rawValue.startsWith(op)) || null;
+            const value = (
+                operator ? rawValue.slice(operator.length) : rawValue
+            ).toLowerCase();
+
+            if (DUE_KEYWORDS.includes(value) && !operator) {
+                terms.push({ ...term, keyword: value });
+            } else if (/^\d+[dw]$/.test(value)) {
+                const amount = parseInt(value, 10);
+                const days = value.endsWith('w') ? amount * 7 : amount;
+                terms.push({ ...term, operator: operator || '=', days });
+            } else if (
+                /^\d{4}-\d{2}-\d{2}$/.test(value) &&
+                moment(value, 'YYYY-MM-DD', true).isValid()
+            ) {
+                terms.push({ ...term, operator: operator || '=', date: value });
+            } else {
+                errors.push(
+                    parseError(
+                        `Invalid due date '${rawValue}'. Use today, tomorrow, overdue, none, any, a relative offset like <7d or a date like 2025-01-31.`,
+                        rawTerm
+                    )
+                );
+            }
+            continue;
+        }
+
+        const values = rawValue
+            .split(',')
+            .map((value) => value.trim())
+            .filter(Boolean);
+
+        if (field === 'priority' || field === 'status') {
+            const allowed = field === 'priority' ? PRIORITIES : STATUSES;
+            const normalized = values.map((value) => value.toLowerCase());
+            const invalid = normalized.find(
+                (value) => !allowed.includes(value)
+            );
+            if (invalid) {
+                errors.push(
+                    parseError(
+                        `Invalid ${field} '${invalid}'. Expected one of ${allowed.join(', ')}.`,
+                        rawTerm
+                    )
+                );
+                continue;
+            }
+            terms.push({ ...term, values: normalized });
+            continue;
+        }
+
+        terms.push({ ...term, values });
+    }
+
+    return { terms, errors };
+}
+
+// Due dates are stored as UTC midnight of the calendar day, so only the
+// user's calendar date comes from their timezone
+function dueDateCondition(term, timezone) {
+    const today = moment.utc(moment.tz(timezone).format('YYYY-MM-DD'));
+    const startOf = (day) => day.clone().startOf('day').toDate();
+    const endOf = (day) => day.clone().endOf('day').toDate();
+
+    if (term.keyword) {
+        switch (term.keyword) {
+            case 'today':
+                return { [Op.between]: [startOf(today), endOf(today)] };
+            case 'tomorrow': {
+                const tomorrow = today.clone().add(1, 'day');
+                return { [Op.between]: [startOf(tomorrow), endOf(tomorrow)] };
+            }
+            case 'overdue':
+                return { [Op.lt]: startOf(today) };
+            case 'none':
+                return { [Op.is]: null };
+            default:
+                return { [Op.not]: null };
+        }
+    }
+
+    const day = term.date
+        ? moment.utc(term.date, 'YYYY-MM-DD')
+        : today.clone().add(term.days, 'days');
+
+    switch (term.operator) {
+        case '<':
+            return { [Op.lt]: startOf(day) };
+        case '<=':
+            return { [Op.lte]: endOf(day) };
+        case '>':
+            return { [Op.gt]: endOf(day) };
+        case '>=':
+            return { [Op.gte]: startOf(day) };
+        default:
+            return { [Op.between]: [startOf(day), endOf(day)] };
+    }
+}
+
+const escapeList = (values) =>
+    values.map((value) => sequelize.escape(value.toLowerCase())).join(', ');
+
+function termCondition(term, userId, timezone) {
+    switch (term.field) {
+        case 'text':
+            return {
+                name: {
+                    [term.negated ? Op.notLike : Op.like]:
+                        `%${term.values[0]}%`,
+                },
+            };
+        case 'tag': {
+            const taggedIds = sequelize.literal(
+                `(SELECT tasks_tags.task_id FROM tasks_tags
+          JOIN tags ON tags.id = tasks_tags.tag_id
+          WHERE tags.user_id = ${userId} AND lower(tags.name) IN (${escapeList(term.values)}))`
+            );
+            return {
+                id: { [term.negated ? Op.notIn : Op.in]: taggedIds },
+            };
+        }
+        case 'project': {
+            if (term.values.length === 1 && term.values[0] === 'none') {
+                return {
+                    project_id: term.negated ? { [Op.not]: null } : null,
+                };
+            }
+            const projectIds = sequelize.literal(
+                `(SELECT id FROM projects
+          WHERE user_id = ${userId} AND lower(name) IN (${escapeList(term.values)}))`
+            );
+            return term.negated
+                ? {
+                      [Op.or]: [
+                          { project_id: null },
+                          { project_id: { [Op.notIn]: projectIds } },
+                      ],
+                  }
+                : { project_id: { [Op.in]: projectIds } };
+        }
+        case 'priority': {
+            const priorities = term.values.map((value) =>
+                Task.getPriorityValue(value)
+            );
+            return {
+                priority: { [term.negated ? Op.notIn : Op.in]: priorities },
+            };
+        }
+        case 'status': {
+            const statuses = term.values.flatMap((value) => [
+                Task.getStatusValue(value),
+                value,
+            ]);
+            return {
+                status: { [term.negated ? Op.notIn : Op.in]: statuses },
+            };
+        }
+        case 'due': {
+            const condition = { due_date: dueDateCondition(term, timezone) };
+            return term.negated ? { [Op.not]: condition } : condition;
+        }
+        default:
+            return null;
+    }
+}
+
+/**
+ * Compile a filter query into a Sequelize where clause for the Task model
+ * @param {string} query - Filter query
+ * @param {number} userId - Owner of the tasks being filtered
+ * @param {string} timezone - User timezone used for relative due dates
+ * @returns {Object} { where, errors }; where is null when the query is invalid
+ */
+function compileFilterQuery(query, userId, timezone = 'UTC') {
+    const { terms, errors } = parseFilterQuery(query);
+    if (errors.length > 0) {
+        return { where: null, errors };
+    }
+
+    const ownerId = parseInt(userId, 10);
+    const conditions = terms.map((term) =>
+        termCondition(term, ownerId, timezone)
+    );
+
+    if (!terms.some((term) => term.field === 'status')) {
+        conditions.push({
+            status: { [Op.notIn]: DEFAULT_EXCLUDED_STATUSES },
+        });
+    }
+
+    return { where: { [Op.and]: conditions }, errors: [] };
+}
+
+module.exports = {
+    parseFilterQuery,
+    compileFilterQuery,
+    _helpers: {
+        tokenize,
+        dueDateCondition,
+    },
+};
@@ -0,0 +1,412 @@
+const moment = require('moment-timezone');
+const { Task } = require('../models');
+
+const PRODUCT_ID = '-//tududi//Tasks//EN';
+// RFC 5545 limits content lines to 75 octets
+const MAX_LINE_LENGTH = 75;
+
+// Task weekday numbers run from 0 = Sunday
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+// Timed events last an hour, like due tasks in the calendar view
+const HOUR_MS = 60 * 60 * 1000;
+
+// iCalendar priority runs from 1 (highest) to 9 (lowest); 0 means unset
+const PRIORITIES = { 0: 9, 1: 5, 2: 1 };
+
+function escapeText(value) {
+    return String(value)
+        .replace(/\\/g, '\\\\')
+        .replace(/;/g, '\\;')
+        .replace(/,/g, '\\,')
+        .replace(/\r?\n/g, '\\n');
+}
+
+function unescapeText(value) {
+    return value.replace(/\\([\\;,nN])/g, (match, char) =>
+        char === 'n' || char === 'N' ? '\n' : char
+    );
+}
+
+// Split long lines; continuation lines start with a single space
+function foldLine(line) {
+    const parts = [];
+    let current = '';
+    for (const char of line) {
+        const limit =
+            parts.length === 0 ? MAX_LINE_LENGTH : MAX_LINE_LENGTH - 1;
+        if (Buffer.byteLength(current + char) > limit) {
+            parts.push(current);
+            current = '';
+        }
+        current += char;
+    }
+    parts.push(current);
+    return parts.join('\r\n ');
+}
+
+// Due dates are calendar days stored at midnight UTC
+function formatDate(date) {
+    return date.toISOString().slice(0, 10).replace(/-/g, '');
+}
+
+function formatDateTime(date) {
+    return date
+        .toISOString()
+        .replace(/[-:]/g, '')
+        .replace(/\.\d{3}/, '');
+}
+
+// Only the calendar day of a DATE or DATE-TIME value is kept
+function parseDate(value) {
+    const match = value.match(/^(\d{4})(\d{2})(\d{2})/);
+    if (!match) return null;
+    return new Date(Date.UTC(match[1], match[2] - 1, match[3]));
+}
+
+// A due time is wall-clock time in the user's timezone; calendars get the
+// instant it stands for
+function getDueInstant(task, timezone) {
+    return moment
+        .tz(
+            `${task.due_date.toISOString().slice(0, 10)} ${task.due_time}`,
+            'YYYY-MM-DD HH:mm',
+            timezone || 'UTC'
+        )
+        .toDate();
+}
+
+/**
+ * Read a DUE value into the user's calendar day and due time. UTC values
+ * end in Z, others are in their TZID or, when floating, in the user's
+ * timezone.
+ * @param {string} value - DATE or DATE-TIME value
+ * @param {string|undefined} tzid - TZID parameter of the property
+ * @param {string} timezone - User's timezone
+ * @returns {Object} { due_date, due_time } with due_time null for dates
+ */
+function parseDue(value, tzid, timezone) {
+    const match = value.match(/^(\d{8}T\d{6})(Z?)$/);
+    if (!match) return { due_date: parseDate(value), due_time: null };
+
+    let zone = timezone || 'UTC';
+    if (match[2]) {
+        zone = 'UTC';
+    } else if (tzid && moment.tz.zone(tzid)) {
+        zone = tzid;
+    }
+    const due = moment
+        .tz(match[1], 'YYYYMMDDTHHmmss', zone)
+        .tz(timezone || 'UTC');
+    return {
+        due_date: moment.utc(due.format('YYYY-MM-DD')).toDate(),
+        due_time: due.format('HH:mm'),
+    };
+}
+
+function addDays(date, days) {
+    const result = new Date(date);
+    result.setUTCDate(result.getUTCDate() + days);
+    return result;
+}
+
+/**
+ * Describe a recurring task template as an RRULE value
+ * @param {Object} task - Task record
+ * @returns {string|null} RRULE value, or null for non-recurring tasks
+ */
+function buildRecurrenceRule(task) {
+    const rules = {
+        daily: ['FREQ=DAILY'],
+        weekly: ['FREQ=WEEKLY'],
+        monthly: ['FREQ=MONTHLY'],
+        monthly_weekday: ['FREQ=MONTHLY'],
+        monthly_last_day: ['FREQ=MONTHLY', 'BYMONTHDAY=-1'],
+    };
+    const parts = rules[task.recurrence_type];
+    if (!parts) return null;
+
+    const rule = [...parts];
+    if (task.recurrence_interval > 1) {
+        rule.push(`INTERVAL=${task.recurrence_interval}`);
+    }
+
+    const weekday = WEEKDAYS[task.recurrence_weekday];
+    if (task.recurrence_type === 'weekly' && weekday) {
+        rule.push(`BYDAY=${weekday}`);
+    } else if (
+        task.recurrence_type === 'monthly' &&
+        task.recurrence_month_day
+    ) {
+        rule.push(`BYMONTHDAY=${task.recurrence_month_day}`);
+    } else if (task.recurrence_type === 'monthly_weekday' && weekday) {
+        rule.push(`BYDAY=${task.recurrence_week_of_month || 1}${weekday}`);
+    }
+
+    if (task.recurrence_end_date) {
+        rule.push(`UNTIL=${formatDate(task.recurrence_end_date)}`);
+    }
+
+    return rule.join(';');
+}
+
+/**
+ * Read an RRULE value into task recurrence fields
+ * @param {string} value - RRULE value, with or without the "RRULE:" prefix
+ * @returns {Object|null} Recurrence fields, or null when the rule can't be
+ *   expressed with our recurrence types
+ */
+function parseRecurrenceRule(value) {
+    const parts = {};
+    String(value)
+        .replace(/^RRULE:/i, '')
+        .split(';')
+        .forEach((part) => {
+            const [key, partValue] = part.split('=');
+            if (key && partValue) {
+                parts[key.trim().toUpperCase()] = partValue
+                    .trim()
+                    .toUpperCase();
+            }
+        });
+    if (parts.COUNT || parts.BYMONTH || parts.BYYEARDAY) return null;
+
+    const recurrence = {
+        recurrence_type: null,
+        recurrence_interval: parseInt(parts.INTERVAL, 10) || 1,
+        recurrence_end_date: parts.UNTIL ? parseDate(parts.UNTIL) : null,
+    };
+    const days = parts.BYDAY ? parts.BYDAY.split(',') : [];
+    if (days.length > 1) return null;
+    const day = days[0] && days[0].match(/^([+-]?\d)?([A-Z]{2})$/);
+    if (days.length > 0 && (!day || !WEEKDAYS.includes(day[2]))) return null;
+
+    switch (parts.FREQ) {
+        case 'DAILY':
+            if (day) return null;
+            recurrence.recurrence_type = 'daily';
+            break;
+        case 'WEEKLY':
+            if (day && day[1]) return null;
+            recurrence.recurrence_type = 'weekly';
+            if (day) recurrence.recurrence_weekday = WEEKDAYS.indexOf(day[2]);
+            break;
+        case 'MONTHLY': {
+            if (parts.BYMONTHDAY === '-1') {
+                recurrence.recurrence_type = 'monthly_last_day';
+                break;
+            }
+            if (parts.BYMONTHDAY) {
+                const monthDay = parseInt(parts.BYMONTHDAY, 10);
+                if (!(monthDay >= 1 && monthDay <= 31)) return null;
+                recurrence.recurrence_type = 'monthly';
+                recurrence.recurrence_month_day = monthDay;
+                break;
+            }
+            if (!day) {
+                recurrence.recurrence_type = 'monthly';
+                break;
+            }
+            const week = parseInt(day[1] || parts.BYSETPOS, 10);
+            if (!(week >= 1 && week <= 5)) return null;
+            recurrence.recurrence_type = 'monthly_weekday';
+            recurrence.recurrence_weekday = WEEKDAYS.indexOf(day[2]);
+            recurrence.recurrence_week_of_month = week;
+            break;
+        }
+        default:
+            return null;
+    }
+
+    return recurrence;
+}
+
+function getTodoStatus(task) {
+    switch (task.status) {
+        case Task.STATUS.DONE:
+            return 'COMPLETED';
+        case Task.STATUS.ARCHIVED:
+            return 'CANCELLED';
+        case Task.STATUS.IN_PROGRESS:
+            return 'IN-PROCESS';
+        default:
+            return 'NEEDS-ACTION';
+    }
+}
+
+/**
+ * Build the content lines of a task as a VEVENT or a VTODO. Tasks without a
+ * due time are all-day.
+ * @param {Object} task - Task record, optionally with its Project loaded
+ * @param {Object} options - { type: 'event'|'todo', recurrence: boolean,
+ *   timezone: the user's timezone }
+ * @returns {Array<string>} Unfolded content lines
+ */
+function buildTaskComponent(
+    task,
+    { type = 'todo', recurrence = true, timezone = 'UTC' } = {}
+) {
+    const isTodo = type === 'todo';
+    const name = isTodo ? 'VTODO' : 'VEVENT';
+    const lines = [
+        `BEGIN:${name}`,
+        `UID:${task.uuid}`,
+        `DTSTAMP:${formatDateTime(task.updated_at || new Date())}`,
+    ];
+
+    if (task.due_date && task.due_time) {
+        const due = getDueInstant(task, timezone);
+        lines.push(`DTSTART:${formatDateTime(due)}`);
+        if (isTodo) {
+            lines.push(`DUE:${formatDateTime(due)}`);
+        } else {
+            lines.push(
+                `DTEND:${formatDateTime(new Date(due.getTime() + HOUR_MS))}`
+            );
+        }
+    } else if (task.due_date) {
+        const start = formatDate(task.due_date);
+        lines.push(`DTSTART;VALUE=DATE:${start}`);
+        if (isTodo) {
+            lines.push(`DUE;VALUE=DATE:${start}`);
+        } else {
+            lines.push(
+                `DTEND;VALUE=DATE:${formatDate(addDays(task.due_date, 1))}`
+            );
+        }
+    }
+
+    lines.push(`SUMMARY:${escapeText(task.name)}`);
+    if (task.note) {
+        lines.push(`DESCRIPTION:${escapeText(task.note)}`);
+    }
+    if (task.Project) {
+        lines.push(`CATEGORIES:${escapeText(task.Project.name)}`);
+    }
+
+    const rule = recurrence ? buildRecurrenceRule(task) : null;
+    if (rule) {
+        lines.push(`RRULE:${rule}`);
+    }
+
+    if (isTodo) {
+        lines.push(`PRIORITY:${PRIORITIES[task.priority] || 9}`);
+        lines.push(`STATUS:${getTodoStatus(task)}`);
+        if (task.status === Task.STATUS.DONE && task.completed_at) {
+            lines.push(`COMPLETED:${formatDateTime(task.completed_at)}`);
+        }
+    }
+
+    lines.push(`END:${name}`);
+    return lines;
+}
+
+/**
+ * Wrap components in a VCALENDAR
+ * @param {Array<string>} componentLines - Lines from buildTaskComponent
+ * @param {Array<string>} headerLines - Extra calendar properties
+ * @returns {string} Folded calendar body with CRLF line endings
+ */
+function buildCalendar(componentLines, headerLines = []) {
+    const lines = [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        `PRODID:${PRODUCT_ID}`,
+        'CALSCALE:GREGORIAN',
+        ...headerLines,
+        ...componentLines,
+        'END:VCALENDAR',
+    ];
+
+    return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+/**
+ * Read the task fields of the first VTODO in a calendar body
+ * @param {string} body - iCalendar text
+ * @param {string} timezone - User's timezone, for due times
+ * @returns {Object|null} { uid, name, note, due_date, due_time, priority,
+ *   status } with only the properties present in the VTODO, or null
+ *   without one
+ */
+function parseTodo(body, timezone = 'UTC') {
+    const lines = String(body)
+        .replace(/\r?\n[ \t]/g, '')
+        .split(/\r?\n/);
+    const start = lines.indexOf('BEGIN:VTODO');
+    if (start === -1) return null;
+
+    const todo = {};
+    // Nested components (like VALARM) carry properties of their own
+    let depth = 0;
+    for (const line of lines.slice(start + 1)) {
+        if (line === 'END:VTODO' && depth === 0) break;
+        if (line.startsWith('BEGIN:')) depth++;
+        if (line.startsWith('END:')) depth--;
+        if (depth > 0 || line.startsWith('END:')) continue;
+
+        const separator = line.indexOf(':');
+        if (separator === -1) continue;
+        const [name, ...params] = line.slice(0, separator).split(';');
+        const property = name.toUpperCase();
+        const value = line.slice(separator + 1);
+
+        switch (property) {
+            case 'UID':
+                todo.uid = value;
+                break;
+            case 'SUMMARY':
+                todo.name = unescapeText(value);
+                break;
+            case 'DESCRIPTION':
+                todo.note = unescapeText(value);
+                break;
+            case 'DUE': {
+                const tzid = params.find((param) => /^TZID=/i.test(param));
+                Object.assign(
+                    todo,
+                    parseDue(
+                        value,
+                        tzid && tzid.slice(5).replace(/"/g, ''),
+                        timezone
+                    )
+                );
+                break;
+            }
+            case 'PRIORITY': {
+                const priority = parseInt(value, 10);
+                if (!priority || priority > 5) {
+                    todo.priority = Task.PRIORITY.LOW;
+                } else if (priority === 5) {
+                    todo.priority = Task.PRIORITY.MEDIUM;
+                } else {
+                    todo.priority = Task.PRIORITY.HIGH;
+                }
+                break;
+            }
+            case 'STATUS':
+                todo.status = {
+                    'NEEDS-ACTION': Task.STATUS.NOT_STARTED,
+                    'IN-PROCESS': Task.STATUS.IN_PROGRESS,
+                    COMPLETED: Task.STATUS.DONE,
+                    CANCELLED: Task.STATUS.ARCHIVED,
+                }[value.toUpperCase()];
+                break;
+        }
+    }
+
+    return todo;
+}
+
+module.exports = {
+    buildTaskComponent,
+    buildCalendar,
+    parseTodo,
+    parseRecurrenceRule,
+    _helpers: {
+        escapeText,
+        unescapeText,
+        foldLine,
+        buildRecurrenceRule,
+    },
+};
@@ -0,0 +1,112 @@
+const moment = require('moment-timezone');
+
+// Day formats besides ISO dates seen in exported date columns
+const DAY_FORMATS = ['MMM D YYYY', 'D MMM YYYY', 'MMMM D YYYY', 'D MMMM YYYY'];
+
+/**
+ * Split CSV text into rows of fields (RFC 4180, quoted fields may contain
+ * separators, escaped quotes and line breaks)
+ * @param {string} text - CSV text
+ * @returns {Array<Array<string>>} Rows, without blank lines
+ */
+function parseCsv(text) {
+    const rows = [];
+    let row = [];
+    let field = '';
+    let quoted = false;
+    const input = String(text).replace(/^\uFEFF/, '');
+
+    for (let i = 0; i < input.length; i++) {
+        const char = input[i];
+        if (quoted) {
+            if (char === '"' && input[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            quoted = true;
+        } else if (char === ',') {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && input[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+    row.push(field);
+    rows.push(row);
+
+    return rows.filter((fields) => fields.some((value) => value.trim()));
+}
+
+/**
+ * Turn CSV rows into objects keyed by the header row
+ * @param {Array<Array<string>>} rows - Rows from parseCsv
+ * @param {number} headerIndex - Index of the header row
+ * @returns {Array<Object>} One object per row after the header
+ */
+function toRecords(rows, headerIndex = 0) {
+    const header = (rows[headerIndex] || []).map((name) => name.trim());
+    return rows.slice(headerIndex + 1).map((fields) => {
+        const record = {};
+        header.forEach((name, index) => {
+            record[name] = (fields[index] || '').trim();
+        });
+        return record;
+    });
+}
+
+/**
+ * Read the calendar day of an exported date. Due dates are stored at
+ * midnight UTC, so timestamps with an offset are first moved into the
+ * timezone they were exported from.
+ * @param {string} value - Date or timestamp
+ * @param {string} timezone - Optional IANA timezone of the export
+ * @returns {Date|null} Day at midnight UTC, or null if unrecognised
+ */
+function parseDay(value, timezone) {
+    if (!value) return null;
+    const text = String(value).trim();
+
+    let day = null;
+    const iso = text.match(/^(\d{4}-\d{2}-\d{2})(?:T[\d:.]+)?(Z|[+-][\d:]+)?$/);
+    if (iso) {
+        day =
+            iso[2] && timezone && moment.tz.zone(timezone)
+                ? moment.parseZone(text).tz(timezone).format('YYYY-MM-DD')
+                : iso[1];
+    } else {
+        const parsed = moment.utc(text, DAY_FORMATS, 'en', true);
+        day = parsed.isValid() ? parsed.format('YYYY-MM-DD') : null;
+    }
+
+    if (!day || !moment.utc(day, 'YYYY-MM-DD', true).isValid()) return null;
+    return new Date(`${day}T00:00:00.000Z`);
+}
+
+/**
+ * Parse an exported timestamp
+ * @param {string} value - ISO 8601 timestamp
+ * @returns {Date|null} Date, or null if missing or unrecognised
+ */
+function parseTimestamp(value) {
+    if (!value) return null;
+    const parsed = moment(String(value).trim(), moment.ISO_8601, true);
+    return parsed.isValid() ? parsed.toDate() : null;
+}
+
+module.exports = {
+    parseCsv,
+    toRecords,
+    parseDay,
+    parseTimestamp,
+};
@@ -0,0 +1,193 @@
+const { Task } = require('../../models');
+const backupService = require('../backupService');
+
+// The preview lists this many tasks; counts always cover all of them
+const PREVIEW_TASK_LIMIT = 100;
+const SKIPPED_EXAMPLE_LIMIT = 3;
+
+const formatDay = (date) => (date ? date.toISOString().slice(0, 10) : null);
+
+/**
+ * Records parsed from another app's export, in the shape of our models.
+ * Adapters fill a plan; it is previewed as-is and imported as a backup
+ * archive. Records reference each other by plan keys, not database ids.
+ */
+class ImportPlan {
+    constructor(source) {
+        this.source = source;
+        this.areas = [];
+        this.projects = [];
+        this.tasks = [];
+        this.tags = new Set();
+        this.skipped = new Map();
+    }
+
+    /**
+     * Add an area, reusing one with the same name
+     * @param {string} name - Area name
+     * @returns {number|null} Area key
+     */
+    addArea(name) {
+        const trimmed = String(name || '').trim();
+        if (!trimmed) return null;
+
+        const existing = this.areas.find((area) => area.name === trimmed);
+        if (existing) return existing.key;
+
+        const key = this.areas.length + 1;
+        this.areas.push({ key, name: trimmed });
+        return key;
+    }
+
+    /**
+     * Add a project, reusing one with the same name
+     * @param {string} name - Project name
+     * @param {Object} fields - area_key, tags and other Project attributes
+     * @returns {number|null} Project key
+     */
+    addProject(name, fields = {}) {
+        const trimmed = String(name || '').trim();
+        if (!trimmed) return null;
+
+        const existing = this.projects.find(
+            (project) => project.name === trimmed
+        );
+        if (existing) return existing.key;
+
+        const key = this.projects.length + 1;
+        this.projects.push({ tags: [], ...fields, key, name: trimmed });
+        (fields.tags || []).forEach((tag) => this.addTag(tag));
+        return key;
+    }
+
+    addTag(name) {
+        const trimmed = String(name || '').trim();
+        if (trimmed) this.tags.add(trimmed);
+        return trimmed || null;
+    }
+
+    /**
+     * Add a task
+     * @param {Object} fields - Task attributes plus project_key, parent_key,
+     *   tags and recurrence (fields from a recurrence parser)
+     * @returns {number} Task key
+     */
+    addTask(fields) {
+        const key = this.tasks.length + 1;
+        const tags = (fields.tags || [])
+            .map((tag) => this.addTag(tag))
+            .filter(Boolean);
+        this.tasks.push({
+            status: Task.STATUS.NOT_STARTED,
+            priority: Task.PRIORITY.LOW,
+            ...fields,
+            tags: [...new Set(tags)],
+            key,
+        });
+        return key;
+    }
+
+    getTask(key) {
+        return this.tasks[key - 1];
+    }
+
+    /**
+     * Note something from the export that has no equivalent here
+     * @param {string} field - Field or concept in the source app
+     * @param {string} reason - What happens to it instead
+     * @param {string} example - Name of an affected item
+     */
+    skip(field, reason, example) {
+        const id = `${field}\n${reason}`;
+        if (!this.skipped.has(id)) {
+            this.skipped.set(id, { field, reason, count: 0, examples: [] });
+        }
+        const entry = this.skipped.get(id);
+        entry.count++;
+        if (
+            example &&
+            entry.examples.length < SKIPPED_EXAMPLE_LIMIT &&
+            !entry.examples.includes(example)
+        ) {
+            entry.examples.push(example);
+        }
+    }
+
+    /**
+     * Summarise the plan for review before importing
+     * @returns {Object} Counts, names, a sample of tasks and skipped fields
+     */
+    toPreview() {
+        const projectNames = new Map(
+            this.projects.map((project) => [project.key, project.name])
+        );
+        const areaNames = new Map(
+            this.areas.map((area) => [area.key, area.name])
+        );
+
+        return {
+            source: this.source,
+            counts: {
+                areas: this.areas.length,
+                projects: this.projects.length,
+                tags: this.tags.size,
+                tasks: this.tasks.length,
+                subtasks: this.tasks.filter((task) => task.parent_key).length,
+                recurring: this.tasks.filter((task) => task.recurrence).length,
+                completed: this.tasks.filter(
+                    (task) => task.status === Task.STATUS.DONE
+                ).length,
+            },
+            areas: this.areas.map((area) => area.name),
+            projects: this.projects.map((project) => ({
+                name: project.name,
+                area: areaNames.get(project.area_key) || null,
+            })),
+            tags: [...this.tags],
+            tasks: this.tasks.slice(0, PREVIEW_TASK_LIMIT).map((task) => ({
+                name: task.name,
+                project: projectNames.get(task.project_key) || null,
+                parent: task.parent_key
+                    ? this.getTask(task.parent_key).name
+                    : null,
+                due_date: formatDay(task.due_date),
+                priority: task.priority,
+                status: task.status,
+                recurrence_type: task.recurrence
+                    ? task.recurrence.recurrence_type
+                    : 'none',
+                tags: task.tags,
+            })),
+            unmapped: [...this.skipped.values()],
+        };
+    }
+
+    /**
+     * Convert the plan to a backup archive for backupService.importUserData
+     * @returns {Object} Archive
+     */
+    toArchive() {
+        return {
+            format: backupService.ARCHIVE_FORMAT,
+            version: backupService.ARCHIVE_VERSION,
+            tags: [...this.tags],
+            areas: this.areas.map(({ key, name }) => ({ id: key, name })),
+            projects: this.projects.map(({ key, area_key, ...project }) => ({
+                ...project,
+                id: key,
+                area_id: area_key || null,
+            })),
+            tasks: this.tasks.map(
+                ({ key, project_key, parent_key, recurrence, ...task }) => ({
+                    ...task,
+                    ...recurrence,
+                    id: key,
+                    project_id: project_key || null,
+                    parent_task_id: parent_key || null,
+                })
+            ),
+        };
+    }
+}
+
+module.exports = ImportPlan;
@@ -0,0 +1,25 @@
+// Importers for other task managers. Each adapter exposes an id, a display
+// name, the file extensions it reads and parse(content, { filename }),
+// which returns an ImportPlan or throws when the file isn't its format.
+const ADAPTERS = [
+    require('./todoist'),
+    require('./ticktick'),
+    require('./things'),
+];
+
+function listImporters() {
+    return ADAPTERS.map(({ id, name, extensions }) => ({
+        id,
+        name,
+        extensions,
+    }));
+}
+
+function getImporter(id) {
+    return ADAPTERS.find((adapter) => adapter.id === id) || null;
+}
+
+module.exports = {
+    listImporters,
+    getImporter,
+};
@@ -0,0 +1,126 @@
+const { Task } = require('../../models');
+const ImportPlan = require('./importPlan');
+const { parseDay, parseTimestamp } = require('./common');
+
+// Things JSON is the format of its "json" URL command: a list of projects
+// and to-dos, each with a type and its attributes.
+
+function getStatus(attributes) {
+    if (attributes.canceled) return Task.STATUS.ARCHIVED;
+    if (attributes.completed) return Task.STATUS.DONE;
+    return Task.STATUS.NOT_STARTED;
+}
+
+function addTodo(plan, attributes, projectKey) {
+    const name = attributes.title;
+    const fields = {
+        name,
+        note: attributes.notes || null,
+        tags: attributes.tags || [],
+        project_key: projectKey,
+        status: getStatus(attributes),
+        due_date: parseDay(attributes.deadline),
+    };
+    if (fields.status === Task.STATUS.DONE) {
+        fields.completed_at = parseTimestamp(attributes['completion-date']);
+    }
+    if (attributes['creation-date']) {
+        fields.created_at = parseTimestamp(attributes['creation-date']);
+    }
+
+    // "when" is the day Things starts showing a to-do
+    const when = attributes.when;
+    if (when === 'today' || when === 'evening') {
+        fields.today = true;
+    } else if (when === 'someday') {
+        plan.skip('when', 'Someday has no equivalent', name);
+    } else if (when && when !== 'anytime') {
+        const day = parseDay(String(when).split('@')[0]);
+        if (day && !fields.due_date) {
+            fields.due_date = day;
+        } else if (day) {
+            plan.skip(
+                'when',
+                'Start dates are dropped when a deadline is set',
+                name
+            );
+        }
+    }
+
+    const key = plan.addTask(fields);
+    (attributes['checklist-items'] || []).forEach((item) => {
+        const itemAttributes = item.attributes || {};
+        plan.addTask({
+            name: itemAttributes.title,
+            project_key: projectKey,
+            parent_key: key,
+            status: itemAttributes.completed
+                ? Task.STATUS.DONE
+                : Task.STATUS.NOT_STARTED,
+        });
+    });
+    return key;
+}
+
+function addProject(plan, attributes) {
+    const projectKey = plan.addProject(attributes.title, {
+        description: attributes.notes || null,
+        area_key: plan.addArea(attributes.area),
+        tags: attributes.tags || [],
+        active: getStatus(attributes) === Task.STATUS.NOT_STARTED,
+        due_date_at: parseDay(attributes.deadline),
+    });
+
+    (attributes.items || []).forEach((item) => {
+        const itemAttributes = item.attributes || {};
+        if (item.type === 'to-do') {
+            addTodo(plan, itemAttributes, projectKey);
+        } else if (item.type === 'heading') {
+            plan.skip(
+                'heading',
+                'Headings are not supported; their to-dos stay in the project',
+                itemAttributes.title
+            );
+        }
+    });
+}
+
+function parse(content) {
+    const data = JSON.parse(content);
+    const items = Array.isArray(data) ? data : data && data.items;
+    if (!Array.isArray(items)) {
+        throw new Error('Things JSON is a list of projects and to-dos');
+    }
+
+    const plan = new ImportPlan('things');
+    items.forEach((item) => {
+        const attributes = (item && item.attributes) || {};
+        if (item.type === 'project') {
+            addProject(plan, attributes);
+        } else if (item.type === 'to-do') {
+            if (!attributes.list && attributes.area) {
+                plan.skip(
+                    'area',
+                    'To-dos directly in an area are imported without a project',
+                    attributes.title
+                );
+            }
+            addTodo(plan, attributes, plan.addProject(attributes.list));
+        } else {
+            plan.skip(
+                'type',
+                'Only projects and to-dos are imported',
+                String(item && item.type)
+            );
+        }
+    });
+
+    return plan;
+}
+
+module.exports = {
+    id: 'things',
+    name: 'Things',
+    extensions: ['.json'],
+    parse,
+};
@@ -0,0 +1,131 @@
+const { Task } = require('../../models');
+const { parseRecurrenceRule } = require('../icalService');
+const ImportPlan = require('./importPlan');
+const { parseCsv, toRecords, parseDay, parseTimestamp } = require('./common');
+
+// TickTick backups are a single CSV with a few lines of metadata above the
+// header row. Folders hold lists; both become areas and projects here.
+
+const PRIORITIES = {
+    0: Task.PRIORITY.LOW,
+    1: Task.PRIORITY.LOW,
+    3: Task.PRIORITY.MEDIUM,
+    5: Task.PRIORITY.HIGH,
+};
+
+// Checklist items are written into the content as "▫item" / "▪done item"
+const CHECKLIST_ITEM = /^([▫▪])\s*(.+)$/;
+
+function addChecklist(plan, record, parentKey) {
+    const noteLines = [];
+    record.Content.split(/\r?\n/).forEach((line) => {
+        const match = line.trim().match(CHECKLIST_ITEM);
+        if (!match) {
+            noteLines.push(line);
+            return;
+        }
+        plan.addTask({
+            name: match[2],
+            project_key: plan.getTask(parentKey).project_key,
+            parent_key: parentKey,
+            status:
+                match[1] === '▪' ? Task.STATUS.DONE : Task.STATUS.NOT_STARTED,
+        });
+    });
+    return noteLines.join('\n').trim() || null;
+}
+
+function parse(content) {
+    const rows = parseCsv(content);
+    const headerIndex = rows.findIndex(
+        (fields) => fields[0] && fields[0].trim() === 'Folder Name'
+    );
+    if (headerIndex === -1) {
+        throw new Error('TickTick backups contain a "Folder Name",… header');
+    }
+
+    const plan = new ImportPlan('ticktick');
+    const taskKeys = new Map();
+    const parentIds = new Map();
+
+    for (const record of toRecords(rows, headerIndex)) {
+        const name = record.Title;
+        if (record.Kind === 'NOTE') {
+            plan.skip('Kind', 'Notes are not imported', name);
+            continue;
+        }
+
+        const areaKey = plan.addArea(record['Folder Name']);
+        const projectKey =
+            record['List Name'] && record['List Name'] !== 'Inbox'
+                ? plan.addProject(record['List Name'], { area_key: areaKey })
+                : null;
+        const fields = {
+            name,
+            note: record.Content || null,
+            tags: record.Tags ? record.Tags.split(',') : [],
+            project_key: projectKey,
+            priority: PRIORITIES[record.Priority] ?? Task.PRIORITY.LOW,
+            due_date: parseDay(record['Due Date'], record.Timezone),
+        };
+        if (record.Status === '1' || record.Status === '2') {
+            fields.status = Task.STATUS.DONE;
+            fields.completed_at = parseTimestamp(record['Completed Time']);
+        }
+        if (record['Created Time']) {
+            fields.created_at = parseTimestamp(record['Created Time']);
+        }
+        if (record.Repeat) {
+            const recurrence = parseRecurrenceRule(record.Repeat);
+            if (recurrence) {
+                fields.recurrence = recurrence;
+            } else {
+                plan.skip(
+                    'Repeat',
+                    'Repeat rule has no equivalent; imported without repeating',
+                    `${name} (${record.Repeat})`
+                );
+            }
+        }
+
+        const key = plan.addTask(fields);
+        if (record.Kind === 'CHECKLIST' && record.Content) {
+            plan.getTask(key).note = addChecklist(plan, record, key);
+        }
+        if (record.taskId) taskKeys.set(record.taskId, key);
+        if (record.parentId) parentIds.set(key, record.parentId);
+
+        if (fields.due_date && record['Is All Day'] === 'false') {
+            plan.skip(
+                'Due Date',
+                'Due times are dropped; the day is kept',
+                name
+            );
+        }
+        if (record.Reminder) {
+            plan.skip('Reminder', 'Reminders are not imported', name);
+        }
+        if (record['Column Name']) {
+            plan.skip(
+                'Column Name',
+                'Kanban columns are not imported',
+                record['Column Name']
+            );
+        }
+    }
+
+    parentIds.forEach((parentId, key) => {
+        if (taskKeys.has(parentId)) {
+            plan.getTask(key).parent_key = taskKeys.get(parentId);
+        }
+    });
+
+    return plan;
+}
+
+module.exports = {
+    id: 'ticktick',
+    name: 'TickTick',
+    extensions: ['.csv'],
+    parse,
+};
@@ -0,0 +1,329 @@
+const path = require('path');
+const { Task } = require('../../models');
+const ImportPlan = require('./importPlan');
+const { parseCsv, toRecords, parseDay, parseTimestamp } = require('./common');
+
+// Todoist exports projects as CSV templates (one file per project) and the
+// account as a Sync API JSON dump.
+
+const WEEKDAYS = [
+    'sunday',
+    'monday',
+    'tuesday',
+    'wednesday',
+    'thursday',
+    'friday',
+    'saturday',
+];
+const ORDINALS = {
+    first: 1,
+    '1st': 1,
+    second: 2,
+    '2nd': 2,
+    third: 3,
+    '3rd': 3,
+    fourth: 4,
+    '4th': 4,
+    fifth: 5,
+    '5th': 5,
+};
+const PERIODS = { day: 'daily', week: 'weekly', month: 'monthly' };
+
+// p1 is the most urgent; the CSV counts 1-4 from p1, the API counts 4-1
+const PRIORITIES = {
+    1: Task.PRIORITY.HIGH,
+    2: Task.PRIORITY.MEDIUM,
+    3: Task.PRIORITY.LOW,
+    4: Task.PRIORITY.LOW,
+};
+
+const parseWeekday = (word) =>
+    word.length >= 3 ? WEEKDAYS.findIndex((day) => day.startsWith(word)) : -1;
+
+/**
+ * Read an English Todoist recurring date like "every 2 weeks",
+ * "every! monday" or "every last day"
+ * @param {string} text - Recurring due string
+ * @returns {Object|null} Recurrence fields, or null when not expressible
+ */
+function parseRecurrenceText(text) {
+    const aliases = {
+        daily: 'every day',
+        weekly: 'every week',
+        monthly: 'every month',
+    };
+    const normalized = String(text).trim().toLowerCase().replace(/\s+/g, ' ');
+    const match = (aliases[normalized] || normalized).match(
+        /^(?:every|ev)(!?) (other )?(.+)$/
+    );
+    if (!match) return null;
+
+    // "every!" counts from the completion date
+    const recurrence = {
+        recurrence_interval: match[2] ? 2 : 1,
+        completion_based: match[1] === '!',
+    };
+    const rest = match[3];
+    let parts;
+
+    if ((parts = rest.match(/^(?:(\d+) )?(day|week|month)s?$/))) {
+        if (parts[1] && match[2]) return null;
+        recurrence.recurrence_type = PERIODS[parts[2]];
+        if (parts[1]) recurrence.recurrence_interval = parseInt(parts[1], 10);
+    } else if (parseWeekday(rest) !== -1) {
+        recurrence.recurrence_type = 'weekly';
+        recurrence.recurrence_weekday = parseWeekday(rest);
+    } else if (/^last day(?: of (?:the )?month)?$/.test(rest)) {
+        recurrence.recurrence_type = 'monthly_last_day';
+    } else if ((parts = rest.match(/^(\d{1,2})(?:st|nd|rd|th)?$/))) {
+        const monthDay = parseInt(parts[1], 10);
+        if (monthDay < 1 || monthDay > 31) return null;
+        recurrence.recurrence_type = 'monthly';
+        recurrence.recurrence_month_day = monthDay;
+    } else if (
+        (parts = rest.match(/^(\S+) (\S+)$/)) &&
+        ORDINALS[parts[1]] &&
+        parseWeekday(parts[2]) !== -1
+    ) {
+        recurrence.recurrence_type = 'monthly_weekday';
+        recurrence.recurrence_week_of_month = ORDINALS[parts[1]];
+        recurrence.recurrence_weekday = parseWeekday(parts[2]);
+    } else {
+        return null;
+    }
+
+    return recurrence;
+}
+
+const isRecurringText = (text) => /^(every|ev)!?\s/i.test(text.trim());
+
+// Due dates are either a day (possibly with a time) or a recurring phrase
+function applyDue(plan, task, { date, string, isRecurring }) {
+    const recurring = Boolean(
+        string && (isRecurring || isRecurringText(string))
+    );
+    if (recurring) {
+        const recurrence = parseRecurrenceText(string);
+        if (recurrence) {
+            task.recurrence = recurrence;
+        } else {
+            plan.skip(
+                'due',
+                'Repeat rule has no equivalent; imported without repeating',
+                `${task.name} ("${string}")`
+            );
+        }
+    }
+
+    const value = date || (recurring ? null : string);
+    if (!value) return;
+    task.due_date = parseDay(value);
+    if (!task.due_date) {
+        plan.skip(
+            'due',
+            'Relative or unrecognised date; imported without a due date',
+            `${task.name} ("${value}")`
+        );
+    }
+}
+
+function appendNote(task, text) {
+    if (!text) return;
+    task.note = task.note ? `${task.note}\n\n${text}` : text;
+}
+
+// Labels are written into the task name as @label
+function extractLabels(content) {
+    const tags = [];
+    const name = content
+        .replace(/(^|\s)@([^\s@]+)/g, (match, space, label) => {
+            tags.push(label);
+            return space;
+        })
+        .replace(/\s+/g, ' ')
+        .trim();
+    return { name, tags };
+}
+
+function parseTemplate(text, filename) {
+    const rows = parseCsv(text);
+    if (!rows.length || !rows[0].map((name) => name.trim()).includes('TYPE')) {
+        throw new Error('Todoist CSV files start with a TYPE,CONTENT,… header');
+    }
+
+    const plan = new ImportPlan('todoist');
+    const projectName = filename
+        ? path.basename(filename, path.extname(filename))
+        : 'Todoist';
+    const projectKey = plan.addProject(projectName);
+
+    // Subtasks are flattened to one level below the top-level task
+    let topLevelKey = null;
+    let lastTask = null;
+    for (const record of toRecords(rows)) {
+        const type = record.TYPE.toLowerCase();
+
+        if (type === 'section') {
+            plan.skip(
+                'section',
+                'Sections are not supported; their tasks stay in the project',
+                record.CONTENT
+            );
+        } else if (type === 'note' && lastTask) {
+            appendNote(lastTask, record.CONTENT);
+        } else if (type === 'task') {
+            const indent = parseInt(record.INDENT, 10) || 1;
+            const { name, tags } = extractLabels(record.CONTENT);
+            const fields = {
+                name,
+                note: record.DESCRIPTION || null,
+                tags,
+                project_key: projectKey,
+                priority: PRIORITIES[record.PRIORITY] ?? Task.PRIORITY.LOW,
+                parent_key: indent > 1 ? topLevelKey : null,
+            };
+            applyDue(plan, fields, { string: record.DATE });
+
+            const key = plan.addTask(fields);
+            lastTask = plan.getTask(key);
+            if (indent === 1 || !topLevelKey) topLevelKey = key;
+            if (indent > 2) {
+                plan.skip(
+                    'INDENT',
+                    'Nested subtasks are moved up to the top-level task',
+                    name
+                );
+            }
+            if (record.RESPONSIBLE) {
+                plan.skip('RESPONSIBLE', 'Assignees are not imported', name);
+            }
+            if (record.DURATION) {
+                plan.skip('DURATION', 'Durations are not imported', name);
+            }
+        }
+    }
+
+    return plan;
+}
+
+function parseBackup(data) {
+    if (!data || !Array.isArray(data.items)) {
+        throw new Error('Todoist JSON backups contain an "items" list');
+    }
+
+    const plan = new ImportPlan('todoist');
+    const projectKeys = new Map();
+    (data.projects || []).forEach((project) => {
+        if (project.is_deleted || project.inbox_project) return;
+        projectKeys.set(
+            project.id,
+            plan.addProject(project.name, {
+                active: !project.is_archived,
+            })
+        );
+        if (project.parent_id) {
+            plan.skip(
+                'parent_id',
+                'Nested projects are imported as top-level projects',
+                project.name
+            );
+        }
+    });
+    (data.labels || []).forEach((label) => plan.addTag(label.name));
+
+    const sections = new Map(
+        (data.sections || []).map((section) => [section.id, section.name])
+    );
+    const items = data.items.filter((item) => !item.is_deleted);
+    const itemsById = new Map(items.map((item) => [item.id, item]));
+    const taskKeys = new Map();
+
+    items.forEach((item) => {
+        const fields = {
+            name: item.content,
+            note: item.description || null,
+            tags: item.labels || [],
+            project_key: projectKeys.get(item.project_id) || null,
+            priority: PRIORITIES[5 - item.priority] ?? Task.PRIORITY.LOW,
+        };
+        if (item.checked) {
+            fields.status = Task.STATUS.DONE;
+            fields.completed_at = parseTimestamp(item.completed_at);
+        }
+        if (item.due) {
+            applyDue(plan, fields, {
+                date: item.due.date,
+                string: item.due.string,
+                isRecurring: item.due.is_recurring,
+            });
+        }
+        taskKeys.set(item.id, plan.addTask(fields));
+
+        if (item.section_id && sections.has(item.section_id)) {
+            plan.skip(
+                'section',
+                'Sections are not supported; their tasks stay in the project',
+                sections.get(item.section_id)
+            );
+        }
+        if (item.responsible_uid) {
+            plan.skip(
+                'responsible_uid',
+                'Assignees are not imported',
+                item.content
+            );
+        }
+        if (item.duration) {
+            plan.skip('duration', 'Durations are not imported', item.content);
+        }
+    });
+
+    // Parents may come after their subtasks in the dump
+    items.forEach((item) => {
+        if (!item.parent_id || !itemsById.has(item.parent_id)) return;
+        let parent = itemsById.get(item.parent_id);
+        if (parent.parent_id && itemsById.has(parent.parent_id)) {
+            plan.skip(
+                'parent_id',
+                'Nested subtasks are moved up to the top-level task',
+                item.content
+            );
+            while (parent.parent_id && itemsById.has(parent.parent_id)) {
+                parent = itemsById.get(parent.parent_id);
+            }
+        }
+        plan.getTask(taskKeys.get(item.id)).parent_key = taskKeys.get(
+            parent.id
+        );
+    });
+
+    (data.notes || []).forEach((note) => {
+        if (note.is_deleted || !taskKeys.has(note.item_id)) return;
+        appendNote(plan.getTask(taskKeys.get(note.item_id)), note.content);
+    });
+
+    return plan;
+}
+
+module.exports = {
+    id: 'todoist',
+    name: 'Todoist',
+    extensions: ['.csv', '.json'],
+
+    /**
+     * @param {string} content - File contents
+     * @param {Object} options - { filename } names the project of a CSV
+     * @returns {ImportPlan}
+     */
+    parse(content, { filename } = {}) {
+        const text = String(content).trim();
+        return text.startsWith('{')
+            ? parseBackup(JSON.parse(text))
+            : parseTemplate(text, filename);
+    },
+
+    _helpers: {
+        parseRecurrenceText,
+        extractLabels,
+    },
+};
@@ -0,0 +1,346 @@
+const path = require('path');
+const yaml = require('js-yaml');
+const { sequelize, Note, Project, Tag } = require('../models');
+const { isZip, readZip, writeZip } = require('./zipArchive');
+
+// Notes travel as a vault of markdown files, one folder per project, with
+// their title, tags, project and timestamps in YAML front matter:
+//   ---
+//   title: Seed order
+//   tags:
+//     - spring
+//   project: Garden
+//   created: 2025-03-01T09:00:00.000Z
+//   updated: 2025-03-02T17:30:00.000Z
+//   ---
+//   Tomatoes, basil...
+
+const FRONT_MATTER = /^---[ \t]*\r?\n([\s\S]*?)\r?\n?---[ \t]*(?:\r?\n|$)/;
+
+// Characters that aren't allowed in file names on common filesystems
+const toFileName = (name) =>
+    String(name || '')
+        .replace(/[\\/:*?"<>|]/g, '-')
+        .replace(/\s+/g, ' ')
+        .replace(/^\.+/, '')
+        .trim()
+        .slice(0, 120);
+
+const toDate = (value) => {
+    if (value === undefined || value === null || value === '') return null;
+    const date = new Date(value);
+    return Number.isNaN(date.getTime()) ? null : date;
+};
+
+const sameTags = (a, b) =>
+    a.length === b.length &&
+    [...a].sort().join('\n') === [...b].sort().join('\n');
+
+/**
+ * Write a note as a markdown file with front matter
+ * @param {Object} note - Note record with its Project and Tags loaded
+ * @returns {string} File contents
+ */
+function formatNote(note) {
+    const frontMatter = {};
+    if (note.title) frontMatter.title = note.title;
+    if (note.Tags && note.Tags.length > 0) {
+        frontMatter.tags = note.Tags.map((tag) => tag.name);
+    }
+    if (note.Project) frontMatter.project = note.Project.name;
+    frontMatter.created = new Date(note.created_at);
+    frontMatter.updated = new Date(note.updated_at);
+
+    return `---\n${yaml.dump(frontMatter, { lineWidth: -1 })}---\n${note.content || ''}`;
+}
+
+/**
+ * Read a markdown file. Front matter wins; otherwise the title comes from
+ * the file name and the project from the top-level folder.
+ * @param {string} text - File contents
+ * @param {string} filePath - Path inside the vault, with / separators
+ * @returns {Object} { title, content, tags, project, created_at, updated_at,
+ *   warnings }
+ */
+function parseNote(text, filePath) {
+    const source = String(text).replace(/^\uFEFF/, '');
+    const folders = filePath.split('/').slice(0, -1);
+    const note = {
+        title: path.posix.basename(filePath).replace(/\.md$/i, ''),
+        content: source,
+        tags: [],
+        project: folders[0] || null,
+        created_at: null,
+        updated_at: null,
+        warnings: [],
+    };
+
+    const match = source.match(FRONT_MATTER);
+    if (!match) return note;
+
+    let data;
+    try {
+        data = yaml.load(match[1]) || {};
+    } catch (error) {
+        note.warnings.push(`front matter is not valid YAML (${error.reason})`);
+        return note;
+    }
+    if (typeof data !== 'object' || Array.isArray(data)) return note;
+
+    note.content = source.slice(match[0].length);
+    if (data.title !== undefined && data.title !== null) {
+        note.title = String(data.title);
+    }
+    if (data.project) note.project = String(data.project);
+
+    // Obsidian accepts a list or a comma separated string, with or without #
+    const tags = Array.isArray(data.tags)
+        ? data.tags
+        : String(data.tags || '').split(',');
+    note.tags = [
+        ...new Set(
+            tags
+                .map((tag) => String(tag).trim().replace(/^#/, ''))
+                .filter(Boolean)
+        ),
+    ];
+
+    note.created_at = toDate(data.created);
+    note.updated_at = toDate(data.updated);
+    return note;
+}
+
+/**
+ * Write all of a user's notes as a zipped vault
+ * @param {Object} user - User record
+ * @returns {Promise<Buffer>} ZIP file contents
+ */
+async function exportNotesVault(user) {
+    const notes = await Note.findAll({
+        where: { user_id: user.id },
+        include: [
+            { model: Project, attributes: ['name'] },
+            {
+                model: Tag,
+                attributes: ['name'],
+                through: { attributes: [] },
+            },
+        ],
+        order: [['id', 'ASC']],
+    });
+
+    // Case-insensitive filesystems treat "Ideas.md" and "ideas.md" as one
+    const usedPaths = new Set();
+    const entries = notes.map((note) => {
+        const folder = note.Project ? toFileName(note.Project.name) : '';
+        const base = toFileName(note.title) || 'Untitled';
+        let name;
+        for (let copy = 1; !name || usedPaths.has(name.toLowerCase()); copy++) {
+            const fileName = copy === 1 ? base : `${base} (${copy})`;
+            name = folder ? `${folder}/${fileName}.md` : `${fileName}.md`;
+        }
+        usedPaths.add(name.toLowerCase());
+
+        return { name, content: formatNote(note), date: note.updated_at };
+    });
+
+    return writeZip(entries);
+}
+
+/**
+ * Collect the markdown files of an upload. ZIP archives are unpacked; when
+ * everything sits in a folder named after the archive (as "compress folder"
+ * makes it), that folder is dropped from the paths.
+ * @param {Array<Object>} uploads - { name, content (Buffer), date }
+ * @returns {Object} { files: [{ path, text, date }], warnings }
+ */
+function collectFiles(uploads) {
+    const files = [];
+    const warnings = [];
+
+    uploads.forEach((upload) => {
+        let entries = [upload];
+        if (isZip(upload.content)) {
+            entries = readZip(upload.content);
+            const root = `${path.basename(upload.name, path.extname(upload.name))}/`;
+            if (entries.every((entry) => entry.name.startsWith(root))) {
+                entries.forEach((entry) => {
+                    entry.name = entry.name.slice(root.length);
+                });
+            }
+        }
+
+        entries.forEach((entry) => {
+            const parts = entry.name.replace(/\\/g, '/').split('/');
+            // Hidden files and folders hold editor settings such as .obsidian/
+            if (
+                parts.some(
+                    (part) => part.startsWith('.') || part === '__MACOSX'
+                )
+            ) {
+                return;
+            }
+            if (!/\.md$/i.test(entry.name)) {
+                warnings.push(`${entry.name}: not a markdown file`);
+                return;
+            }
+            files.push({
+                path: parts.filter(Boolean).join('/'),
+                text: entry.content.toString('utf8'),
+                date: entry.date || null,
+            });
+        });
+    });
+
+    return { files, warnings };
+}
+
+/**
+ * Add the notes of a vault to a user's account. Notes are matched by title:
+ * a file whose content, tags or project differ from an existing note of the
+ * same title updates it, an identical one is skipped.
+ * @param {Object} user - User record
+ * @param {Array<Object>} uploads - { name, content (Buffer), date } for ZIP
+ *   archives or markdown files
+ * @param {Object} options - { dryRun: roll back after building the report }
+ * @returns {Promise<Object>} Report of what was (or would be) imported
+ */
+async function importNotesVault(user, uploads, { dryRun = false } = {}) {
+    const { files, warnings } = collectFiles(uploads);
+    const report = {
+        dry_run: dryRun,
+        created: { notes: 0, projects: 0, tags: 0 },
+        updated: { notes: 0 },
+        skipped: { notes: 0 },
+        warnings,
+    };
+    if (files.length === 0) {
+        throw new Error('No markdown files found');
+    }
+
+    const projects = new Map();
+    const tags = new Map();
+    const seenTitles = new Set();
+
+    const transaction = await sequelize.transaction();
+    const findOrCreate = async (model, cache, name, counter) => {
+        if (!cache.has(name)) {
+            const [record, created] = await model.findOrCreate({
+                where: { name, user_id: user.id },
+                defaults: { name, user_id: user.id },
+                transaction,
+            });
+            if (created) report.created[counter]++;
+            cache.set(name, record);
+        }
+        return cache.get(name);
+    };
+
+    try {
+        for (const file of files) {
+            const parsed = parseNote(file.text, file.path);
+            parsed.warnings.forEach((warning) =>
+                report.warnings.push(`${file.path}: ${warning}`)
+            );
+            if (seenTitles.has(parsed.title)) {
+                report.warnings.push(
+                    `${file.path}: another file already has the title "${parsed.title}"`
+                );
+                report.skipped.notes++;
+                continue;
+            }
+            seenTitles.add(parsed.title);
+
+            const existing = await Note.findOne({
+                where: { title: parsed.title, user_id: user.id },
+                include: [
+                    { model: Project, attributes: ['name'] },
+                    {
+                        model: Tag,
+                        attributes: ['name'],
+                        through: { attributes: [] },
+                    },
+                ],
+                order: [['id', 'ASC']],
+                transaction,
+            });
+            if (
+                existing &&
+                (existing.content || '') === parsed.content &&
+                sameTags(
+                    existing.Tags.map((tag) => tag.name),
+                    parsed.tags
+                ) &&
+                (existing.Project ? existing.Project.name : null) ===
+                    parsed.project
+            ) {
+                report.skipped.notes++;
+                continue;
+            }
+
+            const project = parsed.project
+                ? await findOrCreate(
+                      Project,
+                      projects,
+                      parsed.project,
+                      'projects'
+                  )
+                : null;
+            const noteTags = [];
+            for (const name of parsed.tags) {
+                noteTags.push(await findOrCreate(Tag, tags, name, 'tags'));
+            }
+
+            // An edited file is newer than the timestamp in its front matter
+            const modified = [parsed.updated_at, file.date]
+                .filter(Boolean)
+                .sort((a, b) => b - a)[0];
+            const values = {
+                content: parsed.content,
+                project_id: project ? project.id : null,
+            };
+
+            let note;
+            if (existing) {
+                note = existing;
+                await Note.update(
+                    { ...values, updated_at: modified || new Date() },
+                    { where: { id: note.id }, silent: true, transaction }
+                );
+                report.updated.notes++;
+            } else {
+                const now = new Date();
+                note = await Note.create(
+                    {
+                        ...values,
+                        title: parsed.title,
+                        user_id: user.id,
+                        created_at: parsed.created_at || modified || now,
+                        updated_at: modified || now,
+                    },
+                    { silent: true, transaction }
+                );
+                report.created.notes++;
+            }
+            await note.setTags(noteTags, { transaction });
+        }
+    } catch (error) {
+        await transaction.rollback();
+        throw error;
+    }
+
+    if (dryRun) {
+        await transaction.rollback();
+    } else {
+        await transaction.commit();
+    }
+
+    return report;
+}
+
+module.exports = {
+    formatNote,
+    parseNote,
+    exportNotesVault,
+    importNotesVault,
+};
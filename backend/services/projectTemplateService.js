@@ -0,0 +1,347 @@
+const {
+    sequelize,
+    Area,
+    Project,
+    ProjectSection,
+    Task,
+    Tag,
+    Note,
+} = require('../models');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const PLACEHOLDER_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+const withTags = {
+    model: Tag,
+    attributes: ['name'],
+    through: { attributes: [] },
+};
+
+const tagNames = (record) => (record.Tags || []).map((tag) => tag.name);
+
+const startOfDay = (date) =>
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+
+/**
+ * Read a YYYY-MM-DD start date, defaulting to today
+ * @param {string} [value] - Start date
+ * @returns {number|null} Midnight UTC in milliseconds, or null when invalid
+ */
+function parseStartDate(value) {
+    if (value === undefined || value === null || value === '') {
+        return startOfDay(new Date());
+    }
+    if (typeof value !== 'string' || !DATE_PATTERN.test(value)) {
+        return null;
+    }
+    const date = new Date(`${value}T00:00:00Z`);
+    return isNaN(date.getTime()) ? null : date.getTime();
+}
+
+// Whole days between the start date and a date, or null without a date
+const toOffset = (date, start) =>
+    date ? Math.round((startOfDay(new Date(date)) - start) / DAY_MS) : null;
+
+const fromOffset = (offset, start) =>
+    Number.isInteger(offset) ? new Date(start + offset * DAY_MS) : null;
+
+// Turn the values being templated back into {{placeholders}}
+function insertPlaceholders(text, placeholders) {
+    return Object.entries(placeholders).reduce(
+        (result, [key, value]) =>
+            value ? result.split(value).join(`{{${key}}}`) : result,
+        text || ''
+    );
+}
+
+const fillPlaceholders = (text, values) =>
+    (text || '').replace(PLACEHOLDER_PATTERN, (match, key) =>
+        values[key] !== undefined ? String(values[key]) : match
+    );
+
+/**
+ * Names of the placeholders used in a template's names
+ * @param {Object} content - Template content
+ * @returns {Array<string>} Placeholder names in order of appearance
+ */
+function placeholdersOf(content) {
+    const names = [
+        content.project && content.project.name,
+        ...(content.sections || []).map((section) => section.name),
+        ...(content.tasks || []).flatMap((task) => [
+            task.name,
+            ...(task.subtasks || []).map((subtask) => subtask.name),
+        ]),
+        ...(content.notes || []).map((note) => note.title),
+    ];
+
+    const placeholders = new Set();
+    names.forEach((name) => {
+        for (const match of (name || '').matchAll(PLACEHOLDER_PATTERN)) {
+            placeholders.add(match[1]);
+        }
+    });
+    return [...placeholders];
+}
+
+/**
+ * Capture a project as template content
+ * @param {Object} project - Project record to capture
+ * @param {Object} options - { startDate: YYYY-MM-DD dates are relative to,
+ *     placeholders: { key: text in names to replace with {{key}} } }
+ * @returns {Promise<Object>} Template content
+ */
+async function buildTemplate(project, { startDate, placeholders = {} } = {}) {
+    const start = parseStartDate(startDate);
+    const named = (text) => insertPlaceholders(text, placeholders);
+
+    const sections = await ProjectSection.findAll({
+        where: { project_id: project.id },
+        order: [
+            ['position', 'ASC'],
+            ['id', 'ASC'],
+        ],
+    });
+    const tasks = await Task.findAll({
+        where: {
+            project_id: project.id,
+            parent_task_id: null,
+            recurring_parent_id: null,
+        },
+        include: [
+            withTags,
+            { model: Task, as: 'Subtasks', include: [withTags] },
+        ],
+        order: [
+            ['position', 'ASC NULLS LAST'],
+            ['id', 'ASC'],
+            [{ model: Task, as: 'Subtasks' }, 'id', 'ASC'],
+        ],
+    });
+    const notes = await Note.findAll({
+        where: { project_id: project.id },
+        include: [withTags],
+        order: [['id', 'ASC']],
+    });
+    const projectTags = await project.getTags();
+
+    const sectionIndexes = new Map(
+        sections.map((section, index) => [section.id, index])
+    );
+    const taskContent = (task) => ({
+        name: named(task.name),
+        note: task.note || null,
+        priority: task.priority,
+        due_offset_days: toOffset(task.due_date, start),
+        tags: tagNames(task),
+    });
+
+    return {
+        project: {
+            name: named(project.name),
+            description: project.description || '',
+            priority: project.priority,
+            due_offset_days: toOffset(project.due_date_at, start),
+            tags: projectTags.map((tag) => tag.name),
+            view_mode: project.view_mode,
+            wip_limits: project.wip_limits,
+        },
+        sections: sections.map((section) => ({
+            name: named(section.name),
+            target_offset_days: toOffset(section.target_date, start),
+        })),
+        tasks: tasks.map((task) => ({
+            ...taskContent(task),
+            section_index: sectionIndexes.has(task.section_id)
+                ? sectionIndexes.get(task.section_id)
+                : null,
+            position: task.position,
+            subtasks: task.Subtasks.map(taskContent),
+        })),
+        notes: notes.map((note) => ({
+            title: named(note.title),
+            content: note.content || '',
+            tags: tagNames(note),
+        })),
+    };
+}
+
+/**
+ * Check the options for creating a project from a template
+ * @param {Object} template - ProjectTemplate record
+ * @param {Object} options - { start_date, values, area_id }
+ * @param {number} userId - User ID
+ * @returns {Promise<string|null>} Error message, or null when valid
+ */
+async function validateInstantiation(template, options, userId) {
+    if (parseStartDate(options.start_date) === null) {
+        return 'Start date must be a YYYY-MM-DD date.';
+    }
+
+    const values = options.values || {};
+    if (typeof values !== 'object' || Array.isArray(values)) {
+        return 'Placeholder values must be an object.';
+    }
+    const missing = placeholdersOf(template.content).filter(
+        (key) => typeof values[key] !== 'string' || !values[key].trim()
+    );
+    if (missing.length > 0) {
+        return `Missing values for placeholders: ${missing.join(', ')}.`;
+    }
+
+    if (
+        options.area_id &&
+        !(await Area.findOne({
+            where: { id: options.area_id, user_id: userId },
+        }))
+    ) {
+        return 'Area not found.';
+    }
+    return null;
+}
+
+async function findOrCreateTags(names, userId, transaction, cache) {
+    const tags = [];
+    for (const name of names || []) {
+        if (typeof name !== 'string' || !name.trim()) continue;
+        if (!cache.has(name)) {
+            const [tag] = await Tag.findOrCreate({
+                where: { name: name.trim(), user_id: userId },
+                transaction,
+            });
+            cache.set(name, tag);
+        }
+        tags.push(cache.get(name));
+    }
+    return tags;
+}
+
+/**
+ * Create a project with its sections, tasks and notes from a template.
+ * Dates are laid out from the start date and placeholders in names are
+ * filled in. Everything happens in one transaction.
+ * @param {Object} template - ProjectTemplate record
+ * @param {number} userId - User ID
+ * @param {Object} options - { start_date, values, area_id }, already
+ *     validated
+ * @returns {Promise<Object>} The new project
+ */
+async function instantiateTemplate(template, userId, options = {}) {
+    const start = parseStartDate(options.start_date);
+    const values = Object.fromEntries(
+        Object.entries(options.values || {}).map(([key, value]) => [
+            key,
+            String(value).trim(),
+        ])
+    );
+    const named = (text) => fillPlaceholders(text, values);
+    const content = template.content || {};
+    const projectData = content.project || {};
+    const tagCache = new Map();
+
+    const transaction = await sequelize.transaction();
+    try {
+        const setTags = async (record, names) => {
+            const tags = await findOrCreateTags(
+                names,
+                userId,
+                transaction,
+                tagCache
+            );
+            if (tags.length > 0) {
+                await record.setTags(tags, { transaction });
+            }
+        };
+
+        const project = await Project.create(
+            {
+                name: named(projectData.name) || template.name,
+                description: projectData.description || '',
+                priority: Number.isInteger(projectData.priority)
+                    ? projectData.priority
+                    : null,
+                due_date_at: fromOffset(projectData.due_offset_days, start),
+                view_mode: projectData.view_mode || 'list',
+                wip_limits: projectData.wip_limits || {},
+                area_id: options.area_id || null,
+                user_id: userId,
+            },
+            { transaction }
+        );
+        await setTags(project, projectData.tags);
+
+        const sectionIds = [];
+        for (const [index, data] of (content.sections || []).entries()) {
+            const section = await ProjectSection.create(
+                {
+                    name: named(data.name),
+                    position: index,
+                    target_date: fromOffset(data.target_offset_days, start),
+                    project_id: project.id,
+                    user_id: userId,
+                },
+                { transaction }
+            );
+            sectionIds.push(section.id);
+        }
+
+        const createTask = async (data, attributes) => {
+            const task = await Task.create(
+                {
+                    name: named(data.name),
+                    note: data.note || null,
+                    priority: Number.isInteger(data.priority)
+                        ? data.priority
+                        : Task.PRIORITY.LOW,
+                    due_date: fromOffset(data.due_offset_days, start),
+                    status: Task.STATUS.NOT_STARTED,
+                    project_id: project.id,
+                    user_id: userId,
+                    ...attributes,
+                },
+                { transaction }
+            );
+            await setTags(task, data.tags);
+            return task;
+        };
+
+        for (const data of content.tasks || []) {
+            const task = await createTask(data, {
+                section_id: sectionIds[data.section_index] || null,
+                position:
+                    typeof data.position === 'number' ? data.position : null,
+            });
+            for (const subtask of data.subtasks || []) {
+                await createTask(subtask, { parent_task_id: task.id });
+            }
+        }
+
+        for (const data of content.notes || []) {
+            const note = await Note.create(
+                {
+                    title: named(data.title),
+                    content: data.content || '',
+                    project_id: project.id,
+                    user_id: userId,
+                },
+                { transaction }
+            );
+            await setTags(note, data.tags);
+        }
+
+        await transaction.commit();
+        return project;
+    } catch (error) {
+        await transaction.rollback();
+        throw error;
+    }
+}
+
+module.exports = {
+    parseStartDate,
+    placeholdersOf,
+    buildTemplate,
+    validateInstantiation,
+    instantiateTemplate,
+};
@@ -0,0 +1,104 @@
+const { Task, Tag, Project } = require('../models');
+const TaskEventService = require('./taskEventService');
+const changeEvents = require('./changeEvents');
+const {
+    parseQuickAdd,
+    hasTaskFields,
+    findProject,
+} = require('../../shared/quickAddParser');
+
+/**
+ * Parse quick add text relative to the user's current day
+ * @param {string} text - Raw text, e.g. "Pay rent tomorrow !high +Home"
+ * @param {string} timezone - User timezone
+ * @returns {Object} Parsed fields, see shared/quickAddParser.js
+ */
+function parse(text, timezone = 'UTC') {
+    return parseQuickAdd(text, { timezone: timezone || 'UTC' });
+}
+
+async function findOrCreateTags(tagNames, userId) {
+    const existingTags = await Tag.findAll({
+        where: { user_id: userId, name: tagNames },
+    });
+    const existingNames = existingTags.map((tag) => tag.name);
+
+    const createdTags = await Promise.all(
+        tagNames
+            .filter((name) => !existingNames.includes(name))
+            .map((name) => Tag.create({ name, user_id: userId }))
+    );
+
+    return [...existingTags, ...createdTags];
+}
+
+/**
+ * Create a task from parsed quick add text
+ * @param {number} userId - Owner of the task
+ * @param {string} text - Original text, used as the name if nothing else is left
+ * @param {Object} parsed - Result of parse()
+ * @param {Object} metadata - Event metadata such as { source: 'telegram' }
+ * @returns {Promise<Object>} { task, project } where project is null when
+ *   the text named no project or an unknown one
+ */
+async function createTaskFromParsed(userId, text, parsed, metadata = {}) {
+    const projects = parsed.project
+        ? await Project.findAll({
+              where: { user_id: userId },
+              attributes: ['id', 'name'],
+          })
+        : [];
+    const project = findProject(projects, parsed.project);
+
+    // Tasks only store a due date; the parsed time just decides which day
+    // a bare time like "8am" refers to
+    const task = await Task.create({
+        name: parsed.name || String(text).trim(),
+        priority: parsed.priority
+            ? Task.getPriorityValue(parsed.priority)
+            : Task.PRIORITY.LOW,
+        due_date: parsed.due_date,
+        project_id: project ? project.id : null,
+        status: Task.STATUS.NOT_STARTED,
+        user_id: userId,
+        ...(parsed.recurrence || {}),
+    });
+
+    if (parsed.tags.length > 0) {
+        await task.setTags(await findOrCreateTags(parsed.tags, userId));
+    }
+
+    try {
+        await TaskEventService.logTaskCreated(
+            task.id,
+            userId,
+            {
+                name: task.name,
+                status: task.status,
+                priority: task.priority,
+                due_date: task.due_date,
+                project_id: task.project_id,
+            },
+            metadata
+        );
+    } catch (eventError) {
+        console.error('Error logging task creation event:', eventError);
+    }
+
+    await changeEvents.publish(userId, 'task.created', {
+        task: {
+            ...task.toJSON(),
+            due_date: task.due_date
+                ? task.due_date.toISOString().split('T')[0]
+                : null,
+        },
+    });
+
+    return { task, project };
+}
+
+module.exports = {
+    parse,
+    hasTaskFields,
+    createTaskFromParsed,
+};
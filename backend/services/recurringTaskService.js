@@ -111,6 +111,7 @@ class RecurringTaskService {
             name: template.name,
             description: template.description,
             due_date: dueDate,
+            due_time: template.due_time,
             today: false,
             priority: template.priority,
             status: Task.STATUS.NOT_STARTED,
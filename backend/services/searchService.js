@@ -0,0 +1,130 @@
+const { Task, Note, Project, InboxItem, SearchIndex } = require('../models');
+const { Op } = require('sequelize');
+
+const DEFAULT_LIMIT = 10;
+const MAX_LIMIT = 50;
+
+// Response keys for each searchable entity type
+const RESULT_GROUPS = {
+    task: 'tasks',
+    note: 'notes',
+    project: 'projects',
+    inbox: 'inbox',
+};
+
+// Fields returned alongside each hit so the client can link to the record
+const RESULT_ATTRIBUTES = {
+    task: ['id', 'uuid', 'name', 'status', 'priority', 'project_id'],
+    note: ['id', 'title', 'project_id', 'updated_at'],
+    project: ['id', 'name', 'active'],
+    inbox: ['id', 'content', 'status', 'created_at'],
+};
+
+/**
+ * Turn free text into a safe FTS5 MATCH expression. Punctuation is dropped
+ * and every remaining word becomes a quoted prefix term, so operators or
+ * quotes in the input can't break the query.
+ * @param {string} text - Raw search text
+ * @returns {string|null} MATCH expression, or null when nothing is searchable
+ */
+function buildMatchQuery(text) {
+    const terms = String(text || '')
+        .replace(/[^\p{L}\p{N}_]+/gu, ' ')
+        .split(/\s+/)
+        .filter(Boolean);
+
+    if (terms.length === 0) {
+        return null;
+    }
+
+    return terms.map((term) => `"${term}"*`).join(' ');
+}
+
+/**
+ * Parse the requested entity types
+ * @param {string} typesParam - Comma separated list (task,note,project,inbox)
+ * @returns {string[]} Valid entity types
+ */
+function parseTypes(typesParam) {
+    if (!typesParam) {
+        return SearchIndex.SEARCH_TYPES;
+    }
+
+    return String(typesParam)
+        .split(',')
+        .map((type) => type.trim())
+        .filter((type) => SearchIndex.SEARCH_TYPES.includes(type));
+}
+
+function parseLimit(limitParam) {
+    const limit = parseInt(limitParam, 10);
+    if (!limit || limit < 1) {
+        return DEFAULT_LIMIT;
+    }
+    return Math.min(limit, MAX_LIMIT);
+}
+
+const MODELS = { task: Task, note: Note, project: Project, inbox: InboxItem };
+
+/**
+ * Search a user's tasks, notes, projects and inbox items
+ * @param {number} userId - User ID
+ * @param {Object} params - Query parameters
+ * @param {string} params.q - Search text
+ * @param {string} params.types - Optional comma separated entity types
+ * @param {number} params.limit - Optional max results per type
+ * @returns {Promise<Object>} Ranked results grouped by entity type
+ */
+async function search(userId, { q, types, limit } = {}) {
+    const matchQuery = buildMatchQuery(q);
+    const results = {};
+    let total = 0;
+
+    for (const type of parseTypes(types)) {
+        if (!matchQuery) {
+            results[RESULT_GROUPS[type]] = [];
+            continue;
+        }
+
+        const hits = await SearchIndex.search(
+            type,
+            matchQuery,
+            userId,
+            parseLimit(limit)
+        );
+
+        const records = await MODELS[type].findAll({
+            where: {
+                id: { [Op.in]: hits.map((hit) => hit.entity_id) },
+                user_id: userId,
+            },
+            attributes: RESULT_ATTRIBUTES[type],
+        });
+        const recordsById = new Map(
+            records.map((record) => [record.id, record.toJSON()])
+        );
+
+        // Keep FTS rank order and drop hits whose record has gone away
+        results[RESULT_GROUPS[type]] = hits
+            .filter((hit) => recordsById.has(hit.entity_id))
+            .map((hit) => ({
+                ...recordsById.get(hit.entity_id),
+                type,
+                title_highlight: hit.title_highlight,
+                snippet: hit.snippet,
+                rank: hit.rank,
+            }));
+        total += results[RESULT_GROUPS[type]].length;
+    }
+
+    return { query: q, total, results };
+}
+
+module.exports = {
+    search,
+    _helpers: {
+        buildMatchQuery,
+        parseTypes,
+        parseLimit,
+    },
+};
@@ -0,0 +1,156 @@
+const { Task } = require('../models');
+const TaskEventService = require('./taskEventService');
+const TaskDependencyService = require('./taskDependencyService');
+const changeEvents = require('./changeEvents');
+
+/**
+ * Service for managing subtasks (checklist items) of a task
+ */
+class SubtaskService {
+    /**
+     * Check whether a status value represents a completed task
+     * @param {number|string} status - Task status (integer or name)
+     * @returns {boolean} Whether the status is "done"
+     */
+    static isDone(status) {
+        return status === Task.STATUS.DONE || status === 'done';
+    }
+
+    /**
+     * Compute progress of a task's subtasks
+     * @param {number} taskId - Parent task ID
+     * @returns {Promise<Object>} Progress with total, done and percentage
+     */
+    static async getSubtaskProgress(taskId) {
+        const subtasks = await Task.findAll({
+            where: { parent_task_id: taskId },
+            attributes: ['status'],
+            raw: true,
+        });
+
+        const total = subtasks.length;
+        const done = subtasks.filter((s) => this.isDone(s.status)).length;
+
+        return {
+            total,
+            done,
+            percentage: total > 0 ? Math.round((done / total) * 100) : 0,
+        };
+    }
+
+    /**
+     * Log a subtask event on the parent task's timeline
+     * @param {string} eventType - subtask_added, subtask_completed or subtask_removed
+     * @param {Object} parentTask - The parent task
+     * @param {Object} subtask - The subtask that changed
+     * @param {number} userId - User ID
+     */
+    static async logSubtaskEvent(eventType, parentTask, subtask, userId) {
+        try {
+            await TaskEventService.logEvent({
+                taskId: parentTask.id,
+                userId,
+                eventType,
+                fieldName: 'subtasks',
+                newValue: { id: subtask.id, name: subtask.name },
+                metadata: { source: 'web', action: eventType },
+            });
+        } catch (eventError) {
+            console.error('Error logging subtask event:', eventError);
+            // Don't fail the request if event logging fails
+        }
+    }
+
+    /**
+     * Roll a subtask status change up onto its parent task.
+     * Logs the completion on the parent and, when the parent opted in via
+     * complete_with_subtasks, completes the parent once every subtask is done.
+     * @param {Object} subtask - The subtask whose status changed
+     * @param {number|string} oldStatus - Status before the change
+     * @param {number} userId - User ID
+     * @param {Array} loggedEvents - Collects the events of a parent completed
+     *   along with it, so an undo of the change can revert it (optional)
+     * @returns {Promise<Object|null>} The parent task, or null for top-level tasks
+     */
+    static async handleSubtaskStatusChange(
+        subtask,
+        oldStatus,
+        userId,
+        loggedEvents = []
+    ) {
+        if (!subtask.parent_task_id) {
+            return null;
+        }
+
+        const parentTask = await Task.findOne({
+            where: { id: subtask.parent_task_id, user_id: userId },
+        });
+
+        if (!parentTask) {
+            return null;
+        }
+
+        if (!this.isDone(subtask.status) || this.isDone(oldStatus)) {
+            return parentTask;
+        }
+
+        await this.logSubtaskEvent(
+            'subtask_completed',
+            parentTask,
+            subtask,
+            userId
+        );
+
+        if (
+            !parentTask.complete_with_subtasks ||
+            this.isDone(parentTask.status)
+        ) {
+            return parentTask;
+        }
+
+        const progress = await this.getSubtaskProgress(parentTask.id);
+        if (progress.total === 0 || progress.done < progress.total) {
+            return parentTask;
+        }
+
+        const previousStatus = parentTask.status;
+        await parentTask.update({
+            status: Task.STATUS.DONE,
+            completed_at: new Date(),
+        });
+
+        try {
+            loggedEvents.push(
+                await TaskEventService.logStatusChange(
+                    parentTask.id,
+                    userId,
+                    previousStatus,
+                    Task.STATUS.DONE,
+                    { source: 'web', trigger: 'subtasks_completed' }
+                )
+            );
+        } catch (eventError) {
+            console.error('Error logging parent completion event:', eventError);
+        }
+
+        await TaskDependencyService.handleStatusChange(
+            parentTask,
+            previousStatus,
+            userId,
+            loggedEvents
+        );
+
+        await changeEvents.publish(userId, 'task.completed', {
+            task: {
+                ...parentTask.toJSON(),
+                due_date: parentTask.due_date
+                    ? parentTask.due_date.toISOString().split('T')[0]
+                    : null,
+            },
+        });
+
+        return parentTask;
+    }
+}
+
+module.exports = SubtaskService;
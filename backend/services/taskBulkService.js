@@ -0,0 +1,285 @@
+const { Project, Tag, Task, sequelize } = require('../models');
+const TaskEventService = require('./taskEventService');
+const TaskDeletionService = require('./taskDeletionService');
+
+const BULK_OPERATIONS = [
+    'status',
+    'priority',
+    'project_id',
+    'add_tags',
+    'remove_tags',
+    'due_date_shift_days',
+    'today',
+    'delete',
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toValue = (value, values, getValue) => {
+    if (typeof value === 'number') {
+        return Object.values(values).includes(value) ? value : undefined;
+    }
+    if (typeof value === 'string' && value.toUpperCase() in values) {
+        return getValue(value);
+    }
+    return undefined;
+};
+
+const isTagList = (value) =>
+    Array.isArray(value) &&
+    value.every((name) => typeof name === 'string' && name.trim());
+
+const tagNames = (tags) => tags.map((tag) => tag.name).sort();
+
+/**
+ * Service for applying one set of changes to many tasks at once, such as
+ * while triaging
+ */
+class TaskBulkService {
+    /**
+     * Check an operation set before anything is changed
+     * @param {Object} operations - Changes to apply, keyed by BULK_OPERATIONS
+     * @param {number} userId - User ID
+     * @returns {Promise<string|null>} Error message, or null when valid
+     */
+    static async validate(operations, userId) {
+        if (!operations || typeof operations !== 'object') {
+            return 'Operations are required.';
+        }
+        const keys = Object.keys(operations);
+        const unknown = keys.filter((key) => !BULK_OPERATIONS.includes(key));
+        if (unknown.length > 0) {
+            return `Unknown operation: ${unknown.join(', ')}.`;
+        }
+        if (keys.length === 0) {
+            return 'Operations are required.';
+        }
+
+        if (operations.delete !== undefined) {
+            if (operations.delete !== true || keys.length > 1) {
+                return 'Delete cannot be combined with other operations.';
+            }
+            return null;
+        }
+
+        if (
+            operations.status !== undefined &&
+            toValue(operations.status, Task.STATUS, Task.getStatusValue) ===
+                undefined
+        ) {
+            return 'Invalid status.';
+        }
+        if (
+            operations.priority !== undefined &&
+            toValue(
+                operations.priority,
+                Task.PRIORITY,
+                Task.getPriorityValue
+            ) === undefined
+        ) {
+            return 'Invalid priority.';
+        }
+        if (operations.project_id) {
+            const project = await Project.findOne({
+                where: { id: operations.project_id, user_id: userId },
+            });
+            if (!project) return 'Invalid project.';
+        }
+        if (
+            (operations.add_tags !== undefined &&
+                !isTagList(operations.add_tags)) ||
+            (operations.remove_tags !== undefined &&
+                !isTagList(operations.remove_tags))
+        ) {
+            return 'Tags must be a list of tag names.';
+        }
+        if (
+            operations.due_date_shift_days !== undefined &&
+            !Number.isInteger(operations.due_date_shift_days)
+        ) {
+            return 'The due date shift must be a whole number of days.';
+        }
+        if (
+            operations.today !== undefined &&
+            typeof operations.today !== 'boolean'
+        ) {
+            return 'Today must be true or false.';
+        }
+        return null;
+    }
+
+    /**
+     * Apply a validated operation set to tasks in one transaction, logging
+     * the changes of every task. Nothing is changed if any task fails.
+     * @param {Array<Object>} tasks - Task records with their Tags
+     * @param {Object} operations - Changes to apply, keyed by BULK_OPERATIONS
+     * @param {number} userId - User ID
+     * @returns {Promise<Array>} The events logged
+     */
+    static async apply(tasks, operations, userId) {
+        const metadata = { source: 'web', trigger: 'bulk' };
+        const events = [];
+
+        const transaction = await sequelize.transaction();
+        try {
+            if (operations.delete) {
+                events.push(
+                    ...(await TaskDeletionService.trashTasks(
+                        tasks,
+                        userId,
+                        new Date(),
+                        transaction
+                    ))
+                );
+            } else {
+                const addedTags = [];
+                for (const name of [...new Set(operations.add_tags || [])]) {
+                    const [tag] = await Tag.findOrCreate({
+                        where: { name: name.trim(), user_id: userId },
+                        transaction,
+                    });
+                    addedTags.push(tag);
+                }
+
+                for (const task of tasks) {
+                    events.push(
+                        ...(await this.applyToTask(
+                            task,
+                            operations,
+                            addedTags,
+                            userId,
+                            metadata,
+                            transaction
+                        ))
+                    );
+                }
+            }
+        } catch (error) {
+            await transaction.rollback();
+            throw error;
+        }
+        await transaction.commit();
+
+        return events;
+    }
+
+    // Change one task's fields and tags, returning the events logged
+    static async applyToTask(
+        task,
+        operations,
+        addedTags,
+        userId,
+        metadata,
+        transaction
+    ) {
+        const attributes = {};
+        if (operations.status !== undefined) {
+            attributes.status = toValue(
+                operations.status,
+                Task.STATUS,
+                Task.getStatusValue
+            );
+            if (
+                attributes.status === Task.STATUS.DONE &&
+                task.status !== Task.STATUS.DONE
+            ) {
+                attributes.completed_at = new Date();
+            } else if (
+                attributes.status !== Task.STATUS.DONE &&
+                task.status === Task.STATUS.DONE
+            ) {
+                attributes.completed_at = null;
+            }
+        }
+        if (operations.priority !== undefined) {
+            attributes.priority = toValue(
+                operations.priority,
+                Task.PRIORITY,
+                Task.getPriorityValue
+            );
+        }
+        if (operations.project_id !== undefined) {
+            attributes.project_id = operations.project_id || null;
+            // Sections belong to the project the task leaves
+            if (attributes.project_id !== task.project_id) {
+                attributes.section_id = null;
+            }
+        }
+        if (operations.today !== undefined) {
+            attributes.today = operations.today;
+        }
+        // Tasks without a due date keep having none
+        if (operations.due_date_shift_days && task.due_date) {
+            attributes.due_date = new Date(
+                task.due_date.getTime() +
+                    operations.due_date_shift_days * DAY_MS
+            );
+        }
+
+        const changes = {};
+        Object.entries(attributes).forEach(([field, value]) => {
+            // Leaving a section goes along with the logged project change
+            if (field === 'completed_at' || field === 'section_id') return;
+            const oldValue = task[field];
+            const changed =
+                field === 'due_date'
+                    ? oldValue.getTime() !== value.getTime()
+                    : oldValue !== value;
+            if (changed) {
+                changes[field] = { oldValue, newValue: value };
+            }
+        });
+
+        if (Object.keys(attributes).length > 0) {
+            await task.update(attributes, { transaction });
+        }
+        const events = await TaskEventService.logTaskUpdate(
+            task.id,
+            userId,
+            changes,
+            metadata,
+            transaction
+        );
+
+        const oldTags = task.Tags || [];
+        const removed = (operations.remove_tags || []).map((name) =>
+            name.trim()
+        );
+        const newTags = [
+            ...oldTags.filter((tag) => !removed.includes(tag.name)),
+            ...addedTags.filter(
+                (tag) =>
+                    !removed.includes(tag.name) &&
+                    !oldTags.some((oldTag) => oldTag.id === tag.id)
+            ),
+        ];
+        if (
+            JSON.stringify(tagNames(oldTags)) !==
+            JSON.stringify(tagNames(newTags))
+        ) {
+            await task.setTags(newTags, { transaction });
+            events.push(
+                await TaskEventService.logEvent({
+                    taskId: task.id,
+                    userId,
+                    eventType: 'tags_changed',
+                    fieldName: 'tags',
+                    oldValue: oldTags.map((tag) => ({
+                        id: tag.id,
+                        name: tag.name,
+                    })),
+                    newValue: newTags.map((tag) => ({
+                        id: tag.id,
+                        name: tag.name,
+                    })),
+                    metadata: { ...metadata, action: 'tags_update' },
+                    transaction,
+                })
+            );
+        }
+
+        return events;
+    }
+}
+
+module.exports = TaskBulkService;
@@ -0,0 +1,99 @@
+const { Op } = require('sequelize');
+const moment = require('moment-timezone');
+const { Task } = require('../models');
+const TaskEventService = require('./taskEventService');
+const changeEvents = require('./changeEvents');
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Service for deferring tasks until a start date and bringing them back
+ * once it arrives
+ */
+class TaskDeferralService {
+    /**
+     * Condition on defer_until matching tasks that are not deferred, for
+     * use in a where clause
+     * @param {Date} now - Current time (optional)
+     * @returns {Object} Sequelize condition
+     */
+    static notDeferred(now = new Date()) {
+        return { [Op.or]: { [Op.is]: null, [Op.lte]: now } };
+    }
+
+    /**
+     * Condition on defer_until matching tasks that are still deferred
+     * @param {Date} now - Current time (optional)
+     * @returns {Object} Sequelize condition
+     */
+    static deferred(now = new Date()) {
+        return { [Op.gt]: now };
+    }
+
+    /**
+     * Read a defer date. A plain date defers until the start of that day in
+     * the user's timezone.
+     * @param {string|null} value - YYYY-MM-DD date, ISO timestamp, or null
+     *   to stop deferring
+     * @param {string} timezone - User's timezone
+     * @returns {Date|null|undefined} The date, null, or undefined when the
+     *   value is not a valid date
+     */
+    static parseDeferUntil(value, timezone = 'UTC') {
+        if (value === null || value === '') return null;
+        if (typeof value !== 'string') return undefined;
+
+        const date = DATE_PATTERN.test(value)
+            ? moment.tz(value, 'YYYY-MM-DD', true, timezone || 'UTC')
+            : moment(value, moment.ISO_8601, true);
+        return date.isValid() ? date.toDate() : undefined;
+    }
+
+    /**
+     * Defer a task, or stop deferring it, and log the change
+     * @param {Object} task - Task record
+     * @param {Date|null} deferUntil - New start date
+     * @param {number} userId - User ID
+     * @param {Object} metadata - Event metadata (optional)
+     * @returns {Promise<Object>} The logged event
+     */
+    static async defer(task, deferUntil, userId, metadata = {}) {
+        const oldValue = task.defer_until;
+        await task.update({ defer_until: deferUntil });
+
+        return await TaskEventService.logEvent({
+            taskId: task.id,
+            userId,
+            eventType: deferUntil ? 'deferred' : 'resurfaced',
+            fieldName: 'defer_until',
+            oldValue: oldValue ? oldValue.toISOString() : null,
+            newValue: deferUntil ? deferUntil.toISOString() : null,
+            metadata: { ...metadata, action: 'defer' },
+        });
+    }
+
+    /**
+     * Bring back every task whose start date has arrived. Clears the date,
+     * logs a "resurfaced" event and announces the change.
+     * @param {Date} now - Current time (optional)
+     * @returns {Promise<Array>} Tasks that resurfaced
+     */
+    static async resurfaceDueTasks(now = new Date()) {
+        const tasks = await Task.findAll({
+            where: { defer_until: { [Op.lte]: now } },
+        });
+
+        for (const task of tasks) {
+            await this.defer(task, null, task.user_id, {
+                source: 'scheduler',
+            });
+            await changeEvents.publish(task.user_id, 'task.updated', {
+                task: task.toJSON(),
+            });
+        }
+
+        return tasks;
+    }
+}
+
+module.exports = TaskDeferralService;
@@ -0,0 +1,240 @@
+const { Op } = require('sequelize');
+const {
+    Project,
+    Task,
+    TaskEvent,
+    TaskReminder,
+    sequelize,
+} = require('../models');
+const TaskEventService = require('./taskEventService');
+
+/**
+ * Service for moving tasks to the trash, restoring them, and removing them
+ * for good together with the records that point at them
+ */
+class TaskDeletionService {
+    /**
+     * Check whether a task can be deleted. Recurring templates that still
+     * have generated instances are kept so the instances stay linked.
+     * @param {Object} task - Task record
+     * @returns {Promise<boolean>} Whether the task has no recurring children
+     */
+    static async canDelete(task) {
+        const childCount = await Task.count({
+            where: { recurring_parent_id: task.id },
+        });
+        return childCount === 0;
+    }
+
+    /**
+     * Move tasks and their subtasks to the trash. Tags, events and
+     * dependencies are kept so a restore brings everything back.
+     * @param {Array<Object>} tasks - Task records
+     * @param {number} userId - User ID
+     * @param {Date} deletedAt - Shared by everything trashed in one go, which
+     *   is how a restore finds it again (optional)
+     * @param {Object} transaction - Transaction to trash them in (optional)
+     * @returns {Promise<Array>} The "deleted" events logged
+     */
+    static async trashTasks(
+        tasks,
+        userId,
+        deletedAt = new Date(),
+        transaction
+    ) {
+        const taskIds = tasks.map((task) => task.id);
+        const subtaskIds = (
+            await Task.findAll({
+                where: {
+                    parent_task_id: taskIds,
+                    id: { [Op.notIn]: taskIds },
+                },
+                attributes: ['id'],
+                raw: true,
+                transaction,
+            })
+        ).map((subtask) => subtask.id);
+        const trashedIds = [...taskIds, ...subtaskIds];
+        if (trashedIds.length === 0) return [];
+
+        await Task.update(
+            { deleted_at: deletedAt },
+            { where: { id: trashedIds }, paranoid: false, transaction }
+        );
+        tasks.forEach((task) => task.setDataValue('deleted_at', deletedAt));
+
+        const events = [];
+        for (const taskId of trashedIds) {
+            events.push(
+                await TaskEventService.logEvent({
+                    taskId,
+                    userId,
+                    eventType: 'deleted',
+                    metadata: { action: 'task_deleted' },
+                    transaction,
+                })
+            );
+        }
+        return events;
+    }
+
+    /**
+     * Move a task and its subtasks to the trash
+     * @param {Object} task - Task record
+     * @param {number} userId - User ID
+     * @returns {Promise<Array>} The "deleted" events logged
+     */
+    static async trashTask(task, userId) {
+        return await this.trashTasks([task], userId);
+    }
+
+    /**
+     * Take trashed tasks out of the trash along with the subtasks trashed with
+     * them. Links to a project or parent task that is still in the trash are
+     * dropped so nothing points at a hidden record.
+     * @param {Array<Object>} tasks - Trashed task records
+     * @param {number} userId - User ID
+     * @returns {Promise<Array>} Restored tasks, reloaded
+     */
+    static async restoreTasks(tasks, userId) {
+        const restoredIds = [];
+        for (const task of tasks) {
+            restoredIds.push(task.id);
+            const subtasks = await Task.findAll({
+                where: {
+                    parent_task_id: task.id,
+                    deleted_at: task.deleted_at,
+                },
+                attributes: ['id'],
+                paranoid: false,
+                raw: true,
+            });
+            restoredIds.push(...subtasks.map((subtask) => subtask.id));
+        }
+        if (restoredIds.length === 0) return [];
+
+        await Task.update(
+            { deleted_at: null },
+            { where: { id: restoredIds }, paranoid: false }
+        );
+
+        const restored = await Task.findAll({ where: { id: restoredIds } });
+        const projectIds = restored
+            .map((task) => task.project_id)
+            .filter(Boolean);
+        const liveProjectIds = new Set(
+            (
+                await Project.findAll({
+                    where: { id: projectIds },
+                    attributes: ['id'],
+                    raw: true,
+                })
+            ).map((project) => project.id)
+        );
+        const liveTaskIds = new Set(
+            (
+                await Task.findAll({
+                    where: {
+                        id: restored
+                            .map((task) => task.parent_task_id)
+                            .filter(Boolean),
+                    },
+                    attributes: ['id'],
+                    raw: true,
+                })
+            ).map((parent) => parent.id)
+        );
+
+        for (const task of restored) {
+            const changes = {};
+            if (task.project_id && !liveProjectIds.has(task.project_id)) {
+                changes.project_id = null;
+            }
+            if (task.parent_task_id && !liveTaskIds.has(task.parent_task_id)) {
+                changes.parent_task_id = null;
+            }
+            if (Object.keys(changes).length > 0) {
+                await task.update(changes);
+            }
+            await TaskEventService.logEvent({
+                taskId: task.id,
+                userId,
+                eventType: 'restored',
+                metadata: { action: 'task_restored' },
+            });
+        }
+
+        return restored;
+    }
+
+    /**
+     * Permanently delete a task, its subtasks, events, reminders, tags and
+     * dependencies, whether or not they are in the trash
+     * @param {Object} task - Task record
+     */
+    static async deleteTask(task) {
+        // Subtasks are removed together with their parent
+        const subtaskIds = (
+            await Task.findAll({
+                where: { parent_task_id: task.id },
+                attributes: ['id'],
+                paranoid: false,
+                raw: true,
+            })
+        ).map((subtask) => subtask.id);
+
+        // Temporarily disable foreign key constraints for this operation
+        await sequelize.query('PRAGMA foreign_keys = OFF');
+
+        try {
+            // Use force delete to bypass foreign key constraints
+            await TaskEvent.destroy({
+                where: { task_id: task.id },
+                force: true,
+            });
+
+            await TaskReminder.destroy({
+                where: { task_id: [task.id, ...subtaskIds] },
+            });
+
+            await sequelize.query('DELETE FROM tasks_tags WHERE task_id = ?', {
+                replacements: [task.id],
+            });
+
+            await Task.update(
+                { recurring_parent_id: null },
+                { where: { recurring_parent_id: task.id }, paranoid: false }
+            );
+
+            // Drop dependencies in both directions so dependents are unblocked
+            const dependencyTaskIds = [task.id, ...subtaskIds];
+            await sequelize.query(
+                'DELETE FROM task_dependencies WHERE task_id IN (:dependencyTaskIds) OR depends_on_task_id IN (:dependencyTaskIds)',
+                { replacements: { dependencyTaskIds } }
+            );
+
+            if (subtaskIds.length > 0) {
+                await TaskEvent.destroy({
+                    where: { task_id: subtaskIds },
+                    force: true,
+                });
+                await sequelize.query(
+                    'DELETE FROM tasks_tags WHERE task_id IN (:subtaskIds)',
+                    { replacements: { subtaskIds } }
+                );
+                await Task.destroy({
+                    where: { id: subtaskIds },
+                    force: true,
+                });
+            }
+
+            // Delete the task itself
+            await task.destroy({ force: true });
+        } finally {
+            // Re-enable foreign key constraints
+            await sequelize.query('PRAGMA foreign_keys = ON');
+        }
+    }
+}
+
+module.exports = TaskDeletionService;
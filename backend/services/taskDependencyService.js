@@ -0,0 +1,270 @@
+const { Task, sequelize } = require('../models');
+const { Op } = require('sequelize');
+const TaskEventService = require('./taskEventService');
+
+const RESOLVED_STATUSES = [
+    Task.STATUS.DONE,
+    Task.STATUS.ARCHIVED,
+    'done',
+    'archived',
+];
+
+/**
+ * Service for task-to-task dependencies ("blocked by" relations)
+ */
+class TaskDependencyService {
+    /**
+     * Check whether a status no longer blocks dependent tasks
+     * @param {number|string} status - Task status (integer or name)
+     * @returns {boolean} Whether the status is done or archived
+     */
+    static isResolved(status) {
+        return RESOLVED_STATUSES.includes(status);
+    }
+
+    /**
+     * Get the tasks a task depends on that are still open
+     * @param {number} taskId - Dependent task ID
+     * @returns {Promise<Array>} Open blocker tasks (id, uuid, name, status)
+     */
+    static async getOpenBlockers(taskId) {
+        return await Task.findAll({
+            where: {
+                id: {
+                    [Op.in]: sequelize.literal(
+                        `(SELECT depends_on_task_id FROM task_dependencies WHERE task_id = ${parseInt(taskId, 10)})`
+                    ),
+                },
+                status: { [Op.notIn]: RESOLVED_STATUSES },
+            },
+            attributes: ['id', 'uuid', 'name', 'status'],
+            order: [['created_at', 'ASC']],
+        });
+    }
+
+    /**
+     * Get both directions of a task's dependencies
+     * @param {number} taskId - Task ID
+     * @returns {Promise<Object>} blocked_by and blocking task lists
+     */
+    static async getDependencies(taskId) {
+        const id = parseInt(taskId, 10);
+        const attributes = ['id', 'uuid', 'name', 'status'];
+
+        const blockedBy = await Task.findAll({
+            where: {
+                id: {
+                    [Op.in]: sequelize.literal(
+                        `(SELECT depends_on_task_id FROM task_dependencies WHERE task_id = ${id})`
+                    ),
+                },
+            },
+            attributes,
+            order: [['created_at', 'ASC']],
+        });
+
+        const blocking = await Task.findAll({
+            where: {
+                id: {
+                    [Op.in]: sequelize.literal(
+                        `(SELECT task_id FROM task_dependencies WHERE depends_on_task_id = ${id})`
+                    ),
+                },
+            },
+            attributes,
+            order: [['created_at', 'ASC']],
+        });
+
+        return { blocked_by: blockedBy, blocking };
+    }
+
+    /**
+     * Get the IDs of a user's tasks that have at least one open blocker.
+     * Tasks in the trash are left out on both sides.
+     * @param {number} userId - User ID
+     * @returns {Promise<number[]>} Blocked task IDs
+     */
+    static async getBlockedTaskIds(userId) {
+        const results = await sequelize.query(
+            `SELECT DISTINCT td.task_id FROM task_dependencies td
+       JOIN tasks blocked ON blocked.id = td.task_id
+       JOIN tasks blocker ON blocker.id = td.depends_on_task_id
+       WHERE blocked.user_id = ? AND blocker.status NOT IN (?, ?)
+       AND blocked.deleted_at IS NULL AND blocker.deleted_at IS NULL`,
+            {
+                replacements: [userId, Task.STATUS.DONE, Task.STATUS.ARCHIVED],
+                type: sequelize.QueryTypes.SELECT,
+            }
+        );
+
+        return results.map((r) => r.task_id);
+    }
+
+    /**
+     * Check whether a dependency already exists
+     * @param {number} taskId - Dependent task ID
+     * @param {number} dependsOnTaskId - Blocker task ID
+     * @returns {Promise<boolean>} Whether the relation exists
+     */
+    static async dependencyExists(taskId, dependsOnTaskId) {
+        const results = await sequelize.query(
+            'SELECT 1 FROM task_dependencies WHERE task_id = ? AND depends_on_task_id = ?',
+            {
+                replacements: [taskId, dependsOnTaskId],
+                type: sequelize.QueryTypes.SELECT,
+            }
+        );
+
+        return results.length > 0;
+    }
+
+    /**
+     * Check whether making taskId depend on dependsOnTaskId would close a cycle,
+     * i.e. whether dependsOnTaskId already (transitively) depends on taskId.
+     * @param {number} taskId - Dependent task ID
+     * @param {number} dependsOnTaskId - Blocker task ID
+     * @param {number} userId - User ID
+     * @returns {Promise<boolean>} Whether a cycle would be created
+     */
+    static async wouldCreateCycle(taskId, dependsOnTaskId, userId) {
+        if (taskId === dependsOnTaskId) {
+            return true;
+        }
+
+        const edges = await sequelize.query(
+            `SELECT td.task_id, td.depends_on_task_id FROM task_dependencies td
+       JOIN tasks ON tasks.id = td.task_id
+       WHERE tasks.user_id = ?`,
+            {
+                replacements: [userId],
+                type: sequelize.QueryTypes.SELECT,
+            }
+        );
+
+        const blockersByTask = new Map();
+        edges.forEach((edge) => {
+            if (!blockersByTask.has(edge.task_id)) {
+                blockersByTask.set(edge.task_id, []);
+            }
+            blockersByTask.get(edge.task_id).push(edge.depends_on_task_id);
+        });
+
+        const visited = new Set();
+        const stack = [dependsOnTaskId];
+        while (stack.length > 0) {
+            const current = stack.pop();
+            if (current === taskId) {
+                return true;
+            }
+            if (visited.has(current)) {
+                continue;
+            }
+            visited.add(current);
+            stack.push(...(blockersByTask.get(current) || []));
+        }
+
+        return false;
+    }
+
+    /**
+     * Create a dependency
+     * @param {number} taskId - Dependent task ID
+     * @param {number} dependsOnTaskId - Blocker task ID
+     */
+    static async addDependency(taskId, dependsOnTaskId) {
+        await sequelize.query(
+            'INSERT INTO task_dependencies (task_id, depends_on_task_id, created_at, updated_at) VALUES (?, ?, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)',
+            { replacements: [taskId, dependsOnTaskId] }
+        );
+    }
+
+    /**
+     * Remove a dependency
+     * @param {number} taskId - Dependent task ID
+     * @param {number} dependsOnTaskId - Blocker task ID
+     */
+    static async removeDependency(taskId, dependsOnTaskId) {
+        await sequelize.query(
+            'DELETE FROM task_dependencies WHERE task_id = ? AND depends_on_task_id = ?',
+            { replacements: [taskId, dependsOnTaskId] }
+        );
+    }
+
+    /**
+     * Log a dependency event on a task's timeline
+     * @param {string} eventType - dependency_added, dependency_removed or unblocked
+     * @param {Object} task - The task the event belongs to
+     * @param {Object} otherTask - The task on the other side of the relation
+     * @param {number} userId - User ID
+     * @returns {Promise<Object|null>} The event, or null when logging failed
+     */
+    static async logDependencyEvent(eventType, task, otherTask, userId) {
+        try {
+            return await TaskEventService.logEvent({
+                taskId: task.id,
+                userId,
+                eventType,
+                fieldName: 'dependencies',
+                newValue: { id: otherTask.id, name: otherTask.name },
+                metadata: { source: 'web', action: eventType },
+            });
+        } catch (eventError) {
+            console.error('Error logging dependency event:', eventError);
+            // Don't fail the request if event logging fails
+            return null;
+        }
+    }
+
+    /**
+     * Unblock dependents once a blocker is resolved. Logs an "unblocked"
+     * event on every open dependent that has no open blockers left.
+     * @param {Object} task - The task whose status changed
+     * @param {number|string} oldStatus - Status before the change
+     * @param {number} userId - User ID
+     * @param {Array} loggedEvents - Collects the "unblocked" events, so an
+     *   undo of the change can take them back (optional)
+     * @returns {Promise<Array>} Dependents that became unblocked
+     */
+    static async handleStatusChange(
+        task,
+        oldStatus,
+        userId,
+        loggedEvents = []
+    ) {
+        if (!this.isResolved(task.status) || this.isResolved(oldStatus)) {
+            return [];
+        }
+
+        const dependents = await Task.findAll({
+            where: {
+                user_id: userId,
+                id: {
+                    [Op.in]: sequelize.literal(
+                        `(SELECT task_id FROM task_dependencies WHERE depends_on_task_id = ${parseInt(task.id, 10)})`
+                    ),
+                },
+                status: { [Op.notIn]: RESOLVED_STATUSES },
+            },
+        });
+
+        const unblocked = [];
+        for (const dependent of dependents) {
+            const openBlockers = await this.getOpenBlockers(dependent.id);
+            if (openBlockers.length === 0) {
+                loggedEvents.push(
+                    await this.logDependencyEvent(
+                        'unblocked',
+                        dependent,
+                        task,
+                        userId
+                    )
+                );
+                unblocked.push(dependent);
+            }
+        }
+
+        return unblocked;
+    }
+}
+
+module.exports = TaskDependencyService;
@@ -0,0 +1,90 @@
+const { Task, sequelize } = require('../models');
+
+// Fields carried over to a copy. It starts out not started, outside any
+// recurring series and without a manual position.
+const COPIED_FIELDS = [
+    'name',
+    'description',
+    'note',
+    'priority',
+    'due_date',
+    'due_time',
+    'project_id',
+    'section_id',
+    'parent_task_id',
+    'recurrence_type',
+    'recurrence_interval',
+    'recurrence_end_date',
+    'recurrence_weekday',
+    'recurrence_month_day',
+    'recurrence_week_of_month',
+    'completion_based',
+    'complete_with_subtasks',
+];
+
+/**
+ * Service for copying a task together with its tags and subtasks
+ */
+class TaskDuplicationService {
+    /**
+     * Copy a task as a new, not started task. A subtask is copied under
+     * the same parent.
+     * @param {Object} task - Task record to copy
+     * @param {number} userId - User ID
+     * @param {Object} options - { includeSubtasks: copy the subtasks too }
+     * @returns {Promise<Array<Object>>} The copy followed by its subtasks
+     */
+    static async duplicate(task, userId, { includeSubtasks = false } = {}) {
+        const transaction = await sequelize.transaction();
+        try {
+            const copyTask = async (source, attributes = {}) => {
+                const data = {};
+                COPIED_FIELDS.forEach((field) => {
+                    data[field] = source.get(field);
+                });
+                const copy = await Task.create(
+                    {
+                        ...data,
+                        status: Task.STATUS.NOT_STARTED,
+                        user_id: userId,
+                        ...attributes,
+                    },
+                    { transaction }
+                );
+                const tags = await source.getTags({ transaction });
+                if (tags.length > 0) {
+                    await copy.setTags(tags, { transaction });
+                }
+                return copy;
+            };
+
+            const copy = await copyTask(task);
+            const created = [copy];
+
+            if (includeSubtasks) {
+                const subtasks = await Task.findAll({
+                    where: { parent_task_id: task.id, user_id: userId },
+                    order: [['id', 'ASC']],
+                    transaction,
+                });
+                for (const subtask of subtasks) {
+                    created.push(
+                        await copyTask(subtask, {
+                            project_id: copy.project_id,
+                            section_id: null,
+                            parent_task_id: copy.id,
+                        })
+                    );
+                }
+            }
+
+            await transaction.commit();
+            return created;
+        } catch (error) {
+            await transaction.rollback();
+            throw error;
+        }
+    }
+}
+
+module.exports = TaskDuplicationService;
@@ -11,6 +11,7 @@ class TaskEventService {
      * @param {any} eventData.oldValue - Old value (optional)
      * @param {any} eventData.newValue - New value (optional)
      * @param {Object} eventData.metadata - Additional metadata (optional)
+     * @param {Object} eventData.transaction - Transaction to log in (optional)
      */
     static async logEvent({
         taskId,
@@ -20,6 +21,7 @@ class TaskEventService {
         oldValue = null,
         newValue = null,
         metadata = {},
+        transaction,
     }) {
         try {
             // Add source to metadata if not provided
@@ -27,19 +29,26 @@ class TaskEventService {
                 metadata.source = 'web';
             }
 
-            const event = await TaskEvent.create({
-                task_id: taskId,
-                user_id: userId,
-                event_type: eventType,
-                field_name: fieldName,
-                old_value: oldValue
-                    ? { [fieldName || 'value']: oldValue }
-                    : null,
-                new_value: newValue
-                    ? { [fieldName || 'value']: newValue }
-                    : null,
-                metadata: metadata,
-            });
+            const event = await TaskEvent.create(
+                {
+                    task_id: taskId,
+                    user_id: userId,
+                    event_type: eventType,
+                    field_name: fieldName,
+                    // Keep falsy values such as status 0 or today false, which
+                    // an undo needs to put back
+                    old_value:
+                        oldValue !== null && oldValue !== undefined
+                            ? { [fieldName || 'value']: oldValue }
+                            : null,
+                    new_value:
+                        newValue !== null && newValue !== undefined
+                            ? { [fieldName || 'value']: newValue }
+                            : null,
+                    metadata: metadata,
+                },
+                { transaction }
+            );
 
             return event;
         } catch (error) {
@@ -197,7 +206,13 @@ class TaskEventService {
     /**
      * Log multiple field changes at once
      */
-    static async logTaskUpdate(taskId, userId, changes, metadata = {}) {
+    static async logTaskUpdate(
+        taskId,
+        userId,
+        changes,
+        metadata = {},
+        transaction
+    ) {
         const events = [];
 
         for (const [fieldName, { oldValue, newValue }] of Object.entries(
@@ -216,6 +231,18 @@ class TaskEventService {
                               ? 'archived'
                               : 'status_changed';
                     break;
+                case 'project_id':
+                    eventType = 'project_changed';
+                    break;
+                case 'recurrence_interval':
+                case 'recurrence_weekday':
+                case 'recurrence_month_day':
+                case 'recurrence_week_of_month':
+                    eventType = 'recurrence_changed';
+                    break;
+                case 'defer_until':
+                    eventType = newValue ? 'deferred' : 'resurfaced';
+                    break;
                 default:
                     eventType = `${fieldName}_changed`;
             }
@@ -228,6 +255,7 @@ class TaskEventService {
                 oldValue,
                 newValue,
                 metadata: { ...metadata, action: 'bulk_update' },
+                transaction,
             });
 
             events.push(event);
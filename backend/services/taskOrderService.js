@@ -0,0 +1,115 @@
+const { Task } = require('../models');
+
+// Each context keeps its own order in a position column. Positions are
+// fractional, so moving a task only writes that task: it gets a position
+// between its new neighbours.
+const POSITION_FIELDS = {
+    project: 'position',
+    today: 'today_position',
+};
+
+const CONTEXTS = Object.keys(POSITION_FIELDS);
+
+// Gap between positions handed out when a context is numbered afresh
+const POSITION_STEP = 1024;
+
+// Below this gap two neighbours have no usable position left between them
+const MIN_GAP = 1e-6;
+
+/**
+ * Service for the manual order of tasks within a project and the today plan
+ */
+class TaskOrderService {
+    /**
+     * Order clause for listing tasks in their manual order
+     * @param {string} context - One of CONTEXTS
+     * @returns {Array} Sequelize order clause
+     */
+    static manualOrder(context) {
+        return [
+            [POSITION_FIELDS[context], 'ASC NULLS LAST'],
+            ['created_at', 'ASC'],
+        ];
+    }
+
+    /**
+     * Find the tasks that share a task's context, in their manual order
+     * @param {Object} task - Task record
+     * @param {string} context - One of CONTEXTS
+     * @returns {Promise<Array>} Tasks of the context, including the task
+     */
+    static async getContextTasks(task, context) {
+        const where =
+            context === 'today'
+                ? { user_id: task.user_id, today: true }
+                : {
+                      user_id: task.user_id,
+                      project_id: task.project_id,
+                      parent_task_id: null,
+                  };
+
+        return await Task.findAll({
+            where,
+            attributes: ['id', POSITION_FIELDS[context]],
+            order: this.manualOrder(context),
+        });
+    }
+
+    // Number the tasks of a context in their current order
+    static async renumber(tasks, field) {
+        for (const [index, task] of tasks.entries()) {
+            await task.update({ [field]: (index + 1) * POSITION_STEP });
+        }
+    }
+
+    /**
+     * Place a task between two tasks of its context. The tasks of the
+     * context are only renumbered when a neighbour has no position yet or
+     * there is no room left between them.
+     * @param {Object} task - Task record to move
+     * @param {string} context - One of CONTEXTS
+     * @param {Array<Object>} tasks - Tasks of the context, from
+     *   getContextTasks
+     * @param {number|null} afterId - Task to place it after, or null for the
+     *   top
+     * @param {number|null} beforeId - Task to place it before, or null for
+     *   the bottom
+     * @returns {Promise<number>} The task's new position
+     */
+    static async move(task, context, tasks, afterId, beforeId) {
+        const field = POSITION_FIELDS[context];
+        const find = (id) => tasks.find((other) => other.id === id) || null;
+        const after = afterId ? find(afterId) : null;
+        const before = beforeId ? find(beforeId) : null;
+
+        const isCramped = () =>
+            (after && after[field] === null) ||
+            (before && before[field] === null) ||
+            (after && before && before[field] - after[field] < MIN_GAP);
+
+        if (isCramped()) {
+            await this.renumber(
+                tasks.filter((other) => other.id !== task.id),
+                field
+            );
+        }
+
+        let position;
+        if (after && before) {
+            position = (after[field] + before[field]) / 2;
+        } else if (after) {
+            position = after[field] + POSITION_STEP;
+        } else if (before) {
+            position = before[field] - POSITION_STEP;
+        } else {
+            position = POSITION_STEP;
+        }
+
+        await task.update({ [field]: position });
+        return position;
+    }
+}
+
+TaskOrderService.CONTEXTS = CONTEXTS;
+
+module.exports = TaskOrderService;
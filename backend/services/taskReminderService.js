@@ -0,0 +1,390 @@
+const { Op } = require('sequelize');
+const moment = require('moment-timezone');
+const { Task, TaskReminder, User } = require('../models');
+const RecurringTaskService = require('./recurringTaskService');
+const TaskEventService = require('./taskEventService');
+const SubtaskService = require('./subtaskService');
+const TaskDependencyService = require('./taskDependencyService');
+const changeEvents = require('./changeEvents');
+
+// Relative reminders on tasks due all day count back from this time
+const ALL_DAY_REMINDER_TIME = '09:00';
+const SNOOZE_MINUTES = 60;
+// Relative reminders go out at most a week before the due date, so only
+// tasks due within that week need to be looked at
+const MAX_MINUTES_BEFORE_DUE = 7 * 24 * 60;
+// A reminder that fails to send is tried again after a delay that doubles
+// every time, and given up on after the last attempt
+const MAX_SEND_ATTEMPTS = 6;
+const BASE_RETRY_DELAY_MS = 60 * 1000;
+const CALLBACK_PATTERN = /^reminder:(\d+):(done|snooze)$/;
+
+/**
+ * Service for task reminders: working out when they fire, finding the ones
+ * that are due, and acting on the "Done" and "Snooze 1h" buttons sent with
+ * them
+ */
+class TaskReminderService {
+    /**
+     * When a task is due, in the user's timezone
+     * @param {Object} task - Task record
+     * @param {string} timezone - User's timezone
+     * @returns {Date|null} The due time, or null when the task has no due date
+     */
+    static dueInstant(task, timezone = 'UTC') {
+        if (!task.due_date) return null;
+
+        const dueDate = task.due_date.toISOString().split('T')[0];
+        return moment
+            .tz(
+                `${dueDate} ${task.due_time || ALL_DAY_REMINDER_TIME}`,
+                'YYYY-MM-DD HH:mm',
+                timezone || 'UTC'
+            )
+            .toDate();
+    }
+
+    /**
+     * When a reminder goes off. A snooze takes over from the reminder's own
+     * time; relative reminders follow the task's due date as it changes.
+     * @param {Object} reminder - Reminder record
+     * @param {Object} task - The reminder's task
+     * @param {string} timezone - User's timezone
+     * @returns {Date|null} The time, or null when it is relative to a due
+     *   date the task no longer has
+     */
+    static fireTime(reminder, task, timezone = 'UTC') {
+        if (reminder.snoozed_until) return reminder.snoozed_until;
+        if (reminder.remind_at) return reminder.remind_at;
+
+        const due = this.dueInstant(task, timezone);
+        return due
+            ? moment(due)
+                  .subtract(reminder.minutes_before_due, 'minutes')
+                  .toDate()
+            : null;
+    }
+
+    /**
+     * Check a new reminder's fields
+     * @param {Object} data - remind_at (ISO timestamp) or minutes_before_due
+     * @param {Object} task - The task it is for
+     * @returns {string|null} An error message, or null when it is valid
+     */
+    static validateReminder(data, task) {
+        const { remind_at, minutes_before_due } = data;
+        const hasTime = remind_at !== undefined && remind_at !== null;
+        const hasOffset =
+            minutes_before_due !== undefined && minutes_before_due !== null;
+
+        if (hasTime === hasOffset) {
+            return 'A reminder needs either a time or minutes before the due date.';
+        }
+        if (
+            hasTime &&
+            (typeof remind_at !== 'string' ||
+                !moment(remind_at, moment.ISO_8601, true).isValid())
+        ) {
+            return 'Reminder time must be an ISO 8601 timestamp.';
+        }
+        if (
+            hasOffset &&
+            (!Number.isInteger(minutes_before_due) || minutes_before_due < 0)
+        ) {
+            return 'Minutes before the due date must be a whole number of zero or more.';
+        }
+        if (hasOffset && minutes_before_due > MAX_MINUTES_BEFORE_DUE) {
+            return 'Reminders can be at most a week before the due date.';
+        }
+        if (hasOffset && !task.due_date) {
+            return 'Set a due date before adding a reminder relative to it.';
+        }
+        return null;
+    }
+
+    /**
+     * Add a reminder to a task
+     * @param {Object} task - Task record
+     * @param {Object} data - Validated reminder fields
+     * @returns {Promise<Object>} The new reminder
+     */
+    static async createReminder(task, data) {
+        return await TaskReminder.create({
+            task_id: task.id,
+            user_id: task.user_id,
+            remind_at: data.remind_at ? new Date(data.remind_at) : null,
+            minutes_before_due: data.remind_at ? null : data.minutes_before_due,
+        });
+    }
+
+    /**
+     * Re-arm a task's relative reminders after its due date or time moves,
+     * so ones that already went out fire again for the new due time
+     * @param {number} taskId - Task ID
+     */
+    static async resetRelativeReminders(taskId) {
+        const reminders = await TaskReminder.findAll({
+            where: { task_id: taskId, minutes_before_due: { [Op.ne]: null } },
+        });
+        for (const reminder of reminders) {
+            await reminder.update({
+                sent_at: null,
+                snoozed_until: null,
+                attempts: 0,
+                next_attempt_at: null,
+            });
+        }
+    }
+
+    /**
+     * Reminders that should go out now, including any that came due while
+     * the server was down. Only users with a connected Telegram bot get
+     * them, and tasks that are finished or in the trash are skipped, as are
+     * reminders waiting to be tried again.
+     * @param {Date} now - Current time (optional)
+     * @returns {Promise<Array>} Reminders with their Task and User loaded
+     */
+    static async findDueReminders(now = new Date()) {
+        // Due dates are stored at midnight UTC and a due day starts at most
+        // 14 hours earlier elsewhere
+        const latestDueDate = moment(now)
+            .add(MAX_MINUTES_BEFORE_DUE, 'minutes')
+            .add(1, 'day')
+            .toDate();
+
+        const reminders = await TaskReminder.findAll({
+            // Fixed and snoozed times are checked here; relative ones depend
+            // on the task's due time and the user's timezone, so only tasks
+            // due soon are loaded and checked below
+            where: {
+                sent_at: null,
+                attempts: { [Op.lt]: MAX_SEND_ATTEMPTS },
+                [Op.and]: [
+                    {
+                        [Op.or]: [
+                            { next_attempt_at: null },
+                            { next_attempt_at: { [Op.lte]: now } },
+                        ],
+                    },
+                    {
+                        [Op.or]: [
+                            { snoozed_until: { [Op.lte]: now } },
+                            {
+                                snoozed_until: null,
+                                remind_at: { [Op.lte]: now },
+                            },
+                            {
+                                snoozed_until: null,
+                                remind_at: null,
+                                '$Task.due_date$': { [Op.lte]: latestDueDate },
+                            },
+                        ],
+                    },
+                ],
+            },
+            include: [
+                {
+                    model: Task,
+                    required: true,
+                    where: {
+                        status: {
+                            [Op.notIn]: [
+                                Task.STATUS.DONE,
+                                Task.STATUS.ARCHIVED,
+                            ],
+                        },
+                    },
+                },
+                {
+                    model: User,
+                    required: true,
+                    where: {
+                        telegram_bot_token: { [Op.ne]: null },
+                        telegram_chat_id: { [Op.ne]: null },
+                    },
+                },
+            ],
+            order: [['id', 'ASC']],
+        });
+
+        return reminders.filter((reminder) => {
+            const time = this.fireTime(
+                reminder,
+                reminder.Task,
+                reminder.User.timezone
+            );
+            return time !== null && time <= now;
+        });
+    }
+
+    /**
+     * Telegram message text for a reminder
+     * @param {Object} reminder - Reminder with its Task and User loaded
+     * @returns {string} Message text
+     */
+    static formatMessage(reminder) {
+        const task = reminder.Task;
+        const lines = [`⏰ Reminder: "${task.name}"`];
+
+        const due = this.dueInstant(task, reminder.User.timezone);
+        if (due) {
+            const localDue = moment(due).tz(reminder.User.timezone || 'UTC');
+            lines.push(
+                task.due_time
+                    ? `📅 Due: ${localDue.format('YYYY-MM-DD HH:mm')}`
+                    : `📅 Due: ${localDue.format('YYYY-MM-DD')}`
+            );
+        }
+
+        return lines.join('\n');
+    }
+
+    /**
+     * Inline keyboard sent with a reminder
+     * @param {Object} reminder - Reminder record
+     * @returns {Object} Telegram reply markup
+     */
+    static replyMarkup(reminder) {
+        return {
+            inline_keyboard: [
+                [
+                    {
+                        text: '✅ Done',
+                        callback_data: `reminder:${reminder.id}:done`,
+                    },
+                    {
+                        text: '💤 Snooze 1h',
+                        callback_data: `reminder:${reminder.id}:snooze`,
+                    },
+                ],
+            ],
+        };
+    }
+
+    /**
+     * Record that a reminder went out so it is not sent again
+     * @param {Object} reminder - Reminder record
+     * @param {Date} now - Current time (optional)
+     */
+    static async markSent(reminder, now = new Date()) {
+        await reminder.update({
+            sent_at: now,
+            attempts: 0,
+            next_attempt_at: null,
+        });
+    }
+
+    /**
+     * Record that sending a reminder failed, so it is tried again later
+     * @param {Object} reminder - Reminder record
+     * @param {Date} now - Current time (optional)
+     */
+    static async markFailed(reminder, now = new Date()) {
+        const attempts = reminder.attempts + 1;
+        await reminder.update({
+            attempts,
+            next_attempt_at: new Date(
+                now.getTime() + BASE_RETRY_DELAY_MS * Math.pow(2, attempts - 1)
+            ),
+        });
+    }
+
+    /**
+     * Send a reminder again an hour from now
+     * @param {Object} reminder - Reminder record
+     * @param {Date} now - Current time (optional)
+     */
+    static async snooze(reminder, now = new Date()) {
+        await reminder.update({
+            snoozed_until: moment(now).add(SNOOZE_MINUTES, 'minutes').toDate(),
+            sent_at: null,
+            attempts: 0,
+            next_attempt_at: null,
+        });
+    }
+
+    /**
+     * Mark a reminder's task done, the same way completing it in the app
+     * does
+     * @param {Object} task - Task record
+     * @param {number} userId - User ID
+     * @returns {Promise<boolean>} False when the task was already done
+     */
+    static async completeTask(task, userId) {
+        const oldStatus = task.status;
+        if (oldStatus === Task.STATUS.DONE) return false;
+
+        await task.update({
+            status: Task.STATUS.DONE,
+            completed_at: new Date(),
+        });
+
+        const nextTask = await RecurringTaskService.handleTaskCompletion(task);
+        await TaskEventService.logStatusChange(
+            task.id,
+            userId,
+            oldStatus,
+            Task.STATUS.DONE,
+            { source: 'telegram' }
+        );
+        if (nextTask) {
+            await TaskEventService.logTaskCreated(
+                nextTask.id,
+                userId,
+                {
+                    name: nextTask.name,
+                    status: nextTask.status,
+                    priority: nextTask.priority,
+                    due_date: nextTask.due_date,
+                    project_id: nextTask.project_id,
+                },
+                { source: 'telegram', trigger: 'recurrence' }
+            );
+        }
+
+        if (task.parent_task_id) {
+            await SubtaskService.handleSubtaskStatusChange(
+                task,
+                oldStatus,
+                userId
+            );
+        }
+        await TaskDependencyService.handleStatusChange(task, oldStatus, userId);
+
+        await changeEvents.publish(userId, 'task.completed', {
+            task: task.toJSON(),
+        });
+        return true;
+    }
+
+    /**
+     * Act on a reminder button pressed in Telegram
+     * @param {Object} user - User who pressed it
+     * @param {string} data - Callback data from the button
+     * @param {Date} now - Current time (optional)
+     * @returns {Promise<string|null>} Text to answer the button press with,
+     *   or null when the data is not from a reminder
+     */
+    static async handleCallback(user, data, now = new Date()) {
+        const match = CALLBACK_PATTERN.exec(data || '');
+        if (!match) return null;
+
+        const reminder = await TaskReminder.findOne({
+            where: { id: match[1], user_id: user.id },
+            include: [{ model: Task, required: true }],
+        });
+        if (!reminder) return 'This reminder no longer exists.';
+
+        if (match[2] === 'snooze') {
+            await this.snooze(reminder, now);
+            return `💤 Snoozed "${reminder.Task.name}" for an hour`;
+        }
+
+        const completed = await this.completeTask(reminder.Task, user.id);
+        return completed
+            ? `✅ Completed "${reminder.Task.name}"`
+            : `"${reminder.Task.name}" is already done`;
+    }
+}
+
+module.exports = TaskReminderService;
@@ -2,6 +2,11 @@ const cron = require('node-cron');
 const { User } = require('../models');
 const TaskSummaryService = require('./taskSummaryService');
 const RecurringTaskService = require('./recurringTaskService');
+const webhookService = require('./webhookService');
+const trashService = require('./trashService');
+const TaskDeferralService = require('./taskDeferralService');
+const TaskReminderService = require('./taskReminderService');
+const TelegramPoller = require('./telegramPoller');
 const config = require('../config/config');
 
 // Create scheduler state
@@ -13,6 +18,10 @@ const createSchedulerState = () => ({
 // Global mutable state (will be managed functionally)
 let schedulerState = createSchedulerState();
 
+// Only one reminder run at a time, so the startup run and the per-minute
+// job never send a reminder twice
+let isProcessingReminders = false;
+
 // Check if scheduler should be disabled
 const shouldDisableScheduler = () =>
     config.environment === 'test' || config.disableScheduler;
@@ -35,6 +44,10 @@ const getCronExpression = (frequency) => {
         '8h': '0 */8 * * *',
         '12h': '0 */12 * * *',
         recurring_tasks: '0 6 * * *', // Daily at 6 AM for recurring task generation
+        webhook_deliveries: '* * * * *', // Every minute for webhook retries
+        trash_purge: '0 3 * * *', // Daily at 3 AM for expired trash
+        deferred_tasks: '*/15 * * * *', // Every 15 minutes for deferred tasks
+        task_reminders: '* * * * *', // Every minute for task reminders
     };
     return expressions[frequency];
 };
@@ -43,6 +56,14 @@ const getCronExpression = (frequency) => {
 const createJobHandler = (frequency) => async () => {
     if (frequency === 'recurring_tasks') {
         await processRecurringTasks();
+    } else if (frequency === 'webhook_deliveries') {
+        await processWebhookDeliveries();
+    } else if (frequency === 'trash_purge') {
+        await processTrashPurge();
+    } else if (frequency === 'deferred_tasks') {
+        await processDeferredTasks();
+    } else if (frequency === 'task_reminders') {
+        await processTaskReminders();
     } else {
         await processSummariesForFrequency(frequency);
     }
@@ -60,6 +81,10 @@ const createJobEntries = () => {
         '8h',
         '12h',
         'recurring_tasks',
+        'webhook_deliveries',
+        'trash_purge',
+        'deferred_tasks',
+        'task_reminders',
     ];
 
     return frequencies.map((frequency) => {
@@ -133,6 +158,72 @@ const processRecurringTasks = async () => {
     }
 };
 
+// Function to send queued webhook deliveries (contains side effects)
+const processWebhookDeliveries = async () => {
+    try {
+        await webhookService.processPendingDeliveries();
+        await webhookService.pruneDeliveries();
+    } catch (error) {
+        console.error('Error processing webhook deliveries:', error);
+    }
+};
+
+// Function to purge trash past its retention period (contains side effects)
+const processTrashPurge = async () => {
+    try {
+        return await trashService.purgeExpired();
+    } catch (error) {
+        console.error('Error purging trash:', error);
+    }
+};
+
+// Function to bring back tasks whose defer date has arrived (contains side
+// effects)
+const processDeferredTasks = async () => {
+    try {
+        return await TaskDeferralService.resurfaceDueTasks();
+    } catch (error) {
+        console.error('Error resurfacing deferred tasks:', error);
+    }
+};
+
+// Function to send task reminders that are due through Telegram (contains
+// side effects). A reminder that fails to send is tried again later.
+const processTaskReminders = async (now = new Date()) => {
+    if (isProcessingReminders) {
+        return [];
+    }
+
+    isProcessingReminders = true;
+    try {
+        const reminders = await TaskReminderService.findDueReminders(now);
+        const sent = [];
+
+        for (const reminder of reminders) {
+            try {
+                await TelegramPoller.sendTelegramMessage(
+                    reminder.User.telegram_bot_token,
+                    reminder.User.telegram_chat_id,
+                    TaskReminderService.formatMessage(reminder),
+                    null,
+                    TaskReminderService.replyMarkup(reminder)
+                );
+                await TaskReminderService.markSent(reminder, now);
+                sent.push(reminder);
+            } catch (error) {
+                console.error(`Error sending reminder ${reminder.id}:`, error);
+                await TaskReminderService.markFailed(reminder, now);
+            }
+        }
+
+        return sent;
+    } catch (error) {
+        console.error('Error processing task reminders:', error);
+    } finally {
+        isProcessingReminders = false;
+    }
+};
+
 // Function to initialize scheduler (contains side effects)
 const initialize = async () => {
     if (schedulerState.isInitialized) {
@@ -156,6 +247,9 @@ const initialize = async () => {
         isInitialized: true,
     };
 
+    // Deliver reminders that came due while the server was down
+    await processTaskReminders();
+
     return schedulerState;
 };
 
@@ -195,6 +289,10 @@ module.exports = {
     getStatus,
     processSummariesForFrequency,
     processRecurringTasks,
+    processWebhookDeliveries,
+    processTrashPurge,
+    processDeferredTasks,
+    processTaskReminders,
     // For testing
     _createSchedulerState: createSchedulerState,
     _shouldDisableScheduler: shouldDisableScheduler,
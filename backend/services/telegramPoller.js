@@ -1,5 +1,8 @@
 const https = require('https');
-const { User, InboxItem } = require('../models');
+const { User, InboxItem, Task, Project } = require('../models');
+const quickAddService = require('./quickAddService');
+const changeEvents = require('./changeEvents');
+const TaskReminderService = require('./taskReminderService');
 
 // Create poller state
 const createPollerState = () => ({
@@ -51,11 +54,19 @@ const getHighestUpdateId = (updates) => {
 };
 
 // Create message parameters
-const createMessageParams = (chatId, text, replyToMessageId = null) => {
+const createMessageParams = (
+    chatId,
+    text,
+    replyToMessageId = null,
+    replyMarkup = null
+) => {
     const params = { chat_id: chatId, text: text };
     if (replyToMessageId) {
         params.reply_to_message_id = replyToMessageId;
     }
+    if (replyMarkup) {
+        params.reply_markup = replyMarkup;
+    }
     return params;
 };
 
@@ -139,36 +150,51 @@ const getTelegramUpdates = async (token, offset) => {
     }
 };
 
+// Side effect function to call a Telegram API method with a JSON body
+const postTelegramRequest = async (token, endpoint, params) => {
+    const postData = JSON.stringify(params);
+    const url = createTelegramUrl(token, endpoint);
+
+    const options = {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+            'Content-Length': Buffer.byteLength(postData),
+        },
+    };
+
+    return await makeHttpPostRequest(url, postData, options);
+};
+
 // Side effect function to send Telegram message
 const sendTelegramMessage = async (
     token,
     chatId,
     text,
-    replyToMessageId = null
+    replyToMessageId = null,
+    replyMarkup = null
 ) => {
     try {
         const messageParams = createMessageParams(
             chatId,
             text,
-            replyToMessageId
+            replyToMessageId,
+            replyMarkup
         );
-        const postData = JSON.stringify(messageParams);
-        const url = createTelegramUrl(token, 'sendMessage');
-
-        const options = {
-            method: 'POST',
-            headers: {
-                'Content-Type': 'application/json',
-                'Content-Length': Buffer.byteLength(postData),
-            },
-        };
-
-        return await makeHttpPostRequest(url, postData, options);
+        return await postTelegramRequest(token, 'sendMessage', messageParams);
     } catch (error) {
         throw error;
     }
 };
 
+// Side effect function to acknowledge an inline button press
+const answerCallbackQuery = async (token, callbackQueryId, text) => {
+    return await postTelegramRequest(token, 'answerCallbackQuery', {
+        callback_query_id: callbackQueryId,
+        text,
+    });
+};
+
 // Side effect function to update user chat ID
 const updateUserChatId = async (userId, chatId) => {
     await User.update({ telegram_chat_id: chatId }, { where: { id: userId } });
@@ -198,12 +224,82 @@ const createInboxItem = async (content, userId, messageId) => {
         return existingItem;
     }
 
-    return await InboxItem.create({
+    const item = await InboxItem.create({
         content: content,
         source: 'telegram',
         user_id: userId,
         metadata: { telegram_message_id: messageId }, // Store message ID for reference
     });
+
+    // Open tabs show the new item right away instead of on the next reload
+    await changeEvents.publish(userId, 'inbox.created', {
+        inbox_item: item.toJSON(),
+    });
+
+    return item;
+};
+
+// Side effect function to create a task from a quick-add message
+const createTaskFromMessage = async (text, parsed, userId, messageId) => {
+    // Same check as for inbox items, so an update that is read again does
+    // not create the task twice
+    const recentCutoff = new Date(Date.now() - 30000); // 30 seconds ago
+    const name = parsed.name || String(text).trim();
+
+    const existingTask = await Task.findOne({
+        where: {
+            name: name,
+            user_id: userId,
+            created_at: {
+                [require('sequelize').Op.gte]: recentCutoff,
+            },
+        },
+        include: [{ model: Project, required: false }],
+    });
+
+    if (existingTask) {
+        console.log(
+            `Duplicate task detected for user ${userId}, name: "${name}". Skipping creation.`
+        );
+        return { task: existingTask, project: existingTask.Project };
+    }
+
+    return await quickAddService.createTaskFromParsed(userId, text, parsed, {
+        source: 'telegram',
+        telegram_message_id: messageId,
+    });
+};
+
+// Build the confirmation sent after a message was turned into a task
+const formatTaskConfirmation = (task, parsed, project) => {
+    const lines = [`✅ Task created: "${task.name}"`];
+
+    if (parsed.due_date) {
+        lines.push(`📅 Due: ${parsed.due_date}`);
+    }
+    if (parsed.recurrence) {
+        const { recurrence_type, recurrence_interval } = parsed.recurrence;
+        lines.push(
+            recurrence_interval > 1
+                ? `🔁 Repeats: ${recurrence_type} (every ${recurrence_interval})`
+                : `🔁 Repeats: ${recurrence_type}`
+        );
+    }
+    if (parsed.priority) {
+        lines.push(`⚡ Priority: ${parsed.priority}`);
+    }
+    if (parsed.project) {
+        lines.push(
+            project
+                ? `📁 Project: ${project.name}`
+                : `⚠️ Project "${parsed.project}" not found`
+        );
+    }
+    if (parsed.tags.length > 0) {
+        lines.push(`🏷️ Tags: ${parsed.tags.join(', ')}`);
+    }
+
+    return lines.join('\n');
 };
 
 // Function to handle bot commands
@@ -223,7 +319,7 @@ const handleBotCommand = async (command, user, chatId, messageId) => {
             await sendTelegramMessage(
                 botToken,
                 chatId,
-                `📋 tududi Bot Help\n\nSend me any text message and I'll add it to your tududi inbox as a task.\n\nCommands:\n/start - Welcome message\n/help - Show this help message\n\nJust type your task and I'll take care of the rest!`,
+                `📋 tududi Bot Help\n\nSend me any text message and I'll add it to your tududi inbox as a task.\n\nAdd a date, !priority, +Project or a repeat to create the task directly, e.g. "Pay rent tomorrow !high +Home #bills" or "Standup every monday +Work".\n\nCommands:\n/start - Welcome message\n/help - Show this help message\n\nJust type your task and I'll take care of the rest!`,
                 messageId
             );
             break;
@@ -275,16 +371,36 @@ const processMessage = async (user, update) => {
             return;
         }
 
-        // Create inbox item for regular messages (with duplicate check)
-        const inboxItem = await createInboxItem(text, user.id, messageId);
+        // Messages with a due date, priority, project or recurrence become
+        // tasks right away; everything else lands in the inbox
+        const parsed = quickAddService.parse(text, user.timezone);
 
-        // Send confirmation
-        await sendTelegramMessage(
-            user.telegram_bot_token,
-            chatId,
-            `✅ Added to tududi inbox: "${text}"`,
-            messageId
-        );
+        if (quickAddService.hasTaskFields(parsed)) {
+            const { task, project } = await createTaskFromMessage(
+                text,
+                parsed,
+                user.id,
+                messageId
+            );
+
+            await sendTelegramMessage(
+                user.telegram_bot_token,
+                chatId,
+                formatTaskConfirmation(task, parsed, project),
+                messageId
+            );
+        } else {
+            // Create inbox item for regular messages (with duplicate check)
+            await createInboxItem(text, user.id, messageId);
+
+            // Send confirmation
+            await sendTelegramMessage(
+                user.telegram_bot_token,
+                chatId,
+                `✅ Added to tududi inbox: "${text}"`,
+                messageId
+            );
+        }
 
         console.log(
             `Successfully processed message ${messageId} for user ${user.id}: "${text}"`
@@ -300,6 +416,31 @@ const processMessage = async (user, update) => {
     }
 };
 
+// Function to process a button press on a reminder (contains side effects)
+const processCallbackQuery = async (user, update) => {
+    const callbackQuery = update.callback_query;
+
+    let answer;
+    try {
+        answer = await TaskReminderService.handleCallback(
+            user,
+            callbackQuery.data
+        );
+    } catch (error) {
+        console.error(
+            `Error handling button press ${callbackQuery.id} for user ${user.id}:`,
+            error
+        );
+        answer = `❌ Something went wrong: ${error.message}`;
+    }
+
+    await answerCallbackQuery(
+        user.telegram_bot_token,
+        callbackQuery.id,
+        answer || 'Unknown action'
+    );
+};
+
 // Function to process updates (contains side effects)
 const processUpdates = async (user, updates) => {
     if (!updates.length) return;
@@ -328,8 +469,15 @@ const processUpdates = async (user, updates) => {
         try {
             const updateKey = `${user.id}-${update.update_id}`;
 
-            if (update.message && update.message.text) {
-                await processMessage(user, update);
+            const isMessage = update.message && update.message.text;
+            const isCallbackQuery = !!update.callback_query;
+
+            if (isMessage || isCallbackQuery) {
+                if (isMessage) {
+                    await processMessage(user, update);
+                } else {
+                    await processCallbackQuery(user, update);
+                }
 
                 // Mark update as processed
                 pollerState.processedUpdates.add(updateKey);
@@ -476,4 +624,6 @@ module.exports = {
     _getHighestUpdateId: getHighestUpdateId,
     _createMessageParams: createMessageParams,
     _createTelegramUrl: createTelegramUrl,
+    _formatTaskConfirmation: formatTaskConfirmation,
+    _processMessage: processMessage,
 };
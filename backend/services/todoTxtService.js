@@ -0,0 +1,311 @@
+const { Op } = require('sequelize');
+const { sequelize, Project, Task, Tag } = require('../models');
+
+// todo.txt (https://github.com/todotxt/todo.txt) keeps one task per line:
+//   x 2025-07-02 2025-06-30 (A) Call mum +Family @phone due:2025-07-01 rec:+1w
+// Contexts become tags and projects are matched by name. Names can't
+// contain spaces in todo.txt, so spaces are written as underscores.
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Low is the default priority, so it isn't written
+const PRIORITY_LETTERS = {
+    [Task.PRIORITY.HIGH]: 'A',
+    [Task.PRIORITY.MEDIUM]: 'B',
+};
+
+// rec: units; weeks and months take their day from the due date
+const RECURRENCE_UNITS = { daily: 'd', weekly: 'w', monthly: 'm' };
+const RECURRENCE_TYPES = { d: 'daily', w: 'weekly', m: 'monthly' };
+
+const formatDay = (date) => new Date(date).toISOString().slice(0, 10);
+
+const toToken = (name) => String(name).trim().replace(/\s+/g, '_');
+
+const fromToken = (token) => token.replace(/_/g, ' ');
+
+function getPriorityFromLetter(letter) {
+    if (letter === 'A') return Task.PRIORITY.HIGH;
+    if (letter === 'B') return Task.PRIORITY.MEDIUM;
+    return Task.PRIORITY.LOW;
+}
+
+// "+" marks a strict recurrence counted from the due date
+function formatRecurrence(task) {
+    if (!task.recurrence_type || task.recurrence_type === 'none') return null;
+    const unit = RECURRENCE_UNITS[task.recurrence_type] || 'm';
+    return `${task.completion_based ? '' : '+'}${task.recurrence_interval || 1}${unit}`;
+}
+
+/**
+ * Write a task as a todo.txt line
+ * @param {Object} task - Task record with its Project and Tags loaded
+ * @returns {string} todo.txt line
+ */
+function formatTask(task) {
+    const parts = [];
+    const isDone = task.status === Task.STATUS.DONE;
+    const letter = PRIORITY_LETTERS[task.priority];
+
+    if (isDone) {
+        parts.push('x');
+        if (task.completed_at) parts.push(formatDay(task.completed_at));
+    } else if (letter) {
+        parts.push(`(${letter})`);
+    }
+    if (task.created_at && (!isDone || task.completed_at)) {
+        parts.push(formatDay(task.created_at));
+    }
+
+    parts.push(String(task.name).replace(/\s+/g, ' ').trim());
+    if (task.Project) parts.push(`+${toToken(task.Project.name)}`);
+    (task.Tags || []).forEach((tag) => parts.push(`@${toToken(tag.name)}`));
+    if (task.due_date) parts.push(`due:${formatDay(task.due_date)}`);
+
+    const recurrence = formatRecurrence(task);
+    if (recurrence) parts.push(`rec:${recurrence}`);
+    // Completed lines don't start with a priority, so keep it as a tag
+    if (isDone && letter) parts.push(`pri:${letter}`);
+
+    return parts.join(' ');
+}
+
+/**
+ * Read a todo.txt line
+ * @param {string} line - todo.txt line
+ * @returns {Object|null} { name, status, completed_at, created_at, priority,
+ *   project, tags, due_date, recurrence, warnings }, or null for blank lines
+ */
+function parseLine(line) {
+    const tokens = String(line).trim().split(/\s+/).filter(Boolean);
+    if (tokens.length === 0) return null;
+
+    const result = {
+        status: Task.STATUS.NOT_STARTED,
+        completed_at: null,
+        created_at: null,
+        priority: Task.PRIORITY.LOW,
+        project: null,
+        tags: [],
+        due_date: null,
+        recurrence: null,
+        warnings: [],
+    };
+
+    if (tokens[0] === 'x') {
+        tokens.shift();
+        result.status = Task.STATUS.DONE;
+        if (DATE_PATTERN.test(tokens[0])) {
+            result.completed_at = new Date(`${tokens.shift()}T00:00:00Z`);
+        }
+    } else if (/^\([A-Z]\)$/.test(tokens[0])) {
+        result.priority = getPriorityFromLetter(tokens.shift()[1]);
+    }
+    if (DATE_PATTERN.test(tokens[0])) {
+        result.created_at = new Date(`${tokens.shift()}T00:00:00Z`);
+    }
+
+    const words = [];
+    let recurrence = null;
+    tokens.forEach((token) => {
+        const extension = token.match(/^(due|rec|pri):(\S+)$/);
+        if (token.length > 1 && token.startsWith('+')) {
+            if (result.project) {
+                result.warnings.push(
+                    `Only the first project is kept; ${token} was dropped`
+                );
+            } else {
+                result.project = fromToken(token.slice(1));
+            }
+        } else if (token.length > 1 && token.startsWith('@')) {
+            result.tags.push(fromToken(token.slice(1)));
+        } else if (extension && extension[1] === 'due') {
+            if (DATE_PATTERN.test(extension[2])) {
+                result.due_date = new Date(`${extension[2]}T00:00:00Z`);
+            } else {
+                result.warnings.push(`${token} is not a date`);
+            }
+        } else if (extension && extension[1] === 'rec') {
+            recurrence = extension[2];
+        } else if (extension && extension[1] === 'pri') {
+            result.priority = getPriorityFromLetter(extension[2]);
+        } else {
+            words.push(token);
+        }
+    });
+    result.name = words.join(' ');
+
+    if (recurrence) {
+        const match = recurrence.match(/^(\+?)(\d*)([dwm])$/);
+        if (match) {
+            result.recurrence = {
+                recurrence_type: RECURRENCE_TYPES[match[3]],
+                recurrence_interval: parseInt(match[2], 10) || 1,
+                completion_based: match[1] !== '+',
+            };
+            // The due date anchors the day of the week or month
+            if (result.due_date && match[3] === 'w') {
+                result.recurrence.recurrence_weekday =
+                    result.due_date.getUTCDay();
+            } else if (result.due_date && match[3] === 'm') {
+                result.recurrence.recurrence_month_day =
+                    result.due_date.getUTCDate();
+            }
+        } else {
+            result.warnings.push(
+                `rec:${recurrence} has no equivalent; imported without repeating`
+            );
+        }
+    }
+
+    return result;
+}
+
+/**
+ * Write a user's tasks as a todo.txt file. Archived tasks are left out.
+ * @param {Object} user - User record
+ * @returns {Promise<string>} todo.txt contents
+ */
+async function exportTodoTxt(user) {
+    const tasks = await Task.findAll({
+        where: {
+            user_id: user.id,
+            status: { [Op.ne]: Task.STATUS.ARCHIVED },
+        },
+        include: [
+            { model: Project, attributes: ['name'] },
+            {
+                model: Tag,
+                attributes: ['name'],
+                through: { attributes: [] },
+            },
+        ],
+        order: [['id', 'ASC']],
+    });
+
+    return tasks.map((task) => `${formatTask(task)}\n`).join('');
+}
+
+// Existing projects and tags are reused by name, with or without
+// underscores for spaces
+async function findOrCreateByName(model, user, name, transaction) {
+    const existing = await model.findOne({
+        where: {
+            user_id: user.id,
+            name: { [Op.in]: [name, toToken(name)] },
+        },
+        transaction,
+    });
+    if (existing) {
+        return [existing, false];
+    }
+
+    const record = await model.create(
+        { name, user_id: user.id },
+        { transaction }
+    );
+    return [record, true];
+}
+
+/**
+ * Add the tasks of a todo.txt file to a user's account
+ * @param {Object} user - User record
+ * @param {string} text - todo.txt contents
+ * @param {Object} options - { dryRun: roll back after building the report }
+ * @returns {Promise<Object>} Report of what was (or would be) imported
+ */
+async function importTodoTxt(user, text, { dryRun = false } = {}) {
+    const report = {
+        dry_run: dryRun,
+        created: { projects: 0, tags: 0, tasks: 0 },
+        warnings: [],
+    };
+    const projects = new Map();
+    const tags = new Map();
+
+    const findCached = async (cache, model, name, transaction, counter) => {
+        if (!cache.has(name)) {
+            const [record, created] = await findOrCreateByName(
+                model,
+                user,
+                name,
+                transaction
+            );
+            if (created) report.created[counter]++;
+            cache.set(name, record);
+        }
+        return cache.get(name);
+    };
+
+    const transaction = await sequelize.transaction();
+    try {
+        const lines = String(text).split(/\r?\n/);
+        for (let index = 0; index < lines.length; index++) {
+            const parsed = parseLine(lines[index]);
+            if (!parsed) continue;
+            parsed.warnings.forEach((warning) =>
+                report.warnings.push(`Line ${index + 1}: ${warning}`)
+            );
+            if (!parsed.name) {
+                report.warnings.push(`Line ${index + 1}: no task name`);
+                continue;
+            }
+
+            const project = parsed.project
+                ? await findCached(
+                      projects,
+                      Project,
+                      parsed.project,
+                      transaction,
+                      'projects'
+                  )
+                : null;
+            const task = await Task.create(
+                {
+                    name: parsed.name,
+                    status: parsed.status,
+                    priority: parsed.priority,
+                    due_date: parsed.due_date,
+                    completed_at:
+                        parsed.status === Task.STATUS.DONE
+                            ? parsed.completed_at || new Date()
+                            : null,
+                    created_at: parsed.created_at || undefined,
+                    project_id: project ? project.id : null,
+                    user_id: user.id,
+                    ...parsed.recurrence,
+                },
+                { transaction }
+            );
+            report.created.tasks++;
+
+            if (parsed.tags.length > 0) {
+                const taskTags = [];
+                for (const name of parsed.tags) {
+                    taskTags.push(
+                        await findCached(tags, Tag, name, transaction, 'tags')
+                    );
+                }
+                await task.setTags(taskTags, { transaction });
+            }
+        }
+    } catch (error) {
+        await transaction.rollback();
+        throw error;
+    }
+
+    if (dryRun) {
+        await transaction.rollback();
+    } else {
+        await transaction.commit();
+    }
+
+    return report;
+}
+
+module.exports = {
+    formatTask,
+    parseLine,
+    exportTodoTxt,
+    importTodoTxt,
+};
@@ -0,0 +1,330 @@
+const { Op } = require('sequelize');
+const {
+    Area,
+    InboxItem,
+    Note,
+    Project,
+    ProjectSection,
+    Task,
+} = require('../models');
+const TaskDeletionService = require('./taskDeletionService');
+const config = require('../config/config');
+
+// Deleted tasks, projects, notes, areas and inbox items keep their row with a
+// deleted_at timestamp until they are restored or purged. Everything deleted
+// in one go (a project with its tasks and notes, a task with its subtasks)
+// shares that timestamp, which is how restore and purge find it again.
+
+const MODELS = {
+    task: Task,
+    project: Project,
+    note: Note,
+    area: Area,
+    inbox_item: InboxItem,
+};
+
+const TRASH_TYPES = Object.keys(MODELS);
+
+// Projects go first so the tasks and notes trashed with them go along
+const PURGE_ORDER = ['project', 'area', 'task', 'note', 'inbox_item'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const getName = (type, record) => {
+    if (type === 'task' || type === 'project' || type === 'area') {
+        return record.name;
+    }
+    return type === 'note' ? record.title : record.content;
+};
+
+const sameTime = (a, b) => Boolean(a && b) && a.getTime() === b.getTime();
+
+// Update trashed and live rows alike; a bulk update would otherwise only
+// touch rows outside the trash
+const setDeletedAt = (model, ids, deletedAt) =>
+    model.update(
+        { deleted_at: deletedAt },
+        { where: { id: ids }, paranoid: false }
+    );
+
+/**
+ * Move a record to the trash. Projects take their tasks and notes along;
+ * an area only disappears, its projects keep pointing at it for a restore.
+ * @param {string} type - One of TRASH_TYPES
+ * @param {Object} record - Record to delete
+ * @param {number} userId - User ID
+ */
+async function moveToTrash(type, record, userId) {
+    const deletedAt = new Date();
+
+    if (type === 'task') {
+        await TaskDeletionService.trashTasks([record], userId, deletedAt);
+    } else if (type === 'project') {
+        const tasks = await Task.findAll({ where: { project_id: record.id } });
+        await TaskDeletionService.trashTasks(tasks, userId, deletedAt);
+        const notes = await Note.findAll({
+            where: { project_id: record.id },
+            attributes: ['id'],
+        });
+        await setDeletedAt(
+            Note,
+            notes.map((note) => note.id),
+            deletedAt
+        );
+        await setDeletedAt(Project, [record.id], deletedAt);
+    } else {
+        await setDeletedAt(MODELS[type], [record.id], deletedAt);
+    }
+
+    record.setDataValue('deleted_at', deletedAt);
+}
+
+/**
+ * Find a record of a user's trash
+ * @param {number} userId - User ID
+ * @param {string} type - One of TRASH_TYPES
+ * @param {number|string} id - Record ID
+ * @returns {Promise<Object|null>} Trashed record
+ */
+async function findTrashed(userId, type, id) {
+    return await MODELS[type].findOne({
+        where: { id, user_id: userId, deleted_at: { [Op.ne]: null } },
+        paranoid: false,
+    });
+}
+
+/**
+ * List what a user has in the trash. Tasks and notes deleted together with
+ * a project or parent task are counted on that item instead of listed.
+ * @param {number} userId - User ID
+ * @returns {Promise<Object>} { retention_days, items } with items newest
+ *   first
+ */
+async function listTrash(userId) {
+    const trashed = {};
+    for (const type of TRASH_TYPES) {
+        trashed[type] = await MODELS[type].findAll({
+            where: { user_id: userId, deleted_at: { [Op.ne]: null } },
+            paranoid: false,
+        });
+    }
+
+    const projects = new Map(trashed.project.map((p) => [p.id, p]));
+    const tasks = new Map(trashed.task.map((task) => [task.id, task]));
+    const deletedWith = (record, parents, parentId) =>
+        parents.has(parentId) &&
+        sameTime(parents.get(parentId).deleted_at, record.deleted_at);
+
+    const contents = new Map();
+    const countIn = (key, kind) => {
+        const counts = contents.get(key) || { tasks: 0, notes: 0 };
+        counts[kind]++;
+        contents.set(key, counts);
+    };
+
+    const items = [];
+    TRASH_TYPES.forEach((type) => {
+        trashed[type].forEach((record) => {
+            if (
+                (type === 'task' || type === 'note') &&
+                deletedWith(record, projects, record.project_id)
+            ) {
+                countIn(`project:${record.project_id}`, `${type}s`);
+                return;
+            }
+            if (
+                type === 'task' &&
+                deletedWith(record, tasks, record.parent_task_id)
+            ) {
+                countIn(`task:${record.parent_task_id}`, 'tasks');
+                return;
+            }
+            items.push({ type, record });
+        });
+    });
+
+    const retentionDays = config.trashRetentionDays;
+    return {
+        retention_days: retentionDays,
+        items: items
+            .map(({ type, record }) => ({
+                type,
+                id: record.id,
+                name: getName(type, record),
+                deleted_at: record.deleted_at,
+                purge_at:
+                    retentionDays > 0
+                        ? new Date(
+                              record.deleted_at.getTime() +
+                                  retentionDays * DAY_MS
+                          )
+                        : null,
+                contents: contents.get(`${type}:${record.id}`) || null,
+            }))
+            .sort((a, b) => b.deleted_at - a.deleted_at),
+    };
+}
+
+/**
+ * Take a record out of the trash with everything deleted along with it
+ * @param {number} userId - User ID
+ * @param {string} type - One of TRASH_TYPES
+ * @param {Object} record - Trashed record
+ * @returns {Promise<Object>} Restored record
+ */
+async function restore(userId, type, record) {
+    if (type === 'task') {
+        await TaskDeletionService.restoreTasks([record], userId);
+    } else if (type === 'project') {
+        await setDeletedAt(Project, [record.id], null);
+        const tasks = await Task.findAll({
+            where: { project_id: record.id, deleted_at: record.deleted_at },
+            paranoid: false,
+        });
+        await TaskDeletionService.restoreTasks(tasks, userId);
+        const notes = await Note.findAll({
+            where: { project_id: record.id, deleted_at: record.deleted_at },
+            attributes: ['id'],
+            paranoid: false,
+        });
+        await setDeletedAt(
+            Note,
+            notes.map((note) => note.id),
+            null
+        );
+    } else {
+        await setDeletedAt(MODELS[type], [record.id], null);
+    }
+
+    // Out of the trash, the delete has nothing left to undo
+    if (type === 'project' || type === 'note') {
+        await MODELS[type].update(
+            { undo_token: null },
+            { where: { id: record.id } }
+        );
+    }
+
+    // A note whose project is still in the trash comes back on its own
+    if (type === 'note' && record.project_id) {
+        const project = await Project.findByPk(record.project_id);
+        if (!project) {
+            await Note.update(
+                { project_id: null },
+                { where: { id: record.id } }
+            );
+        }
+    }
+
+    return await MODELS[type].findByPk(record.id);
+}
+
+/**
+ * Permanently delete a trashed record with everything deleted along with it
+ * @param {string} type - One of TRASH_TYPES
+ * @param {Object} record - Trashed record
+ */
+async function purge(type, record) {
+    if (type === 'task') {
+        await TaskDeletionService.deleteTask(record);
+        return;
+    }
+
+    if (type === 'project') {
+        const tasks = await Task.findAll({
+            where: { project_id: record.id, deleted_at: record.deleted_at },
+            paranoid: false,
+        });
+        for (const task of tasks) {
+            // Subtasks may already be gone with their parent
+            if (await Task.findByPk(task.id, { paranoid: false })) {
+                await TaskDeletionService.deleteTask(task);
+            }
+        }
+        await Note.destroy({
+            where: { project_id: record.id, deleted_at: record.deleted_at },
+            force: true,
+        });
+        // Anything trashed separately stays in the trash without a project
+        await Task.update(
+            { project_id: null, section_id: null },
+            { where: { project_id: record.id }, paranoid: false }
+        );
+        await Note.update(
+            { project_id: null },
+            { where: { project_id: record.id }, paranoid: false }
+        );
+        await ProjectSection.destroy({ where: { project_id: record.id } });
+    } else if (type === 'area') {
+        await Project.update(
+            { area_id: null },
+            { where: { area_id: record.id }, paranoid: false }
+        );
+    }
+
+    await record.destroy({ force: true });
+}
+
+// Purge the trashed records matching a where clause, one at a time so
+// everything deleted along with them goes too
+async function purgeMatching(where) {
+    let purged = 0;
+    for (const type of PURGE_ORDER) {
+        const ids = (
+            await MODELS[type].findAll({
+                where,
+                attributes: ['id'],
+                paranoid: false,
+                raw: true,
+            })
+        ).map((record) => record.id);
+
+        for (const id of ids) {
+            const record = await MODELS[type].findByPk(id, {
+                paranoid: false,
+            });
+            if (record && record.deleted_at) {
+                await purge(type, record);
+                purged++;
+            }
+        }
+    }
+    return purged;
+}
+
+/**
+ * Permanently delete everything in a user's trash
+ * @param {number} userId - User ID
+ * @returns {Promise<number>} Number of records purged
+ */
+async function emptyTrash(userId) {
+    return await purgeMatching({
+        user_id: userId,
+        deleted_at: { [Op.ne]: null },
+    });
+}
+
+/**
+ * Permanently delete whatever has been in the trash longer than the
+ * retention period
+ * @param {Date} now - Current time (optional)
+ * @returns {Promise<number>} Number of records purged
+ */
+async function purgeExpired(now = new Date()) {
+    if (!(config.trashRetentionDays > 0)) {
+        return 0;
+    }
+
+    const cutoff = new Date(now.getTime() - config.trashRetentionDays * DAY_MS);
+    return await purgeMatching({ deleted_at: { [Op.lt]: cutoff } });
+}
+
+module.exports = {
+    TRASH_TYPES,
+    moveToTrash,
+    findTrashed,
+    listTrash,
+    restore,
+    purge,
+    emptyTrash,
+    purgeExpired,
+};
@@ -0,0 +1,317 @@
+const crypto = require('crypto');
+const { Op } = require('sequelize');
+const { Note, Project, Tag, Task, TaskEvent } = require('../models');
+const TaskEventService = require('./taskEventService');
+const TaskDeletionService = require('./taskDeletionService');
+const trashService = require('./trashService');
+
+// Task fields an undo writes back from the old_value of their events
+const UNDOABLE_FIELDS = [
+    'name',
+    'status',
+    'priority',
+    'due_date',
+    'due_time',
+    'project_id',
+    'note',
+    'today',
+    'tags',
+    'recurrence_type',
+    'recurrence_interval',
+    'recurrence_end_date',
+    'recurrence_weekday',
+    'recurrence_month_day',
+    'recurrence_week_of_month',
+    'completion_based',
+    'defer_until',
+];
+
+// Records other than tasks whose delete can be undone. They carry the undo
+// token themselves while in the trash, having no events to hold it.
+const TRASHED_MODELS = { project: Project, note: Note };
+
+class UndoService {
+    /**
+     * Make the events logged for one change undoable together
+     * @param {Array<Object>} events - TaskEvent records; empty entries from
+     *   failed logging are skipped
+     * @returns {Promise<string|null>} Undo token, or null when nothing was
+     *   logged
+     */
+    static async record(events) {
+        if (!events.some(Boolean)) return null;
+
+        const token = crypto.randomBytes(16).toString('hex');
+        await this.attach(token, events);
+        return token;
+    }
+
+    /**
+     * Add events logged as a side effect of a change, like a parent task
+     * completed by its last subtask, to the change's undo token
+     * @param {string|null} token - Undo token of the change
+     * @param {Array<Object>} events - TaskEvent records; empty entries are
+     *   skipped
+     */
+    static async attach(token, events) {
+        const eventIds = events.filter(Boolean).map((event) => event.id);
+        if (!token || eventIds.length === 0) return;
+
+        await TaskEvent.update(
+            { undo_token: token },
+            { where: { id: eventIds } }
+        );
+    }
+
+    /**
+     * Move a project or note to the trash, keeping the delete undoable
+     * @param {string} type - 'project' or 'note'
+     * @param {Object} record - Record to delete
+     * @param {number} userId - User ID
+     * @returns {Promise<string>} Undo token
+     */
+    static async trash(type, record, userId) {
+        await trashService.moveToTrash(type, record, userId);
+
+        const token = crypto.randomBytes(16).toString('hex');
+        await TRASHED_MODELS[type].update(
+            { undo_token: token },
+            { where: { id: record.id }, paranoid: false }
+        );
+        return token;
+    }
+
+    /**
+     * Find the projects and notes an undoable delete moved to the trash
+     * @param {number} userId - User ID
+     * @param {string} token - Undo token
+     * @returns {Promise<Array>} { type, record } of each trashed record
+     */
+    static async findTrashed(userId, token) {
+        const trashed = [];
+        for (const [type, model] of Object.entries(TRASHED_MODELS)) {
+            const records = await model.findAll({
+                where: {
+                    undo_token: token,
+                    user_id: userId,
+                    deleted_at: { [Op.ne]: null },
+                },
+                paranoid: false,
+            });
+            records.forEach((record) => trashed.push({ type, record }));
+        }
+        return trashed;
+    }
+
+    /**
+     * Take deleted projects and notes back out of the trash, with whatever
+     * was deleted along with them. The token is used up.
+     * @param {Array<Object>} trashed - Records from findTrashed
+     * @param {number} userId - User ID
+     * @returns {Promise<Array>} { type, record } of each restored record
+     */
+    static async restoreTrashed(trashed, userId) {
+        const restored = [];
+        for (const { type, record } of trashed) {
+            restored.push({
+                type,
+                record: await trashService.restore(userId, type, record),
+            });
+        }
+        return restored;
+    }
+
+    /**
+     * Find the events of an undoable change
+     * @param {number} userId - User ID
+     * @param {string} token - Undo token
+     * @returns {Promise<Array>} Events, oldest first
+     */
+    static async findEvents(userId, token) {
+        return await TaskEvent.findAll({
+            where: { undo_token: token, user_id: userId },
+            order: [['id', 'ASC']],
+        });
+    }
+
+    /**
+     * Whether any of the tasks changed after the events were logged. Only the
+     * latest change to a task can be undone, so an undo never overwrites a
+     * later edit.
+     * @param {Array<Object>} events - Events of the change
+     * @returns {Promise<boolean>} True when the change can't be undone
+     */
+    static async hasLaterChanges(events) {
+        if (events.length === 0) return false;
+
+        // An undo leaves unblocked dependents themselves alone
+        const changed = events.filter(
+            (event) => event.event_type !== 'unblocked'
+        );
+        const count = await TaskEvent.count({
+            where: {
+                task_id: [...new Set(changed.map((event) => event.task_id))],
+                id: { [Op.gt]: Math.max(...events.map((event) => event.id)) },
+            },
+        });
+        return count > 0;
+    }
+
+    // Turn a logged old value back into something the column accepts
+    static async toAttribute(field, value, userId) {
+        switch (field) {
+            case 'status':
+                return typeof value === 'number'
+                    ? value
+                    : Task.getStatusValue(value);
+            case 'priority':
+                return typeof value === 'string'
+                    ? Task.getPriorityValue(value)
+                    : value;
+            case 'today':
+            case 'completion_based':
+                return Boolean(value);
+            case 'recurrence_type':
+                return value || Task.RECURRENCE_TYPE.NONE;
+            case 'project_id': {
+                if (!value) return null;
+                // The project may have been deleted since
+                const project = await Project.findOne({
+                    where: { id: value, user_id: userId },
+                });
+                return project ? project.id : null;
+            }
+            default:
+                return value === undefined ? null : value;
+        }
+    }
+
+    // Write old field values back onto a task, logging each change
+    static async revertFields(task, fields, userId) {
+        const attributes = {};
+        const changes = {};
+        for (const [field, value] of Object.entries(fields)) {
+            if (field === 'tags') continue;
+            const attribute = await this.toAttribute(field, value, userId);
+            if (field === 'name' && !attribute) continue;
+            attributes[field] = attribute;
+            changes[field] = { oldValue: task[field], newValue: attribute };
+        }
+
+        if (
+            attributes.status !== undefined &&
+            attributes.status !== task.status
+        ) {
+            attributes.completed_at =
+                attributes.status === Task.STATUS.DONE ? new Date() : null;
+        }
+
+        if (Object.keys(attributes).length > 0) {
+            await task.update(attributes);
+            await TaskEventService.logTaskUpdate(task.id, userId, changes, {
+                source: 'web',
+                trigger: 'undo',
+            });
+        }
+
+        if (fields.tags !== undefined) {
+            const oldTags = task.Tags.map((tag) => ({
+                id: tag.id,
+                name: tag.name,
+            }));
+            const tags = await Tag.findAll({
+                where: {
+                    id: (fields.tags || []).map((tag) => tag.id),
+                    user_id: userId,
+                },
+            });
+            await task.setTags(tags);
+            await TaskEventService.logEvent({
+                taskId: task.id,
+                userId,
+                eventType: 'tags_changed',
+                fieldName: 'tags',
+                oldValue: oldTags,
+                newValue: tags.map((tag) => ({ id: tag.id, name: tag.name })),
+                metadata: {
+                    source: 'web',
+                    action: 'tags_update',
+                    trigger: 'undo',
+                },
+            });
+        }
+    }
+
+    /**
+     * Reverse a change: trashed tasks come back, created ones go to the
+     * trash and changed fields get their old values, on parent tasks
+     * completed along with it too. Dependents it unblocked are blocked again,
+     * so their "unblocked" events go. The token is used up.
+     * @param {Array<Object>} events - Events of the change, from findEvents
+     * @param {number} userId - User ID
+     * @returns {Promise<Object>} { updated, restored, deleted } task records
+     */
+    static async undo(events, userId) {
+        const createdIds = [];
+        const deletedIds = [];
+        const unblockedEventIds = [];
+        const fieldsByTask = new Map();
+
+        // Newest first, so a field ends up with its oldest value
+        [...events].reverse().forEach((event) => {
+            if (event.event_type === 'created') {
+                createdIds.push(event.task_id);
+            } else if (event.event_type === 'deleted') {
+                deletedIds.push(event.task_id);
+            } else if (event.event_type === 'unblocked') {
+                unblockedEventIds.push(event.id);
+            } else if (UNDOABLE_FIELDS.includes(event.field_name)) {
+                const fields = fieldsByTask.get(event.task_id) || {};
+                fields[event.field_name] = event.old_value
+                    ? event.old_value[event.field_name]
+                    : null;
+                fieldsByTask.set(event.task_id, fields);
+            }
+        });
+
+        const trashed = await Task.findAll({
+            where: {
+                id: deletedIds,
+                user_id: userId,
+                deleted_at: { [Op.ne]: null },
+            },
+            paranoid: false,
+        });
+        const restored = await TaskDeletionService.restoreTasks(
+            trashed,
+            userId
+        );
+
+        const updated = [];
+        for (const [taskId, fields] of fieldsByTask) {
+            const task = await Task.findOne({
+                where: { id: taskId, user_id: userId },
+                include: [{ model: Tag, through: { attributes: [] } }],
+            });
+            if (task) {
+                await this.revertFields(task, fields, userId);
+                updated.push(await task.reload());
+            }
+        }
+
+        const deleted = await Task.findAll({
+            where: { id: createdIds, user_id: userId },
+        });
+        await TaskDeletionService.trashTasks(deleted, userId);
+
+        await TaskEvent.destroy({ where: { id: unblockedEventIds } });
+        await TaskEvent.update(
+            { undo_token: null },
+            { where: { id: events.map((event) => event.id) } }
+        );
+
+        return { updated, restored, deleted };
+    }
+}
+
+module.exports = UndoService;
@@ -0,0 +1,282 @@
+const crypto = require('crypto');
+const { Op } = require('sequelize');
+const { Webhook, WebhookDelivery } = require('../models');
+const config = require('../config/config');
+
+const WEBHOOK_EVENTS = [
+    'task.created',
+    'task.updated',
+    'task.completed',
+    'task.deleted',
+    'project.created',
+    'project.updated',
+    'project.deleted',
+    'note.created',
+    'note.updated',
+    'note.deleted',
+];
+
+const TEST_EVENT = 'webhook.test';
+const MAX_ATTEMPTS = 6;
+const BASE_RETRY_DELAY_MS = 60 * 1000;
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+const MAX_RESPONSE_BODY_LENGTH = 1000;
+const DELIVERY_RETENTION_DAYS = 30;
+const BATCH_SIZE = 50;
+
+// Only one processing run at a time so a delivery is never sent twice
+let isProcessing = false;
+let processAgain = false;
+
+function generateSecret() {
+    return crypto.randomBytes(24).toString('hex');
+}
+
+// The timestamp is signed along with the body so receivers can reject
+// replayed deliveries
+function signPayload(secret, timestamp, body) {
+    return crypto
+        .createHmac('sha256', secret)
+        .update(`${timestamp}.${body}`)
+        .digest('hex');
+}
+
+// Public representation; the secret itself is only returned when it is set
+function serialize(webhook) {
+    return {
+        id: webhook.id,
+        name: webhook.name,
+        url: webhook.url,
+        secret_hint: webhook.secret.slice(-4),
+        events: webhook.events,
+        active: webhook.active,
+        created_at: webhook.created_at,
+        updated_at: webhook.updated_at,
+    };
+}
+
+// Delay before the next attempt, doubling after every failure
+function getRetryDelay(attempts) {
+    return BASE_RETRY_DELAY_MS * Math.pow(2, attempts - 1);
+}
+
+function buildPayload(event, data) {
+    return { event, created_at: new Date().toISOString(), data };
+}
+
+// Send new deliveries right away; the scheduler picks up retries. Tests
+// process the queue explicitly.
+function scheduleProcessing() {
+    if (config.environment === 'test') return;
+    setImmediate(() => {
+        processPendingDeliveries().catch((error) =>
+            console.error('Error processing webhook deliveries:', error)
+        );
+    });
+}
+
+/**
+ * Queue an event for every active webhook of the user subscribed to it.
+ * Never throws, so callers can fire and forget after a successful change.
+ * @param {number} userId - Owner of the changed record
+ * @param {string} event - One of WEBHOOK_EVENTS, e.g. 'task.created'
+ * @param {Object} data - Event data, e.g. { task }
+ * @returns {Promise<Array>} Queued WebhookDelivery records
+ */
+async function dispatch(userId, event, data) {
+    try {
+        const webhooks = await Webhook.findAll({
+            where: { user_id: userId, active: true },
+        });
+        const subscribed = webhooks.filter((webhook) =>
+            (webhook.events || []).includes(event)
+        );
+        if (subscribed.length === 0) return [];
+
+        const payload = buildPayload(event, data);
+        const deliveries = await Promise.all(
+            subscribed.map((webhook) =>
+                WebhookDelivery.create({
+                    webhook_id: webhook.id,
+                    event,
+                    payload,
+                    next_attempt_at: new Date(),
+                })
+            )
+        );
+
+        scheduleProcessing();
+        return deliveries;
+    } catch (error) {
+        console.error(`Error dispatching webhook event ${event}:`, error);
+        return [];
+    }
+}
+
+async function recordAttempt(delivery, result) {
+    const attempts = delivery.attempts + 1;
+    const now = new Date();
+    const update = {
+        attempts,
+        last_attempt_at: now,
+        response_status: result.status || null,
+        response_body: result.body
+            ? result.body.slice(0, MAX_RESPONSE_BODY_LENGTH)
+            : null,
+        error: result.error || null,
+    };
+
+    if (result.ok) {
+        update.status = 'delivered';
+        update.next_attempt_at = null;
+    } else if (attempts >= MAX_ATTEMPTS) {
+        update.status = 'failed';
+        update.next_attempt_at = null;
+    } else {
+        update.next_attempt_at = new Date(
+            now.getTime() + getRetryDelay(attempts)
+        );
+    }
+
+    return await delivery.update(update);
+}
+
+/**
+ * Send a delivery once and record the outcome
+ * @param {Object} delivery - WebhookDelivery record
+ * @param {Object} webhook - Its Webhook record
+ * @returns {Promise<Object>} The updated delivery
+ */
+async function deliver(delivery, webhook) {
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    let result;
+
+    try {
+        const response = await fetch(webhook.url, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                'User-Agent': 'tududi-webhooks',
+                'X-Tududi-Event': delivery.event,
+                'X-Tududi-Delivery': String(delivery.id),
+                'X-Tududi-Timestamp': timestamp,
+                'X-Tududi-Signature': `sha256=${signPayload(webhook.secret, timestamp, body)}`,
+            },
+            body,
+            signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+        });
+        result = {
+            ok: response.ok,
+            status: response.status,
+            body: await response.text(),
+        };
+    } catch (error) {
+        result = { ok: false, error: error.message };
+    }
+
+    return await recordAttempt(delivery, result);
+}
+
+async function runPendingDeliveries(now) {
+    const deliveries = await WebhookDelivery.findAll({
+        where: {
+            status: 'pending',
+            next_attempt_at: { [Op.lte]: now },
+        },
+        include: [{ model: Webhook }],
+        order: [['next_attempt_at', 'ASC']],
+        limit: BATCH_SIZE,
+    });
+
+    for (const delivery of deliveries) {
+        if (!delivery.Webhook || !delivery.Webhook.active) {
+            await delivery.update({
+                status: 'failed',
+                next_attempt_at: null,
+                error: 'Webhook is disabled.',
+            });
+            continue;
+        }
+        await deliver(delivery, delivery.Webhook);
+    }
+
+    return deliveries.length;
+}
+
+/**
+ * Send every queued delivery that is due, including retries
+ * @param {Date} now - Reference time, defaults to the current time
+ * @returns {Promise<number>} Number of deliveries processed
+ */
+async function processPendingDeliveries(now = null) {
+    if (isProcessing) {
+        processAgain = true;
+        return 0;
+    }
+
+    isProcessing = true;
+    let processed = 0;
+    try {
+        do {
+            processAgain = false;
+            processed += await runPendingDeliveries(now || new Date());
+        } while (processAgain);
+    } finally {
+        isProcessing = false;
+    }
+
+    return processed;
+}
+
+/**
+ * Send a test event right away, bypassing the event filter
+ * @param {Object} webhook - Webhook record
+ * @returns {Promise<Object>} The delivery with its outcome
+ */
+async function sendTest(webhook) {
+    const delivery = await WebhookDelivery.create({
+        webhook_id: webhook.id,
+        event: TEST_EVENT,
+        payload: buildPayload(TEST_EVENT, {
+            webhook: { id: webhook.id, name: webhook.name },
+        }),
+        next_attempt_at: null,
+    });
+
+    const result = await deliver(delivery, webhook);
+    // A test is a one-off; don't leave it in the retry queue
+    if (result.status === 'pending') {
+        await result.update({ status: 'failed', next_attempt_at: null });
+    }
+    return result;
+}
+
+async function pruneDeliveries(now = new Date()) {
+    const cutoff = new Date(
+        now.getTime() - DELIVERY_RETENTION_DAYS * 24 * 60 * 60 * 1000
+    );
+    return await WebhookDelivery.destroy({
+        where: {
+            status: { [Op.ne]: 'pending' },
+            created_at: { [Op.lt]: cutoff },
+        },
+    });
+}
+
+module.exports = {
+    WEBHOOK_EVENTS,
+    MAX_ATTEMPTS,
+    generateSecret,
+    signPayload,
+    serialize,
+    dispatch,
+    deliver,
+    processPendingDeliveries,
+    sendTest,
+    pruneDeliveries,
+    _helpers: {
+        getRetryDelay,
+        buildPayload,
+    },
+};
@@ -0,0 +1,207 @@
+const zlib = require('zlib');
+
+// Just enough of the ZIP format (PKWARE APPNOTE) to write and read folders
+// of text files: stored or deflated entries, UTF-8 names, no ZIP64 and no
+// encryption.
+
+const LOCAL_HEADER = 0x04034b50;
+const CENTRAL_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const UTF8_NAMES = 0x0800;
+const STORED = 0;
+const DEFLATED = 8;
+
+// Entries read from an upload may not expand past this
+const MAX_ENTRY_SIZE = 50 * 1024 * 1024;
+
+// CRC-32 (IEEE) lookup table; zlib.crc32 only exists from Node 20.15
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    return c >>> 0;
+});
+
+function crc32(buffer) {
+    let crc = 0xffffffff;
+    for (const byte of buffer) {
+        crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+}
+
+const isZip = (buffer) =>
+    Buffer.isBuffer(buffer) &&
+    buffer.length >= 4 &&
+    buffer.readUInt32LE(0) === LOCAL_HEADER;
+
+// MS-DOS dates count two-second steps from 1980
+function toDosDateTime(date) {
+    const value = date ? new Date(date) : new Date();
+    const year = Math.max(value.getUTCFullYear(), 1980);
+    return {
+        time:
+            (value.getUTCHours() << 11) |
+            (value.getUTCMinutes() << 5) |
+            Math.floor(value.getUTCSeconds() / 2),
+        date:
+            ((year - 1980) << 9) |
+            ((value.getUTCMonth() + 1) << 5) |
+            value.getUTCDate(),
+    };
+}
+
+function fromDosDateTime(time, date) {
+    return new Date(
+        Date.UTC(
+            (date >> 9) + 1980,
+            ((date >> 5) & 0x0f) - 1,
+            date & 0x1f,
+            time >> 11,
+            (time >> 5) & 0x3f,
+            (time & 0x1f) * 2
+        )
+    );
+}
+
+/**
+ * Build a ZIP archive
+ * @param {Array<Object>} entries - { name, content, date } with content as a
+ *   string or Buffer and date as the modification time
+ * @returns {Buffer} ZIP file contents
+ */
+function writeZip(entries) {
+    const localParts = [];
+    const centralParts = [];
+    let offset = 0;
+
+    entries.forEach(({ name, content, date }) => {
+        const data = Buffer.isBuffer(content)
+            ? content
+            : Buffer.from(String(content), 'utf8');
+        const compressed = zlib.deflateRawSync(data);
+        const fileName = Buffer.from(name, 'utf8');
+        const crc = crc32(data);
+        const dos = toDosDateTime(date);
+
+        const local = Buffer.alloc(30);
+        local.writeUInt32LE(LOCAL_HEADER, 0);
+        local.writeUInt16LE(20, 4);
+        local.writeUInt16LE(UTF8_NAMES, 6);
+        local.writeUInt16LE(DEFLATED, 8);
+        local.writeUInt16LE(dos.time, 10);
+        local.writeUInt16LE(dos.date, 12);
+        local.writeUInt32LE(crc, 14);
+        local.writeUInt32LE(compressed.length, 18);
+        local.writeUInt32LE(data.length, 22);
+        local.writeUInt16LE(fileName.length, 26);
+        local.writeUInt16LE(0, 28);
+
+        const central = Buffer.alloc(46);
+        central.writeUInt32LE(CENTRAL_HEADER, 0);
+        central.writeUInt16LE(20, 4);
+        central.writeUInt16LE(20, 6);
+        central.writeUInt16LE(UTF8_NAMES, 8);
+        central.writeUInt16LE(DEFLATED, 10);
+        central.writeUInt16LE(dos.time, 12);
+        central.writeUInt16LE(dos.date, 14);
+        central.writeUInt32LE(crc, 16);
+        central.writeUInt32LE(compressed.length, 20);
+        central.writeUInt32LE(data.length, 24);
+        central.writeUInt16LE(fileName.length, 28);
+        central.writeUInt32LE(offset, 42);
+
+        localParts.push(local, fileName, compressed);
+        centralParts.push(central, fileName);
+        offset += local.length + fileName.length + compressed.length;
+    });
+
+    const centralDirectory = Buffer.concat(centralParts);
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(END_OF_CENTRAL_DIRECTORY, 0);
+    end.writeUInt16LE(entries.length, 8);
+    end.writeUInt16LE(entries.length, 10);
+    end.writeUInt32LE(centralDirectory.length, 12);
+    end.writeUInt32LE(offset, 16);
+
+    return Buffer.concat([...localParts, centralDirectory, end]);
+}
+
+/**
+ * Read the files of a ZIP archive; directory entries are left out
+ * @param {Buffer} buffer - ZIP file contents
+ * @returns {Array<Object>} { name, content (Buffer), date }
+ */
+function readZip(buffer) {
+    // The end record sits before an optional comment of up to 64KB
+    let endOffset = -1;
+    const earliest = Math.max(0, buffer.length - 22 - 0xffff);
+    for (let index = buffer.length - 22; index >= earliest; index--) {
+        if (buffer.readUInt32LE(index) === END_OF_CENTRAL_DIRECTORY) {
+            endOffset = index;
+            break;
+        }
+    }
+    if (endOffset === -1) {
+        throw new Error('Not a ZIP archive');
+    }
+
+    const count = buffer.readUInt16LE(endOffset + 10);
+    let offset = buffer.readUInt32LE(endOffset + 16);
+    const files = [];
+
+    for (let index = 0; index < count; index++) {
+        if (buffer.readUInt32LE(offset) !== CENTRAL_HEADER) {
+            throw new Error('Corrupt ZIP central directory');
+        }
+        const method = buffer.readUInt16LE(offset + 10);
+        const time = buffer.readUInt16LE(offset + 12);
+        const date = buffer.readUInt16LE(offset + 14);
+        const compressedSize = buffer.readUInt32LE(offset + 20);
+        const size = buffer.readUInt32LE(offset + 24);
+        const nameLength = buffer.readUInt16LE(offset + 28);
+        const extraLength = buffer.readUInt16LE(offset + 30);
+        const commentLength = buffer.readUInt16LE(offset + 32);
+        const localOffset = buffer.readUInt32LE(offset + 42);
+        const name = buffer.toString(
+            'utf8',
+            offset + 46,
+            offset + 46 + nameLength
+        );
+        offset += 46 + nameLength + extraLength + commentLength;
+
+        if (name.endsWith('/')) continue;
+        if (size > MAX_ENTRY_SIZE) {
+            throw new Error(`${name} is too large`);
+        }
+
+        const dataOffset =
+            localOffset +
+            30 +
+            buffer.readUInt16LE(localOffset + 26) +
+            buffer.readUInt16LE(localOffset + 28);
+        const data = buffer.subarray(dataOffset, dataOffset + compressedSize);
+
+        let content;
+        if (method === STORED) {
+            content = Buffer.from(data);
+        } else if (method === DEFLATED) {
+            content = zlib.inflateRawSync(data, {
+                maxOutputLength: MAX_ENTRY_SIZE,
+            });
+        } else {
+            throw new Error(`${name} uses an unsupported compression method`);
+        }
+
+        files.push({ name, content, date: fromDosDateTime(time, date) });
+    }
+
+    return files;
+}
+
+module.exports = {
+    isZip,
+    writeZip,
+    readZip,
+};
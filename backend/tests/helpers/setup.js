@@ -15,9 +15,14 @@ beforeEach(async () => {
         const nonSessionModels = models.filter(
             (model) => model.name !== 'Session'
         );
+        // force, or models with a trash would only mark their rows deleted
         await Promise.all(
             nonSessionModels.map((model) =>
-                model.destroy({ truncate: true, cascade: true })
+                model.destroy({
+                    truncate: true,
+                    cascade: true,
+                    force: true,
+                })
             )
         );
     } catch (error) {
@@ -0,0 +1,364 @@
+const request = require('supertest');
+const app = require('../../app');
+const {
+    Area,
+    Project,
+    ProjectSection,
+    Task,
+    Tag,
+    Note,
+    InboxItem,
+    TaskEvent,
+    TaskReminder,
+    SavedFilter,
+    ProjectTemplate,
+    TaskTemplate,
+} = require('../../models');
+const TaskDependencyService = require('../../services/taskDependencyService');
+const { createTestUser } = require('../helpers/testUtils');
+
+describe('Backup Routes', () => {
+    let user, agent, project, parent, template;
+
+    const loginAgent = async (email) => {
+        const loggedIn = request.agent(app);
+        await loggedIn.post('/api/login').send({
+            email,
+            password: 'password123',
+        });
+        return loggedIn;
+    };
+
+    beforeEach(async () => {
+        user = await createTestUser({
+            email: 'test@example.com',
+            language: 'es',
+        });
+        agent = await loginAgent('test@example.com');
+
+        const area = await Area.create({ name: 'Personal', user_id: user.id });
+        const work = await Tag.create({ name: 'work', user_id: user.id });
+        await Tag.create({ name: 'unused', user_id: user.id });
+        project = await Project.create({
+            name: 'Garden',
+            area_id: area.id,
+            user_id: user.id,
+        });
+        await project.setTags([work]);
+        const section = await ProjectSection.create({
+            name: 'Spring',
+            project_id: project.id,
+            user_id: user.id,
+        });
+
+        parent = await Task.create({
+            name: 'Plant tomatoes',
+            project_id: project.id,
+            section_id: section.id,
+            user_id: user.id,
+        });
+        await parent.setTags([work]);
+        const subtask = await Task.create({
+            name: 'Buy seeds',
+            parent_task_id: parent.id,
+            user_id: user.id,
+        });
+        await TaskDependencyService.addDependency(parent.id, subtask.id);
+        await TaskEvent.create({
+            task_id: parent.id,
+            user_id: user.id,
+            event_type: 'created',
+            undo_token: 'undo-from-this-database',
+            created_at: new Date('2025-06-01T10:00:00Z'),
+        });
+        await TaskReminder.create({
+            task_id: parent.id,
+            user_id: user.id,
+            remind_at: new Date('2030-03-09T08:00:00Z'),
+        });
+
+        template = await Task.create({
+            name: 'Water plants',
+            recurrence_type: 'weekly',
+            recurrence_weekday: 1,
+            user_id: user.id,
+        });
+        await Task.create({
+            name: 'Water plants',
+            recurring_parent_id: template.id,
+            user_id: user.id,
+        });
+
+        const note = await Note.create({
+            title: 'Soil',
+            content: 'Use compost',
+            project_id: project.id,
+            user_id: user.id,
+        });
+        await note.setTags([work]);
+        await InboxItem.create({
+            content: 'Call plumber',
+            source: 'web',
+            user_id: user.id,
+        });
+        await SavedFilter.create({
+            name: 'Work',
+            query: 'tag:work',
+            user_id: user.id,
+        });
+        await ProjectTemplate.create({
+            name: 'Season',
+            content: { project: { name: '{{year}} garden' } },
+            user_id: user.id,
+        });
+        await TaskTemplate.create({
+            name: 'Watering',
+            task_name: 'Water the beds',
+            tags: ['work'],
+            due_offset_days: 2,
+            project_id: project.id,
+            user_id: user.id,
+        });
+    });
+
+    describe('GET /api/export', () => {
+        it('should export a versioned archive of the user data', async () => {
+            const response = await agent.get('/api/export');
+
+            expect(response.status).toBe(200);
+            expect(response.headers['content-disposition']).toMatch(
+                /^attachment; filename="tududi-export-\d{4}-\d{2}-\d{2}\.json"$/
+            );
+
+            const archive = response.body;
+            expect(archive.format).toBe('tududi-backup');
+            expect(archive.version).toBe(1);
+            expect(archive.settings.language).toBe('es');
+            expect(archive.settings.password_digest).toBeUndefined();
+            expect(archive.tags).toEqual(['work', 'unused']);
+            expect(archive.areas).toHaveLength(1);
+            expect(archive.projects[0]).toMatchObject({
+                name: 'Garden',
+                tags: ['work'],
+            });
+            expect(archive.project_sections[0]).toMatchObject({
+                name: 'Spring',
+                project_id: project.id,
+            });
+            expect(archive.tasks).toHaveLength(4);
+
+            const exportedParent = archive.tasks.find(
+                (task) => task.id === parent.id
+            );
+            expect(exportedParent.uuid).toBe(parent.uuid);
+            expect(exportedParent.tags).toEqual(['work']);
+            expect(exportedParent.depends_on).toHaveLength(1);
+            expect(exportedParent.events).toEqual([
+                expect.objectContaining({
+                    event_type: 'created',
+                    created_at: '2025-06-01T10:00:00.000Z',
+                }),
+            ]);
+            expect(exportedParent.events[0].undo_token).toBeUndefined();
+            expect(exportedParent.user_id).toBeUndefined();
+            expect(archive.task_reminders).toEqual([
+                expect.objectContaining({
+                    task_id: parent.id,
+                    remind_at: '2030-03-09T08:00:00.000Z',
+                    minutes_before_due: null,
+                }),
+            ]);
+            expect(archive.task_reminders[0].user_id).toBeUndefined();
+
+            expect(archive.notes[0].tags).toEqual(['work']);
+            expect(archive.inbox_items[0].content).toBe('Call plumber');
+            expect(archive.saved_filters[0].query).toBe('tag:work');
+            expect(archive.project_templates[0]).toMatchObject({
+                name: 'Season',
+                content: { project: { name: '{{year}} garden' } },
+            });
+            expect(archive.task_templates[0]).toMatchObject({
+                name: 'Watering',
+                tags: ['work'],
+                due_offset_days: 2,
+            });
+        });
+
+        it('should require authentication', async () => {
+            const response = await request(app).get('/api/export');
+
+            expect(response.status).toBe(401);
+        });
+    });
+
+    describe('POST /api/import', () => {
+        let archive, otherUser, otherAgent;
+
+        beforeEach(async () => {
+            archive = (await agent.get('/api/export')).body;
+            otherUser = await createTestUser({ email: 'other@example.com' });
+            otherAgent = await loginAgent('other@example.com');
+            await Tag.create({ name: 'work', user_id: otherUser.id });
+        });
+
+        it('should report a dry run without changing anything', async () => {
+            const response = await otherAgent
+                .post('/api/import?dry_run=true')
+                .send(archive);
+
+            expect(response.status).toBe(200);
+            expect(response.body.dry_run).toBe(true);
+            expect(response.body.created).toEqual({
+                tags: 1,
+                areas: 1,
+                projects: 1,
+                project_sections: 1,
+                tasks: 4,
+                task_events: 1,
+                task_dependencies: 1,
+                task_reminders: 1,
+                notes: 1,
+                inbox_items: 1,
+                saved_filters: 1,
+                project_templates: 1,
+                task_templates: 1,
+            });
+            expect(response.body.existing).toEqual({ tags: 1 });
+
+            expect(await Task.count({ where: { user_id: otherUser.id } })).toBe(
+                0
+            );
+            expect(await Tag.count({ where: { user_id: otherUser.id } })).toBe(
+                1
+            );
+            await otherUser.reload();
+            expect(otherUser.language).toBe('en');
+        });
+
+        it('should restore the archive with remapped ids', async () => {
+            // Archives written before undo tokens were left out still carry them
+            archive.tasks.find(
+                (task) => task.id === parent.id
+            ).events[0].undo_token = 'undo-from-another-database';
+
+            const response = await otherAgent.post('/api/import').send(archive);
+
+            expect(response.status).toBe(201);
+            expect(response.body.dry_run).toBe(false);
+
+            await otherUser.reload();
+            expect(otherUser.language).toBe('es');
+
+            const importedProject = await Project.findOne({
+                where: { user_id: otherUser.id },
+                include: [Area, Tag],
+            });
+            expect(importedProject.id).not.toBe(project.id);
+            expect(importedProject.Area.name).toBe('Personal');
+            expect(importedProject.Tags.map((tag) => tag.name)).toEqual([
+                'work',
+            ]);
+
+            const importedParent = await Task.findOne({
+                where: { name: 'Plant tomatoes', user_id: otherUser.id },
+                include: [
+                    Tag,
+                    { model: Task, as: 'Subtasks' },
+                    { model: TaskEvent, as: 'TaskEvents' },
+                ],
+            });
+            expect(importedParent.project_id).toBe(importedProject.id);
+            const importedSection = await ProjectSection.findOne({
+                where: { user_id: otherUser.id },
+            });
+            expect(importedSection.project_id).toBe(importedProject.id);
+            expect(importedParent.section_id).toBe(importedSection.id);
+            expect(importedParent.Tags.map((tag) => tag.name)).toEqual([
+                'work',
+            ]);
+            expect(importedParent.Subtasks.map((task) => task.name)).toEqual([
+                'Buy seeds',
+            ]);
+            expect(importedParent.TaskEvents).toHaveLength(1);
+            expect(importedParent.TaskEvents[0].user_id).toBe(otherUser.id);
+            expect(importedParent.TaskEvents[0].undo_token).toBeNull();
+
+            const importedReminder = await TaskReminder.findOne({
+                where: { user_id: otherUser.id },
+            });
+            expect(importedReminder.task_id).toBe(importedParent.id);
+            expect(importedReminder.remind_at.toISOString()).toBe(
+                '2030-03-09T08:00:00.000Z'
+            );
+
+            const blockers = await TaskDependencyService.getOpenBlockers(
+                importedParent.id
+            );
+            expect(blockers.map((task) => task.id)).toEqual([
+                importedParent.Subtasks[0].id,
+            ]);
+
+            const importedTemplate = await Task.findOne({
+                where: { user_id: otherUser.id, recurrence_type: 'weekly' },
+            });
+            expect(importedTemplate.recurrence_weekday).toBe(1);
+            expect(
+                await Task.count({
+                    where: { recurring_parent_id: importedTemplate.id },
+                })
+            ).toBe(1);
+
+            const importedNote = await Note.findOne({
+                where: { user_id: otherUser.id },
+            });
+            expect(importedNote.project_id).toBe(importedProject.id);
+            const importedTaskTemplate = await TaskTemplate.findOne({
+                where: { user_id: otherUser.id },
+            });
+            expect(importedTaskTemplate.project_id).toBe(importedProject.id);
+            expect(await Tag.count({ where: { user_id: otherUser.id } })).toBe(
+                2
+            );
+        });
+
+        it('should give new UUIDs to tasks that already exist', async () => {
+            const response = await agent.post('/api/import').send(archive);
+
+            expect(response.status).toBe(201);
+            expect(response.body.warnings).toHaveLength(4);
+            expect(await Task.count({ where: { user_id: user.id } })).toBe(8);
+        });
+
+        it('should reject archives it does not understand', async () => {
+            let response = await otherAgent
+                .post('/api/import')
+                .send({ format: 'something-else', version: 1 });
+            expect(response.status).toBe(400);
+            expect(response.body.errors).toEqual([
+                'Archive format must be "tududi-backup".',
+            ]);
+
+            response = await otherAgent
+                .post('/api/import')
+                .send({ ...archive, version: 99 });
+            expect(response.status).toBe(400);
+            expect(response.body.errors).toEqual([
+                'Unsupported archive version: 99.',
+            ]);
+        });
+
+        it('should leave the account untouched when a record is invalid', async () => {
+            archive.tasks[3].events = [{ event_type: 'exploded' }];
+
+            const response = await otherAgent.post('/api/import').send(archive);
+
+            expect(response.status).toBe(400);
+            expect(await Task.count({ where: { user_id: otherUser.id } })).toBe(
+                0
+            );
+            expect(
+                await Project.count({ where: { user_id: otherUser.id } })
+            ).toBe(0);
+        });
+    });
+});
@@ -0,0 +1,314 @@
+const request = require('supertest');
+const { DAVClient } = require('tsdav');
+const app = require('../../app');
+const { Task, Project } = require('../../models');
+const apiTokenService = require('../../services/apiTokenService');
+const { createTestUser } = require('../helpers/testUtils');
+
+const TASK_UUID = '6f1c4d2e-8a3b-4c5d-9e7f-0a1b2c3d4e5f';
+
+const buildTodo = (fields) =>
+    [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        'PRODID:-//test//EN',
+        'BEGIN:VTODO',
+        `UID:${TASK_UUID}`,
+        'DTSTAMP:20250701T090000Z',
+        ...fields,
+        'END:VTODO',
+        'END:VCALENDAR',
+    ].join('\r\n');
+
+const todoFilter = [
+    {
+        'comp-filter': {
+            _attributes: { name: 'VCALENDAR' },
+            'comp-filter': { _attributes: { name: 'VTODO' } },
+        },
+    },
+];
+
+describe('CalDAV', () => {
+    let user, project, server, baseUrl;
+
+    beforeEach(async () => {
+        user = await createTestUser({
+            email: 'test@example.com',
+        });
+        project = await Project.create({ name: 'Home', user_id: user.id });
+        server = app.listen(0);
+        baseUrl = `http://127.0.0.1:${server.address().port}`;
+    });
+
+    afterEach(async () => {
+        await new Promise((resolve) => server.close(resolve));
+    });
+
+    const basicAuth = (password = 'password123') =>
+        `Basic ${Buffer.from(`test@example.com:${password}`).toString('base64')}`;
+
+    const createClient = async (password = 'password123') => {
+        const client = new DAVClient({
+            serverUrl: baseUrl,
+            credentials: { username: 'test@example.com', password },
+            authMethod: 'Basic',
+            defaultAccountType: 'caldav',
+        });
+        await client.login();
+        return client;
+    };
+
+    const findCalendar = (calendars, name) =>
+        calendars.find((calendar) => calendar.displayName === name);
+
+    describe('with a CalDAV client library', () => {
+        it('should discover one calendar per project', async () => {
+            const client = await createClient();
+
+            const calendars = await client.fetchCalendars();
+
+            expect(calendars.map((calendar) => calendar.displayName)).toEqual([
+                'Tasks',
+                'Home',
+            ]);
+            expect(calendars[1].url).toBe(
+                `${baseUrl}/caldav/calendars/${user.id}/project-${project.id}/`
+            );
+            expect(calendars[1].components).toEqual(['VTODO']);
+        });
+
+        it('should list tasks as VTODO resources', async () => {
+            const task = await Task.create({
+                name: 'Buy milk',
+                note: 'Semi-skimmed',
+                due_date: new Date('2025-07-01T00:00:00Z'),
+                priority: Task.PRIORITY.HIGH,
+                project_id: project.id,
+                user_id: user.id,
+            });
+            const client = await createClient();
+            const calendar = findCalendar(
+                await client.fetchCalendars(),
+                'Home'
+            );
+
+            const objects = await client.fetchCalendarObjects({
+                calendar,
+                filters: todoFilter,
+            });
+
+            expect(objects).toHaveLength(1);
+            expect(objects[0].url).toMatch(new RegExp(`/${task.uuid}\\.ics$`));
+            expect(objects[0].etag).toBe(`"${task.updated_at.getTime()}"`);
+            expect(objects[0].data).toContain('BEGIN:VTODO');
+            expect(objects[0].data).toContain('SUMMARY:Buy milk');
+            expect(objects[0].data).toContain('DESCRIPTION:Semi-skimmed');
+            expect(objects[0].data).toContain('DUE;VALUE=DATE:20250701');
+            expect(objects[0].data).toContain('PRIORITY:1');
+        });
+
+        it('should create, update and delete tasks', async () => {
+            const client = await createClient();
+            const calendar = findCalendar(
+                await client.fetchCalendars(),
+                'Home'
+            );
+
+            const created = await client.createCalendarObject({
+                calendar,
+                filename: `${TASK_UUID}.ics`,
+                iCalString: buildTodo([
+                    'SUMMARY:Water plants',
+                    'DUE;VALUE=DATE:20250702',
+                    'PRIORITY:5',
+                ]),
+            });
+            expect(created.status).toBe(201);
+
+            let task = await Task.findOne({ where: { uuid: TASK_UUID } });
+            expect(task.name).toBe('Water plants');
+            expect(task.project_id).toBe(project.id);
+            expect(task.priority).toBe(Task.PRIORITY.MEDIUM);
+            expect(task.due_date.toISOString()).toBe(
+                '2025-07-02T00:00:00.000Z'
+            );
+
+            const [object] = await client.fetchCalendarObjects({
+                calendar,
+                filters: todoFilter,
+            });
+            const updated = await client.updateCalendarObject({
+                calendarObject: {
+                    ...object,
+                    data: buildTodo([
+                        'SUMMARY:Water all plants',
+                        'DESCRIPTION:Balcony too',
+                        'STATUS:COMPLETED',
+                    ]),
+                },
+            });
+            expect(updated.status).toBe(204);
+
+            await task.reload();
+            expect(task.name).toBe('Water all plants');
+            expect(task.note).toBe('Balcony too');
+            expect(task.status).toBe(Task.STATUS.DONE);
+            expect(task.completed_at).not.toBeNull();
+            expect(task.due_date).toBeNull();
+
+            const [current] = await client.fetchCalendarObjects({
+                calendar,
+                filters: todoFilter,
+            });
+            const deleted = await client.deleteCalendarObject({
+                calendarObject: current,
+            });
+            expect(deleted.status).toBe(204);
+            expect(
+                await Task.findOne({ where: { uuid: TASK_UUID } })
+            ).toBeNull();
+        });
+
+        it('should accept an API token as app password', async () => {
+            const { token } = await apiTokenService.createToken(user.id, {
+                name: 'Phone',
+                scope: 'write',
+            });
+
+            const client = await createClient(token);
+
+            expect(await client.fetchCalendars()).toHaveLength(2);
+        });
+    });
+
+    describe('protocol details', () => {
+        const calendarPath = () => `/caldav/calendars/${user.id}/tasks/`;
+
+        it('should ask for Basic credentials', async () => {
+            const response = await request(app)
+                .propfind('/caldav/')
+                .set('Authorization', basicAuth('wrong'));
+
+            expect(response.status).toBe(401);
+            expect(response.headers['www-authenticate']).toMatch(/^Basic/);
+        });
+
+        it("should not expose other users' calendars", async () => {
+            const response = await request(app)
+                .propfind(`/caldav/calendars/${user.id + 1}/`)
+                .set('Authorization', basicAuth());
+
+            expect(response.status).toBe(403);
+        });
+
+        it('should refuse writes with a read-only API token', async () => {
+            const { token } = await apiTokenService.createToken(user.id, {
+                name: 'Phone',
+                scope: 'read',
+            });
+
+            const response = await request(app)
+                .put(`${calendarPath()}${TASK_UUID}.ics`)
+                .set('Authorization', basicAuth(token))
+                .set('Content-Type', 'text/calendar')
+                .send(buildTodo(['SUMMARY:Nope']));
+
+            expect(response.status).toBe(403);
+        });
+
+        it('should reject updates with a stale ETag', async () => {
+            await Task.create({
+                uuid: TASK_UUID,
+                name: 'Task',
+                user_id: user.id,
+            });
+
+            const response = await request(app)
+                .put(`${calendarPath()}${TASK_UUID}.ics`)
+                .set('Authorization', basicAuth())
+                .set('If-Match', '"1"')
+                .set('Content-Type', 'text/calendar')
+                .send(buildTodo(['SUMMARY:Changed']));
+
+            expect(response.status).toBe(412);
+        });
+
+        it('should not recreate a task that is in the trash', async () => {
+            const task = await Task.create({
+                uuid: TASK_UUID,
+                name: 'Trashed',
+                user_id: user.id,
+            });
+            await task.destroy();
+
+            const response = await request(app)
+                .put(`${calendarPath()}${TASK_UUID}.ics`)
+                .set('Authorization', basicAuth())
+                .set('Content-Type', 'text/calendar')
+                .send(buildTodo(['SUMMARY:Back again']));
+
+            expect(response.status).toBe(409);
+            const tasks = await Task.findAll({ paranoid: false });
+            expect(tasks.map((t) => t.name)).toEqual(['Trashed']);
+            expect(tasks[0].deleted_at).not.toBeNull();
+        });
+
+        it("should keep due times in the user's timezone", async () => {
+            await user.update({ timezone: 'Europe/Berlin' });
+
+            await request(app)
+                .put(`${calendarPath()}${TASK_UUID}.ics`)
+                .set('Authorization', basicAuth())
+                .set('Content-Type', 'text/calendar')
+                .send(
+                    buildTodo([
+                        'SUMMARY:Call the bank',
+                        'DUE;TZID=Europe/Berlin:20250703T150000',
+                    ])
+                )
+                .expect(201);
+
+            const task = await Task.findOne({ where: { uuid: TASK_UUID } });
+            expect(task.due_date).toEqual(new Date('2025-07-03T00:00:00Z'));
+            expect(task.due_time).toBe('15:00');
+
+            const response = await request(app)
+                .get(`${calendarPath()}${TASK_UUID}.ics`)
+                .set('Authorization', basicAuth());
+            expect(response.text).toContain('DUE:20250703T130000Z');
+
+            await request(app)
+                .put(`${calendarPath()}${TASK_UUID}.ics`)
+                .set('Authorization', basicAuth())
+                .set('Content-Type', 'text/calendar')
+                .send(response.text)
+                .expect(204);
+            await task.reload();
+            expect(task.due_time).toBe('15:00');
+        });
+
+        it('should return nothing for event queries', async () => {
+            await Task.create({ name: 'Task', user_id: user.id });
+
+            const response = await request(app)
+                .report(calendarPath())
+                .set('Authorization', basicAuth())
+                .set('Depth', '1')
+                .set('Content-Type', 'application/xml')
+                .send(
+                    '<c:calendar-query xmlns:d="DAV:" xmlns:c="urn:ietf:params:xml:ns:caldav"><d:prop><d:getetag/></d:prop><c:filter><c:comp-filter name="VCALENDAR"><c:comp-filter name="VEVENT"/></c:comp-filter></c:filter></c:calendar-query>'
+                );
+
+            expect(response.status).toBe(207);
+            expect(response.text).not.toContain('<d:response>');
+        });
+
+        it('should redirect the well-known URL', async () => {
+            const response = await request(app).propfind('/.well-known/caldav');
+
+            expect(response.status).toBe(301);
+            expect(response.headers.location).toBe('/caldav/');
+        });
+    });
+});
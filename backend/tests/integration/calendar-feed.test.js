@@ -0,0 +1,190 @@
+const request = require('supertest');
+const app = require('../../app');
+const { Task, Tag, Project } = require('../../models');
+const { createTestUser } = require('../helpers/testUtils');
+
+describe('Calendar Feed', () => {
+    let user, agent;
+
+    beforeEach(async () => {
+        user = await createTestUser({
+            email: 'test@example.com',
+        });
+
+        agent = request.agent(app);
+        await agent.post('/api/login').send({
+            email: 'test@example.com',
+            password: 'password123',
+        });
+    });
+
+    const enableFeed = async () => {
+        const response = await agent.post('/api/calendar/feed');
+        return response.body.token;
+    };
+
+    const createTask = (attributes = {}) =>
+        Task.create({
+            name: 'Task',
+            due_date: new Date('2025-07-01T00:00:00Z'),
+            user_id: user.id,
+            ...attributes,
+        });
+
+    describe('token management', () => {
+        it('should start without a feed token', async () => {
+            const response = await agent.get('/api/calendar/feed');
+
+            expect(response.status).toBe(200);
+            expect(response.body.token).toBeNull();
+        });
+
+        it('should invalidate the old URL when regenerating', async () => {
+            const oldToken = await enableFeed();
+            const newToken = await enableFeed();
+
+            expect(newToken).not.toBe(oldToken);
+
+            const oldFeed = await request(app).get(
+                `/api/calendar/feed/${oldToken}.ics`
+            );
+            expect(oldFeed.status).toBe(404);
+
+            const newFeed = await request(app).get(
+                `/api/calendar/feed/${newToken}.ics`
+            );
+            expect(newFeed.status).toBe(200);
+        });
+
+        it('should disable the feed', async () => {
+            const token = await enableFeed();
+
+            const response = await agent.delete('/api/calendar/feed');
+            expect(response.status).toBe(200);
+
+            const feed = await request(app).get(
+                `/api/calendar/feed/${token}.ics`
+            );
+            expect(feed.status).toBe(404);
+        });
+
+        it('should require authentication to manage the token', async () => {
+            const response = await request(app).post('/api/calendar/feed');
+
+            expect(response.status).toBe(401);
+        });
+    });
+
+    describe('GET /api/calendar/feed/:token.ics', () => {
+        it('should list tasks with due dates as all-day events', async () => {
+            await createTask({
+                name: 'Pay rent, on time',
+                note: 'Line 1\nLine 2',
+            });
+            await createTask({ name: 'Someday', due_date: null });
+            await createTask({ name: 'Finished', status: Task.STATUS.DONE });
+            const token = await enableFeed();
+
+            const response = await request(app).get(
+                `/api/calendar/feed/${token}.ics`
+            );
+
+            expect(response.status).toBe(200);
+            expect(response.headers['content-type']).toMatch(/^text\/calendar/);
+            expect(response.text).toMatch(/^BEGIN:VCALENDAR\r\n/);
+            expect(response.text).toContain('SUMMARY:Pay rent\\, on time');
+            expect(response.text).toContain('DESCRIPTION:Line 1\\nLine 2');
+            expect(response.text).toContain('DTSTART;VALUE=DATE:20250701');
+            expect(response.text).toContain('DTEND;VALUE=DATE:20250702');
+            expect(response.text).not.toContain('Someday');
+            expect(response.text).not.toContain('Finished');
+        });
+
+        it("should list timed tasks at their time in the user's timezone", async () => {
+            await user.update({ timezone: 'America/New_York' });
+            await createTask({ name: 'Dentist', due_time: '09:15' });
+            const token = await enableFeed();
+
+            const response = await request(app).get(
+                `/api/calendar/feed/${token}.ics`
+            );
+
+            expect(response.text).toContain('DTSTART:20250701T131500Z');
+            expect(response.text).toContain('DTEND:20250701T141500Z');
+        });
+
+        it('should list tasks as to-dos with their status', async () => {
+            await createTask({ name: 'Finished', status: Task.STATUS.DONE });
+            const token = await enableFeed();
+
+            const response = await request(app).get(
+                `/api/calendar/feed/${token}.ics?type=todo`
+            );
+
+            expect(response.text).toContain('BEGIN:VTODO');
+            expect(response.text).toContain('DUE;VALUE=DATE:20250701');
+            expect(response.text).toContain('STATUS:COMPLETED');
+        });
+
+        it('should add an RRULE to recurring templates only', async () => {
+            const template = await createTask({
+                name: 'Weekly review',
+                recurrence_type: 'weekly',
+                recurrence_interval: 2,
+                recurrence_weekday: 5,
+            });
+            await createTask({
+                name: 'Weekly review instance',
+                recurring_parent_id: template.id,
+            });
+            const token = await enableFeed();
+
+            const response = await request(app).get(
+                `/api/calendar/feed/${token}.ics`
+            );
+
+            expect(response.text).toContain(
+                'RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=FR'
+            );
+            expect(response.text).not.toContain('Weekly review instance');
+        });
+
+        it('should filter by project and tag', async () => {
+            const project = await Project.create({
+                name: 'Home',
+                user_id: user.id,
+            });
+            const tag = await Tag.create({ name: 'errand', user_id: user.id });
+            await createTask({ name: 'In project', project_id: project.id });
+            const tagged = await createTask({ name: 'Tagged' });
+            await tagged.addTag(tag);
+            const token = await enableFeed();
+
+            const byProject = await request(app).get(
+                `/api/calendar/feed/${token}.ics?project=${project.id}`
+            );
+            expect(byProject.text).toContain('SUMMARY:In project');
+            expect(byProject.text).toContain('CATEGORIES:Home');
+            expect(byProject.text).not.toContain('Tagged');
+
+            const byTag = await request(app).get(
+                `/api/calendar/feed/${token}.ics?tag=errand`
+            );
+            expect(byTag.text).toContain('SUMMARY:Tagged');
+            expect(byTag.text).not.toContain('In project');
+        });
+
+        it('should reject unknown tokens and types', async () => {
+            const unknown = await request(app).get(
+                '/api/calendar/feed/nope.ics'
+            );
+            expect(unknown.status).toBe(404);
+
+            const token = await enableFeed();
+            const badType = await request(app).get(
+                `/api/calendar/feed/${token}.ics?type=journal`
+            );
+            expect(badType.status).toBe(400);
+        });
+    });
+});
@@ -0,0 +1,113 @@
+const http = require('http');
+const request = require('supertest');
+const app = require('../../app');
+const apiTokenService = require('../../services/apiTokenService');
+const eventStreamService = require('../../services/eventStreamService');
+const { createTestUser } = require('../helpers/testUtils');
+
+describe('Event Stream', () => {
+    let user, token, server;
+
+    beforeEach(async () => {
+        user = await createTestUser({
+            email: 'test@example.com',
+        });
+        ({ token } = await apiTokenService.createToken(user.id, {
+            name: 'Stream',
+            scope: 'write',
+        }));
+        server = app.listen(0);
+    });
+
+    afterEach(async () => {
+        await new Promise((resolve) => server.close(resolve));
+    });
+
+    // Opens the stream and resolves once the connection is registered
+    const openStream = () =>
+        new Promise((resolve, reject) => {
+            const chunks = [];
+            const req = http.get(
+                {
+                    port: server.address().port,
+                    path: '/api/events/stream',
+                    headers: { Authorization: `Bearer ${token}` },
+                },
+                (res) => {
+                    res.setEncoding('utf8');
+                    res.on('data', (chunk) => chunks.push(chunk));
+                    resolve({ req, res, chunks });
+                }
+            );
+            req.on('error', reject);
+        });
+
+    const waitFor = async (condition) => {
+        for (let i = 0; i < 50; i++) {
+            if (condition()) return;
+            await new Promise((resolve) => setTimeout(resolve, 20));
+        }
+        throw new Error('Timed out waiting for condition');
+    };
+
+    it('should require authentication', async () => {
+        const response = await request(app).get('/api/events/stream');
+
+        expect(response.status).toBe(401);
+    });
+
+    it('should stream changes made through the API', async () => {
+        const { req, res, chunks } = await openStream();
+        expect(res.headers['content-type']).toMatch(/^text\/event-stream/);
+        await waitFor(() => eventStreamService.getConnectionCount(user.id));
+
+        await request(app)
+            .post('/api/task')
+            .set('Authorization', `Bearer ${token}`)
+            .send({ name: 'Live task' });
+
+        await waitFor(() => chunks.join('').includes('task.created'));
+        const message = chunks
+            .join('')
+            .split('\n\n')
+            .find((part) => part.includes('task.created'));
+        const payload = JSON.parse(message.split('data: ')[1]);
+        expect(payload.event).toBe('task.created');
+        expect(payload.data.task.name).toBe('Live task');
+
+        req.destroy();
+        await waitFor(
+            () => eventStreamService.getConnectionCount(user.id) === 0
+        );
+    });
+
+    it('should stream subtask changes', async () => {
+        const parent = await request(app)
+            .post('/api/task')
+            .set('Authorization', `Bearer ${token}`)
+            .send({ name: 'Parent' });
+
+        const { req, chunks } = await openStream();
+        await waitFor(() => eventStreamService.getConnectionCount(user.id));
+
+        const response = await request(app)
+            .post(`/api/task/${parent.body.id}/subtasks`)
+            .set('Authorization', `Bearer ${token}`)
+            .send({ name: 'Live step' });
+        expect(response.status).toBe(201);
+
+        await waitFor(() => chunks.join('').includes('Live step'));
+        const message = chunks
+            .join('')
+            .split('\n\n')
+            .find((part) => part.includes('Live step'));
+        const payload = JSON.parse(message.split('data: ')[1]);
+        expect(payload.event).toBe('task.created');
+        expect(payload.data.task.parent_task_id).toBe(parent.body.id);
+
+        req.destroy();
+        await waitFor(
+            () => eventStreamService.getConnectionCount(user.id) === 0
+        );
+    });
+});
@@ -0,0 +1,233 @@
+const request = require('supertest');
+const moment = require('moment-timezone');
+const app = require('../../app');
+const { Task, Tag, Project, SavedFilter } = require('../../models');
+const { createTestUser } = require('../helpers/testUtils');
+
+describe('Saved Filters Routes', () => {
+    let user, agent;
+
+    beforeEach(async () => {
+        user = await createTestUser({
+            email: 'test@example.com',
+        });
+
+        // Create authenticated agent
+        agent = request.agent(app);
+        await agent.post('/api/login').send({
+            email: 'test@example.com',
+            password: 'password123',
+        });
+    });
+
+    describe('CRUD /api/filters', () => {
+        it('should create a saved filter', async () => {
+            const response = await agent.post('/api/filters').send({
+                name: 'Urgent work',
+                query: 'tag:work priority:high',
+            });
+
+            expect(response.status).toBe(201);
+            expect(response.body.name).toBe('Urgent work');
+            expect(response.body.query).toBe('tag:work priority:high');
+            expect(response.body.user_id).toBe(user.id);
+        });
+
+        it('should return structured parse errors for invalid queries', async () => {
+            const response = await agent.post('/api/filters').send({
+                name: 'Broken',
+                query: 'tag:work colour:red',
+            });
+
+            expect(response.status).toBe(400);
+            expect(response.body.error).toBe('Invalid filter query.');
+            expect(response.body.errors).toEqual([
+                expect.objectContaining({
+                    position: 9,
+                    token: 'colour:red',
+                }),
+            ]);
+        });
+
+        it('should require a name and a query', async () => {
+            let response = await agent
+                .post('/api/filters')
+                .send({ query: 'tag:work' });
+            expect(response.status).toBe(400);
+            expect(response.body.error).toBe('Filter name is required.');
+
+            response = await agent.post('/api/filters').send({ name: 'Empty' });
+            expect(response.status).toBe(400);
+            expect(response.body.error).toBe('Filter query is required.');
+        });
+
+        it('should list, update and delete filters', async () => {
+            const filter = await SavedFilter.create({
+                name: 'Home',
+                query: 'project:Home',
+                user_id: user.id,
+            });
+
+            let response = await agent.get('/api/filters');
+            expect(response.status).toBe(200);
+            expect(response.body.map((f) => f.name)).toEqual(['Home']);
+
+            response = await agent
+                .patch(`/api/filters/${filter.id}`)
+                .send({ query: 'project:Home due:overdue' });
+            expect(response.status).toBe(200);
+            expect(response.body.query).toBe('project:Home due:overdue');
+
+            response = await agent
+                .patch(`/api/filters/${filter.id}`)
+                .send({ query: 'due:someday' });
+            expect(response.status).toBe(400);
+            expect(response.body.errors[0].token).toBe('due:someday');
+
+            response = await agent.delete(`/api/filters/${filter.id}`);
+            expect(response.status).toBe(204);
+            expect(await SavedFilter.findByPk(filter.id)).toBeNull();
+        });
+
+        it("should not expose other users' filters", async () => {
+            const otherUser = await createTestUser({
+                email: 'other@example.com',
+            });
+            const filter = await SavedFilter.create({
+                name: 'Private',
+                query: 'tag:secret',
+                user_id: otherUser.id,
+            });
+
+            let response = await agent.get(`/api/filters/${filter.id}`);
+            expect(response.status).toBe(404);
+
+            response = await agent.delete(`/api/filters/${filter.id}`);
+            expect(response.status).toBe(404);
+        });
+
+        it('should require authentication', async () => {
+            const response = await request(app).get('/api/filters');
+
+            expect(response.status).toBe(401);
+            expect(response.body.error).toBe('Authentication required');
+        });
+    });
+
+    describe('GET /api/tasks with filters', () => {
+        let workTask, homeTask, doneTask;
+
+        beforeEach(async () => {
+            const work = await Tag.create({ name: 'Work', user_id: user.id });
+            const home = await Project.create({
+                name: 'Home',
+                user_id: user.id,
+            });
+
+            workTask = await Task.create({
+                name: 'Write report',
+                priority: Task.PRIORITY.HIGH,
+                due_date: new Date(Date.now() + 2 * 24 * 60 * 60 * 1000),
+                user_id: user.id,
+            });
+            await workTask.setTags([work]);
+
+            homeTask = await Task.create({
+                name: 'Fix sink',
+                priority: Task.PRIORITY.LOW,
+                project_id: home.id,
+                user_id: user.id,
+            });
+
+            doneTask = await Task.create({
+                name: 'Old report',
+                priority: Task.PRIORITY.HIGH,
+                status: Task.STATUS.DONE,
+                user_id: user.id,
+            });
+            await doneTask.setTags([work]);
+        });
+
+        const taskNames = (response) =>
+            response.body.tasks.map((task) => task.name).sort();
+
+        it('should apply a saved filter by id', async () => {
+            const filter = await SavedFilter.create({
+                name: 'Work',
+                query: 'tag:work priority:high due:<7d',
+                user_id: user.id,
+            });
+
+            const response = await agent.get(
+                `/api/tasks?filter_id=${filter.id}`
+            );
+
+            expect(response.status).toBe(200);
+            expect(taskNames(response)).toEqual(['Write report']);
+        });
+
+        it('should apply negated terms and explicit statuses', async () => {
+            let response = await agent.get(
+                `/api/tasks?filter=${encodeURIComponent('-project:home')}`
+            );
+            expect(taskNames(response)).toEqual(['Write report']);
+
+            response = await agent.get(
+                `/api/tasks?filter=${encodeURIComponent('report status:done,not_started')}`
+            );
+            expect(taskNames(response)).toEqual(['Old report', 'Write report']);
+
+            response = await agent.get(
+                `/api/tasks?filter=${encodeURIComponent('due:none')}`
+            );
+            expect(taskNames(response)).toEqual(['Fix sink']);
+        });
+
+        it("should match due dates by the user's calendar day", async () => {
+            await user.update({ timezone: 'America/New_York' });
+            const today = moment.tz('America/New_York').format('YYYY-MM-DD');
+            await Task.create({
+                name: 'Pay rent',
+                due_date: new Date(`${today}T00:00:00Z`),
+                user_id: user.id,
+            });
+            await Task.create({
+                name: 'Renew passport',
+                due_date: moment.utc(today).subtract(1, 'day').toDate(),
+                user_id: user.id,
+            });
+
+            let response = await agent.get(
+                `/api/tasks?filter=${encodeURIComponent('due:today')}`
+            );
+            expect(taskNames(response)).toEqual(['Pay rent']);
+
+            response = await agent.get(
+                `/api/tasks?filter=${encodeURIComponent('due:overdue')}`
+            );
+            expect(taskNames(response)).toEqual(['Renew passport']);
+
+            response = await agent.get(
+                `/api/tasks?filter=${encodeURIComponent(`due:${today}`)}`
+            );
+            expect(taskNames(response)).toEqual(['Pay rent']);
+        });
+
+        it('should return parse errors for invalid inline queries', async () => {
+            const response = await agent.get(
+                `/api/tasks?filter=${encodeURIComponent('priority:urgent')}`
+            );
+
+            expect(response.status).toBe(400);
+            expect(response.body.error).toBe('Invalid filter query.');
+            expect(response.body.errors[0].token).toBe('priority:urgent');
+        });
+
+        it('should return 404 for an unknown saved filter', async () => {
+            const response = await agent.get('/api/tasks?filter_id=999');
+
+            expect(response.status).toBe(404);
+            expect(response.body.error).toBe('Filter not found.');
+        });
+    });
+});
@@ -0,0 +1,219 @@
+const request = require('supertest');
+const app = require('../../app');
+const { Area, Project, Task, Tag } = require('../../models');
+const { createTestUser } = require('../helpers/testUtils');
+
+const TODOIST_CSV = [
+    'TYPE,CONTENT,DESCRIPTION,PRIORITY,INDENT,AUTHOR,RESPONSIBLE,DATE,DATE_LANG,TIMEZONE',
+    'section,Planning,,,,,,,,',
+    'task,Water plants @garden,,2,1,Sam,,every monday,en,Europe/London',
+    'task,Buy compost,,4,2,Sam,,2025-07-01,en,Europe/London',
+    'note,Peat free,,,,Sam,,,,',
+    'task,Prune roses,,1,1,Sam,Alex,every weekday,en,Europe/London',
+].join('\n');
+
+const TICKTICK_CSV = [
+    '"Date: 2025-07-01+0000"',
+    '"Version: 7.1"',
+    '"Status: ',
+    '0 Normal',
+    '1 Completed',
+    '2 Archived"',
+    '"Folder Name","List Name","Title","Kind","Tags","Content","Is Check list","Start Date","Due Date","Reminder","Repeat","Priority","Status","Created Time","Completed Time","Order","Timezone","Is All Day","Is Floating","Column Name","Column Order","View Mode","taskId","parentId"',
+    '"Work","Reports","Quarterly report","TEXT","finance, urgent","","N","","2025-06-30T16:00:00+0000","","FREQ=MONTHLY;INTERVAL=3;BYMONTHDAY=1","5","0","2025-06-01T09:00:00+0000","","1","Asia/Shanghai","true","false","","","list","t1",""',
+    '"","Inbox","Book dentist","TEXT","","","N","","","-PT15M","","0","1","2025-06-01T09:00:00+0000","2025-06-02T09:00:00+0000","2","Asia/Shanghai","true","false","","","list","t2",""',
+].join('\n');
+
+describe('Importer Routes', () => {
+    let user, agent;
+
+    beforeEach(async () => {
+        user = await createTestUser({
+            email: 'test@example.com',
+        });
+
+        agent = request.agent(app);
+        await agent.post('/api/login').send({
+            email: 'test@example.com',
+            password: 'password123',
+        });
+    });
+
+    const upload = (path, content, filename) =>
+        agent.post(path).attach('file', Buffer.from(content), filename);
+
+    it('should list the available importers', async () => {
+        const response = await agent.get('/api/importers');
+
+        expect(response.status).toBe(200);
+        expect(response.body).toEqual([
+            { id: 'todoist', name: 'Todoist', extensions: ['.csv', '.json'] },
+            { id: 'ticktick', name: 'TickTick', extensions: ['.csv'] },
+            { id: 'things', name: 'Things', extensions: ['.json'] },
+        ]);
+    });
+
+    describe('POST /api/importers/:source/preview', () => {
+        it('should preview a TickTick backup without saving it', async () => {
+            const response = await upload(
+                '/api/importers/ticktick/preview',
+                TICKTICK_CSV,
+                'ticktick.csv'
+            );
+
+            expect(response.status).toBe(200);
+            expect(response.body.counts).toEqual({
+                areas: 1,
+                projects: 1,
+                tags: 2,
+                tasks: 2,
+                subtasks: 0,
+                recurring: 1,
+                completed: 1,
+            });
+            expect(response.body.projects).toEqual([
+                { name: 'Reports', area: 'Work' },
+            ]);
+            expect(response.body.tasks[0]).toEqual({
+                name: 'Quarterly report',
+                project: 'Reports',
+                parent: null,
+                due_date: '2025-07-01',
+                priority: Task.PRIORITY.HIGH,
+                status: Task.STATUS.NOT_STARTED,
+                recurrence_type: 'monthly',
+                tags: ['finance', 'urgent'],
+            });
+            expect(response.body.unmapped).toEqual([
+                {
+                    field: 'Reminder',
+                    reason: 'Reminders are not imported',
+                    count: 1,
+                    examples: ['Book dentist'],
+                },
+            ]);
+
+            expect(await Task.count({ where: { user_id: user.id } })).toBe(0);
+        });
+
+        it('should list Todoist fields that cannot be mapped', async () => {
+            const response = await upload(
+                '/api/importers/todoist/preview',
+                TODOIST_CSV,
+                'Garden.csv'
+            );
+
+            expect(response.status).toBe(200);
+            expect(response.body.unmapped.map((entry) => entry.field)).toEqual([
+                'section',
+                'due',
+                'RESPONSIBLE',
+            ]);
+            expect(response.body.unmapped[1].examples).toEqual([
+                'Prune roses ("every weekday")',
+            ]);
+        });
+
+        it('should reject files in another format', async () => {
+            const response = await upload(
+                '/api/importers/ticktick/preview',
+                TODOIST_CSV,
+                'Garden.csv'
+            );
+
+            expect(response.status).toBe(400);
+            expect(response.body.error).toBe(
+                'This file is not a TickTick export.'
+            );
+        });
+
+        it('should require a known source and a file', async () => {
+            let response = await upload(
+                '/api/importers/asana/preview',
+                TODOIST_CSV,
+                'Garden.csv'
+            );
+            expect(response.status).toBe(404);
+
+            response = await agent.post('/api/importers/todoist/preview');
+            expect(response.status).toBe(400);
+            expect(response.body.error).toBe('An export file is required.');
+        });
+    });
+
+    describe('POST /api/importers/:source/import', () => {
+        it('should create projects, tags and tasks from a Todoist CSV', async () => {
+            const response = await upload(
+                '/api/importers/todoist/import',
+                TODOIST_CSV,
+                'Garden.csv'
+            );
+
+            expect(response.status).toBe(201);
+            expect(response.body.created).toMatchObject({
+                projects: 1,
+                tags: 1,
+                tasks: 3,
+            });
+
+            const project = await Project.findOne({
+                where: { user_id: user.id },
+            });
+            expect(project.name).toBe('Garden');
+
+            const water = await Task.findOne({
+                where: { name: 'Water plants', user_id: user.id },
+                include: [Tag, { model: Task, as: 'Subtasks' }],
+            });
+            expect(water.project_id).toBe(project.id);
+            expect(water.priority).toBe(Task.PRIORITY.MEDIUM);
+            expect(water.recurrence_type).toBe('weekly');
+            expect(water.recurrence_weekday).toBe(1);
+            expect(water.Tags.map((tag) => tag.name)).toEqual(['garden']);
+            expect(water.Subtasks).toHaveLength(1);
+            expect(water.Subtasks[0].name).toBe('Buy compost');
+            expect(water.Subtasks[0].note).toBe('Peat free');
+            expect(water.Subtasks[0].due_date.toISOString()).toBe(
+                '2025-07-01T00:00:00.000Z'
+            );
+
+            const roses = await Task.findOne({
+                where: { name: 'Prune roses', user_id: user.id },
+            });
+            expect(roses.priority).toBe(Task.PRIORITY.HIGH);
+            expect(roses.recurrence_type).toBe('none');
+        });
+
+        it('should create areas for TickTick folders', async () => {
+            const response = await upload(
+                '/api/importers/ticktick/import',
+                TICKTICK_CSV,
+                'ticktick.csv'
+            );
+
+            expect(response.status).toBe(201);
+            const area = await Area.findOne({ where: { user_id: user.id } });
+            const project = await Project.findOne({
+                where: { user_id: user.id },
+            });
+            expect(area.name).toBe('Work');
+            expect(project.area_id).toBe(area.id);
+
+            const report = await Task.findOne({
+                where: { name: 'Quarterly report', user_id: user.id },
+            });
+            expect(report.recurrence_type).toBe('monthly');
+            expect(report.recurrence_interval).toBe(3);
+            expect(report.recurrence_month_day).toBe(1);
+
+            const dentist = await Task.findOne({
+                where: { name: 'Book dentist', user_id: user.id },
+            });
+            expect(dentist.project_id).toBeNull();
+            expect(dentist.status).toBe(Task.STATUS.DONE);
+            expect(dentist.completed_at.toISOString()).toBe(
+                '2025-06-02T09:00:00.000Z'
+            );
+        });
+    });
+});
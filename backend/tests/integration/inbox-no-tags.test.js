@@ -234,10 +234,13 @@ describe('Inbox Routes - No Tags Scenario', () => {
                 'Inbox item successfully deleted'
             );
 
-            // Verify item status is updated to deleted
-            const deletedItem = await InboxItem.findByPk(inboxItem.id);
+            // Verify the item was moved to the trash
+            expect(await InboxItem.findByPk(inboxItem.id)).toBeNull();
+            const deletedItem = await InboxItem.findByPk(inboxItem.id, {
+                paranoid: false,
+            });
             expect(deletedItem).not.toBeNull();
-            expect(deletedItem.status).toBe('deleted');
+            expect(deletedItem.deleted_at).not.toBeNull();
         });
     });
 
@@ -223,10 +223,13 @@ describe('Inbox Routes', () => {
                 'Inbox item successfully deleted'
             );
 
-            // Verify inbox item status is updated to deleted
-            const deletedItem = await InboxItem.findByPk(inboxItem.id);
+            // Verify the item was moved to the trash
+            expect(await InboxItem.findByPk(inboxItem.id)).toBeNull();
+            const deletedItem = await InboxItem.findByPk(inboxItem.id, {
+                paranoid: false,
+            });
             expect(deletedItem).not.toBeNull();
-            expect(deletedItem.status).toBe('deleted');
+            expect(deletedItem.deleted_at).not.toBeNull();
         });
 
         it('should return 404 for non-existent inbox item', async () => {
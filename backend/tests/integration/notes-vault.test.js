@@ -0,0 +1,230 @@
+const request = require('supertest');
+const app = require('../../app');
+const { Note, Project, Tag } = require('../../models');
+const { readZip, writeZip } = require('../../services/zipArchive');
+const { createTestUser } = require('../helpers/testUtils');
+
+// Collect binary responses into a Buffer
+const binaryParser = (res, callback) => {
+    const chunks = [];
+    res.on('data', (chunk) => chunks.push(chunk));
+    res.on('end', () => callback(null, Buffer.concat(chunks)));
+};
+
+describe('Notes Vault Routes', () => {
+    let user, agent;
+
+    beforeEach(async () => {
+        user = await createTestUser({ email: 'test@example.com' });
+        agent = request.agent(app);
+        await agent.post('/api/login').send({
+            email: 'test@example.com',
+            password: 'password123',
+        });
+    });
+
+    const importFiles = (files, query = '') => {
+        const req = agent.post(`/api/import/notes${query}`);
+        files.forEach(([name, content]) =>
+            req.attach('files', Buffer.from(content), name)
+        );
+        return req;
+    };
+
+    describe('GET /api/export/notes', () => {
+        it('should zip notes into project folders with front matter', async () => {
+            const project = await Project.create({
+                name: 'Garden',
+                user_id: user.id,
+            });
+            const spring = await Tag.create({
+                name: 'spring',
+                user_id: user.id,
+            });
+            const note = await Note.create({
+                title: 'Seed order',
+                content: '# Seeds\n\nTomatoes, basil',
+                project_id: project.id,
+                user_id: user.id,
+            });
+            await note.setTags([spring]);
+            await Note.create({
+                title: 'Ideas: later?',
+                content: 'Loose thoughts',
+                user_id: user.id,
+            });
+            await Note.create({
+                title: 'ideas: later?',
+                content: 'Same name, different case',
+                user_id: user.id,
+            });
+
+            const response = await agent
+                .get('/api/export/notes')
+                .buffer(true)
+                .parse(binaryParser);
+
+            expect(response.status).toBe(200);
+            expect(response.headers['content-type']).toBe('application/zip');
+
+            const files = readZip(response.body);
+            expect(files.map((file) => file.name)).toEqual([
+                'Garden/Seed order.md',
+                'Ideas- later-.md',
+                'ideas- later- (2).md',
+            ]);
+            const created = note.created_at.toISOString();
+            expect(files[0].content.toString('utf8')).toBe(
+                '---\ntitle: Seed order\ntags:\n  - spring\nproject: Garden\n' +
+                    `created: ${created}\nupdated: ${note.updated_at.toISOString()}\n` +
+                    '---\n# Seeds\n\nTomatoes, basil'
+            );
+        });
+
+        it('should require authentication', async () => {
+            const response = await request(app).get('/api/export/notes');
+            expect(response.status).toBe(401);
+        });
+    });
+
+    describe('POST /api/import/notes', () => {
+        it('should read a zipped vault and keep front matter timestamps', async () => {
+            const zip = writeZip([
+                {
+                    name: 'vault/Garden/Seed order.md',
+                    content:
+                        '---\ntitle: Seed order\ntags: [spring, "#outdoors"]\n' +
+                        'created: 2025-03-01T09:00:00.000Z\n' +
+                        'updated: 2025-03-02T17:30:00.000Z\n---\nTomatoes',
+                    date: new Date('2025-03-02T17:30:00Z'),
+                },
+                {
+                    name: 'vault/Reading list.md',
+                    content: 'No front matter here',
+                },
+                { name: 'vault/.obsidian/app.json', content: '{}' },
+                { name: 'vault/cover.png', content: 'binary' },
+            ]);
+
+            const response = await importFiles([['vault.zip', zip]]);
+
+            expect(response.status).toBe(201);
+            expect(response.body).toEqual({
+                dry_run: false,
+                created: { notes: 2, projects: 1, tags: 2 },
+                updated: { notes: 0 },
+                skipped: { notes: 0 },
+                warnings: ['cover.png: not a markdown file'],
+            });
+
+            const seeds = await Note.findOne({
+                where: { title: 'Seed order', user_id: user.id },
+                include: [{ model: Tag }, { model: Project }],
+            });
+            expect(seeds.content).toBe('Tomatoes');
+            expect(seeds.Project.name).toBe('Garden');
+            expect(seeds.Tags.map((tag) => tag.name).sort()).toEqual([
+                'outdoors',
+                'spring',
+            ]);
+            expect(seeds.created_at.toISOString()).toBe(
+                '2025-03-01T09:00:00.000Z'
+            );
+            expect(seeds.updated_at.toISOString()).toBe(
+                '2025-03-02T17:30:00.000Z'
+            );
+
+            const reading = await Note.findOne({
+                where: { title: 'Reading list', user_id: user.id },
+            });
+            expect(reading.content).toBe('No front matter here');
+            expect(reading.project_id).toBeNull();
+        });
+
+        it('should deduplicate by title, updating only changed notes', async () => {
+            await Note.create({
+                title: 'Unchanged',
+                content: 'Same',
+                user_id: user.id,
+            });
+            const edited = await Note.create({
+                title: 'Edited',
+                content: 'Old text',
+                user_id: user.id,
+            });
+
+            const response = await importFiles([
+                ['Unchanged.md', 'Same'],
+                ['Edited.md', '---\ntitle: Edited\n---\nNew text'],
+                ['Copy.md', '---\ntitle: Edited\n---\nAnother copy'],
+            ]);
+
+            expect(response.status).toBe(201);
+            expect(response.body.created.notes).toBe(0);
+            expect(response.body.updated).toEqual({ notes: 1 });
+            expect(response.body.skipped).toEqual({ notes: 2 });
+            expect(response.body.warnings).toEqual([
+                'Copy.md: another file already has the title "Edited"',
+            ]);
+            expect(await Note.count({ where: { user_id: user.id } })).toBe(2);
+            await edited.reload();
+            expect(edited.content).toBe('New text');
+        });
+
+        it('should round-trip an export into another account', async () => {
+            const note = await Note.create({
+                title: 'Recipe',
+                content: 'Flour, water',
+                created_at: new Date('2024-01-05T08:00:00Z'),
+                user_id: user.id,
+            });
+            const exported = await agent
+                .get('/api/export/notes')
+                .buffer(true)
+                .parse(binaryParser);
+
+            const otherUser = await createTestUser({
+                email: 'other@example.com',
+            });
+            const other = request.agent(app);
+            await other.post('/api/login').send({
+                email: 'other@example.com',
+                password: 'password123',
+            });
+            const response = await other
+                .post('/api/import/notes')
+                .attach('files', exported.body, 'tududi-notes.zip');
+
+            expect(response.status).toBe(201);
+            expect(response.body.created.notes).toBe(1);
+            const copy = await Note.findOne({
+                where: { title: 'Recipe', user_id: otherUser.id },
+            });
+            expect(copy.content).toBe('Flour, water');
+            expect(copy.created_at.toISOString()).toBe(
+                note.created_at.toISOString()
+            );
+        });
+
+        it('should roll back a dry run', async () => {
+            const response = await importFiles(
+                [['Plan.md', '---\nproject: Travel\n---\nPack']],
+                '?dry_run=true'
+            );
+
+            expect(response.status).toBe(200);
+            expect(response.body.created).toEqual({
+                notes: 1,
+                projects: 1,
+                tags: 0,
+            });
+            expect(await Note.count({ where: { user_id: user.id } })).toBe(0);
+        });
+
+        it('should reject uploads without markdown files', async () => {
+            const response = await importFiles([['photo.png', 'binary']]);
+            expect(response.status).toBe(400);
+            expect(response.body.details).toEqual(['No markdown files found']);
+        });
+    });
+});
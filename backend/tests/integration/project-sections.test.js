@@ -0,0 +1,217 @@
+const request = require('supertest');
+const app = require('../../app');
+const { Project, ProjectSection, Task } = require('../../models');
+const { createTestUser } = require('../helpers/testUtils');
+
+describe('Project Section Routes', () => {
+    let user, agent, project;
+
+    beforeEach(async () => {
+        user = await createTestUser({ email: 'test@example.com' });
+        agent = request.agent(app);
+        await agent.post('/api/login').send({
+            email: 'test@example.com',
+            password: 'password123',
+        });
+
+        project = await Project.create({ name: 'Kitchen', user_id: user.id });
+    });
+
+    const createSection = (name, data = {}) =>
+        agent
+            .post(`/api/project/${project.id}/sections`)
+            .send({ name, ...data });
+
+    const sectionNames = async () => {
+        const response = await agent.get(`/api/project/${project.id}/sections`);
+        return response.body.map((section) => section.name);
+    };
+
+    describe('POST /api/project/:id/sections', () => {
+        it('should add sections to the end of the project', async () => {
+            const response = await createSection('Demolition', {
+                target_date: '2025-07-01',
+            });
+
+            expect(response.status).toBe(201);
+            expect(response.body.name).toBe('Demolition');
+            expect(response.body.project_id).toBe(project.id);
+            expect(response.body.target_date).toMatch(/^2025-07-01/);
+
+            await createSection('Cabinets').expect(201);
+            expect(await sectionNames()).toEqual(['Demolition', 'Cabinets']);
+        });
+
+        it('should require a name', async () => {
+            const response = await createSection('  ');
+
+            expect(response.status).toBe(400);
+            expect(response.body.error).toBe('Section name is required.');
+        });
+
+        it("should not add sections to another user's project", async () => {
+            const other = await createTestUser({ email: 'other@example.com' });
+            const theirs = await Project.create({
+                name: 'Theirs',
+                user_id: other.id,
+            });
+
+            const response = await agent
+                .post(`/api/project/${theirs.id}/sections`)
+                .send({ name: 'Mine now' });
+
+            expect(response.status).toBe(404);
+        });
+    });
+
+    describe('PATCH /api/section/:id', () => {
+        it('should rename and reorder a section', async () => {
+            const demolition = (await createSection('Demolition')).body;
+            await createSection('Plumbing').expect(201);
+            const cabinets = (await createSection('Cabinets')).body;
+
+            const response = await agent
+                .patch(`/api/section/${cabinets.id}`)
+                .send({ name: 'Cabinets & counters', position: 0 });
+
+            expect(response.status).toBe(200);
+            expect(await sectionNames()).toEqual([
+                'Cabinets & counters',
+                'Demolition',
+                'Plumbing',
+            ]);
+
+            await agent
+                .patch(`/api/section/${demolition.id}`)
+                .send({ position: 5 })
+                .expect(200);
+            expect(await sectionNames()).toEqual([
+                'Cabinets & counters',
+                'Plumbing',
+                'Demolition',
+            ]);
+        });
+
+        it('should reject an invalid position', async () => {
+            const section = (await createSection('Demolition')).body;
+
+            const response = await agent
+                .patch(`/api/section/${section.id}`)
+                .send({ position: -1 });
+
+            expect(response.status).toBe(400);
+        });
+    });
+
+    describe('DELETE /api/section/:id', () => {
+        it('should move its tasks out of the section', async () => {
+            const section = (await createSection('Demolition')).body;
+            const task = await Task.create({
+                name: 'Remove tiles',
+                project_id: project.id,
+                section_id: section.id,
+                user_id: user.id,
+            });
+
+            const response = await agent.delete(`/api/section/${section.id}`);
+
+            expect(response.status).toBe(204);
+            expect(await ProjectSection.findByPk(section.id)).toBeNull();
+            await task.reload();
+            expect(task.section_id).toBeNull();
+            expect(task.project_id).toBe(project.id);
+        });
+
+        it("should return 404 for another user's section", async () => {
+            const other = await createTestUser({ email: 'other@example.com' });
+            const theirs = await Project.create({
+                name: 'Theirs',
+                user_id: other.id,
+            });
+            const section = await ProjectSection.create({
+                name: 'Theirs',
+                project_id: theirs.id,
+                user_id: other.id,
+            });
+
+            const response = await agent.delete(`/api/section/${section.id}`);
+
+            expect(response.status).toBe(404);
+            expect(await ProjectSection.findByPk(section.id)).not.toBeNull();
+        });
+    });
+
+    describe('tasks in sections', () => {
+        let section;
+
+        beforeEach(async () => {
+            section = (await createSection('Demolition')).body;
+        });
+
+        it('should create a task in a section', async () => {
+            const response = await agent.post('/api/task').send({
+                name: 'Remove tiles',
+                project_id: project.id,
+                section_id: section.id,
+            });
+
+            expect(response.status).toBe(201);
+            expect(response.body.section_id).toBe(section.id);
+
+            const fetched = await agent.get(`/api/project/${project.id}`);
+            expect(fetched.body.ProjectSections.map((s) => s.name)).toEqual([
+                'Demolition',
+            ]);
+            expect(fetched.body.Tasks[0].section_id).toBe(section.id);
+        });
+
+        it('should reject a section of another project', async () => {
+            const other = await Project.create({
+                name: 'Bathroom',
+                user_id: user.id,
+            });
+
+            const response = await agent.post('/api/task').send({
+                name: 'Remove tiles',
+                project_id: other.id,
+                section_id: section.id,
+            });
+
+            expect(response.status).toBe(400);
+            expect(response.body.error).toBe('Invalid section.');
+        });
+
+        it('should leave the section when moved to another project', async () => {
+            const other = await Project.create({
+                name: 'Bathroom',
+                user_id: user.id,
+            });
+            const task = await Task.create({
+                name: 'Remove tiles',
+                project_id: project.id,
+                section_id: section.id,
+                user_id: user.id,
+            });
+
+            await agent
+                .patch(`/api/task/${task.id}`)
+                .send({ name: task.name, status: 0, project_id: project.id })
+                .expect(200);
+            await task.reload();
+            expect(task.section_id).toBe(section.id);
+
+            await agent
+                .patch(`/api/task/${task.id}`)
+                .send({
+                    name: task.name,
+                    status: 0,
+                    project_id: other.id,
+                    section_id: section.id,
+                })
+                .expect(200);
+            await task.reload();
+            expect(task.project_id).toBe(other.id);
+            expect(task.section_id).toBeNull();
+        });
+    });
+});
@@ -0,0 +1,246 @@
+const request = require('supertest');
+const app = require('../../app');
+const {
+    Area,
+    Project,
+    ProjectSection,
+    ProjectTemplate,
+    Task,
+    Tag,
+    Note,
+} = require('../../models');
+const { createTestUser } = require('../helpers/testUtils');
+
+describe('Project Template Routes', () => {
+    let user, agent, project;
+
+    beforeEach(async () => {
+        user = await createTestUser({ email: 'test@example.com' });
+        agent = request.agent(app);
+        await agent.post('/api/login').send({
+            email: 'test@example.com',
+            password: 'password123',
+        });
+
+        const clients = await Tag.create({ name: 'clients', user_id: user.id });
+        project = await Project.create({
+            name: 'Acme onboarding',
+            description: 'Welcome a new client',
+            due_date_at: new Date('2025-07-31T00:00:00Z'),
+            user_id: user.id,
+        });
+        await project.setTags([clients]);
+        const kickoff = await ProjectSection.create({
+            name: 'Kickoff',
+            target_date: new Date('2025-07-08T00:00:00Z'),
+            project_id: project.id,
+            user_id: user.id,
+        });
+
+        const call = await Task.create({
+            name: 'Call Acme',
+            due_date: new Date('2025-07-03T00:00:00Z'),
+            status: Task.STATUS.DONE,
+            project_id: project.id,
+            section_id: kickoff.id,
+            user_id: user.id,
+        });
+        await call.setTags([clients]);
+        await Task.create({
+            name: 'Prepare agenda',
+            parent_task_id: call.id,
+            project_id: project.id,
+            user_id: user.id,
+        });
+        await Task.create({
+            name: 'Send invoice',
+            project_id: project.id,
+            user_id: user.id,
+        });
+        await Note.create({
+            title: 'Acme contacts',
+            content: 'Ask for the billing contact',
+            project_id: project.id,
+            user_id: user.id,
+        });
+    });
+
+    const saveTemplate = (data = {}) =>
+        agent.post(`/api/project/${project.id}/template`).send({
+            name: 'Client onboarding',
+            start_date: '2025-07-01',
+            placeholders: { client: 'Acme' },
+            ...data,
+        });
+
+    describe('POST /api/project/:id/template', () => {
+        it('should capture the project with relative dates', async () => {
+            const response = await saveTemplate();
+
+            expect(response.status).toBe(201);
+            expect(response.body.name).toBe('Client onboarding');
+            expect(response.body.placeholders).toEqual(['client']);
+
+            const { content } = response.body;
+            expect(content.project).toMatchObject({
+                name: '{{client}} onboarding',
+                description: 'Welcome a new client',
+                due_offset_days: 30,
+                tags: ['clients'],
+            });
+            expect(content.sections).toEqual([
+                { name: 'Kickoff', target_offset_days: 7 },
+            ]);
+            expect(content.tasks).toHaveLength(2);
+            expect(content.tasks[0]).toMatchObject({
+                name: 'Call {{client}}',
+                due_offset_days: 2,
+                section_index: 0,
+                tags: ['clients'],
+                subtasks: [expect.objectContaining({ name: 'Prepare agenda' })],
+            });
+            expect(content.notes).toEqual([
+                {
+                    title: '{{client}} contacts',
+                    content: 'Ask for the billing contact',
+                    tags: [],
+                },
+            ]);
+        });
+
+        it('should reject an invalid start date', async () => {
+            const response = await saveTemplate({ start_date: 'July 1st' });
+
+            expect(response.status).toBe(400);
+            expect(response.body.error).toBe(
+                'Start date must be a YYYY-MM-DD date.'
+            );
+        });
+
+        it("should not capture another user's project", async () => {
+            const other = await createTestUser({ email: 'other@example.com' });
+            const theirs = await Project.create({
+                name: 'Theirs',
+                user_id: other.id,
+            });
+
+            const response = await agent
+                .post(`/api/project/${theirs.id}/template`)
+                .send({ name: 'Mine now' });
+
+            expect(response.status).toBe(404);
+        });
+    });
+
+    describe('POST /api/project-template/:id/instantiate', () => {
+        let template;
+
+        beforeEach(async () => {
+            template = (await saveTemplate()).body;
+        });
+
+        it('should create the project from the start date', async () => {
+            const area = await Area.create({ name: 'Work', user_id: user.id });
+
+            const response = await agent
+                .post(`/api/project-template/${template.id}/instantiate`)
+                .send({
+                    start_date: '2025-09-01',
+                    values: { client: 'Globex' },
+                    area_id: area.id,
+                });
+
+            expect(response.status).toBe(201);
+            expect(response.body.name).toBe('Globex onboarding');
+            expect(response.body.area_id).toBe(area.id);
+            expect(response.body.due_date_at).toMatch(/^2025-10-01/);
+            expect(response.body.tags.map((tag) => tag.name)).toEqual([
+                'clients',
+            ]);
+
+            const sections = await ProjectSection.findAll({
+                where: { project_id: response.body.id },
+            });
+            expect(sections).toHaveLength(1);
+            expect(sections[0].target_date.toISOString()).toMatch(
+                /^2025-09-08/
+            );
+
+            const call = await Task.findOne({
+                where: { name: 'Call Globex' },
+                include: [{ model: Task, as: 'Subtasks' }, Tag],
+            });
+            expect(call.project_id).toBe(response.body.id);
+            expect(call.section_id).toBe(sections[0].id);
+            expect(call.status).toBe(Task.STATUS.NOT_STARTED);
+            expect(call.due_date.toISOString()).toMatch(/^2025-09-03/);
+            expect(call.Tags.map((tag) => tag.name)).toEqual(['clients']);
+            expect(call.Subtasks.map((subtask) => subtask.name)).toEqual([
+                'Prepare agenda',
+            ]);
+
+            const note = await Note.findOne({
+                where: { project_id: response.body.id },
+            });
+            expect(note.title).toBe('Globex contacts');
+            expect(await Tag.count({ where: { user_id: user.id } })).toBe(1);
+        });
+
+        it('should require a value for every placeholder', async () => {
+            const response = await agent
+                .post(`/api/project-template/${template.id}/instantiate`)
+                .send({ values: { client: ' ' } });
+
+            expect(response.status).toBe(400);
+            expect(response.body.error).toBe(
+                'Missing values for placeholders: client.'
+            );
+            expect(await Project.count()).toBe(1);
+        });
+
+        it('should create nothing when a record fails', async () => {
+            await ProjectTemplate.update(
+                {
+                    content: {
+                        ...template.content,
+                        sections: [{ name: '' }],
+                    },
+                },
+                { where: { id: template.id } }
+            );
+
+            const response = await agent
+                .post(`/api/project-template/${template.id}/instantiate`)
+                .send({ values: { client: 'Globex' } });
+
+            expect(response.status).toBe(400);
+            expect(await Project.count()).toBe(1);
+            expect(await Task.count({ where: { name: 'Call Globex' } })).toBe(
+                0
+            );
+        });
+    });
+
+    describe('GET and DELETE /api/project-templates', () => {
+        it("should list and delete only the user's templates", async () => {
+            const template = (await saveTemplate()).body;
+            const other = await createTestUser({ email: 'other@example.com' });
+            const theirs = await ProjectTemplate.create({
+                name: 'Theirs',
+                user_id: other.id,
+            });
+
+            const list = await agent.get('/api/project-templates');
+            expect(list.status).toBe(200);
+            expect(list.body.map((t) => t.name)).toEqual(['Client onboarding']);
+
+            await agent
+                .delete(`/api/project-template/${theirs.id}`)
+                .expect(404);
+            await agent
+                .delete(`/api/project-template/${template.id}`)
+                .expect(204);
+            expect(await ProjectTemplate.findByPk(template.id)).toBeNull();
+        });
+    });
+});
@@ -212,6 +212,34 @@ describe('Projects Routes', () => {
             expect(response.body.priority).toBe(updateData.priority);
         });
 
+        it('should save the board view and WIP limits', async () => {
+            const response = await agent
+                .patch(`/api/project/${project.id}`)
+                .send({ view_mode: 'board', wip_limits: { in_progress: 3 } });
+
+            expect(response.status).toBe(200);
+            expect(response.body.view_mode).toBe('board');
+            expect(response.body.wip_limits).toEqual({ in_progress: 3 });
+
+            const fetched = await agent.get(`/api/project/${project.id}`);
+            expect(fetched.body.view_mode).toBe('board');
+            expect(fetched.body.wip_limits).toEqual({ in_progress: 3 });
+        });
+
+        it('should reject invalid WIP limits', async () => {
+            for (const wip_limits of [{ archived: 2 }, { done: 0 }, [3]]) {
+                const response = await agent
+                    .patch(`/api/project/${project.id}`)
+                    .send({ wip_limits });
+                expect(response.status).toBe(400);
+            }
+
+            const response = await agent
+                .patch(`/api/project/${project.id}`)
+                .send({ view_mode: 'gallery' });
+            expect(response.status).toBe(400);
+        });
+
         it('should return 404 for non-existent project', async () => {
             const response = await agent
                 .patch('/api/project/999999')
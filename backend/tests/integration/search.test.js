@@ -0,0 +1,169 @@
+const request = require('supertest');
+const app = require('../../app');
+const { Task, Note, Project, InboxItem, User } = require('../../models');
+const { createTestUser } = require('../helpers/testUtils');
+
+describe('Search Routes', () => {
+    let user, agent;
+
+    beforeEach(async () => {
+        user = await createTestUser({
+            email: 'test@example.com',
+        });
+
+        // Create authenticated agent
+        agent = request.agent(app);
+        await agent.post('/api/login').send({
+            email: 'test@example.com',
+            password: 'password123',
+        });
+    });
+
+    describe('GET /api/search', () => {
+        it('should find records of every type grouped by entity', async () => {
+            await Task.create({ name: 'Renew passport', user_id: user.id });
+            await Note.create({
+                title: 'Travel checklist',
+                content: 'Bring the passport and tickets',
+                user_id: user.id,
+            });
+            await Project.create({
+                name: 'Passport application',
+                user_id: user.id,
+            });
+            await InboxItem.create({
+                content: 'Find passport photos',
+                source: 'web',
+                user_id: user.id,
+            });
+
+            const response = await agent.get('/api/search?q=passport');
+
+            expect(response.status).toBe(200);
+            expect(response.body.total).toBe(4);
+            expect(response.body.results.tasks[0].name).toBe('Renew passport');
+            expect(response.body.results.notes[0].title).toBe(
+                'Travel checklist'
+            );
+            expect(response.body.results.projects[0].name).toBe(
+                'Passport application'
+            );
+            expect(response.body.results.inbox[0].content).toBe(
+                'Find passport photos'
+            );
+        });
+
+        it('should return highlighted snippets', async () => {
+            await Note.create({
+                title: 'Meeting',
+                content: 'Discuss the quarterly budget with finance',
+                user_id: user.id,
+            });
+
+            const response = await agent.get('/api/search?q=budget');
+
+            const [note] = response.body.results.notes;
+            expect(note.snippet).toContain('<mark>budget</mark>');
+        });
+
+        it('should match word prefixes', async () => {
+            await Task.create({ name: 'Schedule dentist', user_id: user.id });
+
+            const response = await agent.get('/api/search?q=dent');
+
+            expect(response.body.results.tasks.length).toBe(1);
+            expect(response.body.results.tasks[0].title_highlight).toBe(
+                'Schedule <mark>dentist</mark>'
+            );
+        });
+
+        it('should rank title matches above body matches', async () => {
+            await Note.create({
+                title: 'Groceries',
+                content: 'milk, coffee, bread',
+                user_id: user.id,
+            });
+            await Note.create({
+                title: 'Coffee beans to try',
+                content: 'Ethiopian',
+                user_id: user.id,
+            });
+
+            const response = await agent.get('/api/search?q=coffee');
+
+            expect(response.body.results.notes.map((n) => n.title)).toEqual([
+                'Coffee beans to try',
+                'Groceries',
+            ]);
+        });
+
+        it('should keep the index in sync with updates and deletes', async () => {
+            const task = await Task.create({
+                name: 'Call plumber',
+                user_id: user.id,
+            });
+
+            await task.update({ name: 'Call electrician' });
+            let response = await agent.get('/api/search?q=plumber');
+            expect(response.body.results.tasks.length).toBe(0);
+
+            response = await agent.get('/api/search?q=electrician');
+            expect(response.body.results.tasks.length).toBe(1);
+
+            await agent.delete(`/api/task/${task.id}`);
+            response = await agent.get('/api/search?q=electrician');
+            expect(response.body.results.tasks.length).toBe(0);
+        });
+
+        it('should limit results to the requested types', async () => {
+            await Task.create({ name: 'Budget review', user_id: user.id });
+            await Note.create({
+                title: 'Budget notes',
+                user_id: user.id,
+            });
+
+            const response = await agent.get('/api/search?q=budget&types=note');
+
+            expect(response.body.results.notes.length).toBe(1);
+            expect(response.body.results.tasks).toBeUndefined();
+        });
+
+        it('should tolerate FTS syntax characters in the query', async () => {
+            await Task.create({ name: 'Fix "quoted" bug', user_id: user.id });
+
+            const response = await agent.get(
+                `/api/search?q=${encodeURIComponent('"quoted* (')}`
+            );
+
+            expect(response.status).toBe(200);
+            expect(response.body.results.tasks.length).toBe(1);
+        });
+
+        it("should not return other users' records", async () => {
+            const bcrypt = require('bcrypt');
+            const otherUser = await User.create({
+                email: 'other@example.com',
+                password_digest: await bcrypt.hash('password123', 10),
+            });
+            await Task.create({ name: 'Secret plan', user_id: otherUser.id });
+
+            const response = await agent.get('/api/search?q=secret');
+
+            expect(response.body.total).toBe(0);
+        });
+
+        it('should require a query', async () => {
+            const response = await agent.get('/api/search?q=%20');
+
+            expect(response.status).toBe(400);
+            expect(response.body.error).toBe('Search query is required.');
+        });
+
+        it('should require authentication', async () => {
+            const response = await request(app).get('/api/search?q=test');
+
+            expect(response.status).toBe(401);
+            expect(response.body.error).toBe('Authentication required');
+        });
+    });
+});
@@ -0,0 +1,332 @@
+const request = require('supertest');
+const app = require('../../app');
+const { Task, TaskEvent, User } = require('../../models');
+const changeEvents = require('../../services/changeEvents');
+const { createTestUser } = require('../helpers/testUtils');
+
+describe('Subtasks Routes', () => {
+    let user, agent, parentTask;
+
+    beforeEach(async () => {
+        user = await createTestUser({
+            email: 'test@example.com',
+        });
+
+        // Create authenticated agent
+        agent = request.agent(app);
+        await agent.post('/api/login').send({
+            email: 'test@example.com',
+            password: 'password123',
+        });
+
+        parentTask = await Task.create({
+            name: 'Parent Task',
+            user_id: user.id,
+        });
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    // Names of the change events published for a task, in order
+    const publishedEvents = (publish, taskId) =>
+        publish.mock.calls
+            .filter(([, , data]) => data.task && data.task.id === taskId)
+            .map(([, event]) => event);
+
+    describe('POST /api/task/:id/subtasks', () => {
+        it('should create a subtask under the parent task', async () => {
+            const publish = jest.spyOn(changeEvents, 'publish');
+
+            const response = await agent
+                .post(`/api/task/${parentTask.id}/subtasks`)
+                .send({ name: 'Step one' });
+
+            expect(response.status).toBe(201);
+            expect(response.body.subtask.name).toBe('Step one');
+            expect(response.body.subtask.parent_task_id).toBe(parentTask.id);
+            expect(response.body.parent_task.subtask_progress).toEqual({
+                total: 1,
+                done: 0,
+                percentage: 0,
+            });
+            expect(publishedEvents(publish, response.body.subtask.id)).toEqual([
+                'task.created',
+            ]);
+        });
+
+        it('should log a subtask_added event on the parent', async () => {
+            await agent
+                .post(`/api/task/${parentTask.id}/subtasks`)
+                .send({ name: 'Step one' });
+
+            const events = await TaskEvent.findAll({
+                where: { task_id: parentTask.id, event_type: 'subtask_added' },
+            });
+            expect(events.length).toBe(1);
+        });
+
+        it('should require a name', async () => {
+            const response = await agent
+                .post(`/api/task/${parentTask.id}/subtasks`)
+                .send({ name: '  ' });
+
+            expect(response.status).toBe(400);
+            expect(response.body.error).toBe('Subtask name is required.');
+        });
+
+        it('should not allow nesting subtasks', async () => {
+            const subtask = await Task.create({
+                name: 'Subtask',
+                user_id: user.id,
+                parent_task_id: parentTask.id,
+            });
+
+            const response = await agent
+                .post(`/api/task/${subtask.id}/subtasks`)
+                .send({ name: 'Nested' });
+
+            expect(response.status).toBe(400);
+            expect(response.body.error).toBe(
+                'Subtasks cannot have their own subtasks.'
+            );
+        });
+
+        it("should not allow adding subtasks to other user's tasks", async () => {
+            const bcrypt = require('bcrypt');
+            const otherUser = await User.create({
+                email: 'other@example.com',
+                password_digest: await bcrypt.hash('password123', 10),
+            });
+            const otherTask = await Task.create({
+                name: 'Other Task',
+                user_id: otherUser.id,
+            });
+
+            const response = await agent
+                .post(`/api/task/${otherTask.id}/subtasks`)
+                .send({ name: 'Sneaky' });
+
+            expect(response.status).toBe(404);
+            expect(response.body.error).toBe('Task not found.');
+        });
+
+        it('should require authentication', async () => {
+            const response = await request(app)
+                .post(`/api/task/${parentTask.id}/subtasks`)
+                .send({ name: 'Step one' });
+
+            expect(response.status).toBe(401);
+            expect(response.body.error).toBe('Authentication required');
+        });
+    });
+
+    describe('GET /api/task/:id/subtasks', () => {
+        it('should list subtasks with progress', async () => {
+            await Task.create({
+                name: 'Done step',
+                user_id: user.id,
+                parent_task_id: parentTask.id,
+                status: Task.STATUS.DONE,
+            });
+            await Task.create({
+                name: 'Open step',
+                user_id: user.id,
+                parent_task_id: parentTask.id,
+            });
+
+            const response = await agent.get(
+                `/api/task/${parentTask.id}/subtasks`
+            );
+
+            expect(response.status).toBe(200);
+            expect(response.body.subtasks.length).toBe(2);
+            expect(response.body.subtask_progress).toEqual({
+                total: 2,
+                done: 1,
+                percentage: 50,
+            });
+        });
+
+        it('should hide subtasks from the task list', async () => {
+            await Task.create({
+                name: 'Step',
+                user_id: user.id,
+                parent_task_id: parentTask.id,
+            });
+
+            const response = await agent.get('/api/tasks');
+
+            expect(response.status).toBe(200);
+            expect(response.body.tasks.map((t) => t.id)).toEqual([
+                parentTask.id,
+            ]);
+            expect(response.body.tasks[0].subtask_progress.total).toBe(1);
+        });
+
+        it('should keep subtasks out of the today metrics', async () => {
+            await parentTask.update({ status: Task.STATUS.IN_PROGRESS });
+            await Task.create({
+                name: 'Step in progress',
+                status: Task.STATUS.IN_PROGRESS,
+                user_id: user.id,
+                parent_task_id: parentTask.id,
+            });
+            await Task.create({
+                name: 'Step due',
+                due_date: new Date(),
+                user_id: user.id,
+                parent_task_id: parentTask.id,
+            });
+            for (const name of ['Step one', 'Step two', 'Step three']) {
+                await Task.create({
+                    name,
+                    user_id: user.id,
+                    parent_task_id: parentTask.id,
+                });
+            }
+
+            const response = await agent.get('/api/tasks?type=today');
+
+            expect(response.status).toBe(200);
+            const { metrics } = response.body;
+            expect(metrics.tasks_in_progress.map((t) => t.id)).toEqual([
+                parentTask.id,
+            ]);
+            expect(metrics.tasks_due_today).toEqual([]);
+            expect(metrics.suggested_tasks).toEqual([]);
+        });
+    });
+
+    describe('PATCH /api/task/:id/subtasks/:subtaskId', () => {
+        let subtask;
+
+        beforeEach(async () => {
+            subtask = await Task.create({
+                name: 'Step',
+                user_id: user.id,
+                parent_task_id: parentTask.id,
+            });
+        });
+
+        it('should update the subtask', async () => {
+            const response = await agent
+                .patch(`/api/task/${parentTask.id}/subtasks/${subtask.id}`)
+                .send({ name: 'Renamed step', status: 'done' });
+
+            expect(response.status).toBe(200);
+            expect(response.body.subtask.name).toBe('Renamed step');
+            expect(response.body.subtask.status).toBe(Task.STATUS.DONE);
+            expect(response.body.subtask.completed_at).not.toBeNull();
+            expect(response.body.parent_task.subtask_progress.done).toBe(1);
+        });
+
+        it('should not complete the parent unless it opted in', async () => {
+            await agent
+                .patch(`/api/task/${parentTask.id}/subtasks/${subtask.id}`)
+                .send({ status: 'done' });
+
+            await parentTask.reload();
+            expect(parentTask.status).toBe(Task.STATUS.NOT_STARTED);
+        });
+
+        it('should complete the parent when the last subtask is done', async () => {
+            const publish = jest.spyOn(changeEvents, 'publish');
+            await parentTask.update({ complete_with_subtasks: true });
+            await Task.create({
+                name: 'Other step',
+                user_id: user.id,
+                parent_task_id: parentTask.id,
+                status: Task.STATUS.DONE,
+            });
+
+            const response = await agent
+                .patch(`/api/task/${parentTask.id}/subtasks/${subtask.id}`)
+                .send({ status: 'done' });
+
+            expect(response.status).toBe(200);
+            expect(response.body.parent_task.status).toBe(Task.STATUS.DONE);
+            expect(response.body.parent_task.completed_at).not.toBeNull();
+            expect(publishedEvents(publish, parentTask.id)).toEqual([
+                'task.completed',
+            ]);
+            expect(publishedEvents(publish, subtask.id)).toEqual([
+                'task.completed',
+            ]);
+
+            const completedEvents = await TaskEvent.findAll({
+                where: { task_id: parentTask.id, event_type: 'completed' },
+            });
+            expect(completedEvents.length).toBe(1);
+        });
+
+        it('should roll up completion from toggle_completion', async () => {
+            await parentTask.update({ complete_with_subtasks: true });
+
+            const response = await agent.patch(
+                `/api/task/${subtask.id}/toggle_completion`
+            );
+
+            expect(response.status).toBe(200);
+            expect(response.body.parent_task.status).toBe(Task.STATUS.DONE);
+        });
+
+        it('should return 404 for a task that is not a subtask of the parent', async () => {
+            const otherTask = await Task.create({
+                name: 'Unrelated',
+                user_id: user.id,
+            });
+
+            const response = await agent
+                .patch(`/api/task/${parentTask.id}/subtasks/${otherTask.id}`)
+                .send({ name: 'Nope' });
+
+            expect(response.status).toBe(404);
+            expect(response.body.error).toBe('Subtask not found.');
+        });
+    });
+
+    describe('DELETE /api/task/:id/subtasks/:subtaskId', () => {
+        it('should delete the subtask and log it on the parent', async () => {
+            const publish = jest.spyOn(changeEvents, 'publish');
+            const subtask = await Task.create({
+                name: 'Step',
+                user_id: user.id,
+                parent_task_id: parentTask.id,
+            });
+
+            const response = await agent.delete(
+                `/api/task/${parentTask.id}/subtasks/${subtask.id}`
+            );
+
+            expect(response.status).toBe(200);
+            expect(response.body.parent_task.subtask_progress.total).toBe(0);
+            expect(await Task.findByPk(subtask.id)).toBeNull();
+            expect(publishedEvents(publish, subtask.id)).toEqual([
+                'task.deleted',
+            ]);
+
+            const events = await TaskEvent.findAll({
+                where: {
+                    task_id: parentTask.id,
+                    event_type: 'subtask_removed',
+                },
+            });
+            expect(events.length).toBe(1);
+        });
+
+        it('should delete subtasks together with their parent', async () => {
+            const subtask = await Task.create({
+                name: 'Step',
+                user_id: user.id,
+                parent_task_id: parentTask.id,
+            });
+
+            const response = await agent.delete(`/api/task/${parentTask.id}`);
+
+            expect(response.status).toBe(200);
+            expect(await Task.findByPk(subtask.id)).toBeNull();
+        });
+    });
+});
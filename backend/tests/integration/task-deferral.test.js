@@ -0,0 +1,129 @@
+const request = require('supertest');
+const app = require('../../app');
+const { Task, TaskEvent } = require('../../models');
+const TaskDeferralService = require('../../services/taskDeferralService');
+const { createTestUser } = require('../helpers/testUtils');
+
+describe('Task Deferral', () => {
+    let user, agent, task;
+
+    beforeEach(async () => {
+        user = await createTestUser({ email: 'test@example.com' });
+        await user.update({ timezone: 'Europe/Athens' });
+        agent = request.agent(app);
+        await agent.post('/api/login').send({
+            email: 'test@example.com',
+            password: 'password123',
+        });
+
+        task = await Task.create({
+            name: 'Renew passport',
+            today: true,
+            user_id: user.id,
+        });
+    });
+
+    const deferredTask = () =>
+        Task.update(
+            { defer_until: new Date(Date.now() + 24 * 60 * 60 * 1000) },
+            { where: { id: task.id } }
+        );
+
+    describe('PATCH /api/task/:id/defer', () => {
+        it("should defer until the start of the day in the user's timezone", async () => {
+            const response = await agent
+                .patch(`/api/task/${task.id}/defer`)
+                .send({ defer_until: '2030-03-10' });
+
+            expect(response.status).toBe(200);
+            expect(response.body.defer_until).toBe('2030-03-09T22:00:00.000Z');
+            expect(response.body.undo_token).toBeDefined();
+
+            const event = await TaskEvent.findOne({
+                where: { task_id: task.id, event_type: 'deferred' },
+            });
+            expect(event.new_value).toEqual({
+                defer_until: '2030-03-09T22:00:00.000Z',
+            });
+        });
+
+        it('should stop deferring and undo', async () => {
+            await deferredTask();
+
+            const response = await agent
+                .patch(`/api/task/${task.id}/defer`)
+                .send({ defer_until: null });
+            expect(response.status).toBe(200);
+            expect(response.body.defer_until).toBeNull();
+
+            await agent
+                .post(`/api/undo/${response.body.undo_token}`)
+                .expect(200);
+            await task.reload();
+            expect(task.defer_until).not.toBeNull();
+        });
+
+        it('should reject an invalid date', async () => {
+            const response = await agent
+                .patch(`/api/task/${task.id}/defer`)
+                .send({ defer_until: 'next week' });
+
+            expect(response.status).toBe(400);
+            expect(response.body.error).toBe(
+                'Defer date must be a YYYY-MM-DD date or an ISO timestamp.'
+            );
+        });
+    });
+
+    describe('GET /api/tasks', () => {
+        it('should hide deferred tasks from Today and Next', async () => {
+            await deferredTask();
+
+            const today = await agent.get('/api/tasks?type=today');
+            expect(today.body.tasks).toEqual([]);
+            expect(today.body.metrics.today_plan_tasks).toEqual([]);
+
+            const next = await agent.get('/api/tasks?type=next');
+            expect(next.body.tasks).toEqual([]);
+        });
+
+        it('should list deferred tasks in the Deferred view', async () => {
+            await Task.create({ name: 'Not deferred', user_id: user.id });
+            await deferredTask();
+
+            const response = await agent.get('/api/tasks?type=deferred');
+
+            expect(response.status).toBe(200);
+            expect(response.body.tasks.map((t) => t.name)).toEqual([
+                'Renew passport',
+            ]);
+        });
+    });
+
+    describe('TaskDeferralService.resurfaceDueTasks', () => {
+        it('should bring back tasks whose date has arrived', async () => {
+            await Task.update(
+                { defer_until: new Date(Date.now() - 60 * 1000) },
+                { where: { id: task.id } }
+            );
+            const later = await Task.create({
+                name: 'Later',
+                defer_until: new Date(Date.now() + 60 * 60 * 1000),
+                user_id: user.id,
+            });
+
+            const resurfaced = await TaskDeferralService.resurfaceDueTasks();
+
+            expect(resurfaced.map((t) => t.id)).toEqual([task.id]);
+            await task.reload();
+            await later.reload();
+            expect(task.defer_until).toBeNull();
+            expect(later.defer_until).not.toBeNull();
+
+            const event = await TaskEvent.findOne({
+                where: { task_id: task.id, event_type: 'resurfaced' },
+            });
+            expect(event.metadata).toMatchObject({ source: 'scheduler' });
+        });
+    });
+});
@@ -0,0 +1,226 @@
+const request = require('supertest');
+const app = require('../../app');
+const { Task, TaskEvent, User } = require('../../models');
+const { createTestUser } = require('../helpers/testUtils');
+
+describe('Task Dependencies Routes', () => {
+    let user, agent, taskA, taskB;
+
+    beforeEach(async () => {
+        user = await createTestUser({
+            email: 'test@example.com',
+        });
+
+        // Create authenticated agent
+        agent = request.agent(app);
+        await agent.post('/api/login').send({
+            email: 'test@example.com',
+            password: 'password123',
+        });
+
+        taskA = await Task.create({ name: 'Task A', user_id: user.id });
+        taskB = await Task.create({ name: 'Task B', user_id: user.id });
+    });
+
+    const addDependency = (taskId, dependsOnTaskId) =>
+        agent
+            .post(`/api/task/${taskId}/dependencies`)
+            .send({ depends_on_task_id: dependsOnTaskId });
+
+    describe('POST /api/task/:id/dependencies', () => {
+        it('should make a task blocked by another task', async () => {
+            const response = await addDependency(taskB.id, taskA.id);
+
+            expect(response.status).toBe(201);
+            expect(response.body.blocked).toBe(true);
+            expect(response.body.blocked_by.map((t) => t.id)).toEqual([
+                taskA.id,
+            ]);
+
+            const events = await TaskEvent.findAll({
+                where: { task_id: taskB.id, event_type: 'dependency_added' },
+            });
+            expect(events.length).toBe(1);
+        });
+
+        it('should not allow a task to depend on itself', async () => {
+            const response = await addDependency(taskA.id, taskA.id);
+
+            expect(response.status).toBe(400);
+            expect(response.body.error).toBe('A task cannot depend on itself.');
+        });
+
+        it('should reject duplicate dependencies', async () => {
+            await addDependency(taskB.id, taskA.id);
+            const response = await addDependency(taskB.id, taskA.id);
+
+            expect(response.status).toBe(400);
+            expect(response.body.error).toBe('This dependency already exists.');
+        });
+
+        it('should reject direct cycles', async () => {
+            await addDependency(taskB.id, taskA.id);
+            const response = await addDependency(taskA.id, taskB.id);
+
+            expect(response.status).toBe(400);
+            expect(response.body.error).toBe(
+                'This dependency would create a cycle.'
+            );
+        });
+
+        it('should reject transitive cycles', async () => {
+            const taskC = await Task.create({
+                name: 'Task C',
+                user_id: user.id,
+            });
+            await addDependency(taskB.id, taskA.id);
+            await addDependency(taskC.id, taskB.id);
+
+            const response = await addDependency(taskA.id, taskC.id);
+
+            expect(response.status).toBe(400);
+            expect(response.body.error).toBe(
+                'This dependency would create a cycle.'
+            );
+        });
+
+        it("should not allow depending on other user's tasks", async () => {
+            const bcrypt = require('bcrypt');
+            const otherUser = await User.create({
+                email: 'other@example.com',
+                password_digest: await bcrypt.hash('password123', 10),
+            });
+            const otherTask = await Task.create({
+                name: 'Other Task',
+                user_id: otherUser.id,
+            });
+
+            const response = await addDependency(taskA.id, otherTask.id);
+
+            expect(response.status).toBe(404);
+            expect(response.body.error).toBe('Dependency task not found.');
+        });
+
+        it('should require authentication', async () => {
+            const response = await request(app)
+                .post(`/api/task/${taskB.id}/dependencies`)
+                .send({ depends_on_task_id: taskA.id });
+
+            expect(response.status).toBe(401);
+            expect(response.body.error).toBe('Authentication required');
+        });
+    });
+
+    describe('GET /api/task/:id/dependencies', () => {
+        it('should list dependencies in both directions', async () => {
+            await addDependency(taskB.id, taskA.id);
+
+            const response = await agent.get(
+                `/api/task/${taskA.id}/dependencies`
+            );
+
+            expect(response.status).toBe(200);
+            expect(response.body.blocked).toBe(false);
+            expect(response.body.blocked_by).toEqual([]);
+            expect(response.body.blocking.map((t) => t.id)).toEqual([taskB.id]);
+        });
+    });
+
+    describe('DELETE /api/task/:id/dependencies/:dependsOnTaskId', () => {
+        it('should remove the dependency', async () => {
+            await addDependency(taskB.id, taskA.id);
+
+            const response = await agent.delete(
+                `/api/task/${taskB.id}/dependencies/${taskA.id}`
+            );
+
+            expect(response.status).toBe(200);
+            expect(response.body.blocked).toBe(false);
+            expect(response.body.blocked_by).toEqual([]);
+        });
+
+        it('should return 404 for a missing dependency', async () => {
+            const response = await agent.delete(
+                `/api/task/${taskB.id}/dependencies/${taskA.id}`
+            );
+
+            expect(response.status).toBe(404);
+            expect(response.body.error).toBe('Dependency not found.');
+        });
+    });
+
+    describe('blocked state', () => {
+        it('should include blocked state in the task list', async () => {
+            await addDependency(taskB.id, taskA.id);
+
+            const response = await agent.get('/api/tasks');
+
+            const blockedTask = response.body.tasks.find(
+                (t) => t.id === taskB.id
+            );
+            expect(blockedTask.blocked).toBe(true);
+            expect(blockedTask.blocked_by[0].name).toBe('Task A');
+        });
+
+        it('should unblock dependents when the blocker is completed', async () => {
+            await addDependency(taskB.id, taskA.id);
+
+            const response = await agent.patch(
+                `/api/task/${taskA.id}/toggle_completion`
+            );
+
+            expect(response.status).toBe(200);
+            expect(response.body.unblocked_task_ids).toEqual([taskB.id]);
+
+            const events = await TaskEvent.findAll({
+                where: { task_id: taskB.id, event_type: 'unblocked' },
+            });
+            expect(events.length).toBe(1);
+
+            const taskResponse = await agent.get(`/api/task/${taskB.id}`);
+            expect(taskResponse.body.blocked).toBe(false);
+        });
+
+        it('should stay blocked while other blockers are open', async () => {
+            const taskC = await Task.create({
+                name: 'Task C',
+                user_id: user.id,
+            });
+            await addDependency(taskB.id, taskA.id);
+            await addDependency(taskB.id, taskC.id);
+
+            await agent.patch(`/api/task/${taskA.id}`).send({ status: 'done' });
+
+            const events = await TaskEvent.findAll({
+                where: { task_id: taskB.id, event_type: 'unblocked' },
+            });
+            expect(events.length).toBe(0);
+        });
+
+        it('should exclude blocked tasks from suggested tasks', async () => {
+            await Task.create({ name: 'Task C', user_id: user.id });
+            await addDependency(taskB.id, taskA.id);
+
+            const response = await agent.get('/api/tasks?type=today');
+
+            expect(response.status).toBe(200);
+            const suggestedIds = response.body.metrics.suggested_tasks.map(
+                (t) => t.id
+            );
+            expect(suggestedIds).toContain(taskA.id);
+            expect(suggestedIds).not.toContain(taskB.id);
+        });
+
+        it('should remove dependencies when the blocker is deleted', async () => {
+            await addDependency(taskB.id, taskA.id);
+
+            await agent.delete(`/api/task/${taskA.id}`);
+
+            const response = await agent.get(
+                `/api/task/${taskB.id}/dependencies`
+            );
+            expect(response.body.blocked).toBe(false);
+            expect(response.body.blocked_by).toEqual([]);
+        });
+    });
+});
@@ -0,0 +1,197 @@
+const request = require('supertest');
+const app = require('../../app');
+const { Project, Task } = require('../../models');
+const { createTestUser } = require('../helpers/testUtils');
+
+describe('Task Order Routes', () => {
+    let user, agent, project, tasks;
+
+    beforeEach(async () => {
+        user = await createTestUser({ email: 'test@example.com' });
+        agent = request.agent(app);
+        await agent.post('/api/login').send({
+            email: 'test@example.com',
+            password: 'password123',
+        });
+
+        project = await Project.create({ name: 'Move', user_id: user.id });
+        tasks = [];
+        for (const name of ['Pack', 'Load', 'Drive', 'Unpack']) {
+            tasks.push(
+                await Task.create({
+                    name,
+                    project_id: project.id,
+                    today: true,
+                    user_id: user.id,
+                })
+            );
+        }
+    });
+
+    const move = (task, body) =>
+        agent.patch(`/api/task/${task.id}/position`).send(body);
+
+    const projectTaskNames = async () => {
+        const response = await agent.get(`/api/project/${project.id}`);
+        return response.body.Tasks.map((task) => task.name);
+    };
+
+    describe('PATCH /api/task/:id/position', () => {
+        it('should move a task within its project', async () => {
+            const [pack, load, drive, unpack] = tasks;
+
+            const response = await move(unpack, {
+                context: 'project',
+                after_id: pack.id,
+                before_id: load.id,
+            });
+
+            expect(response.status).toBe(200);
+            expect(await projectTaskNames()).toEqual([
+                'Pack',
+                'Unpack',
+                'Load',
+                'Drive',
+            ]);
+
+            await move(pack, {
+                context: 'project',
+                after_id: drive.id,
+                before_id: null,
+            }).expect(200);
+            expect(await projectTaskNames()).toEqual([
+                'Unpack',
+                'Load',
+                'Drive',
+                'Pack',
+            ]);
+        });
+
+        it('should only write the moved task once positions are set', async () => {
+            const [pack, load, drive, unpack] = tasks;
+            await move(unpack, {
+                context: 'project',
+                after_id: pack.id,
+                before_id: load.id,
+            }).expect(200);
+            const before = await Task.findAll({
+                where: { id: [pack.id, load.id, drive.id] },
+                order: [['id', 'ASC']],
+            });
+
+            await move(drive, {
+                context: 'project',
+                after_id: pack.id,
+                before_id: unpack.id,
+            }).expect(200);
+
+            const after = await Task.findAll({
+                where: { id: [pack.id, load.id] },
+                order: [['id', 'ASC']],
+            });
+            expect(after.map((task) => task.position)).toEqual([
+                before[0].position,
+                before[1].position,
+            ]);
+            await drive.reload();
+            expect(drive.position).toBeGreaterThan(before[0].position);
+            expect(drive.position).toBeLessThan(
+                (await Task.findByPk(unpack.id)).position
+            );
+        });
+
+        it('should order the today plan separately', async () => {
+            const [pack, , , unpack] = tasks;
+
+            await move(unpack, {
+                context: 'today',
+                after_id: null,
+                before_id: pack.id,
+            }).expect(200);
+
+            const response = await agent.get('/api/tasks?type=today');
+            expect(
+                response.body.metrics.today_plan_tasks.map((task) => task.name)
+            ).toEqual(['Unpack', 'Pack', 'Load', 'Drive']);
+            expect(await projectTaskNames()).toEqual([
+                'Pack',
+                'Load',
+                'Drive',
+                'Unpack',
+            ]);
+        });
+
+        it('should list tasks in manual order', async () => {
+            const [pack, , drive] = tasks;
+            await move(drive, {
+                context: 'project',
+                after_id: null,
+                before_id: pack.id,
+            }).expect(200);
+
+            const response = await agent.get('/api/tasks?order_by=manual:asc');
+            expect(response.status).toBe(200);
+            expect(response.body.tasks[0].name).toBe('Drive');
+        });
+
+        it('should keep the tasks of each project together in manual order', async () => {
+            const garden = await Project.create({
+                name: 'Garden',
+                user_id: user.id,
+            });
+            const mow = await Task.create({
+                name: 'Mow',
+                project_id: garden.id,
+                position: 1,
+                user_id: user.id,
+            });
+            const loose = await Task.create({
+                name: 'Call mom',
+                position: 1,
+                user_id: user.id,
+            });
+            await Task.update(
+                { position: 2 },
+                { where: { project_id: project.id } }
+            );
+
+            const response = await agent.get('/api/tasks?order_by=manual:asc');
+
+            expect(response.body.tasks.map((task) => task.id)).toEqual([
+                loose.id,
+                ...tasks.map((task) => task.id),
+                mow.id,
+            ]);
+        });
+
+        it('should reject neighbors from another list', async () => {
+            const other = await Task.create({
+                name: 'Elsewhere',
+                user_id: user.id,
+            });
+
+            const response = await move(tasks[0], {
+                context: 'project',
+                after_id: other.id,
+            });
+
+            expect(response.status).toBe(400);
+        });
+
+        it('should reject an unknown context', async () => {
+            const response = await move(tasks[0], { context: 'area' });
+            expect(response.status).toBe(400);
+        });
+
+        it('should return 404 for a task of another user', async () => {
+            const other = await createTestUser({ email: 'other@example.com' });
+            const theirs = await Task.create({
+                name: 'Theirs',
+                user_id: other.id,
+            });
+
+            const response = await move(theirs, { context: 'project' });
+            expect(response.status).toBe(404);
+        });
+    });
+});
@@ -0,0 +1,371 @@
+const request = require('supertest');
+const app = require('../../app');
+const { Task, TaskEvent, TaskReminder } = require('../../models');
+const TaskReminderService = require('../../services/taskReminderService');
+const TelegramPoller = require('../../services/telegramPoller');
+const taskScheduler = require('../../services/taskScheduler');
+const { createTestUser } = require('../helpers/testUtils');
+
+describe('Task Reminders', () => {
+    let user, agent, task;
+
+    beforeEach(async () => {
+        user = await createTestUser({ email: 'test@example.com' });
+        await user.update({
+            timezone: 'Europe/Athens',
+            telegram_bot_token: 'test-token',
+            telegram_chat_id: '123456789',
+        });
+        agent = request.agent(app);
+        await agent.post('/api/login').send({
+            email: 'test@example.com',
+            password: 'password123',
+        });
+
+        task = await Task.create({
+            name: 'Call the bank',
+            due_date: new Date('2030-03-10T00:00:00Z'),
+            due_time: '14:30',
+            user_id: user.id,
+        });
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    describe('POST /api/task/:id/reminders', () => {
+        it('should add several reminders to a task', async () => {
+            await agent
+                .post(`/api/task/${task.id}/reminders`)
+                .send({ remind_at: '2030-03-09T08:00:00.000Z' })
+                .expect(201);
+            const response = await agent
+                .post(`/api/task/${task.id}/reminders`)
+                .send({ minutes_before_due: 30 });
+
+            expect(response.status).toBe(201);
+            expect(response.body.minutes_before_due).toBe(30);
+            expect(response.body.remind_at).toBeNull();
+
+            const list = await agent.get(`/api/task/${task.id}/reminders`);
+            expect(list.status).toBe(200);
+            expect(list.body).toHaveLength(2);
+            expect(list.body[0].remind_at).toBe('2030-03-09T08:00:00.000Z');
+        });
+
+        it('should need exactly one of a time or an offset', async () => {
+            const response = await agent
+                .post(`/api/task/${task.id}/reminders`)
+                .send({
+                    remind_at: '2030-03-09T08:00:00.000Z',
+                    minutes_before_due: 30,
+                });
+
+            expect(response.status).toBe(400);
+            expect(response.body.error).toBe(
+                'A reminder needs either a time or minutes before the due date.'
+            );
+        });
+
+        it('should need a due date for a relative reminder', async () => {
+            await task.update({ due_date: null, due_time: null });
+
+            const response = await agent
+                .post(`/api/task/${task.id}/reminders`)
+                .send({ minutes_before_due: 30 });
+
+            expect(response.status).toBe(400);
+            expect(await TaskReminder.count()).toBe(0);
+        });
+
+        it('should limit relative reminders to a week before', async () => {
+            const response = await agent
+                .post(`/api/task/${task.id}/reminders`)
+                .send({ minutes_before_due: 7 * 24 * 60 + 1 });
+
+            expect(response.status).toBe(400);
+            expect(response.body.error).toBe(
+                'Reminders can be at most a week before the due date.'
+            );
+        });
+
+        it("should not add reminders to another user's task", async () => {
+            const other = await createTestUser({ email: 'other@example.com' });
+            const theirs = await Task.create({
+                name: 'Theirs',
+                user_id: other.id,
+            });
+
+            const response = await agent
+                .post(`/api/task/${theirs.id}/reminders`)
+                .send({ minutes_before_due: 0 });
+
+            expect(response.status).toBe(404);
+            expect(await TaskReminder.count()).toBe(0);
+        });
+    });
+
+    describe('DELETE /api/task-reminder/:id', () => {
+        it('should delete a reminder', async () => {
+            const reminder = await TaskReminderService.createReminder(task, {
+                minutes_before_due: 10,
+            });
+
+            await agent.delete(`/api/task-reminder/${reminder.id}`).expect(204);
+            expect(await TaskReminder.findByPk(reminder.id)).toBeNull();
+        });
+    });
+
+    describe('PATCH /api/task/:id', () => {
+        let relative, absolute, sentAt;
+
+        beforeEach(async () => {
+            sentAt = new Date('2030-03-10T12:00:00Z');
+            relative = await TaskReminderService.createReminder(task, {
+                minutes_before_due: 30,
+            });
+            absolute = await TaskReminderService.createReminder(task, {
+                remind_at: '2030-03-09T08:00:00.000Z',
+            });
+            await relative.update({ sent_at: sentAt });
+            await absolute.update({ sent_at: sentAt });
+        });
+
+        it('should re-arm relative reminders when the due time moves', async () => {
+            await agent
+                .patch(`/api/task/${task.id}`)
+                .send({
+                    name: 'Call the bank',
+                    due_date: '2030-03-10',
+                    due_time: '16:00',
+                })
+                .expect(200);
+
+            expect((await relative.reload()).sent_at).toBeNull();
+            expect((await absolute.reload()).sent_at).toEqual(sentAt);
+        });
+
+        it('should leave reminders alone when the due time stays', async () => {
+            await agent
+                .patch(`/api/task/${task.id}`)
+                .send({ name: 'Call the bank today', due_date: '2030-03-10' })
+                .expect(200);
+
+            expect((await relative.reload()).sent_at).toEqual(sentAt);
+        });
+    });
+
+    describe('fireTime', () => {
+        it("should count back from the due time in the user's timezone", () => {
+            const reminder = TaskReminder.build({ minutes_before_due: 30 });
+
+            expect(
+                TaskReminderService.fireTime(
+                    reminder,
+                    task,
+                    'Europe/Athens'
+                ).toISOString()
+            ).toBe('2030-03-10T12:00:00.000Z');
+        });
+
+        it('should count back from the morning for tasks due all day', () => {
+            const reminder = TaskReminder.build({ minutes_before_due: 60 });
+            task.due_time = null;
+
+            expect(
+                TaskReminderService.fireTime(
+                    reminder,
+                    task,
+                    'Europe/Athens'
+                ).toISOString()
+            ).toBe('2030-03-10T06:00:00.000Z');
+        });
+    });
+
+    describe('processTaskReminders', () => {
+        let sendMessage;
+
+        beforeEach(() => {
+            sendMessage = jest
+                .spyOn(TelegramPoller, 'sendTelegramMessage')
+                .mockResolvedValue({ ok: true });
+        });
+
+        it('should send reminders that are due once, with buttons', async () => {
+            const missed = await TaskReminderService.createReminder(task, {
+                remind_at: '2030-03-01T08:00:00.000Z',
+            });
+            await TaskReminderService.createReminder(task, {
+                remind_at: '2030-03-09T08:00:00.000Z',
+            });
+            const now = new Date('2030-03-05T00:00:00Z');
+
+            const sent = await taskScheduler.processTaskReminders(now);
+
+            expect(sent.map((reminder) => reminder.id)).toEqual([missed.id]);
+            expect(sendMessage).toHaveBeenCalledWith(
+                'test-token',
+                '123456789',
+                '⏰ Reminder: "Call the bank"\n📅 Due: 2030-03-10 14:30',
+                null,
+                TaskReminderService.replyMarkup(missed)
+            );
+
+            await taskScheduler.processTaskReminders(now);
+            expect(sendMessage).toHaveBeenCalledTimes(1);
+        });
+
+        it('should wait for snoozed reminders to come due', async () => {
+            const snoozed = await TaskReminderService.createReminder(task, {
+                remind_at: '2030-03-01T08:00:00.000Z',
+            });
+            await snoozed.update({
+                snoozed_until: new Date('2030-03-05T09:00:00Z'),
+            });
+
+            expect(
+                await TaskReminderService.findDueReminders(
+                    new Date('2030-03-05T08:00:00Z')
+                )
+            ).toEqual([]);
+            const due = await TaskReminderService.findDueReminders(
+                new Date('2030-03-05T09:00:00Z')
+            );
+            expect(due.map((reminder) => reminder.id)).toEqual([snoozed.id]);
+        });
+
+        it('should skip finished tasks and users without Telegram', async () => {
+            await TaskReminderService.createReminder(task, {
+                minutes_before_due: 0,
+            });
+            const other = await createTestUser({ email: 'other@example.com' });
+            const theirs = await Task.create({
+                name: 'Theirs',
+                due_date: new Date('2030-03-10T00:00:00Z'),
+                user_id: other.id,
+            });
+            await TaskReminderService.createReminder(theirs, {
+                minutes_before_due: 0,
+            });
+            await task.update({ status: Task.STATUS.DONE });
+
+            await taskScheduler.processTaskReminders(
+                new Date('2030-03-11T00:00:00Z')
+            );
+
+            expect(sendMessage).not.toHaveBeenCalled();
+        });
+
+        it('should try again when sending fails', async () => {
+            const reminder = await TaskReminderService.createReminder(task, {
+                minutes_before_due: 0,
+            });
+            sendMessage.mockRejectedValueOnce(new Error('Network down'));
+            jest.spyOn(console, 'error').mockImplementation(() => {});
+            const now = new Date('2030-03-11T00:00:00Z');
+
+            await taskScheduler.processTaskReminders(now);
+            expect((await reminder.reload()).sent_at).toBeNull();
+
+            await taskScheduler.processTaskReminders(now);
+            expect(sendMessage).toHaveBeenCalledTimes(1);
+
+            const later = new Date('2030-03-11T00:01:00Z');
+            await taskScheduler.processTaskReminders(later);
+            expect((await reminder.reload()).sent_at).toEqual(later);
+            expect(reminder.attempts).toBe(0);
+        });
+
+        it('should give up after repeated failures', async () => {
+            const reminder = await TaskReminderService.createReminder(task, {
+                minutes_before_due: 0,
+            });
+            sendMessage.mockRejectedValue(new Error('Bot blocked'));
+            jest.spyOn(console, 'error').mockImplementation(() => {});
+            // A day apart, well past every retry delay
+            for (let day = 11; day < 19; day++) {
+                await taskScheduler.processTaskReminders(
+                    new Date(`2030-03-${day}T00:00:00Z`)
+                );
+            }
+
+            expect(sendMessage).toHaveBeenCalledTimes(6);
+            expect((await reminder.reload()).sent_at).toBeNull();
+        });
+
+        it('should not send a reminder twice from overlapping runs', async () => {
+            await TaskReminderService.createReminder(task, {
+                minutes_before_due: 0,
+            });
+            const now = new Date('2030-03-11T00:00:00Z');
+
+            await Promise.all([
+                taskScheduler.processTaskReminders(now),
+                taskScheduler.processTaskReminders(now),
+            ]);
+
+            expect(sendMessage).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe('handleCallback', () => {
+        let reminder;
+
+        beforeEach(async () => {
+            reminder = await TaskReminderService.createReminder(task, {
+                minutes_before_due: 0,
+            });
+            await reminder.update({ sent_at: new Date() });
+        });
+
+        it('should snooze the reminder for an hour', async () => {
+            const now = new Date('2030-03-10T12:30:00Z');
+
+            const answer = await TaskReminderService.handleCallback(
+                user,
+                `reminder:${reminder.id}:snooze`,
+                now
+            );
+
+            expect(answer).toBe('💤 Snoozed "Call the bank" for an hour');
+            await reminder.reload();
+            expect(reminder.sent_at).toBeNull();
+            expect(reminder.snoozed_until.toISOString()).toBe(
+                '2030-03-10T13:30:00.000Z'
+            );
+        });
+
+        it('should complete the task', async () => {
+            const answer = await TaskReminderService.handleCallback(
+                user,
+                `reminder:${reminder.id}:done`
+            );
+
+            expect(answer).toBe('✅ Completed "Call the bank"');
+            await task.reload();
+            expect(task.status).toBe(Task.STATUS.DONE);
+            expect(task.completed_at).not.toBeNull();
+
+            const event = await TaskEvent.findOne({
+                where: { task_id: task.id, event_type: 'completed' },
+            });
+            expect(event.metadata.source).toBe('telegram');
+        });
+
+        it("should ignore other users' reminders and other buttons", async () => {
+            const other = await createTestUser({ email: 'other@example.com' });
+
+            expect(
+                await TaskReminderService.handleCallback(
+                    other,
+                    `reminder:${reminder.id}:done`
+                )
+            ).toBe('This reminder no longer exists.');
+            expect(
+                await TaskReminderService.handleCallback(user, 'something')
+            ).toBeNull();
+            expect((await task.reload()).status).toBe(Task.STATUS.NOT_STARTED);
+        });
+    });
+});
@@ -0,0 +1,103 @@
+const request = require('supertest');
+const app = require('../../app');
+const { Project, TaskTemplate } = require('../../models');
+const { createTestUser } = require('../helpers/testUtils');
+
+describe('Task Template Routes', () => {
+    let user, agent, project;
+
+    beforeEach(async () => {
+        user = await createTestUser({ email: 'test@example.com' });
+        agent = request.agent(app);
+        await agent.post('/api/login').send({
+            email: 'test@example.com',
+            password: 'password123',
+        });
+
+        project = await Project.create({ name: 'Office', user_id: user.id });
+    });
+
+    const createTemplate = (data = {}) =>
+        agent.post('/api/task-templates').send({
+            name: 'Expense claim',
+            task_name: 'Submit expenses',
+            note: 'Attach the receipts',
+            priority: 'medium',
+            tags: ['finance', ' finance ', 'admin'],
+            due_offset_days: 3,
+            project_id: project.id,
+            ...data,
+        });
+
+    describe('POST /api/task-templates', () => {
+        it('should create a template with default tags and due date', async () => {
+            const response = await createTemplate();
+
+            expect(response.status).toBe(201);
+            expect(response.body).toMatchObject({
+                name: 'Expense claim',
+                task_name: 'Submit expenses',
+                note: 'Attach the receipts',
+                priority: 1,
+                tags: ['finance', 'admin'],
+                due_offset_days: 3,
+                project_id: project.id,
+                project_name: 'Office',
+            });
+        });
+
+        it('should reject a fractional due date offset', async () => {
+            const response = await createTemplate({ due_offset_days: 1.5 });
+
+            expect(response.status).toBe(400);
+            expect(response.body.error).toBe(
+                'Due date offset must be a whole number of days.'
+            );
+        });
+
+        it("should not file tasks under another user's project", async () => {
+            const other = await createTestUser({ email: 'other@example.com' });
+            const theirs = await Project.create({
+                name: 'Theirs',
+                user_id: other.id,
+            });
+
+            const response = await createTemplate({ project_id: theirs.id });
+
+            expect(response.status).toBe(400);
+            expect(response.body.error).toBe('Project not found.');
+        });
+    });
+
+    describe('GET /api/task-templates', () => {
+        it('should leave out a trashed project', async () => {
+            await createTemplate();
+            await agent.delete(`/api/project/${project.id}`).expect(200);
+
+            const response = await agent.get('/api/task-templates');
+
+            expect(response.status).toBe(200);
+            expect(response.body).toHaveLength(1);
+            expect(response.body[0].project_id).toBeNull();
+            expect(response.body[0].project_name).toBeNull();
+        });
+    });
+
+    describe('DELETE /api/task-template/:id', () => {
+        it("should delete only the user's templates", async () => {
+            const template = (await createTemplate()).body;
+            const other = await createTestUser({ email: 'other@example.com' });
+            const theirs = await TaskTemplate.create({
+                name: 'Theirs',
+                task_name: 'Theirs',
+                user_id: other.id,
+            });
+
+            await agent.delete(`/api/task-template/${theirs.id}`).expect(404);
+            await agent.delete(`/api/task-template/${template.id}`).expect(204);
+
+            const list = await agent.get('/api/task-templates');
+            expect(list.body).toEqual([]);
+        });
+    });
+});
@@ -0,0 +1,198 @@
+const request = require('supertest');
+const app = require('../../app');
+const { Project, Tag, Task, TaskEvent } = require('../../models');
+const { createTestUser } = require('../helpers/testUtils');
+
+describe('Bulk Task Routes', () => {
+    let user, agent, first, second;
+
+    beforeEach(async () => {
+        user = await createTestUser({ email: 'test@example.com' });
+        agent = request.agent(app);
+        await agent.post('/api/login').send({
+            email: 'test@example.com',
+            password: 'password123',
+        });
+
+        first = await Task.create({
+            name: 'Answer email',
+            priority: Task.PRIORITY.LOW,
+            due_date: new Date('2025-03-10T00:00:00Z'),
+            user_id: user.id,
+        });
+        second = await Task.create({
+            name: 'Book flights',
+            priority: Task.PRIORITY.LOW,
+            user_id: user.id,
+        });
+    });
+
+    describe('PATCH /api/tasks/bulk', () => {
+        it('should apply the operations to every task', async () => {
+            const project = await Project.create({
+                name: 'Travel',
+                user_id: user.id,
+            });
+
+            const response = await agent.patch('/api/tasks/bulk').send({
+                ids: [first.id, second.id],
+                operations: {
+                    status: 'done',
+                    priority: 'high',
+                    project_id: project.id,
+                    today: true,
+                    due_date_shift_days: 2,
+                },
+            });
+
+            expect(response.status).toBe(200);
+            expect(response.body.tasks).toHaveLength(2);
+            expect(response.body.undo_token).toEqual(expect.any(String));
+
+            await first.reload();
+            expect(first.status).toBe(Task.STATUS.DONE);
+            expect(first.completed_at).not.toBeNull();
+            expect(first.priority).toBe(Task.PRIORITY.HIGH);
+            expect(first.project_id).toBe(project.id);
+            expect(first.today).toBe(true);
+            expect(first.due_date.toISOString()).toBe(
+                '2025-03-12T00:00:00.000Z'
+            );
+
+            await second.reload();
+            expect(second.due_date).toBeNull();
+            expect(second.project_id).toBe(project.id);
+
+            const events = await TaskEvent.findAll({
+                where: { task_id: first.id },
+            });
+            expect(events.map((event) => event.field_name).sort()).toEqual([
+                'due_date',
+                'priority',
+                'project_id',
+                'status',
+                'today',
+            ]);
+            expect(events[0].metadata.trigger).toBe('bulk');
+        });
+
+        it('should add and remove tags', async () => {
+            const errand = await Tag.create({
+                name: 'errand',
+                user_id: user.id,
+            });
+            await first.setTags([errand]);
+
+            await agent
+                .patch('/api/tasks/bulk')
+                .send({
+                    ids: [first.id, second.id],
+                    operations: {
+                        add_tags: ['travel'],
+                        remove_tags: ['errand'],
+                    },
+                })
+                .expect(200);
+
+            const tasks = await Task.findAll({
+                where: { id: [first.id, second.id] },
+                include: [Tag],
+            });
+            tasks.forEach((task) => {
+                expect(task.Tags.map((tag) => tag.name)).toEqual(['travel']);
+            });
+            expect(
+                await Tag.count({ where: { name: 'travel', user_id: user.id } })
+            ).toBe(1);
+        });
+
+        it('should move the tasks to the trash', async () => {
+            const response = await agent.patch('/api/tasks/bulk').send({
+                ids: [first.id, second.id],
+                operations: { delete: true },
+            });
+
+            expect(response.status).toBe(200);
+            expect(response.body.deleted_task_ids).toEqual([
+                first.id,
+                second.id,
+            ]);
+            expect(await Task.count({ where: { user_id: user.id } })).toBe(0);
+        });
+
+        it('should undo the whole change at once', async () => {
+            const response = await agent.patch('/api/tasks/bulk').send({
+                ids: [first.id, second.id],
+                operations: { priority: 'high', add_tags: ['later'] },
+            });
+
+            await agent
+                .post(`/api/undo/${response.body.undo_token}`)
+                .expect(200);
+
+            const tasks = await Task.findAll({
+                where: { id: [first.id, second.id] },
+                include: [Tag],
+            });
+            tasks.forEach((task) => {
+                expect(task.priority).toBe(Task.PRIORITY.LOW);
+                expect(task.Tags).toEqual([]);
+            });
+        });
+
+        it('should change nothing when a task is not found', async () => {
+            const other = await createTestUser({ email: 'other@example.com' });
+            const theirs = await Task.create({
+                name: 'Theirs',
+                user_id: other.id,
+            });
+
+            const response = await agent.patch('/api/tasks/bulk').send({
+                ids: [first.id, theirs.id],
+                operations: { status: 'done' },
+            });
+
+            expect(response.status).toBe(404);
+            await first.reload();
+            expect(first.status).toBe(Task.STATUS.NOT_STARTED);
+        });
+
+        it('should reject invalid requests', async () => {
+            const cases = [
+                [{ operations: { today: true } }, 'A list of task ids'],
+                [{ ids: [first.id], operations: {} }, 'Operations'],
+                [{ ids: [first.id], operations: { name: 'x' } }, 'Unknown'],
+                [
+                    { ids: [first.id], operations: { status: 'someday' } },
+                    'Invalid status',
+                ],
+                [
+                    { ids: [first.id], operations: { project_id: 9999 } },
+                    'Invalid project',
+                ],
+                [
+                    {
+                        ids: [first.id],
+                        operations: { delete: true, today: true },
+                    },
+                    'Delete cannot',
+                ],
+            ];
+
+            for (const [body, error] of cases) {
+                const response = await agent
+                    .patch('/api/tasks/bulk')
+                    .send(body);
+                expect(response.status).toBe(400);
+                expect(response.body.error).toContain(error);
+            }
+        });
+
+        it('should require authentication', async () => {
+            const response = await request(app)
+                .patch('/api/tasks/bulk')
+                .send({ ids: [first.id], operations: { today: true } });
+            expect(response.status).toBe(401);
+        });
+    });
+});
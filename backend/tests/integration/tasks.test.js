@@ -1,6 +1,6 @@
 const request = require('supertest');
 const app = require('../../app');
-const { Task, User } = require('../../models');
+const { Task, Tag, User } = require('../../models');
 const { createTestUser } = require('../helpers/testUtils');
 
 describe('Tasks Routes', () => {
@@ -244,6 +244,175 @@ describe('Tasks Routes', () => {
         });
     });
 
+    describe('POST /api/task/:id/duplicate', () => {
+        let task;
+
+        beforeEach(async () => {
+            task = await Task.create({
+                name: 'Weekly report',
+                note: 'Use the usual spreadsheet',
+                priority: Task.PRIORITY.HIGH,
+                status: Task.STATUS.DONE,
+                recurrence_type: 'weekly',
+                recurrence_weekday: 5,
+                user_id: user.id,
+            });
+            await task.setTags([
+                await Tag.create({ name: 'work', user_id: user.id }),
+            ]);
+            await Task.create({
+                name: 'Collect numbers',
+                parent_task_id: task.id,
+                user_id: user.id,
+            });
+        });
+
+        it('should copy the task as a new task', async () => {
+            const response = await agent
+                .post(`/api/task/${task.id}/duplicate`)
+                .send({});
+
+            expect(response.status).toBe(201);
+            expect(response.body.id).not.toBe(task.id);
+            expect(response.body).toMatchObject({
+                name: 'Weekly report',
+                note: 'Use the usual spreadsheet',
+                priority: Task.PRIORITY.HIGH,
+                status: Task.STATUS.NOT_STARTED,
+                recurrence_type: 'weekly',
+                recurrence_weekday: 5,
+            });
+            expect(response.body.tags.map((t) => t.name)).toEqual(['work']);
+            expect(response.body.undo_token).toBeDefined();
+            expect(
+                await Task.count({
+                    where: { parent_task_id: response.body.id },
+                })
+            ).toBe(0);
+        });
+
+        it('should copy the subtasks when asked to', async () => {
+            const response = await agent
+                .post(`/api/task/${task.id}/duplicate`)
+                .send({ include_subtasks: true });
+
+            expect(response.status).toBe(201);
+            const subtasks = await Task.findAll({
+                where: { parent_task_id: response.body.id },
+            });
+            expect(subtasks.map((subtask) => subtask.name)).toEqual([
+                'Collect numbers',
+            ]);
+            expect(await Task.count({ where: { user_id: user.id } })).toBe(4);
+        });
+
+        it("should not duplicate another user's task", async () => {
+            const otherUser = await createTestUser({
+                email: 'other@example.com',
+            });
+            const otherTask = await Task.create({
+                name: 'Theirs',
+                user_id: otherUser.id,
+            });
+
+            const response = await agent
+                .post(`/api/task/${otherTask.id}/duplicate`)
+                .send({});
+
+            expect(response.status).toBe(404);
+            expect(response.body.error).toBe('Task not found.');
+        });
+    });
+
+    describe('Due times', () => {
+        beforeEach(async () => {
+            await user.update({ timezone: 'America/New_York' });
+        });
+
+        it("should place a due time in the user's timezone", async () => {
+            const response = await agent.post('/api/task').send({
+                name: 'Call the bank',
+                due_date: '2025-07-01',
+                due_time: '15:00',
+            });
+
+            expect(response.status).toBe(201);
+            expect(response.body.due_date).toBe('2025-07-01');
+            expect(response.body.due_time).toBe('15:00');
+            expect(response.body.due_at).toBe('2025-07-01T19:00:00.000Z');
+        });
+
+        it('should keep all-day tasks without a time', async () => {
+            const response = await agent.post('/api/task').send({
+                name: 'Pay rent',
+                due_date: '2025-07-01',
+            });
+
+            expect(response.body.due_date).toBe('2025-07-01');
+            expect(response.body.due_time).toBeNull();
+            expect(response.body.due_at).toBeNull();
+        });
+
+        it('should reject an invalid time', async () => {
+            const response = await agent.post('/api/task').send({
+                name: 'Call the bank',
+                due_date: '2025-07-01',
+                due_time: '25:00',
+            });
+
+            expect(response.status).toBe(400);
+            expect(response.body.details).toEqual([
+                'Due time must be a HH:mm time.',
+            ]);
+        });
+
+        it('should keep the time when the date moves and drop it with the date', async () => {
+            const task = await Task.create({
+                name: 'Call the bank',
+                due_date: new Date('2025-07-01T00:00:00Z'),
+                due_time: '15:00',
+                user_id: user.id,
+            });
+
+            const moved = await agent
+                .patch(`/api/task/${task.id}`)
+                .send({ name: task.name, due_date: '2025-07-02' });
+            expect(moved.body.due_time).toBe('15:00');
+            expect(moved.body.due_at).toBe('2025-07-02T19:00:00.000Z');
+
+            const cleared = await agent
+                .patch(`/api/task/${task.id}`)
+                .send({ name: task.name, due_date: null });
+            expect(cleared.body.due_time).toBeNull();
+        });
+
+        it('should sort timed tasks by time after all-day ones', async () => {
+            const day = new Date('2025-07-01T00:00:00Z');
+            for (const [name, due_time] of [
+                ['Evening call', '18:30'],
+                ['All day', null],
+                ['Morning call', '09:00'],
+            ]) {
+                await Task.create({
+                    name,
+                    due_date: day,
+                    due_time,
+                    user_id: user.id,
+                });
+            }
+
+            const response = await agent.get(
+                '/api/tasks?order_by=due_date:asc'
+            );
+
+            expect(response.body.tasks.map((task) => task.name)).toEqual([
+                'All day',
+                'Morning call',
+                'Evening call',
+            ]);
+        });
+    });
+
     describe('Task with tags', () => {
         it('should create task with tags', async () => {
             const taskData = {
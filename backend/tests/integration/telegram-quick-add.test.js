@@ -0,0 +1,61 @@
+const { EventEmitter } = require('events');
+const https = require('https');
+const { Task, TaskEvent } = require('../../models');
+const telegramPoller = require('../../services/telegramPoller');
+const { createTestUser } = require('../helpers/testUtils');
+
+describe('Telegram quick add', () => {
+    let user;
+
+    beforeEach(async () => {
+        user = await createTestUser({ email: 'test@example.com' });
+        await user.update({
+            telegram_bot_token: 'test-token',
+            telegram_chat_id: '123456789',
+        });
+
+        // Answer every Telegram API call with { ok: true }
+        jest.spyOn(https, 'request').mockImplementation(
+            (url, options, callback) => {
+                const response = new EventEmitter();
+                const req = new EventEmitter();
+                req.write = jest.fn();
+                req.end = () => {
+                    callback(response);
+                    response.emit('data', JSON.stringify({ ok: true }));
+                    response.emit('end');
+                };
+                return req;
+            }
+        );
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('should create the task once when an update is read twice', async () => {
+        const update = {
+            update_id: 100,
+            message: {
+                text: 'Pay rent tomorrow !high',
+                message_id: 7,
+                chat: { id: 123456789 },
+            },
+        };
+
+        await telegramPoller._processMessage(user, update);
+        await telegramPoller._processMessage(user, update);
+
+        const tasks = await Task.findAll({ where: { user_id: user.id } });
+        expect(tasks).toHaveLength(1);
+        expect(tasks[0].name).toBe('Pay rent');
+        expect(
+            await TaskEvent.count({
+                where: { task_id: tasks[0].id, event_type: 'created' },
+            })
+        ).toBe(1);
+        expect(https.request).toHaveBeenCalledTimes(2);
+    });
+});
@@ -0,0 +1,171 @@
+const request = require('supertest');
+const app = require('../../app');
+const { Project, Task, Tag } = require('../../models');
+const { createTestUser } = require('../helpers/testUtils');
+
+describe('todo.txt Routes', () => {
+    let user, agent;
+
+    beforeEach(async () => {
+        user = await createTestUser({ email: 'test@example.com' });
+        agent = request.agent(app);
+        await agent.post('/api/login').send({
+            email: 'test@example.com',
+            password: 'password123',
+        });
+    });
+
+    describe('GET /api/export/todotxt', () => {
+        it('should write one line per task with priority, project and tags', async () => {
+            const project = await Project.create({
+                name: 'Home Repairs',
+                user_id: user.id,
+            });
+            const phone = await Tag.create({ name: 'phone', user_id: user.id });
+            const task = await Task.create({
+                name: 'Call the plumber',
+                priority: Task.PRIORITY.HIGH,
+                project_id: project.id,
+                due_date: new Date('2025-07-01T00:00:00Z'),
+                recurrence_type: 'weekly',
+                recurrence_interval: 2,
+                created_at: new Date('2025-06-30T10:00:00Z'),
+                user_id: user.id,
+            });
+            await task.setTags([phone]);
+            await Task.create({
+                name: 'Pay rent',
+                priority: Task.PRIORITY.MEDIUM,
+                status: Task.STATUS.DONE,
+                completed_at: new Date('2025-07-02T09:00:00Z'),
+                created_at: new Date('2025-06-28T09:00:00Z'),
+                user_id: user.id,
+            });
+            await Task.create({
+                name: 'Old task',
+                status: Task.STATUS.ARCHIVED,
+                user_id: user.id,
+            });
+
+            const response = await agent.get('/api/export/todotxt');
+
+            expect(response.status).toBe(200);
+            expect(response.headers['content-type']).toMatch(/^text\/plain/);
+            expect(response.headers['content-disposition']).toBe(
+                'attachment; filename="todo.txt"'
+            );
+            expect(response.text).toBe(
+                '(A) 2025-06-30 Call the plumber +Home_Repairs @phone due:2025-07-01 rec:+2w\n' +
+                    'x 2025-07-02 2025-06-28 Pay rent pri:B\n'
+            );
+        });
+
+        it('should require authentication', async () => {
+            const response = await request(app).get('/api/export/todotxt');
+            expect(response.status).toBe(401);
+        });
+    });
+
+    describe('POST /api/import/todotxt', () => {
+        const importText = (text, query = '') =>
+            agent
+                .post(`/api/import/todotxt${query}`)
+                .set('Content-Type', 'text/plain')
+                .send(text);
+
+        it('should map projects by name and contexts onto tags', async () => {
+            const project = await Project.create({
+                name: 'Home Repairs',
+                user_id: user.id,
+            });
+
+            const response = await importText(
+                [
+                    '(A) 2025-06-30 Call the plumber +Home_Repairs @phone @errand due:2025-07-01',
+                    '',
+                    'x 2025-07-02 2025-06-28 Pay rent +Finances pri:B',
+                    'Water plants due:2025-07-04 rec:1w',
+                ].join('\n')
+            );
+
+            expect(response.status).toBe(201);
+            expect(response.body).toEqual({
+                dry_run: false,
+                created: { projects: 1, tags: 2, tasks: 3 },
+                warnings: [],
+            });
+
+            const plumber = await Task.findOne({
+                where: { name: 'Call the plumber', user_id: user.id },
+                include: [{ model: Tag }],
+            });
+            expect(plumber.priority).toBe(Task.PRIORITY.HIGH);
+            expect(plumber.project_id).toBe(project.id);
+            expect(plumber.Tags.map((tag) => tag.name).sort()).toEqual([
+                'errand',
+                'phone',
+            ]);
+            expect(plumber.due_date.toISOString()).toBe(
+                '2025-07-01T00:00:00.000Z'
+            );
+
+            const rent = await Task.findOne({
+                where: { name: 'Pay rent', user_id: user.id },
+                include: [{ model: Project }],
+            });
+            expect(rent.status).toBe(Task.STATUS.DONE);
+            expect(rent.priority).toBe(Task.PRIORITY.MEDIUM);
+            expect(rent.completed_at.toISOString()).toBe(
+                '2025-07-02T00:00:00.000Z'
+            );
+            expect(rent.Project.name).toBe('Finances');
+
+            const plants = await Task.findOne({
+                where: { name: 'Water plants', user_id: user.id },
+            });
+            expect(plants.recurrence_type).toBe('weekly');
+            expect(plants.recurrence_interval).toBe(1);
+            expect(plants.completion_based).toBe(true);
+            // 2025-07-04 is a Friday
+            expect(plants.recurrence_weekday).toBe(5);
+        });
+
+        it('should report without saving on a dry run', async () => {
+            const response = await importText(
+                'Plan trip +Travel rec:1y\n',
+                '?dry_run=true'
+            );
+
+            expect(response.status).toBe(200);
+            expect(response.body.dry_run).toBe(true);
+            expect(response.body.created).toEqual({
+                projects: 1,
+                tags: 0,
+                tasks: 1,
+            });
+            expect(response.body.warnings).toEqual([
+                'Line 1: rec:1y has no equivalent; imported without repeating',
+            ]);
+            expect(await Task.count({ where: { user_id: user.id } })).toBe(0);
+            expect(await Project.count({ where: { user_id: user.id } })).toBe(
+                0
+            );
+        });
+
+        it('should round-trip an export', async () => {
+            await importText(
+                '(B) Renew passport +Admin @errand due:2025-09-01 rec:+1m\n'
+            );
+            const response = await agent.get('/api/export/todotxt');
+
+            expect(response.text).toMatch(
+                /^\(B\) \d{4}-\d{2}-\d{2} Renew passport \+Admin @errand due:2025-09-01 rec:\+1m\n$/
+            );
+        });
+
+        it('should reject an empty body', async () => {
+            const response = await importText('');
+            expect(response.status).toBe(400);
+        });
+    });
+});
@@ -0,0 +1,280 @@
+const request = require('supertest');
+const app = require('../../app');
+const {
+    Area,
+    InboxItem,
+    Note,
+    Project,
+    Task,
+    TaskEvent,
+} = require('../../models');
+const trashService = require('../../services/trashService');
+const TaskDependencyService = require('../../services/taskDependencyService');
+const { createTestUser } = require('../helpers/testUtils');
+
+describe('Trash Routes', () => {
+    let user, agent;
+
+    beforeEach(async () => {
+        user = await createTestUser({ email: 'test@example.com' });
+        agent = request.agent(app);
+        await agent.post('/api/login').send({
+            email: 'test@example.com',
+            password: 'password123',
+        });
+    });
+
+    const findAny = (model, id) => model.findByPk(id, { paranoid: false });
+
+    describe('deleting a task', () => {
+        let task, subtask;
+
+        beforeEach(async () => {
+            task = await Task.create({
+                name: 'Renew passport',
+                user_id: user.id,
+            });
+            subtask = await Task.create({
+                name: 'Book photo',
+                parent_task_id: task.id,
+                user_id: user.id,
+            });
+            await agent.delete(`/api/task/${task.id}`).expect(200);
+        });
+
+        it('should move the task and its subtasks to the trash', async () => {
+            expect(await Task.findByPk(task.id)).toBeNull();
+            expect(await Task.findByPk(subtask.id)).toBeNull();
+            expect((await findAny(Task, subtask.id)).deleted_at).not.toBeNull();
+
+            const event = await TaskEvent.findOne({
+                where: { task_id: task.id, event_type: 'deleted' },
+            });
+            expect(event).not.toBeNull();
+
+            const response = await agent.get('/api/trash');
+            expect(response.status).toBe(200);
+            expect(response.body.retention_days).toBe(30);
+            expect(response.body.items).toHaveLength(1);
+            expect(response.body.items[0]).toMatchObject({
+                type: 'task',
+                id: task.id,
+                name: 'Renew passport',
+                contents: { tasks: 1, notes: 0 },
+            });
+            expect(
+                new Date(response.body.items[0].purge_at) -
+                    new Date(response.body.items[0].deleted_at)
+            ).toBe(30 * 24 * 60 * 60 * 1000);
+        });
+
+        it('should hide the task from search', async () => {
+            const response = await agent.get('/api/search?q=passport');
+            expect(response.body.results.tasks).toEqual([]);
+        });
+
+        it('should restore the task with its subtasks', async () => {
+            const response = await agent.post(
+                `/api/trash/task/${task.id}/restore`
+            );
+
+            expect(response.status).toBe(200);
+            expect(response.body.item.id).toBe(task.id);
+            expect(response.body.item.deleted_at).toBeNull();
+            expect(await Task.findByPk(subtask.id)).not.toBeNull();
+
+            const event = await TaskEvent.findOne({
+                where: { task_id: task.id, event_type: 'restored' },
+            });
+            expect(event).not.toBeNull();
+
+            const search = await agent.get('/api/search?q=passport');
+            expect(search.body.results.tasks[0].name).toBe('Renew passport');
+            expect((await agent.get('/api/trash')).body.items).toEqual([]);
+        });
+
+        it('should purge the task for good', async () => {
+            const response = await agent.delete(`/api/trash/task/${task.id}`);
+
+            expect(response.status).toBe(200);
+            expect(await findAny(Task, task.id)).toBeNull();
+            expect(await findAny(Task, subtask.id)).toBeNull();
+            expect(await TaskEvent.count({ where: { task_id: task.id } })).toBe(
+                0
+            );
+        });
+    });
+
+    describe('deleting a project', () => {
+        let project, task, note, earlierTask;
+
+        beforeEach(async () => {
+            project = await Project.create({
+                name: 'Garden',
+                user_id: user.id,
+            });
+            task = await Task.create({
+                name: 'Plant tomatoes',
+                project_id: project.id,
+                user_id: user.id,
+            });
+            note = await Note.create({
+                title: 'Seed order',
+                project_id: project.id,
+                user_id: user.id,
+            });
+            earlierTask = await Task.create({
+                name: 'Buy shed',
+                project_id: project.id,
+                user_id: user.id,
+            });
+            await agent.delete(`/api/task/${earlierTask.id}`).expect(200);
+            await agent.delete(`/api/project/${project.id}`).expect(200);
+        });
+
+        it('should take its tasks and notes along', async () => {
+            expect(await Task.findByPk(task.id)).toBeNull();
+            expect(await Note.findByPk(note.id)).toBeNull();
+
+            const response = await agent.get('/api/trash');
+            expect(
+                response.body.items.map((item) => [item.type, item.id])
+            ).toEqual([
+                ['project', project.id],
+                ['task', earlierTask.id],
+            ]);
+            expect(response.body.items[0].contents).toEqual({
+                tasks: 1,
+                notes: 1,
+            });
+        });
+
+        it('should restore only what was deleted with it', async () => {
+            const response = await agent.post(
+                `/api/trash/project/${project.id}/restore`
+            );
+
+            expect(response.status).toBe(200);
+            expect(await Task.findByPk(task.id)).not.toBeNull();
+            expect(await Note.findByPk(note.id)).not.toBeNull();
+            expect(await Task.findByPk(earlierTask.id)).toBeNull();
+        });
+
+        it('should restore a task without its trashed project', async () => {
+            await agent
+                .post(`/api/trash/task/${earlierTask.id}/restore`)
+                .expect(200);
+
+            const restored = await Task.findByPk(earlierTask.id);
+            expect(restored.project_id).toBeNull();
+        });
+
+        it('should purge its tasks and notes, keeping separate deletions', async () => {
+            await agent.delete(`/api/trash/project/${project.id}`).expect(200);
+
+            expect(await findAny(Project, project.id)).toBeNull();
+            expect(await findAny(Task, task.id)).toBeNull();
+            expect(await findAny(Note, note.id)).toBeNull();
+
+            const remaining = await findAny(Task, earlierTask.id);
+            expect(remaining.deleted_at).not.toBeNull();
+            expect(remaining.project_id).toBeNull();
+        });
+    });
+
+    describe('deleting an area', () => {
+        it('should keep its projects linked for a restore', async () => {
+            const area = await Area.create({ name: 'Home', user_id: user.id });
+            const project = await Project.create({
+                name: 'Kitchen',
+                area_id: area.id,
+                user_id: user.id,
+            });
+
+            await agent.delete(`/api/areas/${area.id}`).expect(204);
+            expect(await Project.findByPk(project.id)).not.toBeNull();
+
+            await agent.post(`/api/trash/area/${area.id}/restore`).expect(200);
+            const restored = await Project.findByPk(project.id, {
+                include: [{ model: Area }],
+            });
+            expect(restored.Area.name).toBe('Home');
+        });
+    });
+
+    it('should not count a trashed blocker as blocking', async () => {
+        const blocker = await Task.create({
+            name: 'Blocker',
+            user_id: user.id,
+        });
+        const blocked = await Task.create({
+            name: 'Blocked',
+            user_id: user.id,
+        });
+        await TaskDependencyService.addDependency(
+            blocked.id,
+            blocker.id,
+            user.id
+        );
+        expect(await TaskDependencyService.getBlockedTaskIds(user.id)).toEqual([
+            blocked.id,
+        ]);
+
+        await agent.delete(`/api/task/${blocker.id}`).expect(200);
+        expect(await TaskDependencyService.getBlockedTaskIds(user.id)).toEqual(
+            []
+        );
+    });
+
+    it('should empty the trash', async () => {
+        const note = await Note.create({ title: 'Old', user_id: user.id });
+        const item = await InboxItem.create({
+            content: 'Call back',
+            source: 'web',
+            user_id: user.id,
+        });
+        await agent.delete(`/api/note/${note.id}`).expect(200);
+        await agent.delete(`/api/inbox/${item.id}`).expect(200);
+
+        const response = await agent.delete('/api/trash');
+
+        expect(response.status).toBe(200);
+        expect(response.body.purged).toBe(2);
+        expect(await findAny(Note, note.id)).toBeNull();
+        expect(await findAny(InboxItem, item.id)).toBeNull();
+    });
+
+    it('should purge only items past the retention period', async () => {
+        const old = await Note.create({ title: 'Old', user_id: user.id });
+        const recent = await Note.create({ title: 'Recent', user_id: user.id });
+        await trashService.moveToTrash('note', old, user.id);
+        await trashService.moveToTrash('note', recent, user.id);
+        await Note.update(
+            { deleted_at: new Date(Date.now() - 31 * 24 * 60 * 60 * 1000) },
+            { where: { id: old.id }, paranoid: false }
+        );
+
+        expect(await trashService.purgeExpired()).toBe(1);
+        expect(await findAny(Note, old.id)).toBeNull();
+        expect(await findAny(Note, recent.id)).not.toBeNull();
+    });
+
+    it('should return 404 for live items and unknown types', async () => {
+        const note = await Note.create({ title: 'Live', user_id: user.id });
+
+        const restore = await agent.post(`/api/trash/note/${note.id}/restore`);
+        expect(restore.status).toBe(404);
+
+        const purge = await agent.delete(`/api/trash/user/${user.id}`);
+        expect(purge.status).toBe(404);
+    });
+
+    it("should not expose another user's trash", async () => {
+        const other = await createTestUser({ email: 'other@example.com' });
+        const note = await Note.create({ title: 'Theirs', user_id: other.id });
+        await trashService.moveToTrash('note', note, other.id);
+
+        expect((await agent.get('/api/trash')).body.items).toEqual([]);
+        await agent.post(`/api/trash/note/${note.id}/restore`).expect(404);
+    });
+});
@@ -0,0 +1,324 @@
+const request = require('supertest');
+const app = require('../../app');
+const { Note, Project, Tag, Task, TaskEvent } = require('../../models');
+const { createTestUser } = require('../helpers/testUtils');
+
+describe('Undo Routes', () => {
+    let user, agent;
+
+    beforeEach(async () => {
+        user = await createTestUser({ email: 'test@example.com' });
+        agent = request.agent(app);
+        await agent.post('/api/login').send({
+            email: 'test@example.com',
+            password: 'password123',
+        });
+    });
+
+    describe('POST /api/undo/:token', () => {
+        it('should undo completing a task', async () => {
+            const task = await Task.create({
+                name: 'File taxes',
+                status: Task.STATUS.NOT_STARTED,
+                user_id: user.id,
+            });
+
+            const completed = await agent.patch(
+                `/api/task/${task.id}/toggle_completion`
+            );
+            expect(completed.body.undo_token).toEqual(expect.any(String));
+
+            const response = await agent.post(
+                `/api/undo/${completed.body.undo_token}`
+            );
+
+            expect(response.status).toBe(200);
+            expect(response.body.tasks).toHaveLength(1);
+            expect(response.body.tasks[0].status).toBe(Task.STATUS.NOT_STARTED);
+            await task.reload();
+            expect(task.status).toBe(Task.STATUS.NOT_STARTED);
+            expect(task.completed_at).toBeNull();
+
+            const event = await TaskEvent.findOne({
+                where: { task_id: task.id },
+                order: [['id', 'DESC']],
+            });
+            expect(event.metadata.trigger).toBe('undo');
+        });
+
+        it('should undo moving a task and changing its tags', async () => {
+            const home = await Project.create({
+                name: 'Home',
+                user_id: user.id,
+            });
+            const work = await Project.create({
+                name: 'Work',
+                user_id: user.id,
+            });
+            const errand = await Tag.create({
+                name: 'errand',
+                user_id: user.id,
+            });
+            const task = await Task.create({
+                name: 'Buy paint',
+                project_id: home.id,
+                user_id: user.id,
+            });
+            await task.setTags([errand]);
+
+            const moved = await agent.patch(`/api/task/${task.id}`).send({
+                name: 'Buy paint',
+                project_id: work.id,
+                tags: [{ name: 'office' }],
+            });
+            expect(moved.body.project_id).toBe(work.id);
+
+            await agent.post(`/api/undo/${moved.body.undo_token}`).expect(200);
+
+            const restored = await Task.findByPk(task.id, { include: [Tag] });
+            expect(restored.project_id).toBe(home.id);
+            expect(restored.Tags.map((tag) => tag.name)).toEqual(['errand']);
+        });
+
+        it('should bring a deleted task back from the trash', async () => {
+            const task = await Task.create({
+                name: 'Call plumber',
+                user_id: user.id,
+            });
+
+            const deleted = await agent.delete(`/api/task/${task.id}`);
+            expect(await Task.findByPk(task.id)).toBeNull();
+
+            const response = await agent.post(
+                `/api/undo/${deleted.body.undo_token}`
+            );
+
+            expect(response.status).toBe(200);
+            expect(response.body.tasks.map((t) => t.id)).toEqual([task.id]);
+            expect(await Task.findByPk(task.id)).not.toBeNull();
+        });
+
+        it('should move a created task to the trash', async () => {
+            const created = await agent
+                .post('/api/task')
+                .send({ name: 'Typo tsak' });
+
+            const response = await agent.post(
+                `/api/undo/${created.body.undo_token}`
+            );
+
+            expect(response.status).toBe(200);
+            expect(response.body.deleted_task_ids).toEqual([created.body.id]);
+            expect(await Task.findByPk(created.body.id)).toBeNull();
+        });
+
+        it('should remove the next instance of a recurring task', async () => {
+            const task = await Task.create({
+                name: 'Water plants',
+                recurrence_type: 'daily',
+                recurrence_interval: 1,
+                completion_based: true,
+                user_id: user.id,
+            });
+
+            const completed = await agent.patch(
+                `/api/task/${task.id}/toggle_completion`
+            );
+            const nextTaskId = completed.body.next_task.id;
+
+            await agent
+                .post(`/api/undo/${completed.body.undo_token}`)
+                .expect(200);
+
+            expect(await Task.findByPk(nextTaskId)).toBeNull();
+            await task.reload();
+            expect(task.status).toBe(Task.STATUS.NOT_STARTED);
+        });
+
+        it('should reopen a parent completed along with its last subtask', async () => {
+            const parent = await Task.create({
+                name: 'Move house',
+                complete_with_subtasks: true,
+                user_id: user.id,
+            });
+            const subtask = await Task.create({
+                name: 'Pack boxes',
+                parent_task_id: parent.id,
+                user_id: user.id,
+            });
+
+            const completed = await agent.patch(
+                `/api/task/${subtask.id}/toggle_completion`
+            );
+            await parent.reload();
+            expect(parent.status).toBe(Task.STATUS.DONE);
+
+            const response = await agent.post(
+                `/api/undo/${completed.body.undo_token}`
+            );
+
+            expect(response.status).toBe(200);
+            await parent.reload();
+            await subtask.reload();
+            expect(parent.status).toBe(Task.STATUS.NOT_STARTED);
+            expect(subtask.status).toBe(Task.STATUS.NOT_STARTED);
+        });
+
+        it('should block dependents again when undoing their blocker', async () => {
+            const blocker = await Task.create({
+                name: 'Get quotes',
+                user_id: user.id,
+            });
+            const dependent = await Task.create({
+                name: 'Hire builder',
+                user_id: user.id,
+            });
+            await agent
+                .post(`/api/task/${dependent.id}/dependencies`)
+                .send({ depends_on_task_id: blocker.id })
+                .expect(201);
+
+            const completed = await agent
+                .patch(`/api/task/${blocker.id}`)
+                .send({ status: Task.STATUS.DONE });
+            expect(
+                await TaskEvent.count({
+                    where: { task_id: dependent.id, event_type: 'unblocked' },
+                })
+            ).toBe(1);
+
+            await agent
+                .post(`/api/undo/${completed.body.undo_token}`)
+                .expect(200);
+
+            expect(
+                await TaskEvent.count({
+                    where: { task_id: dependent.id, event_type: 'unblocked' },
+                })
+            ).toBe(0);
+            const dependencies = await agent.get(
+                `/api/task/${dependent.id}/dependencies`
+            );
+            expect(dependencies.body.blocked).toBe(true);
+        });
+
+        it('should bring a deleted project back with its tasks and notes', async () => {
+            const project = await Project.create({
+                name: 'Garden',
+                user_id: user.id,
+            });
+            const task = await Task.create({
+                name: 'Plant tulips',
+                project_id: project.id,
+                user_id: user.id,
+            });
+            const note = await Note.create({
+                title: 'Bulb suppliers',
+                project_id: project.id,
+                user_id: user.id,
+            });
+
+            const deleted = await agent.delete(`/api/project/${project.id}`);
+            expect(deleted.body.undo_token).toEqual(expect.any(String));
+
+            const response = await agent.post(
+                `/api/undo/${deleted.body.undo_token}`
+            );
+
+            expect(response.status).toBe(200);
+            expect(response.body.projects.map((p) => p.id)).toEqual([
+                project.id,
+            ]);
+            expect(await Project.findByPk(project.id)).not.toBeNull();
+            expect(await Task.findByPk(task.id)).not.toBeNull();
+            expect(await Note.findByPk(note.id)).not.toBeNull();
+
+            await agent
+                .post(`/api/undo/${deleted.body.undo_token}`)
+                .expect(404);
+        });
+
+        it('should bring a deleted note back', async () => {
+            const note = await Note.create({
+                title: 'Recipes',
+                user_id: user.id,
+            });
+
+            const deleted = await agent.delete(`/api/note/${note.id}`);
+            const response = await agent.post(
+                `/api/undo/${deleted.body.undo_token}`
+            );
+
+            expect(response.status).toBe(200);
+            expect(response.body.notes.map((n) => n.id)).toEqual([note.id]);
+            const restored = await Note.findByPk(note.id);
+            expect(restored.undo_token).toBeNull();
+        });
+
+        it('should only undo a change once', async () => {
+            const task = await Task.create({
+                name: 'Plan trip',
+                user_id: user.id,
+            });
+            const toggled = await agent.patch(
+                `/api/task/${task.id}/toggle-today`
+            );
+
+            await agent
+                .post(`/api/undo/${toggled.body.undo_token}`)
+                .expect(200);
+            const response = await agent.post(
+                `/api/undo/${toggled.body.undo_token}`
+            );
+
+            expect(response.status).toBe(404);
+            await task.reload();
+            expect(task.today).toBe(false);
+        });
+
+        it('should refuse once the task has changed again', async () => {
+            const task = await Task.create({
+                name: 'Draft report',
+                user_id: user.id,
+            });
+            const renamed = await agent
+                .patch(`/api/task/${task.id}`)
+                .send({ name: 'Draft annual report' });
+            await agent.patch(`/api/task/${task.id}/toggle-today`);
+
+            const response = await agent.post(
+                `/api/undo/${renamed.body.undo_token}`
+            );
+
+            expect(response.status).toBe(409);
+            await task.reload();
+            expect(task.name).toBe('Draft annual report');
+        });
+
+        it("should not undo another user's change", async () => {
+            const task = await Task.create({
+                name: 'Mine',
+                user_id: user.id,
+            });
+            const deleted = await agent.delete(`/api/task/${task.id}`);
+
+            await createTestUser({ email: 'other@example.com' });
+            const other = request.agent(app);
+            await other.post('/api/login').send({
+                email: 'other@example.com',
+                password: 'password123',
+            });
+            const response = await other.post(
+                `/api/undo/${deleted.body.undo_token}`
+            );
+
+            expect(response.status).toBe(404);
+            expect(await Task.findByPk(task.id)).toBeNull();
+        });
+
+        it('should require authentication', async () => {
+            const response = await request(app).post('/api/undo/anything');
+            expect(response.status).toBe(401);
+        });
+    });
+});
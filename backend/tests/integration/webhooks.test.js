@@ -0,0 +1,254 @@
+const request = require('supertest');
+const app = require('../../app');
+const { Webhook, WebhookDelivery, Task } = require('../../models');
+const { createTestUser } = require('../helpers/testUtils');
+
+describe('Webhooks Routes', () => {
+    let user, agent;
+
+    beforeEach(async () => {
+        user = await createTestUser({
+            email: 'test@example.com',
+        });
+
+        // Create authenticated agent
+        agent = request.agent(app);
+        await agent.post('/api/login').send({
+            email: 'test@example.com',
+            password: 'password123',
+        });
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    const createWebhook = (attributes = {}) =>
+        Webhook.create({
+            name: 'Dashboard',
+            url: 'https://example.com/hooks',
+            secret: 'shh',
+            events: ['task.created', 'task.completed'],
+            user_id: user.id,
+            ...attributes,
+        });
+
+    describe('CRUD /api/webhooks', () => {
+        it('should create a webhook with a generated secret', async () => {
+            const response = await agent.post('/api/webhooks').send({
+                name: 'Dashboard',
+                url: 'https://example.com/hooks',
+                events: ['task.created'],
+            });
+
+            expect(response.status).toBe(201);
+            expect(response.body.name).toBe('Dashboard');
+            expect(response.body.events).toEqual(['task.created']);
+            expect(response.body.active).toBe(true);
+            expect(response.body.secret).toHaveLength(48);
+            expect(response.body.secret_hint).toBe(
+                response.body.secret.slice(-4)
+            );
+        });
+
+        it('should not return the secret after it is set', async () => {
+            const webhook = await createWebhook({ secret: 'top-secret' });
+
+            const listResponse = await agent.get('/api/webhooks');
+            expect(listResponse.status).toBe(200);
+            expect(listResponse.body[0].secret).toBeUndefined();
+            expect(listResponse.body[0].secret_hint).toBe('cret');
+
+            const updateResponse = await agent
+                .patch(`/api/webhooks/${webhook.id}`)
+                .send({ secret: 'another-secret' });
+            expect(updateResponse.status).toBe(200);
+            expect(updateResponse.body.secret).toBeUndefined();
+            expect((await webhook.reload()).secret).toBe('another-secret');
+        });
+
+        it('should rotate the secret and return the new one once', async () => {
+            const webhook = await createWebhook();
+
+            const response = await agent.post(
+                `/api/webhooks/${webhook.id}/secret`
+            );
+
+            expect(response.status).toBe(200);
+            expect(response.body.secret).toHaveLength(48);
+            expect((await webhook.reload()).secret).toBe(response.body.secret);
+        });
+
+        it('should validate url and events', async () => {
+            const badUrl = await agent.post('/api/webhooks').send({
+                name: 'Bad',
+                url: 'ftp://example.com',
+                events: ['task.created'],
+            });
+            expect(badUrl.status).toBe(400);
+            expect(badUrl.body.error).toBe(
+                'Webhook URL must be a valid http or https URL.'
+            );
+
+            const noEvents = await agent.post('/api/webhooks').send({
+                name: 'Bad',
+                url: 'https://example.com',
+                events: [],
+            });
+            expect(noEvents.status).toBe(400);
+
+            const unknownEvent = await agent.post('/api/webhooks').send({
+                name: 'Bad',
+                url: 'https://example.com',
+                events: ['task.exploded'],
+            });
+            expect(unknownEvent.status).toBe(400);
+            expect(unknownEvent.body.error).toBe(
+                'Unknown events: task.exploded'
+            );
+        });
+
+        it('should update and delete a webhook', async () => {
+            const webhook = await createWebhook();
+
+            const updateResponse = await agent
+                .patch(`/api/webhooks/${webhook.id}`)
+                .send({ active: false, events: ['note.created'] });
+            expect(updateResponse.status).toBe(200);
+            expect(updateResponse.body.active).toBe(false);
+            expect(updateResponse.body.events).toEqual(['note.created']);
+            expect((await webhook.reload()).secret).toBe('shh');
+
+            const deleteResponse = await agent.delete(
+                `/api/webhooks/${webhook.id}`
+            );
+            expect(deleteResponse.status).toBe(204);
+            expect(await Webhook.count()).toBe(0);
+        });
+
+        it("should not expose other users' webhooks", async () => {
+            const otherUser = await createTestUser({
+                email: 'other@example.com',
+            });
+            const webhook = await createWebhook({ user_id: otherUser.id });
+
+            const listResponse = await agent.get('/api/webhooks');
+            expect(listResponse.body).toHaveLength(0);
+
+            const response = await agent.delete(`/api/webhooks/${webhook.id}`);
+            expect(response.status).toBe(404);
+        });
+    });
+
+    describe('Event dispatch', () => {
+        it('should queue deliveries for subscribed events only', async () => {
+            const webhook = await createWebhook();
+
+            await agent.post('/api/task').send({ name: 'Write report' });
+            await agent.post('/api/project').send({ name: 'Ignored' });
+
+            const deliveries = await WebhookDelivery.findAll();
+            expect(deliveries).toHaveLength(1);
+            expect(deliveries[0].webhook_id).toBe(webhook.id);
+            expect(deliveries[0].event).toBe('task.created');
+            expect(deliveries[0].status).toBe('pending');
+            expect(deliveries[0].payload.event).toBe('task.created');
+            expect(deliveries[0].payload.data.task.name).toBe('Write report');
+        });
+
+        it('should report completion separately from updates', async () => {
+            await createWebhook({
+                events: ['task.updated', 'task.completed'],
+            });
+            const task = await Task.create({
+                name: 'Task',
+                user_id: user.id,
+            });
+
+            await agent.patch(`/api/task/${task.id}`).send({ priority: 2 });
+            await agent.patch(`/api/task/${task.id}/toggle_completion`);
+
+            const events = (
+                await WebhookDelivery.findAll({ order: [['id', 'ASC']] })
+            ).map((delivery) => delivery.event);
+            expect(events).toEqual(['task.updated', 'task.completed']);
+        });
+
+        it('should dispatch project and note events', async () => {
+            await createWebhook({
+                events: ['project.created', 'note.created', 'note.deleted'],
+            });
+
+            await agent.post('/api/project').send({ name: 'Home' });
+            const noteResponse = await agent
+                .post('/api/note')
+                .send({ title: 'Ideas', content: 'Some ideas' });
+            await agent.delete(`/api/note/${noteResponse.body.id}`);
+
+            const events = (
+                await WebhookDelivery.findAll({ order: [['id', 'ASC']] })
+            ).map((delivery) => delivery.event);
+            expect(events).toEqual([
+                'project.created',
+                'note.created',
+                'note.deleted',
+            ]);
+        });
+
+        it('should skip inactive webhooks', async () => {
+            await createWebhook({ active: false });
+
+            await agent.post('/api/task').send({ name: 'Task' });
+
+            expect(await WebhookDelivery.count()).toBe(0);
+        });
+    });
+
+    describe('POST /api/webhooks/:id/test', () => {
+        it('should send a signed test delivery and log it', async () => {
+            const webhook = await createWebhook();
+            const fetchSpy = jest
+                .spyOn(global, 'fetch')
+                .mockResolvedValue(new Response('ok', { status: 200 }));
+
+            const response = await agent.post(
+                `/api/webhooks/${webhook.id}/test`
+            );
+
+            expect(response.status).toBe(200);
+            expect(response.body.event).toBe('webhook.test');
+            expect(response.body.status).toBe('delivered');
+            expect(response.body.response_status).toBe(200);
+
+            const [url, options] = fetchSpy.mock.calls[0];
+            expect(url).toBe('https://example.com/hooks');
+            expect(options.headers['X-Tududi-Event']).toBe('webhook.test');
+            expect(options.headers['X-Tududi-Signature']).toMatch(
+                /^sha256=[0-9a-f]{64}$/
+            );
+            expect(options.headers['X-Tududi-Timestamp']).toMatch(/^\d+$/);
+
+            const logResponse = await agent.get(
+                `/api/webhooks/${webhook.id}/deliveries`
+            );
+            expect(logResponse.status).toBe(200);
+            expect(logResponse.body).toHaveLength(1);
+        });
+
+        it('should record failed test deliveries without retrying', async () => {
+            const webhook = await createWebhook();
+            jest.spyOn(global, 'fetch').mockRejectedValue(
+                new Error('connect ECONNREFUSED')
+            );
+
+            const response = await agent.post(
+                `/api/webhooks/${webhook.id}/test`
+            );
+
+            expect(response.status).toBe(200);
+            expect(response.body.status).toBe('failed');
+            expect(response.body.error).toBe('connect ECONNREFUSED');
+            expect(response.body.next_attempt_at).toBeNull();
+        });
+    });
+});
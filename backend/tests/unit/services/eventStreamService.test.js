@@ -0,0 +1,63 @@
+const eventStreamService = require('../../../services/eventStreamService');
+
+describe('eventStreamService', () => {
+    const createResponse = () => ({ write: jest.fn(), flush: jest.fn() });
+
+    it('should send events only to connections of the same user', () => {
+        const ownRes = createResponse();
+        const otherRes = createResponse();
+        const unsubscribeOwn = eventStreamService.subscribe(1, ownRes);
+        const unsubscribeOther = eventStreamService.subscribe(2, otherRes);
+
+        eventStreamService.publish(1, 'task.created', { task: { id: 5 } });
+
+        const chunk = ownRes.write.mock.calls[1][0];
+        expect(chunk).toMatch(/^id: \d+\ndata: /);
+        expect(chunk.endsWith('\n\n')).toBe(true);
+        expect(JSON.parse(chunk.split('data: ')[1])).toEqual({
+            event: 'task.created',
+            data: { task: { id: 5 } },
+        });
+        expect(ownRes.flush).toHaveBeenCalled();
+        // Only the initial retry line
+        expect(otherRes.write).toHaveBeenCalledTimes(1);
+
+        unsubscribeOwn();
+        unsubscribeOther();
+    });
+
+    it('should stop sending after unsubscribing', () => {
+        const res = createResponse();
+        const unsubscribe = eventStreamService.subscribe(1, res);
+        expect(eventStreamService.getConnectionCount(1)).toBe(1);
+
+        unsubscribe();
+        eventStreamService.publish(1, 'task.updated', {});
+
+        expect(eventStreamService.getConnectionCount(1)).toBe(0);
+        expect(res.write).toHaveBeenCalledTimes(1);
+    });
+
+    it('should keep publishing when one connection fails', () => {
+        const brokenRes = {
+            write: jest
+                .fn()
+                .mockImplementationOnce(() => {})
+                .mockImplementation(() => {
+                    throw new Error('socket closed');
+                }),
+        };
+        const res = createResponse();
+        const unsubscribeBroken = eventStreamService.subscribe(1, brokenRes);
+        const unsubscribe = eventStreamService.subscribe(1, res);
+        jest.spyOn(console, 'error').mockImplementation(() => {});
+
+        eventStreamService.publish(1, 'note.created', {});
+
+        expect(res.write).toHaveBeenCalledTimes(2);
+
+        console.error.mockRestore();
+        unsubscribeBroken();
+        unsubscribe();
+    });
+});
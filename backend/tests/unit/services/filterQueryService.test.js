@@ -0,0 +1,82 @@
+const { Op } = require('sequelize');
+const {
+    parseFilterQuery,
+    compileFilterQuery,
+} = require('../../../services/filterQueryService');
+
+describe('filterQueryService', () => {
+    describe('parseFilterQuery', () => {
+        it('should parse field terms, negation and quoted values', () => {
+            const { terms, errors } = parseFilterQuery(
+                'tag:work,"deep work" -project:Home priority:high report'
+            );
+
+            expect(errors).toEqual([]);
+            expect(terms.map((term) => term.field)).toEqual([
+                'tag',
+                'project',
+                'priority',
+                'text',
+            ]);
+            expect(terms[0].values).toEqual(['work', 'deep work']);
+            expect(terms[1].negated).toBe(true);
+            expect(terms[1].values).toEqual(['Home']);
+            expect(terms[3].values).toEqual(['report']);
+        });
+
+        it('should parse due keywords, offsets and dates', () => {
+            const { terms, errors } = parseFilterQuery(
+                'due:today due:<7d due:>=2w due:2025-01-31'
+            );
+
+            expect(errors).toEqual([]);
+            expect(terms[0].keyword).toBe('today');
+            expect(terms[1]).toMatchObject({ operator: '<', days: 7 });
+            expect(terms[2]).toMatchObject({ operator: '>=', days: 14 });
+            expect(terms[3]).toMatchObject({
+                operator: '=',
+                date: '2025-01-31',
+            });
+        });
+
+        it('should report errors with the offending token and position', () => {
+            const { errors } = parseFilterQuery(
+                'tag:work colour:red priority:urgent due:soon tag:'
+            );
+
+            expect(errors.map((error) => error.token)).toEqual([
+                'colour:red',
+                'priority:urgent',
+                'due:soon',
+                'tag:',
+            ]);
+            expect(errors[0].position).toBe(9);
+            expect(errors[0].message).toMatch(/Unknown filter field 'colour'/);
+            expect(errors[1].message).toMatch(/Invalid priority 'urgent'/);
+            expect(errors[3].message).toBe("Missing value for 'tag'.");
+        });
+
+        it('should report unterminated quotes', () => {
+            const { errors } = parseFilterQuery('tag:"deep work');
+
+            expect(errors[0].message).toBe('Unterminated quote.');
+        });
+    });
+
+    describe('compileFilterQuery', () => {
+        it('should return no where clause for invalid queries', () => {
+            const { where, errors } = compileFilterQuery('status:later', 1);
+
+            expect(where).toBeNull();
+            expect(errors.length).toBe(1);
+        });
+
+        it('should exclude completed tasks unless a status is given', () => {
+            const open = compileFilterQuery('priority:high', 1);
+            const done = compileFilterQuery('status:done', 1);
+
+            expect(open.where[Op.and].length).toBe(2);
+            expect(done.where[Op.and].length).toBe(1);
+        });
+    });
+});
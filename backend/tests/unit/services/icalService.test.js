@@ -0,0 +1,154 @@
+const { Task } = require('../../../models');
+const icalService = require('../../../services/icalService');
+
+describe('icalService', () => {
+    describe('parseTodo', () => {
+        it('should read task fields from a VTODO', () => {
+            const todo = icalService.parseTodo(
+                [
+                    'BEGIN:VCALENDAR',
+                    'BEGIN:VTODO',
+                    'UID:abc',
+                    'SUMMARY:Call the bank\\, then',
+                    '  the landlord',
+                    'DESCRIPTION:Line 1\\nLine 2',
+                    'DUE;TZID=Europe/Berlin:20250703T090000',
+                    'PRIORITY:2',
+                    'STATUS:IN-PROCESS',
+                    'BEGIN:VALARM',
+                    'DESCRIPTION:Reminder',
+                    'END:VALARM',
+                    'END:VTODO',
+                    'END:VCALENDAR',
+                ].join('\r\n')
+            );
+
+            expect(todo).toEqual({
+                uid: 'abc',
+                name: 'Call the bank, then the landlord',
+                note: 'Line 1\nLine 2',
+                due_date: new Date('2025-07-03T00:00:00Z'),
+                due_time: '07:00',
+                priority: Task.PRIORITY.HIGH,
+                status: Task.STATUS.IN_PROGRESS,
+            });
+        });
+
+        it("should read due times into the user's timezone", () => {
+            const parseDue = (line) =>
+                icalService.parseTodo(
+                    `BEGIN:VTODO\r\n${line}\r\nEND:VTODO`,
+                    'America/New_York'
+                );
+
+            expect(parseDue('DUE:20250703T020000Z')).toEqual({
+                due_date: new Date('2025-07-02T00:00:00Z'),
+                due_time: '22:00',
+            });
+            expect(parseDue('DUE:20250703T090000')).toEqual({
+                due_date: new Date('2025-07-03T00:00:00Z'),
+                due_time: '09:00',
+            });
+            expect(parseDue('DUE;VALUE=DATE:20250703')).toEqual({
+                due_date: new Date('2025-07-03T00:00:00Z'),
+                due_time: null,
+            });
+        });
+
+        it('should return null without a VTODO', () => {
+            expect(
+                icalService.parseTodo('BEGIN:VCALENDAR\r\nEND:VCALENDAR')
+            ).toBeNull();
+        });
+    });
+
+    describe('parseRecurrenceRule', () => {
+        it('should map rules onto recurrence types', () => {
+            expect(
+                icalService.parseRecurrenceRule(
+                    'FREQ=WEEKLY;INTERVAL=2;BYDAY=TU'
+                )
+            ).toEqual({
+                recurrence_type: 'weekly',
+                recurrence_interval: 2,
+                recurrence_weekday: 2,
+                recurrence_end_date: null,
+            });
+            expect(
+                icalService.parseRecurrenceRule(
+                    'RRULE:FREQ=MONTHLY;BYDAY=MO;BYSETPOS=3;UNTIL=20251231'
+                )
+            ).toEqual({
+                recurrence_type: 'monthly_weekday',
+                recurrence_interval: 1,
+                recurrence_weekday: 1,
+                recurrence_week_of_month: 3,
+                recurrence_end_date: new Date('2025-12-31T00:00:00Z'),
+            });
+            expect(
+                icalService.parseRecurrenceRule('FREQ=MONTHLY;BYMONTHDAY=-1')
+                    .recurrence_type
+            ).toBe('monthly_last_day');
+        });
+
+        it('should reject rules without an equivalent', () => {
+            expect(
+                icalService.parseRecurrenceRule('FREQ=WEEKLY;BYDAY=MO,WE')
+            ).toBeNull();
+            expect(icalService.parseRecurrenceRule('FREQ=YEARLY')).toBeNull();
+            expect(
+                icalService.parseRecurrenceRule('FREQ=DAILY;COUNT=3')
+            ).toBeNull();
+        });
+    });
+
+    describe('buildTaskComponent', () => {
+        const task = {
+            uuid: 'abc',
+            name: 'Call the bank',
+            due_date: new Date('2025-07-03T00:00:00Z'),
+            updated_at: new Date('2025-07-01T00:00:00Z'),
+        };
+
+        it('should keep tasks without a due time all-day', () => {
+            const lines = icalService.buildTaskComponent(task, {
+                type: 'event',
+            });
+
+            expect(lines).toContain('DTSTART;VALUE=DATE:20250703');
+            expect(lines).toContain('DTEND;VALUE=DATE:20250704');
+        });
+
+        it("should send due times in the user's timezone", () => {
+            const timed = { ...task, due_time: '21:30' };
+
+            const todo = icalService.buildTaskComponent(timed, {
+                timezone: 'America/New_York',
+            });
+            const event = icalService.buildTaskComponent(timed, {
+                type: 'event',
+                timezone: 'America/New_York',
+            });
+
+            expect(todo).toContain('DUE:20250704T013000Z');
+            expect(event).toContain('DTSTART:20250704T013000Z');
+            expect(event).toContain('DTEND:20250704T023000Z');
+        });
+    });
+
+    describe('buildCalendar', () => {
+        it('should fold long lines at 75 octets', () => {
+            const body = icalService.buildCalendar([
+                `SUMMARY:${'é'.repeat(60)}`,
+            ]);
+
+            const lines = body.split('\r\n');
+            lines.forEach((line) =>
+                expect(Buffer.byteLength(line)).toBeLessThanOrEqual(75)
+            );
+            expect(body.replace(/\r\n /g, '')).toContain(
+                `SUMMARY:${'é'.repeat(60)}`
+            );
+        });
+    });
+});
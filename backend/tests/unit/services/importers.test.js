@@ -0,0 +1,217 @@
+const { Task } = require('../../../models');
+const importers = require('../../../services/importers');
+const { parseCsv, parseDay } = require('../../../services/importers/common');
+const todoist = require('../../../services/importers/todoist');
+
+describe('importers', () => {
+    describe('parseCsv', () => {
+        it('should handle quoted fields with commas, quotes and line breaks', () => {
+            expect(
+                parseCsv('\uFEFFa,b\r\n"x, y","say ""hi""\nthere"\n\n')
+            ).toEqual([
+                ['a', 'b'],
+                ['x, y', 'say "hi"\nthere'],
+            ]);
+        });
+    });
+
+    describe('parseDay', () => {
+        it('should keep the calendar day in the export timezone', () => {
+            expect(
+                parseDay('2025-06-30T16:00:00+0000', 'Asia/Shanghai')
+            ).toEqual(new Date('2025-07-01T00:00:00Z'));
+            expect(parseDay('2025-07-01')).toEqual(
+                new Date('2025-07-01T00:00:00Z')
+            );
+            expect(parseDay('Jul 1 2025')).toEqual(
+                new Date('2025-07-01T00:00:00Z')
+            );
+            expect(parseDay('tomorrow')).toBeNull();
+        });
+    });
+
+    describe('Todoist recurring dates', () => {
+        const { parseRecurrenceText } = todoist._helpers;
+
+        it('should map common phrases onto recurrence types', () => {
+            expect(parseRecurrenceText('every 3 days')).toEqual({
+                recurrence_type: 'daily',
+                recurrence_interval: 3,
+                completion_based: false,
+            });
+            expect(parseRecurrenceText('every! other mon')).toEqual({
+                recurrence_type: 'weekly',
+                recurrence_interval: 2,
+                recurrence_weekday: 1,
+                completion_based: true,
+            });
+            expect(parseRecurrenceText('every 15th')).toMatchObject({
+                recurrence_type: 'monthly',
+                recurrence_month_day: 15,
+            });
+            expect(parseRecurrenceText('every 2nd friday')).toMatchObject({
+                recurrence_type: 'monthly_weekday',
+                recurrence_week_of_month: 2,
+                recurrence_weekday: 5,
+            });
+            expect(parseRecurrenceText('every last day')).toMatchObject({
+                recurrence_type: 'monthly_last_day',
+            });
+        });
+
+        it('should return null for phrases without an equivalent', () => {
+            expect(parseRecurrenceText('every weekday')).toBeNull();
+            expect(parseRecurrenceText('every year')).toBeNull();
+            expect(parseRecurrenceText('tomorrow')).toBeNull();
+        });
+    });
+
+    describe('adapters', () => {
+        it('should list the available importers', () => {
+            expect(importers.listImporters().map((item) => item.id)).toEqual([
+                'todoist',
+                'ticktick',
+                'things',
+            ]);
+            expect(importers.getImporter('asana')).toBeNull();
+        });
+
+        it('should read a Todoist JSON backup', () => {
+            const plan = importers.getImporter('todoist').parse(
+                JSON.stringify({
+                    projects: [
+                        { id: 'p0', name: 'Inbox', inbox_project: true },
+                        { id: 'p1', name: 'Work' },
+                    ],
+                    labels: [{ name: 'office' }],
+                    items: [
+                        {
+                            id: 'i2',
+                            content: 'Draft',
+                            project_id: 'p1',
+                            parent_id: 'i1',
+                            priority: 1,
+                            checked: true,
+                            completed_at: '2025-06-30T08:00:00Z',
+                        },
+                        {
+                            id: 'i1',
+                            content: 'Write report',
+                            project_id: 'p1',
+                            priority: 4,
+                            labels: ['office'],
+                            due: {
+                                date: '2025-07-07',
+                                string: 'every monday',
+                                is_recurring: true,
+                            },
+                        },
+                        { id: 'i3', content: 'Call mum', project_id: 'p0' },
+                    ],
+                    notes: [{ item_id: 'i1', content: 'Use the template' }],
+                })
+            );
+
+            expect(plan.projects.map((project) => project.name)).toEqual([
+                'Work',
+            ]);
+            const [draft, report, call] = plan.tasks;
+            expect(report).toMatchObject({
+                name: 'Write report',
+                note: 'Use the template',
+                priority: Task.PRIORITY.HIGH,
+                tags: ['office'],
+                due_date: new Date('2025-07-07T00:00:00Z'),
+                recurrence: {
+                    recurrence_type: 'weekly',
+                    recurrence_weekday: 1,
+                },
+            });
+            expect(draft).toMatchObject({
+                parent_key: report.key,
+                status: Task.STATUS.DONE,
+                priority: Task.PRIORITY.LOW,
+            });
+            expect(call.project_key).toBeNull();
+        });
+
+        it('should read Things JSON', () => {
+            const plan = importers.getImporter('things').parse(
+                JSON.stringify([
+                    {
+                        type: 'project',
+                        attributes: {
+                            title: 'Move house',
+                            area: 'Home',
+                            items: [
+                                {
+                                    type: 'heading',
+                                    attributes: { title: 'Packing' },
+                                },
+                                {
+                                    type: 'to-do',
+                                    attributes: {
+                                        title: 'Buy boxes',
+                                        when: 'today',
+                                        deadline: '2025-07-10',
+                                        tags: ['errand'],
+                                        'checklist-items': [
+                                            {
+                                                type: 'checklist-item',
+                                                attributes: {
+                                                    title: 'Tape',
+                                                    completed: true,
+                                                },
+                                            },
+                                        ],
+                                    },
+                                },
+                            ],
+                        },
+                    },
+                    {
+                        type: 'to-do',
+                        attributes: { title: 'Dream', when: 'someday' },
+                    },
+                ])
+            );
+
+            expect(plan.areas.map((area) => area.name)).toEqual(['Home']);
+            expect(plan.tasks).toEqual([
+                expect.objectContaining({
+                    name: 'Buy boxes',
+                    today: true,
+                    tags: ['errand'],
+                    due_date: new Date('2025-07-10T00:00:00Z'),
+                }),
+                expect.objectContaining({
+                    name: 'Tape',
+                    parent_key: 1,
+                    status: Task.STATUS.DONE,
+                }),
+                expect.objectContaining({ name: 'Dream', project_key: null }),
+            ]);
+            expect(plan.toPreview().unmapped).toEqual([
+                {
+                    field: 'heading',
+                    reason: 'Headings are not supported; their to-dos stay in the project',
+                    count: 1,
+                    examples: ['Packing'],
+                },
+                {
+                    field: 'when',
+                    reason: 'Someday has no equivalent',
+                    count: 1,
+                    examples: ['Dream'],
+                },
+            ]);
+        });
+
+        it('should reject files in another format', () => {
+            expect(() =>
+                importers.getImporter('ticktick').parse('a,b\n1,2')
+            ).toThrow('Folder Name');
+            expect(() => importers.getImporter('things').parse('{}')).toThrow();
+        });
+    });
+});
@@ -361,9 +361,11 @@ describe('Parent-Child Relationship Functionality', () => {
         });
 
         it('should prevent deleting parent when child tasks exist due to foreign key constraint', async () => {
-            await expect(parentTask.destroy()).rejects.toThrow();
+            await expect(parentTask.destroy({ force: true })).rejects.toThrow();
 
-            const error = await parentTask.destroy().catch((err) => err);
+            const error = await parentTask
+                .destroy({ force: true })
+                .catch((err) => err);
             expect(error.name).toBe('SequelizeForeignKeyConstraintError');
 
             // Verify parent and children still exist
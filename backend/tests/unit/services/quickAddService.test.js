@@ -0,0 +1,144 @@
+const { Task, Tag, Project } = require('../../../models');
+const quickAddService = require('../../../services/quickAddService');
+const { parseQuickAdd } = require('../../../../shared/quickAddParser');
+const { createTestUser } = require('../../helpers/testUtils');
+
+// Wednesday 25 June 2025, 10:00 UTC
+const now = new Date('2025-06-25T10:00:00Z');
+const parse = (text, timezone = 'UTC') =>
+    parseQuickAdd(text, { now, timezone });
+
+describe('Quick add', () => {
+    describe('parseQuickAdd', () => {
+        it('should extract dates, priority, project and tags', () => {
+            const parsed = parse('Pay rent tomorrow 3pm !high +Home #bills');
+
+            expect(parsed).toMatchObject({
+                name: 'Pay rent',
+                due_date: '2025-06-26',
+                due_time: '15:00',
+                priority: 'high',
+                project: 'Home',
+                tags: ['bills'],
+                recurrence: null,
+            });
+            expect(parsed.tokens.map((token) => token.type)).toEqual([
+                'due',
+                'time',
+                'priority',
+                'project',
+                'tag',
+            ]);
+        });
+
+        it('should resolve weekdays and relative dates', () => {
+            expect(parse('Call next friday').due_date).toBe('2025-06-27');
+            expect(parse('Call wednesday').due_date).toBe('2025-07-02');
+            expect(parse('Report in 2 weeks').due_date).toBe('2025-07-09');
+            expect(parse('Plan next month').due_date).toBe('2025-07-01');
+            expect(parse('Renew 2025-08-01').due_date).toBe('2025-08-01');
+        });
+
+        it('should parse recurrence and start on the first occurrence', () => {
+            expect(parse('Standup every monday +Work')).toMatchObject({
+                name: 'Standup',
+                due_date: '2025-06-30',
+                recurrence: {
+                    recurrence_type: 'weekly',
+                    recurrence_interval: 1,
+                    recurrence_weekday: 1,
+                },
+            });
+            expect(parse('Gym every 2 days').recurrence).toEqual({
+                recurrence_type: 'daily',
+                recurrence_interval: 2,
+            });
+            expect(parse('Pay invoices monthly').recurrence).toEqual({
+                recurrence_type: 'monthly',
+                recurrence_interval: 1,
+                recurrence_month_day: 25,
+            });
+        });
+
+        it('should schedule a bare time for its next occurrence', () => {
+            expect(parse('Meeting 3pm').due_date).toBe('2025-06-25');
+            expect(parse('Meeting 8am').due_date).toBe('2025-06-26');
+        });
+
+        it("should use the user's timezone to find today", () => {
+            // 22:00 on Wednesday in Auckland, then past midnight
+            expect(parse('Call today', 'Pacific/Auckland').due_date).toBe(
+                '2025-06-25'
+            );
+            expect(
+                parseQuickAdd('Call today', {
+                    now: new Date('2025-06-25T13:00:00Z'),
+                    timezone: 'Pacific/Auckland',
+                }).due_date
+            ).toBe('2025-06-26');
+        });
+
+        it('should leave ordinary words and invalid dates alone', () => {
+            const parsed = parse('Buy sun cream for 2025-02-30 trip');
+
+            expect(parsed.name).toBe('Buy sun cream for 2025-02-30 trip');
+            expect(quickAddService.hasTaskFields(parsed)).toBe(false);
+        });
+    });
+
+    describe('createTaskFromParsed', () => {
+        let user;
+
+        beforeEach(async () => {
+            user = await createTestUser({ email: 'test@example.com' });
+        });
+
+        it('should create a task with the parsed fields', async () => {
+            const project = await Project.create({
+                name: 'Home Office',
+                user_id: user.id,
+            });
+            await Tag.create({ name: 'bills', user_id: user.id });
+
+            const text = 'Pay rent every month !high +home-office #bills #rent';
+            const { task, project: matched } =
+                await quickAddService.createTaskFromParsed(
+                    user.id,
+                    text,
+                    parse(text),
+                    { source: 'telegram' }
+                );
+
+            expect(matched.id).toBe(project.id);
+
+            const saved = await Task.findByPk(task.id, { include: [Tag] });
+            expect(saved.name).toBe('Pay rent');
+            expect(saved.priority).toBe(Task.PRIORITY.HIGH);
+            expect(saved.project_id).toBe(project.id);
+            expect(saved.recurrence_type).toBe('monthly');
+            expect(saved.recurrence_month_day).toBe(25);
+            expect(saved.due_date.toISOString().split('T')[0]).toBe(
+                '2025-06-25'
+            );
+            expect(saved.Tags.map((tag) => tag.name).sort()).toEqual([
+                'bills',
+                'rent',
+            ]);
+            expect(await Tag.count({ where: { user_id: user.id } })).toBe(2);
+        });
+
+        it('should skip unknown projects', async () => {
+            const text = 'Fix bike tomorrow +Garage';
+            const { task, project } =
+                await quickAddService.createTaskFromParsed(
+                    user.id,
+                    text,
+                    parse(text)
+                );
+
+            expect(project).toBeNull();
+            expect(task.project_id).toBeNull();
+            expect(task.name).toBe('Fix bike');
+        });
+    });
+});
@@ -14,6 +14,11 @@ jest.mock('../../../models', () => ({
     },
 }));
 
+// Mock the reminder buttons, which need the full models
+jest.mock('../../../services/taskReminderService', () => ({
+    handleCallback: jest.fn(),
+}));
+
 // Mock https module
 jest.mock('https', () => ({
     get: jest.fn(),
@@ -157,6 +162,55 @@ describe('TelegramPoller Duplicate Prevention', () => {
                 reply_to_message_id: 456,
             });
         });
+
+        test('should create message parameters with inline buttons', () => {
+            const replyMarkup = {
+                inline_keyboard: [
+                    [{ text: '✅ Done', callback_data: 'reminder:1:done' }],
+                ],
+            };
+            const params = telegramPoller._createMessageParams(
+                '123',
+                'Hello World',
+                null,
+                replyMarkup
+            );
+            expect(params).toEqual({
+                chat_id: '123',
+                text: 'Hello World',
+                reply_markup: replyMarkup,
+            });
+        });
+    });
+
+    describe('Task Confirmation', () => {
+        test('should describe the fields parsed from the message', () => {
+            const message = telegramPoller._formatTaskConfirmation(
+                { name: 'Pay rent' },
+                {
+                    due_date: '2025-06-26',
+                    recurrence: {
+                        recurrence_type: 'weekly',
+                        recurrence_interval: 2,
+                    },
+                    priority: 'high',
+                    project: 'Garage',
+                    tags: ['bills'],
+                },
+                null
+            );
+
+            expect(message).toBe(
+                [
+                    '✅ Task created: "Pay rent"',
+                    '📅 Due: 2025-06-26',
+                    '🔁 Repeats: weekly (every 2)',
+                    '⚡ Priority: high',
+                    '⚠️ Project "Garage" not found',
+                    '🏷️ Tags: bills',
+                ].join('\n')
+            );
+        });
     });
 
     describe('Telegram URL Creation', () => {
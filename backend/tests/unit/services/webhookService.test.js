@@ -0,0 +1,124 @@
+const crypto = require('crypto');
+const { Webhook, WebhookDelivery } = require('../../../models');
+const webhookService = require('../../../services/webhookService');
+const { createTestUser } = require('../../helpers/testUtils');
+
+describe('webhookService', () => {
+    let user, webhook;
+
+    beforeEach(async () => {
+        user = await createTestUser({ email: 'test@example.com' });
+        webhook = await Webhook.create({
+            name: 'Dashboard',
+            url: 'https://example.com/hooks',
+            secret: 'shh',
+            events: ['task.created'],
+            user_id: user.id,
+        });
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('should sign the timestamp and exact request body with the webhook secret', async () => {
+        const fetchSpy = jest
+            .spyOn(global, 'fetch')
+            .mockResolvedValue(new Response(null, { status: 204 }));
+
+        await webhookService.dispatch(user.id, 'task.created', {
+            task: { id: 1, name: 'Task' },
+        });
+        await webhookService.processPendingDeliveries();
+
+        const [, options] = fetchSpy.mock.calls[0];
+        const timestamp = options.headers['X-Tududi-Timestamp'];
+        expect(Math.abs(Date.now() / 1000 - Number(timestamp))).toBeLessThan(5);
+        const expected = crypto
+            .createHmac('sha256', 'shh')
+            .update(`${timestamp}.${options.body}`)
+            .digest('hex');
+        expect(options.headers['X-Tududi-Signature']).toBe(
+            `sha256=${expected}`
+        );
+        expect(JSON.parse(options.body).data.task.name).toBe('Task');
+
+        const delivery = await WebhookDelivery.findOne();
+        expect(delivery.status).toBe('delivered');
+        expect(delivery.attempts).toBe(1);
+    });
+
+    it('should retry failed deliveries with exponential backoff', async () => {
+        jest.spyOn(global, 'fetch').mockResolvedValue(
+            new Response('boom', { status: 500 })
+        );
+
+        await webhookService.dispatch(user.id, 'task.created', {});
+        const start = new Date();
+        await webhookService.processPendingDeliveries(start);
+
+        let delivery = await WebhookDelivery.findOne();
+        expect(delivery.status).toBe('pending');
+        expect(delivery.attempts).toBe(1);
+        expect(delivery.response_status).toBe(500);
+        expect(delivery.response_body).toBe('boom');
+
+        const firstDelay = delivery.next_attempt_at - delivery.last_attempt_at;
+        expect(firstDelay).toBe(webhookService._helpers.getRetryDelay(1));
+
+        // Not due yet
+        expect(await webhookService.processPendingDeliveries(start)).toBe(0);
+
+        await webhookService.processPendingDeliveries(delivery.next_attempt_at);
+        delivery = await delivery.reload();
+        expect(delivery.attempts).toBe(2);
+        expect(delivery.next_attempt_at - delivery.last_attempt_at).toBe(
+            2 * firstDelay
+        );
+    });
+
+    it('should give up after the maximum number of attempts', async () => {
+        jest.spyOn(global, 'fetch').mockRejectedValue(new Error('timeout'));
+
+        const [delivery] = await webhookService.dispatch(
+            user.id,
+            'task.created',
+            {}
+        );
+        await delivery.update({ attempts: webhookService.MAX_ATTEMPTS - 1 });
+        await webhookService.processPendingDeliveries();
+
+        await delivery.reload();
+        expect(delivery.status).toBe('failed');
+        expect(delivery.next_attempt_at).toBeNull();
+        expect(delivery.error).toBe('timeout');
+    });
+
+    it('should fail queued deliveries of disabled webhooks', async () => {
+        const fetchSpy = jest.spyOn(global, 'fetch');
+
+        const [delivery] = await webhookService.dispatch(
+            user.id,
+            'task.created',
+            {}
+        );
+        await webhook.update({ active: false });
+        await webhookService.processPendingDeliveries();
+
+        await delivery.reload();
+        expect(delivery.status).toBe('failed');
+        expect(fetchSpy).not.toHaveBeenCalled();
+    });
+
+    it('should prune old finished deliveries', async () => {
+        const [delivery] = await webhookService.dispatch(
+            user.id,
+            'task.created',
+            {}
+        );
+        await delivery.update({ status: 'delivered' });
+
+        const later = new Date(Date.now() + 31 * 24 * 60 * 60 * 1000);
+        expect(await webhookService.pruneDeliveries(later)).toBe(1);
+    });
+});
@@ -9,6 +9,7 @@ import AreaDetails from './components/Area/AreaDetails';
 import Areas from './components/Areas';
 import TagDetails from './components/Tag/TagDetails';
 import Tags from './components/Tags';
+import Trash from './components/Trash';
 import Notes from './components/Notes';
 import NoteDetails from './components/Note/NoteDetails';
 import Calendar from './components/Calendar';
@@ -210,6 +211,7 @@ const App: React.FC = () => {
                             <Route path="/notes" element={<Notes />} />
                             <Route path="/note/:id" element={<NoteDetails />} />
                             <Route path="/calendar" element={<Calendar />} />
+                            <Route path="/trash" element={<Trash />} />
                             <Route
                                 path="/profile"
                                 element={
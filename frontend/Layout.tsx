@@ -27,6 +27,7 @@ import {
 } from './utils/projectsService';
 import { createTask, updateTask } from './utils/tasksService';
 import { isAuthError } from './utils/authUtils';
+import { connectLiveUpdates } from './utils/liveUpdatesService';
 
 interface LayoutProps {
     currentUser: User;
@@ -102,6 +103,9 @@ const Layout: React.FC<LayoutProps> = ({
         setTaskModalType(type);
     };
 
+    // Keep the store in sync with changes made in other tabs and devices
+    useEffect(() => connectLiveUpdates(), []);
+
     useEffect(() => {
         const handleResize = () => {
             setIsSidebarOpen(window.innerWidth >= 1024);
@@ -507,6 +511,7 @@ const Layout: React.FC<LayoutProps> = ({
                     isOpen={isProjectModalOpen}
                     onClose={closeProjectModal}
                     onSave={handleSaveProject}
+                    onCreateFromTemplate={loadProjects}
                     onDelete={async (projectId) => {
                         try {
                             const { deleteProject } = await import(
@@ -153,9 +153,9 @@ const Calendar: React.FC = () => {
         }
 
         tasks.forEach((task) => {
-            // Add tasks with due dates
+            // Add tasks with due dates, timed ones at their due time
             if (task.due_date) {
-                const dueDate = new Date(task.due_date);
+                const dueDate = new Date(task.due_at || task.due_date);
                 const taskEvent = {
                     id: `task-${task.id}`,
                     title: task.name || task.title || `Task ${task.id}`,
@@ -26,13 +26,15 @@ const CalendarDayView: React.FC<CalendarDayViewProps> = ({
     const hours = Array.from({ length: 24 }, (_, i) => i);
 
     const getEventsForTimeSlot = (hour: number) => {
-        return events.filter((event) => {
-            const eventDay = format(event.start, 'yyyy-MM-dd');
-            const currentDay = format(currentDate, 'yyyy-MM-dd');
-            const eventHour = event.start.getHours();
+        return events
+            .filter((event) => {
+                const eventDay = format(event.start, 'yyyy-MM-dd');
+                const currentDay = format(currentDate, 'yyyy-MM-dd');
+                const eventHour = event.start.getHours();
 
-            return eventDay === currentDay && eventHour === hour;
-        });
+                return eventDay === currentDay && eventHour === hour;
+            })
+            .sort((a, b) => a.start.getTime() - b.start.getTime());
     };
 
     const handleTimeSlotClick = (hour: number) => {
@@ -38,13 +38,21 @@ const CalendarWeekView: React.FC<CalendarWeekViewProps> = ({
     const hours = Array.from({ length: 24 }, (_, i) => i);
 
     const getEventsForTimeSlot = (day: Date, hour: number) => {
-        return events.filter((event) => {
-            const eventDay = format(event.start, 'yyyy-MM-dd');
-            const slotDay = format(day, 'yyyy-MM-dd');
-            const eventHour = event.start.getHours();
+        return events
+            .filter((event) => {
+                const eventDay = format(event.start, 'yyyy-MM-dd');
+                const slotDay = format(day, 'yyyy-MM-dd');
+                const eventHour = event.start.getHours();
 
-            return eventDay === slotDay && eventHour === hour;
-        });
+                return eventDay === slotDay && eventHour === hour;
+            })
+            .sort((a, b) => a.start.getTime() - b.start.getTime());
+    };
+
+    // Offset within the hour slot, so a 15:30 task sits halfway down
+    const calculateEventPosition = (event: CalendarEvent) => {
+        const minutes = event.start.getMinutes();
+        return (minutes / 60) * 48; // 48px per hour
     };
 
     const handleTimeSlotClick = (day: Date, hour: number) => {
@@ -142,7 +150,7 @@ const CalendarWeekView: React.FC<CalendarWeekViewProps> = ({
                                             onClick={(e) =>
                                                 handleEventClick(event, e)
                                             }
-                                            className={`text-xs p-1 rounded text-white truncate cursor-pointer hover:opacity-80 transition-opacity absolute inset-1 ${
+                                            className={`text-xs p-1 rounded text-white truncate cursor-pointer hover:opacity-80 transition-opacity absolute left-1 right-1 z-10 ${
                                                 event.type === 'task'
                                                     ? 'border-l-2 border-l-white/50'
                                                     : ''
@@ -150,6 +158,9 @@ const CalendarWeekView: React.FC<CalendarWeekViewProps> = ({
                                             style={{
                                                 backgroundColor:
                                                     event.color || '#3b82f6',
+                                                top: calculateEventPosition(
+                                                    event
+                                                ),
                                             }}
                                             title={`${event.type === 'task' ? '📋 ' : ''}${event.title} - ${format(event.start, 'HH:mm')} to ${format(event.end, 'HH:mm')}`}
                                         >
@@ -0,0 +1,287 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { useTranslation } from 'react-i18next';
+import { TrashIcon } from '@heroicons/react/24/outline';
+import { SavedFilter, FilterParseError } from '../../entities/SavedFilter';
+import { FilterQueryError } from '../../utils/filtersService';
+import { useToast } from '../Shared/ToastContext';
+
+interface SavedFilterModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    onSave: (filterData: SavedFilter) => Promise<void>;
+    onDelete?: (filterId: number) => Promise<void>;
+    filter?: SavedFilter | null;
+}
+
+const QUERY_EXAMPLES = [
+    'tag:work priority:high',
+    'due:<7d -project:Home',
+    'status:in_progress,waiting',
+    'due:overdue "quarterly report"',
+];
+
+const SavedFilterModal: React.FC<SavedFilterModalProps> = ({
+    isOpen,
+    onClose,
+    onSave,
+    onDelete,
+    filter,
+}) => {
+    const { t } = useTranslation();
+    const [formData, setFormData] = useState<SavedFilter>({
+        id: filter?.id,
+        name: filter?.name || '',
+        query: filter?.query || '',
+    });
+    const [error, setError] = useState<string | null>(null);
+    const [parseErrors, setParseErrors] = useState<FilterParseError[]>([]);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [isClosing, setIsClosing] = useState(false);
+    const modalRef = useRef<HTMLDivElement>(null);
+
+    const { showSuccessToast, showErrorToast } = useToast();
+
+    useEffect(() => {
+        if (isOpen) {
+            setFormData({
+                id: filter?.id,
+                name: filter?.name || '',
+                query: filter?.query || '',
+            });
+            setError(null);
+            setParseErrors([]);
+        }
+    }, [isOpen, filter]);
+
+    useEffect(() => {
+        const handleClickOutside = (event: MouseEvent) => {
+            if (
+                modalRef.current &&
+                !modalRef.current.contains(event.target as Node)
+            ) {
+                handleClose();
+            }
+        };
+        const handleKeyDown = (event: KeyboardEvent) => {
+            if (event.key === 'Escape') {
+                handleClose();
+            }
+        };
+
+        if (isOpen) {
+            document.addEventListener('mousedown', handleClickOutside);
+            document.addEventListener('keydown', handleKeyDown);
+        }
+        return () => {
+            document.removeEventListener('mousedown', handleClickOutside);
+            document.removeEventListener('keydown', handleKeyDown);
+        };
+    }, [isOpen]);
+
+    const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const { name, value } = e.target;
+        setFormData((prev) => ({ ...prev, [name]: value }));
+        if (name === 'query') {
+            setParseErrors([]);
+        }
+    };
+
+    const handleClose = () => {
+        setIsClosing(true);
+        setTimeout(() => {
+            onClose();
+            setIsClosing(false);
+        }, 300);
+    };
+
+    const handleSubmit = async () => {
+        if (!formData.name.trim()) {
+            setError(t('filters.nameRequired', 'Filter name is required.'));
+            return;
+        }
+        if (!formData.query.trim()) {
+            setError(t('filters.queryRequired', 'Filter query is required.'));
+            return;
+        }
+
+        setIsSubmitting(true);
+        setError(null);
+        setParseErrors([]);
+
+        try {
+            await onSave(formData);
+            showSuccessToast(
+                formData.id
+                    ? t('filters.updated', 'Smart list updated')
+                    : t('filters.created', 'Smart list created')
+            );
+            handleClose();
+        } catch (err) {
+            setError((err as Error).message);
+            if (err instanceof FilterQueryError) {
+                setParseErrors(err.errors);
+            } else {
+                showErrorToast(
+                    t('filters.saveFailed', 'Failed to save smart list.')
+                );
+            }
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    const handleDelete = async () => {
+        if (!formData.id || !onDelete) return;
+
+        try {
+            await onDelete(formData.id);
+            showSuccessToast(t('filters.deleted', 'Smart list deleted'));
+            handleClose();
+        } catch (err) {
+            setError((err as Error).message);
+            showErrorToast(
+                t('filters.deleteFailed', 'Failed to delete smart list.')
+            );
+        }
+    };
+
+    if (!isOpen) return null;
+
+    return (
+        <div
+            className={`fixed top-16 left-0 right-0 bottom-0 bg-gray-900 bg-opacity-80 z-40 transition-opacity duration-300 overflow-hidden sm:overflow-y-auto ${
+                isClosing ? 'opacity-0' : 'opacity-100'
+            }`}
+        >
+            <div className="h-full flex items-center justify-center sm:px-4 sm:py-4">
+                <div
+                    ref={modalRef}
+                    className={`bg-white dark:bg-gray-800 border-0 sm:border sm:border-gray-200 sm:dark:border-gray-800 sm:rounded-lg sm:shadow-2xl w-full sm:max-w-lg transform transition-transform duration-300 ${
+                        isClosing ? 'scale-95' : 'scale-100'
+                    } h-full sm:h-auto sm:my-4`}
+                >
+                    <div className="flex flex-col h-full">
+                        <form
+                            className="flex-1 px-4 pt-4"
+                            onSubmit={(e) => {
+                                e.preventDefault();
+                                handleSubmit();
+                            }}
+                        >
+                            <div className="border-b border-gray-200 dark:border-gray-700 pb-4 mb-4">
+                                <input
+                                    type="text"
+                                    name="name"
+                                    value={formData.name}
+                                    onChange={handleChange}
+                                    className="block w-full text-xl font-semibold bg-transparent text-black dark:text-white border-none focus:outline-none shadow-sm py-2"
+                                    placeholder={t(
+                                        'filters.namePlaceholder',
+                                        'Smart list name'
+                                    )}
+                                />
+                            </div>
+
+                            <label
+                                htmlFor="filterQuery"
+                                className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+                            >
+                                {t('filters.query', 'Query')}
+                            </label>
+                            <input
+                                type="text"
+                                id="filterQuery"
+                                name="query"
+                                value={formData.query}
+                                onChange={handleChange}
+                                className={`block w-full font-mono text-sm border rounded-md shadow-sm p-2 bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100 focus:ring-2 focus:ring-blue-500 ${
+                                    parseErrors.length > 0
+                                        ? 'border-red-500'
+                                        : 'border-gray-300 dark:border-gray-600'
+                                }`}
+                                placeholder="tag:work priority:high due:<7d"
+                            />
+
+                            {parseErrors.length > 0 && (
+                                <ul className="mt-2 space-y-1 text-sm text-red-600 dark:text-red-400">
+                                    {parseErrors.map((parseError) => (
+                                        <li
+                                            key={`${parseError.position}-${parseError.token}`}
+                                        >
+                                            <code className="font-mono">
+                                                {parseError.token}
+                                            </code>{' '}
+                                            {parseError.message}
+                                        </li>
+                                    ))}
+                                </ul>
+                            )}
+
+                            <div className="mt-4 mb-4 text-xs text-gray-500 dark:text-gray-400 space-y-1">
+                                <p>
+                                    {t(
+                                        'filters.help',
+                                        'Combine tag:, project:, priority:, status: and due: terms. Prefix a term with - to exclude it.'
+                                    )}
+                                </p>
+                                <ul className="font-mono">
+                                    {QUERY_EXAMPLES.map((example) => (
+                                        <li key={example}>{example}</li>
+                                    ))}
+                                </ul>
+                            </div>
+
+                            {error && parseErrors.length === 0 && (
+                                <div className="text-red-500 mb-4">{error}</div>
+                            )}
+                        </form>
+
+                        <div className="flex-shrink-0 bg-white dark:bg-gray-800 border-t border-gray-200 dark:border-gray-700 px-3 py-2 flex items-center justify-between">
+                            <div className="flex items-center space-x-3">
+                                {formData.id && onDelete && (
+                                    <button
+                                        type="button"
+                                        onClick={handleDelete}
+                                        className="p-2 border border-red-300 dark:border-red-600 text-red-600 dark:text-red-400 rounded-md hover:bg-red-50 dark:hover:bg-red-900/20 focus:outline-none transition duration-150 ease-in-out"
+                                        title={t('common.delete', 'Delete')}
+                                    >
+                                        <TrashIcon className="h-4 w-4" />
+                                    </button>
+                                )}
+                                <button
+                                    type="button"
+                                    onClick={handleClose}
+                                    className="text-gray-600 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-200 focus:outline-none transition duration-150 ease-in-out text-sm"
+                                >
+                                    {t('common.cancel', 'Cancel')}
+                                </button>
+                            </div>
+
+                            <button
+                                type="button"
+                                onClick={handleSubmit}
+                                disabled={isSubmitting}
+                                className={`px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 dark:bg-blue-500 dark:hover:bg-blue-600 focus:outline-none transition duration-150 ease-in-out text-sm ${
+                                    isSubmitting
+                                        ? 'opacity-50 cursor-not-allowed'
+                                        : ''
+                                }`}
+                            >
+                                {isSubmitting
+                                    ? t('modals.submitting', 'Submitting...')
+                                    : formData.id
+                                      ? t('filters.update', 'Update Smart List')
+                                      : t(
+                                            'filters.create',
+                                            'Create Smart List'
+                                        )}
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default SavedFilterModal;
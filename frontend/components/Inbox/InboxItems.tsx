@@ -98,12 +98,8 @@ const InboxItems: React.FC = () => {
             }
         };
 
-        // Set up polling for new inbox items (especially from Telegram)
-        // This ensures real-time updates when items are added externally
-        // Use a reasonable interval that balances responsiveness with performance
-        const pollInterval = setInterval(() => {
-            loadInboxItemsToStore(false); // Don't show loading state during polling
-        }, 15000); // Check for new items every 15 seconds
+        // New items (e.g. from Telegram) arrive through the live update
+        // stream, which also raises inboxItemsUpdated for notifications
 
         // Add event listeners
         window.addEventListener('forceInboxReload', handleForceReload);
@@ -113,7 +109,6 @@ const InboxItems: React.FC = () => {
         );
 
         return () => {
-            clearInterval(pollInterval);
             window.removeEventListener('forceInboxReload', handleForceReload);
             window.removeEventListener(
                 'inboxItemsUpdated',
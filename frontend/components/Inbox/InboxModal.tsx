@@ -1,14 +1,29 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
+import React, {
+    useState,
+    useEffect,
+    useRef,
+    useCallback,
+    useMemo,
+} from 'react';
 import { Task } from '../../entities/Task';
 import { Tag } from '../../entities/Tag';
+import { TaskTemplate } from '../../entities/TaskTemplate';
 import { useToast } from '../Shared/ToastContext';
 import { useTranslation } from 'react-i18next';
 import { createInboxItemWithStore } from '../../utils/inboxService';
 import { isAuthError } from '../../utils/authUtils';
 import { createTag } from '../../utils/tagsService';
+import { taskFromTemplate } from '../../utils/taskTemplatesService';
 import { XMarkIcon, TagIcon } from '@heroicons/react/24/outline';
 import { useStore } from '../../store/useStore';
 import { Link } from 'react-router-dom';
+import {
+    parseQuickAdd,
+    hasTaskFields,
+    findProject,
+} from '../../../shared/quickAddParser';
+import QuickAddPreview from './QuickAddPreview';
+import TaskTemplateMenu from '../Task/TaskTemplateMenu';
 // import UrlPreview from "../Shared/UrlPreview";
 // import { UrlTitleResult } from "../../utils/urlService";
 
@@ -36,9 +51,9 @@ const InboxModal: React.FC<InboxModalProps> = ({
     const [isSaving, setIsSaving] = useState(false);
     const { showSuccessToast, showErrorToast } = useToast();
     const nameInputRef = useRef<HTMLInputElement>(null);
-    const [saveMode, setSaveMode] = useState<'task' | 'inbox'>('inbox');
     const {
         tagsStore: { tags, setTags },
+        projectsStore: { projects },
     } = useStore();
     const [showTagSuggestions, setShowTagSuggestions] = useState(false);
     const [filteredTags, setFilteredTags] = useState<Tag[]>([]);
@@ -49,6 +64,14 @@ const InboxModal: React.FC<InboxModalProps> = ({
         top: 0,
     });
     // const [urlPreview, setUrlPreview] = useState<UrlTitleResult | null>(null);
+    const [template, setTemplate] = useState<TaskTemplate | null>(null);
+
+    // Text with a date, priority, project or recurrence is saved as a task,
+    // as is anything started from a task template
+    const parsed = useMemo(() => parseQuickAdd(inputText), [inputText]);
+    const saveMode: 'task' | 'inbox' =
+        !editMode && (template || hasTaskFields(parsed)) ? 'task' : 'inbox';
+    const parsedProject = findProject(projects, parsed.project);
 
     // Dispatch global modal events to hide floating + button
 
@@ -139,6 +162,14 @@ const InboxModal: React.FC<InboxModalProps> = ({
         return { left: textWidth, top: input.offsetHeight };
     };
 
+    const handleTemplateSelect = (selected: TaskTemplate) => {
+        setTemplate(selected);
+        if (!inputText.trim()) {
+            setInputText(selected.task_name);
+        }
+        nameInputRef.current?.focus();
+    };
+
     useEffect(() => {
         if (isOpen && nameInputRef.current) {
             nameInputRef.current.focus();
@@ -266,9 +297,22 @@ const InboxModal: React.FC<InboxModalProps> = ({
             }
 
             if (saveMode === 'task') {
+                // Tasks only store a due date; the parsed time just decides
+                // which day a bare time like "8am" refers to. Anything typed
+                // takes precedence over the template's defaults.
+                const templateData = template ? taskFromTemplate(template) : {};
                 const newTask: Task = {
-                    name: inputText.trim(),
+                    ...templateData,
+                    name: parsed.name || inputText.trim(),
                     status: 'not_started',
+                    priority: parsed.priority || templateData.priority,
+                    due_date: parsed.due_date || templateData.due_date,
+                    project_id: parsedProject?.id || templateData.project_id,
+                    tags: [
+                        ...(templateData.tags || []),
+                        ...parsed.tags.map((name) => ({ name })),
+                    ],
+                    ...(parsed.recurrence || {}),
                 };
 
                 try {
@@ -316,6 +360,9 @@ const InboxModal: React.FC<InboxModalProps> = ({
         editMode,
         onEdit,
         saveMode,
+        parsed,
+        parsedProject,
+        template,
         onSave,
         showSuccessToast,
         showErrorToast,
@@ -331,7 +378,7 @@ const InboxModal: React.FC<InboxModalProps> = ({
             onClose();
             if (!editMode) {
                 setInputText('');
-                setSaveMode('inbox');
+                setTemplate(null);
             }
             setIsClosing(false);
         }, 300);
@@ -529,6 +576,34 @@ const InboxModal: React.FC<InboxModalProps> = ({
                                         </div>
                                     )}
 
+                                {template && (
+                                    <div className="flex items-center text-xs text-gray-500 dark:text-gray-400 mt-1">
+                                        <span>
+                                            {t('task.templates.applied', {
+                                                name: template.name,
+                                            })}
+                                        </span>
+                                        <button
+                                            type="button"
+                                            onClick={() => setTemplate(null)}
+                                            className="ml-1 p-0.5 hover:text-gray-700 dark:hover:text-gray-200 focus:outline-none"
+                                            title={t('task.templates.clear')}
+                                            aria-label={t(
+                                                'task.templates.clear'
+                                            )}
+                                        >
+                                            <XMarkIcon className="h-3 w-3" />
+                                        </button>
+                                    </div>
+                                )}
+
+                                {saveMode === 'task' && (
+                                    <QuickAddPreview
+                                        parsed={parsed}
+                                        project={parsedProject}
+                                    />
+                                )}
+
                                 {/* Tag Suggestions Dropdown */}
                                 {showTagSuggestions &&
                                     filteredTags.length > 0 && (
@@ -557,6 +632,13 @@ const InboxModal: React.FC<InboxModalProps> = ({
                                         </div>
                                     )}
                             </div>
+                            {!editMode && (
+                                <div className="mt-4 sm:mt-0 sm:ml-4">
+                                    <TaskTemplateMenu
+                                        onSelect={handleTemplateSelect}
+                                    />
+                                </div>
+                            )}
                             <button
                                 type="button"
                                 onClick={handleSubmit}
@@ -0,0 +1,140 @@
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+    CalendarIcon,
+    ArrowPathIcon,
+    FlagIcon,
+    FolderIcon,
+} from '@heroicons/react/24/outline';
+import { QuickAddResult } from '../../../shared/quickAddParser';
+import { Project } from '../../entities/Project';
+
+interface QuickAddPreviewProps {
+    parsed: QuickAddResult;
+    project: Project | null;
+}
+
+const WEEKDAY_KEYS = [
+    'sunday',
+    'monday',
+    'tuesday',
+    'wednesday',
+    'thursday',
+    'friday',
+    'saturday',
+];
+
+const PRIORITY_COLORS = {
+    low: 'text-gray-500 dark:text-gray-400',
+    medium: 'text-yellow-600 dark:text-yellow-400',
+    high: 'text-red-600 dark:text-red-400',
+};
+
+const chipClassName =
+    'inline-flex items-center px-2 py-0.5 rounded-full bg-gray-100 dark:bg-gray-700';
+
+// Live preview of the task fields parsed from quick add text
+const QuickAddPreview: React.FC<QuickAddPreviewProps> = ({
+    parsed,
+    project,
+}) => {
+    const { t } = useTranslation();
+
+    const formatDueDate = (dueDate: string) =>
+        // Parse as a local date so the preview shows the same calendar day
+        new Date(`${dueDate}T00:00:00`).toLocaleDateString(undefined, {
+            weekday: 'short',
+            month: 'short',
+            day: 'numeric',
+        });
+
+    const formatRecurrence = () => {
+        if (!parsed.recurrence) return '';
+        const {
+            recurrence_type,
+            recurrence_interval,
+            recurrence_weekday,
+            recurrence_month_day,
+        } = parsed.recurrence;
+
+        const label = t(`recurrence.${recurrence_type}`, recurrence_type);
+        const details: string[] = [];
+        if (recurrence_interval > 1) {
+            details.push(
+                t('quickAdd.everyInterval', 'every {{count}}', {
+                    count: recurrence_interval,
+                })
+            );
+        }
+        if (recurrence_type === 'weekly' && recurrence_weekday !== undefined) {
+            details.push(
+                t(
+                    `weekdays.${WEEKDAY_KEYS[recurrence_weekday]}`,
+                    WEEKDAY_KEYS[recurrence_weekday]
+                )
+            );
+        }
+        if (recurrence_type === 'monthly' && recurrence_month_day) {
+            details.push(
+                t('quickAdd.onDay', 'on day {{day}}', {
+                    day: recurrence_month_day,
+                })
+            );
+        }
+
+        return details.length > 0 ? `${label} (${details.join(', ')})` : label;
+    };
+
+    return (
+        <div className="mt-2">
+            <div className="flex flex-wrap items-center gap-2 text-xs text-gray-700 dark:text-gray-300">
+                {parsed.due_date && (
+                    <span className={chipClassName}>
+                        <CalendarIcon className="h-3 w-3 mr-1" />
+                        {formatDueDate(parsed.due_date)}
+                    </span>
+                )}
+                {parsed.recurrence && (
+                    <span className={chipClassName}>
+                        <ArrowPathIcon className="h-3 w-3 mr-1" />
+                        {formatRecurrence()}
+                    </span>
+                )}
+                {parsed.priority && (
+                    <span
+                        className={`${chipClassName} ${PRIORITY_COLORS[parsed.priority]}`}
+                    >
+                        <FlagIcon className="h-3 w-3 mr-1" />
+                        {t(`priority.${parsed.priority}`, parsed.priority)}
+                    </span>
+                )}
+                {parsed.project && (
+                    <span
+                        className={`${chipClassName} ${
+                            project
+                                ? ''
+                                : 'text-orange-500 dark:text-orange-400'
+                        }`}
+                        title={
+                            project
+                                ? undefined
+                                : t(
+                                      'quickAdd.projectNotFound',
+                                      'No project with this name'
+                                  )
+                        }
+                    >
+                        <FolderIcon className="h-3 w-3 mr-1" />
+                        {project ? project.name : parsed.project}
+                    </span>
+                )}
+            </div>
+            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                {t('quickAdd.savesAsTask', 'Will be saved as a task')}
+                {parsed.name && <>: &ldquo;{parsed.name}&rdquo;</>}
+            </p>
+        </div>
+    );
+};
+
+export default QuickAddPreview;
@@ -0,0 +1,87 @@
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+    CheckCircleIcon,
+    ExclamationTriangleIcon,
+    FlagIcon,
+} from '@heroicons/react/24/outline';
+import { ProjectSection, MilestoneStatus } from '../../entities/ProjectSection';
+import { Task } from '../../entities/Task';
+import { getSectionProgress } from '../../utils/projectSectionsService';
+
+interface ProjectMetricsCardProps {
+    sections: ProjectSection[];
+    tasks: Task[];
+}
+
+const statusIcons: Record<MilestoneStatus, React.ReactNode> = {
+    done: <CheckCircleIcon className="h-4 w-4 text-green-500 mr-2" />,
+    overdue: <ExclamationTriangleIcon className="h-4 w-4 text-red-500 mr-2" />,
+    open: <FlagIcon className="h-4 w-4 text-blue-500 mr-2" />,
+};
+
+const ProjectMetricsCard: React.FC<ProjectMetricsCardProps> = ({
+    sections,
+    tasks,
+}) => {
+    const { t, i18n } = useTranslation();
+
+    const milestones = sections.map((section) => ({
+        section,
+        progress: getSectionProgress(section, tasks),
+    }));
+    const reached = milestones.filter(
+        ({ progress }) => progress.status === 'done'
+    ).length;
+    const overdue = milestones.filter(
+        ({ progress }) => progress.status === 'overdue'
+    ).length;
+
+    return (
+        <div className="bg-white dark:bg-gray-900 rounded-lg shadow p-4 mb-6">
+            <div className="flex items-center justify-between mb-3">
+                <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                    {t('project.milestones.title')}
+                </h3>
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                    {t('project.milestones.reached', {
+                        reached,
+                        total: milestones.length,
+                    })}
+                    {overdue > 0 && (
+                        <span className="ml-2 text-red-600 dark:text-red-400">
+                            {t('project.milestones.overdue', { overdue })}
+                        </span>
+                    )}
+                </p>
+            </div>
+            <div className="space-y-2">
+                {milestones.map(({ section, progress }) => (
+                    <div
+                        key={section.id}
+                        className="flex items-center justify-between"
+                    >
+                        <div className="flex items-center min-w-0">
+                            {statusIcons[progress.status]}
+                            <p className="text-sm text-gray-900 dark:text-gray-100 truncate">
+                                {section.name}
+                            </p>
+                            {section.target_date && (
+                                <p className="ml-2 text-xs text-gray-500 dark:text-gray-400 flex-shrink-0">
+                                    {new Date(
+                                        section.target_date
+                                    ).toLocaleDateString(i18n.language)}
+                                </p>
+                            )}
+                        </div>
+                        <p className="text-sm font-semibold flex-shrink-0 ml-4">
+                            {progress.completed}/{progress.total}
+                        </p>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+export default ProjectMetricsCard;
@@ -8,6 +8,7 @@ import {
 } from '@heroicons/react/24/solid';
 import { useTranslation } from 'react-i18next';
 import PomodoroTimer from './Shared/PomodoroTimer';
+import GlobalSearch from './Search/GlobalSearch';
 
 interface NavbarProps {
     isDarkMode: boolean;
@@ -143,6 +144,11 @@ const Navbar: React.FC<NavbarProps> = ({
 
                 {/* Right section - Actions and user menu */}
                 <div className="flex items-center justify-end space-x-4 flex-1 px-4 sm:px-6 lg:px-8">
+                    {/* Global search */}
+                    <div className="hidden sm:flex flex-1 mr-auto">
+                        <GlobalSearch />
+                    </div>
+
                     <button
                         onClick={() => openTaskModal('simplified')}
                         className="flex items-center bg-blue-500 hover:bg-blue-600 text-white rounded-full focus:outline-none transition-all duration-200 px-2 py-2 md:px-3 md:py-2"
@@ -1,5 +1,6 @@
 import React, { useEffect, useState } from 'react';
 import { useParams, Link, useNavigate } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
 import {
     PencilSquareIcon,
     TrashIcon,
@@ -7,6 +8,7 @@ import {
     DocumentTextIcon,
 } from '@heroicons/react/24/solid';
 import ConfirmDialog from '../Shared/ConfirmDialog';
+import { useToast } from '../Shared/ToastContext';
 import NoteModal from './NoteModal';
 import MarkdownRenderer from '../Shared/MarkdownRenderer';
 import { Note } from '../../entities/Note';
@@ -26,6 +28,8 @@ const NoteDetails: React.FC = () => {
     const [isLoading, setIsLoading] = useState(true);
     const [isError, setIsError] = useState(false);
     const navigate = useNavigate();
+    const { t } = useTranslation();
+    const { showSuccessToast } = useToast();
 
     // Dispatch global modal events
 
@@ -52,8 +56,12 @@ const NoteDetails: React.FC = () => {
     const handleDeleteNote = async () => {
         if (!noteToDelete) return;
         try {
-            await apiDeleteNote(noteToDelete.id!);
+            const undoToken = await apiDeleteNote(noteToDelete.id!);
             navigate('/notes');
+            showSuccessToast(t('success.noteDeleted', 'Note deleted'), {
+                undoToken,
+                onUndo: () => navigate(`/note/${noteToDelete.id}`),
+            });
         } catch (err) {
             console.error('Error deleting note:', err);
         }
@@ -11,6 +11,7 @@ import {
 } from '@heroicons/react/24/solid';
 import NoteModal from './Note/NoteModal';
 import ConfirmDialog from './Shared/ConfirmDialog';
+import { useToast } from './Shared/ToastContext';
 import { Note } from '../entities/Note';
 import {
     fetchNotes,
@@ -24,6 +25,7 @@ import { createProject, fetchProjects } from '../utils/projectsService';
 const Notes: React.FC = () => {
 
     const { t } = useTranslation();
+    const { showSuccessToast } = useToast();
     const [notes, setNotes] = useState<Note[]>([]);
     const [selectedNote, setSelectedNote] = useState<Note | null>(null);
     const [isNoteModalOpen, setIsNoteModalOpen] = useState(false);
@@ -78,10 +80,14 @@ const Notes: React.FC = () => {
     const handleDeleteNote = async () => {
         if (!noteToDelete) return;
         try {
-            await apiDeleteNote(noteToDelete.id!);
+            const undoToken = await apiDeleteNote(noteToDelete.id!);
             setNotes((prev) =>
                 prev.filter((note) => note.id !== noteToDelete.id)
             );
+            showSuccessToast(t('success.noteDeleted', 'Note deleted'), {
+                undoToken,
+                onUndo: async () => setNotes(await fetchNotes()),
+            });
             setIsConfirmDialogOpen(false);
             setNoteToDelete(null);
         } catch (err) {
@@ -307,11 +307,12 @@ const ProductivityAssistant: React.FC<ProductivityAssistantProps> = ({
     const handleTaskSave = async (updatedTask: Task) => {
         try {
             if (updatedTask.id) {
-                await updateTask(updatedTask.id, updatedTask);
+                const savedTask = await updateTask(updatedTask.id, updatedTask);
                 setIsTaskModalOpen(false);
                 setSelectedTask(null);
                 showSuccessToast(
-                    t('task.updateSuccess', 'Task updated successfully')
+                    t('task.updateSuccess', 'Task updated successfully'),
+                    { undoToken: savedTask.undo_token }
                 );
                 // Optionally refresh the parent component data
             }
@@ -324,11 +325,12 @@ const ProductivityAssistant: React.FC<ProductivityAssistantProps> = ({
     const handleTaskDelete = async () => {
         try {
             if (selectedTask?.id) {
-                await deleteTask(selectedTask.id);
+                const undoToken = await deleteTask(selectedTask.id);
                 setIsTaskModalOpen(false);
                 setSelectedTask(null);
                 showSuccessToast(
-                    t('task.deleteSuccess', 'Task deleted successfully')
+                    t('task.deleteSuccess', 'Task deleted successfully'),
+                    { undoToken }
                 );
                 // Optionally refresh the parent component data
             }
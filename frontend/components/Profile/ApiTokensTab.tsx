@@ -0,0 +1,343 @@
+import React, { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+    KeyIcon,
+    ClipboardDocumentIcon,
+    ExclamationTriangleIcon,
+    TrashIcon,
+} from '@heroicons/react/24/outline';
+import { ApiToken, ApiTokenScope } from '../../entities/ApiToken';
+import {
+    fetchApiTokens,
+    createApiToken,
+    revokeApiToken,
+} from '../../utils/apiTokensService';
+import { useToast } from '../Shared/ToastContext';
+import ConfirmDialog from '../Shared/ConfirmDialog';
+
+const EXPIRY_OPTIONS = [
+    { days: 0, key: 'never', label: 'Never' },
+    { days: 7, key: 'days7', label: '7 days' },
+    { days: 30, key: 'days30', label: '30 days' },
+    { days: 90, key: 'days90', label: '90 days' },
+    { days: 365, key: 'year', label: '1 year' },
+];
+
+const inputClassName =
+    'block w-full border border-gray-300 dark:border-gray-600 rounded-md shadow-sm px-3 py-2 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
+
+// Personal access tokens for scripts and integrations. Rendered outside the
+// profile form because tokens are created and revoked immediately.
+const ApiTokensTab: React.FC = () => {
+    const { t } = useTranslation();
+    const { showSuccessToast, showErrorToast } = useToast();
+
+    const [tokens, setTokens] = useState<ApiToken[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [name, setName] = useState('');
+    const [scope, setScope] = useState<ApiTokenScope>('read');
+    const [expiryDays, setExpiryDays] = useState(0);
+    const [isCreating, setIsCreating] = useState(false);
+    const [newToken, setNewToken] = useState<string | null>(null);
+    const [tokenToRevoke, setTokenToRevoke] = useState<ApiToken | null>(null);
+
+    useEffect(() => {
+        const loadTokens = async () => {
+            try {
+                setTokens(await fetchApiTokens());
+            } catch (error) {
+                console.error('Error fetching API tokens:', error);
+                showErrorToast(
+                    t('apiTokens.loadFailed', 'Failed to load API tokens.')
+                );
+            } finally {
+                setIsLoading(false);
+            }
+        };
+
+        loadTokens();
+    }, []);
+
+    const handleCreate = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!name.trim()) {
+            showErrorToast(
+                t('apiTokens.nameRequired', 'Token name is required.')
+            );
+            return;
+        }
+
+        setIsCreating(true);
+        try {
+            const expiresAt = expiryDays
+                ? new Date(
+                      Date.now() + expiryDays * 24 * 60 * 60 * 1000
+                  ).toISOString()
+                : null;
+            const { token, ...created } = await createApiToken({
+                name: name.trim(),
+                scope,
+                expires_at: expiresAt,
+            });
+
+            setTokens((prev) => [created, ...prev]);
+            setNewToken(token);
+            setName('');
+            showSuccessToast(t('apiTokens.created', 'API token created'));
+        } catch (error) {
+            showErrorToast((error as Error).message);
+        } finally {
+            setIsCreating(false);
+        }
+    };
+
+    const handleCopy = async () => {
+        if (!newToken) return;
+        try {
+            await navigator.clipboard.writeText(newToken);
+            showSuccessToast(t('apiTokens.copied', 'Token copied'));
+        } catch {
+            showErrorToast(t('apiTokens.copyFailed', 'Failed to copy token.'));
+        }
+    };
+
+    const handleRevoke = async () => {
+        if (!tokenToRevoke) return;
+        try {
+            await revokeApiToken(tokenToRevoke.id);
+            setTokens((prev) =>
+                prev.filter((token) => token.id !== tokenToRevoke.id)
+            );
+            showSuccessToast(t('apiTokens.revoked', 'API token revoked'));
+        } catch (error) {
+            console.error('Error revoking API token:', error);
+            showErrorToast(
+                t('apiTokens.revokeFailed', 'Failed to revoke API token.')
+            );
+        } finally {
+            setTokenToRevoke(null);
+        }
+    };
+
+    const formatDate = (value: string | null, fallback: string) =>
+        value ? new Date(value).toLocaleDateString() : fallback;
+
+    const isExpired = (token: ApiToken) =>
+        !!token.expires_at && new Date(token.expires_at) <= new Date();
+
+    return (
+        <div className="bg-white dark:bg-gray-800 rounded-lg p-6 border border-gray-200 dark:border-gray-700">
+            <h3 className="text-xl font-semibold text-gray-900 dark:text-white mb-2 flex items-center">
+                <KeyIcon className="w-6 h-6 mr-3 text-yellow-500" />
+                {t('apiTokens.title', 'API Tokens')}
+            </h3>
+            <p className="text-sm text-gray-600 dark:text-gray-400 mb-2">
+                {t(
+                    'apiTokens.description',
+                    'Use personal access tokens to call the API from scripts and integrations. Send them in an "Authorization: Bearer <token>" header.'
+                )}
+            </p>
+            <p className="text-sm text-gray-600 dark:text-gray-400 mb-6">
+                {t(
+                    'apiTokens.caldavHint',
+                    'To sync tasks with a reminders app, add a CalDAV account for {{url}} with your email and a token as the password.',
+                    { url: `${window.location.origin}/caldav/` }
+                )}
+            </p>
+
+            {newToken && (
+                <div className="mb-6 p-4 bg-green-50 dark:bg-green-900 border border-green-200 dark:border-green-800 rounded-lg">
+                    <p className="text-sm text-green-800 dark:text-green-200 mb-2 flex items-center">
+                        <ExclamationTriangleIcon className="w-4 h-4 mr-1" />
+                        {t(
+                            'apiTokens.copyNow',
+                            "Copy this token now. You won't be able to see it again."
+                        )}
+                    </p>
+                    <div className="flex items-center space-x-2">
+                        <code className="flex-1 font-mono text-sm break-all p-2 bg-white dark:bg-gray-800 rounded border border-green-200 dark:border-green-800 text-gray-900 dark:text-gray-100">
+                            {newToken}
+                        </code>
+                        <button
+                            type="button"
+                            onClick={handleCopy}
+                            className="p-2 text-green-700 dark:text-green-300 hover:bg-green-100 dark:hover:bg-green-800 rounded-md"
+                            title={t('apiTokens.copy', 'Copy')}
+                        >
+                            <ClipboardDocumentIcon className="h-5 w-5" />
+                        </button>
+                    </div>
+                    <button
+                        type="button"
+                        onClick={() => setNewToken(null)}
+                        className="mt-2 text-sm text-green-700 dark:text-green-300 hover:underline"
+                    >
+                        {t('apiTokens.dismiss', 'Done')}
+                    </button>
+                </div>
+            )}
+
+            <form
+                onSubmit={handleCreate}
+                className="p-4 bg-gray-50 dark:bg-gray-700 rounded-lg mb-6"
+            >
+                <h4 className="text-lg font-medium text-gray-900 dark:text-white mb-3">
+                    {t('apiTokens.newToken', 'New token')}
+                </h4>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                            {t('apiTokens.name', 'Name')}
+                        </label>
+                        <input
+                            type="text"
+                            value={name}
+                            onChange={(e) => setName(e.target.value)}
+                            className={inputClassName}
+                            placeholder={t(
+                                'apiTokens.namePlaceholder',
+                                'e.g. Backup script'
+                            )}
+                        />
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                            {t('apiTokens.scope', 'Access')}
+                        </label>
+                        <select
+                            value={scope}
+                            onChange={(e) =>
+                                setScope(e.target.value as ApiTokenScope)
+                            }
+                            className={inputClassName}
+                        >
+                            <option value="read">
+                                {t('apiTokens.scopes.read', 'Read only')}
+                            </option>
+                            <option value="write">
+                                {t('apiTokens.scopes.write', 'Read and write')}
+                            </option>
+                        </select>
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                            {t('apiTokens.expiration', 'Expiration')}
+                        </label>
+                        <select
+                            value={expiryDays}
+                            onChange={(e) =>
+                                setExpiryDays(Number(e.target.value))
+                            }
+                            className={inputClassName}
+                        >
+                            {EXPIRY_OPTIONS.map((option) => (
+                                <option key={option.key} value={option.days}>
+                                    {t(
+                                        `apiTokens.expiry.${option.key}`,
+                                        option.label
+                                    )}
+                                </option>
+                            ))}
+                        </select>
+                    </div>
+                </div>
+                <div className="flex justify-end mt-4">
+                    <button
+                        type="submit"
+                        disabled={isCreating}
+                        className={`px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 dark:bg-blue-500 dark:hover:bg-blue-600 text-sm ${
+                            isCreating ? 'opacity-50 cursor-not-allowed' : ''
+                        }`}
+                    >
+                        {t('apiTokens.create', 'Create Token')}
+                    </button>
+                </div>
+            </form>
+
+            {isLoading ? (
+                <p className="text-sm text-gray-500 dark:text-gray-400">
+                    {t('common.loading', 'Loading...')}
+                </p>
+            ) : tokens.length === 0 ? (
+                <p className="text-sm text-gray-500 dark:text-gray-400">
+                    {t('apiTokens.empty', 'No API tokens yet.')}
+                </p>
+            ) : (
+                <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+                    {tokens.map((token) => (
+                        <li
+                            key={token.id}
+                            className="py-3 flex items-center justify-between"
+                        >
+                            <div className="min-w-0">
+                                <div className="flex items-center space-x-2">
+                                    <span className="font-medium text-gray-900 dark:text-white">
+                                        {token.name}
+                                    </span>
+                                    <span className="px-2 py-0.5 rounded-full text-xs bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300">
+                                        {token.scope === 'write'
+                                            ? t(
+                                                  'apiTokens.scopes.write',
+                                                  'Read and write'
+                                              )
+                                            : t(
+                                                  'apiTokens.scopes.read',
+                                                  'Read only'
+                                              )}
+                                    </span>
+                                    {isExpired(token) && (
+                                        <span className="px-2 py-0.5 rounded-full text-xs bg-red-100 dark:bg-red-900 text-red-700 dark:text-red-300">
+                                            {t('apiTokens.expired', 'Expired')}
+                                        </span>
+                                    )}
+                                </div>
+                                <div className="text-xs text-gray-500 dark:text-gray-400 mt-1 space-x-3">
+                                    <code className="font-mono">
+                                        {token.token_prefix}…
+                                    </code>
+                                    <span>
+                                        {t('apiTokens.lastUsed', 'Last used')}:{' '}
+                                        {formatDate(
+                                            token.last_used_at,
+                                            t('apiTokens.neverUsed', 'Never')
+                                        )}
+                                    </span>
+                                    <span>
+                                        {t('apiTokens.expires', 'Expires')}:{' '}
+                                        {formatDate(
+                                            token.expires_at,
+                                            t('apiTokens.expiry.never', 'Never')
+                                        )}
+                                    </span>
+                                </div>
+                            </div>
+                            <button
+                                type="button"
+                                onClick={() => setTokenToRevoke(token)}
+                                className="p-2 border border-red-300 dark:border-red-600 text-red-600 dark:text-red-400 rounded-md hover:bg-red-50 dark:hover:bg-red-900/20 focus:outline-none transition duration-150 ease-in-out"
+                                title={t('apiTokens.revoke', 'Revoke')}
+                            >
+                                <TrashIcon className="h-4 w-4" />
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            {tokenToRevoke && (
+                <ConfirmDialog
+                    title={t('apiTokens.revokeTitle', 'Revoke API token')}
+                    message={t(
+                        'apiTokens.revokeConfirm',
+                        'Revoke "{{name}}"? Anything using this token will stop working.',
+                        { name: tokenToRevoke.name }
+                    )}
+                    onConfirm={handleRevoke}
+                    onCancel={() => setTokenToRevoke(null)}
+                />
+            )}
+        </div>
+    );
+};
+
+export default ApiTokensTab;
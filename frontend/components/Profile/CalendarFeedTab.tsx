@@ -0,0 +1,267 @@
+import React, { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+    CalendarDaysIcon,
+    ClipboardDocumentIcon,
+    ArrowPathIcon,
+} from '@heroicons/react/24/outline';
+import { Project } from '../../entities/Project';
+import { Tag } from '../../entities/Tag';
+import {
+    CalendarFeedType,
+    fetchCalendarFeedToken,
+    regenerateCalendarFeedToken,
+    disableCalendarFeed,
+    buildCalendarFeedUrl,
+} from '../../utils/calendarFeedService';
+import { fetchProjects } from '../../utils/projectsService';
+import { fetchTags } from '../../utils/tagsService';
+import { useToast } from '../Shared/ToastContext';
+import ConfirmDialog from '../Shared/ConfirmDialog';
+
+const inputClassName =
+    'block w-full border border-gray-300 dark:border-gray-600 rounded-md shadow-sm px-3 py-2 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
+
+// Secret ICS subscription URL for calendar apps. Rendered outside the
+// profile form because the token changes immediately.
+const CalendarFeedTab: React.FC = () => {
+    const { t } = useTranslation();
+    const { showSuccessToast, showErrorToast } = useToast();
+
+    const [token, setToken] = useState<string | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+    const [isSaving, setIsSaving] = useState(false);
+    const [projects, setProjects] = useState<Project[]>([]);
+    const [tags, setTags] = useState<Tag[]>([]);
+    const [type, setType] = useState<CalendarFeedType>('event');
+    const [projectId, setProjectId] = useState('');
+    const [tagName, setTagName] = useState('');
+    const [isConfirmingRegenerate, setIsConfirmingRegenerate] = useState(false);
+
+    useEffect(() => {
+        const loadFeed = async () => {
+            try {
+                const [feedToken, fetchedProjects, fetchedTags] =
+                    await Promise.all([
+                        fetchCalendarFeedToken(),
+                        fetchProjects(),
+                        fetchTags(),
+                    ]);
+                setToken(feedToken);
+                setProjects(fetchedProjects);
+                setTags(fetchedTags);
+            } catch (error) {
+                console.error('Error fetching calendar feed:', error);
+                showErrorToast(
+                    t(
+                        'calendarFeed.loadFailed',
+                        'Failed to load calendar feed.'
+                    )
+                );
+            } finally {
+                setIsLoading(false);
+            }
+        };
+
+        loadFeed();
+    }, []);
+
+    const handleRegenerate = async () => {
+        setIsConfirmingRegenerate(false);
+        setIsSaving(true);
+        try {
+            setToken(await regenerateCalendarFeedToken());
+            showSuccessToast(
+                token
+                    ? t('calendarFeed.regenerated', 'Feed URL regenerated')
+                    : t('calendarFeed.enabled', 'Calendar feed enabled')
+            );
+        } catch (error) {
+            console.error('Error regenerating calendar feed:', error);
+            showErrorToast(
+                t('calendarFeed.saveFailed', 'Failed to update calendar feed.')
+            );
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleDisable = async () => {
+        setIsSaving(true);
+        try {
+            await disableCalendarFeed();
+            setToken(null);
+            showSuccessToast(
+                t('calendarFeed.disabled', 'Calendar feed disabled')
+            );
+        } catch (error) {
+            console.error('Error disabling calendar feed:', error);
+            showErrorToast(
+                t('calendarFeed.saveFailed', 'Failed to update calendar feed.')
+            );
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const feedUrl = token
+        ? buildCalendarFeedUrl(token, { type, projectId, tagName })
+        : null;
+
+    const handleCopy = async () => {
+        if (!feedUrl) return;
+        try {
+            await navigator.clipboard.writeText(feedUrl);
+            showSuccessToast(t('calendarFeed.copied', 'Feed URL copied'));
+        } catch {
+            showErrorToast(
+                t('calendarFeed.copyFailed', 'Failed to copy feed URL.')
+            );
+        }
+    };
+
+    return (
+        <div className="bg-white dark:bg-gray-800 rounded-lg p-6 border border-gray-200 dark:border-gray-700">
+            <h3 className="text-xl font-semibold text-gray-900 dark:text-white mb-2 flex items-center">
+                <CalendarDaysIcon className="w-6 h-6 mr-3 text-green-500" />
+                {t('calendarFeed.title', 'Calendar Feed')}
+            </h3>
+            <p className="text-sm text-gray-600 dark:text-gray-400 mb-6">
+                {t(
+                    'calendarFeed.description',
+                    'Subscribe to your tasks with due dates from any calendar app. Anyone with the URL can read the feed, so keep it private.'
+                )}
+            </p>
+
+            {isLoading ? (
+                <p className="text-sm text-gray-500 dark:text-gray-400">
+                    {t('common.loading', 'Loading...')}
+                </p>
+            ) : !token ? (
+                <button
+                    type="button"
+                    onClick={handleRegenerate}
+                    disabled={isSaving}
+                    className={`px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 dark:bg-blue-500 dark:hover:bg-blue-600 text-sm ${
+                        isSaving ? 'opacity-50 cursor-not-allowed' : ''
+                    }`}
+                >
+                    {t('calendarFeed.enable', 'Enable Calendar Feed')}
+                </button>
+            ) : (
+                <>
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                                {t('calendarFeed.type', 'Show tasks as')}
+                            </label>
+                            <select
+                                value={type}
+                                onChange={(e) =>
+                                    setType(e.target.value as CalendarFeedType)
+                                }
+                                className={inputClassName}
+                            >
+                                <option value="event">
+                                    {t('calendarFeed.types.event', 'Events')}
+                                </option>
+                                <option value="todo">
+                                    {t('calendarFeed.types.todo', 'To-dos')}
+                                </option>
+                            </select>
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                                {t('calendarFeed.project', 'Project')}
+                            </label>
+                            <select
+                                value={projectId}
+                                onChange={(e) => setProjectId(e.target.value)}
+                                className={inputClassName}
+                            >
+                                <option value="">
+                                    {t('calendarFeed.allProjects', 'All')}
+                                </option>
+                                {projects.map((project) => (
+                                    <option key={project.id} value={project.id}>
+                                        {project.name}
+                                    </option>
+                                ))}
+                            </select>
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                                {t('calendarFeed.tag', 'Tag')}
+                            </label>
+                            <select
+                                value={tagName}
+                                onChange={(e) => setTagName(e.target.value)}
+                                className={inputClassName}
+                            >
+                                <option value="">
+                                    {t('calendarFeed.allTags', 'All')}
+                                </option>
+                                {tags.map((tag) => (
+                                    <option key={tag.id} value={tag.name}>
+                                        {tag.name}
+                                    </option>
+                                ))}
+                            </select>
+                        </div>
+                    </div>
+
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                        {t('calendarFeed.url', 'Feed URL')}
+                    </label>
+                    <div className="flex items-center space-x-2 mb-6">
+                        <code className="flex-1 font-mono text-sm break-all p-2 bg-gray-50 dark:bg-gray-700 rounded border border-gray-200 dark:border-gray-600 text-gray-900 dark:text-gray-100">
+                            {feedUrl}
+                        </code>
+                        <button
+                            type="button"
+                            onClick={handleCopy}
+                            className="p-2 text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-md"
+                            title={t('calendarFeed.copy', 'Copy')}
+                        >
+                            <ClipboardDocumentIcon className="h-5 w-5" />
+                        </button>
+                    </div>
+
+                    <div className="flex justify-end space-x-3">
+                        <button
+                            type="button"
+                            onClick={handleDisable}
+                            disabled={isSaving}
+                            className="px-4 py-2 border border-red-300 dark:border-red-600 text-red-600 dark:text-red-400 rounded-md hover:bg-red-50 dark:hover:bg-red-900/20 text-sm"
+                        >
+                            {t('calendarFeed.disable', 'Disable')}
+                        </button>
+                        <button
+                            type="button"
+                            onClick={() => setIsConfirmingRegenerate(true)}
+                            disabled={isSaving}
+                            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 dark:bg-blue-500 dark:hover:bg-blue-600 text-sm flex items-center"
+                        >
+                            <ArrowPathIcon className="h-4 w-4 mr-2" />
+                            {t('calendarFeed.regenerate', 'Regenerate URL')}
+                        </button>
+                    </div>
+                </>
+            )}
+
+            {isConfirmingRegenerate && (
+                <ConfirmDialog
+                    title={t('calendarFeed.regenerateTitle', 'Regenerate URL')}
+                    message={t(
+                        'calendarFeed.regenerateConfirm',
+                        'Calendars subscribed to the current URL will stop updating. Continue?'
+                    )}
+                    onConfirm={handleRegenerate}
+                    onCancel={() => setIsConfirmingRegenerate(false)}
+                />
+            )}
+        </div>
+    );
+};
+
+export default CalendarFeedTab;
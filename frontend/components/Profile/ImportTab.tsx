@@ -0,0 +1,358 @@
+import React, { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+    ArrowDownTrayIcon,
+    ExclamationTriangleIcon,
+} from '@heroicons/react/24/outline';
+import {
+    Importer,
+    ImportPreview,
+    fetchImporters,
+    previewImport,
+    runImport,
+} from '../../utils/importersService';
+import { useToast } from '../Shared/ToastContext';
+
+const inputClassName =
+    'block w-full border border-gray-300 dark:border-gray-600 rounded-md shadow-sm px-3 py-2 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
+
+const RECURRENCE_KEYS: Record<string, string> = {
+    daily: 'recurrence.daily',
+    weekly: 'recurrence.weekly',
+    monthly: 'recurrence.monthly',
+    monthly_weekday: 'recurrence.monthlyWeekday',
+    monthly_last_day: 'recurrence.monthlyLastDay',
+};
+
+// Imports tasks from other apps' exports. Nothing is saved until the
+// preview, including what can't be mapped, has been confirmed.
+const ImportTab: React.FC = () => {
+    const { t } = useTranslation();
+    const { showSuccessToast, showErrorToast } = useToast();
+
+    const [importers, setImporters] = useState<Importer[]>([]);
+    const [source, setSource] = useState('');
+    const [file, setFile] = useState<File | null>(null);
+    const [preview, setPreview] = useState<ImportPreview | null>(null);
+    const [isWorking, setIsWorking] = useState(false);
+    const [fileInputKey, setFileInputKey] = useState(0);
+
+    useEffect(() => {
+        const loadImporters = async () => {
+            try {
+                const fetchedImporters = await fetchImporters();
+                setImporters(fetchedImporters);
+                if (fetchedImporters.length > 0) {
+                    setSource(fetchedImporters[0].id);
+                }
+            } catch (error) {
+                console.error('Error fetching importers:', error);
+                showErrorToast(
+                    t('importers.loadFailed', 'Failed to load importers.')
+                );
+            }
+        };
+
+        loadImporters();
+    }, []);
+
+    const selectedImporter = importers.find(
+        (importer) => importer.id === source
+    );
+
+    const reset = () => {
+        setPreview(null);
+        setFile(null);
+        setFileInputKey((key) => key + 1);
+    };
+
+    const handlePreview = async () => {
+        if (!file || !source) return;
+        setIsWorking(true);
+        try {
+            setPreview(await previewImport(source, file));
+        } catch (error) {
+            console.error('Error previewing import:', error);
+            showErrorToast((error as Error).message);
+        } finally {
+            setIsWorking(false);
+        }
+    };
+
+    const handleImport = async () => {
+        if (!file || !source) return;
+        setIsWorking(true);
+        try {
+            const report = await runImport(source, file);
+            showSuccessToast(
+                t('importers.imported', 'Imported {{count}} tasks', {
+                    count: report.created.tasks,
+                })
+            );
+            reset();
+        } catch (error) {
+            console.error('Error importing:', error);
+            showErrorToast((error as Error).message);
+        } finally {
+            setIsWorking(false);
+        }
+    };
+
+    const counts = preview
+        ? [
+              {
+                  label: t('importers.counts.areas', 'Areas'),
+                  value: preview.counts.areas,
+              },
+              {
+                  label: t('importers.counts.projects', 'Projects'),
+                  value: preview.counts.projects,
+              },
+              {
+                  label: t('importers.counts.tags', 'Tags'),
+                  value: preview.counts.tags,
+              },
+              {
+                  label: t('importers.counts.tasks', 'Tasks'),
+                  value: preview.counts.tasks,
+              },
+              {
+                  label: t('importers.counts.subtasks', 'Subtasks'),
+                  value: preview.counts.subtasks,
+              },
+              {
+                  label: t('importers.counts.recurring', 'Recurring'),
+                  value: preview.counts.recurring,
+              },
+              {
+                  label: t('importers.counts.completed', 'Completed'),
+                  value: preview.counts.completed,
+              },
+          ]
+        : [];
+
+    return (
+        <div className="bg-white dark:bg-gray-800 rounded-lg p-6 border border-gray-200 dark:border-gray-700">
+            <h3 className="text-xl font-semibold text-gray-900 dark:text-white mb-2 flex items-center">
+                <ArrowDownTrayIcon className="w-6 h-6 mr-3 text-blue-500" />
+                {t('importers.title', 'Import from Other Apps')}
+            </h3>
+            <p className="text-sm text-gray-600 dark:text-gray-400 mb-6">
+                {t(
+                    'importers.description',
+                    'Bring your projects, labels and tasks over from another task manager. You can review what will be imported before anything is saved.'
+                )}
+            </p>
+
+            {!preview ? (
+                <>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                                {t('importers.source', 'Import from')}
+                            </label>
+                            <select
+                                value={source}
+                                onChange={(e) => setSource(e.target.value)}
+                                className={inputClassName}
+                            >
+                                {importers.map((importer) => (
+                                    <option
+                                        key={importer.id}
+                                        value={importer.id}
+                                    >
+                                        {importer.name}
+                                    </option>
+                                ))}
+                            </select>
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                                {t('importers.file', 'Export file')}
+                            </label>
+                            <input
+                                key={fileInputKey}
+                                type="file"
+                                accept={selectedImporter?.extensions.join(',')}
+                                onChange={(e) =>
+                                    setFile(e.target.files?.[0] || null)
+                                }
+                                className="block w-full text-sm text-gray-700 dark:text-gray-300"
+                            />
+                        </div>
+                    </div>
+                    <div className="flex justify-end">
+                        <button
+                            type="button"
+                            onClick={handlePreview}
+                            disabled={!file || isWorking}
+                            className={`px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 dark:bg-blue-500 dark:hover:bg-blue-600 text-sm ${
+                                !file || isWorking
+                                    ? 'opacity-50 cursor-not-allowed'
+                                    : ''
+                            }`}
+                        >
+                            {isWorking
+                                ? t('common.loading', 'Loading...')
+                                : t('importers.preview', 'Preview')}
+                        </button>
+                    </div>
+                </>
+            ) : (
+                <>
+                    <div className="grid grid-cols-2 sm:grid-cols-4 lg:grid-cols-7 gap-3 mb-6">
+                        {counts.map((count) => (
+                            <div
+                                key={count.label}
+                                className="p-3 bg-gray-50 dark:bg-gray-700 rounded-md text-center"
+                            >
+                                <div className="text-lg font-semibold text-gray-900 dark:text-white">
+                                    {count.value}
+                                </div>
+                                <div className="text-xs text-gray-500 dark:text-gray-400">
+                                    {count.label}
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+
+                    {preview.unmapped.length > 0 && (
+                        <div className="mb-6 p-4 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-md">
+                            <h4 className="text-sm font-medium text-yellow-800 dark:text-yellow-200 mb-2 flex items-center">
+                                <ExclamationTriangleIcon className="w-5 h-5 mr-2" />
+                                {t(
+                                    'importers.unmappedTitle',
+                                    'Some details have no equivalent and will not be imported'
+                                )}
+                            </h4>
+                            <ul className="space-y-2 text-sm text-yellow-800 dark:text-yellow-200">
+                                {preview.unmapped.map((entry) => (
+                                    <li key={`${entry.field}-${entry.reason}`}>
+                                        <span className="font-mono">
+                                            {entry.field}
+                                        </span>{' '}
+                                        ({entry.count}): {entry.reason}
+                                        {entry.examples.length > 0 && (
+                                            <div className="text-xs opacity-75">
+                                                {t(
+                                                    'importers.examples',
+                                                    'e.g.'
+                                                )}{' '}
+                                                {entry.examples.join(', ')}
+                                            </div>
+                                        )}
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
+
+                    <div className="overflow-x-auto mb-6 max-h-96 overflow-y-auto">
+                        <table className="min-w-full text-sm">
+                            <thead>
+                                <tr className="text-left text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                                    <th className="py-2 pr-4 font-medium">
+                                        {t('importers.columns.task', 'Task')}
+                                    </th>
+                                    <th className="py-2 pr-4 font-medium">
+                                        {t(
+                                            'importers.columns.project',
+                                            'Project'
+                                        )}
+                                    </th>
+                                    <th className="py-2 pr-4 font-medium">
+                                        {t('importers.columns.due', 'Due')}
+                                    </th>
+                                    <th className="py-2 pr-4 font-medium">
+                                        {t(
+                                            'importers.columns.repeats',
+                                            'Repeats'
+                                        )}
+                                    </th>
+                                    <th className="py-2 font-medium">
+                                        {t('importers.columns.tags', 'Tags')}
+                                    </th>
+                                </tr>
+                            </thead>
+                            <tbody className="text-gray-900 dark:text-gray-100">
+                                {preview.tasks.map((task, index) => (
+                                    <tr
+                                        key={index}
+                                        className="border-b border-gray-100 dark:border-gray-700"
+                                    >
+                                        <td className="py-2 pr-4">
+                                            {task.parent && (
+                                                <span className="text-gray-400 mr-1">
+                                                    ↳
+                                                </span>
+                                            )}
+                                            {task.name}
+                                        </td>
+                                        <td className="py-2 pr-4">
+                                            {task.project || '—'}
+                                        </td>
+                                        <td className="py-2 pr-4">
+                                            {task.due_date || '—'}
+                                        </td>
+                                        <td className="py-2 pr-4">
+                                            {RECURRENCE_KEYS[
+                                                task.recurrence_type
+                                            ]
+                                                ? t(
+                                                      RECURRENCE_KEYS[
+                                                          task.recurrence_type
+                                                      ]
+                                                  )
+                                                : '—'}
+                                        </td>
+                                        <td className="py-2">
+                                            {task.tags.join(', ')}
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                        {preview.counts.tasks > preview.tasks.length && (
+                            <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+                                {t(
+                                    'importers.moreTasks',
+                                    'and {{count}} more',
+                                    {
+                                        count:
+                                            preview.counts.tasks -
+                                            preview.tasks.length,
+                                    }
+                                )}
+                            </p>
+                        )}
+                    </div>
+
+                    <div className="flex justify-end space-x-3">
+                        <button
+                            type="button"
+                            onClick={reset}
+                            disabled={isWorking}
+                            className="px-4 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-md hover:bg-gray-50 dark:hover:bg-gray-700 text-sm"
+                        >
+                            {t('common.cancel', 'Cancel')}
+                        </button>
+                        <button
+                            type="button"
+                            onClick={handleImport}
+                            disabled={isWorking}
+                            className={`px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 dark:bg-blue-500 dark:hover:bg-blue-600 text-sm ${
+                                isWorking ? 'opacity-50 cursor-not-allowed' : ''
+                            }`}
+                        >
+                            {t('importers.confirm', 'Import {{count}} tasks', {
+                                count: preview.counts.tasks,
+                            })}
+                        </button>
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
+
+export default ImportTab;
@@ -21,8 +21,16 @@ import {
     ExclamationTriangleIcon,
     FaceSmileIcon,
     CheckIcon,
+    KeyIcon,
+    LinkIcon,
+    CalendarDaysIcon,
+    ArrowDownTrayIcon,
 } from '@heroicons/react/24/outline';
 import TelegramIcon from '../Icons/TelegramIcon';
+import ApiTokensTab from './ApiTokensTab';
+import WebhooksTab from './WebhooksTab';
+import CalendarFeedTab from './CalendarFeedTab';
+import ImportTab from './ImportTab';
 import { useToast } from '../Shared/ToastContext';
 import { dispatchTelegramStatusChange } from '../../contexts/TelegramStatusContext';
 
@@ -334,9 +342,11 @@ const ProfileSettings: React.FC<ProfileSettingsProps> = ({
                         headers: {
                             'Content-Type': 'application/json',
                         },
-                        body: JSON.stringify({ token: profile.telegram_bot_token }),
+                        body: JSON.stringify({
+                            token: profile.telegram_bot_token,
+                        }),
                     });
-                    
+
                     if (setupResponse.ok) {
                         const setupData = await setupResponse.json();
                         if (setupData.bot) {
@@ -344,23 +354,26 @@ const ProfileSettings: React.FC<ProfileSettingsProps> = ({
                                 username: setupData.bot.username,
                                 first_name: setupData.bot.first_name,
                                 chat_url: `https://t.me/${setupData.bot.username}`,
-                                polling_status: null
+                                polling_status: null,
                             });
                         }
                     }
 
                     // Also fetch and auto-start polling status
-                    const pollingResponse = await fetch('/api/telegram/polling-status', {
-                        credentials: 'include',
-                        headers: {
-                            Accept: 'application/json',
-                        },
-                    });
-                    
+                    const pollingResponse = await fetch(
+                        '/api/telegram/polling-status',
+                        {
+                            credentials: 'include',
+                            headers: {
+                                Accept: 'application/json',
+                            },
+                        }
+                    );
+
                     if (pollingResponse.ok) {
                         const pollingData = await pollingResponse.json();
                         setIsPolling(pollingData.status?.running || false);
-                        
+
                         // Auto-start polling if not running
                         if (!pollingData.status?.running) {
                             setTimeout(() => {
@@ -443,11 +456,11 @@ const ProfileSettings: React.FC<ProfileSettingsProps> = ({
 
             const data = await response.json();
             setTelegramSetupStatus('success');
-            
+
             // Extract bot info properly
             const bot = data.bot;
             let botDisplayName = 'Bot';
-            
+
             if (bot) {
                 if (bot.first_name && bot.username) {
                     botDisplayName = `${bot.first_name} (@${bot.username})`;
@@ -457,7 +470,7 @@ const ProfileSettings: React.FC<ProfileSettingsProps> = ({
                     botDisplayName = `@${bot.username}`;
                 }
             }
-            
+
             showSuccessToast(
                 t(
                     'profile.telegramSetupSuccess',
@@ -471,7 +484,7 @@ const ProfileSettings: React.FC<ProfileSettingsProps> = ({
                     username: data.bot.username,
                     first_name: data.bot.first_name,
                     chat_url: `https://t.me/${data.bot.username}`,
-                    polling_status: null
+                    polling_status: null,
                 });
                 setIsPolling(true);
 
@@ -483,7 +496,9 @@ const ProfileSettings: React.FC<ProfileSettingsProps> = ({
                             headers: {
                                 'Content-Type': 'application/json',
                             },
-                            body: JSON.stringify({ chatId: profile.telegram_chat_id }),
+                            body: JSON.stringify({
+                                chatId: profile.telegram_chat_id,
+                            }),
                         });
                     } catch (error) {
                         console.error('Error sending welcome message:', error);
@@ -495,7 +510,7 @@ const ProfileSettings: React.FC<ProfileSettingsProps> = ({
                         handleStartPolling();
                     }, 1000);
                 }
-                
+
                 // Dispatch status change event
                 dispatchTelegramStatusChange('healthy');
             }
@@ -522,7 +537,7 @@ const ProfileSettings: React.FC<ProfileSettingsProps> = ({
             const data = await response.json();
             setIsPolling(true);
             showSuccessToast(t('profile.pollingStarted'));
-            
+
             // Dispatch status change event
             dispatchTelegramStatusChange('healthy');
 
@@ -557,7 +572,7 @@ const ProfileSettings: React.FC<ProfileSettingsProps> = ({
             showSuccessToast(
                 t('profile.pollingStopped', 'Polling stopped successfully.')
             );
-            
+
             // Dispatch status change event
             dispatchTelegramStatusChange('problem');
 
@@ -756,8 +771,31 @@ const ProfileSettings: React.FC<ProfileSettingsProps> = ({
             name: t('profile.tabs.ai', 'AI Features'),
             icon: 'sparkles',
         },
+        {
+            id: 'api',
+            name: t('profile.tabs.apiTokens', 'API Tokens'),
+            icon: 'key',
+        },
+        {
+            id: 'webhooks',
+            name: t('profile.tabs.webhooks', 'Webhooks'),
+            icon: 'link',
+        },
+        {
+            id: 'calendar',
+            name: t('profile.tabs.calendarFeed', 'Calendar Feed'),
+            icon: 'calendar',
+        },
+        {
+            id: 'import',
+            name: t('profile.tabs.import', 'Import'),
+            icon: 'import',
+        },
     ];
 
+    // These tabs save their own changes immediately
+    const SELF_SAVING_TABS = ['api', 'webhooks', 'calendar', 'import'];
+
     const renderTabIcon = (iconType: string) => {
         switch (iconType) {
             case 'user':
@@ -770,6 +808,14 @@ const ProfileSettings: React.FC<ProfileSettingsProps> = ({
                 return <ShieldCheckIcon className="w-5 h-5" />;
             case 'sparkles':
                 return <LightBulbIcon className="w-5 h-5" />;
+            case 'key':
+                return <KeyIcon className="w-5 h-5" />;
+            case 'link':
+                return <LinkIcon className="w-5 h-5" />;
+            case 'calendar':
+                return <CalendarDaysIcon className="w-5 h-5" />;
+            case 'import':
+                return <ArrowDownTrayIcon className="w-5 h-5" />;
             default:
                 return null;
         }
@@ -809,6 +855,11 @@ const ProfileSettings: React.FC<ProfileSettingsProps> = ({
                 </div>
             </div>
 
+            {activeTab === 'api' && <ApiTokensTab />}
+            {activeTab === 'webhooks' && <WebhooksTab />}
+            {activeTab === 'calendar' && <CalendarFeedTab />}
+            {activeTab === 'import' && <ImportTab />}
+
             <form onSubmit={handleSubmit} className="space-y-8">
                 {/* General Tab */}
                 {activeTab === 'general' && (
@@ -1417,7 +1468,8 @@ const ProfileSettings: React.FC<ProfileSettingsProps> = ({
                                     </div>
                                 )}
 
-                                {(telegramBotInfo || profile?.telegram_bot_token) && (
+                                {(telegramBotInfo ||
+                                    profile?.telegram_bot_token) && (
                                     <div className="p-2 bg-blue-50 dark:bg-blue-900 border border-blue-200 dark:border-blue-800 rounded text-blue-800 dark:text-blue-200">
                                         <p className="font-medium mb-2">
                                             {t(
@@ -1543,23 +1595,44 @@ const ProfileSettings: React.FC<ProfileSettingsProps> = ({
                                               'Setup Telegram'
                                           )}
                                 </button>
-                                
+
                                 {/* Status indicator */}
                                 {telegramSetupStatus === 'success' && (
                                     <div className="mt-2 flex items-center text-green-600 dark:text-green-400">
-                                        <svg className="w-5 h-5 mr-2" fill="currentColor" viewBox="0 0 20 20">
-                                            <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm3.707-9.293a1 1 0 00-1.414-1.414L9 10.586 7.707 9.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4z" clipRule="evenodd" />
+                                        <svg
+                                            className="w-5 h-5 mr-2"
+                                            fill="currentColor"
+                                            viewBox="0 0 20 20"
+                                        >
+                                            <path
+                                                fillRule="evenodd"
+                                                d="M10 18a8 8 0 100-16 8 8 0 000 16zm3.707-9.293a1 1 0 00-1.414-1.414L9 10.586 7.707 9.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4z"
+                                                clipRule="evenodd"
+                                            />
                                         </svg>
-                                        <span className="text-sm font-medium">Bot configured successfully!</span>
+                                        <span className="text-sm font-medium">
+                                            Bot configured successfully!
+                                        </span>
                                     </div>
                                 )}
-                                
+
                                 {telegramSetupStatus === 'error' && (
                                     <div className="mt-2 flex items-center text-red-600 dark:text-red-400">
-                                        <svg className="w-5 h-5 mr-2" fill="currentColor" viewBox="0 0 20 20">
-                                            <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM8.707 7.293a1 1 0 00-1.414 1.414L8.586 10l-1.293 1.293a1 1 0 101.414 1.414L10 11.414l1.293 1.293a1 1 0 001.414-1.414L11.414 10l1.293-1.293a1 1 0 00-1.414-1.414L10 8.586 8.707 7.293z" clipRule="evenodd" />
+                                        <svg
+                                            className="w-5 h-5 mr-2"
+                                            fill="currentColor"
+                                            viewBox="0 0 20 20"
+                                        >
+                                            <path
+                                                fillRule="evenodd"
+                                                d="M10 18a8 8 0 100-16 8 8 0 000 16zM8.707 7.293a1 1 0 00-1.414 1.414L8.586 10l-1.293 1.293a1 1 0 101.414 1.414L10 11.414l1.293 1.293a1 1 0 001.414-1.414L11.414 10l1.293-1.293a1 1 0 00-1.414-1.414L10 8.586 8.707 7.293z"
+                                                clipRule="evenodd"
+                                            />
                                         </svg>
-                                        <span className="text-sm font-medium">Setup failed. Please check your token.</span>
+                                        <span className="text-sm font-medium">
+                                            Setup failed. Please check your
+                                            token.
+                                        </span>
                                     </div>
                                 )}
                             </div>
@@ -1952,15 +2025,19 @@ const ProfileSettings: React.FC<ProfileSettingsProps> = ({
                 )}
 
                 {/* Save Button */}
-                <div className="flex justify-end dark:border-gray-700">
-                    <button
-                        type="submit"
-                        className="px-6 py-3 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 dark:bg-blue-500 dark:hover:bg-blue-600 transition-colors duration-200 flex items-center space-x-2"
-                    >
-                        <CheckIcon className="w-5 h-5" />
-                        <span>{t('profile.saveChanges', 'Save Changes')}</span>
-                    </button>
-                </div>
+                {!SELF_SAVING_TABS.includes(activeTab) && (
+                    <div className="flex justify-end dark:border-gray-700">
+                        <button
+                            type="submit"
+                            className="px-6 py-3 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 dark:bg-blue-500 dark:hover:bg-blue-600 transition-colors duration-200 flex items-center space-x-2"
+                        >
+                            <CheckIcon className="w-5 h-5" />
+                            <span>
+                                {t('profile.saveChanges', 'Save Changes')}
+                            </span>
+                        </button>
+                    </div>
+                )}
             </form>
         </div>
     );
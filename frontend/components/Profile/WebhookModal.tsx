@@ -0,0 +1,356 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { useTranslation } from 'react-i18next';
+import { TrashIcon } from '@heroicons/react/24/outline';
+import { Webhook, WebhookEvent } from '../../entities/Webhook';
+import { useToast } from '../Shared/ToastContext';
+
+interface WebhookModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    onSave: (webhookData: Webhook) => Promise<void>;
+    onDelete?: (webhookId: number) => Promise<void>;
+    webhook?: Webhook | null;
+}
+
+const WEBHOOK_EVENT_GROUPS: {
+    key: string;
+    label: string;
+    events: WebhookEvent[];
+}[] = [
+    {
+        key: 'tasks',
+        label: 'Tasks',
+        events: [
+            'task.created',
+            'task.updated',
+            'task.completed',
+            'task.deleted',
+        ],
+    },
+    {
+        key: 'projects',
+        label: 'Projects',
+        events: ['project.created', 'project.updated', 'project.deleted'],
+    },
+    {
+        key: 'notes',
+        label: 'Notes',
+        events: ['note.created', 'note.updated', 'note.deleted'],
+    },
+];
+
+const emptyWebhook = (): Webhook => ({
+    name: '',
+    url: '',
+    secret: '',
+    events: ['task.created', 'task.completed'],
+    active: true,
+});
+
+const WebhookModal: React.FC<WebhookModalProps> = ({
+    isOpen,
+    onClose,
+    onSave,
+    onDelete,
+    webhook,
+}) => {
+    const { t } = useTranslation();
+    const [formData, setFormData] = useState<Webhook>(
+        webhook ? { ...webhook } : emptyWebhook()
+    );
+    const [error, setError] = useState<string | null>(null);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [isClosing, setIsClosing] = useState(false);
+    const modalRef = useRef<HTMLDivElement>(null);
+
+    const { showSuccessToast, showErrorToast } = useToast();
+
+    useEffect(() => {
+        if (isOpen) {
+            setFormData(webhook ? { ...webhook } : emptyWebhook());
+            setError(null);
+        }
+    }, [isOpen, webhook]);
+
+    useEffect(() => {
+        const handleClickOutside = (event: MouseEvent) => {
+            if (
+                modalRef.current &&
+                !modalRef.current.contains(event.target as Node)
+            ) {
+                handleClose();
+            }
+        };
+        const handleKeyDown = (event: KeyboardEvent) => {
+            if (event.key === 'Escape') {
+                handleClose();
+            }
+        };
+
+        if (isOpen) {
+            document.addEventListener('mousedown', handleClickOutside);
+            document.addEventListener('keydown', handleKeyDown);
+        }
+        return () => {
+            document.removeEventListener('mousedown', handleClickOutside);
+            document.removeEventListener('keydown', handleKeyDown);
+        };
+    }, [isOpen]);
+
+    const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const { name, value } = e.target;
+        setFormData((prev) => ({ ...prev, [name]: value }));
+    };
+
+    const toggleEvent = (event: WebhookEvent) => {
+        setFormData((prev) => ({
+            ...prev,
+            events: prev.events.includes(event)
+                ? prev.events.filter((e) => e !== event)
+                : [...prev.events, event],
+        }));
+    };
+
+    const handleClose = () => {
+        setIsClosing(true);
+        setTimeout(() => {
+            onClose();
+            setIsClosing(false);
+        }, 300);
+    };
+
+    const handleSubmit = async () => {
+        if (!formData.name.trim()) {
+            setError(t('webhooks.nameRequired', 'Webhook name is required.'));
+            return;
+        }
+        if (!formData.url.trim()) {
+            setError(t('webhooks.urlRequired', 'Webhook URL is required.'));
+            return;
+        }
+        if (formData.events.length === 0) {
+            setError(
+                t('webhooks.eventsRequired', 'Select at least one event.')
+            );
+            return;
+        }
+
+        setIsSubmitting(true);
+        setError(null);
+
+        try {
+            await onSave(formData);
+            showSuccessToast(
+                formData.id
+                    ? t('webhooks.updated', 'Webhook updated')
+                    : t('webhooks.created', 'Webhook created')
+            );
+            handleClose();
+        } catch (err) {
+            setError((err as Error).message);
+            showErrorToast(t('webhooks.saveFailed', 'Failed to save webhook.'));
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    const handleDelete = async () => {
+        if (!formData.id || !onDelete) return;
+
+        try {
+            await onDelete(formData.id);
+            showSuccessToast(t('webhooks.deleted', 'Webhook deleted'));
+            handleClose();
+        } catch (err) {
+            setError((err as Error).message);
+            showErrorToast(
+                t('webhooks.deleteFailed', 'Failed to delete webhook.')
+            );
+        }
+    };
+
+    if (!isOpen) return null;
+
+    return (
+        <div
+            className={`fixed top-16 left-0 right-0 bottom-0 bg-gray-900 bg-opacity-80 z-40 transition-opacity duration-300 overflow-hidden sm:overflow-y-auto ${
+                isClosing ? 'opacity-0' : 'opacity-100'
+            }`}
+        >
+            <div className="h-full flex items-center justify-center sm:px-4 sm:py-4">
+                <div
+                    ref={modalRef}
+                    className={`bg-white dark:bg-gray-800 border-0 sm:border sm:border-gray-200 sm:dark:border-gray-800 sm:rounded-lg sm:shadow-2xl w-full sm:max-w-lg transform transition-transform duration-300 ${
+                        isClosing ? 'scale-95' : 'scale-100'
+                    } h-full sm:h-auto sm:my-4`}
+                >
+                    <div className="flex flex-col h-full">
+                        <form
+                            className="flex-1 px-4 pt-4"
+                            onSubmit={(e) => {
+                                e.preventDefault();
+                                handleSubmit();
+                            }}
+                        >
+                            <div className="border-b border-gray-200 dark:border-gray-700 pb-4 mb-4">
+                                <input
+                                    type="text"
+                                    name="name"
+                                    value={formData.name}
+                                    onChange={handleChange}
+                                    className="block w-full text-xl font-semibold bg-transparent text-black dark:text-white border-none focus:outline-none shadow-sm py-2"
+                                    placeholder={t(
+                                        'webhooks.namePlaceholder',
+                                        'Webhook name'
+                                    )}
+                                />
+                            </div>
+
+                            <label
+                                htmlFor="webhookUrl"
+                                className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+                            >
+                                {t('webhooks.url', 'Payload URL')}
+                            </label>
+                            <input
+                                type="url"
+                                id="webhookUrl"
+                                name="url"
+                                value={formData.url}
+                                onChange={handleChange}
+                                className="block w-full text-sm border border-gray-300 dark:border-gray-600 rounded-md shadow-sm p-2 bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100 focus:ring-2 focus:ring-blue-500"
+                                placeholder="https://example.com/hooks/tududi"
+                            />
+
+                            <label
+                                htmlFor="webhookSecret"
+                                className="block text-sm font-medium text-gray-700 dark:text-gray-300 mt-4 mb-1"
+                            >
+                                {t('webhooks.secret', 'Secret')}
+                            </label>
+                            <input
+                                type="text"
+                                id="webhookSecret"
+                                name="secret"
+                                value={formData.secret || ''}
+                                onChange={handleChange}
+                                className="block w-full font-mono text-sm border border-gray-300 dark:border-gray-600 rounded-md shadow-sm p-2 bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100 focus:ring-2 focus:ring-blue-500"
+                                placeholder={
+                                    formData.id
+                                        ? t(
+                                              'webhooks.secretKeepPlaceholder',
+                                              'Leave empty to keep the secret ending in {{hint}}',
+                                              { hint: formData.secret_hint }
+                                          )
+                                        : t(
+                                              'webhooks.secretPlaceholder',
+                                              'Leave empty to generate one'
+                                          )
+                                }
+                            />
+                            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                                {t(
+                                    'webhooks.secretHelp',
+                                    'Each request carries an X-Tududi-Timestamp header with the Unix time it was sent, and an X-Tududi-Signature header: the HMAC-SHA256 of "<timestamp>.<body>" with this secret.'
+                                )}
+                            </p>
+
+                            <div className="mt-4 grid grid-cols-1 sm:grid-cols-3 gap-4">
+                                {WEBHOOK_EVENT_GROUPS.map((group) => (
+                                    <fieldset key={group.key}>
+                                        <legend className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                                            {t(
+                                                `webhooks.groups.${group.key}`,
+                                                group.label
+                                            )}
+                                        </legend>
+                                        {group.events.map((event) => (
+                                            <label
+                                                key={event}
+                                                className="flex items-center text-sm text-gray-700 dark:text-gray-300"
+                                            >
+                                                <input
+                                                    type="checkbox"
+                                                    checked={formData.events.includes(
+                                                        event
+                                                    )}
+                                                    onChange={() =>
+                                                        toggleEvent(event)
+                                                    }
+                                                    className="mr-2"
+                                                />
+                                                <code className="font-mono text-xs">
+                                                    {event}
+                                                </code>
+                                            </label>
+                                        ))}
+                                    </fieldset>
+                                ))}
+                            </div>
+
+                            <label className="mt-4 mb-4 flex items-center text-sm text-gray-700 dark:text-gray-300">
+                                <input
+                                    type="checkbox"
+                                    checked={formData.active}
+                                    onChange={() =>
+                                        setFormData((prev) => ({
+                                            ...prev,
+                                            active: !prev.active,
+                                        }))
+                                    }
+                                    className="mr-2"
+                                />
+                                {t('webhooks.active', 'Active')}
+                            </label>
+
+                            {error && (
+                                <div className="text-red-500 mb-4">{error}</div>
+                            )}
+                        </form>
+
+                        <div className="flex-shrink-0 bg-white dark:bg-gray-800 border-t border-gray-200 dark:border-gray-700 px-3 py-2 flex items-center justify-between">
+                            <div className="flex items-center space-x-3">
+                                {formData.id && onDelete && (
+                                    <button
+                                        type="button"
+                                        onClick={handleDelete}
+                                        className="p-2 border border-red-300 dark:border-red-600 text-red-600 dark:text-red-400 rounded-md hover:bg-red-50 dark:hover:bg-red-900/20 focus:outline-none transition duration-150 ease-in-out"
+                                        title={t('common.delete', 'Delete')}
+                                    >
+                                        <TrashIcon className="h-4 w-4" />
+                                    </button>
+                                )}
+                                <button
+                                    type="button"
+                                    onClick={handleClose}
+                                    className="text-gray-600 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-200 focus:outline-none transition duration-150 ease-in-out text-sm"
+                                >
+                                    {t('common.cancel', 'Cancel')}
+                                </button>
+                            </div>
+
+                            <button
+                                type="button"
+                                onClick={handleSubmit}
+                                disabled={isSubmitting}
+                                className={`px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 dark:bg-blue-500 dark:hover:bg-blue-600 focus:outline-none transition duration-150 ease-in-out text-sm ${
+                                    isSubmitting
+                                        ? 'opacity-50 cursor-not-allowed'
+                                        : ''
+                                }`}
+                            >
+                                {isSubmitting
+                                    ? t('modals.submitting', 'Submitting...')
+                                    : formData.id
+                                      ? t('webhooks.update', 'Update Webhook')
+                                      : t('webhooks.create', 'Create Webhook')}
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default WebhookModal;
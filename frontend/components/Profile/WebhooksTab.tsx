@@ -0,0 +1,439 @@
+import React, { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+    ArrowPathIcon,
+    ClipboardDocumentIcon,
+    ExclamationTriangleIcon,
+    LinkIcon,
+    PaperAirplaneIcon,
+    PencilSquareIcon,
+    ListBulletIcon,
+    PlusIcon,
+} from '@heroicons/react/24/outline';
+import { Webhook, WebhookDelivery } from '../../entities/Webhook';
+import {
+    fetchWebhooks,
+    createWebhook,
+    updateWebhook,
+    deleteWebhook,
+    rotateWebhookSecret,
+    fetchWebhookDeliveries,
+    sendTestWebhook,
+} from '../../utils/webhooksService';
+import { useToast } from '../Shared/ToastContext';
+import ConfirmDialog from '../Shared/ConfirmDialog';
+import WebhookModal from './WebhookModal';
+
+const DELIVERY_STATUS_COLORS = {
+    pending: 'text-yellow-600 dark:text-yellow-400',
+    delivered: 'text-green-600 dark:text-green-400',
+    failed: 'text-red-600 dark:text-red-400',
+};
+
+const iconButtonClassName =
+    'p-2 text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-md';
+
+// Outgoing webhooks with their delivery log. Rendered outside the profile
+// form because changes are saved immediately.
+const WebhooksTab: React.FC = () => {
+    const { t } = useTranslation();
+    const { showSuccessToast, showErrorToast } = useToast();
+
+    const [webhooks, setWebhooks] = useState<Webhook[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [isModalOpen, setIsModalOpen] = useState(false);
+    const [selectedWebhook, setSelectedWebhook] = useState<Webhook | null>(
+        null
+    );
+    const [logWebhookId, setLogWebhookId] = useState<number | null>(null);
+    const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+    const [testingWebhookId, setTestingWebhookId] = useState<number | null>(
+        null
+    );
+    const [newSecret, setNewSecret] = useState<string | null>(null);
+    const [webhookToRotate, setWebhookToRotate] = useState<Webhook | null>(
+        null
+    );
+
+    useEffect(() => {
+        const loadWebhooks = async () => {
+            try {
+                setWebhooks(await fetchWebhooks());
+            } catch (error) {
+                console.error('Error fetching webhooks:', error);
+                showErrorToast(
+                    t('webhooks.loadFailed', 'Failed to load webhooks.')
+                );
+            } finally {
+                setIsLoading(false);
+            }
+        };
+
+        loadWebhooks();
+    }, []);
+
+    const loadDeliveries = async (webhookId: number) => {
+        try {
+            setDeliveries(await fetchWebhookDeliveries(webhookId));
+        } catch (error) {
+            console.error('Error fetching webhook deliveries:', error);
+            setDeliveries([]);
+        }
+    };
+
+    const toggleLog = async (webhookId: number) => {
+        if (logWebhookId === webhookId) {
+            setLogWebhookId(null);
+            return;
+        }
+        setLogWebhookId(webhookId);
+        await loadDeliveries(webhookId);
+    };
+
+    const openModal = (webhook: Webhook | null = null) => {
+        setSelectedWebhook(webhook);
+        setIsModalOpen(true);
+    };
+
+    const handleSave = async (webhookData: Webhook) => {
+        if (webhookData.id) {
+            const updated = await updateWebhook(webhookData.id, webhookData);
+            setWebhooks((prev) =>
+                prev.map((webhook) =>
+                    webhook.id === updated.id ? updated : webhook
+                )
+            );
+        } else {
+            const { secret, ...created } = await createWebhook(webhookData);
+            setWebhooks((prev) => [...prev, created]);
+            setNewSecret(secret || null);
+        }
+    };
+
+    const handleRotate = async () => {
+        if (!webhookToRotate) return;
+        try {
+            const { secret, ...rotated } = await rotateWebhookSecret(
+                webhookToRotate.id!
+            );
+            setWebhooks((prev) =>
+                prev.map((webhook) =>
+                    webhook.id === rotated.id ? rotated : webhook
+                )
+            );
+            setNewSecret(secret || null);
+            showSuccessToast(t('webhooks.secretRotated', 'Secret rotated'));
+        } catch (error) {
+            console.error('Error rotating webhook secret:', error);
+            showErrorToast(
+                t('webhooks.rotateFailed', 'Failed to rotate secret.')
+            );
+        } finally {
+            setWebhookToRotate(null);
+        }
+    };
+
+    const handleCopy = async () => {
+        if (!newSecret) return;
+        try {
+            await navigator.clipboard.writeText(newSecret);
+            showSuccessToast(t('webhooks.copied', 'Secret copied'));
+        } catch {
+            showErrorToast(t('webhooks.copyFailed', 'Failed to copy secret.'));
+        }
+    };
+
+    const handleDelete = async (webhookId: number) => {
+        await deleteWebhook(webhookId);
+        setWebhooks((prev) =>
+            prev.filter((webhook) => webhook.id !== webhookId)
+        );
+        if (logWebhookId === webhookId) {
+            setLogWebhookId(null);
+        }
+    };
+
+    const handleTest = async (webhookId: number) => {
+        setTestingWebhookId(webhookId);
+        try {
+            const delivery = await sendTestWebhook(webhookId);
+            if (delivery.status === 'delivered') {
+                showSuccessToast(
+                    t('webhooks.testDelivered', 'Test event delivered')
+                );
+            } else {
+                showErrorToast(
+                    t('webhooks.testFailed', 'Test event failed: {{reason}}', {
+                        reason:
+                            delivery.error ||
+                            `HTTP ${delivery.response_status}`,
+                    })
+                );
+            }
+            if (logWebhookId === webhookId) {
+                await loadDeliveries(webhookId);
+            }
+        } catch (error) {
+            showErrorToast((error as Error).message);
+        } finally {
+            setTestingWebhookId(null);
+        }
+    };
+
+    const describeOutcome = (delivery: WebhookDelivery) => {
+        if (delivery.error) return delivery.error;
+        if (delivery.response_status) return `HTTP ${delivery.response_status}`;
+        return t('webhooks.notSent', 'Not sent yet');
+    };
+
+    return (
+        <div className="bg-white dark:bg-gray-800 rounded-lg p-6 border border-gray-200 dark:border-gray-700">
+            <div className="flex items-center justify-between mb-2">
+                <h3 className="text-xl font-semibold text-gray-900 dark:text-white flex items-center">
+                    <LinkIcon className="w-6 h-6 mr-3 text-purple-500" />
+                    {t('webhooks.title', 'Webhooks')}
+                </h3>
+                <button
+                    type="button"
+                    onClick={() => openModal()}
+                    className="inline-flex items-center px-3 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 dark:bg-blue-500 dark:hover:bg-blue-600 text-sm"
+                >
+                    <PlusIcon className="h-4 w-4 mr-1" />
+                    {t('webhooks.add', 'Add webhook')}
+                </button>
+            </div>
+            <p className="text-sm text-gray-600 dark:text-gray-400 mb-6">
+                {t(
+                    'webhooks.description',
+                    'Send signed JSON payloads to your own services when tasks, projects or notes change. Failed deliveries are retried with increasing delays.'
+                )}
+            </p>
+
+            {newSecret && (
+                <div className="mb-6 p-4 bg-green-50 dark:bg-green-900 border border-green-200 dark:border-green-800 rounded-lg">
+                    <p className="text-sm text-green-800 dark:text-green-200 mb-2 flex items-center">
+                        <ExclamationTriangleIcon className="w-4 h-4 mr-1" />
+                        {t(
+                            'webhooks.copyNow',
+                            "Copy this secret now. You won't be able to see it again."
+                        )}
+                    </p>
+                    <div className="flex items-center space-x-2">
+                        <code className="flex-1 font-mono text-sm break-all p-2 bg-white dark:bg-gray-800 rounded border border-green-200 dark:border-green-800 text-gray-900 dark:text-gray-100">
+                            {newSecret}
+                        </code>
+                        <button
+                            type="button"
+                            onClick={handleCopy}
+                            className="p-2 text-green-700 dark:text-green-300 hover:bg-green-100 dark:hover:bg-green-800 rounded-md"
+                            title={t('webhooks.copy', 'Copy')}
+                        >
+                            <ClipboardDocumentIcon className="h-5 w-5" />
+                        </button>
+                    </div>
+                    <button
+                        type="button"
+                        onClick={() => setNewSecret(null)}
+                        className="mt-2 text-sm text-green-700 dark:text-green-300 hover:underline"
+                    >
+                        {t('webhooks.dismiss', 'Done')}
+                    </button>
+                </div>
+            )}
+
+            {isLoading ? (
+                <p className="text-sm text-gray-500 dark:text-gray-400">
+                    {t('common.loading', 'Loading...')}
+                </p>
+            ) : webhooks.length === 0 ? (
+                <p className="text-sm text-gray-500 dark:text-gray-400">
+                    {t('webhooks.empty', 'No webhooks yet.')}
+                </p>
+            ) : (
+                <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+                    {webhooks.map((webhook) => (
+                        <li key={webhook.id} className="py-3">
+                            <div className="flex items-center justify-between">
+                                <div className="min-w-0">
+                                    <div className="flex items-center space-x-2">
+                                        <span className="font-medium text-gray-900 dark:text-white">
+                                            {webhook.name}
+                                        </span>
+                                        {!webhook.active && (
+                                            <span className="px-2 py-0.5 rounded-full text-xs bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300">
+                                                {t(
+                                                    'webhooks.inactive',
+                                                    'Inactive'
+                                                )}
+                                            </span>
+                                        )}
+                                    </div>
+                                    <div className="text-xs text-gray-500 dark:text-gray-400 mt-1 truncate">
+                                        {webhook.url} &middot;{' '}
+                                        {t(
+                                            'webhooks.eventCount',
+                                            '{{count}} events',
+                                            { count: webhook.events.length }
+                                        )}
+                                    </div>
+                                </div>
+                                <div className="flex items-center space-x-1">
+                                    <button
+                                        type="button"
+                                        onClick={() => handleTest(webhook.id!)}
+                                        disabled={
+                                            testingWebhookId === webhook.id
+                                        }
+                                        className={iconButtonClassName}
+                                        title={t(
+                                            'webhooks.sendTest',
+                                            'Send test'
+                                        )}
+                                    >
+                                        <PaperAirplaneIcon className="h-4 w-4" />
+                                    </button>
+                                    <button
+                                        type="button"
+                                        onClick={() => toggleLog(webhook.id!)}
+                                        className={iconButtonClassName}
+                                        title={t(
+                                            'webhooks.deliveries',
+                                            'Recent deliveries'
+                                        )}
+                                    >
+                                        <ListBulletIcon className="h-4 w-4" />
+                                    </button>
+                                    <button
+                                        type="button"
+                                        onClick={() =>
+                                            setWebhookToRotate(webhook)
+                                        }
+                                        className={iconButtonClassName}
+                                        title={t(
+                                            'webhooks.rotateSecret',
+                                            'Rotate secret'
+                                        )}
+                                    >
+                                        <ArrowPathIcon className="h-4 w-4" />
+                                    </button>
+                                    <button
+                                        type="button"
+                                        onClick={() => openModal(webhook)}
+                                        className={iconButtonClassName}
+                                        title={t('common.edit', 'Edit')}
+                                    >
+                                        <PencilSquareIcon className="h-4 w-4" />
+                                    </button>
+                                </div>
+                            </div>
+
+                            {logWebhookId === webhook.id && (
+                                <div className="mt-3 p-3 bg-gray-50 dark:bg-gray-700 rounded-lg">
+                                    {deliveries.length === 0 ? (
+                                        <p className="text-xs text-gray-500 dark:text-gray-400">
+                                            {t(
+                                                'webhooks.noDeliveries',
+                                                'No deliveries yet.'
+                                            )}
+                                        </p>
+                                    ) : (
+                                        <table className="w-full text-xs text-left text-gray-700 dark:text-gray-300">
+                                            <thead>
+                                                <tr className="text-gray-500 dark:text-gray-400">
+                                                    <th className="py-1">
+                                                        {t(
+                                                            'webhooks.event',
+                                                            'Event'
+                                                        )}
+                                                    </th>
+                                                    <th className="py-1">
+                                                        {t(
+                                                            'webhooks.status',
+                                                            'Status'
+                                                        )}
+                                                    </th>
+                                                    <th className="py-1">
+                                                        {t(
+                                                            'webhooks.attempts',
+                                                            'Attempts'
+                                                        )}
+                                                    </th>
+                                                    <th className="py-1">
+                                                        {t(
+                                                            'webhooks.response',
+                                                            'Response'
+                                                        )}
+                                                    </th>
+                                                    <th className="py-1">
+                                                        {t(
+                                                            'webhooks.time',
+                                                            'Time'
+                                                        )}
+                                                    </th>
+                                                </tr>
+                                            </thead>
+                                            <tbody>
+                                                {deliveries.map((delivery) => (
+                                                    <tr key={delivery.id}>
+                                                        <td className="py-1 font-mono">
+                                                            {delivery.event}
+                                                        </td>
+                                                        <td
+                                                            className={`py-1 ${DELIVERY_STATUS_COLORS[delivery.status]}`}
+                                                        >
+                                                            {t(
+                                                                `webhooks.statuses.${delivery.status}`,
+                                                                delivery.status
+                                                            )}
+                                                        </td>
+                                                        <td className="py-1">
+                                                            {delivery.attempts}
+                                                        </td>
+                                                        <td className="py-1 truncate max-w-xs">
+                                                            {describeOutcome(
+                                                                delivery
+                                                            )}
+                                                        </td>
+                                                        <td className="py-1">
+                                                            {new Date(
+                                                                delivery.last_attempt_at ||
+                                                                    delivery.created_at
+                                                            ).toLocaleString()}
+                                                        </td>
+                                                    </tr>
+                                                ))}
+                                            </tbody>
+                                        </table>
+                                    )}
+                                </div>
+                            )}
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            <WebhookModal
+                isOpen={isModalOpen}
+                onClose={() => setIsModalOpen(false)}
+                onSave={handleSave}
+                onDelete={handleDelete}
+                webhook={selectedWebhook}
+            />
+
+            {webhookToRotate && (
+                <ConfirmDialog
+                    title={t('webhooks.rotateTitle', 'Rotate secret')}
+                    message={t(
+                        'webhooks.rotateConfirm',
+                        'Rotate the secret of "{{name}}"? Signatures made with the old secret will stop matching.',
+                        { name: webhookToRotate.name }
+                    )}
+                    onConfirm={handleRotate}
+                    onCancel={() => setWebhookToRotate(null)}
+                />
+            )}
+        </div>
+    );
+};
+
+export default WebhooksTab;
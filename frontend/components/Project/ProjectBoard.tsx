@@ -0,0 +1,193 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { CalendarIcon } from '@heroicons/react/24/outline';
+import { BoardStatus, WipLimits } from '../../entities/Project';
+import { StatusType, Task } from '../../entities/Task';
+
+interface ProjectBoardProps {
+    tasks: Task[];
+    wipLimits: WipLimits;
+    onStatusChange: (task: Task, status: number) => Promise<void>;
+    onWipLimitChange: (status: BoardStatus, limit: number | null) => void;
+}
+
+// Board columns in order, with the status value a dropped card gets
+const BOARD_COLUMNS: { status: BoardStatus; value: number; label: string }[] = [
+    { status: 'not_started', value: 0, label: 'notStarted' },
+    { status: 'in_progress', value: 1, label: 'inProgress' },
+    { status: 'waiting', value: 4, label: 'waiting' },
+    { status: 'done', value: 2, label: 'done' },
+];
+
+const STATUS_VALUES: Record<StatusType, number> = {
+    not_started: 0,
+    in_progress: 1,
+    done: 2,
+    archived: 3,
+    waiting: 4,
+};
+
+const getStatusValue = (status: StatusType | number) =>
+    typeof status === 'number' ? status : STATUS_VALUES[status];
+
+const ProjectBoard: React.FC<ProjectBoardProps> = ({
+    tasks,
+    wipLimits,
+    onStatusChange,
+    onWipLimitChange,
+}) => {
+    const { t } = useTranslation();
+    const [draggedTask, setDraggedTask] = useState<Task | null>(null);
+    const [dropStatus, setDropStatus] = useState<BoardStatus | null>(null);
+    const [editingLimit, setEditingLimit] = useState<BoardStatus | null>(null);
+    const [limitInput, setLimitInput] = useState('');
+
+    const handleDrop = async (column: (typeof BOARD_COLUMNS)[number]) => {
+        const task = draggedTask;
+        setDraggedTask(null);
+        setDropStatus(null);
+        if (task && getStatusValue(task.status) !== column.value) {
+            await onStatusChange(task, column.value);
+        }
+    };
+
+    const startEditingLimit = (status: BoardStatus) => {
+        setEditingLimit(status);
+        setLimitInput(wipLimits[status] ? String(wipLimits[status]) : '');
+    };
+
+    const saveLimit = (status: BoardStatus) => {
+        setEditingLimit(null);
+        const limit = parseInt(limitInput, 10);
+        const newLimit = limit > 0 ? limit : null;
+        if (newLimit !== (wipLimits[status] || null)) {
+            onWipLimitChange(status, newLimit);
+        }
+    };
+
+    return (
+        <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-4">
+            {BOARD_COLUMNS.map((column) => {
+                const columnTasks = tasks.filter(
+                    (task) => getStatusValue(task.status) === column.value
+                );
+                const limit = wipLimits[column.status];
+                const isOverLimit = Boolean(
+                    limit && columnTasks.length > limit
+                );
+
+                return (
+                    <div
+                        key={column.status}
+                        onDragOver={(e) => {
+                            if (!draggedTask) return;
+                            e.preventDefault();
+                            setDropStatus(column.status);
+                        }}
+                        onDragLeave={() => setDropStatus(null)}
+                        onDrop={() => handleDrop(column)}
+                        className={`rounded-lg p-3 min-h-[12rem] bg-gray-100 dark:bg-gray-800 border-2 ${
+                            dropStatus === column.status
+                                ? 'border-blue-500'
+                                : isOverLimit
+                                  ? 'border-red-400 dark:border-red-500'
+                                  : 'border-transparent'
+                        }`}
+                    >
+                        <div className="flex items-center justify-between mb-3">
+                            <h4 className="text-sm font-semibold text-gray-700 dark:text-gray-200">
+                                {t(`status.${column.label}`)}
+                            </h4>
+                            {editingLimit === column.status ? (
+                                <input
+                                    type="number"
+                                    min={1}
+                                    autoFocus
+                                    value={limitInput}
+                                    onChange={(e) =>
+                                        setLimitInput(e.target.value)
+                                    }
+                                    onBlur={() => saveLimit(column.status)}
+                                    onKeyDown={(e) => {
+                                        if (e.key === 'Enter') {
+                                            saveLimit(column.status);
+                                        } else if (e.key === 'Escape') {
+                                            setEditingLimit(null);
+                                        }
+                                    }}
+                                    className="w-16 text-xs rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-900 py-0.5 px-1"
+                                    aria-label={t('project.board.wipLimit')}
+                                />
+                            ) : (
+                                <button
+                                    onClick={() =>
+                                        startEditingLimit(column.status)
+                                    }
+                                    className={`text-xs focus:outline-none hover:underline ${
+                                        isOverLimit
+                                            ? 'text-red-600 dark:text-red-400 font-semibold'
+                                            : 'text-gray-500 dark:text-gray-400'
+                                    }`}
+                                    title={
+                                        isOverLimit
+                                            ? t('project.board.overLimit', {
+                                                  limit,
+                                              })
+                                            : t('project.board.setWipLimit')
+                                    }
+                                >
+                                    {limit
+                                        ? `${columnTasks.length}/${limit}`
+                                        : columnTasks.length}
+                                </button>
+                            )}
+                        </div>
+
+                        <div className="space-y-2">
+                            {columnTasks.map((task) => (
+                                <div
+                                    key={task.id}
+                                    draggable
+                                    onDragStart={(e) => {
+                                        e.dataTransfer.effectAllowed = 'move';
+                                        setDraggedTask(task);
+                                    }}
+                                    onDragEnd={() => {
+                                        setDraggedTask(null);
+                                        setDropStatus(null);
+                                    }}
+                                    className={`bg-white dark:bg-gray-900 rounded-md shadow px-3 py-2 cursor-grab ${
+                                        draggedTask?.id === task.id
+                                            ? 'opacity-50'
+                                            : ''
+                                    }`}
+                                >
+                                    <Link
+                                        to={`/task/${task.uuid}`}
+                                        className="block text-sm text-gray-900 dark:text-gray-100 hover:underline"
+                                    >
+                                        {task.name}
+                                    </Link>
+                                    {task.due_date && (
+                                        <div className="flex items-center mt-1 text-xs text-gray-500 dark:text-gray-400">
+                                            <CalendarIcon className="h-3 w-3 mr-1" />
+                                            {task.due_date}
+                                        </div>
+                                    )}
+                                </div>
+                            ))}
+                            {columnTasks.length === 0 && (
+                                <p className="text-xs text-gray-400 dark:text-gray-500 text-center py-4">
+                                    {t('project.board.noTasks')}
+                                </p>
+                            )}
+                        </div>
+                    </div>
+                );
+            })}
+        </div>
+    );
+};
+
+export default ProjectBoard;
@@ -10,15 +10,24 @@ import {
     BookOpenIcon,
     TagIcon,
     ListBulletIcon,
+    ViewColumnsIcon,
+    PlusIcon,
+    DocumentDuplicateIcon,
 } from '@heroicons/react/24/outline';
 import TaskList from '../Task/TaskList';
 import ProjectModal from '../Project/ProjectModal';
+import ProjectBoard from './ProjectBoard';
+import ProjectSectionGroup from './ProjectSectionGroup';
+import ProjectSectionForm from './ProjectSectionForm';
+import ProjectMetricsCard from '../Metrics/ProjectMetricsCard';
+import SaveProjectTemplateDialog from './SaveProjectTemplateDialog';
 import ConfirmDialog from '../Shared/ConfirmDialog';
 import { useStore } from '../../store/useStore';
 import NewTask from '../Task/NewTask';
-import { Project } from '../../entities/Project';
+import { BoardStatus, Project, ProjectViewMode } from '../../entities/Project';
 import { PriorityType, Task } from '../../entities/Task';
 import { Note } from '../../entities/Note';
+import { ProjectSection } from '../../entities/ProjectSection';
 import {
     fetchProjectById,
     updateProject,
@@ -29,6 +38,13 @@ import {
     deleteTask,
     toggleTaskToday,
 } from '../../utils/tasksService';
+import {
+    createProjectSection,
+    updateProjectSection,
+    deleteProjectSection,
+    getSectionProgress,
+} from '../../utils/projectSectionsService';
+import { createProjectTemplate } from '../../utils/projectTemplatesService';
 import { fetchAreas } from '../../utils/areasService';
 import { isAuthError } from '../../utils/authUtils';
 import {
@@ -51,17 +67,26 @@ const ProjectDetails: React.FC = () => {
     const { id } = useParams<{ id: string }>();
     const navigate = useNavigate();
     const { t, i18n } = useTranslation();
-    const { showSuccessToast } = useToast();
+    const { showSuccessToast, showErrorToast } = useToast();
 
     const areas = useStore((state) => state.areasStore.areas);
 
     const [project, setProject] = useState<Project | undefined>(undefined);
     const [tasks, setTasks] = useState<Task[]>([]);
     const [notes, setNotes] = useState<Note[]>([]);
+    const [sections, setSections] = useState<ProjectSection[]>([]);
+    const [isAddingSection, setIsAddingSection] = useState(false);
+    const [collapsedSectionIds, setCollapsedSectionIds] = useState<number[]>(
+        () => {
+            const stored = localStorage.getItem('collapsedProjectSections');
+            return stored ? JSON.parse(stored) : [];
+        }
+    );
     const [loading, setLoading] = useState(true);
     const [error] = useState<string | null>(null);
     const [isModalOpen, setIsModalOpen] = useState(false);
     const [isConfirmDialogOpen, setIsConfirmDialogOpen] = useState(false);
+    const [isTemplateDialogOpen, setIsTemplateDialogOpen] = useState(false);
     const [showCompleted, setShowCompleted] = useState(false);
     const [showAutoSuggestForm, setShowAutoSuggestForm] = useState(false);
 
@@ -87,6 +112,7 @@ const ProjectDetails: React.FC = () => {
                 const projectNotes =
                     projectData.notes || projectData.Notes || [];
                 setNotes(projectNotes);
+                setSections(projectData.ProjectSections || []);
             } catch (error) {
                 console.error('Error fetching project data:', error);
             } finally {
@@ -112,7 +138,10 @@ const ProjectDetails: React.FC = () => {
         checkAutoSuggest();
     }, [project, tasks, loading]);
 
-    const handleTaskCreate = async (taskName: string) => {
+    const handleTaskCreate = async (
+        taskName: string,
+        templateData?: Partial<Task>
+    ) => {
         if (!project) {
             console.error('Cannot create task: Project is missing');
             throw new Error('Cannot create task: Project is missing');
@@ -120,6 +149,7 @@ const ProjectDetails: React.FC = () => {
 
         try {
             const newTask = await createTask({
+                ...templateData,
                 name: taskName,
                 status: 'not_started',
                 project_id: project.id,
@@ -139,7 +169,7 @@ const ProjectDetails: React.FC = () => {
                     {t('task.createdSuccessfully', 'created successfully!')}
                 </span>
             );
-            showSuccessToast(taskLink);
+            showSuccessToast(taskLink, { undoToken: newTask.undo_token });
         } catch (err: any) {
             console.error('Error creating task:', err);
             // Check if it's an authentication error
@@ -181,6 +211,23 @@ const ProjectDetails: React.FC = () => {
         }
     };
 
+    // Subtasks are listed under their parent, not in the project list
+    const handleTaskDuplicate = (duplicatedTask: Task) => {
+        if (!duplicatedTask.parent_task_id) {
+            setTasks((prevTasks) => [...prevTasks, duplicatedTask]);
+        }
+    };
+
+    const handleTaskSnooze = (snoozedTask: Task) => {
+        setTasks((prevTasks) =>
+            prevTasks.map((task) =>
+                task.id === snoozedTask.id
+                    ? { ...task, defer_until: snoozedTask.defer_until }
+                    : task
+            )
+        );
+    };
+
     const handleTaskDelete = async (taskId: number | undefined) => {
         if (!taskId) {
             console.error('Cannot delete task: Task ID is missing');
@@ -196,6 +243,196 @@ const ProjectDetails: React.FC = () => {
         }
     };
 
+    const handleTasksReorder = (reorderedTasks: Task[]) => {
+        setTasks((prevTasks) => [
+            ...reorderedTasks,
+            ...prevTasks.filter(
+                (task) =>
+                    !reorderedTasks.some(
+                        (reordered) => reordered.id === task.id
+                    )
+            ),
+        ]);
+    };
+
+    // Save a change to a task right away, going back to it on failure
+    const handleTaskChange = async (
+        task: Task,
+        changes: Partial<Task>,
+        failureMessage: string
+    ) => {
+        setTasks((prevTasks) =>
+            prevTasks.map((prevTask) =>
+                prevTask.id === task.id ? { ...prevTask, ...changes } : prevTask
+            )
+        );
+        try {
+            const response = await fetch(`/api/task/${task.id}`, {
+                method: 'PATCH',
+                headers: { 'Content-Type': 'application/json' },
+                credentials: 'include',
+                body: JSON.stringify({ ...task, ...changes }),
+            });
+
+            if (!response.ok) {
+                throw new Error('Failed to update task');
+            }
+
+            const savedTask = await response.json();
+            setTasks((prevTasks) =>
+                prevTasks.map((prevTask) =>
+                    prevTask.id === task.id ? savedTask : prevTask
+                )
+            );
+        } catch (err) {
+            console.error('Error updating task:', err);
+            setTasks((prevTasks) =>
+                prevTasks.map((prevTask) =>
+                    prevTask.id === task.id ? task : prevTask
+                )
+            );
+            showErrorToast(failureMessage);
+        }
+    };
+
+    const handleBoardStatusChange = (task: Task, status: number) =>
+        handleTaskChange(task, { status }, t('project.board.moveFailed'));
+
+    const handleTaskSectionChange = async (
+        taskId: number,
+        sectionId: number | null
+    ) => {
+        const task = tasks.find((task) => task.id === taskId);
+        if (!task || (task.section_id || null) === sectionId) return;
+        await handleTaskChange(
+            task,
+            { section_id: sectionId },
+            t('project.sections.moveTaskFailed')
+        );
+    };
+
+    const toggleSectionCollapsed = (sectionId: number) => {
+        const newIds = collapsedSectionIds.includes(sectionId)
+            ? collapsedSectionIds.filter((id) => id !== sectionId)
+            : [...collapsedSectionIds, sectionId];
+        setCollapsedSectionIds(newIds);
+        localStorage.setItem(
+            'collapsedProjectSections',
+            JSON.stringify(newIds)
+        );
+    };
+
+    const handleSectionCreate = async (
+        sectionData: Partial<ProjectSection>
+    ) => {
+        if (!project?.id) return;
+        try {
+            const section = await createProjectSection(project.id, sectionData);
+            setSections((prevSections) => [...prevSections, section]);
+            setIsAddingSection(false);
+        } catch (err) {
+            console.error('Error creating section:', err);
+            showErrorToast(t('project.sections.saveFailed'));
+        }
+    };
+
+    const handleSectionUpdate = async (
+        section: ProjectSection,
+        sectionData: Partial<ProjectSection>
+    ) => {
+        try {
+            const savedSection = await updateProjectSection(
+                section.id!,
+                sectionData
+            );
+            setSections((prevSections) =>
+                prevSections.map((prevSection) =>
+                    prevSection.id === savedSection.id
+                        ? savedSection
+                        : prevSection
+                )
+            );
+        } catch (err) {
+            console.error('Error updating section:', err);
+            showErrorToast(t('project.sections.saveFailed'));
+        }
+    };
+
+    const handleSectionMove = async (
+        section: ProjectSection,
+        position: number
+    ) => {
+        const previousSections = sections;
+        const reorderedSections = sections.filter(
+            (other) => other.id !== section.id
+        );
+        reorderedSections.splice(position, 0, section);
+        setSections(reorderedSections);
+        try {
+            await updateProjectSection(section.id!, { position });
+        } catch (err) {
+            console.error('Error moving section:', err);
+            setSections(previousSections);
+            showErrorToast(t('project.sections.saveFailed'));
+        }
+    };
+
+    const handleSectionDelete = async (section: ProjectSection) => {
+        try {
+            await deleteProjectSection(section.id!);
+            setSections((prevSections) =>
+                prevSections.filter((other) => other.id !== section.id)
+            );
+            // Its tasks stay in the project without a section
+            setTasks((prevTasks) =>
+                prevTasks.map((task) =>
+                    task.section_id === section.id
+                        ? { ...task, section_id: null }
+                        : task
+                )
+            );
+        } catch (err) {
+            console.error('Error deleting section:', err);
+            showErrorToast(t('project.sections.deleteFailed'));
+        }
+    };
+
+    const handleViewModeChange = async (viewMode: ProjectViewMode) => {
+        if (!project?.id || project.view_mode === viewMode) return;
+        setProject({ ...project, view_mode: viewMode });
+        try {
+            await updateProject(project.id, { view_mode: viewMode });
+        } catch (err) {
+            console.error('Error saving project view:', err);
+        }
+    };
+
+    const handleWipLimitChange = async (
+        status: BoardStatus,
+        limit: number | null
+    ) => {
+        if (!project?.id) return;
+        const wipLimits = { ...project.wip_limits };
+        if (limit) {
+            wipLimits[status] = limit;
+        } else {
+            delete wipLimits[status];
+        }
+        try {
+            const savedProject = await updateProject(project.id, {
+                wip_limits: wipLimits,
+            });
+            setProject((prevProject) =>
+                prevProject
+                    ? { ...prevProject, wip_limits: savedProject.wip_limits }
+                    : prevProject
+            );
+        } catch (err) {
+            console.error('Error saving WIP limit:', err);
+            showErrorToast(t('project.board.wipLimitFailed'));
+        }
+    };
+
     const handleToggleToday = async (taskId: number): Promise<void> => {
         try {
             const updatedTask = await toggleTaskToday(taskId);
@@ -251,6 +488,25 @@ const ProjectDetails: React.FC = () => {
         }
     };
 
+    const handleSaveTemplate = async (templateData: {
+        name: string;
+        start_date: string;
+        placeholders: Record<string, string>;
+    }) => {
+        if (!project?.id) return;
+
+        try {
+            await createProjectTemplate(project.id, templateData);
+            setIsTemplateDialogOpen(false);
+            showSuccessToast(
+                t('project.templates.saved', { name: templateData.name })
+            );
+        } catch (err) {
+            console.error('Error saving project template:', err);
+            showErrorToast(t('project.templates.saveFailed'));
+        }
+    };
+
     const handleCreateNextAction = async (
         projectId: number,
         actionDescription: string
@@ -280,7 +536,7 @@ const ProjectDetails: React.FC = () => {
                     {t('task.createdSuccessfully', 'created successfully!')}
                 </span>
             );
-            showSuccessToast(taskLink);
+            showSuccessToast(taskLink, { undoToken: newTask.undo_token });
         } catch (error) {
             console.error('Error creating next action:', error);
         }
@@ -297,8 +553,12 @@ const ProjectDetails: React.FC = () => {
         }
 
         try {
-            await deleteProject(project.id);
+            const undoToken = await deleteProject(project.id);
             navigate('/projects');
+            showSuccessToast(t('success.projectDeleted'), {
+                undoToken,
+                onUndo: () => navigate(`/project/${project.id}`),
+            });
         } catch (err) {
             console.error('Error deleting project:', err);
         }
@@ -346,6 +606,28 @@ const ProjectDetails: React.FC = () => {
         ? [...activeTasks, ...completedTasks]
         : activeTasks;
 
+    const isBoardView = project.view_mode === 'board';
+
+    // Tasks whose section is gone count as unsectioned
+    const unsectionedTasks = displayTasks.filter(
+        (task) => !sections.some((section) => section.id === task.section_id)
+    );
+
+    const renderTaskList = (listTasks: Task[]) => (
+        <TaskList
+            tasks={listTasks}
+            onTaskUpdate={handleTaskUpdate}
+            onTaskDelete={handleTaskDelete}
+            onTaskDuplicate={handleTaskDuplicate}
+            onTaskSnooze={handleTaskSnooze}
+            projects={project ? [project] : []}
+            hideProjectName={true}
+            onToggleToday={handleToggleToday}
+            reorderContext="project"
+            onTasksReorder={handleTasksReorder}
+        />
+    );
+
     const formatProjectDueDate = (dateString: string) => {
         const date = new Date(dateString);
         const currentLang = i18n.language;
@@ -398,6 +680,13 @@ const ProjectDetails: React.FC = () => {
                             >
                                 <PencilSquareIcon className="h-5 w-5" />
                             </button>
+                            <button
+                                onClick={() => setIsTemplateDialogOpen(true)}
+                                className="p-2 bg-black bg-opacity-50 text-white hover:bg-opacity-70 rounded-full transition-all duration-200 backdrop-blur-sm"
+                                title={t('project.templates.saveAs')}
+                            >
+                                <DocumentDuplicateIcon className="h-5 w-5" />
+                            </button>
                             <button
                                 onClick={() => setIsConfirmDialogOpen(true)}
                                 className="p-2 bg-black bg-opacity-50 text-white hover:bg-opacity-70 rounded-full transition-all duration-200 backdrop-blur-sm"
@@ -522,6 +811,13 @@ const ProjectDetails: React.FC = () => {
                             >
                                 <PencilSquareIcon className="h-5 w-5" />
                             </button>
+                            <button
+                                onClick={() => setIsTemplateDialogOpen(true)}
+                                className="text-gray-500 hover:text-blue-700 dark:hover:text-blue-300 focus:outline-none"
+                                title={t('project.templates.saveAs')}
+                            >
+                                <DocumentDuplicateIcon className="h-5 w-5" />
+                            </button>
                             <button
                                 onClick={() => setIsConfirmDialogOpen(true)}
                                 className="text-gray-500 hover:text-red-700 dark:hover:text-red-300 focus:outline-none"
@@ -532,6 +828,10 @@ const ProjectDetails: React.FC = () => {
                     </div>
                 )}
 
+                {sections.length > 0 && (
+                    <ProjectMetricsCard sections={sections} tasks={tasks} />
+                )}
+
                 {!showAutoSuggestForm && (
                     <div className="flex items-center justify-between mb-4">
                         <div className="flex items-center">
@@ -540,38 +840,70 @@ const ProjectDetails: React.FC = () => {
                                 {t('sidebar.tasks', 'Tasks')}
                             </h3>
                         </div>
-                        {completedTasks.length > 0 && (
-                            <label className="flex items-center space-x-2 cursor-pointer">
-                                <span className="text-sm text-gray-600 dark:text-gray-400">
-                                    {t('project.showCompleted', 'Show completed')}
-                                </span>
-                                <div className="relative flex items-center">
-                                    <input
-                                        type="checkbox"
-                                        checked={showCompleted}
-                                        onChange={(e) =>
-                                            setShowCompleted(e.target.checked)
-                                        }
-                                        className="sr-only"
-                                    />
-                                    <div
-                                        className={`w-10 h-5 rounded-full transition-colors ${
-                                            showCompleted
-                                                ? 'bg-blue-500'
-                                                : 'bg-gray-300 dark:bg-gray-600'
-                                        }`}
-                                    >
+                        <div className="flex items-center space-x-4">
+                            {!isBoardView && completedTasks.length > 0 && (
+                                <label className="flex items-center space-x-2 cursor-pointer">
+                                    <span className="text-sm text-gray-600 dark:text-gray-400">
+                                        {t('project.showCompleted', 'Show completed')}
+                                    </span>
+                                    <div className="relative flex items-center">
+                                        <input
+                                            type="checkbox"
+                                            checked={showCompleted}
+                                            onChange={(e) =>
+                                                setShowCompleted(
+                                                    e.target.checked
+                                                )
+                                            }
+                                            className="sr-only"
+                                        />
                                         <div
-                                            className={`w-4 h-4 bg-white rounded-full shadow-md transform transition-transform duration-200 ease-in-out ${
+                                            className={`w-10 h-5 rounded-full transition-colors ${
                                                 showCompleted
-                                                    ? 'translate-x-5'
-                                                    : 'translate-x-0.5'
-                                            } translate-y-0.5`}
-                                        ></div>
+                                                    ? 'bg-blue-500'
+                                                    : 'bg-gray-300 dark:bg-gray-600'
+                                            }`}
+                                        >
+                                            <div
+                                                className={`w-4 h-4 bg-white rounded-full shadow-md transform transition-transform duration-200 ease-in-out ${
+                                                    showCompleted
+                                                        ? 'translate-x-5'
+                                                        : 'translate-x-0.5'
+                                                } translate-y-0.5`}
+                                            ></div>
+                                        </div>
                                     </div>
-                                </div>
-                            </label>
-                        )}
+                                </label>
+                            )}
+                            <div className="flex items-center rounded-md border border-gray-300 dark:border-gray-600 overflow-hidden">
+                                <button
+                                    onClick={() => handleViewModeChange('list')}
+                                    className={`p-1.5 focus:outline-none ${
+                                        !isBoardView
+                                            ? 'bg-blue-500 text-white'
+                                            : 'text-gray-500 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700'
+                                    }`}
+                                    title={t('project.listView')}
+                                    aria-label={t('project.listView')}
+                                >
+                                    <ListBulletIcon className="h-4 w-4" />
+                                </button>
+                                <button
+                                    onClick={() =>
+                                        handleViewModeChange('board')
+                                    }
+                                    className={`p-1.5 focus:outline-none ${
+                                        isBoardView
+                                            ? 'bg-blue-500 text-white'
+                                            : 'text-gray-500 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700'
+                                    }`}
+                                    title={t('project.boardView')}
+                                    aria-label={t('project.boardView')}
+                                >
+                                    <ViewColumnsIcon className="h-4 w-4" />
+                                </button>
+                            </div>
+                        </div>
                     </div>
                 )}
 
@@ -580,15 +912,94 @@ const ProjectDetails: React.FC = () => {
                 )}
 
                 <div className="mt-2">
-                    {displayTasks.length > 0 ? (
-                        <TaskList
-                            tasks={displayTasks}
-                            onTaskUpdate={handleTaskUpdate}
-                            onTaskDelete={handleTaskDelete}
-                            projects={project ? [project] : []}
-                            hideProjectName={true}
-                            onToggleToday={handleToggleToday}
+                    {isBoardView && !showAutoSuggestForm ? (
+                        <ProjectBoard
+                            tasks={tasks}
+                            wipLimits={project.wip_limits || {}}
+                            onStatusChange={handleBoardStatusChange}
+                            onWipLimitChange={handleWipLimitChange}
                         />
+                    ) : sections.length > 0 && !showAutoSuggestForm ? (
+                        <>
+                            <div
+                                onDragOver={(e) => e.preventDefault()}
+                                onDrop={(e) => {
+                                    e.preventDefault();
+                                    const taskId = parseInt(
+                                        e.dataTransfer.getData('text/plain'),
+                                        10
+                                    );
+                                    if (taskId) {
+                                        handleTaskSectionChange(taskId, null);
+                                    }
+                                }}
+                                className="min-h-[2.5rem]"
+                            >
+                                {unsectionedTasks.length > 0 ? (
+                                    renderTaskList(unsectionedTasks)
+                                ) : (
+                                    <p className="text-sm text-gray-400 dark:text-gray-500 py-2">
+                                        {t('project.sections.unsectionedEmpty')}
+                                    </p>
+                                )}
+                            </div>
+                            {sections.map((section, index) => {
+                                const sectionTasks = displayTasks.filter(
+                                    (task) => task.section_id === section.id
+                                );
+                                return (
+                                    <ProjectSectionGroup
+                                        key={section.id}
+                                        section={section}
+                                        progress={getSectionProgress(
+                                            section,
+                                            tasks
+                                        )}
+                                        isCollapsed={collapsedSectionIds.includes(
+                                            section.id!
+                                        )}
+                                        onToggleCollapse={() =>
+                                            toggleSectionCollapsed(section.id!)
+                                        }
+                                        canMoveUp={index > 0}
+                                        canMoveDown={
+                                            index < sections.length - 1
+                                        }
+                                        onMove={(offset) =>
+                                            handleSectionMove(
+                                                section,
+                                                index + offset
+                                            )
+                                        }
+                                        onUpdate={(sectionData) =>
+                                            handleSectionUpdate(
+                                                section,
+                                                sectionData
+                                            )
+                                        }
+                                        onDelete={() =>
+                                            handleSectionDelete(section)
+                                        }
+                                        onTaskDrop={(taskId) =>
+                                            handleTaskSectionChange(
+                                                taskId,
+                                                section.id!
+                                            )
+                                        }
+                                    >
+                                        {sectionTasks.length > 0 ? (
+                                            renderTaskList(sectionTasks)
+                                        ) : (
+                                            <p className="text-sm text-gray-400 dark:text-gray-500 py-2">
+                                                {t('project.sections.empty')}
+                                            </p>
+                                        )}
+                                    </ProjectSectionGroup>
+                                );
+                            })}
+                        </>
+                    ) : displayTasks.length > 0 ? (
+                        renderTaskList(displayTasks)
                     ) : showAutoSuggestForm ? (
                         <AutoSuggestNextActionBox
                             onAddAction={(actionDescription) => {
@@ -607,6 +1018,25 @@ const ProjectDetails: React.FC = () => {
                             No tasks.
                         </p>
                     )}
+
+                    {!isBoardView &&
+                        !showAutoSuggestForm &&
+                        (isAddingSection ? (
+                            <div className="mt-6">
+                                <ProjectSectionForm
+                                    onSave={handleSectionCreate}
+                                    onCancel={() => setIsAddingSection(false)}
+                                />
+                            </div>
+                        ) : (
+                            <button
+                                onClick={() => setIsAddingSection(true)}
+                                className="mt-6 flex items-center text-sm text-gray-500 dark:text-gray-400 hover:text-blue-600 dark:hover:text-blue-400 focus:outline-none"
+                            >
+                                <PlusIcon className="h-4 w-4 mr-1" />
+                                {t('project.sections.add')}
+                            </button>
+                        ))}
                 </div>
 
                 {/* Notes Section */}
@@ -679,6 +1109,14 @@ const ProjectDetails: React.FC = () => {
                     areas={areas}
                 />
 
+                {isTemplateDialogOpen && (
+                    <SaveProjectTemplateDialog
+                        project={project}
+                        onSave={handleSaveTemplate}
+                        onCancel={() => setIsTemplateDialogOpen(false)}
+                    />
+                )}
+
                 {isConfirmDialogOpen && (
                     <ConfirmDialog
                         title="Delete Project"
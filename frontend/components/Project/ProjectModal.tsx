@@ -1,7 +1,9 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { Area } from '../../entities/Area';
 import { Project } from '../../entities/Project';
+import { ProjectTemplate } from '../../entities/ProjectTemplate';
 import ConfirmDialog from '../Shared/ConfirmDialog';
+import ProjectTemplatePicker from './ProjectTemplatePicker';
 import { useToast } from '../Shared/ToastContext';
 import TagInput from '../Tag/TagInput';
 import PriorityDropdown from '../Shared/PriorityDropdown';
@@ -9,6 +11,11 @@ import { PriorityType } from '../../entities/Task';
 import Switch from '../Shared/Switch';
 import { useStore } from '../../store/useStore';
 import { useTranslation } from 'react-i18next';
+import {
+    fetchProjectTemplates,
+    instantiateProjectTemplate,
+    deleteProjectTemplate,
+} from '../../utils/projectTemplatesService';
 import {
     TagIcon,
     FolderIcon,
@@ -19,6 +26,17 @@ import {
     PowerIcon,
 } from '@heroicons/react/24/outline';
 
+const collapsedSections = {
+    tags: false,
+    area: false,
+    image: false,
+    priority: false,
+    dueDate: false,
+    active: false,
+};
+
+const today = () => new Date().toISOString().split('T')[0];
+
 interface ProjectModalProps {
     isOpen: boolean;
     onClose: () => void;
@@ -26,6 +44,8 @@ interface ProjectModalProps {
     onDelete?: (projectId: number) => void;
     project?: Project;
     areas: Area[];
+    // Offers creating the project from a template when given
+    onCreateFromTemplate?: (project: Project) => void;
 }
 
 const ProjectModal: React.FC<ProjectModalProps> = ({
@@ -35,6 +55,7 @@ const ProjectModal: React.FC<ProjectModalProps> = ({
     onDelete,
     project,
     areas,
+    onCreateFromTemplate,
 }) => {
     const [formData, setFormData] = useState<Project>(
         project || {
@@ -67,15 +88,18 @@ const ProjectModal: React.FC<ProjectModalProps> = ({
     const [showConfirmDialog, setShowConfirmDialog] = useState(false);
     const [error, setError] = useState<string | null>(null);
 
+    const [templates, setTemplates] = useState<ProjectTemplate[]>([]);
+    const [templateId, setTemplateId] = useState<number | null>(null);
+    const [templateValues, setTemplateValues] = useState<
+        Record<string, string>
+    >({});
+    const [templateStartDate, setTemplateStartDate] = useState(today());
+    const selectedTemplate = templates.find(
+        (template) => template.id === templateId
+    );
+
     // Collapsible sections state
-    const [expandedSections, setExpandedSections] = useState({
-        tags: false,
-        area: false,
-        image: false,
-        priority: false,
-        dueDate: false,
-        active: false,
-    });
+    const [expandedSections, setExpandedSections] = useState(collapsedSections);
 
     const { showSuccessToast } = useToast();
     const { t } = useTranslation();
@@ -108,6 +132,16 @@ const ProjectModal: React.FC<ProjectModalProps> = ({
         setError(null);
     }, [project]);
 
+    useEffect(() => {
+        if (!isOpen || project || !onCreateFromTemplate) return;
+
+        fetchProjectTemplates()
+            .then(setTemplates)
+            .catch((error) =>
+                console.error('Error fetching project templates:', error)
+            );
+    }, [isOpen, project]);
+
     useEffect(() => {
         const handleClickOutside = (event: MouseEvent) => {
             const target = event.target as Node;
@@ -245,7 +279,67 @@ const ProjectModal: React.FC<ProjectModalProps> = ({
         }
     };
 
+    const handleTemplateChange = (id: number | null) => {
+        setTemplateId(id);
+        setTemplateValues({});
+        setExpandedSections(collapsedSections);
+        setError(null);
+    };
+
+    const handleTemplateValueChange = (placeholder: string, value: string) => {
+        setError(null);
+        setTemplateValues((prev) => ({ ...prev, [placeholder]: value }));
+    };
+
+    const handleTemplateAreaChange = (areaId: number | null) => {
+        setFormData((prev) => ({ ...prev, area_id: areaId }));
+    };
+
+    const handleCreateFromTemplate = async (template: ProjectTemplate) => {
+        if (template.placeholders.some((key) => !templateValues[key]?.trim())) {
+            setError(t('project.templates.valuesRequired'));
+            return;
+        }
+
+        try {
+            const createdProject = await instantiateProjectTemplate(
+                template.id,
+                {
+                    start_date: templateStartDate,
+                    values: templateValues,
+                    area_id: formData.area_id || null,
+                }
+            );
+            onCreateFromTemplate?.(createdProject);
+            showSuccessToast(
+                t('project.templates.created', { name: createdProject.name })
+            );
+            handleClose();
+        } catch (error) {
+            console.error('Error creating project from template:', error);
+            setError(t('project.templates.createFailed'));
+        }
+    };
+
+    const handleDeleteTemplate = async (template: ProjectTemplate) => {
+        try {
+            await deleteProjectTemplate(template.id);
+            setTemplates((prev) =>
+                prev.filter((other) => other.id !== template.id)
+            );
+            handleTemplateChange(null);
+        } catch (error) {
+            console.error('Error deleting project template:', error);
+            setError(t('project.templates.deleteFailed'));
+        }
+    };
+
     const handleSubmit = async () => {
+        if (selectedTemplate) {
+            await handleCreateFromTemplate(selectedTemplate);
+            return;
+        }
+
         // Validate required fields
         if (!formData.name.trim()) {
             setError(
@@ -369,48 +463,94 @@ const ProjectModal: React.FC<ProjectModalProps> = ({
                                 >
                                     <form className="h-full">
                                         <fieldset className="h-full flex flex-col">
-                                            {/* Project Title Section - Always Visible */}
-                                            <div className="border-b border-gray-200 dark:border-gray-700 pb-4 mb-4 px-4 pt-4">
-                                                <input
-                                                    type="text"
-                                                    id="projectName"
-                                                    name="name"
-                                                    value={formData.name}
-                                                    onChange={handleChange}
-                                                    required
-                                                    className={`block w-full text-xl font-semibold bg-transparent text-black dark:text-white border-none focus:outline-none shadow-sm py-2`}
-                                                    placeholder={t(
-                                                        'project.name',
-                                                        'Enter project name'
-                                                    )}
-                                                />
-                                                {error && (
-                                                    <div className="mt-2 text-red-500 text-sm font-medium">
-                                                        {error}
-                                                    </div>
+                                            {!project &&
+                                                templates.length > 0 && (
+                                                    <ProjectTemplatePicker
+                                                        templates={templates}
+                                                        selectedTemplate={
+                                                            selectedTemplate
+                                                        }
+                                                        onSelect={
+                                                            handleTemplateChange
+                                                        }
+                                                        onDelete={
+                                                            handleDeleteTemplate
+                                                        }
+                                                        startDate={
+                                                            templateStartDate
+                                                        }
+                                                        onStartDateChange={
+                                                            setTemplateStartDate
+                                                        }
+                                                        values={templateValues}
+                                                        onValueChange={
+                                                            handleTemplateValueChange
+                                                        }
+                                                        areas={areas}
+                                                        areaId={
+                                                            formData.area_id ||
+                                                            null
+                                                        }
+                                                        onAreaChange={
+                                                            handleTemplateAreaChange
+                                                        }
+                                                        error={error}
+                                                    />
                                                 )}
-                                            </div>
-
-                                            {/* Description Section - Always Visible */}
-                                            <div className="flex-1 border-b border-gray-200 dark:border-gray-700 pb-4 mb-4 px-4">
-                                                <textarea
-                                                    id="projectDescription"
-                                                    name="description"
-                                                    value={
-                                                        formData.description ||
-                                                        ''
-                                                    }
-                                                    onChange={handleChange}
-                                                    className="block w-full h-full border border-gray-300 dark:border-gray-600 rounded-md shadow-sm p-3 text-sm bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100 focus:ring-2 focus:ring-blue-500 transition duration-150 ease-in-out resize-none"
-                                                    placeholder={t(
-                                                        'forms.areaDescriptionPlaceholder',
-                                                        'Enter project description (optional)'
-                                                    )}
-                                                    style={{
-                                                        minHeight: '200px',
-                                                    }}
-                                                />
-                                            </div>
+
+                                            {!selectedTemplate && (
+                                                <>
+                                                    {/* Project Title Section - Always Visible */}
+                                                    <div className="border-b border-gray-200 dark:border-gray-700 pb-4 mb-4 px-4 pt-4">
+                                                        <input
+                                                            type="text"
+                                                            id="projectName"
+                                                            name="name"
+                                                            value={
+                                                                formData.name
+                                                            }
+                                                            onChange={
+                                                                handleChange
+                                                            }
+                                                            required
+                                                            className={`block w-full text-xl font-semibold bg-transparent text-black dark:text-white border-none focus:outline-none shadow-sm py-2`}
+                                                            placeholder={t(
+                                                                'project.name',
+                                                                'Enter project name'
+                                                            )}
+                                                        />
+                                                        {error && (
+                                                            <div className="mt-2 text-red-500 text-sm font-medium">
+                                                                {error}
+                                                            </div>
+                                                        )}
+                                                    </div>
+
+                                                    {/* Description Section - Always Visible */}
+                                                    <div className="flex-1 border-b border-gray-200 dark:border-gray-700 pb-4 mb-4 px-4">
+                                                        <textarea
+                                                            id="projectDescription"
+                                                            name="description"
+                                                            value={
+                                                                formData.description ||
+                                                                ''
+                                                            }
+                                                            onChange={
+                                                                handleChange
+                                                            }
+                                                            className="block w-full h-full border border-gray-300 dark:border-gray-600 rounded-md shadow-sm p-3 text-sm bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100 focus:ring-2 focus:ring-blue-500 transition duration-150 ease-in-out resize-none"
+                                                            placeholder={t(
+                                                                'forms.areaDescriptionPlaceholder',
+                                                                'Enter project description (optional)'
+                                                            )}
+                                                            style={{
+                                                                minHeight:
+                                                                    '200px',
+                                                            }}
+                                                        />
+                                                    </div>
+                                                </>
+                                            )}
 
                                             {/* Expandable Sections - Only show when expanded */}
                                             {/* Active Status Section - First */}
@@ -626,7 +766,11 @@ const ProjectModal: React.FC<ProjectModalProps> = ({
                             </div>
 
                             {/* Section Icons - Above border, split layout */}
-                            <div className="flex-shrink-0 bg-white dark:bg-gray-800 px-3 py-2">
+                            <div
+                                className={`flex-shrink-0 bg-white dark:bg-gray-800 px-3 py-2 ${
+                                    selectedTemplate ? 'hidden' : ''
+                                }`}
+                            >
                                 <div className="flex items-center justify-between">
                                     {/* Left side: Section icons */}
                                     <div className="flex items-center space-x-1">
@@ -796,15 +940,17 @@ const ProjectModal: React.FC<ProjectModalProps> = ({
                                 >
                                     {isUploading
                                         ? 'Uploading...'
-                                        : project
-                                          ? t(
-                                                'modals.updateProject',
-                                                'Update Project'
-                                            )
-                                          : t(
-                                                'modals.createProject',
-                                                'Create Project'
-                                            )}
+                                        : selectedTemplate
+                                          ? t('project.templates.create')
+                                          : project
+                                            ? t(
+                                                  'modals.updateProject',
+                                                  'Update Project'
+                                              )
+                                            : t(
+                                                  'modals.createProject',
+                                                  'Create Project'
+                                              )}
                                 </button>
                             </div>
                         </div>
@@ -0,0 +1,80 @@
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { ProjectSection } from '../../entities/ProjectSection';
+
+interface ProjectSectionFormProps {
+    section?: ProjectSection;
+    onSave: (sectionData: Partial<ProjectSection>) => Promise<void>;
+    onCancel: () => void;
+}
+
+const ProjectSectionForm: React.FC<ProjectSectionFormProps> = ({
+    section,
+    onSave,
+    onCancel,
+}) => {
+    const { t } = useTranslation();
+    const [name, setName] = useState(section?.name || '');
+    const [targetDate, setTargetDate] = useState(
+        section?.target_date ? section.target_date.split('T')[0] : ''
+    );
+    const [isSaving, setIsSaving] = useState(false);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!name.trim() || isSaving) return;
+
+        setIsSaving(true);
+        try {
+            await onSave({
+                name: name.trim(),
+                target_date: targetDate || null,
+            });
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <form
+            onSubmit={handleSubmit}
+            onKeyDown={(e) => {
+                if (e.key === 'Escape') onCancel();
+            }}
+            className="flex flex-wrap items-center gap-2 py-2"
+        >
+            <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder={t('project.sections.namePlaceholder')}
+                autoFocus
+                className="flex-1 min-w-[12rem] text-sm rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-900 dark:text-gray-100 py-1 px-2"
+            />
+            <input
+                type="date"
+                value={targetDate}
+                onChange={(e) => setTargetDate(e.target.value)}
+                title={t('project.sections.targetDate')}
+                aria-label={t('project.sections.targetDate')}
+                className="text-sm rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-900 dark:text-gray-100 py-1 px-2"
+            />
+            <button
+                type="submit"
+                disabled={!name.trim() || isSaving}
+                className="text-sm px-3 py-1 rounded-md bg-blue-500 text-white hover:bg-blue-600 disabled:opacity-50 focus:outline-none"
+            >
+                {t('common.save', 'Save')}
+            </button>
+            <button
+                type="button"
+                onClick={onCancel}
+                className="text-sm px-3 py-1 rounded-md text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 focus:outline-none"
+            >
+                {t('common.cancel', 'Cancel')}
+            </button>
+        </form>
+    );
+};
+
+export default ProjectSectionForm;
@@ -0,0 +1,186 @@
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+    ArrowDownIcon,
+    ArrowUpIcon,
+    ChevronDownIcon,
+    ChevronRightIcon,
+    PencilSquareIcon,
+    TrashIcon,
+} from '@heroicons/react/24/outline';
+import ProjectSectionForm from './ProjectSectionForm';
+import ConfirmDialog from '../Shared/ConfirmDialog';
+import { ProjectSection, SectionProgress } from '../../entities/ProjectSection';
+
+interface ProjectSectionGroupProps {
+    section: ProjectSection;
+    progress: SectionProgress;
+    isCollapsed: boolean;
+    onToggleCollapse: () => void;
+    canMoveUp: boolean;
+    canMoveDown: boolean;
+    onMove: (offset: number) => void;
+    onUpdate: (sectionData: Partial<ProjectSection>) => Promise<void>;
+    onDelete: () => void;
+    // Called with the id of a task dropped on the section header
+    onTaskDrop: (taskId: number) => void;
+    children: React.ReactNode;
+}
+
+const ProjectSectionGroup: React.FC<ProjectSectionGroupProps> = ({
+    section,
+    progress,
+    isCollapsed,
+    onToggleCollapse,
+    canMoveUp,
+    canMoveDown,
+    onMove,
+    onUpdate,
+    onDelete,
+    onTaskDrop,
+    children,
+}) => {
+    const { t, i18n } = useTranslation();
+    const [isEditing, setIsEditing] = useState(false);
+    const [isConfirmDialogOpen, setIsConfirmDialogOpen] = useState(false);
+    const [isDropTarget, setIsDropTarget] = useState(false);
+
+    const percent =
+        progress.total > 0
+            ? Math.round((progress.completed / progress.total) * 100)
+            : 0;
+
+    const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+        e.preventDefault();
+        setIsDropTarget(false);
+        const taskId = parseInt(e.dataTransfer.getData('text/plain'), 10);
+        if (taskId) {
+            onTaskDrop(taskId);
+        }
+    };
+
+    return (
+        <div className="mt-6">
+            {isEditing ? (
+                <ProjectSectionForm
+                    section={section}
+                    onSave={async (sectionData) => {
+                        await onUpdate(sectionData);
+                        setIsEditing(false);
+                    }}
+                    onCancel={() => setIsEditing(false)}
+                />
+            ) : (
+                <div
+                    onDragOver={(e) => {
+                        e.preventDefault();
+                        setIsDropTarget(true);
+                    }}
+                    onDragLeave={() => setIsDropTarget(false)}
+                    onDrop={handleDrop}
+                    className={`group flex items-center justify-between py-2 border-b-2 ${
+                        isDropTarget
+                            ? 'border-blue-500'
+                            : 'border-gray-200 dark:border-gray-700'
+                    }`}
+                >
+                    <button
+                        onClick={onToggleCollapse}
+                        className="flex items-center min-w-0 focus:outline-none"
+                        aria-expanded={!isCollapsed}
+                    >
+                        {isCollapsed ? (
+                            <ChevronRightIcon className="h-4 w-4 text-gray-500 mr-2 flex-shrink-0" />
+                        ) : (
+                            <ChevronDownIcon className="h-4 w-4 text-gray-500 mr-2 flex-shrink-0" />
+                        )}
+                        <span className="font-medium text-gray-900 dark:text-gray-100 truncate">
+                            {section.name}
+                        </span>
+                        {section.target_date && (
+                            <span
+                                className={`ml-3 text-xs flex-shrink-0 ${
+                                    progress.status === 'overdue'
+                                        ? 'text-red-600 dark:text-red-400'
+                                        : 'text-gray-500 dark:text-gray-400'
+                                }`}
+                            >
+                                {new Date(
+                                    section.target_date
+                                ).toLocaleDateString(i18n.language)}
+                            </span>
+                        )}
+                    </button>
+                    <div className="flex items-center space-x-2 flex-shrink-0">
+                        <div className="hidden group-hover:flex items-center space-x-1">
+                            <button
+                                onClick={() => onMove(-1)}
+                                disabled={!canMoveUp}
+                                className="p-1 text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 disabled:opacity-30 focus:outline-none"
+                                title={t('project.sections.moveUp')}
+                            >
+                                <ArrowUpIcon className="h-4 w-4" />
+                            </button>
+                            <button
+                                onClick={() => onMove(1)}
+                                disabled={!canMoveDown}
+                                className="p-1 text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 disabled:opacity-30 focus:outline-none"
+                                title={t('project.sections.moveDown')}
+                            >
+                                <ArrowDownIcon className="h-4 w-4" />
+                            </button>
+                            <button
+                                onClick={() => setIsEditing(true)}
+                                className="p-1 text-gray-400 hover:text-blue-600 focus:outline-none"
+                                title={t('common.edit', 'Edit')}
+                            >
+                                <PencilSquareIcon className="h-4 w-4" />
+                            </button>
+                            <button
+                                onClick={() => setIsConfirmDialogOpen(true)}
+                                className="p-1 text-gray-400 hover:text-red-600 focus:outline-none"
+                                title={t('common.delete', 'Delete')}
+                            >
+                                <TrashIcon className="h-4 w-4" />
+                            </button>
+                        </div>
+                        <div
+                            className="w-16 h-1.5 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden"
+                            aria-hidden="true"
+                        >
+                            <div
+                                className={`h-full ${
+                                    progress.status === 'done'
+                                        ? 'bg-green-500'
+                                        : 'bg-blue-500'
+                                }`}
+                                style={{ width: `${percent}%` }}
+                            />
+                        </div>
+                        <span className="text-xs text-gray-500 dark:text-gray-400 w-10 text-right">
+                            {progress.completed}/{progress.total}
+                        </span>
+                    </div>
+                </div>
+            )}
+
+            {!isCollapsed && <div className="mt-2">{children}</div>}
+
+            {isConfirmDialogOpen && (
+                <ConfirmDialog
+                    title={t('project.sections.deleteTitle')}
+                    message={t('project.sections.deleteConfirm', {
+                        name: section.name,
+                    })}
+                    onConfirm={() => {
+                        setIsConfirmDialogOpen(false);
+                        onDelete();
+                    }}
+                    onCancel={() => setIsConfirmDialogOpen(false)}
+                />
+            )}
+        </div>
+    );
+};
+
+export default ProjectSectionGroup;
@@ -0,0 +1,170 @@
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { DocumentDuplicateIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { Area } from '../../entities/Area';
+import { ProjectTemplate } from '../../entities/ProjectTemplate';
+
+interface ProjectTemplatePickerProps {
+    templates: ProjectTemplate[];
+    selectedTemplate?: ProjectTemplate;
+    onSelect: (templateId: number | null) => void;
+    onDelete: (template: ProjectTemplate) => void;
+    startDate: string;
+    onStartDateChange: (startDate: string) => void;
+    values: Record<string, string>;
+    onValueChange: (placeholder: string, value: string) => void;
+    areas: Area[];
+    areaId: number | null;
+    onAreaChange: (areaId: number | null) => void;
+    error: string | null;
+}
+
+const inputClassName =
+    'block w-full border border-gray-300 dark:border-gray-600 rounded-md shadow-sm px-3 py-2 text-sm bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100 focus:ring-2 focus:ring-blue-500';
+
+const ProjectTemplatePicker: React.FC<ProjectTemplatePickerProps> = ({
+    templates,
+    selectedTemplate,
+    onSelect,
+    onDelete,
+    startDate,
+    onStartDateChange,
+    values,
+    onValueChange,
+    areas,
+    areaId,
+    onAreaChange,
+    error,
+}) => {
+    const { t } = useTranslation();
+    const [isConfirmingDelete, setIsConfirmingDelete] = useState(false);
+
+    return (
+        <>
+            <div className="border-b border-gray-200 dark:border-gray-700 pb-4 px-4 pt-4">
+                <div className="flex items-center gap-2">
+                    <DocumentDuplicateIcon className="h-5 w-5 text-gray-500 flex-shrink-0" />
+                    <select
+                        value={selectedTemplate?.id || ''}
+                        onChange={(e) => {
+                            setIsConfirmingDelete(false);
+                            onSelect(
+                                e.target.value ? Number(e.target.value) : null
+                            );
+                        }}
+                        aria-label={t('project.templates.startFrom')}
+                        className={`flex-1 min-w-0 ${inputClassName}`}
+                    >
+                        <option value="">{t('project.templates.blank')}</option>
+                        {templates.map((template) => (
+                            <option key={template.id} value={template.id}>
+                                {template.name}
+                            </option>
+                        ))}
+                    </select>
+                    {selectedTemplate &&
+                        (isConfirmingDelete ? (
+                            <>
+                                <button
+                                    type="button"
+                                    onClick={() => onDelete(selectedTemplate)}
+                                    className="text-sm text-red-600 dark:text-red-400 hover:underline focus:outline-none"
+                                >
+                                    {t('project.templates.confirmDelete')}
+                                </button>
+                                <button
+                                    type="button"
+                                    onClick={() => setIsConfirmingDelete(false)}
+                                    className="text-sm text-gray-600 dark:text-gray-400 hover:underline focus:outline-none"
+                                >
+                                    {t('common.cancel', 'Cancel')}
+                                </button>
+                            </>
+                        ) : (
+                            <button
+                                type="button"
+                                onClick={() => setIsConfirmingDelete(true)}
+                                className="p-2 text-gray-400 hover:text-red-600 focus:outline-none"
+                                title={t('project.templates.delete')}
+                            >
+                                <TrashIcon className="h-4 w-4" />
+                            </button>
+                        ))}
+                </div>
+            </div>
+
+            {selectedTemplate && (
+                <div className="flex-1 border-b border-gray-200 dark:border-gray-700 pb-4 mb-4 px-4 pt-4 space-y-4">
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                            {t('project.templates.startDate')}
+                        </label>
+                        <input
+                            type="date"
+                            value={startDate}
+                            onChange={(e) => onStartDateChange(e.target.value)}
+                            className={inputClassName}
+                        />
+                        <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                            {t('project.templates.startDateHint')}
+                        </p>
+                    </div>
+                    {selectedTemplate.placeholders.map((placeholder) => (
+                        <div key={placeholder}>
+                            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                                {`{{${placeholder}}}`}
+                            </label>
+                            <input
+                                type="text"
+                                value={values[placeholder] || ''}
+                                onChange={(e) =>
+                                    onValueChange(placeholder, e.target.value)
+                                }
+                                className={inputClassName}
+                            />
+                        </div>
+                    ))}
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                            {t('common.area', 'Area')}
+                        </label>
+                        <select
+                            value={areaId || ''}
+                            onChange={(e) =>
+                                onAreaChange(
+                                    e.target.value
+                                        ? Number(e.target.value)
+                                        : null
+                                )
+                            }
+                            className={inputClassName}
+                        >
+                            <option value="">
+                                {t('common.none', 'No Area')}
+                            </option>
+                            {areas.map((area) => (
+                                <option key={area.id} value={area.id}>
+                                    {area.name}
+                                </option>
+                            ))}
+                        </select>
+                    </div>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                        {t('project.templates.summary', {
+                            sections: selectedTemplate.content.sections.length,
+                            tasks: selectedTemplate.content.tasks.length,
+                            notes: selectedTemplate.content.notes.length,
+                        })}
+                    </p>
+                    {error && (
+                        <div className="text-red-500 text-sm font-medium">
+                            {error}
+                        </div>
+                    )}
+                </div>
+            )}
+        </>
+    );
+};
+
+export default ProjectTemplatePicker;
@@ -0,0 +1,192 @@
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { PlusIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { Project } from '../../entities/Project';
+
+interface PlaceholderRow {
+    key: string;
+    text: string;
+}
+
+interface SaveProjectTemplateDialogProps {
+    project: Project;
+    onSave: (templateData: {
+        name: string;
+        start_date: string;
+        placeholders: Record<string, string>;
+    }) => Promise<void>;
+    onCancel: () => void;
+}
+
+const today = () => new Date().toISOString().split('T')[0];
+
+const SaveProjectTemplateDialog: React.FC<SaveProjectTemplateDialogProps> = ({
+    project,
+    onSave,
+    onCancel,
+}) => {
+    const { t } = useTranslation();
+    const [name, setName] = useState(project.name);
+    const [startDate, setStartDate] = useState(today());
+    const [placeholders, setPlaceholders] = useState<PlaceholderRow[]>([]);
+    const [isSaving, setIsSaving] = useState(false);
+
+    const updatePlaceholder = (
+        index: number,
+        changes: Partial<PlaceholderRow>
+    ) =>
+        setPlaceholders((rows) =>
+            rows.map((row, i) => (i === index ? { ...row, ...changes } : row))
+        );
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!name.trim() || !startDate || isSaving) return;
+
+        setIsSaving(true);
+        try {
+            await onSave({
+                name: name.trim(),
+                start_date: startDate,
+                placeholders: Object.fromEntries(
+                    placeholders
+                        .filter((row) => row.key && row.text)
+                        .map((row) => [row.key, row.text])
+                ),
+            });
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 flex items-center justify-center bg-black bg-opacity-50 z-50">
+            <form
+                onSubmit={handleSubmit}
+                onKeyDown={(e) => {
+                    if (e.key === 'Escape') onCancel();
+                }}
+                className="bg-white dark:bg-gray-800 p-8 rounded-lg shadow-xl w-full max-w-lg mx-4"
+            >
+                <h3 className="text-xl font-semibold mb-4 text-gray-900 dark:text-white">
+                    {t('project.templates.saveTitle')}
+                </h3>
+
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                    {t('project.templates.name')}
+                </label>
+                <input
+                    type="text"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    autoFocus
+                    className="block w-full mb-4 text-sm rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-900 dark:text-gray-100 py-2 px-3"
+                />
+
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                    {t('project.templates.startDate')}
+                </label>
+                <input
+                    type="date"
+                    value={startDate}
+                    onChange={(e) => setStartDate(e.target.value)}
+                    className="block w-full text-sm rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-900 dark:text-gray-100 py-2 px-3"
+                />
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1 mb-4">
+                    {t('project.templates.startDateHint')}
+                </p>
+
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                    {t('project.templates.placeholders')}
+                </label>
+                <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">
+                    {t('project.templates.placeholdersHint', {
+                        example: '{{client}}',
+                    })}
+                </p>
+                <div className="space-y-2 mb-2">
+                    {placeholders.map((row, index) => (
+                        <div key={index} className="flex items-center gap-2">
+                            <input
+                                type="text"
+                                value={row.text}
+                                onChange={(e) =>
+                                    updatePlaceholder(index, {
+                                        text: e.target.value,
+                                    })
+                                }
+                                placeholder={t(
+                                    'project.templates.placeholderText'
+                                )}
+                                className="flex-1 min-w-0 text-sm rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-900 dark:text-gray-100 py-1 px-2"
+                            />
+                            <span className="text-sm text-gray-500">
+                                {'{{'}
+                            </span>
+                            <input
+                                type="text"
+                                value={row.key}
+                                onChange={(e) =>
+                                    updatePlaceholder(index, {
+                                        key: e.target.value.replace(/\W/g, ''),
+                                    })
+                                }
+                                placeholder={t(
+                                    'project.templates.placeholderName'
+                                )}
+                                className="w-28 text-sm rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-900 dark:text-gray-100 py-1 px-2"
+                            />
+                            <span className="text-sm text-gray-500">
+                                {'}}'}
+                            </span>
+                            <button
+                                type="button"
+                                onClick={() =>
+                                    setPlaceholders((rows) =>
+                                        rows.filter((_, i) => i !== index)
+                                    )
+                                }
+                                className="p-1 text-gray-400 hover:text-red-600 focus:outline-none"
+                                title={t('common.delete', 'Delete')}
+                            >
+                                <XMarkIcon className="h-4 w-4" />
+                            </button>
+                        </div>
+                    ))}
+                </div>
+                <button
+                    type="button"
+                    onClick={() =>
+                        setPlaceholders((rows) => [
+                            ...rows,
+                            { key: '', text: '' },
+                        ])
+                    }
+                    className="flex items-center text-sm text-blue-600 dark:text-blue-400 hover:underline focus:outline-none mb-8"
+                >
+                    <PlusIcon className="h-4 w-4 mr-1" />
+                    {t('project.templates.addPlaceholder')}
+                </button>
+
+                <div className="flex justify-end space-x-4">
+                    <button
+                        type="button"
+                        onClick={onCancel}
+                        className="px-4 py-2 bg-gray-300 text-gray-700 rounded hover:bg-gray-400 focus:outline-none"
+                    >
+                        {t('common.cancel', 'Cancel')}
+                    </button>
+                    <button
+                        type="submit"
+                        disabled={!name.trim() || !startDate || isSaving}
+                        className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 disabled:opacity-50 focus:outline-none"
+                    >
+                        {t('common.save', 'Save')}
+                    </button>
+                </div>
+            </form>
+        </div>
+    );
+};
+
+export default SaveProjectTemplateDialog;
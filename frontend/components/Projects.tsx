@@ -7,6 +7,7 @@ import {
     ChevronDownIcon,
 } from '@heroicons/react/24/solid';
 import ConfirmDialog from './Shared/ConfirmDialog';
+import { useToast } from './Shared/ToastContext';
 import ProjectModal from './Project/ProjectModal';
 import { useStore } from '../store/useStore';
 import {
@@ -103,6 +104,7 @@ const Dropdown: React.FC<DropdownProps> = ({ label, value, options, onChange, pl
 
 const Projects: React.FC = () => {
     const { t } = useTranslation();
+    const { showSuccessToast } = useToast();
     const {
         areas,
         setAreas,
@@ -190,6 +192,19 @@ const Projects: React.FC = () => {
         }
     };
 
+    const handleProjectCreatedFromTemplate = async () => {
+        try {
+            const groupedProjectsData = await fetchGroupedProjects(
+                activeFilter,
+                areaFilter
+            );
+            setGroupedProjects(groupedProjectsData);
+        } catch (error) {
+            console.error('Error fetching projects:', error);
+            setProjectsError(true);
+        }
+    };
+
     const handleEditProject = (project: Project) => {
         setProjectToEdit(project);
         setIsProjectModalOpen(true);
@@ -201,12 +216,19 @@ const Projects: React.FC = () => {
         try {
             if (projectToDelete.id !== undefined) {
                 setProjectsLoading(true);
-                await deleteProject(projectToDelete.id);
+                const undoToken = await deleteProject(projectToDelete.id);
                 const groupedProjectsData = await fetchGroupedProjects(
                     activeFilter,
                     areaFilter
                 );
                 setGroupedProjects(groupedProjectsData);
+                showSuccessToast(t('success.projectDeleted'), {
+                    undoToken,
+                    onUndo: async () =>
+                        setGroupedProjects(
+                            await fetchGroupedProjects(activeFilter, areaFilter)
+                        ),
+                });
             } else {
                 console.error('Cannot delete project: ID is undefined.');
             }
@@ -467,6 +489,7 @@ const Projects: React.FC = () => {
                         setProjectToEdit(null);
                     }}
                     onSave={handleSaveProject}
+                    onCreateFromTemplate={handleProjectCreatedFromTemplate}
                     onDelete={async (projectId) => {
                         try {
                             await deleteProject(projectId);
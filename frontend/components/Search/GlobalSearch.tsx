@@ -0,0 +1,162 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { MagnifyingGlassIcon } from '@heroicons/react/24/outline';
+import { SearchHit, SearchResults } from '../../entities/Search';
+import { search } from '../../utils/searchService';
+
+// Render FTS highlight markers as <mark> elements without using innerHTML
+const Highlighted: React.FC<{ text: string }> = ({ text }) => (
+    <>
+        {text.split(/(<mark>.*?<\/mark>)/g).map((part, index) =>
+            part.startsWith('<mark>') ? (
+                <mark
+                    key={index}
+                    className="bg-yellow-200 dark:bg-yellow-700 text-inherit rounded-sm"
+                >
+                    {part.slice(6, -7)}
+                </mark>
+            ) : (
+                <React.Fragment key={index}>{part}</React.Fragment>
+            )
+        )}
+    </>
+);
+
+const GlobalSearch: React.FC = () => {
+    const { t } = useTranslation();
+    const navigate = useNavigate();
+    const [query, setQuery] = useState('');
+    const [results, setResults] = useState<SearchResults | null>(null);
+    const [isOpen, setIsOpen] = useState(false);
+    const containerRef = useRef<HTMLDivElement>(null);
+
+    // Debounce requests while the user is typing
+    useEffect(() => {
+        const trimmed = query.trim();
+        if (!trimmed) {
+            setResults(null);
+            return;
+        }
+
+        const timeout = setTimeout(async () => {
+            try {
+                setResults(await search(trimmed));
+                setIsOpen(true);
+            } catch (error) {
+                console.error('Error searching:', error);
+            }
+        }, 250);
+
+        return () => clearTimeout(timeout);
+    }, [query]);
+
+    useEffect(() => {
+        const handleClickOutside = (event: MouseEvent) => {
+            if (
+                containerRef.current &&
+                !containerRef.current.contains(event.target as Node)
+            ) {
+                setIsOpen(false);
+            }
+        };
+        document.addEventListener('mousedown', handleClickOutside);
+        return () => {
+            document.removeEventListener('mousedown', handleClickOutside);
+        };
+    }, []);
+
+    const getHitPath = (hit: SearchHit) => {
+        switch (hit.type) {
+            case 'task':
+                return `/task/${hit.uuid}`;
+            case 'note':
+                return `/note/${hit.id}`;
+            case 'project':
+                return `/project/${hit.id}`;
+            default:
+                return '/inbox';
+        }
+    };
+
+    const handleSelect = (hit: SearchHit) => {
+        setIsOpen(false);
+        setQuery('');
+        navigate(getHitPath(hit));
+    };
+
+    const groups: { key: keyof SearchResults['results']; label: string }[] = [
+        { key: 'tasks', label: t('search.groups.tasks', 'Tasks') },
+        { key: 'notes', label: t('search.groups.notes', 'Notes') },
+        { key: 'projects', label: t('search.groups.projects', 'Projects') },
+        { key: 'inbox', label: t('search.groups.inbox', 'Inbox') },
+    ];
+
+    return (
+        <div ref={containerRef} className="relative w-full max-w-md">
+            <div className="relative">
+                <MagnifyingGlassIcon className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+                <input
+                    type="search"
+                    value={query}
+                    onChange={(e) => setQuery(e.target.value)}
+                    onFocus={() => results && setIsOpen(true)}
+                    onKeyDown={(e) => {
+                        if (e.key === 'Escape') {
+                            setIsOpen(false);
+                        }
+                    }}
+                    placeholder={t('search.placeholder', 'Search...')}
+                    aria-label={t('search.placeholder', 'Search...')}
+                    className="w-full pl-9 pr-3 py-1.5 text-sm rounded-full bg-gray-100 dark:bg-gray-800 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+            </div>
+
+            {isOpen && results && (
+                <div className="absolute left-0 right-0 mt-2 max-h-96 overflow-y-auto bg-white dark:bg-gray-800 rounded-lg shadow-lg border border-gray-200 dark:border-gray-700 z-50">
+                    {results.total === 0 ? (
+                        <p className="px-4 py-3 text-sm text-gray-500 dark:text-gray-400">
+                            {t('search.noResults', 'No results found')}
+                        </p>
+                    ) : (
+                        groups.map(({ key, label }) => {
+                            const hits = results.results[key] || [];
+                            if (hits.length === 0) return null;
+
+                            return (
+                                <div key={key} className="py-2">
+                                    <h4 className="px-4 pb-1 text-xs font-semibold uppercase text-gray-500 dark:text-gray-400">
+                                        {label}
+                                    </h4>
+                                    {hits.map((hit) => (
+                                        <button
+                                            key={`${hit.type}-${hit.id}`}
+                                            type="button"
+                                            onClick={() => handleSelect(hit)}
+                                            className="block w-full text-left px-4 py-2 hover:bg-gray-100 dark:hover:bg-gray-700"
+                                        >
+                                            <div className="text-sm text-gray-900 dark:text-gray-100 truncate">
+                                                <Highlighted
+                                                    text={hit.title_highlight}
+                                                />
+                                            </div>
+                                            {hit.snippet && (
+                                                <div className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                                                    <Highlighted
+                                                        text={hit.snippet}
+                                                    />
+                                                </div>
+                                            )}
+                                        </button>
+                                    ))}
+                                </div>
+                            );
+                        })
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default GlobalSearch;
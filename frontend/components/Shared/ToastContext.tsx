@@ -1,22 +1,41 @@
 import React, { createContext, useContext, useState, useCallback } from 'react';
+import { useTranslation } from 'react-i18next';
 import { CheckCircleIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+import { undoChange, UndoResult } from '../../utils/undoService';
 
 interface Toast {
     id: number;
     message: string | React.ReactNode;
     type: 'success' | 'error';
+    undoToken?: string | null;
+    onUndo?: (result: UndoResult) => void;
+}
+
+interface ToastOptions {
+    // Offers an Undo action that reverses the change behind the toast
+    undoToken?: string | null;
+    // Called once the change is undone, for views that keep their own copy
+    // of what came back
+    onUndo?: (result: UndoResult) => void;
 }
 
 interface ToastContextProps {
-    showSuccessToast: (message: string | React.ReactNode) => void;
+    showSuccessToast: (
+        message: string | React.ReactNode,
+        options?: ToastOptions
+    ) => void;
     showErrorToast: (message: string | React.ReactNode) => void;
 }
 
+// Toasts with an Undo action stay a little longer
+const UNDO_TOAST_DURATION = 6000;
+
 const ToastContext = createContext<ToastContextProps | undefined>(undefined);
 
 export const ToastProvider: React.FC<{ children: React.ReactNode }> = ({
     children,
 }) => {
+    const { t } = useTranslation();
     const [toasts, setToasts] = useState<Toast[]>([]);
 
     const removeToast = useCallback((id: number) => {
@@ -24,11 +43,20 @@ export const ToastProvider: React.FC<{ children: React.ReactNode }> = ({
     }, []);
 
     const showSuccessToast = useCallback(
-        (message: string | React.ReactNode) => {
+        (message: string | React.ReactNode, options: ToastOptions = {}) => {
             const id = Date.now() + Math.random();
-            const newToast: Toast = { id, message, type: 'success' };
+            const newToast: Toast = {
+                id,
+                message,
+                type: 'success',
+                undoToken: options.undoToken,
+                onUndo: options.onUndo,
+            };
             setToasts(prev => [...prev, newToast]);
-            setTimeout(() => removeToast(id), 4000);
+            setTimeout(
+                () => removeToast(id),
+                options.undoToken ? UNDO_TOAST_DURATION : 4000
+            );
         },
         [removeToast]
     );
@@ -40,6 +68,24 @@ export const ToastProvider: React.FC<{ children: React.ReactNode }> = ({
         setTimeout(() => removeToast(id), 4000);
     }, [removeToast]);
 
+    // The server pushes the reverted tasks to every open view
+    const handleUndo = useCallback(
+        async (toast: Toast) => {
+            removeToast(toast.id);
+            try {
+                const result = await undoChange(toast.undoToken!);
+                toast.onUndo?.(result);
+                showSuccessToast(t('success.changeUndone', 'Change undone'));
+            } catch (error) {
+                console.error('Error undoing change:', error);
+                showErrorToast(
+                    t('errors.undoFailed', 'This change can no longer be undone.')
+                );
+            }
+        },
+        [removeToast, showSuccessToast, showErrorToast, t]
+    );
+
     return (
         <ToastContext.Provider value={{ showSuccessToast, showErrorToast }}>
             {children}
@@ -49,6 +95,10 @@ export const ToastProvider: React.FC<{ children: React.ReactNode }> = ({
                         key={toast.id}
                         message={toast.message}
                         type={toast.type}
+                        undoLabel={t('common.undo', 'Undo')}
+                        onUndo={
+                            toast.undoToken ? () => handleUndo(toast) : undefined
+                        }
                         onClose={() => removeToast(toast.id)}
                         style={{ transform: `translateY(${index * 4}px)` }}
                     />
@@ -69,9 +119,11 @@ export const useToast = () => {
 const ToastComponent: React.FC<{
     message: string | React.ReactNode;
     type: 'success' | 'error';
+    undoLabel: string;
+    onUndo?: () => void;
     onClose: () => void;
     style?: React.CSSProperties;
-}> = ({ message, type, onClose, style }) => {
+}> = ({ message, type, undoLabel, onUndo, onClose, style }) => {
     return (
         <div
             className={`px-4 py-3 rounded-lg shadow-md text-white transition-all duration-300 ${
@@ -88,6 +140,14 @@ const ToastComponent: React.FC<{
                     )}
                 </div>
                 <div className="flex-1">{message}</div>
+                {onUndo && (
+                    <button
+                        onClick={onUndo}
+                        className="ml-4 px-2 py-0.5 text-sm font-semibold uppercase rounded hover:bg-white/20 flex-shrink-0"
+                    >
+                        {undoLabel}
+                    </button>
+                )}
                 <button
                     onClick={onClose}
                     className="ml-4 text-xl leading-none hover:opacity-75 flex-shrink-0"
@@ -1,4 +1,4 @@
-import React, { useEffect } from 'react';
+import React, { useEffect, useState } from 'react';
 import { Location } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
 import {
@@ -6,9 +6,21 @@ import {
     InboxIcon,
     ListBulletIcon,
     ClockIcon,
+    PauseCircleIcon,
+    FunnelIcon,
+    TrashIcon,
 } from '@heroicons/react/24/solid';
+import { PlusCircleIcon, PencilIcon } from '@heroicons/react/24/outline';
 import { useStore } from '../../store/useStore';
 import { loadInboxItemsToStore } from '../../utils/inboxService';
+import { SavedFilter } from '../../entities/SavedFilter';
+import {
+    fetchSavedFilters,
+    createSavedFilter,
+    updateSavedFilter,
+    deleteSavedFilter,
+} from '../../utils/filtersService';
+import SavedFilterModal from '../Filter/SavedFilterModal';
 
 interface SidebarNavProps {
     handleNavClick: (path: string, title: string, icon: JSX.Element) => void;
@@ -26,11 +38,61 @@ const SidebarNav: React.FC<SidebarNavProps> = ({
     // Get inbox items count for badge
     const inboxItemsCount = store.inboxStore.inboxItems.length;
 
+    const [savedFilters, setSavedFilters] = useState<SavedFilter[]>([]);
+    const [isFilterModalOpen, setIsFilterModalOpen] = useState(false);
+    const [selectedFilter, setSelectedFilter] = useState<SavedFilter | null>(
+        null
+    );
+
     // Load inbox items when component mounts to ensure badge shows correct count
     useEffect(() => {
         loadInboxItemsToStore(false).catch(console.error);
+        fetchSavedFilters().then(setSavedFilters).catch(console.error);
     }, []);
 
+    const openFilterModal = (filter: SavedFilter | null) => {
+        setSelectedFilter(filter);
+        setIsFilterModalOpen(true);
+    };
+
+    const filterPath = (filter: SavedFilter) => `/tasks?filter_id=${filter.id}`;
+
+    const handleSaveFilter = async (filterData: SavedFilter) => {
+        const { name, query } = filterData;
+        if (filterData.id) {
+            const updated = await updateSavedFilter(filterData.id, {
+                name,
+                query,
+            });
+            setSavedFilters((prev) =>
+                prev.map((f) => (f.id === updated.id ? updated : f))
+            );
+        } else {
+            const created = await createSavedFilter({ name, query });
+            setSavedFilters((prev) =>
+                [...prev, created].sort((a, b) => a.name.localeCompare(b.name))
+            );
+            handleNavClick(
+                filterPath(created),
+                created.name,
+                <FunnelIcon className="h-5 w-5" />
+            );
+        }
+    };
+
+    const handleDeleteFilter = async (filterId: number) => {
+        await deleteSavedFilter(filterId);
+        setSavedFilters((prev) => prev.filter((f) => f.id !== filterId));
+    };
+
+    const isFilterActive = (filter: SavedFilter) => {
+        const params = new URLSearchParams(location.search);
+        return location.pathname === '/tasks' &&
+            params.get('filter_id') === String(filter.id)
+            ? 'bg-gray-200 dark:bg-gray-700 text-gray-900 dark:text-white'
+            : 'text-gray-700 dark:text-gray-300';
+    };
+
     const navLinks = [
         {
             path: '/inbox',
@@ -49,6 +111,12 @@ const SidebarNav: React.FC<SidebarNavProps> = ({
             icon: <ClockIcon className="h-5 w-5" />,
             query: 'type=upcoming',
         },
+        {
+            path: '/tasks?type=deferred',
+            title: t('sidebar.deferred', 'Deferred'),
+            icon: <PauseCircleIcon className="h-5 w-5" />,
+            query: 'type=deferred',
+        },
         {
             path: '/tasks',
             title: t('sidebar.allTasks', 'All Tasks'),
@@ -104,6 +172,79 @@ const SidebarNav: React.FC<SidebarNavProps> = ({
                     </li>
                 </React.Fragment>
             ))}
+
+            <li>
+                <button
+                    onClick={() =>
+                        handleNavClick(
+                            '/trash',
+                            t('sidebar.trash', 'Trash'),
+                            <TrashIcon className="h-5 w-5" />
+                        )
+                    }
+                    className={`w-full text-left px-4 py-1 flex items-center rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition-all duration-200 ${
+                        location.pathname === '/trash'
+                            ? 'bg-gray-200 dark:bg-gray-700 text-gray-900 dark:text-white'
+                            : 'text-gray-700 dark:text-gray-300'
+                    }`}
+                >
+                    <TrashIcon className="h-5 w-5" />
+                    <span className="ml-2">{t('sidebar.trash', 'Trash')}</span>
+                </button>
+            </li>
+
+            {/* Saved filters (smart lists) */}
+            <li className="flex justify-between items-center px-4 pt-4 pb-1 uppercase text-xs tracking-wider text-gray-700 dark:text-gray-300">
+                <span>{t('sidebar.smartLists', 'Smart Lists')}</span>
+                <button
+                    onClick={() => openFilterModal(null)}
+                    className="hover:text-black dark:hover:text-white focus:outline-none"
+                    aria-label={t('filters.create', 'Create Smart List')}
+                    title={t('filters.create', 'Create Smart List')}
+                >
+                    <PlusCircleIcon className="h-5 w-5" />
+                </button>
+            </li>
+            {savedFilters.map((filter) => (
+                <li key={filter.id} className="group">
+                    <div
+                        className={`w-full px-4 py-1 flex items-center justify-between rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition-all duration-200 ${isFilterActive(
+                            filter
+                        )}`}
+                    >
+                        <button
+                            onClick={() =>
+                                handleNavClick(
+                                    filterPath(filter),
+                                    filter.name,
+                                    <FunnelIcon className="h-5 w-5" />
+                                )
+                            }
+                            className="flex flex-1 items-center text-left min-w-0"
+                            title={filter.query}
+                        >
+                            <FunnelIcon className="h-5 w-5 flex-shrink-0" />
+                            <span className="ml-2 truncate">{filter.name}</span>
+                        </button>
+                        <button
+                            onClick={() => openFilterModal(filter)}
+                            className="opacity-0 group-hover:opacity-100 text-gray-500 hover:text-black dark:hover:text-white focus:outline-none"
+                            aria-label={t('filters.edit', 'Edit smart list')}
+                            title={t('filters.edit', 'Edit smart list')}
+                        >
+                            <PencilIcon className="h-4 w-4" />
+                        </button>
+                    </div>
+                </li>
+            ))}
+
+            <SavedFilterModal
+                isOpen={isFilterModalOpen}
+                onClose={() => setIsFilterModalOpen(false)}
+                onSave={handleSaveFilter}
+                onDelete={handleDeleteFilter}
+                filter={selectedFilter}
+            />
         </ul>
     );
 };
@@ -1,11 +1,19 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { useToast } from '../../components/Shared/ToastContext';
 import { useTranslation } from 'react-i18next';
-import { PlusCircleIcon } from '@heroicons/react/24/outline';
+import { PlusCircleIcon, XMarkIcon } from '@heroicons/react/24/outline';
 import { getTaskIntelligenceEnabled } from '../../utils/profileService';
+import { Task } from '../../entities/Task';
+import { TaskTemplate } from '../../entities/TaskTemplate';
+import { taskFromTemplate } from '../../utils/taskTemplatesService';
+import TaskTemplateMenu from './TaskTemplateMenu';
 
 interface NewTaskProps {
-    onTaskCreate: (taskName: string) => Promise<void>;
+    // templateData holds the defaults of a chosen task template
+    onTaskCreate: (
+        taskName: string,
+        templateData?: Partial<Task>
+    ) => Promise<void>;
 }
 
 const NewTask: React.FC<NewTaskProps> = ({ onTaskCreate }) => {
@@ -13,6 +21,8 @@ const NewTask: React.FC<NewTaskProps> = ({ onTaskCreate }) => {
     const [showNameLengthHelper, setShowNameLengthHelper] = useState(false);
     const [taskIntelligenceEnabled, setTaskIntelligenceEnabled] =
         useState(true);
+    const [template, setTemplate] = useState<TaskTemplate | null>(null);
+    const inputRef = useRef<HTMLInputElement>(null);
     const { showErrorToast } = useToast();
     const { t } = useTranslation();
 
@@ -47,20 +57,33 @@ const NewTask: React.FC<NewTaskProps> = ({ onTaskCreate }) => {
         }
     };
 
+    const handleTemplateSelect = (selected: TaskTemplate) => {
+        setTemplate(selected);
+        setTaskName(selected.task_name);
+        setShowNameLengthHelper(false);
+        inputRef.current?.focus();
+    };
+
     const handleKeyDown = async (
         event: React.KeyboardEvent<HTMLInputElement>
     ) => {
         if (event.key === 'Enter' && taskName.trim()) {
             const taskText = taskName.trim();
+            const usedTemplate = template;
             setTaskName('');
+            setTemplate(null);
             setShowNameLengthHelper(false); // Hide helper when creating task
 
             try {
-                await onTaskCreate(taskText);
+                await onTaskCreate(
+                    taskText,
+                    usedTemplate ? taskFromTemplate(usedTemplate) : undefined
+                );
                 // Success toast is now handled by the parent component
             } catch (error) {
                 console.error('Error creating task:', error);
                 setTaskName(taskText);
+                setTemplate(usedTemplate);
                 showErrorToast(
                     t('errors.taskCreate', 'Failed to create task.')
                 );
@@ -75,6 +98,7 @@ const NewTask: React.FC<NewTaskProps> = ({ onTaskCreate }) => {
                     <PlusCircleIcon className="h-6 w-6" />
                 </span>
                 <input
+                    ref={inputRef}
                     type="text"
                     value={taskName}
                     onChange={handleInputChange}
@@ -85,7 +109,24 @@ const NewTask: React.FC<NewTaskProps> = ({ onTaskCreate }) => {
                         'Προσθήκη Νέας Εργασίας'
                     )}
                 />
+                <TaskTemplateMenu onSelect={handleTemplateSelect} />
             </div>
+            {template && (
+                <div className="flex items-center mt-1 px-4 text-xs text-gray-500 dark:text-gray-400">
+                    <span>
+                        {t('task.templates.applied', { name: template.name })}
+                    </span>
+                    <button
+                        type="button"
+                        onClick={() => setTemplate(null)}
+                        className="ml-1 p-0.5 hover:text-gray-700 dark:hover:text-gray-200 focus:outline-none"
+                        title={t('task.templates.clear')}
+                        aria-label={t('task.templates.clear')}
+                    >
+                        <XMarkIcon className="h-3 w-3" />
+                    </button>
+                </div>
+            )}
             {showNameLengthHelper && taskIntelligenceEnabled && (
                 <div className="mt-2 p-3 bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-700 rounded-md">
                     <div className="flex items-start">
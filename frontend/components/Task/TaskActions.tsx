@@ -1,12 +1,16 @@
 import React from 'react';
 import { useTranslation } from 'react-i18next';
 import { TrashIcon } from '@heroicons/react/24/outline';
+import TaskSnoozeMenu from './TaskSnoozeMenu';
 
 interface TaskActionsProps {
     taskId: number | undefined;
     onDelete: () => void;
     onSave: () => void;
     onCancel: () => void;
+    deferUntil?: string | null;
+    // Shows the snooze menu; called with a YYYY-MM-DD date or null
+    onSnooze?: (deferUntil: string | null) => void;
 }
 
 const TaskActions: React.FC<TaskActionsProps> = ({
@@ -14,6 +18,8 @@ const TaskActions: React.FC<TaskActionsProps> = ({
     onDelete,
     onSave,
     onCancel,
+    deferUntil,
+    onSnooze,
 }) => {
     const { t } = useTranslation();
 
@@ -30,6 +36,9 @@ const TaskActions: React.FC<TaskActionsProps> = ({
                     <TrashIcon className="h-5 w-5" />
                 </button>
             )}
+            {taskId && onSnooze && (
+                <TaskSnoozeMenu deferUntil={deferUntil} onSnooze={onSnooze} />
+            )}
             <button
                 type="button"
                 onClick={onCancel}
@@ -0,0 +1,199 @@
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+    CheckIcon,
+    SunIcon,
+    TrashIcon,
+    XMarkIcon,
+} from '@heroicons/react/24/outline';
+import ConfirmDialog from '../Shared/ConfirmDialog';
+import { Project } from '../../entities/Project';
+import { BulkTaskOperations } from '../../utils/tasksService';
+
+interface TaskBulkActionBarProps {
+    selectedCount: number;
+    projects: Project[];
+    onApply: (operations: BulkTaskOperations) => Promise<void>;
+    onClear: () => void;
+}
+
+const DUE_DATE_SHIFTS = [1, 7, -1, -7];
+
+const selectClassName =
+    'text-sm bg-gray-100 dark:bg-gray-800 border-none rounded-md py-1 pl-2 pr-7 focus:ring-2 focus:ring-blue-500';
+const buttonClassName =
+    'flex items-center text-sm px-2 py-1 rounded-md hover:bg-gray-100 dark:hover:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+const TaskBulkActionBar: React.FC<TaskBulkActionBarProps> = ({
+    selectedCount,
+    projects,
+    onApply,
+    onClear,
+}) => {
+    const { t } = useTranslation();
+    const [tagName, setTagName] = useState('');
+    const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
+
+    const applyTag = async (key: 'add_tags' | 'remove_tags') => {
+        if (!tagName.trim()) return;
+        await onApply({ [key]: [tagName.trim()] });
+        setTagName('');
+    };
+
+    const handleDelete = async () => {
+        setIsDeleteDialogOpen(false);
+        await onApply({ delete: true });
+    };
+
+    if (selectedCount === 0) return null;
+
+    return (
+        <>
+            <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-40 max-w-[95vw] bg-white dark:bg-gray-900 shadow-lg rounded-lg px-4 py-2 flex flex-wrap items-center gap-2 text-gray-700 dark:text-gray-200">
+                <span className="text-sm font-semibold mr-2">
+                    {t('tasks.bulk.selected', { count: selectedCount })}
+                </span>
+
+                <button
+                    onClick={() => onApply({ status: 'done' })}
+                    className={buttonClassName}
+                >
+                    <CheckIcon className="h-4 w-4 mr-1" />
+                    {t('tasks.bulk.complete')}
+                </button>
+                <button
+                    onClick={() => onApply({ today: true })}
+                    className={buttonClassName}
+                >
+                    <SunIcon className="h-4 w-4 mr-1" />
+                    {t('tasks.bulk.addToToday')}
+                </button>
+                <button
+                    onClick={() => onApply({ today: false })}
+                    className={buttonClassName}
+                >
+                    {t('tasks.bulk.removeFromToday')}
+                </button>
+
+                <select
+                    value=""
+                    onChange={(e) => onApply({ priority: e.target.value })}
+                    className={selectClassName}
+                    aria-label={t('tasks.bulk.setPriority')}
+                >
+                    <option value="" disabled>
+                        {t('tasks.bulk.setPriority')}
+                    </option>
+                    {['low', 'medium', 'high'].map((priority) => (
+                        <option key={priority} value={priority}>
+                            {t(`priority.${priority}`)}
+                        </option>
+                    ))}
+                </select>
+
+                <select
+                    value=""
+                    onChange={(e) =>
+                        onApply({
+                            project_id:
+                                e.target.value === 'none'
+                                    ? null
+                                    : Number(e.target.value),
+                        })
+                    }
+                    className={selectClassName}
+                    aria-label={t('tasks.bulk.moveToProject')}
+                >
+                    <option value="" disabled>
+                        {t('tasks.bulk.moveToProject')}
+                    </option>
+                    <option value="none">{t('tasks.bulk.noProject')}</option>
+                    {projects.map((project) => (
+                        <option key={project.id} value={project.id}>
+                            {project.name}
+                        </option>
+                    ))}
+                </select>
+
+                <select
+                    value=""
+                    onChange={(e) =>
+                        onApply({
+                            due_date_shift_days: Number(e.target.value),
+                        })
+                    }
+                    className={selectClassName}
+                    aria-label={t('tasks.bulk.shiftDueDate')}
+                >
+                    <option value="" disabled>
+                        {t('tasks.bulk.shiftDueDate')}
+                    </option>
+                    {DUE_DATE_SHIFTS.map((days) => (
+                        <option key={days} value={days}>
+                            {days > 0
+                                ? t('tasks.bulk.laterDays', { count: days })
+                                : t('tasks.bulk.earlierDays', {
+                                      count: -days,
+                                  })}
+                        </option>
+                    ))}
+                </select>
+
+                <div className="flex items-center gap-1">
+                    <input
+                        type="text"
+                        value={tagName}
+                        onChange={(e) => setTagName(e.target.value)}
+                        onKeyDown={(e) => {
+                            if (e.key === 'Enter') applyTag('add_tags');
+                        }}
+                        placeholder={t('tasks.bulk.tagPlaceholder')}
+                        className="text-sm w-24 bg-gray-100 dark:bg-gray-800 border-none rounded-md py-1 px-2 focus:ring-2 focus:ring-blue-500"
+                    />
+                    <button
+                        onClick={() => applyTag('add_tags')}
+                        className={buttonClassName}
+                    >
+                        {t('tasks.bulk.addTag')}
+                    </button>
+                    <button
+                        onClick={() => applyTag('remove_tags')}
+                        className={buttonClassName}
+                    >
+                        {t('tasks.bulk.removeTag')}
+                    </button>
+                </div>
+
+                <button
+                    onClick={() => setIsDeleteDialogOpen(true)}
+                    className={`${buttonClassName} text-red-600 dark:text-red-400`}
+                    aria-label={t('common.delete')}
+                    title={t('common.delete')}
+                >
+                    <TrashIcon className="h-4 w-4" />
+                </button>
+                <button
+                    onClick={onClear}
+                    className={buttonClassName}
+                    aria-label={t('tasks.bulk.clearSelection')}
+                    title={t('tasks.bulk.clearSelection')}
+                >
+                    <XMarkIcon className="h-4 w-4" />
+                </button>
+            </div>
+
+            {isDeleteDialogOpen && (
+                <ConfirmDialog
+                    title={t('tasks.bulk.confirmDeleteTitle')}
+                    message={t('tasks.bulk.confirmDeleteMessage', {
+                        count: selectedCount,
+                    })}
+                    onConfirm={handleDelete}
+                    onCancel={() => setIsDeleteDialogOpen(false)}
+                />
+            )}
+        </>
+    );
+};
+
+export default TaskBulkActionBar;
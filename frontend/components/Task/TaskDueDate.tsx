@@ -1,12 +1,18 @@
 import React from 'react';
 import { useTranslation } from 'react-i18next';
+import { formatDueTime } from '../../utils/dateUtils';
 
 interface TaskDueDateProps {
     dueDate: string;
+    dueTime?: string | null;
     className?: string;
 }
 
-const TaskDueDate: React.FC<TaskDueDateProps> = ({ dueDate, className }) => {
+const TaskDueDate: React.FC<TaskDueDateProps> = ({
+    dueDate,
+    dueTime,
+    className,
+}) => {
     const { t } = useTranslation();
     const getDueDateClass = () => {
         const today = new Date().toISOString().split('T')[0];
@@ -47,6 +53,7 @@ const TaskDueDate: React.FC<TaskDueDateProps> = ({ dueDate, className }) => {
             className={`flex items-center text-xs py-1 px-2 rounded-md border ${getDueDateClass()} ${className}`}
         >
             {formatDueDate()}
+            {dueTime && <span className="ml-1">{formatDueTime(dueTime)}</span>}
         </div>
     );
 };
@@ -0,0 +1,199 @@
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { LockClosedIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { Task, TaskReference } from '../../../entities/Task';
+import {
+    fetchTasks,
+    fetchTaskDependencies,
+    addTaskDependency,
+    removeTaskDependency,
+} from '../../../utils/tasksService';
+import { useToast } from '../../Shared/ToastContext';
+
+interface TaskDependenciesSectionProps {
+    taskId?: number;
+    onBlockedChange?: (blocked: boolean, blockedBy: TaskReference[]) => void;
+}
+
+const isResolved = (status: TaskReference['status']) =>
+    status === 'done' || status === 2 || status === 'archived' || status === 3;
+
+const TaskDependenciesSection: React.FC<TaskDependenciesSectionProps> = ({
+    taskId,
+    onBlockedChange,
+}) => {
+    const { t } = useTranslation();
+    const { showErrorToast } = useToast();
+    const [blockedBy, setBlockedBy] = useState<TaskReference[]>([]);
+    const [blocking, setBlocking] = useState<TaskReference[]>([]);
+    const [candidates, setCandidates] = useState<Task[]>([]);
+    const [selectedTaskId, setSelectedTaskId] = useState('');
+
+    useEffect(() => {
+        if (!taskId) return;
+
+        fetchTaskDependencies(taskId)
+            .then((result) => {
+                setBlockedBy(result.blocked_by);
+                setBlocking(result.blocking);
+            })
+            .catch((error) => {
+                console.error('Error fetching task dependencies:', error);
+            });
+
+        fetchTasks()
+            .then((result) => setCandidates(result.tasks))
+            .catch((error) => {
+                console.error('Error fetching tasks:', error);
+            });
+    }, [taskId]);
+
+    if (!taskId) {
+        return (
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+                {t(
+                    'forms.task.dependenciesSaveFirst',
+                    'Save the task first to add dependencies.'
+                )}
+            </p>
+        );
+    }
+
+    const applyResult = (result: {
+        blocked: boolean;
+        blocked_by: TaskReference[];
+        blocking: TaskReference[];
+    }) => {
+        setBlockedBy(result.blocked_by);
+        setBlocking(result.blocking);
+        onBlockedChange?.(
+            result.blocked,
+            result.blocked_by.filter((blocker) => !isResolved(blocker.status))
+        );
+    };
+
+    const handleAdd = async () => {
+        const dependsOnTaskId = parseInt(selectedTaskId, 10);
+        if (!dependsOnTaskId) return;
+
+        try {
+            applyResult(await addTaskDependency(taskId, dependsOnTaskId));
+            setSelectedTaskId('');
+        } catch (error) {
+            console.error('Error adding task dependency:', error);
+            showErrorToast(
+                (error as Error).message ||
+                    t('errors.dependencyAdd', 'Failed to add dependency')
+            );
+        }
+    };
+
+    const handleRemove = async (blocker: TaskReference) => {
+        try {
+            applyResult(await removeTaskDependency(taskId, blocker.id));
+        } catch (error) {
+            console.error('Error removing task dependency:', error);
+            showErrorToast(
+                t('errors.dependencyRemove', 'Failed to remove dependency')
+            );
+        }
+    };
+
+    const availableTasks = candidates.filter(
+        (candidate) =>
+            candidate.id !== taskId &&
+            !blockedBy.some((blocker) => blocker.id === candidate.id)
+    );
+
+    return (
+        <div>
+            <h4 className="text-xs font-medium text-gray-500 dark:text-gray-400 uppercase mb-2">
+                {t('forms.task.blockedBy', 'Blocked by')}
+            </h4>
+            {blockedBy.length === 0 ? (
+                <p className="text-sm text-gray-500 dark:text-gray-400 mb-3">
+                    {t('forms.task.noDependencies', 'No dependencies')}
+                </p>
+            ) : (
+                <ul className="space-y-1 mb-3">
+                    {blockedBy.map((blocker) => (
+                        <li key={blocker.id} className="flex items-center">
+                            <LockClosedIcon
+                                className={`h-4 w-4 ${
+                                    isResolved(blocker.status)
+                                        ? 'text-gray-300 dark:text-gray-600'
+                                        : 'text-amber-500'
+                                }`}
+                            />
+                            <span
+                                className={`ml-2 flex-1 text-sm ${
+                                    isResolved(blocker.status)
+                                        ? 'line-through text-gray-400 dark:text-gray-500'
+                                        : 'text-gray-900 dark:text-gray-100'
+                                }`}
+                            >
+                                {blocker.name}
+                            </span>
+                            <button
+                                type="button"
+                                onClick={() => handleRemove(blocker)}
+                                className="p-1 text-gray-400 hover:text-red-500"
+                                title={t('common.remove', 'Remove')}
+                            >
+                                <XMarkIcon className="h-4 w-4" />
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            <div className="flex items-center mb-4">
+                <select
+                    value={selectedTaskId}
+                    onChange={(e) => setSelectedTaskId(e.target.value)}
+                    className="flex-1 px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                >
+                    <option value="">
+                        {t(
+                            'forms.task.selectBlockingTask',
+                            'Select a task this one waits on'
+                        )}
+                    </option>
+                    {availableTasks.map((candidate) => (
+                        <option key={candidate.id} value={candidate.id}>
+                            {candidate.name}
+                        </option>
+                    ))}
+                </select>
+                <button
+                    type="button"
+                    onClick={handleAdd}
+                    disabled={!selectedTaskId}
+                    className="ml-2 px-3 py-1 text-sm text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+                >
+                    {t('common.add', 'Add')}
+                </button>
+            </div>
+
+            {blocking.length > 0 && (
+                <>
+                    <h4 className="text-xs font-medium text-gray-500 dark:text-gray-400 uppercase mb-2">
+                        {t('forms.task.blocking', 'Blocking')}
+                    </h4>
+                    <ul className="space-y-1">
+                        {blocking.map((dependent) => (
+                            <li
+                                key={dependent.id}
+                                className="text-sm text-gray-700 dark:text-gray-300"
+                            >
+                                {dependent.name}
+                            </li>
+                        ))}
+                    </ul>
+                </>
+            )}
+        </div>
+    );
+};
+
+export default TaskDependenciesSection;
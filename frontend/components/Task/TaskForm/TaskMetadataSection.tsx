@@ -9,15 +9,19 @@ import DatePicker from '../../Shared/DatePicker';
 interface TaskMetadataSectionProps {
     priority: PriorityType;
     dueDate: string;
+    dueTime: string;
     taskId?: number;
     onStatusChange: (value: StatusType) => void;
     onPriorityChange: (value: PriorityType) => void;
+    // Also receives due_time changes; leaving the time empty keeps the task
+    // due all day
     onDueDateChange: (e: React.ChangeEvent<HTMLInputElement>) => void;
 }
 
 const TaskMetadataSection: React.FC<TaskMetadataSectionProps> = ({
     priority,
     dueDate,
+    dueTime,
     taskId, // eslint-disable-line @typescript-eslint/no-unused-vars
     onStatusChange, // eslint-disable-line @typescript-eslint/no-unused-vars
     onPriorityChange,
@@ -53,6 +57,17 @@ const TaskMetadataSection: React.FC<TaskMetadataSectionProps> = ({
                         'Select due date'
                     )}
                 />
+                {dueDate && (
+                    <input
+                        type="time"
+                        name="due_time"
+                        value={dueTime}
+                        onChange={onDueDateChange}
+                        className="mt-2 block w-full text-sm rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100 py-2 px-3"
+                        title={t('forms.task.dueTimeHint')}
+                        aria-label={t('forms.task.labels.dueTime')}
+                    />
+                )}
             </div>
         </div>
     );
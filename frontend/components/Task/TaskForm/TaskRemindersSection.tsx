@@ -0,0 +1,212 @@
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { BellIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { TaskReminder } from '../../../entities/TaskReminder';
+import {
+    fetchTaskReminders,
+    createTaskReminder,
+    deleteTaskReminder,
+} from '../../../utils/taskRemindersService';
+import { formatDateTime } from '../../../utils/dateUtils';
+import { useToast } from '../../Shared/ToastContext';
+
+interface TaskRemindersSectionProps {
+    taskId?: number;
+    hasDueDate: boolean;
+}
+
+// Minutes before the due time offered for relative reminders
+const OFFSET_OPTIONS = [0, 15, 60, 1440];
+
+const TaskRemindersSection: React.FC<TaskRemindersSectionProps> = ({
+    taskId,
+    hasDueDate,
+}) => {
+    const { t } = useTranslation();
+    const { showErrorToast } = useToast();
+    const [reminders, setReminders] = useState<TaskReminder[]>([]);
+    const [mode, setMode] = useState<'time' | 'relative'>(
+        hasDueDate ? 'relative' : 'time'
+    );
+    const [remindAt, setRemindAt] = useState('');
+    const [minutesBeforeDue, setMinutesBeforeDue] = useState('0');
+
+    useEffect(() => {
+        if (!taskId) return;
+
+        fetchTaskReminders(taskId)
+            .then(setReminders)
+            .catch((error) => {
+                console.error('Error fetching task reminders:', error);
+            });
+    }, [taskId]);
+
+    if (!taskId) {
+        return (
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+                {t('forms.task.remindersSaveFirst')}
+            </p>
+        );
+    }
+
+    const offsetLabel = (minutes: number) =>
+        minutes === 0
+            ? t('forms.task.reminderAtDue')
+            : t(`forms.task.reminderOffsets.${minutes}`, `${minutes} min`);
+
+    const describe = (reminder: TaskReminder) =>
+        reminder.remind_at
+            ? t('forms.task.reminderAt', {
+                  time: formatDateTime(new Date(reminder.remind_at)),
+              })
+            : reminder.minutes_before_due
+              ? t('forms.task.reminderBeforeDue', {
+                    duration: offsetLabel(reminder.minutes_before_due),
+                })
+              : t('forms.task.reminderAtDue');
+
+    const canAdd = mode === 'time' ? !!remindAt : hasDueDate;
+
+    const handleAdd = async () => {
+        if (!canAdd) return;
+
+        try {
+            const reminder = await createTaskReminder(
+                taskId,
+                mode === 'time'
+                    ? {
+                          remind_at: new Date(remindAt).toISOString(),
+                          minutes_before_due: null,
+                      }
+                    : {
+                          remind_at: null,
+                          minutes_before_due: parseInt(minutesBeforeDue, 10),
+                      }
+            );
+            setReminders((prev) => [...prev, reminder]);
+            setRemindAt('');
+        } catch (error) {
+            console.error('Error adding task reminder:', error);
+            showErrorToast(t('errors.reminderAdd'));
+        }
+    };
+
+    const handleRemove = async (reminder: TaskReminder) => {
+        try {
+            await deleteTaskReminder(reminder.id);
+            setReminders((prev) =>
+                prev.filter((item) => item.id !== reminder.id)
+            );
+        } catch (error) {
+            console.error('Error removing task reminder:', error);
+            showErrorToast(t('errors.reminderRemove'));
+        }
+    };
+
+    const inputClassName =
+        'px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-1 focus:ring-blue-500';
+
+    return (
+        <div>
+            {reminders.length === 0 ? (
+                <p className="text-sm text-gray-500 dark:text-gray-400 mb-3">
+                    {t('forms.task.noReminders')}
+                </p>
+            ) : (
+                <ul className="space-y-1 mb-3">
+                    {reminders.map((reminder) => (
+                        <li key={reminder.id} className="flex items-center">
+                            <BellIcon
+                                className={`h-4 w-4 ${
+                                    reminder.sent_at
+                                        ? 'text-gray-300 dark:text-gray-600'
+                                        : 'text-blue-500'
+                                }`}
+                            />
+                            <span className="ml-2 flex-1 text-sm text-gray-900 dark:text-gray-100">
+                                {describe(reminder)}
+                                {reminder.sent_at ? (
+                                    <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">
+                                        {t('forms.task.reminderSent')}
+                                    </span>
+                                ) : (
+                                    reminder.snoozed_until && (
+                                        <span className="ml-2 text-xs text-amber-600 dark:text-amber-400">
+                                            {t('forms.task.reminderSnoozed', {
+                                                time: formatDateTime(
+                                                    new Date(
+                                                        reminder.snoozed_until
+                                                    )
+                                                ),
+                                            })}
+                                        </span>
+                                    )
+                                )}
+                            </span>
+                            <button
+                                type="button"
+                                onClick={() => handleRemove(reminder)}
+                                className="p-1 text-gray-400 hover:text-red-500"
+                                title={t('common.remove', 'Remove')}
+                            >
+                                <XMarkIcon className="h-4 w-4" />
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            <div className="flex items-center gap-2">
+                <select
+                    value={mode}
+                    onChange={(e) =>
+                        setMode(e.target.value as 'time' | 'relative')
+                    }
+                    className={inputClassName}
+                    aria-label={t('forms.task.reminders')}
+                >
+                    <option value="relative">
+                        {t('forms.task.reminderRelative')}
+                    </option>
+                    <option value="time">{t('forms.task.reminderTime')}</option>
+                </select>
+                {mode === 'time' ? (
+                    <input
+                        type="datetime-local"
+                        value={remindAt}
+                        onChange={(e) => setRemindAt(e.target.value)}
+                        className={`flex-1 min-w-0 ${inputClassName}`}
+                    />
+                ) : (
+                    <select
+                        value={minutesBeforeDue}
+                        onChange={(e) => setMinutesBeforeDue(e.target.value)}
+                        disabled={!hasDueDate}
+                        className={`flex-1 min-w-0 ${inputClassName}`}
+                    >
+                        {OFFSET_OPTIONS.map((minutes) => (
+                            <option key={minutes} value={minutes}>
+                                {offsetLabel(minutes)}
+                            </option>
+                        ))}
+                    </select>
+                )}
+                <button
+                    type="button"
+                    onClick={handleAdd}
+                    disabled={!canAdd}
+                    className="px-3 py-1 text-sm text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+                >
+                    {t('common.add', 'Add')}
+                </button>
+            </div>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+                {mode === 'relative' && !hasDueDate
+                    ? t('forms.task.reminderNeedsDueDate')
+                    : t('forms.task.remindersHint')}
+            </p>
+        </div>
+    );
+};
+
+export default TaskRemindersSection;
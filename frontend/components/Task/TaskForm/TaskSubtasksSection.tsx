@@ -0,0 +1,201 @@
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { PlusIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { Task, SubtaskProgress } from '../../../entities/Task';
+import {
+    fetchSubtasks,
+    createSubtask,
+    updateSubtask,
+    deleteSubtask,
+} from '../../../utils/tasksService';
+import { useToast } from '../../Shared/ToastContext';
+import ToggleSwitch from '../../Shared/ToggleSwitch';
+
+interface TaskSubtasksSectionProps {
+    taskId?: number;
+    completeWithSubtasks: boolean;
+    onCompleteWithSubtasksChange: (value: boolean) => void;
+    onProgressChange?: (progress: SubtaskProgress) => void;
+}
+
+const isSubtaskDone = (subtask: Task) =>
+    subtask.status === 'done' || subtask.status === 2;
+
+const TaskSubtasksSection: React.FC<TaskSubtasksSectionProps> = ({
+    taskId,
+    completeWithSubtasks,
+    onCompleteWithSubtasksChange,
+    onProgressChange,
+}) => {
+    const { t } = useTranslation();
+    const { showErrorToast } = useToast();
+    const [subtasks, setSubtasks] = useState<Task[]>([]);
+    const [newSubtaskName, setNewSubtaskName] = useState('');
+    const [loading, setLoading] = useState(false);
+
+    useEffect(() => {
+        if (!taskId) return;
+
+        setLoading(true);
+        fetchSubtasks(taskId)
+            .then((result) => {
+                setSubtasks(result.subtasks);
+                onProgressChange?.(result.subtask_progress);
+            })
+            .catch((error) => {
+                console.error('Error fetching subtasks:', error);
+            })
+            .finally(() => setLoading(false));
+    }, [taskId]);
+
+    if (!taskId) {
+        return (
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+                {t(
+                    'forms.task.subtasksSaveFirst',
+                    'Save the task first to add subtasks.'
+                )}
+            </p>
+        );
+    }
+
+    const handleAdd = async () => {
+        const name = newSubtaskName.trim();
+        if (!name) return;
+
+        try {
+            const result = await createSubtask(taskId, { name });
+            setSubtasks((prev) => [...prev, result.subtask]);
+            setNewSubtaskName('');
+            if (result.parent_task.subtask_progress) {
+                onProgressChange?.(result.parent_task.subtask_progress);
+            }
+        } catch (error) {
+            console.error('Error creating subtask:', error);
+            showErrorToast(t('errors.subtaskCreate', 'Failed to add subtask'));
+        }
+    };
+
+    const handleToggle = async (subtask: Task) => {
+        if (!subtask.id) return;
+
+        try {
+            const result = await updateSubtask(taskId, subtask.id, {
+                status: isSubtaskDone(subtask) ? 'not_started' : 'done',
+            });
+            setSubtasks((prev) =>
+                prev.map((s) => (s.id === subtask.id ? result.subtask : s))
+            );
+            if (result.parent_task.subtask_progress) {
+                onProgressChange?.(result.parent_task.subtask_progress);
+            }
+        } catch (error) {
+            console.error('Error updating subtask:', error);
+            showErrorToast(
+                t('errors.subtaskUpdate', 'Failed to update subtask')
+            );
+        }
+    };
+
+    const handleDelete = async (subtask: Task) => {
+        if (!subtask.id) return;
+
+        try {
+            const result = await deleteSubtask(taskId, subtask.id);
+            setSubtasks((prev) => prev.filter((s) => s.id !== subtask.id));
+            if (result.parent_task.subtask_progress) {
+                onProgressChange?.(result.parent_task.subtask_progress);
+            }
+        } catch (error) {
+            console.error('Error deleting subtask:', error);
+            showErrorToast(
+                t('errors.subtaskDelete', 'Failed to delete subtask')
+            );
+        }
+    };
+
+    return (
+        <div>
+            {loading ? (
+                <p className="text-sm text-gray-500 dark:text-gray-400">
+                    {t('common.loading', 'Loading...')}
+                </p>
+            ) : (
+                <ul className="space-y-1 mb-3">
+                    {subtasks.map((subtask) => (
+                        <li
+                            key={subtask.id}
+                            className="flex items-center group"
+                        >
+                            <input
+                                type="checkbox"
+                                checked={isSubtaskDone(subtask)}
+                                onChange={() => handleToggle(subtask)}
+                                className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                            />
+                            <span
+                                className={`ml-2 flex-1 text-sm ${
+                                    isSubtaskDone(subtask)
+                                        ? 'line-through text-gray-400 dark:text-gray-500'
+                                        : 'text-gray-900 dark:text-gray-100'
+                                }`}
+                            >
+                                {subtask.name}
+                            </span>
+                            <button
+                                type="button"
+                                onClick={() => handleDelete(subtask)}
+                                className="p-1 text-gray-400 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-opacity"
+                                title={t('common.delete', 'Delete')}
+                            >
+                                <XMarkIcon className="h-4 w-4" />
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            <div className="flex items-center mb-4">
+                <input
+                    type="text"
+                    value={newSubtaskName}
+                    onChange={(e) => setNewSubtaskName(e.target.value)}
+                    onKeyDown={(e) => {
+                        if (e.key === 'Enter') {
+                            e.preventDefault();
+                            handleAdd();
+                        }
+                    }}
+                    placeholder={t(
+                        'forms.task.addSubtaskPlaceholder',
+                        'Add a subtask'
+                    )}
+                    className="flex-1 px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                />
+                <button
+                    type="button"
+                    onClick={handleAdd}
+                    className="ml-2 p-1 text-blue-600 dark:text-blue-400 hover:text-blue-800"
+                    title={t('forms.task.addSubtask', 'Add subtask')}
+                >
+                    <PlusIcon className="h-5 w-5" />
+                </button>
+            </div>
+
+            <ToggleSwitch
+                checked={completeWithSubtasks}
+                onChange={onCompleteWithSubtasksChange}
+                label={t(
+                    'forms.task.labels.completeWithSubtasks',
+                    'Complete with subtasks'
+                )}
+                description={t(
+                    'forms.task.completeWithSubtasksHelp',
+                    'Mark this task as done when all of its subtasks are done'
+                )}
+            />
+        </div>
+    );
+};
+
+export default TaskSubtasksSection;
@@ -9,8 +9,10 @@ import {
 import { TagIcon, FolderIcon } from '@heroicons/react/24/solid';
 import { useTranslation } from 'react-i18next';
 import TaskPriorityIcon from './TaskPriorityIcon';
+import TaskStatusBadge from './TaskStatusBadge';
 import { Project } from '../../entities/Project';
 import { Task, StatusType } from '../../entities/Task';
+import { formatDueTime } from '../../utils/dateUtils';
 
 interface TaskHeaderProps {
     task: Task;
@@ -134,6 +136,16 @@ const TaskHeader: React.FC<TaskHeaderProps> = ({
                                     title="This task was in your plan yesterday and wasn't completed."
                                 />
                             )}
+                            {task.blocked && (
+                                <TaskStatusBadge
+                                    status={task.status}
+                                    blocked
+                                    blockedBy={task.blocked_by?.map(
+                                        (blocker) => blocker.name
+                                    )}
+                                    className="ml-2 inline-flex"
+                                />
+                            )}
                         </div>
                         {/* Project, tags, due date, and recurrence in same row, with spacing when they exist */}
                         <div className="flex items-center text-xs text-gray-500 dark:text-gray-400">
@@ -168,6 +180,11 @@ const TaskHeader: React.FC<TaskHeaderProps> = ({
                                 <div className="flex items-center">
                                     <CalendarIcon className="h-3 w-3 mr-1" />
                                     <span>{formatDueDate(task.due_date)}</span>
+                                    {task.due_time && (
+                                        <span className="ml-1">
+                                            {formatDueTime(task.due_time)}
+                                        </span>
+                                    )}
                                 </div>
                             )}
                             {((project && !hideProjectName) ||
@@ -282,6 +299,16 @@ const TaskHeader: React.FC<TaskHeaderProps> = ({
                                     title="This task was in your plan yesterday and wasn't completed."
                                 />
                             )}
+                            {task.blocked && (
+                                <TaskStatusBadge
+                                    status={task.status}
+                                    blocked
+                                    blockedBy={task.blocked_by?.map(
+                                        (blocker) => blocker.name
+                                    )}
+                                    className="ml-2 inline-flex"
+                                />
+                            )}
                         </div>
 
                         {/* Project, tags, due date, and recurrence */}
@@ -306,6 +333,11 @@ const TaskHeader: React.FC<TaskHeaderProps> = ({
                                 <div className="flex items-center">
                                     <CalendarIcon className="h-3 w-3 mr-1" />
                                     <span>{formatDueDate(task.due_date)}</span>
+                                    {task.due_time && (
+                                        <span className="ml-1">
+                                            {formatDueTime(task.due_time)}
+                                        </span>
+                                    )}
                                 </div>
                             )}
                             {task.recurrence_type &&
@@ -339,7 +371,10 @@ const TaskHeader: React.FC<TaskHeaderProps> = ({
                                               'tasks.removeFromToday',
                                               'Remove from today plan'
                                           )
-                                        : t('tasks.addToToday', 'Add to today plan')
+                                        : t(
+                                              'tasks.addToToday',
+                                              'Add to today plan'
+                                          )
                                 }
                             >
                                 {task.today ? (
@@ -1,10 +1,13 @@
 import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
 import { Task } from '../../entities/Task';
 import { Project } from '../../entities/Project';
 import TaskHeader from './TaskHeader';
 import TaskModal from './TaskModal';
+import TaskSubtaskProgress from './TaskSubtaskProgress';
 import { toggleTaskCompletion } from '../../utils/tasksService';
 import { isTaskOverdue } from '../../utils/dateUtils';
+import { useToast } from '../Shared/ToastContext';
 
 interface TaskItemProps {
     task: Task;
@@ -13,6 +16,8 @@ interface TaskItemProps {
     projects: Project[];
     hideProjectName?: boolean;
     onToggleToday?: (taskId: number) => Promise<void>;
+    onTaskDuplicate?: (task: Task) => void;
+    onTaskSnooze?: (task: Task) => void;
 }
 
 const TaskItem: React.FC<TaskItemProps> = ({
@@ -22,7 +27,11 @@ const TaskItem: React.FC<TaskItemProps> = ({
     projects,
     hideProjectName = false,
     onToggleToday,
+    onTaskDuplicate,
+    onTaskSnooze,
 }) => {
+    const { t } = useTranslation();
+    const { showSuccessToast } = useToast();
     const [isModalOpen, setIsModalOpen] = useState(false);
     const [projectList, setProjectList] = useState<Project[]>(projects);
 
@@ -48,6 +57,12 @@ const TaskItem: React.FC<TaskItemProps> = ({
             try {
                 const updatedTask = await toggleTaskCompletion(task.id);
                 await onTaskUpdate(updatedTask);
+                if (updatedTask.status === 'done' || updatedTask.status === 2) {
+                    showSuccessToast(
+                        t('success.taskCompleted', 'Task completed'),
+                        { undoToken: updatedTask.undo_token }
+                    );
+                }
             } catch (error) {
                 console.error('Error toggling task completion:', error);
             }
@@ -106,6 +121,8 @@ const TaskItem: React.FC<TaskItemProps> = ({
                 isOverdue={isOverdue}
             />
 
+            <TaskSubtaskProgress task={task} onParentUpdate={onTaskUpdate} />
+
             <TaskModal
                 isOpen={isModalOpen}
                 onClose={() => setIsModalOpen(false)}
@@ -114,6 +131,8 @@ const TaskItem: React.FC<TaskItemProps> = ({
                 onDelete={handleDelete}
                 projects={projectList}
                 onCreateProject={handleCreateProject}
+                onDuplicate={onTaskDuplicate}
+                onSnooze={onTaskSnooze}
             />
         </div>
     );
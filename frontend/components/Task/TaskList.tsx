@@ -1,45 +1,282 @@
-import React from 'react';
+import React, { useRef, useState } from 'react';
+import { useTranslation } from 'react-i18next';
 import TaskItem from './TaskItem';
+import TaskBulkActionBar from './TaskBulkActionBar';
+import { useToast } from '../Shared/ToastContext';
 import { Project } from '../../entities/Project';
 import { Task } from '../../entities/Task';
+import {
+    bulkUpdateTasks,
+    BulkTaskOperations,
+    BulkTaskResult,
+    moveTask,
+    TaskOrderContext,
+} from '../../utils/tasksService';
 
 interface TaskListProps {
     tasks: Task[];
     onTaskUpdate: (task: Task) => Promise<void>;
     onTaskCreate?: (task: Task) => void;
     onTaskDelete: (taskId: number) => void;
+    // Called with the copy when a task is duplicated from its details
+    onTaskDuplicate?: (task: Task) => void;
+    // Called with the task when it is snoozed or brought back
+    onTaskSnooze?: (task: Task) => void;
     projects: Project[];
     hideProjectName?: boolean;
     onToggleToday?: (taskId: number) => Promise<void>;
+    // Enables selecting several tasks and changing them at once
+    onTasksBulkChange?: (result: BulkTaskResult) => void;
+    // Enables dragging tasks into a manual order kept for this context
+    reorderContext?: TaskOrderContext;
+    onTasksReorder?: (tasks: Task[]) => void;
+}
+
+interface DropTarget {
+    taskId: number;
+    placement: 'before' | 'after';
 }
 
 const TaskList: React.FC<TaskListProps> = ({
     tasks,
     onTaskUpdate,
     onTaskDelete,
+    onTaskDuplicate,
+    onTaskSnooze,
     projects,
     hideProjectName = false,
     onToggleToday,
+    onTasksBulkChange,
+    reorderContext,
+    onTasksReorder,
 }) => {
+    const { t } = useTranslation();
+    const { showSuccessToast, showErrorToast } = useToast();
+    const [isSelecting, setIsSelecting] = useState(false);
+    const [selectedIds, setSelectedIds] = useState<number[]>([]);
+    // Shift-click selects everything between this task and the clicked one
+    const anchorIdRef = useRef<number | null>(null);
+    const [draggedId, setDraggedId] = useState<number | null>(null);
+    const [dropTarget, setDropTarget] = useState<DropTarget | null>(null);
+
+    const isReorderable = Boolean(
+        reorderContext && onTasksReorder && !isSelecting
+    );
+
+    // Tasks may leave the list while selected
+    const selectedTaskIds = selectedIds.filter((id) =>
+        tasks.some((task) => task.id === id)
+    );
+
+    const handleSelect = (taskId: number, shiftKey: boolean) => {
+        const anchorIndex = tasks.findIndex(
+            (task) => task.id === anchorIdRef.current
+        );
+        const index = tasks.findIndex((task) => task.id === taskId);
+
+        if (shiftKey && anchorIndex !== -1) {
+            const rangeIds = tasks
+                .slice(
+                    Math.min(anchorIndex, index),
+                    Math.max(anchorIndex, index) + 1
+                )
+                .map((task) => task.id!);
+            setSelectedIds((prevIds) => [
+                ...prevIds.filter((id) => !rangeIds.includes(id)),
+                ...rangeIds,
+            ]);
+        } else {
+            setSelectedIds((prevIds) =>
+                prevIds.includes(taskId)
+                    ? prevIds.filter((id) => id !== taskId)
+                    : [...prevIds, taskId]
+            );
+        }
+        anchorIdRef.current = taskId;
+    };
+
+    const stopSelecting = () => {
+        setIsSelecting(false);
+        setSelectedIds([]);
+        anchorIdRef.current = null;
+    };
+
+    const handleBulkApply = async (operations: BulkTaskOperations) => {
+        try {
+            const result = await bulkUpdateTasks(selectedTaskIds, operations);
+            onTasksBulkChange?.(result);
+            showSuccessToast(
+                operations.delete
+                    ? t('tasks.bulk.deleted', {
+                          count: result.deleted_task_ids.length,
+                      })
+                    : t('tasks.bulk.updated', { count: result.tasks.length }),
+                { undoToken: result.undo_token }
+            );
+            if (operations.delete) {
+                stopSelecting();
+            }
+        } catch (error) {
+            console.error('Error updating tasks:', error);
+            showErrorToast(t('tasks.bulk.error'));
+        }
+    };
+
+    const handleDragOver = (e: React.DragEvent<HTMLDivElement>, task: Task) => {
+        if (draggedId === null) return;
+        e.preventDefault();
+        // The upper half of a task drops above it, the lower half below
+        const rect = e.currentTarget.getBoundingClientRect();
+        const placement =
+            e.clientY < rect.top + rect.height / 2 ? 'before' : 'after';
+        if (
+            dropTarget?.taskId !== task.id ||
+            dropTarget?.placement !== placement
+        ) {
+            setDropTarget({ taskId: task.id!, placement });
+        }
+    };
+
+    const handleDragEnd = () => {
+        setDraggedId(null);
+        setDropTarget(null);
+    };
+
+    const handleDrop = async (e: React.DragEvent<HTMLDivElement>) => {
+        e.preventDefault();
+        const draggedTask = tasks.find((task) => task.id === draggedId);
+        const target = dropTarget;
+        handleDragEnd();
+        if (!draggedTask || !target || target.taskId === draggedTask.id) {
+            return;
+        }
+
+        const remaining = tasks.filter((task) => task.id !== draggedTask.id);
+        const index =
+            remaining.findIndex((task) => task.id === target.taskId) +
+            (target.placement === 'after' ? 1 : 0);
+        const reorderedTasks = [
+            ...remaining.slice(0, index),
+            draggedTask,
+            ...remaining.slice(index),
+        ];
+        if (
+            reorderedTasks.every(
+                (task, position) => task.id === tasks[position].id
+            )
+        ) {
+            return;
+        }
+
+        onTasksReorder!(reorderedTasks);
+        try {
+            await moveTask(
+                draggedTask.id!,
+                reorderContext!,
+                index > 0 ? remaining[index - 1].id! : null,
+                index < remaining.length ? remaining[index].id! : null
+            );
+        } catch (error) {
+            console.error('Error moving task:', error);
+            onTasksReorder!(tasks);
+            showErrorToast(t('tasks.moveFailed'));
+        }
+    };
+
+    const renderTask = (task: Task) => (
+        <TaskItem
+            key={task.id}
+            task={task}
+            onTaskUpdate={onTaskUpdate}
+            onTaskDelete={onTaskDelete}
+            projects={projects}
+            hideProjectName={hideProjectName}
+            onToggleToday={onToggleToday}
+            onTaskDuplicate={onTaskDuplicate}
+            onTaskSnooze={onTaskSnooze}
+        />
+    );
+
     return (
         <div>
+            {onTasksBulkChange && tasks.length > 0 && (
+                <div className="flex justify-end mb-2">
+                    <button
+                        onClick={() =>
+                            isSelecting ? stopSelecting() : setIsSelecting(true)
+                        }
+                        className="text-sm text-blue-600 dark:text-blue-400 hover:underline focus:outline-none"
+                    >
+                        {isSelecting
+                            ? t('tasks.bulk.done')
+                            : t('tasks.bulk.select')}
+                    </button>
+                </div>
+            )}
             {tasks.length > 0 ? (
-                tasks.map((task) => (
-                    <TaskItem
-                        key={task.id}
-                        task={task}
-                        onTaskUpdate={onTaskUpdate}
-                        onTaskDelete={onTaskDelete}
-                        projects={projects}
-                        hideProjectName={hideProjectName}
-                        onToggleToday={onToggleToday}
-                    />
-                ))
+                tasks.map((task) =>
+                    isSelecting ? (
+                        <div key={task.id} className="flex items-center">
+                            <input
+                                type="checkbox"
+                                checked={selectedTaskIds.includes(task.id!)}
+                                onClick={(e) =>
+                                    handleSelect(task.id!, e.shiftKey)
+                                }
+                                readOnly
+                                className="h-4 w-4 mr-3 mb-2 flex-shrink-0 cursor-pointer rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                                aria-label={task.name}
+                            />
+                            <div className="flex-1 min-w-0">
+                                {renderTask(task)}
+                            </div>
+                        </div>
+                    ) : isReorderable ? (
+                        <div
+                            key={task.id}
+                            draggable
+                            onDragStart={(e) => {
+                                e.dataTransfer.effectAllowed = 'move';
+                                // Lets other drop targets, like project
+                                // sections, tell which task this is
+                                e.dataTransfer.setData(
+                                    'text/plain',
+                                    String(task.id)
+                                );
+                                setDraggedId(task.id!);
+                            }}
+                            onDragOver={(e) => handleDragOver(e, task)}
+                            onDrop={handleDrop}
+                            onDragEnd={handleDragEnd}
+                            className={`border-y-2 ${
+                                draggedId === task.id ? 'opacity-50' : ''
+                            } ${
+                                dropTarget?.taskId !== task.id
+                                    ? 'border-transparent'
+                                    : dropTarget?.placement === 'before'
+                                      ? 'border-t-blue-500 border-b-transparent'
+                                      : 'border-t-transparent border-b-blue-500'
+                            }`}
+                        >
+                            {renderTask(task)}
+                        </div>
+                    ) : (
+                        renderTask(task)
+                    )
+                )
             ) : (
                 <p className="text-gray-500 dark:text-gray-400 text-center mt-4">
                     No tasks available.
                 </p>
             )}
+            {isSelecting && (
+                <TaskBulkActionBar
+                    selectedCount={selectedTaskIds.length}
+                    projects={projects}
+                    onApply={handleBulkApply}
+                    onClear={() => setSelectedIds([])}
+                />
+            )}
         </div>
     );
 };
@@ -5,8 +5,17 @@ import { useToast } from '../Shared/ToastContext';
 import TimelinePanel from './TimelinePanel';
 import { Project } from '../../entities/Project';
 import { fetchTags } from '../../utils/tagsService';
-import { fetchTaskById } from '../../utils/tasksService';
+import {
+    deferTask,
+    duplicateTask,
+    fetchTaskById,
+} from '../../utils/tasksService';
+import {
+    createTaskTemplate,
+    templateFromTask,
+} from '../../utils/taskTemplatesService';
 import { getTaskIntelligenceEnabled } from '../../utils/profileService';
+import { formatShortDate } from '../../utils/dateUtils';
 import {
     analyzeTaskName,
     TaskAnalysis,
@@ -18,7 +27,13 @@ import {
     FolderIcon,
     Cog6ToothIcon,
     ArrowPathIcon,
+    ListBulletIcon,
+    LockClosedIcon,
     TrashIcon,
+    DocumentDuplicateIcon,
+    Square2StackIcon,
+    BookmarkIcon,
+    BellIcon,
 } from '@heroicons/react/24/outline';
 
 // Import form sections
@@ -28,6 +43,10 @@ import TaskTagsSection from './TaskForm/TaskTagsSection';
 import TaskProjectSection from './TaskForm/TaskProjectSection';
 import TaskMetadataSection from './TaskForm/TaskMetadataSection';
 import TaskRecurrenceSection from './TaskForm/TaskRecurrenceSection';
+import TaskSubtasksSection from './TaskForm/TaskSubtasksSection';
+import TaskDependenciesSection from './TaskForm/TaskDependenciesSection';
+import TaskRemindersSection from './TaskForm/TaskRemindersSection';
+import TaskSnoozeMenu from './TaskSnoozeMenu';
 
 interface TaskModalProps {
     isOpen: boolean;
@@ -38,6 +57,10 @@ interface TaskModalProps {
     projects: Project[];
     onCreateProject: (name: string) => Promise<Project>;
     onEditParentTask?: (parentTask: Task) => void;
+    // Enables duplicating the task; called with the copy
+    onDuplicate?: (task: Task) => void;
+    // Called with the task after it is snoozed or brought back
+    onSnooze?: (task: Task) => void;
 }
 
 const TaskModal: React.FC<TaskModalProps> = ({
@@ -49,6 +72,8 @@ const TaskModal: React.FC<TaskModalProps> = ({
     projects,
     onCreateProject,
     onEditParentTask,
+    onDuplicate,
+    onSnooze,
 }) => {
     const [formData, setFormData] = useState<Task>(task);
     const [tags, setTags] = useState<string[]>(
@@ -80,6 +105,9 @@ const TaskModal: React.FC<TaskModalProps> = ({
         project: false,
         metadata: false,
         recurrence: false,
+        subtasks: false,
+        dependencies: false,
+        reminders: false,
     });
 
     const { showSuccessToast, showErrorToast } = useToast();
@@ -342,6 +370,64 @@ const TaskModal: React.FC<TaskModalProps> = ({
         }
     };
 
+    const handleDuplicate = async (includeSubtasks: boolean) => {
+        if (!formData.id || !onDuplicate) return;
+        try {
+            const copy = await duplicateTask(formData.id, includeSubtasks);
+            onDuplicate(copy);
+            showSuccessToast(t('task.duplicate.success'), {
+                undoToken: copy.undo_token,
+            });
+            handleClose();
+        } catch (error) {
+            console.error('Failed to duplicate task:', error);
+            showErrorToast(t('task.duplicate.failed'));
+        }
+    };
+
+    const handleSnooze = async (deferUntil: string | null) => {
+        if (!formData.id) return;
+        try {
+            const updatedTask = await deferTask(formData.id, deferUntil);
+            setFormData((prev) => ({
+                ...prev,
+                defer_until: updatedTask.defer_until,
+            }));
+            onSnooze?.(updatedTask);
+            showSuccessToast(
+                deferUntil
+                    ? t('task.snooze.success', {
+                          date: formatShortDate(
+                              new Date(updatedTask.defer_until as string)
+                          ),
+                      })
+                    : t('task.snooze.cleared'),
+                { undoToken: updatedTask.undo_token }
+            );
+            if (deferUntil) handleClose();
+        } catch (error) {
+            console.error('Failed to snooze task:', error);
+            showErrorToast(t('task.snooze.failed'));
+        }
+    };
+
+    const handleSaveTemplate = async () => {
+        try {
+            const template = await createTaskTemplate(
+                templateFromTask({
+                    ...formData,
+                    tags: tags.map((tag) => ({ name: tag })),
+                })
+            );
+            showSuccessToast(
+                t('task.templates.saved', { name: template.name })
+            );
+        } catch (error) {
+            console.error('Failed to save task template:', error);
+            showErrorToast(t('task.templates.saveFailed'));
+        }
+    };
+
     const handleClose = () => {
         setIsClosing(true);
         setTimeout(() => {
@@ -533,6 +619,10 @@ const TaskModal: React.FC<TaskModalProps> = ({
                                                                 formData.due_date ||
                                                                 ''
                                                             }
+                                                            dueTime={
+                                                                formData.due_time ||
+                                                                ''
+                                                            }
                                                             taskId={task.id}
                                                             onStatusChange={(
                                                                 value: StatusType
@@ -601,6 +691,90 @@ const TaskModal: React.FC<TaskModalProps> = ({
                                                         />
                                                     </div>
                                                 )}
+
+                                                {expandedSections.subtasks && (
+                                                    <div className="border-b border-gray-200 dark:border-gray-700 pb-4 mb-4 px-4">
+                                                        <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-3">
+                                                            {t(
+                                                                'forms.task.subtasks',
+                                                                'Subtasks'
+                                                            )}
+                                                        </h3>
+                                                        <TaskSubtasksSection
+                                                            taskId={task.id}
+                                                            completeWithSubtasks={
+                                                                formData.complete_with_subtasks ||
+                                                                false
+                                                            }
+                                                            onCompleteWithSubtasksChange={(
+                                                                value
+                                                            ) =>
+                                                                setFormData(
+                                                                    (prev) => ({
+                                                                        ...prev,
+                                                                        complete_with_subtasks:
+                                                                            value,
+                                                                    })
+                                                                )
+                                                            }
+                                                            onProgressChange={(
+                                                                progress
+                                                            ) =>
+                                                                setFormData(
+                                                                    (prev) => ({
+                                                                        ...prev,
+                                                                        subtask_progress:
+                                                                            progress,
+                                                                    })
+                                                                )
+                                                            }
+                                                        />
+                                                    </div>
+                                                )}
+
+                                                {expandedSections.dependencies && (
+                                                    <div className="border-b border-gray-200 dark:border-gray-700 pb-4 mb-4 px-4">
+                                                        <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-3">
+                                                            {t(
+                                                                'forms.task.dependencies',
+                                                                'Dependencies'
+                                                            )}
+                                                        </h3>
+                                                        <TaskDependenciesSection
+                                                            taskId={task.id}
+                                                            onBlockedChange={(
+                                                                blocked,
+                                                                blockedBy
+                                                            ) =>
+                                                                setFormData(
+                                                                    (prev) => ({
+                                                                        ...prev,
+                                                                        blocked,
+                                                                        blocked_by:
+                                                                            blockedBy,
+                                                                    })
+                                                                )
+                                                            }
+                                                        />
+                                                    </div>
+                                                )}
+
+                                                {expandedSections.reminders && (
+                                                    <div className="border-b border-gray-200 dark:border-gray-700 pb-4 mb-4 px-4">
+                                                        <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-3">
+                                                            {t(
+                                                                'forms.task.reminders',
+                                                                'Reminders'
+                                                            )}
+                                                        </h3>
+                                                        <TaskRemindersSection
+                                                            taskId={task.id}
+                                                            hasDueDate={
+                                                                !!formData.due_date
+                                                            }
+                                                        />
+                                                    </div>
+                                                )}
                                             </fieldset>
                                         </form>
                                     </div>
@@ -717,6 +891,69 @@ const TaskModal: React.FC<TaskModalProps> = ({
                                                     <span className="absolute -top-1 -right-1 w-3 h-3 bg-green-500 rounded-full"></span>
                                                 )}
                                             </button>
+
+                                            {/* Subtasks Toggle */}
+                                            <button
+                                                onClick={() =>
+                                                    toggleSection('subtasks')
+                                                }
+                                                className={`relative p-2 rounded-full transition-colors ${
+                                                    expandedSections.subtasks
+                                                        ? 'bg-blue-100 dark:bg-blue-900 text-blue-600 dark:text-blue-400'
+                                                        : 'text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700'
+                                                }`}
+                                                title={t(
+                                                    'forms.task.subtasks',
+                                                    'Subtasks'
+                                                )}
+                                            >
+                                                <ListBulletIcon className="h-5 w-5" />
+                                                {!!formData.subtask_progress
+                                                    ?.total && (
+                                                    <span className="absolute -top-1 -right-1 w-3 h-3 bg-green-500 rounded-full"></span>
+                                                )}
+                                            </button>
+
+                                            {/* Dependencies Toggle */}
+                                            <button
+                                                onClick={() =>
+                                                    toggleSection(
+                                                        'dependencies'
+                                                    )
+                                                }
+                                                className={`relative p-2 rounded-full transition-colors ${
+                                                    expandedSections.dependencies
+                                                        ? 'bg-blue-100 dark:bg-blue-900 text-blue-600 dark:text-blue-400'
+                                                        : 'text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700'
+                                                }`}
+                                                title={t(
+                                                    'forms.task.dependencies',
+                                                    'Dependencies'
+                                                )}
+                                            >
+                                                <LockClosedIcon className="h-5 w-5" />
+                                                {formData.blocked && (
+                                                    <span className="absolute -top-1 -right-1 w-3 h-3 bg-amber-500 rounded-full"></span>
+                                                )}
+                                            </button>
+
+                                            {/* Reminders Toggle */}
+                                            <button
+                                                onClick={() =>
+                                                    toggleSection('reminders')
+                                                }
+                                                className={`relative p-2 rounded-full transition-colors ${
+                                                    expandedSections.reminders
+                                                        ? 'bg-blue-100 dark:bg-blue-900 text-blue-600 dark:text-blue-400'
+                                                        : 'text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700'
+                                                }`}
+                                                title={t(
+                                                    'forms.task.reminders',
+                                                    'Reminders'
+                                                )}
+                                            >
+                                                <BellIcon className="h-5 w-5" />
+                                            </button>
                                         </div>
 
                                         {/* Right side: Timeline Toggle Button */}
@@ -763,6 +1000,56 @@ const TaskModal: React.FC<TaskModalProps> = ({
                                                 <TrashIcon className="h-4 w-4" />
                                             </button>
                                         )}
+                                        {task.id && onDuplicate && (
+                                            <button
+                                                type="button"
+                                                onClick={() =>
+                                                    handleDuplicate(false)
+                                                }
+                                                className="p-2 border border-gray-300 dark:border-gray-600 text-gray-600 dark:text-gray-400 rounded-md hover:bg-gray-50 dark:hover:bg-gray-700 focus:outline-none transition duration-150 ease-in-out"
+                                                title={t(
+                                                    'task.duplicate.action'
+                                                )}
+                                            >
+                                                <DocumentDuplicateIcon className="h-4 w-4" />
+                                            </button>
+                                        )}
+                                        {task.id &&
+                                            onDuplicate &&
+                                            !!task.subtask_progress?.total && (
+                                                <button
+                                                    type="button"
+                                                    onClick={() =>
+                                                        handleDuplicate(true)
+                                                    }
+                                                    className="p-2 border border-gray-300 dark:border-gray-600 text-gray-600 dark:text-gray-400 rounded-md hover:bg-gray-50 dark:hover:bg-gray-700 focus:outline-none transition duration-150 ease-in-out"
+                                                    title={t(
+                                                        'task.duplicate.withSubtasks'
+                                                    )}
+                                                >
+                                                    <Square2StackIcon className="h-4 w-4" />
+                                                </button>
+                                            )}
+                                        {task.id && (
+                                            <TaskSnoozeMenu
+                                                deferUntil={
+                                                    formData.defer_until
+                                                }
+                                                onSnooze={handleSnooze}
+                                            />
+                                        )}
+                                        {task.id && (
+                                            <button
+                                                type="button"
+                                                onClick={handleSaveTemplate}
+                                                className="p-2 border border-gray-300 dark:border-gray-600 text-gray-600 dark:text-gray-400 rounded-md hover:bg-gray-50 dark:hover:bg-gray-700 focus:outline-none transition duration-150 ease-in-out"
+                                                title={t(
+                                                    'task.templates.saveAs'
+                                                )}
+                                            >
+                                                <BookmarkIcon className="h-4 w-4" />
+                                            </button>
+                                        )}
                                         <button
                                             type="button"
                                             onClick={handleClose}
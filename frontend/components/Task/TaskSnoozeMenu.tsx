@@ -0,0 +1,124 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { addDays, format, nextMonday } from 'date-fns';
+import { PauseCircleIcon } from '@heroicons/react/24/outline';
+import { formatShortDate } from '../../utils/dateUtils';
+
+interface TaskSnoozeMenuProps {
+    deferUntil?: string | null;
+    // Called with a YYYY-MM-DD date, or null to stop deferring
+    onSnooze: (deferUntil: string | null) => void;
+}
+
+const toDateValue = (date: Date) => format(date, 'yyyy-MM-dd');
+
+const TaskSnoozeMenu: React.FC<TaskSnoozeMenuProps> = ({
+    deferUntil,
+    onSnooze,
+}) => {
+    const { t } = useTranslation();
+    const [isOpen, setIsOpen] = useState(false);
+    const [customDate, setCustomDate] = useState('');
+    const menuRef = useRef<HTMLDivElement>(null);
+    const isDeferred = !!deferUntil && new Date(deferUntil) > new Date();
+
+    useEffect(() => {
+        if (!isOpen) return;
+
+        const handleClickOutside = (event: MouseEvent) => {
+            if (
+                menuRef.current &&
+                !menuRef.current.contains(event.target as Node)
+            ) {
+                setIsOpen(false);
+            }
+        };
+        document.addEventListener('mousedown', handleClickOutside);
+        return () => {
+            document.removeEventListener('mousedown', handleClickOutside);
+        };
+    }, [isOpen]);
+
+    const snooze = (value: string | null) => {
+        setIsOpen(false);
+        setCustomDate('');
+        onSnooze(value);
+    };
+
+    const optionClassName =
+        'block w-full text-left px-3 py-2 text-sm text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-600 focus:outline-none';
+
+    return (
+        <div ref={menuRef} className="relative">
+            <button
+                type="button"
+                onClick={() => setIsOpen(!isOpen)}
+                className={`p-2 border rounded-md focus:outline-none transition duration-150 ease-in-out ${
+                    isDeferred
+                        ? 'border-amber-300 dark:border-amber-600 text-amber-600 dark:text-amber-400 hover:bg-amber-50 dark:hover:bg-amber-900/20'
+                        : 'border-gray-300 dark:border-gray-600 text-gray-600 dark:text-gray-400 hover:bg-gray-50 dark:hover:bg-gray-700'
+                }`}
+                title={
+                    isDeferred && deferUntil
+                        ? t('task.snooze.until', {
+                              date: formatShortDate(new Date(deferUntil)),
+                          })
+                        : t('task.snooze.action')
+                }
+            >
+                <PauseCircleIcon className="h-4 w-4" />
+            </button>
+            {isOpen && (
+                <div className="absolute left-0 bottom-full mb-2 w-56 bg-white dark:bg-gray-700 border border-gray-200 dark:border-gray-600 rounded-md shadow-lg z-50 py-1">
+                    <button
+                        type="button"
+                        onClick={() =>
+                            snooze(toDateValue(addDays(new Date(), 1)))
+                        }
+                        className={optionClassName}
+                    >
+                        {t('task.snooze.tomorrow')}
+                    </button>
+                    <button
+                        type="button"
+                        onClick={() =>
+                            snooze(toDateValue(nextMonday(new Date())))
+                        }
+                        className={optionClassName}
+                    >
+                        {t('task.snooze.nextWeek')}
+                    </button>
+                    <div className="flex items-center gap-2 px-3 py-2">
+                        <input
+                            type="date"
+                            value={customDate}
+                            min={toDateValue(addDays(new Date(), 1))}
+                            onChange={(e) => setCustomDate(e.target.value)}
+                            className="flex-1 min-w-0 text-sm rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-900 dark:text-gray-100 py-1 px-2"
+                            aria-label={t('task.snooze.custom')}
+                        />
+                        <button
+                            type="button"
+                            onClick={() => snooze(customDate)}
+                            disabled={!customDate}
+                            className="text-sm text-blue-600 dark:text-blue-400 hover:underline disabled:opacity-50 focus:outline-none"
+                        >
+                            {t('task.snooze.apply')}
+                        </button>
+                    </div>
+                    {isDeferred && (
+                        <button
+                            type="button"
+                            onClick={() => snooze(null)}
+                            className={`${optionClassName} border-t border-gray-200 dark:border-gray-600`}
+                        >
+                            {t('task.snooze.clear')}
+                        </button>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default TaskSnoozeMenu;
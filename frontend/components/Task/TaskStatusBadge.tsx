@@ -4,18 +4,27 @@ import {
     CheckCircleIcon,
     ArchiveBoxIcon,
     ArrowPathIcon,
+    LockClosedIcon,
+    ClockIcon,
 } from '@heroicons/react/24/solid';
+import { useTranslation } from 'react-i18next';
 import { StatusType } from '../../entities/Task';
 
 interface TaskStatusBadgeProps {
     status: StatusType | number;
     className?: string;
+    blocked?: boolean;
+    blockedBy?: string[];
 }
 
 const TaskStatusBadge: React.FC<TaskStatusBadgeProps> = ({
     status,
     className,
+    blocked = false,
+    blockedBy = [],
 }) => {
+    const { t } = useTranslation();
+
     // Convert numeric status to string
     const getStatusString = (status: StatusType | number): StatusType => {
         if (typeof status === 'number') {
@@ -24,6 +33,7 @@ const TaskStatusBadge: React.FC<TaskStatusBadgeProps> = ({
                 'in_progress',
                 'done',
                 'archived',
+                'waiting',
             ];
             return statusNames[status] || 'not_started';
         }
@@ -31,6 +41,27 @@ const TaskStatusBadge: React.FC<TaskStatusBadgeProps> = ({
     };
 
     const statusString = getStatusString(status);
+
+    // Open tasks waiting on an unfinished dependency show as blocked
+    if (blocked && statusString !== 'done' && statusString !== 'archived') {
+        const blockedTitle =
+            blockedBy.length > 0
+                ? `${t('task.blockedBy', 'Blocked by')}: ${blockedBy.join(', ')}`
+                : t('task.blocked', 'Blocked');
+
+        return (
+            <div
+                className={`flex items-center md:px-2 ${className}`}
+                title={blockedTitle}
+            >
+                <LockClosedIcon className="h-4 w-4 text-amber-500" />
+                <span className="ml-1 text-xs font-medium text-amber-600 dark:text-amber-400">
+                    {t('task.blocked', 'Blocked')}
+                </span>
+            </div>
+        );
+    }
+
     let statusIcon;
 
     switch (statusString) {
@@ -46,6 +77,9 @@ const TaskStatusBadge: React.FC<TaskStatusBadgeProps> = ({
         case 'archived':
             statusIcon = <ArchiveBoxIcon className="h-4 w-4 text-gray-400" />;
             break;
+        case 'waiting':
+            statusIcon = <ClockIcon className="h-4 w-4 text-yellow-400" />;
+            break;
         default:
             statusIcon = <MinusIcon className="h-4 w-4 text-gray-400" />;
     }
@@ -0,0 +1,107 @@
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { ChevronDownIcon, ChevronRightIcon } from '@heroicons/react/24/outline';
+import { Task } from '../../entities/Task';
+import { fetchSubtasks, updateSubtask } from '../../utils/tasksService';
+
+interface TaskSubtaskProgressProps {
+    task: Task;
+    onParentUpdate: (parentTask: Task) => Promise<void>;
+}
+
+const isSubtaskDone = (subtask: Task) =>
+    subtask.status === 'done' || subtask.status === 2;
+
+const TaskSubtaskProgress: React.FC<TaskSubtaskProgressProps> = ({
+    task,
+    onParentUpdate,
+}) => {
+    const { t } = useTranslation();
+    const [isExpanded, setIsExpanded] = useState(false);
+    const [subtasks, setSubtasks] = useState<Task[]>([]);
+
+    const progress = task.subtask_progress;
+    if (!task.id || !progress || progress.total === 0) {
+        return null;
+    }
+
+    const handleExpand = async () => {
+        if (!isExpanded && task.id) {
+            try {
+                const result = await fetchSubtasks(task.id);
+                setSubtasks(result.subtasks);
+            } catch (error) {
+                console.error('Error fetching subtasks:', error);
+            }
+        }
+        setIsExpanded(!isExpanded);
+    };
+
+    const handleToggle = async (subtask: Task) => {
+        if (!task.id || !subtask.id) return;
+
+        try {
+            const result = await updateSubtask(task.id, subtask.id, {
+                status: isSubtaskDone(subtask) ? 'not_started' : 'done',
+            });
+            setSubtasks((prev) =>
+                prev.map((s) => (s.id === subtask.id ? result.subtask : s))
+            );
+            await onParentUpdate(result.parent_task);
+        } catch (error) {
+            console.error('Error toggling subtask:', error);
+        }
+    };
+
+    return (
+        <div className="px-4 pb-2">
+            <button
+                type="button"
+                onClick={handleExpand}
+                className="flex items-center w-full text-xs text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200"
+                title={t('task.subtasks', 'Subtasks')}
+            >
+                {isExpanded ? (
+                    <ChevronDownIcon className="h-3 w-3 mr-1" />
+                ) : (
+                    <ChevronRightIcon className="h-3 w-3 mr-1" />
+                )}
+                <span className="mr-2">
+                    {progress.done}/{progress.total}
+                </span>
+                <div className="flex-1 h-1.5 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
+                    <div
+                        className="h-full bg-green-500 transition-all"
+                        style={{ width: `${progress.percentage}%` }}
+                    />
+                </div>
+            </button>
+
+            {isExpanded && (
+                <ul className="mt-2 ml-4 space-y-1">
+                    {subtasks.map((subtask) => (
+                        <li key={subtask.id} className="flex items-center">
+                            <input
+                                type="checkbox"
+                                checked={isSubtaskDone(subtask)}
+                                onChange={() => handleToggle(subtask)}
+                                className="h-3.5 w-3.5 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                            />
+                            <span
+                                className={`ml-2 text-sm ${
+                                    isSubtaskDone(subtask)
+                                        ? 'line-through text-gray-400 dark:text-gray-500'
+                                        : 'text-gray-700 dark:text-gray-300'
+                                }`}
+                            >
+                                {subtask.name}
+                            </span>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+};
+
+export default TaskSubtaskProgress;
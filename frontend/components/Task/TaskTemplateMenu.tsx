@@ -0,0 +1,137 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { RectangleStackIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { TaskTemplate } from '../../entities/TaskTemplate';
+import {
+    deleteTaskTemplate,
+    fetchTaskTemplates,
+} from '../../utils/taskTemplatesService';
+import { useToast } from '../Shared/ToastContext';
+
+interface TaskTemplateMenuProps {
+    onSelect: (template: TaskTemplate) => void;
+}
+
+// Templates are fetched each time the menu opens so ones saved from a
+// task's details show up straight away
+const TaskTemplateMenu: React.FC<TaskTemplateMenuProps> = ({ onSelect }) => {
+    const { t } = useTranslation();
+    const { showErrorToast } = useToast();
+    const [isOpen, setIsOpen] = useState(false);
+    const [templates, setTemplates] = useState<TaskTemplate[] | null>(null);
+    const [confirmingDeleteId, setConfirmingDeleteId] = useState<
+        number | null
+    >(null);
+    const menuRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        if (!isOpen) return;
+
+        fetchTaskTemplates()
+            .then(setTemplates)
+            .catch((error) => {
+                console.error('Error fetching task templates:', error);
+                showErrorToast(t('task.templates.loadFailed'));
+                setIsOpen(false);
+            });
+
+        const handleClickOutside = (event: MouseEvent) => {
+            if (
+                menuRef.current &&
+                !menuRef.current.contains(event.target as Node)
+            ) {
+                setIsOpen(false);
+            }
+        };
+        document.addEventListener('mousedown', handleClickOutside);
+        return () => {
+            document.removeEventListener('mousedown', handleClickOutside);
+        };
+    }, [isOpen, showErrorToast, t]);
+
+    const handleDelete = async (template: TaskTemplate) => {
+        try {
+            await deleteTaskTemplate(template.id);
+            setTemplates((prev) =>
+                (prev || []).filter((item) => item.id !== template.id)
+            );
+        } catch (error) {
+            console.error('Error deleting task template:', error);
+            showErrorToast(t('task.templates.deleteFailed'));
+        } finally {
+            setConfirmingDeleteId(null);
+        }
+    };
+
+    return (
+        <div ref={menuRef} className="relative">
+            <button
+                type="button"
+                onClick={() => {
+                    setConfirmingDeleteId(null);
+                    setIsOpen(!isOpen);
+                }}
+                className="p-1 text-gray-400 hover:text-blue-600 dark:hover:text-blue-400 focus:outline-none"
+                title={t('task.templates.use')}
+                aria-label={t('task.templates.use')}
+            >
+                <RectangleStackIcon className="h-5 w-5" />
+            </button>
+            {isOpen && templates && (
+                <div className="absolute right-0 mt-2 w-72 bg-white dark:bg-gray-700 border border-gray-200 dark:border-gray-600 rounded-md shadow-lg z-50 py-1">
+                    {templates.length === 0 && (
+                        <p className="px-3 py-2 text-sm text-gray-500 dark:text-gray-400">
+                            {t('task.templates.none')}
+                        </p>
+                    )}
+                    {templates.map((template) => (
+                        <div
+                            key={template.id}
+                            className="flex items-center px-3 py-2 hover:bg-gray-100 dark:hover:bg-gray-600"
+                        >
+                            <button
+                                type="button"
+                                onClick={() => {
+                                    onSelect(template);
+                                    setIsOpen(false);
+                                }}
+                                className="flex-1 min-w-0 text-left focus:outline-none"
+                            >
+                                <span className="block text-sm text-gray-900 dark:text-gray-100 truncate">
+                                    {template.name}
+                                </span>
+                                {template.project_name && (
+                                    <span className="block text-xs text-gray-500 dark:text-gray-400 truncate">
+                                        {template.project_name}
+                                    </span>
+                                )}
+                            </button>
+                            {confirmingDeleteId === template.id ? (
+                                <button
+                                    type="button"
+                                    onClick={() => handleDelete(template)}
+                                    className="ml-2 text-xs text-red-600 dark:text-red-400 hover:underline focus:outline-none"
+                                >
+                                    {t('task.templates.confirmDelete')}
+                                </button>
+                            ) : (
+                                <button
+                                    type="button"
+                                    onClick={() =>
+                                        setConfirmingDeleteId(template.id)
+                                    }
+                                    className="ml-2 p-1 text-gray-400 hover:text-red-600 focus:outline-none"
+                                    title={t('task.templates.delete')}
+                                >
+                                    <TrashIcon className="h-4 w-4" />
+                                </button>
+                            )}
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default TaskTemplateMenu;
@@ -31,6 +31,7 @@ import {
     getNextTaskSuggestionEnabled,
 } from '../../utils/profileService';
 import { toggleTaskToday } from '../../utils/tasksService';
+import { ChangeEvent, LIVE_CHANGE_EVENT } from '../../utils/liveUpdatesService';
 
 const getLocale = (language: string) => {
     switch (language) {
@@ -360,6 +361,40 @@ const TasksToday: React.FC = () => {
         };
     }, []); // Empty dependency array - only run once on mount
 
+    // Reload the today lists when tasks change in another tab or device
+    useEffect(() => {
+        let reloadTimer: ReturnType<typeof setTimeout> | null = null;
+
+        const reloadTasks = async () => {
+            try {
+                const { tasks: fetchedTasks, metrics: fetchedMetrics } =
+                    await fetchTasks('?type=today');
+                if (isMounted.current) {
+                    setLocalTasks(fetchedTasks);
+                    setMetrics(fetchedMetrics);
+                    store.tasksStore.setTasks(fetchedTasks);
+                }
+            } catch (error) {
+                console.error('Failed to reload tasks:', error);
+            }
+        };
+
+        const handleLiveChange = (event: Event) => {
+            const { detail } = event as CustomEvent<ChangeEvent>;
+            if (!detail.event.startsWith('task.') && detail.event !== 'resync')
+                return;
+            // Batch bursts of changes into a single request
+            if (reloadTimer) clearTimeout(reloadTimer);
+            reloadTimer = setTimeout(reloadTasks, 300);
+        };
+
+        window.addEventListener(LIVE_CHANGE_EVENT, handleLiveChange);
+        return () => {
+            window.removeEventListener(LIVE_CHANGE_EVENT, handleLiveChange);
+            if (reloadTimer) clearTimeout(reloadTimer);
+        };
+    }, []);
+
     // Memoize task handlers to prevent recreating functions on each render
     const handleTaskUpdate = useCallback(
         async (updatedTask: Task): Promise<void> => {
@@ -449,6 +484,13 @@ const TasksToday: React.FC = () => {
         [store.tasksStore]
     );
 
+    const handleTodayPlanReorder = useCallback((todayPlanTasks: Task[]) => {
+        setMetrics((prevMetrics) => ({
+            ...prevMetrics,
+            today_plan_tasks: todayPlanTasks,
+        }));
+    }, []);
+
     // Calculate today's progress for the progress bar
     const getTodayProgress = () => {
         const todayTasks = metrics.today_plan_tasks || [];
@@ -518,11 +560,13 @@ const TasksToday: React.FC = () => {
                                 <div className="relative">
                                     <button
                                         onClick={() =>
-                                            setIsSettingsEnabled(!isSettingsEnabled)
+                                            setIsSettingsEnabled(
+                                                !isSettingsEnabled
+                                            )
                                         }
                                         className={`flex items-center justify-center w-8 h-8 rounded-md transition-all duration-200 hover:bg-gray-100 dark:hover:bg-gray-800${
-                                            isSettingsEnabled 
-                                                ? ' bg-blue-100 dark:bg-blue-900 text-blue-600 dark:text-blue-400' 
+                                            isSettingsEnabled
+                                                ? ' bg-blue-100 dark:bg-blue-900 text-blue-600 dark:text-blue-400'
                                                 : ' text-gray-600 dark:text-gray-400'
                                         }`}
                                         title={t(
@@ -736,6 +780,7 @@ const TasksToday: React.FC = () => {
                     onTaskUpdate={handleTaskUpdate}
                     onTaskDelete={handleTaskDelete}
                     onToggleToday={handleToggleToday}
+                    onTasksReorder={handleTodayPlanReorder}
                 />
 
                 {/* Intelligence - Conditionally Rendered - Appears after Today Plan */}
@@ -11,6 +11,7 @@ interface TodayPlanProps {
     onTaskUpdate: (task: Task) => Promise<void>;
     onTaskDelete: (taskId: number) => Promise<void>;
     onToggleToday?: (taskId: number) => Promise<void>;
+    onTasksReorder?: (tasks: Task[]) => void;
 }
 
 const TodayPlan: React.FC<TodayPlanProps> = ({
@@ -19,6 +20,7 @@ const TodayPlan: React.FC<TodayPlanProps> = ({
     onTaskUpdate,
     onTaskDelete,
     onToggleToday,
+    onTasksReorder,
 }) => {
     const { t } = useTranslation();
 
@@ -57,6 +59,8 @@ const TodayPlan: React.FC<TodayPlanProps> = ({
                 onTaskDelete={onTaskDelete}
                 projects={projects}
                 onToggleToday={onToggleToday}
+                reorderContext="today"
+                onTasksReorder={onTasksReorder}
             />
         </>
     );
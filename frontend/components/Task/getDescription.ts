@@ -14,6 +14,7 @@ export const getDescription = (
             next: 'Tasks that are actionable in the near future',
             upcoming: 'Tasks scheduled for the upcoming week',
             someday: 'Tasks without urgency or specific due date',
+            deferred: 'Snoozed tasks, hidden until their start date',
             completed: "Tasks you've completed",
             allTasks: 'All tasks from different projects and priorities',
         };
@@ -61,6 +62,9 @@ export const getDescription = (
             if (query.get('type') === 'someday') {
                 return t('taskViews.someday');
             }
+            if (query.get('type') === 'deferred') {
+                return t('taskViews.deferred');
+            }
             if (query.get('status') === 'done') {
                 return t('taskViews.completed');
             }
@@ -76,6 +80,8 @@ export const getDescription = (
                 return defaultDescriptions.upcoming;
             if (query.get('type') === 'someday')
                 return defaultDescriptions.someday;
+            if (query.get('type') === 'deferred')
+                return defaultDescriptions.deferred;
             if (query.get('status') === 'done')
                 return defaultDescriptions.completed;
             return defaultDescriptions.allTasks;
@@ -5,9 +5,11 @@ import {
     InboxIcon,
     ArrowRightIcon,
     ClockIcon,
+    PauseCircleIcon,
     MoonIcon,
     CheckCircleIcon,
     Bars4Icon,
+    FunnelIcon,
 } from '@heroicons/react/24/outline';
 
 export const getTitleAndIcon = (
@@ -24,6 +26,7 @@ export const getTitleAndIcon = (
             next: 'Next Actions',
             upcoming: 'Upcoming',
             someday: 'Someday',
+            deferred: 'Deferred',
             completed: 'Completed',
             allTasks: 'All Tasks',
         };
@@ -38,6 +41,13 @@ export const getTitleAndIcon = (
             };
         }
 
+        if (query.get('filter_id') || query.get('filter')) {
+            return {
+                title: t('sidebar.smartList', 'Smart List'),
+                icon: FunnelIcon,
+            };
+        }
+
         try {
             if (query.get('type') === 'today') {
                 return { title: t('tasks.today'), icon: CalendarIcon };
@@ -60,6 +70,9 @@ export const getTitleAndIcon = (
                     icon: MoonIcon,
                 };
             }
+            if (query.get('type') === 'deferred') {
+                return { title: t('sidebar.deferred'), icon: PauseCircleIcon };
+            }
             if (query.get('status') === 'done') {
                 return { title: t('sidebar.completed'), icon: CheckCircleIcon };
             }
@@ -78,6 +91,8 @@ export const getTitleAndIcon = (
                 return { title: defaultTitles.upcoming, icon: ClockIcon };
             if (query.get('type') === 'someday')
                 return { title: defaultTitles.someday, icon: MoonIcon };
+            if (query.get('type') === 'deferred')
+                return { title: defaultTitles.deferred, icon: PauseCircleIcon };
             if (query.get('status') === 'done')
                 return {
                     title: defaultTitles.completed,
@@ -7,7 +7,11 @@ import { Task } from '../entities/Task';
 import { Project } from '../entities/Project';
 import { getTitleAndIcon } from './Task/getTitleAndIcon';
 import { getDescription } from './Task/getDescription';
-import { createTask, toggleTaskToday } from '../utils/tasksService';
+import {
+    BulkTaskResult,
+    createTask,
+    toggleTaskToday,
+} from '../utils/tasksService';
 import { useToast } from './Shared/ToastContext';
 import {
     TagIcon,
@@ -162,7 +166,7 @@ const Tasks: React.FC = () => {
                     {t('task.createdSuccessfully', 'created successfully!')}
                 </span>
             );
-            showSuccessToast(taskLink);
+            showSuccessToast(taskLink, { undoToken: newTask.undo_token });
         } catch (error) {
             console.error('Error creating task:', error);
             setError('Error creating task.');
@@ -195,6 +199,31 @@ const Tasks: React.FC = () => {
         }
     };
 
+    // Subtasks are listed under their parent, not in the task list
+    const handleTaskDuplicate = (duplicatedTask: Task) => {
+        if (!duplicatedTask.parent_task_id) {
+            setTasks((prevTasks) => [duplicatedTask, ...prevTasks]);
+        }
+    };
+
+    // Snoozing moves a task out of Today and Next and into Deferred
+    const handleTaskSnooze = (snoozedTask: Task) => {
+        const type = query.get('type');
+        const leavesView = snoozedTask.defer_until
+            ? type === 'today' || type === 'next'
+            : type === 'deferred';
+
+        setTasks((prevTasks) =>
+            leavesView
+                ? prevTasks.filter((task) => task.id !== snoozedTask.id)
+                : prevTasks.map((task) =>
+                      task.id === snoozedTask.id
+                          ? { ...task, defer_until: snoozedTask.defer_until }
+                          : task
+                  )
+        );
+    };
+
     const handleTaskDelete = async (taskId: number) => {
         try {
             const response = await fetch(`/api/task/${taskId}`, {
@@ -216,6 +245,19 @@ const Tasks: React.FC = () => {
         }
     };
 
+    const handleTasksBulkChange = (result: BulkTaskResult) => {
+        setTasks((prevTasks) =>
+            prevTasks
+                .filter((task) => !result.deleted_task_ids.includes(task.id!))
+                .map(
+                    (task) =>
+                        result.tasks.find(
+                            (updatedTask) => updatedTask.id === task.id
+                        ) || task
+                )
+        );
+    };
+
     const handleToggleToday = async (taskId: number): Promise<void> => {
         try {
             await toggleTaskToday(taskId);
@@ -362,6 +404,7 @@ const Tasks: React.FC = () => {
                                             'priority:desc',
                                             'status:desc',
                                             'created_at:desc',
+                                            'manual:asc',
                                         ].map((order) => (
                                             <button
                                                 key={order}
@@ -443,8 +486,12 @@ const Tasks: React.FC = () => {
                         {/* New Task Form */}
                         {isNewTaskAllowed() && (
                             <NewTask
-                                onTaskCreate={async (taskName: string) =>
+                                onTaskCreate={async (
+                                    taskName: string,
+                                    templateData?: Partial<Task>
+                                ) =>
                                     await handleTaskCreate({
+                                        ...templateData,
                                         name: taskName,
                                         status: 'not_started',
                                     })
@@ -458,8 +505,11 @@ const Tasks: React.FC = () => {
                                 onTaskCreate={handleTaskCreate}
                                 onTaskUpdate={handleTaskUpdate}
                                 onTaskDelete={handleTaskDelete}
+                                onTaskDuplicate={handleTaskDuplicate}
+                                onTaskSnooze={handleTaskSnooze}
                                 projects={projects}
                                 onToggleToday={handleToggleToday}
+                                onTasksBulkChange={handleTasksBulkChange}
                             />
                         ) : (
                             <div className="flex justify-center items-center mt-4">
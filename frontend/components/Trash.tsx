@@ -0,0 +1,204 @@
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+    ArrowUturnLeftIcon,
+    TrashIcon,
+    XMarkIcon,
+} from '@heroicons/react/24/solid';
+import ConfirmDialog from './Shared/ConfirmDialog';
+import { TrashItem } from '../entities/TrashItem';
+import {
+    fetchTrash,
+    restoreTrashItem,
+    purgeTrashItem,
+    emptyTrash,
+} from '../utils/trashService';
+
+const Trash: React.FC = () => {
+    const { t } = useTranslation();
+    const [items, setItems] = useState<TrashItem[]>([]);
+    const [retentionDays, setRetentionDays] = useState<number>(0);
+    const [isLoading, setIsLoading] = useState<boolean>(true);
+    const [isError, setIsError] = useState<boolean>(false);
+    const [itemToPurge, setItemToPurge] = useState<TrashItem | null>(null);
+    const [isEmptyDialogOpen, setIsEmptyDialogOpen] = useState<boolean>(false);
+
+    const loadTrash = async () => {
+        try {
+            const trash = await fetchTrash();
+            setItems(trash.items);
+            setRetentionDays(trash.retention_days);
+            setIsError(false);
+        } catch (error) {
+            console.error('Error fetching trash:', error);
+            setIsError(true);
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        loadTrash();
+    }, []);
+
+    const handleRestore = async (item: TrashItem) => {
+        try {
+            await restoreTrashItem(item);
+            await loadTrash();
+        } catch (error) {
+            console.error('Error restoring item:', error);
+            setIsError(true);
+        }
+    };
+
+    const handlePurge = async () => {
+        if (!itemToPurge) return;
+        try {
+            await purgeTrashItem(itemToPurge);
+            await loadTrash();
+        } catch (error) {
+            console.error('Error deleting item:', error);
+            setIsError(true);
+        } finally {
+            setItemToPurge(null);
+        }
+    };
+
+    const handleEmptyTrash = async () => {
+        try {
+            await emptyTrash();
+            await loadTrash();
+        } catch (error) {
+            console.error('Error emptying trash:', error);
+            setIsError(true);
+        } finally {
+            setIsEmptyDialogOpen(false);
+        }
+    };
+
+    const describeItem = (item: TrashItem) => {
+        const parts = [
+            t(`trash.types.${item.type}`),
+            t('trash.deletedOn', {
+                date: new Date(item.deleted_at).toLocaleDateString(),
+            }),
+        ];
+        if (item.contents && item.contents.tasks > 0) {
+            parts.push(t('trash.withTasks', { count: item.contents.tasks }));
+        }
+        if (item.contents && item.contents.notes > 0) {
+            parts.push(t('trash.withNotes', { count: item.contents.notes }));
+        }
+        return parts.join(' · ');
+    };
+
+    return (
+        <div className="flex justify-center px-4 lg:px-2">
+            <div className="w-full max-w-5xl">
+                {/* Trash Header */}
+                <div className="flex items-center justify-between mb-2">
+                    <div className="flex items-center">
+                        <TrashIcon className="h-6 w-6 mr-2" />
+                        <h2 className="text-2xl font-light">
+                            {t('trash.title')}
+                        </h2>
+                    </div>
+                    {items.length > 0 && (
+                        <button
+                            onClick={() => setIsEmptyDialogOpen(true)}
+                            className="px-3 py-1 text-sm text-red-600 dark:text-red-400 border border-red-600 dark:border-red-400 rounded-md hover:bg-red-50 dark:hover:bg-gray-800 focus:outline-none"
+                        >
+                            {t('trash.empty')}
+                        </button>
+                    )}
+                </div>
+                <p className="text-sm text-gray-600 dark:text-gray-400 mb-8">
+                    {retentionDays > 0
+                        ? t('trash.retention', { count: retentionDays })
+                        : t('trash.keptUntilEmptied')}
+                </p>
+
+                {/* Trash List */}
+                {isLoading ? (
+                    <p className="text-gray-700 dark:text-gray-300">
+                        {t('trash.loading')}
+                    </p>
+                ) : isError ? (
+                    <p className="text-red-500">{t('trash.error')}</p>
+                ) : items.length === 0 ? (
+                    <p className="text-gray-700 dark:text-gray-300">
+                        {t('trash.noItems')}
+                    </p>
+                ) : (
+                    <ul className="space-y-2">
+                        {items.map((item) => (
+                            <li
+                                key={`${item.type}:${item.id}`}
+                                className="bg-white dark:bg-gray-900 shadow rounded-lg p-4 flex justify-between items-center"
+                            >
+                                <div className="flex-grow overflow-hidden pr-4">
+                                    <p className="text-md font-semibold text-gray-900 dark:text-gray-100 truncate">
+                                        {item.name}
+                                    </p>
+                                    <p className="text-xs text-gray-600 dark:text-gray-400 mt-1">
+                                        {describeItem(item)}
+                                    </p>
+                                </div>
+
+                                {/* Action Buttons */}
+                                <div className="flex space-x-2">
+                                    <button
+                                        onClick={() => handleRestore(item)}
+                                        className="text-gray-500 hover:text-blue-700 dark:hover:text-blue-300 focus:outline-none"
+                                        aria-label={t('trash.restore', {
+                                            name: item.name,
+                                        })}
+                                        title={t('trash.restore', {
+                                            name: item.name,
+                                        })}
+                                    >
+                                        <ArrowUturnLeftIcon className="h-5 w-5" />
+                                    </button>
+                                    <button
+                                        onClick={() => setItemToPurge(item)}
+                                        className="text-gray-500 hover:text-red-700 dark:hover:text-red-300 focus:outline-none"
+                                        aria-label={t('trash.deleteForever', {
+                                            name: item.name,
+                                        })}
+                                        title={t('trash.deleteForever', {
+                                            name: item.name,
+                                        })}
+                                    >
+                                        <XMarkIcon className="h-5 w-5" />
+                                    </button>
+                                </div>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+
+                {itemToPurge && (
+                    <ConfirmDialog
+                        title={t('trash.confirmPurgeTitle')}
+                        message={t('trash.confirmPurgeMessage', {
+                            name: itemToPurge.name,
+                        })}
+                        onConfirm={handlePurge}
+                        onCancel={() => setItemToPurge(null)}
+                    />
+                )}
+
+                {isEmptyDialogOpen && (
+                    <ConfirmDialog
+                        title={t('trash.confirmEmptyTitle')}
+                        message={t('trash.confirmEmptyMessage')}
+                        onConfirm={handleEmptyTrash}
+                        onCancel={() => setIsEmptyDialogOpen(false)}
+                    />
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default Trash;
@@ -0,0 +1,16 @@
+export type ApiTokenScope = 'read' | 'write';
+
+export interface ApiToken {
+    id: number;
+    name: string;
+    scope: ApiTokenScope;
+    token_prefix: string;
+    expires_at: string | null;
+    last_used_at: string | null;
+    created_at: string;
+}
+
+// Only returned by the create endpoint; the token can't be retrieved again
+export interface CreatedApiToken extends ApiToken {
+    token: string;
+}
@@ -2,6 +2,14 @@ import { Area } from './Area';
 import { Tag } from './Tag';
 import { PriorityType, Task } from './Task';
 import { Note } from './Note';
+import { ProjectSection } from './ProjectSection';
+
+export type ProjectViewMode = 'list' | 'board';
+
+export type BoardStatus = 'not_started' | 'in_progress' | 'waiting' | 'done';
+
+// Soft limit on the number of tasks in a board column
+export type WipLimits = Partial<Record<BoardStatus, number>>;
 
 export interface Project {
     id?: number;
@@ -17,6 +25,9 @@ export interface Project {
     Tasks?: Task[]; // Sequelize association naming (capitalized)
     notes?: Note[];
     Notes?: Note[]; // Sequelize association naming (capitalized)
+    ProjectSections?: ProjectSection[];
     due_date_at?: string;
     image_url?: string;
+    view_mode?: ProjectViewMode;
+    wip_limits?: WipLimits;
 }
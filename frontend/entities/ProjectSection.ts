@@ -0,0 +1,17 @@
+export interface ProjectSection {
+    id?: number;
+    name: string;
+    position?: number;
+    target_date?: string | null;
+    project_id?: number;
+    created_at?: string;
+    updated_at?: string;
+}
+
+export type MilestoneStatus = 'done' | 'overdue' | 'open';
+
+export interface SectionProgress {
+    total: number;
+    completed: number;
+    status: MilestoneStatus;
+}
@@ -0,0 +1,38 @@
+import { ProjectViewMode, WipLimits } from './Project';
+
+// Dates in templates are whole days from the start date they're laid out
+// from; names may contain {{placeholders}}
+export interface ProjectTemplateTask {
+    name: string;
+    note?: string | null;
+    priority?: number | null;
+    due_offset_days: number | null;
+    tags: string[];
+    section_index?: number | null;
+    position?: number | null;
+    subtasks?: ProjectTemplateTask[];
+}
+
+export interface ProjectTemplateContent {
+    project: {
+        name: string;
+        description?: string;
+        priority?: number | null;
+        due_offset_days: number | null;
+        tags: string[];
+        view_mode?: ProjectViewMode;
+        wip_limits?: WipLimits;
+    };
+    sections: { name: string; target_offset_days: number | null }[];
+    tasks: ProjectTemplateTask[];
+    notes: { title: string; content?: string; tags: string[] }[];
+}
+
+export interface ProjectTemplate {
+    id: number;
+    name: string;
+    content: ProjectTemplateContent;
+    placeholders: string[];
+    created_at?: string;
+    updated_at?: string;
+}
@@ -0,0 +1,13 @@
+export interface SavedFilter {
+    id?: number;
+    name: string;
+    query: string;
+    created_at?: string;
+    updated_at?: string;
+}
+
+export interface FilterParseError {
+    message: string;
+    position: number;
+    token: string;
+}
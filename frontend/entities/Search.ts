@@ -0,0 +1,25 @@
+export type SearchEntityType = 'task' | 'note' | 'project' | 'inbox';
+
+export interface SearchHit {
+    id: number;
+    type: SearchEntityType;
+    title_highlight: string;
+    snippet: string;
+    rank: number;
+    uuid?: string;
+    name?: string;
+    title?: string;
+    content?: string;
+    status?: string | number;
+}
+
+export interface SearchResults {
+    query: string;
+    total: number;
+    results: {
+        tasks?: SearchHit[];
+        notes?: SearchHit[];
+        projects?: SearchHit[];
+        inbox?: SearchHit[];
+    };
+}
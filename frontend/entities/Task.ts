@@ -8,11 +8,17 @@ export interface Task {
     status: StatusType | number;
     priority?: PriorityType | number;
     due_date?: string;
+    // HH:mm in the user's timezone; tasks without one are due all day
+    due_time?: string | null;
+    // The moment a timed task is due
+    due_at?: string | null;
+    defer_until?: string | null;
     note?: string;
     today?: boolean;
     today_move_count?: number;
     tags?: Tag[];
     project_id?: number;
+    section_id?: number | null;
     Project?: Project;
     created_at?: string;
     updated_at?: string;
@@ -25,9 +31,41 @@ export interface Task {
     completion_based?: boolean;
     recurring_parent_id?: number;
     completed_at?: string;
+    parent_task_id?: number | null;
+    complete_with_subtasks?: boolean;
+    position?: number | null;
+    today_position?: number | null;
+    subtask_progress?: SubtaskProgress;
+    blocked?: boolean;
+    blocked_by?: TaskReference[];
+    undo_token?: string | null;
 }
 
-export type StatusType = 'not_started' | 'in_progress' | 'done' | 'archived';
+export interface TaskReference {
+    id: number;
+    uuid?: string;
+    name: string;
+    status: StatusType | number;
+}
+
+export interface TaskDependencies {
+    blocked: boolean;
+    blocked_by: TaskReference[];
+    blocking: TaskReference[];
+}
+
+export interface SubtaskProgress {
+    total: number;
+    done: number;
+    percentage: number;
+}
+
+export type StatusType =
+    | 'not_started'
+    | 'in_progress'
+    | 'done'
+    | 'archived'
+    | 'waiting';
 export type PriorityType = 'low' | 'medium' | 'high';
 export type RecurrenceType =
     | 'none'
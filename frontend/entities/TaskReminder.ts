@@ -0,0 +1,12 @@
+// A reminder sent through Telegram, either at a fixed time or a number of
+// minutes before the task is due
+export interface TaskReminder {
+    id: number;
+    task_id: number;
+    remind_at: string | null;
+    minutes_before_due: number | null;
+    snoozed_until: string | null;
+    sent_at: string | null;
+    created_at?: string;
+    updated_at?: string;
+}
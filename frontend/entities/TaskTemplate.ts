@@ -0,0 +1,15 @@
+// Defaults for new tasks. The due date is a number of days from the day
+// the task is created.
+export interface TaskTemplate {
+    id: number;
+    name: string;
+    task_name: string;
+    note?: string | null;
+    priority?: number | null;
+    tags: string[];
+    due_offset_days: number | null;
+    project_id: number | null;
+    project_name?: string | null;
+    created_at?: string;
+    updated_at?: string;
+}
@@ -0,0 +1,15 @@
+export type TrashItemType = 'task' | 'project' | 'note' | 'area' | 'inbox_item';
+
+export interface TrashItem {
+    type: TrashItemType;
+    id: number;
+    name: string;
+    deleted_at: string;
+    purge_at: string | null;
+    contents: { tasks: number; notes: number } | null;
+}
+
+export interface TrashListing {
+    retention_days: number;
+    items: TrashItem[];
+}
@@ -0,0 +1,38 @@
+export type WebhookEvent =
+    | 'task.created'
+    | 'task.updated'
+    | 'task.completed'
+    | 'task.deleted'
+    | 'project.created'
+    | 'project.updated'
+    | 'project.deleted'
+    | 'note.created'
+    | 'note.updated'
+    | 'note.deleted';
+
+export interface Webhook {
+    id?: number;
+    name: string;
+    url: string;
+    // Only returned when the secret is created or rotated
+    secret?: string;
+    secret_hint?: string;
+    events: WebhookEvent[];
+    active: boolean;
+    created_at?: string;
+    updated_at?: string;
+}
+
+export interface WebhookDelivery {
+    id: number;
+    webhook_id: number;
+    event: string;
+    status: 'pending' | 'delivered' | 'failed';
+    attempts: number;
+    next_attempt_at: string | null;
+    last_attempt_at: string | null;
+    response_status: number | null;
+    response_body: string | null;
+    error: string | null;
+    created_at: string;
+}
@@ -11,6 +11,8 @@ interface NotesStore {
     isLoading: boolean;
     isError: boolean;
     setNotes: (notes: Note[]) => void;
+    upsertNote: (note: Note) => void;
+    removeNote: (id: number) => void;
     setLoading: (isLoading: boolean) => void;
     setError: (isError: boolean) => void;
 }
@@ -29,6 +31,8 @@ interface ProjectsStore {
     isLoading: boolean;
     isError: boolean;
     setProjects: (projects: Project[]) => void;
+    upsertProject: (project: Project) => void;
+    removeProject: (id: number) => void;
     setLoading: (isLoading: boolean) => void;
     setError: (isError: boolean) => void;
 }
@@ -38,6 +42,8 @@ interface TagsStore {
     isLoading: boolean;
     isError: boolean;
     setTags: (tags: Tag[]) => void;
+    upsertTag: (tag: Tag) => void;
+    removeTag: (id: number) => void;
     setLoading: (isLoading: boolean) => void;
     setError: (isError: boolean) => void;
     loadTags: () => Promise<void>;
@@ -48,6 +54,8 @@ interface TasksStore {
     isLoading: boolean;
     isError: boolean;
     setTasks: (tasks: Task[]) => void;
+    upsertTask: (task: Task) => void;
+    removeTask: (id: number) => void;
     setLoading: (isLoading: boolean) => void;
     setError: (isError: boolean) => void;
 }
@@ -73,6 +81,15 @@ interface StoreState {
     inboxStore: InboxStore;
 }
 
+// Replace the item with the same id, or append it when it's new
+const upsertById = <T extends { id?: number }>(items: T[], item: T): T[] =>
+    items.some((existing) => existing.id === item.id)
+        ? items.map((existing) => (existing.id === item.id ? item : existing))
+        : [...items, item];
+
+const removeById = <T extends { id?: number }>(items: T[], id: number): T[] =>
+    items.filter((item) => item.id !== id);
+
 export const useStore = create<StoreState>((set) => ({
     notesStore: {
         notes: [],
@@ -80,6 +97,20 @@ export const useStore = create<StoreState>((set) => ({
         isError: false,
         setNotes: (notes) =>
             set((state) => ({ notesStore: { ...state.notesStore, notes } })),
+        upsertNote: (note) =>
+            set((state) => ({
+                notesStore: {
+                    ...state.notesStore,
+                    notes: upsertById(state.notesStore.notes, note),
+                },
+            })),
+        removeNote: (id) =>
+            set((state) => ({
+                notesStore: {
+                    ...state.notesStore,
+                    notes: removeById(state.notesStore.notes, id),
+                },
+            })),
         setLoading: (isLoading) =>
             set((state) => ({
                 notesStore: { ...state.notesStore, isLoading },
@@ -108,6 +139,20 @@ export const useStore = create<StoreState>((set) => ({
             set((state) => ({
                 projectsStore: { ...state.projectsStore, projects },
             })),
+        upsertProject: (project) =>
+            set((state) => ({
+                projectsStore: {
+                    ...state.projectsStore,
+                    projects: upsertById(state.projectsStore.projects, project),
+                },
+            })),
+        removeProject: (id) =>
+            set((state) => ({
+                projectsStore: {
+                    ...state.projectsStore,
+                    projects: removeById(state.projectsStore.projects, id),
+                },
+            })),
         setLoading: (isLoading) =>
             set((state) => ({
                 projectsStore: { ...state.projectsStore, isLoading },
@@ -123,6 +168,20 @@ export const useStore = create<StoreState>((set) => ({
         isError: false,
         setTags: (tags) =>
             set((state) => ({ tagsStore: { ...state.tagsStore, tags } })),
+        upsertTag: (tag) =>
+            set((state) => ({
+                tagsStore: {
+                    ...state.tagsStore,
+                    tags: upsertById(state.tagsStore.tags, tag),
+                },
+            })),
+        removeTag: (id) =>
+            set((state) => ({
+                tagsStore: {
+                    ...state.tagsStore,
+                    tags: removeById(state.tagsStore.tags, id),
+                },
+            })),
         setLoading: (isLoading) =>
             set((state) => ({ tagsStore: { ...state.tagsStore, isLoading } })),
         setError: (isError) =>
@@ -159,6 +218,20 @@ export const useStore = create<StoreState>((set) => ({
         isError: false,
         setTasks: (tasks) =>
             set((state) => ({ tasksStore: { ...state.tasksStore, tasks } })),
+        upsertTask: (task) =>
+            set((state) => ({
+                tasksStore: {
+                    ...state.tasksStore,
+                    tasks: upsertById(state.tasksStore.tasks, task),
+                },
+            })),
+        removeTask: (id) =>
+            set((state) => ({
+                tasksStore: {
+                    ...state.tasksStore,
+                    tasks: removeById(state.tasksStore.tasks, id),
+                },
+            })),
         setLoading: (isLoading) =>
             set((state) => ({
                 tasksStore: { ...state.tasksStore, isLoading },
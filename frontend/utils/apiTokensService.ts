@@ -0,0 +1,46 @@
+import { ApiToken, ApiTokenScope, CreatedApiToken } from '../entities/ApiToken';
+import {
+    handleAuthResponse,
+    getDefaultHeaders,
+    getPostHeaders,
+} from './authUtils';
+
+export const fetchApiTokens = async (): Promise<ApiToken[]> => {
+    const response = await fetch('/api/tokens', {
+        credentials: 'include',
+        headers: getDefaultHeaders(),
+    });
+
+    await handleAuthResponse(response, 'Failed to fetch API tokens.');
+    return await response.json();
+};
+
+export const createApiToken = async (tokenData: {
+    name: string;
+    scope: ApiTokenScope;
+    expires_at: string | null;
+}): Promise<CreatedApiToken> => {
+    const response = await fetch('/api/tokens', {
+        method: 'POST',
+        credentials: 'include',
+        headers: getPostHeaders(),
+        body: JSON.stringify(tokenData),
+    });
+
+    if (response.status === 400) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to create API token.');
+    }
+    await handleAuthResponse(response, 'Failed to create API token.');
+    return await response.json();
+};
+
+export const revokeApiToken = async (tokenId: number): Promise<void> => {
+    const response = await fetch(`/api/tokens/${tokenId}`, {
+        method: 'DELETE',
+        credentials: 'include',
+        headers: getDefaultHeaders(),
+    });
+
+    await handleAuthResponse(response, 'Failed to revoke API token.');
+};
@@ -0,0 +1,57 @@
+import { handleAuthResponse, getDefaultHeaders } from './authUtils';
+
+export type CalendarFeedType = 'event' | 'todo';
+
+export interface CalendarFeedOptions {
+    type: CalendarFeedType;
+    projectId: string;
+    tagName: string;
+}
+
+export const fetchCalendarFeedToken = async (): Promise<string | null> => {
+    const response = await fetch('/api/calendar/feed', {
+        credentials: 'include',
+        headers: getDefaultHeaders(),
+    });
+
+    await handleAuthResponse(response, 'Failed to fetch calendar feed.');
+    const data = await response.json();
+    return data.token;
+};
+
+export const regenerateCalendarFeedToken = async (): Promise<string> => {
+    const response = await fetch('/api/calendar/feed', {
+        method: 'POST',
+        credentials: 'include',
+        headers: getDefaultHeaders(),
+    });
+
+    await handleAuthResponse(response, 'Failed to regenerate calendar feed.');
+    const data = await response.json();
+    return data.token;
+};
+
+export const disableCalendarFeed = async (): Promise<void> => {
+    const response = await fetch('/api/calendar/feed', {
+        method: 'DELETE',
+        credentials: 'include',
+        headers: getDefaultHeaders(),
+    });
+
+    await handleAuthResponse(response, 'Failed to disable calendar feed.');
+};
+
+export const buildCalendarFeedUrl = (
+    token: string,
+    { type, projectId, tagName }: CalendarFeedOptions
+): string => {
+    const params = new URLSearchParams();
+    if (type !== 'event') params.set('type', type);
+    if (projectId) params.set('project', projectId);
+    if (tagName) params.set('tag', tagName);
+
+    const query = params.toString();
+    return `${window.location.origin}/api/calendar/feed/${token}.ics${
+        query ? `?${query}` : ''
+    }`;
+};
@@ -1,4 +1,4 @@
-import { format, Locale } from 'date-fns';
+import { format, Locale, parse } from 'date-fns';
 import { enUS } from 'date-fns/locale/en-US';
 import { es } from 'date-fns/locale/es';
 import { el } from 'date-fns/locale/el';
@@ -82,6 +82,17 @@ export const formatShortDate = (date: Date | number): string => {
     );
 };
 
+/**
+ * Formats a HH:mm task due time based on the current locale
+ * Example: "3:00 PM" (in English)
+ *
+ * @param time - The due time, as stored on the task
+ * @returns The formatted time string
+ */
+export const formatDueTime = (time: string): string => {
+    return formatLocalizedDate(parse(time, 'HH:mm', new Date()), 'p');
+};
+
 /**
  * Formats a date to show only month and year based on the current locale
  * Example: "January 2023" (in English)
@@ -0,0 +1,81 @@
+import { SavedFilter, FilterParseError } from '../entities/SavedFilter';
+import {
+    handleAuthResponse,
+    getDefaultHeaders,
+    getPostHeaders,
+} from './authUtils';
+
+// Carries the structured parse errors returned for invalid filter queries
+export class FilterQueryError extends Error {
+    errors: FilterParseError[];
+
+    constructor(message: string, errors: FilterParseError[] = []) {
+        super(message);
+        this.name = 'FilterQueryError';
+        this.errors = errors;
+    }
+}
+
+const handleValidationError = async (
+    response: Response,
+    errorMessage: string
+) => {
+    if (response.status === 400) {
+        const errorData = await response.json();
+        throw new FilterQueryError(
+            errorData.error || errorMessage,
+            errorData.errors || []
+        );
+    }
+};
+
+export const fetchSavedFilters = async (): Promise<SavedFilter[]> => {
+    const response = await fetch('/api/filters', {
+        credentials: 'include',
+        headers: getDefaultHeaders(),
+    });
+
+    await handleAuthResponse(response, 'Failed to fetch saved filters.');
+    return await response.json();
+};
+
+export const createSavedFilter = async (
+    filterData: Partial<SavedFilter>
+): Promise<SavedFilter> => {
+    const response = await fetch('/api/filters', {
+        method: 'POST',
+        credentials: 'include',
+        headers: getPostHeaders(),
+        body: JSON.stringify(filterData),
+    });
+
+    await handleValidationError(response, 'Failed to create saved filter.');
+    await handleAuthResponse(response, 'Failed to create saved filter.');
+    return await response.json();
+};
+
+export const updateSavedFilter = async (
+    filterId: number,
+    filterData: Partial<SavedFilter>
+): Promise<SavedFilter> => {
+    const response = await fetch(`/api/filters/${filterId}`, {
+        method: 'PATCH',
+        credentials: 'include',
+        headers: getPostHeaders(),
+        body: JSON.stringify(filterData),
+    });
+
+    await handleValidationError(response, 'Failed to update saved filter.');
+    await handleAuthResponse(response, 'Failed to update saved filter.');
+    return await response.json();
+};
+
+export const deleteSavedFilter = async (filterId: number): Promise<void> => {
+    const response = await fetch(`/api/filters/${filterId}`, {
+        method: 'DELETE',
+        credentials: 'include',
+        headers: getDefaultHeaders(),
+    });
+
+    await handleAuthResponse(response, 'Failed to delete saved filter.');
+};
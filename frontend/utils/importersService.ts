@@ -0,0 +1,96 @@
+import { handleAuthResponse, getDefaultHeaders } from './authUtils';
+
+export interface Importer {
+    id: string;
+    name: string;
+    extensions: string[];
+}
+
+export interface UnmappedField {
+    field: string;
+    reason: string;
+    count: number;
+    examples: string[];
+}
+
+export interface ImportPreviewTask {
+    name: string;
+    project: string | null;
+    parent: string | null;
+    due_date: string | null;
+    priority: number;
+    status: number;
+    recurrence_type: string;
+    tags: string[];
+}
+
+export interface ImportPreview {
+    source: string;
+    counts: {
+        areas: number;
+        projects: number;
+        tags: number;
+        tasks: number;
+        subtasks: number;
+        recurring: number;
+        completed: number;
+    };
+    areas: string[];
+    projects: { name: string; area: string | null }[];
+    tags: string[];
+    tasks: ImportPreviewTask[];
+    unmapped: UnmappedField[];
+}
+
+export interface ImportReport {
+    created: Record<string, number>;
+    existing: Record<string, number>;
+    warnings: string[];
+}
+
+export const fetchImporters = async (): Promise<Importer[]> => {
+    const response = await fetch('/api/importers', {
+        credentials: 'include',
+        headers: getDefaultHeaders(),
+    });
+
+    await handleAuthResponse(response, 'Failed to fetch importers.');
+    return await response.json();
+};
+
+// The server explains why a file can't be read, so pass its message on
+const uploadExport = async (
+    source: string,
+    file: File,
+    action: 'preview' | 'import',
+    errorMessage: string
+) => {
+    const formData = new FormData();
+    formData.append('file', file);
+
+    const response = await fetch(`/api/importers/${source}/${action}`, {
+        method: 'POST',
+        credentials: 'include',
+        headers: getDefaultHeaders(),
+        body: formData,
+    });
+
+    if (response.status === 400) {
+        const data = await response.json();
+        throw new Error(data.error || errorMessage);
+    }
+    await handleAuthResponse(response, errorMessage);
+    return await response.json();
+};
+
+export const previewImport = async (
+    source: string,
+    file: File
+): Promise<ImportPreview> =>
+    uploadExport(source, file, 'preview', 'Failed to read the export file.');
+
+export const runImport = async (
+    source: string,
+    file: File
+): Promise<ImportReport> =>
+    uploadExport(source, file, 'import', 'Failed to import the export file.');
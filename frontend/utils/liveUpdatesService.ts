@@ -0,0 +1,162 @@
+import { useStore } from '../store/useStore';
+import { loadInboxItemsToStore } from './inboxService';
+import { InboxItem } from '../entities/InboxItem';
+import { Note } from '../entities/Note';
+import { Project } from '../entities/Project';
+import { Tag } from '../entities/Tag';
+import { Task } from '../entities/Task';
+
+// Records sent by the server always carry their id
+type Saved<T> = T & { id: number };
+
+// Deleted records are only identified, not sent in full
+interface DeletedRecord {
+    id: number;
+    uuid?: string;
+    name?: string;
+}
+
+export type ChangeEvent =
+    | {
+          event: 'task.created' | 'task.updated' | 'task.completed';
+          data: { task: Saved<Task> };
+      }
+    | { event: 'task.deleted'; data: { task: DeletedRecord } }
+    | {
+          event: 'project.created' | 'project.updated' | 'project.restored';
+          data: { project: Saved<Project> };
+      }
+    | { event: 'project.deleted'; data: { project: DeletedRecord } }
+    | {
+          event: 'note.created' | 'note.updated' | 'note.restored';
+          data: { note: Saved<Note> };
+      }
+    | { event: 'note.deleted'; data: { note: DeletedRecord } }
+    | { event: 'tag.created' | 'tag.updated'; data: { tag: Saved<Tag> } }
+    | { event: 'tag.deleted'; data: { tag: DeletedRecord } }
+    | {
+          event: 'inbox.created' | 'inbox.updated' | 'inbox.deleted';
+          data: { inbox_item: Saved<InboxItem> };
+      }
+    // Sent locally after a reconnect, asking views to reload
+    | { event: 'resync'; data: Record<string, never> };
+
+// Window event re-broadcast for every change, so views that hold their own
+// state (like the Today page) can refresh themselves
+export const LIVE_CHANGE_EVENT = 'liveChange';
+
+const applyInboxChange = (event: string, item: Saved<InboxItem>) => {
+    const inboxStore = useStore.getState().inboxStore;
+    const exists = inboxStore.inboxItems.some(
+        (existing) => existing.id === item.id
+    );
+
+    if (event === 'inbox.created') {
+        if (exists) return;
+        // The inbox is listed newest first
+        inboxStore.setInboxItems([item, ...inboxStore.inboxItems]);
+        if (item.source === 'telegram') {
+            window.dispatchEvent(
+                new CustomEvent('inboxItemsUpdated', {
+                    detail: {
+                        count: 1,
+                        firstItemContent:
+                            item.content.substring(0, 30) +
+                            (item.content.length > 30 ? '...' : ''),
+                    },
+                })
+            );
+        }
+    } else if (event === 'inbox.deleted' || item.status !== 'added') {
+        inboxStore.removeInboxItem(item.id);
+    } else if (exists) {
+        inboxStore.updateInboxItem(item);
+    }
+};
+
+/**
+ * Apply a change pushed by the server to the store
+ */
+export const applyChangeEvent = (change: ChangeEvent): void => {
+    const state = useStore.getState();
+
+    switch (change.event) {
+        case 'task.created':
+        case 'task.updated':
+        case 'task.completed':
+            state.tasksStore.upsertTask(change.data.task);
+            break;
+        case 'task.deleted':
+            state.tasksStore.removeTask(change.data.task.id);
+            break;
+        case 'project.created':
+        case 'project.updated':
+        case 'project.restored':
+            state.projectsStore.upsertProject(change.data.project);
+            break;
+        case 'project.deleted':
+            state.projectsStore.removeProject(change.data.project.id);
+            break;
+        case 'note.created':
+        case 'note.updated':
+        case 'note.restored':
+            state.notesStore.upsertNote(change.data.note);
+            break;
+        case 'note.deleted':
+            state.notesStore.removeNote(change.data.note.id);
+            break;
+        case 'tag.created':
+        case 'tag.updated':
+            state.tagsStore.upsertTag(change.data.tag);
+            break;
+        case 'tag.deleted':
+            state.tagsStore.removeTag(change.data.tag.id);
+            break;
+        case 'inbox.created':
+        case 'inbox.updated':
+        case 'inbox.deleted':
+            applyInboxChange(change.event, change.data.inbox_item);
+            break;
+    }
+
+    window.dispatchEvent(
+        new CustomEvent<ChangeEvent>(LIVE_CHANGE_EVENT, { detail: change })
+    );
+};
+
+/**
+ * Subscribe to the server's change stream. The browser reconnects on its
+ * own; after a reconnect, views are asked to reload anything they missed.
+ * @returns Function that closes the connection
+ */
+export const connectLiveUpdates = (): (() => void) => {
+    const source = new EventSource('/api/events/stream', {
+        withCredentials: true,
+    });
+    let disconnected = false;
+
+    source.onmessage = (message) => {
+        try {
+            applyChangeEvent(JSON.parse(message.data));
+        } catch (error) {
+            console.error('Failed to apply live update:', error);
+        }
+    };
+
+    source.onerror = () => {
+        disconnected = true;
+    };
+
+    source.onopen = () => {
+        if (!disconnected) return;
+        disconnected = false;
+        loadInboxItemsToStore(false);
+        window.dispatchEvent(
+            new CustomEvent<ChangeEvent>(LIVE_CHANGE_EVENT, {
+                detail: { event: 'resync', data: {} },
+            })
+        );
+    };
+
+    return () => source.close();
+};
@@ -42,7 +42,8 @@ export const updateNote = async (
     return await response.json();
 };
 
-export const deleteNote = async (noteId: number): Promise<void> => {
+// Resolves to the token that undoes the deletion
+export const deleteNote = async (noteId: number): Promise<string | null> => {
     const response = await fetch(`/api/note/${noteId}`, {
         method: 'DELETE',
         credentials: 'include',
@@ -50,4 +51,6 @@ export const deleteNote = async (noteId: number): Promise<void> => {
     });
 
     await handleAuthResponse(response, 'Failed to delete note.');
+    const result = await response.json();
+    return result.undo_token || null;
 };
@@ -0,0 +1,84 @@
+import { ProjectSection, SectionProgress } from '../entities/ProjectSection';
+import { Task } from '../entities/Task';
+import {
+    handleAuthResponse,
+    getDefaultHeaders,
+    getPostHeaders,
+} from './authUtils';
+
+export const createProjectSection = async (
+    projectId: number,
+    sectionData: Partial<ProjectSection>
+): Promise<ProjectSection> => {
+    const response = await fetch(`/api/project/${projectId}/sections`, {
+        method: 'POST',
+        credentials: 'include',
+        headers: getPostHeaders(),
+        body: JSON.stringify(sectionData),
+    });
+
+    await handleAuthResponse(response, 'Failed to create section.');
+    return await response.json();
+};
+
+export const updateProjectSection = async (
+    sectionId: number,
+    sectionData: Partial<ProjectSection>
+): Promise<ProjectSection> => {
+    const response = await fetch(`/api/section/${sectionId}`, {
+        method: 'PATCH',
+        credentials: 'include',
+        headers: getPostHeaders(),
+        body: JSON.stringify(sectionData),
+    });
+
+    await handleAuthResponse(response, 'Failed to update section.');
+    return await response.json();
+};
+
+// Tasks of a deleted section stay in the project without a section
+export const deleteProjectSection = async (
+    sectionId: number
+): Promise<void> => {
+    const response = await fetch(`/api/section/${sectionId}`, {
+        method: 'DELETE',
+        credentials: 'include',
+        headers: getDefaultHeaders(),
+    });
+
+    await handleAuthResponse(response, 'Failed to delete section.');
+};
+
+const isStatus = (task: Task, value: number, name: string) =>
+    task.status === value || task.status === name;
+
+/**
+ * Progress of a section's tasks. Archived tasks don't count; a section is
+ * done once all of its tasks are and overdue when its target date passed
+ * before that.
+ */
+export const getSectionProgress = (
+    section: ProjectSection,
+    tasks: Task[]
+): SectionProgress => {
+    const sectionTasks = tasks.filter(
+        (task) =>
+            task.section_id === section.id && !isStatus(task, 3, 'archived')
+    );
+    const completed = sectionTasks.filter((task) =>
+        isStatus(task, 2, 'done')
+    ).length;
+    const total = sectionTasks.length;
+
+    let status: SectionProgress['status'] = 'open';
+    if (total > 0 && completed === total) {
+        status = 'done';
+    } else if (
+        section.target_date &&
+        new Date(section.target_date).setHours(23, 59, 59, 999) < Date.now()
+    ) {
+        status = 'overdue';
+    }
+
+    return { total, completed, status };
+};
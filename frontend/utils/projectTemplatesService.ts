@@ -0,0 +1,77 @@
+import { Project } from '../entities/Project';
+import { ProjectTemplate } from '../entities/ProjectTemplate';
+import {
+    handleAuthResponse,
+    getDefaultHeaders,
+    getPostHeaders,
+} from './authUtils';
+
+export const fetchProjectTemplates = async (): Promise<ProjectTemplate[]> => {
+    const response = await fetch('/api/project-templates', {
+        credentials: 'include',
+        headers: getDefaultHeaders(),
+    });
+
+    await handleAuthResponse(response, 'Failed to fetch project templates.');
+    return await response.json();
+};
+
+/**
+ * Save a project as a template. Dates become offsets from startDate and
+ * each placeholder's text in names is replaced with {{placeholder}}.
+ */
+export const createProjectTemplate = async (
+    projectId: number,
+    templateData: {
+        name: string;
+        start_date: string;
+        placeholders?: Record<string, string>;
+    }
+): Promise<ProjectTemplate> => {
+    const response = await fetch(`/api/project/${projectId}/template`, {
+        method: 'POST',
+        credentials: 'include',
+        headers: getPostHeaders(),
+        body: JSON.stringify(templateData),
+    });
+
+    await handleAuthResponse(response, 'Failed to save project template.');
+    return await response.json();
+};
+
+export const instantiateProjectTemplate = async (
+    templateId: number,
+    options: {
+        start_date: string;
+        values: Record<string, string>;
+        area_id?: number | null;
+    }
+): Promise<Project> => {
+    const response = await fetch(
+        `/api/project-template/${templateId}/instantiate`,
+        {
+            method: 'POST',
+            credentials: 'include',
+            headers: getPostHeaders(),
+            body: JSON.stringify(options),
+        }
+    );
+
+    await handleAuthResponse(
+        response,
+        'Failed to create project from template.'
+    );
+    return await response.json();
+};
+
+export const deleteProjectTemplate = async (
+    templateId: number
+): Promise<void> => {
+    const response = await fetch(`/api/project-template/${templateId}`, {
+        method: 'DELETE',
+        credentials: 'include',
+        headers: getDefaultHeaders(),
+    });
+
+    await handleAuthResponse(response, 'Failed to delete project template.');
+};
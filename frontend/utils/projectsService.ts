@@ -91,7 +91,10 @@ export const updateProject = async (
     return await response.json();
 };
 
-export const deleteProject = async (projectId: number): Promise<void> => {
+// Resolves to the token that undoes the deletion
+export const deleteProject = async (
+    projectId: number
+): Promise<string | null> => {
     const response = await fetch(`/api/project/${projectId}`, {
         method: 'DELETE',
         credentials: 'include',
@@ -101,4 +104,6 @@ export const deleteProject = async (projectId: number): Promise<void> => {
     });
 
     await handleAuthResponse(response, 'Failed to delete project.');
+    const result = await response.json();
+    return result.undo_token || null;
 };
@@ -0,0 +1,16 @@
+import { SearchResults } from '../entities/Search';
+import { handleAuthResponse, getDefaultHeaders } from './authUtils';
+
+export const search = async (
+    query: string,
+    limit = 5
+): Promise<SearchResults> => {
+    const params = new URLSearchParams({ q: query, limit: String(limit) });
+    const response = await fetch(`/api/search?${params.toString()}`, {
+        credentials: 'include',
+        headers: getDefaultHeaders(),
+    });
+
+    await handleAuthResponse(response, 'Failed to search.');
+    return await response.json();
+};
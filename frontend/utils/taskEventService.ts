@@ -164,6 +164,7 @@ export const getEventTypeLabel = (eventType: string): string => {
         status_changed: 'Status Changed',
         priority_changed: 'Priority Changed',
         due_date_changed: 'Due Date Changed',
+        due_time_changed: 'Due Time Changed',
         project_changed: 'Project Changed',
         name_changed: 'Name Changed',
         description_changed: 'Description Changed',
@@ -0,0 +1,43 @@
+import { TaskReminder } from '../entities/TaskReminder';
+import {
+    handleAuthResponse,
+    getDefaultHeaders,
+    getPostHeaders,
+} from './authUtils';
+
+export const fetchTaskReminders = async (
+    taskId: number
+): Promise<TaskReminder[]> => {
+    const response = await fetch(`/api/task/${taskId}/reminders`, {
+        credentials: 'include',
+        headers: getDefaultHeaders(),
+    });
+
+    await handleAuthResponse(response, 'Failed to fetch task reminders.');
+    return await response.json();
+};
+
+export const createTaskReminder = async (
+    taskId: number,
+    reminderData: Pick<TaskReminder, 'remind_at' | 'minutes_before_due'>
+): Promise<TaskReminder> => {
+    const response = await fetch(`/api/task/${taskId}/reminders`, {
+        method: 'POST',
+        credentials: 'include',
+        headers: getPostHeaders(),
+        body: JSON.stringify(reminderData),
+    });
+
+    await handleAuthResponse(response, 'Failed to add reminder.');
+    return await response.json();
+};
+
+export const deleteTaskReminder = async (reminderId: number): Promise<void> => {
+    const response = await fetch(`/api/task-reminder/${reminderId}`, {
+        method: 'DELETE',
+        credentials: 'include',
+        headers: getDefaultHeaders(),
+    });
+
+    await handleAuthResponse(response, 'Failed to remove reminder.');
+};
@@ -0,0 +1,109 @@
+import { Task } from '../entities/Task';
+import { TaskTemplate } from '../entities/TaskTemplate';
+import {
+    handleAuthResponse,
+    getDefaultHeaders,
+    getPostHeaders,
+} from './authUtils';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PRIORITY_VALUES = { low: 0, medium: 1, high: 2 };
+
+// Local calendar dates, so "today" is the user's today
+const startOfToday = () => {
+    const now = new Date();
+    return new Date(now.getFullYear(), now.getMonth(), now.getDate());
+};
+
+const formatDate = (date: Date) =>
+    [
+        date.getFullYear(),
+        String(date.getMonth() + 1).padStart(2, '0'),
+        String(date.getDate()).padStart(2, '0'),
+    ].join('-');
+
+export const fetchTaskTemplates = async (): Promise<TaskTemplate[]> => {
+    const response = await fetch('/api/task-templates', {
+        credentials: 'include',
+        headers: getDefaultHeaders(),
+    });
+
+    await handleAuthResponse(response, 'Failed to fetch task templates.');
+    return await response.json();
+};
+
+export const createTaskTemplate = async (
+    templateData: Omit<TaskTemplate, 'id' | 'project_name'>
+): Promise<TaskTemplate> => {
+    const response = await fetch('/api/task-templates', {
+        method: 'POST',
+        credentials: 'include',
+        headers: getPostHeaders(),
+        body: JSON.stringify(templateData),
+    });
+
+    await handleAuthResponse(response, 'Failed to save task template.');
+    return await response.json();
+};
+
+export const deleteTaskTemplate = async (templateId: number): Promise<void> => {
+    const response = await fetch(`/api/task-template/${templateId}`, {
+        method: 'DELETE',
+        credentials: 'include',
+        headers: getDefaultHeaders(),
+    });
+
+    await handleAuthResponse(response, 'Failed to delete task template.');
+};
+
+/**
+ * Fields for a new task from a template, with the due date counted from
+ * today
+ */
+export const taskFromTemplate = (template: TaskTemplate): Partial<Task> => {
+    const taskData: Partial<Task> = {
+        name: template.task_name,
+        tags: template.tags.map((name) => ({ name })),
+    };
+    if (template.note) taskData.note = template.note;
+    if (typeof template.priority === 'number') {
+        taskData.priority = template.priority;
+    }
+    if (template.project_id) taskData.project_id = template.project_id;
+    if (template.due_offset_days !== null) {
+        const dueDate = startOfToday();
+        dueDate.setDate(dueDate.getDate() + template.due_offset_days);
+        taskData.due_date = formatDate(dueDate);
+    }
+    return taskData;
+};
+
+/**
+ * Template fields capturing a task, with its due date kept relative to
+ * today
+ */
+export const templateFromTask = (
+    task: Task
+): Omit<TaskTemplate, 'id' | 'project_name'> => {
+    const priority =
+        typeof task.priority === 'string'
+            ? PRIORITY_VALUES[task.priority]
+            : task.priority;
+    const dueDate = task.due_date ? task.due_date.split('T')[0] : null;
+
+    return {
+        name: task.name,
+        task_name: task.name,
+        note: task.note || null,
+        priority: priority ?? null,
+        tags: (task.tags || []).map((tag) => tag.name),
+        due_offset_days: dueDate
+            ? Math.round(
+                  (new Date(`${dueDate}T00:00:00`).getTime() -
+                      startOfToday().getTime()) /
+                      DAY_MS
+              )
+            : null,
+        project_id: task.project_id || null,
+    };
+};
@@ -1,5 +1,5 @@
 import { Metrics } from '../entities/Metrics';
-import { Task } from '../entities/Task';
+import { Task, SubtaskProgress, TaskDependencies } from '../entities/Task';
 import {
     handleAuthResponse,
     getDefaultHeaders,
@@ -55,6 +55,39 @@ export const updateTask = async (
     return await response.json();
 };
 
+// Copies the task's tags, note, priority, project and recurrence
+export const duplicateTask = async (
+    taskId: number,
+    includeSubtasks: boolean = false
+): Promise<Task> => {
+    const response = await fetch(`/api/task/${taskId}/duplicate`, {
+        method: 'POST',
+        credentials: 'include',
+        headers: getPostHeaders(),
+        body: JSON.stringify({ include_subtasks: includeSubtasks }),
+    });
+
+    await handleAuthResponse(response, 'Failed to duplicate task.');
+    return await response.json();
+};
+
+// Hides the task from Today, Next and suggestions until the given
+// YYYY-MM-DD date in the user's timezone; null brings it back now
+export const deferTask = async (
+    taskId: number,
+    deferUntil: string | null
+): Promise<Task> => {
+    const response = await fetch(`/api/task/${taskId}/defer`, {
+        method: 'PATCH',
+        credentials: 'include',
+        headers: getPostHeaders(),
+        body: JSON.stringify({ defer_until: deferUntil }),
+    });
+
+    await handleAuthResponse(response, 'Failed to defer task.');
+    return await response.json();
+};
+
 export const toggleTaskCompletion = async (taskId: number): Promise<Task> => {
     const response = await fetch(`/api/task/${taskId}/toggle_completion`, {
         method: 'PATCH',
@@ -67,7 +100,8 @@ export const toggleTaskCompletion = async (taskId: number): Promise<Task> => {
     return result;
 };
 
-export const deleteTask = async (taskId: number): Promise<void> => {
+// Resolves to the token that undoes the deletion
+export const deleteTask = async (taskId: number): Promise<string | null> => {
     const response = await fetch(`/api/task/${taskId}`, {
         method: 'DELETE',
         credentials: 'include',
@@ -75,6 +109,64 @@ export const deleteTask = async (taskId: number): Promise<void> => {
     });
 
     await handleAuthResponse(response, 'Failed to delete task.');
+    const result = await response.json();
+    return result.undo_token || null;
+};
+
+export type TaskOrderContext = 'project' | 'today';
+
+// Places a task between its new neighbours in a manually ordered list
+export const moveTask = async (
+    taskId: number,
+    context: TaskOrderContext,
+    afterId: number | null,
+    beforeId: number | null
+): Promise<Task> => {
+    const response = await fetch(`/api/task/${taskId}/position`, {
+        method: 'PATCH',
+        credentials: 'include',
+        headers: getPostHeaders(),
+        body: JSON.stringify({
+            context,
+            after_id: afterId,
+            before_id: beforeId,
+        }),
+    });
+
+    await handleAuthResponse(response, 'Failed to move task.');
+    return await response.json();
+};
+
+export interface BulkTaskOperations {
+    status?: string;
+    priority?: string;
+    project_id?: number | null;
+    add_tags?: string[];
+    remove_tags?: string[];
+    due_date_shift_days?: number;
+    today?: boolean;
+    delete?: boolean;
+}
+
+export interface BulkTaskResult {
+    tasks: Task[];
+    deleted_task_ids: number[];
+    undo_token: string | null;
+}
+
+export const bulkUpdateTasks = async (
+    taskIds: number[],
+    operations: BulkTaskOperations
+): Promise<BulkTaskResult> => {
+    const response = await fetch('/api/tasks/bulk', {
+        method: 'PATCH',
+        credentials: 'include',
+        headers: getPostHeaders(),
+        body: JSON.stringify({ ids: taskIds, operations }),
+    });
+
+    await handleAuthResponse(response, 'Failed to update tasks.');
+    return await response.json();
 };
 
 export const fetchTaskById = async (taskId: number): Promise<Task> => {
@@ -107,3 +199,110 @@ export const toggleTaskToday = async (taskId: number): Promise<Task> => {
     await handleAuthResponse(response, 'Failed to toggle task today status.');
     return await response.json();
 };
+
+export const fetchSubtasks = async (
+    taskId: number
+): Promise<{ subtasks: Task[]; subtask_progress: SubtaskProgress }> => {
+    const response = await fetch(`/api/task/${taskId}/subtasks`, {
+        credentials: 'include',
+        headers: getDefaultHeaders(),
+    });
+
+    await handleAuthResponse(response, 'Failed to fetch subtasks.');
+    return await response.json();
+};
+
+export const createSubtask = async (
+    taskId: number,
+    subtaskData: Partial<Task>
+): Promise<{ subtask: Task; parent_task: Task }> => {
+    const response = await fetch(`/api/task/${taskId}/subtasks`, {
+        method: 'POST',
+        credentials: 'include',
+        headers: getPostHeaders(),
+        body: JSON.stringify(subtaskData),
+    });
+
+    await handleAuthResponse(response, 'Failed to create subtask.');
+    return await response.json();
+};
+
+export const updateSubtask = async (
+    taskId: number,
+    subtaskId: number,
+    subtaskData: Partial<Task>
+): Promise<{ subtask: Task; parent_task: Task }> => {
+    const response = await fetch(`/api/task/${taskId}/subtasks/${subtaskId}`, {
+        method: 'PATCH',
+        credentials: 'include',
+        headers: getPostHeaders(),
+        body: JSON.stringify(subtaskData),
+    });
+
+    await handleAuthResponse(response, 'Failed to update subtask.');
+    return await response.json();
+};
+
+export const deleteSubtask = async (
+    taskId: number,
+    subtaskId: number
+): Promise<{ parent_task: Task }> => {
+    const response = await fetch(`/api/task/${taskId}/subtasks/${subtaskId}`, {
+        method: 'DELETE',
+        credentials: 'include',
+        headers: getDefaultHeaders(),
+    });
+
+    await handleAuthResponse(response, 'Failed to delete subtask.');
+    return await response.json();
+};
+
+export const fetchTaskDependencies = async (
+    taskId: number
+): Promise<TaskDependencies> => {
+    const response = await fetch(`/api/task/${taskId}/dependencies`, {
+        credentials: 'include',
+        headers: getDefaultHeaders(),
+    });
+
+    await handleAuthResponse(response, 'Failed to fetch task dependencies.');
+    return await response.json();
+};
+
+export const addTaskDependency = async (
+    taskId: number,
+    dependsOnTaskId: number
+): Promise<TaskDependencies> => {
+    const response = await fetch(`/api/task/${taskId}/dependencies`, {
+        method: 'POST',
+        credentials: 'include',
+        headers: getPostHeaders(),
+        body: JSON.stringify({ depends_on_task_id: dependsOnTaskId }),
+    });
+
+    // Surface validation errors such as cycles to the user
+    if (response.status === 400) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to add task dependency.');
+    }
+
+    await handleAuthResponse(response, 'Failed to add task dependency.');
+    return await response.json();
+};
+
+export const removeTaskDependency = async (
+    taskId: number,
+    dependsOnTaskId: number
+): Promise<TaskDependencies> => {
+    const response = await fetch(
+        `/api/task/${taskId}/dependencies/${dependsOnTaskId}`,
+        {
+            method: 'DELETE',
+            credentials: 'include',
+            headers: getDefaultHeaders(),
+        }
+    );
+
+    await handleAuthResponse(response, 'Failed to remove task dependency.');
+    return await response.json();
+};
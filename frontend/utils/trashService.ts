@@ -0,0 +1,44 @@
+import { TrashItem, TrashListing } from '../entities/TrashItem';
+import { handleAuthResponse, getDefaultHeaders } from './authUtils';
+
+export const fetchTrash = async (): Promise<TrashListing> => {
+    const response = await fetch('/api/trash', {
+        credentials: 'include',
+        headers: getDefaultHeaders(),
+    });
+
+    await handleAuthResponse(response, 'Failed to fetch trash.');
+    return await response.json();
+};
+
+export const restoreTrashItem = async (item: TrashItem): Promise<void> => {
+    const response = await fetch(`/api/trash/${item.type}/${item.id}/restore`, {
+        method: 'POST',
+        credentials: 'include',
+        headers: getDefaultHeaders(),
+    });
+
+    await handleAuthResponse(response, 'Failed to restore item.');
+};
+
+export const purgeTrashItem = async (item: TrashItem): Promise<void> => {
+    const response = await fetch(`/api/trash/${item.type}/${item.id}`, {
+        method: 'DELETE',
+        credentials: 'include',
+        headers: getDefaultHeaders(),
+    });
+
+    await handleAuthResponse(response, 'Failed to delete item.');
+};
+
+export const emptyTrash = async (): Promise<number> => {
+    const response = await fetch('/api/trash', {
+        method: 'DELETE',
+        credentials: 'include',
+        headers: getDefaultHeaders(),
+    });
+
+    await handleAuthResponse(response, 'Failed to empty trash.');
+    const data = await response.json();
+    return data.purged;
+};
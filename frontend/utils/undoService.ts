@@ -0,0 +1,23 @@
+import { Note } from '../entities/Note';
+import { Project } from '../entities/Project';
+import { Task } from '../entities/Task';
+import { handleAuthResponse, getDefaultHeaders } from './authUtils';
+
+export interface UndoResult {
+    tasks: Task[];
+    deleted_task_ids: number[];
+    // Projects and notes whose delete was undone
+    projects: Project[];
+    notes: Note[];
+}
+
+export const undoChange = async (undoToken: string): Promise<UndoResult> => {
+    const response = await fetch(`/api/undo/${undoToken}`, {
+        method: 'POST',
+        credentials: 'include',
+        headers: getDefaultHeaders(),
+    });
+
+    await handleAuthResponse(response, 'Failed to undo change.');
+    return await response.json();
+};
@@ -0,0 +1,105 @@
+import { Webhook, WebhookDelivery } from '../entities/Webhook';
+import {
+    handleAuthResponse,
+    getDefaultHeaders,
+    getPostHeaders,
+} from './authUtils';
+
+const handleValidationError = async (
+    response: Response,
+    errorMessage: string
+) => {
+    if (response.status === 400) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || errorMessage);
+    }
+};
+
+export const fetchWebhooks = async (): Promise<Webhook[]> => {
+    const response = await fetch('/api/webhooks', {
+        credentials: 'include',
+        headers: getDefaultHeaders(),
+    });
+
+    await handleAuthResponse(response, 'Failed to fetch webhooks.');
+    return await response.json();
+};
+
+export const createWebhook = async (
+    webhookData: Partial<Webhook>
+): Promise<Webhook> => {
+    const response = await fetch('/api/webhooks', {
+        method: 'POST',
+        credentials: 'include',
+        headers: getPostHeaders(),
+        body: JSON.stringify(webhookData),
+    });
+
+    await handleValidationError(response, 'Failed to create webhook.');
+    await handleAuthResponse(response, 'Failed to create webhook.');
+    return await response.json();
+};
+
+export const updateWebhook = async (
+    webhookId: number,
+    webhookData: Partial<Webhook>
+): Promise<Webhook> => {
+    const response = await fetch(`/api/webhooks/${webhookId}`, {
+        method: 'PATCH',
+        credentials: 'include',
+        headers: getPostHeaders(),
+        body: JSON.stringify(webhookData),
+    });
+
+    await handleValidationError(response, 'Failed to update webhook.');
+    await handleAuthResponse(response, 'Failed to update webhook.');
+    return await response.json();
+};
+
+export const rotateWebhookSecret = async (
+    webhookId: number
+): Promise<Webhook> => {
+    const response = await fetch(`/api/webhooks/${webhookId}/secret`, {
+        method: 'POST',
+        credentials: 'include',
+        headers: getPostHeaders(),
+    });
+
+    await handleAuthResponse(response, 'Failed to rotate webhook secret.');
+    return await response.json();
+};
+
+export const deleteWebhook = async (webhookId: number): Promise<void> => {
+    const response = await fetch(`/api/webhooks/${webhookId}`, {
+        method: 'DELETE',
+        credentials: 'include',
+        headers: getDefaultHeaders(),
+    });
+
+    await handleAuthResponse(response, 'Failed to delete webhook.');
+};
+
+export const fetchWebhookDeliveries = async (
+    webhookId: number
+): Promise<WebhookDelivery[]> => {
+    const response = await fetch(`/api/webhooks/${webhookId}/deliveries`, {
+        credentials: 'include',
+        headers: getDefaultHeaders(),
+    });
+
+    await handleAuthResponse(response, 'Failed to fetch webhook deliveries.');
+    return await response.json();
+};
+
+export const sendTestWebhook = async (
+    webhookId: number
+): Promise<WebhookDelivery> => {
+    const response = await fetch(`/api/webhooks/${webhookId}/test`, {
+        method: 'POST',
+        credentials: 'include',
+        headers: getPostHeaders(),
+    });
+
+    await handleAuthResponse(response, 'Failed to send test webhook.');
+    return await response.json();
+};
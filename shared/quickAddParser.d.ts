@@ -0,0 +1,49 @@
+export type QuickAddTokenType =
+    | 'recurrence'
+    | 'due'
+    | 'time'
+    | 'priority'
+    | 'project'
+    | 'tag';
+
+export interface QuickAddToken {
+    type: QuickAddTokenType;
+    text: string;
+    start: number;
+    end: number;
+}
+
+export interface QuickAddRecurrence {
+    recurrence_type: 'daily' | 'weekly' | 'monthly';
+    recurrence_interval: number;
+    recurrence_weekday?: number;
+    recurrence_month_day?: number;
+}
+
+export interface QuickAddResult {
+    name: string;
+    due_date: string | null;
+    due_time: string | null;
+    priority: 'low' | 'medium' | 'high' | null;
+    project: string | null;
+    tags: string[];
+    recurrence: QuickAddRecurrence | null;
+    tokens: QuickAddToken[];
+}
+
+export interface QuickAddOptions {
+    now?: Date;
+    timezone?: string;
+}
+
+export function parseQuickAdd(
+    text: string,
+    options?: QuickAddOptions
+): QuickAddResult;
+
+export function hasTaskFields(parsed: QuickAddResult): boolean;
+
+export function findProject<T extends { name: string }>(
+    projects: T[],
+    name: string | null
+): T | null;
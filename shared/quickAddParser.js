@@ -0,0 +1,400 @@
+'use strict';
+
+// Natural-language quick add parser, shared by the web client (InboxModal)
+// and the backend (Telegram poller). It has no dependencies and uses
+// CommonJS so webpack and Node can both load it.
+//
+//   "Pay rent tomorrow 9am !high +Home #bills"
+//   "Standup every monday at 10:00 +Work"
+//
+// Recognised tokens are removed from the task name. A weekday on its own
+// ("friday", "next friday") means its first occurrence after today.
+
+const WEEKDAYS = {
+    sunday: 0,
+    monday: 1,
+    tuesday: 2,
+    wednesday: 3,
+    thursday: 4,
+    friday: 5,
+    saturday: 6,
+    sun: 0,
+    mon: 1,
+    tue: 2,
+    tues: 2,
+    wed: 3,
+    thu: 4,
+    thur: 4,
+    thurs: 4,
+    fri: 5,
+    sat: 6,
+};
+
+const PRIORITIES = {
+    high: 'high',
+    h: 'high',
+    medium: 'medium',
+    med: 'medium',
+    m: 'medium',
+    low: 'low',
+    l: 'low',
+};
+
+// Abbreviations are only accepted after "on", "next" or "every" so that
+// words like "sun" or "sat" in a task name are left alone
+const FULL_WEEKDAY = 'sunday|monday|tuesday|wednesday|thursday|friday|saturday';
+const ANY_WEEKDAY = `${FULL_WEEKDAY}|tues|tue|wed|thurs|thur|thu|fri|sat|sun|mon`;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const pad = (value) => String(value).padStart(2, '0');
+
+// Calendar days are handled as UTC midnight dates to keep the arithmetic
+// independent from the runtime's own timezone
+const makeDay = (year, month, day) => new Date(Date.UTC(year, month - 1, day));
+const addDays = (day, amount) => new Date(day.getTime() + amount * DAY_MS);
+const addMonths = (day, amount) =>
+    makeDay(
+        day.getUTCFullYear(),
+        day.getUTCMonth() + 1 + amount,
+        day.getUTCDate()
+    );
+const formatDay = (day) => day.toISOString().slice(0, 10);
+const formatTime = (minutes) =>
+    `${pad(Math.floor(minutes / 60))}:${pad(minutes % 60)}`;
+
+// First occurrence of a weekday strictly after (or, optionally, on) a day
+const nextWeekday = (day, weekday, includeToday = false) => {
+    const diff = (weekday - day.getUTCDay() + 7) % 7;
+    return addDays(day, diff === 0 && !includeToday ? 7 : diff);
+};
+
+/**
+ * Resolve the current calendar day and time of day
+ * @param {Date} now - Reference instant
+ * @param {string} timezone - Optional IANA timezone, defaults to the runtime's
+ * @returns {Object} { today, minutes } where today is a UTC midnight date
+ */
+function getClock(now, timezone) {
+    if (!timezone) {
+        return {
+            today: makeDay(
+                now.getFullYear(),
+                now.getMonth() + 1,
+                now.getDate()
+            ),
+            minutes: now.getHours() * 60 + now.getMinutes(),
+        };
+    }
+
+    const parts = {};
+    new Intl.DateTimeFormat('en-US', {
+        timeZone: timezone,
+        year: 'numeric',
+        month: 'numeric',
+        day: 'numeric',
+        hour: 'numeric',
+        minute: 'numeric',
+        hourCycle: 'h23',
+    })
+        .formatToParts(now)
+        .forEach((part) => {
+            parts[part.type] = parseInt(part.value, 10);
+        });
+
+    return {
+        today: makeDay(parts.year, parts.month, parts.day),
+        minutes: (parts.hour % 24) * 60 + parts.minute,
+    };
+}
+
+const offsetDay = (today, amount, unit) => {
+    switch (unit.toLowerCase()) {
+        case 'week':
+            return addDays(today, amount * 7);
+        case 'month':
+            return addMonths(today, amount);
+        default:
+            return addDays(today, amount);
+    }
+};
+
+const RECURRENCE_TYPES = { day: 'daily', week: 'weekly', month: 'monthly' };
+
+// Each rule matches a whole word sequence. Groups are numbered from 1 within
+// the rule's own pattern.
+const RULES = [
+    {
+        type: 'recurrence',
+        pattern: '(?:every\\s+(\\d+)\\s+(day|week|month)s?)',
+        apply: ([interval, unit]) => ({
+            recurrence: {
+                recurrence_type: RECURRENCE_TYPES[unit.toLowerCase()],
+                recurrence_interval: parseInt(interval, 10),
+            },
+        }),
+    },
+    {
+        type: 'recurrence',
+        pattern: `(?:every\\s+(${ANY_WEEKDAY}))`,
+        apply: ([weekday]) => ({
+            recurrence: {
+                recurrence_type: 'weekly',
+                recurrence_interval: 1,
+                recurrence_weekday: WEEKDAYS[weekday.toLowerCase()],
+            },
+        }),
+    },
+    {
+        type: 'recurrence',
+        pattern: '(?:every\\s+(day|week|month)|(daily|weekly|monthly))',
+        apply: ([unit, adverb]) => ({
+            recurrence: {
+                recurrence_type: unit
+                    ? RECURRENCE_TYPES[unit.toLowerCase()]
+                    : adverb.toLowerCase(),
+                recurrence_interval: 1,
+            },
+        }),
+    },
+    {
+        type: 'due',
+        pattern: '(?:in\\s+(\\d+)\\s+(day|week|month)s?)',
+        apply: ([amount, unit], { today }) => ({
+            day: offsetDay(today, parseInt(amount, 10), unit),
+        }),
+    },
+    {
+        type: 'due',
+        pattern: '(?:next\\s+(week|month))',
+        apply: ([unit], { today }) => ({
+            day:
+                unit.toLowerCase() === 'week'
+                    ? nextWeekday(today, 1)
+                    : makeDay(
+                          today.getUTCFullYear(),
+                          today.getUTCMonth() + 2,
+                          1
+                      ),
+        }),
+    },
+    {
+        type: 'due',
+        pattern: `(?:(?:next|on)\\s+(${ANY_WEEKDAY})|(${FULL_WEEKDAY}))`,
+        apply: ([prefixed, bare], { today }) => ({
+            day: nextWeekday(today, WEEKDAYS[(prefixed || bare).toLowerCase()]),
+        }),
+    },
+    {
+        type: 'due',
+        pattern: '(today|tonight|tomorrow|tmrw)',
+        apply: ([keyword], { today }) => {
+            switch (keyword.toLowerCase()) {
+                case 'today':
+                    return { day: today };
+                case 'tonight':
+                    return { day: today, defaultMinutes: 20 * 60 };
+                default:
+                    return { day: addDays(today, 1) };
+            }
+        },
+    },
+    {
+        type: 'due',
+        pattern: '(?:on\\s+)?(\\d{4})-(\\d{2})-(\\d{2})',
+        apply: ([year, month, day]) => {
+            const date = makeDay(+year, +month, +day);
+            // Reject dates like 2025-02-30 that roll over into the next month
+            return formatDay(date) === `${year}-${month}-${day}`
+                ? { day: date }
+                : null;
+        },
+    },
+    {
+        type: 'time',
+        pattern: '(?:at\\s+)?(\\d{1,2})(?::([0-5]\\d))?\\s*(am|pm)',
+        apply: ([hour, minute, meridiem]) => {
+            const hours = parseInt(hour, 10);
+            if (hours < 1 || hours > 12) return null;
+            const offset = meridiem.toLowerCase() === 'pm' ? 12 : 0;
+            return {
+                minutes:
+                    ((hours % 12) + offset) * 60 + parseInt(minute || 0, 10),
+            };
+        },
+    },
+    {
+        type: 'time',
+        pattern: '(?:at\\s+)?([01]?\\d|2[0-3]):([0-5]\\d)',
+        apply: ([hour, minute]) => ({
+            minutes: parseInt(hour, 10) * 60 + parseInt(minute, 10),
+        }),
+    },
+    {
+        type: 'priority',
+        pattern: '!(high|medium|med|low|h|m|l)',
+        apply: ([priority]) => ({
+            priority: PRIORITIES[priority.toLowerCase()],
+        }),
+    },
+    {
+        type: 'project',
+        pattern: '\\+(?:"([^"]+)"|([^\\s"]+))',
+        apply: ([quoted, word]) => ({ project: (quoted || word).trim() }),
+    },
+    {
+        type: 'tag',
+        pattern: '#([a-zA-Z0-9_]+)',
+        apply: ([tag]) => ({ tag }),
+    },
+];
+
+// Rule types that may only be set once; later matches stay in the name
+const SINGLE_VALUE_TYPES = ['recurrence', 'due', 'time', 'priority', 'project'];
+
+/**
+ * Parse quick add text into task fields
+ * @param {string} text - Raw input, e.g. "Call mom tomorrow 3pm !high +Family"
+ * @param {Object} options
+ * @param {Date} options.now - Reference instant, defaults to the current time
+ * @param {string} options.timezone - IANA timezone used to resolve "today"
+ * @returns {Object} { name, due_date, due_time, priority, project, tags,
+ *   recurrence, tokens } where tokens lists the recognised spans
+ */
+function parseQuickAdd(text, options = {}) {
+    const input = String(text || '');
+    const { today, minutes: nowMinutes } = getClock(
+        options.now || new Date(),
+        options.timezone
+    );
+    const context = { today };
+
+    // Matched spans are blanked out so later rules can't reuse them
+    let remaining = input;
+    const tokens = [];
+    const found = {};
+    const tags = [];
+
+    for (const rule of RULES) {
+        const regex = new RegExp(`(^|\\s)${rule.pattern}(?=\\s|$)`, 'gi');
+        let match;
+
+        while ((match = regex.exec(remaining)) !== null) {
+            if (SINGLE_VALUE_TYPES.includes(rule.type) && found[rule.type]) {
+                break;
+            }
+
+            const result = rule.apply(match.slice(2), context);
+            if (!result) continue;
+
+            const start = match.index + match[1].length;
+            const end = match.index + match[0].length;
+
+            if (rule.type === 'tag') {
+                if (!tags.includes(result.tag)) tags.push(result.tag);
+            } else {
+                found[rule.type] = result;
+            }
+
+            tokens.push({
+                type: rule.type,
+                text: input.slice(start, end),
+                start,
+                end,
+            });
+            remaining =
+                remaining.slice(0, start) +
+                ' '.repeat(end - start) +
+                remaining.slice(end);
+        }
+    }
+
+    const recurrence = found.recurrence
+        ? { ...found.recurrence.recurrence }
+        : null;
+    let day = found.due ? found.due.day : null;
+    let minutes = found.time ? found.time.minutes : null;
+
+    if (minutes === null && found.due && found.due.defaultMinutes) {
+        minutes = found.due.defaultMinutes;
+    }
+
+    if (!day && recurrence) {
+        // Recurring tasks start on their first occurrence
+        day =
+            recurrence.recurrence_weekday !== undefined
+                ? nextWeekday(today, recurrence.recurrence_weekday, true)
+                : today;
+    } else if (!day && minutes !== null) {
+        // A time on its own means the next time the clock reaches it
+        day = minutes > nowMinutes ? today : addDays(today, 1);
+    }
+
+    if (recurrence) {
+        if (
+            recurrence.recurrence_type === 'weekly' &&
+            recurrence.recurrence_weekday === undefined
+        ) {
+            recurrence.recurrence_weekday = day.getUTCDay();
+        }
+        if (recurrence.recurrence_type === 'monthly') {
+            recurrence.recurrence_month_day = day.getUTCDate();
+        }
+    }
+
+    return {
+        name: remaining.replace(/\s+/g, ' ').trim(),
+        due_date: day ? formatDay(day) : null,
+        due_time: minutes !== null ? formatTime(minutes) : null,
+        priority: found.priority ? found.priority.priority : null,
+        project: found.project ? found.project.project : null,
+        tags,
+        recurrence,
+        tokens: tokens.sort((a, b) => a.start - b.start),
+    };
+}
+
+/**
+ * Whether the parsed text carries anything beyond a name and tags, i.e.
+ * whether it should become a task rather than a plain inbox item
+ * @param {Object} parsed - Result of parseQuickAdd
+ * @returns {boolean}
+ */
+function hasTaskFields(parsed) {
+    return Boolean(
+        parsed.due_date ||
+            parsed.priority ||
+            parsed.project ||
+            parsed.recurrence
+    );
+}
+
+// "+home-office" and "+Home_Office" both refer to a project named "Home Office"
+const normalizeProjectName = (name) =>
+    String(name || '')
+        .toLowerCase()
+        .replace(/[-_]+/g, ' ')
+        .replace(/\s+/g, ' ')
+        .trim();
+
+/**
+ * Find the project a parsed "+Project" token refers to
+ * @param {Object[]} projects - Candidate projects with a name
+ * @param {string} name - Project name from parseQuickAdd
+ * @returns {Object|null} Matching project
+ */
+function findProject(projects, name) {
+    if (!name) return null;
+    const target = normalizeProjectName(name);
+    return (
+        (projects || []).find(
+            (project) => normalizeProjectName(project.name) === target
+        ) || null
+    );
+}
+
+module.exports = {
+    parseQuickAdd,
+    hasTaskFields,
+    findProject,
+};